@@ -2,6 +2,18 @@ import { useEffect } from 'react'
 import type { ReaderSettings } from '@/hooks/useReadingSettings'
 import type { ViewMode } from '@/hooks/useReader'
 import { FONT_FAMILIES } from '@/types'
+import type { PublisherStyles, TextAlign } from '@/types'
+
+const ALIGN_OPTIONS: { value: TextAlign; label: string }[] = [
+  { value: 'justify', label: 'Justified' },
+  { value: 'left', label: 'Left' },
+]
+
+const PUBLISHER_OPTIONS: { value: PublisherStyles; label: string; title: string }[] = [
+  { value: 'override', label: 'Override', title: "Replace the book's styles with these settings" },
+  { value: 'blend', label: 'Blend', title: "Set the body text, keep the book's headings, quotes and tables" },
+  { value: 'keep', label: 'Publisher', title: "Keep the book's own styles; only colors and size change" },
+]
 
 interface ReadingSettingsPanelProps {
   settings: ReaderSettings
@@ -84,6 +96,63 @@ export function ReadingSettingsPanel({ settings, onUpdate, onClose }: ReadingSet
         />
       </div>
 
+      {/* Paragraph Spacing */}
+      <div>
+        <div className="flex items-center justify-between mb-1.5">
+          <label className="text-ui-xs font-body text-muted-foreground">Paragraph Spacing</label>
+          <span className="text-ui-xs font-body text-foreground tabular-nums">{settings.paragraphSpacing.toFixed(2)}em</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={1.5}
+          step={0.05}
+          value={settings.paragraphSpacing}
+          onChange={(e) => onUpdate({ paragraphSpacing: Number(e.target.value) })}
+          className="w-full h-1.5 accent-primary"
+        />
+      </div>
+
+      {/* Alignment & Hyphenation */}
+      <div>
+        <label className="block text-ui-xs font-body text-muted-foreground mb-1.5">Alignment</label>
+        <div className="flex gap-1 p-0.5 bg-muted rounded-md">
+          {ALIGN_OPTIONS.map((option) => (
+            <ChoiceButton
+              key={option.value}
+              active={settings.textAlign === option.value}
+              onClick={() => onUpdate({ textAlign: option.value })}
+              label={option.label}
+            />
+          ))}
+        </div>
+        <label className="flex items-center gap-2 mt-2 text-ui-xs font-body text-foreground cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.hyphenation}
+            onChange={(e) => onUpdate({ hyphenation: e.target.checked })}
+            className="accent-primary"
+          />
+          Hyphenate words at line ends
+        </label>
+      </div>
+
+      {/* Publisher Styles */}
+      <div>
+        <label className="block text-ui-xs font-body text-muted-foreground mb-1.5">Book Styles</label>
+        <div className="flex gap-1 p-0.5 bg-muted rounded-md">
+          {PUBLISHER_OPTIONS.map((option) => (
+            <ChoiceButton
+              key={option.value}
+              active={settings.publisherStyles === option.value}
+              onClick={() => onUpdate({ publisherStyles: option.value })}
+              label={option.label}
+              title={option.title}
+            />
+          ))}
+        </div>
+      </div>
+
       {/* Margins */}
       <div>
         <div className="flex items-center justify-between mb-1.5">
@@ -227,3 +296,31 @@ function ViewModeButton({
     </button>
   )
 }
+
+function ChoiceButton({
+  active,
+  onClick,
+  label,
+  title,
+}: {
+  active: boolean
+  onClick: () => void
+  label: string
+  title?: string
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={`
+        flex-1 py-1.5 rounded text-ui-xs font-body font-medium transition-all
+        ${active
+          ? 'bg-background text-foreground shadow-sm'
+          : 'text-muted-foreground hover:text-foreground'
+        }
+      `}
+    >
+      {label}
+    </button>
+  )
+}
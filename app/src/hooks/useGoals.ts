@@ -7,20 +7,35 @@ import {
   tracksService,
   categoriesService,
   manualTimeEntriesService,
+  goalsService,
+  chapterCompletionsService,
 } from '@/services'
 import type {
   BookDoc,
   SessionDoc,
   CategoryDoc,
   CategoryTrackDoc,
+  ChapterCompletionDoc,
   ManualTimeEntryDoc,
+  ReadingGoalDoc,
+  ReadingGoalWithProgress,
   TrackWithProgress,
   TrackProgress,
 } from '@/types'
+import {
+  currentStreak,
+  goalProgress,
+  localDateKey,
+  periodBounds,
+  type GoalDefinition,
+} from '@shared/goals'
+
+export type GoalInput = Omit<ReadingGoalDoc, 'id' | 'createdAt' | 'updatedAt'>
 
 export interface GoalsData {
   categories: CategoryDoc[]
   tracks: TrackWithProgress[]
+  books: BookDoc[]
   manualEntries: Map<string, ManualTimeEntryDoc[]> // categoryId -> entries
   loading: boolean
   // Category CRUD
@@ -52,12 +67,54 @@ export interface GoalsData {
   // Manual time entries
   addManualEntry: (categoryId: string, deltaMinutes: number, note: string | null, occurredAt: Date) => Promise<void>
   deleteManualEntry: (entryId: string) => Promise<void>
+  // Reading goals (books, pages, words, chapters, streaks)
+  readingGoals: ReadingGoalWithProgress[]
+  createGoal: (data: GoalInput) => Promise<ReadingGoalDoc>
+  deleteGoal: (id: string) => Promise<void>
   // Refresh
   refresh: () => void
   // Get entries for a specific category
   getEntriesForCategory: (categoryId: string) => ManualTimeEntryDoc[]
 }
 
+function toIso(value: Timestamp | null | undefined): string {
+  return value instanceof Timestamp ? value.toDate().toISOString() : ''
+}
+
+/**
+ * Amount read toward a goal in its current window, or the current streak; the
+ * browser-side counterpart of the desktop's SQL in goals/progress.ts.
+ */
+function goalAmount(
+  goal: GoalDefinition,
+  inScope: (bookId: string) => boolean,
+  data: { books: BookDoc[]; sessions: SessionDoc[]; completions: ChapterCompletionDoc[] },
+  now: Date
+): number {
+  const sessions = data.sessions.filter((s) => inScope(s.bookId))
+  if (goal.type === 'streak') {
+    return currentStreak(sessions.map((s) => localDateKey(s.startTime.toDate())), now)
+  }
+
+  const { start, end } = periodBounds(goal.period, now)
+  const within = (t: Timestamp | null | undefined): boolean => {
+    if (!(t instanceof Timestamp)) return false
+    const d = t.toDate()
+    return d >= start && d < end
+  }
+
+  switch (goal.type) {
+    case 'books':
+      return data.books.filter((b) => inScope(b.id) && within(b.finishedAt)).length
+    case 'chapters':
+      return data.completions.filter((c) => inScope(c.bookId) && within(c.completedAt)).length
+    case 'pages':
+      return sessions.filter((s) => within(s.startTime)).reduce((acc, s) => acc + (s.pagesViewed || 0), 0)
+    case 'words':
+      return sessions.filter((s) => within(s.startTime)).reduce((acc, s) => acc + (s.wordsReadEstimate || 0), 0)
+  }
+}
+
 export function useGoals(): GoalsData {
   const { user } = useAuth()
   const uid = user?.uid
@@ -67,17 +124,21 @@ export function useGoals(): GoalsData {
   const [books, setBooks] = useState<BookDoc[]>([])
   const [sessions, setSessions] = useState<SessionDoc[]>([])
   const [manualEntries, setManualEntries] = useState<Map<string, ManualTimeEntryDoc[]>>(new Map())
+  const [rawGoals, setRawGoals] = useState<ReadingGoalDoc[]>([])
+  const [completions, setCompletions] = useState<ChapterCompletionDoc[]>([])
   const [loading, setLoading] = useState(true)
 
   const fetchAll = useCallback(async () => {
     if (!uid) return
     try {
       setLoading(true)
-      const [allCategories, allTracks, allBooks, allSessions] = await Promise.all([
+      const [allCategories, allTracks, allBooks, allSessions, allGoals, allCompletions] = await Promise.all([
         categoriesService.getAll(uid),
         tracksService.getAll(uid),
         booksService.getAll(uid),
         sessionsService.getAll(uid),
+        goalsService.getAll(uid),
+        chapterCompletionsService.getAll(uid),
       ])
 
       // Fetch manual entries for all categories that have tracks
@@ -97,6 +158,8 @@ export function useGoals(): GoalsData {
       setBooks(allBooks)
       setSessions(allSessions)
       setManualEntries(entriesMap)
+      setRawGoals(allGoals)
+      setCompletions(allCompletions)
     } finally {
       setLoading(false)
     }
@@ -175,6 +238,52 @@ export function useGoals(): GoalsData {
       .sort((a, b) => b.progress.percentComplete - a.progress.percentComplete)
   }, [rawTracks, categories, books, sessions, manualEntries])
 
+  // Build reading goals with progress
+  const readingGoals = useMemo<ReadingGoalWithProgress[]>(() => {
+    const now = new Date()
+    const bookCategories = new Map(books.map((b) => [b.id, b.categoryId]))
+    return rawGoals
+      .map((goal) => {
+        const definition: GoalDefinition = {
+          type: goal.goalType,
+          target: goal.target,
+          period: goal.period,
+          scope: goal.scope,
+          scopeId: goal.scopeId,
+        }
+
+        let scopeName: string | null = null
+        let inScope = (_bookId: string): boolean => true
+        if (goal.scope === 'category') {
+          scopeName = categories.find((c) => c.id === goal.scopeId)?.name ?? null
+          inScope = (bookId) => bookCategories.get(bookId) === goal.scopeId
+        } else if (goal.scope === 'book') {
+          scopeName = books.find((b) => b.id === goal.scopeId)?.title ?? null
+          inScope = (bookId) => bookId === goal.scopeId
+        }
+        // A goal whose book or category was deleted no longer measures anything
+        if (goal.scope !== 'global' && scopeName === null) return null
+
+        const current = goalAmount(definition, inScope, { books, sessions, completions }, now)
+        const withProgress: ReadingGoalWithProgress = {
+          id: goal.id,
+          goal_type: goal.goalType,
+          target: goal.target,
+          period: goal.period,
+          scope: goal.scope,
+          scope_id: goal.scopeId,
+          title: goal.title,
+          created_at: toIso(goal.createdAt),
+          updated_at: toIso(goal.updatedAt),
+          scope_name: scopeName,
+          progress: goalProgress(definition, current, now),
+        }
+        return withProgress
+      })
+      .filter((g): g is ReadingGoalWithProgress => g !== null)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+  }, [rawGoals, categories, books, sessions, completions])
+
   // ─── Category CRUD ─────────────────────────────────────
   const createCategory = useCallback(
     async (data: { name: string; color: string; icon: string | null }) => {
@@ -315,6 +424,29 @@ export function useGoals(): GoalsData {
     [uid]
   )
 
+  // ─── Reading Goals ─────────────────────────────────────
+  const createGoal = useCallback(
+    async (data: GoalInput) => {
+      if (!uid) throw new Error('Not authenticated')
+      const goal = await goalsService.create(uid, {
+        ...data,
+        scopeId: data.scope === 'global' ? null : data.scopeId,
+      })
+      setRawGoals((prev) => [...prev, goal])
+      return goal
+    },
+    [uid]
+  )
+
+  const deleteGoal = useCallback(
+    async (id: string) => {
+      if (!uid) throw new Error('Not authenticated')
+      await goalsService.delete(uid, id)
+      setRawGoals((prev) => prev.filter((g) => g.id !== id))
+    },
+    [uid]
+  )
+
   const getEntriesForCategory = useCallback(
     (categoryId: string): ManualTimeEntryDoc[] => {
       return manualEntries.get(categoryId) || []
@@ -325,6 +457,7 @@ export function useGoals(): GoalsData {
   return {
     categories,
     tracks,
+    books,
     manualEntries,
     loading,
     createCategory,
@@ -335,6 +468,9 @@ export function useGoals(): GoalsData {
     deleteTrack,
     addManualEntry,
     deleteManualEntry,
+    readingGoals,
+    createGoal,
+    deleteGoal,
     refresh: fetchAll,
     getEntriesForCategory,
   }
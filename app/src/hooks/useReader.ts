@@ -102,30 +102,19 @@ export function useReader({
     const subtleBorder = rawFg ? `hsl(${rawFg} / 0.14)` : 'rgba(45,36,24,0.14)'
     const faintBorder = rawFg ? `hsl(${rawFg} / 0.07)` : 'rgba(45,36,24,0.07)'
 
-    return `
-      /* ═══════════════════════════════════════════════════
-         FlareRead — Premium Reading Typography
-         ═══════════════════════════════════════════════════ */
+    const hyphens = s.hyphenation ? 'auto' : 'manual'
 
+    // Colors, page breaks and image fitting apply whatever the publisher-style level
+    const chrome = `
       /* === Base — Optimized text rendering === */
       html, body {
         background-color: ${bg} !important;
         color: ${fg} !important;
-        font-family: ${s.fontFamily} !important;
-        font-size: ${s.fontSize}px !important;
-        line-height: ${s.lineHeight} !important;
         padding: 0 ${s.margin}px !important;
         box-sizing: border-box !important;
         text-rendering: optimizeLegibility !important;
         -webkit-font-smoothing: antialiased !important;
         -moz-osx-font-smoothing: grayscale !important;
-        font-kerning: normal !important;
-        font-feature-settings: "kern" 1, "liga" 1, "calt" 1 !important;
-        font-variant-ligatures: common-ligatures contextual !important;
-        -webkit-hyphens: auto !important;
-        hyphens: auto !important;
-        hanging-punctuation: first last !important;
-        word-spacing: 0.02em !important;
       }
 
       /* Warm gold text selection */
@@ -143,6 +132,106 @@ export function useReader({
         background-color: transparent !important;
       }
 
+      /* === Pagination control === */
+      p, li, dd, dt, blockquote {
+        orphans: 3 !important;
+        widows: 3 !important;
+      }
+      h1, h2, h3, h4, h5, h6 {
+        break-after: avoid !important;
+        page-break-after: avoid !important;
+        break-inside: avoid !important;
+        page-break-inside: avoid !important;
+      }
+      blockquote, figure, pre, table, img {
+        break-inside: avoid !important;
+        page-break-inside: avoid !important;
+      }
+
+      /* === Links === */
+      a, a:link, a:visited {
+        color: ${link} !important;
+        text-decoration: underline !important;
+        text-decoration-thickness: 1px !important;
+        text-underline-offset: 3px !important;
+        text-decoration-color: ${link}55 !important;
+      }
+
+      /* === Images === */
+      img {
+        max-width: 100% !important;
+        max-height: calc(100vh - 3em) !important;
+        width: auto !important;
+        height: auto !important;
+        object-fit: contain !important;
+        display: block !important;
+        margin: 0.8em auto !important;
+        cursor: pointer !important;
+        border-radius: 2px !important;
+      }
+      img[width], img[height] {
+        width: auto !important;
+        height: auto !important;
+        max-width: 100% !important;
+      }
+      img:only-child {
+        margin-top: 1.5em !important;
+        margin-bottom: 1.5em !important;
+      }
+      img[src*="bullet"], img[src*="icon"], img[src*="dingbat"],
+      img[class*="inline"], img[class*="icon"] {
+        display: inline !important;
+        max-height: 1.2em !important;
+        width: auto !important;
+        height: auto !important;
+        margin: 0 0.15em !important;
+        vertical-align: middle !important;
+        cursor: default !important;
+        border-radius: 0 !important;
+      }
+      svg {
+        max-width: 100% !important;
+        height: auto !important;
+      }
+      svg:not([class*="icon"]):not([width="1em"]):not([height="1em"]) {
+        display: block !important;
+        margin: 0.8em auto !important;
+        max-height: calc(100vh - 3em) !important;
+      }
+
+      /* === Custom scrollbar (scroll mode) === */
+      ::-webkit-scrollbar {
+        width: 6px;
+        height: 6px;
+      }
+      ::-webkit-scrollbar-track {
+        background: transparent;
+      }
+      ::-webkit-scrollbar-thumb {
+        background: ${rawFg ? `hsl(${rawFg} / 0.15)` : 'rgba(45,36,24,0.15)'};
+        border-radius: 999px;
+      }
+      ::-webkit-scrollbar-thumb:hover {
+        background: ${rawFg ? `hsl(${rawFg} / 0.3)` : 'rgba(45,36,24,0.3)'};
+      }
+    `
+
+    // Body text: font, size, spacing, alignment and hyphenation
+    const text = `
+      /* === Body text — the reader's font and spacing === */
+      html, body {
+        font-family: ${s.fontFamily} !important;
+        font-size: ${s.fontSize}px !important;
+        line-height: ${s.lineHeight} !important;
+        font-kerning: normal !important;
+        font-feature-settings: "kern" 1, "liga" 1, "calt" 1 !important;
+        font-variant-ligatures: common-ligatures contextual !important;
+        -webkit-hyphens: ${hyphens} !important;
+        hyphens: ${hyphens} !important;
+        hanging-punctuation: first last !important;
+        word-spacing: 0.02em !important;
+      }
+
       /* === EPUB content wrapper overrides === */
       body > div,
       body > section,
@@ -157,21 +246,45 @@ export function useReader({
         float: none !important;
       }
 
-      /* === Pagination control === */
-      p, li, dd, dt, blockquote {
-        orphans: 3 !important;
-        widows: 3 !important;
+      /* === Paragraphs — Book-style typesetting === */
+      p {
+        font-family: ${s.fontFamily} !important;
+        font-size: ${s.fontSize}px !important;
+        line-height: ${s.lineHeight} !important;
+        margin-top: 0 !important;
+        margin-bottom: 0.5em !important;
+        text-align: ${s.textAlign} !important;
+        text-justify: inter-word !important;
+        text-indent: 0 !important;
       }
-      h1, h2, h3, h4, h5, h6 {
-        break-after: avoid !important;
-        page-break-after: avoid !important;
-        break-inside: avoid !important;
-        page-break-inside: avoid !important;
+
+      p + p {
+        text-indent: 1.5em !important;
+        margin-top: 0 !important;
+        margin-bottom: ${s.paragraphSpacing}em !important;
       }
-      blockquote, figure, pre, table, img {
-        break-inside: avoid !important;
-        page-break-inside: avoid !important;
+
+      :not(p) + p {
+        text-indent: 0 !important;
+        margin-top: 0.3em !important;
+      }
+
+      [class*="intended"] > p,
+      [class*="indent"]:not([class*="indent-"]) > p {
+        text-indent: 1.5em !important;
+      }
+
+      /* === Inline elements === */
+      span, li, cite, em, strong, b, i, small, dt, dd {
+        font-family: ${s.fontFamily} !important;
+        font-size: inherit !important;
+        line-height: ${s.lineHeight} !important;
       }
+    `
+
+    // Everything else the book styles: headings, quotes, lists, code, tables and notes
+    const elements = `
+      /* Title and chapter pages sized for print */
       [class*="title"], [class*="chapter"], [class*="section"],
       [class*="half"], [class*="part"], [class*="dedication"],
       [class*="epigraph"] {
@@ -243,34 +356,6 @@ export function useReader({
         color: ${mutedFg} !important;
       }
 
-      /* === Paragraphs — Book-style typesetting === */
-      p {
-        font-family: ${s.fontFamily} !important;
-        font-size: ${s.fontSize}px !important;
-        line-height: ${s.lineHeight} !important;
-        margin-top: 0 !important;
-        margin-bottom: 0.5em !important;
-        text-align: justify !important;
-        text-justify: inter-word !important;
-        text-indent: 0 !important;
-      }
-
-      p + p {
-        text-indent: 1.5em !important;
-        margin-top: 0 !important;
-        margin-bottom: 0.15em !important;
-      }
-
-      :not(p) + p {
-        text-indent: 0 !important;
-        margin-top: 0.3em !important;
-      }
-
-      [class*="intended"] > p,
-      [class*="indent"]:not([class*="indent-"]) > p {
-        text-indent: 1.5em !important;
-      }
-
       /* === Inline emphasis === */
       em, i {
         letter-spacing: 0.01em !important;
@@ -291,22 +376,6 @@ export function useReader({
         border-radius: 2px !important;
       }
 
-      /* === Links === */
-      a, a:link, a:visited {
-        color: ${link} !important;
-        text-decoration: underline !important;
-        text-decoration-thickness: 1px !important;
-        text-underline-offset: 3px !important;
-        text-decoration-color: ${link}55 !important;
-      }
-
-      /* === Inline elements === */
-      span, li, cite, em, strong, b, i, small, dt, dd {
-        font-family: ${s.fontFamily} !important;
-        font-size: inherit !important;
-        line-height: ${s.lineHeight} !important;
-      }
-
       /* === Blockquotes — Refined editorial styling === */
       blockquote {
         font-family: ${s.fontFamily} !important;
@@ -351,7 +420,7 @@ export function useReader({
       li {
         margin-bottom: 0.3em !important;
         padding-left: 0.2em !important;
-        text-align: justify !important;
+        text-align: ${s.textAlign} !important;
         text-justify: inter-word !important;
       }
       li > ul, li > ol {
@@ -387,48 +456,6 @@ export function useReader({
         font-size: inherit !important;
       }
 
-      /* === Images === */
-      img {
-        max-width: 100% !important;
-        max-height: calc(100vh - 3em) !important;
-        width: auto !important;
-        height: auto !important;
-        object-fit: contain !important;
-        display: block !important;
-        margin: 0.8em auto !important;
-        cursor: pointer !important;
-        border-radius: 2px !important;
-      }
-      img[width], img[height] {
-        width: auto !important;
-        height: auto !important;
-        max-width: 100% !important;
-      }
-      img:only-child {
-        margin-top: 1.5em !important;
-        margin-bottom: 1.5em !important;
-      }
-      img[src*="bullet"], img[src*="icon"], img[src*="dingbat"],
-      img[class*="inline"], img[class*="icon"] {
-        display: inline !important;
-        max-height: 1.2em !important;
-        width: auto !important;
-        height: auto !important;
-        margin: 0 0.15em !important;
-        vertical-align: middle !important;
-        cursor: default !important;
-        border-radius: 0 !important;
-      }
-      svg {
-        max-width: 100% !important;
-        height: auto !important;
-      }
-      svg:not([class*="icon"]):not([width="1em"]):not([height="1em"]) {
-        display: block !important;
-        margin: 0.8em auto !important;
-        max-height: calc(100vh - 3em) !important;
-      }
-
       /* === Figures & Captions === */
       figure {
         margin: 1em 0 !important;
@@ -542,23 +569,24 @@ export function useReader({
         margin-bottom: 0.4em !important;
         text-indent: 0 !important;
       }
+    `
 
-      /* === Custom scrollbar (scroll mode) === */
-      ::-webkit-scrollbar {
-        width: 6px;
-        height: 6px;
-      }
-      ::-webkit-scrollbar-track {
-        background: transparent;
-      }
-      ::-webkit-scrollbar-thumb {
-        background: ${rawFg ? `hsl(${rawFg} / 0.15)` : 'rgba(45,36,24,0.15)'};
-        border-radius: 999px;
-      }
-      ::-webkit-scrollbar-thumb:hover {
-        background: ${rawFg ? `hsl(${rawFg} / 0.3)` : 'rgba(45,36,24,0.3)'};
+    // The book's own fonts and sizes, scaled from the root
+    const rootSize = `
+      html {
+        font-size: ${s.fontSize}px !important;
       }
     `
+
+    const header = `
+      /* ═══════════════════════════════════════════════════
+         FlareRead — Premium Reading Typography
+         ═══════════════════════════════════════════════════ */
+    `
+
+    if (s.publisherStyles === 'keep') return header + chrome + rootSize
+    if (s.publisherStyles === 'blend') return header + chrome + text
+    return header + chrome + text + elements
   }, [])
 
   // Inject a <style> tag and Google Fonts <link> into an epub iframe document
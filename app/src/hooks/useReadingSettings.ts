@@ -34,6 +34,10 @@ export function useReadingSettings() {
         lineHeight: doc.lineHeight,
         margin: doc.margin,
         contentWidth: doc.contentWidth,
+        hyphenation: doc.hyphenation,
+        textAlign: doc.textAlign,
+        paragraphSpacing: doc.paragraphSpacing,
+        publisherStyles: doc.publisherStyles,
         viewMode: DEFAULT_READER_SETTINGS.viewMode, // Not stored in Firestore yet
       })
       setLoaded(true)
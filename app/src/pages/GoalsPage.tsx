@@ -1,7 +1,18 @@
 import { useState, useMemo } from 'react'
 import { Timestamp } from 'firebase/firestore'
-import { useGoals } from '@/hooks/useGoals'
-import type { CategoryDoc, TrackWithProgress, ManualTimeEntryDoc } from '@/types'
+import { useGoals, type GoalInput } from '@/hooks/useGoals'
+import type {
+  BookDoc,
+  CategoryDoc,
+  GoalPeriod,
+  GoalScope,
+  GoalStatus,
+  GoalType,
+  ManualTimeEntryDoc,
+  ReadingGoalWithProgress,
+  TrackWithProgress,
+} from '@/types'
+import { describeGoal, GOAL_PERIODS, GOAL_TYPES } from '@shared/goals'
 
 // ─── Constants ─────────────────────────────────────────────
 
@@ -55,6 +66,21 @@ function getIconSvg(icon: string | null, className?: string) {
   }
 }
 
+/** Common challenges, one click away */
+const GOAL_PRESETS: { type: GoalType; target: number; period: GoalPeriod }[] = [
+  { type: 'books', target: 52, period: 'year' },
+  { type: 'pages', target: 200, period: 'week' },
+  { type: 'chapters', target: 1, period: 'day' },
+  { type: 'streak', target: 30, period: 'day' },
+]
+
+const GOAL_STATUS_STYLES: Record<GoalStatus, { label: string; className: string }> = {
+  completed: { label: 'Completed', className: 'text-green-600 dark:text-green-400' },
+  ahead: { label: 'Ahead', className: 'text-primary' },
+  'on-track': { label: 'On track', className: 'text-foreground' },
+  behind: { label: 'Behind', className: 'text-destructive' },
+}
+
 // ─── SVG Icons ─────────────────────────────────────────────
 
 function PlusIcon({ className }: { className?: string }) {
@@ -154,6 +180,10 @@ function entryDate(entry: ManualTimeEntryDoc): string {
   return d.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
 }
 
+function goalName(goal: ReadingGoalWithProgress): string {
+  return goal.title || describeGoal({ type: goal.goal_type, target: goal.target, period: goal.period })
+}
+
 // ─── Main Goals Page ───────────────────────────────────────
 
 export function GoalsPage() {
@@ -170,10 +200,14 @@ export function GoalsPage() {
     addManualEntry,
     deleteManualEntry,
     getEntriesForCategory,
+    books,
+    readingGoals,
+    createGoal,
+    deleteGoal,
   } = useGoals()
 
   // View state
-  const [view, setView] = useState<'tracks' | 'categories'>('tracks')
+  const [view, setView] = useState<'tracks' | 'reading' | 'categories'>('tracks')
   const [selectedTrack, setSelectedTrack] = useState<TrackWithProgress | null>(null)
 
   // Dialog state
@@ -183,7 +217,8 @@ export function GoalsPage() {
   const [editingTrack, setEditingTrack] = useState<TrackWithProgress | null>(null)
   const [showTimeEntryDialog, setShowTimeEntryDialog] = useState(false)
   const [timeEntryCategoryId, setTimeEntryCategoryId] = useState<string | null>(null)
-  const [confirmDelete, setConfirmDelete] = useState<{ type: 'category' | 'track'; id: string; name: string } | null>(null)
+  const [showGoalDialog, setShowGoalDialog] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState<{ type: 'category' | 'track' | 'goal'; id: string; name: string } | null>(null)
 
   // Categorized tracks
   const categoriesWithTracks = useMemo(() => {
@@ -240,7 +275,7 @@ export function GoalsPage() {
           <div>
             <h2 className="text-2xl font-display font-semibold text-foreground">Goals</h2>
             <p className="text-ui-sm text-muted-foreground font-body mt-0.5">
-              Track your learning progress across categories
+              Reading challenges and learning progress across categories
             </p>
           </div>
           <div className="flex items-center gap-2">
@@ -254,6 +289,13 @@ export function GoalsPage() {
               <PlusIcon className="w-4 h-4" />
               Category
             </button>
+            <button
+              onClick={() => setShowGoalDialog(true)}
+              className="inline-flex items-center gap-1.5 rounded-lg border border-border bg-card px-3 py-2 text-ui-sm font-body font-medium text-foreground hover:bg-accent transition-colors"
+            >
+              <PlusIcon className="w-4 h-4" />
+              Reading Goal
+            </button>
             <button
               onClick={() => {
                 setEditingTrack(null)
@@ -279,6 +321,16 @@ export function GoalsPage() {
           >
             Tracks
           </button>
+          <button
+            onClick={() => setView('reading')}
+            className={`px-4 py-1.5 rounded-md text-ui-sm font-body font-medium transition-all ${
+              view === 'reading'
+                ? 'bg-card text-foreground shadow-sm'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            Reading
+          </button>
           <button
             onClick={() => setView('categories')}
             className={`px-4 py-1.5 rounded-md text-ui-sm font-body font-medium transition-all ${
@@ -378,6 +430,23 @@ export function GoalsPage() {
           </>
         )}
 
+        {/* ─── Reading Goals View ────────────────────── */}
+        {view === 'reading' && (
+          readingGoals.length === 0 ? (
+            <EmptyReadingGoalsState onCreateGoal={() => setShowGoalDialog(true)} />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {readingGoals.map((goal) => (
+                <ReadingGoalCard
+                  key={goal.id}
+                  goal={goal}
+                  onDelete={() => setConfirmDelete({ type: 'goal', id: goal.id, name: goalName(goal) })}
+                />
+              ))}
+            </div>
+          )
+        )}
+
         {/* ─── Categories View ───────────────────────── */}
         {view === 'categories' && (
           <CategoriesView
@@ -453,6 +522,19 @@ export function GoalsPage() {
         />
       )}
 
+      {showGoalDialog && (
+        <ReadingGoalDialog
+          categories={categories.filter((c) => c.id !== 'uncategorized')}
+          books={books}
+          onSave={async (data) => {
+            await createGoal(data)
+            setShowGoalDialog(false)
+            setView('reading')
+          }}
+          onClose={() => setShowGoalDialog(false)}
+        />
+      )}
+
       {confirmDelete && (
         <ConfirmDeleteDialog
           type={confirmDelete.type}
@@ -460,6 +542,8 @@ export function GoalsPage() {
           onConfirm={async () => {
             if (confirmDelete.type === 'category') {
               await deleteCategory(confirmDelete.id)
+            } else if (confirmDelete.type === 'goal') {
+              await deleteGoal(confirmDelete.id)
             } else {
               await deleteTrack(confirmDelete.id)
               setSelectedTrack(null)
@@ -629,6 +713,77 @@ function GoalTrackCard({
   )
 }
 
+// ─── Reading Goal Card ─────────────────────────────────────
+
+function ReadingGoalCard({
+  goal,
+  onDelete,
+}: {
+  goal: ReadingGoalWithProgress
+  onDelete: () => void
+}) {
+  const { progress } = goal
+  const units = GOAL_TYPES[goal.goal_type].units
+  const windowLabel = goal.goal_type === 'streak' ? 'current streak' : GOAL_PERIODS[goal.period].current
+
+  return (
+    <div className="group rounded-xl bg-card border border-border p-4 hover:border-primary/20 transition-all duration-300">
+      <div className="flex items-start gap-3 mb-3">
+        <div className="w-9 h-9 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+          <FlagIcon className="w-4 h-4 text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-ui-base font-medium text-foreground truncate">{goalName(goal)}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {goal.scope_name ?? 'All reading'}
+          </p>
+        </div>
+        <button
+          onClick={onDelete}
+          className="p-1.5 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 opacity-0 group-hover:opacity-100 transition-all"
+          title="Delete goal"
+        >
+          <TrashIcon className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="flex items-baseline gap-1 mb-2">
+        <span className="font-mono text-ui-lg font-bold text-foreground tabular-nums">
+          {Math.round(progress.current).toLocaleString()}
+        </span>
+        <span className="text-ui-sm text-muted-foreground">
+          / {progress.target.toLocaleString()} {units}
+        </span>
+        <span className="ml-auto font-mono text-ui-sm font-semibold text-primary">
+          {Math.round(progress.percentComplete)}%
+        </span>
+      </div>
+
+      <div className="h-2 bg-muted rounded-full overflow-hidden mb-3">
+        <div
+          className="h-full rounded-full bg-primary transition-all duration-700 ease-out"
+          style={{ width: `${progress.percentComplete}%` }}
+        />
+      </div>
+
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <span className={`font-medium ${GOAL_STATUS_STYLES[progress.status].className}`}>
+          {GOAL_STATUS_STYLES[progress.status].label}
+        </span>
+        <span className="flex items-center gap-1">
+          <CalendarIcon className="h-3 w-3" />
+          {windowLabel}
+        </span>
+        {progress.expected != null && progress.status !== 'completed' && (
+          <span className="ml-auto tabular-nums">
+            {Math.round(progress.expected).toLocaleString()} expected by now
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
 // ─── Track Detail View ─────────────────────────────────────
 
 function TrackDetailView({
@@ -991,6 +1146,29 @@ function EmptyTracksState({ onCreateTrack }: { onCreateTrack: () => void }) {
   )
 }
 
+// ─── Empty Reading Goals State ─────────────────────────────
+
+function EmptyReadingGoalsState({ onCreateGoal }: { onCreateGoal: () => void }) {
+  return (
+    <div className="rounded-xl border border-dashed border-border p-12 text-center">
+      <FlagIcon className="w-10 h-10 text-muted-foreground/30 mx-auto mb-3" />
+      <h3 className="text-ui-lg font-body font-medium text-foreground mb-1">
+        No reading goals yet
+      </h3>
+      <p className="text-ui-sm text-muted-foreground font-body mb-4 max-w-md mx-auto">
+        Set a challenge for books finished, pages or words read, chapters, or days in a row.
+      </p>
+      <button
+        onClick={onCreateGoal}
+        className="inline-flex items-center gap-2 rounded-lg bg-primary text-primary-foreground px-4 py-2 text-ui-sm font-body font-medium hover:bg-primary/90 transition-colors"
+      >
+        <PlusIcon className="w-4 h-4" />
+        Create your first goal
+      </button>
+    </div>
+  )
+}
+
 // ─── Category Dialog ───────────────────────────────────────
 
 function CategoryDialog({
@@ -1313,6 +1491,203 @@ function TrackDialog({
   )
 }
 
+// ─── Reading Goal Dialog ───────────────────────────────────
+
+function ReadingGoalDialog({
+  categories,
+  books,
+  onSave,
+  onClose,
+}: {
+  categories: CategoryDoc[]
+  books: BookDoc[]
+  onSave: (data: GoalInput) => Promise<void>
+  onClose: () => void
+}) {
+  const sortedBooks = [...books].sort((a, b) => a.title.localeCompare(b.title))
+  const [goalType, setGoalType] = useState<GoalType>('books')
+  const [target, setTarget] = useState('12')
+  const [period, setPeriod] = useState<GoalPeriod>('year')
+  const [scope, setScope] = useState<GoalScope>('global')
+  const [categoryId, setCategoryId] = useState(categories[0]?.id || '')
+  const [bookId, setBookId] = useState(sortedBooks[0]?.id || '')
+  const [title, setTitle] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const targetValue = parseFloat(target)
+  const scopeId = scope === 'book' ? bookId : scope === 'category' ? categoryId : null
+  const canSubmit = targetValue > 0 && (scope === 'global' || !!scopeId)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSubmit) return
+    setSaving(true)
+    try {
+      await onSave({
+        goalType,
+        target: targetValue,
+        period: goalType === 'streak' ? 'day' : period,
+        scope,
+        scopeId,
+        title: title.trim() || null,
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass =
+    'w-full rounded-md border border-input bg-background px-3 py-2 text-ui-sm font-body text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring'
+
+  return (
+    <DialogOverlay onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-display font-semibold text-foreground">New Reading Goal</h3>
+          <button type="button" onClick={onClose} className="p-1 text-muted-foreground hover:text-foreground">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Presets */}
+        <div className="flex flex-wrap gap-1.5">
+          {GOAL_PRESETS.map((preset) => (
+            <button
+              key={preset.type}
+              type="button"
+              onClick={() => {
+                setGoalType(preset.type)
+                setTarget(String(preset.target))
+                setPeriod(preset.period)
+              }}
+              className="px-2.5 py-1 rounded-full border border-border text-xs text-muted-foreground hover:text-foreground hover:border-primary/30 transition-colors"
+            >
+              {describeGoal(preset)}
+            </button>
+          ))}
+        </div>
+
+        {/* Measure */}
+        <div>
+          <label className="block text-ui-sm font-body font-medium text-foreground mb-2">Measure</label>
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(GOAL_TYPES) as GoalType[]).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setGoalType(type)}
+                className={`px-3 py-2 rounded-lg border text-ui-sm text-left transition-all ${
+                  goalType === type
+                    ? 'border-primary bg-primary/10 text-primary'
+                    : 'border-border text-muted-foreground hover:text-foreground hover:border-primary/30'
+                }`}
+              >
+                {GOAL_TYPES[type].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Target and period */}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-ui-sm font-body font-medium text-foreground mb-1">
+              {goalType === 'streak' ? 'Days in a row' : `Target (${GOAL_TYPES[goalType].units})`}
+            </label>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+          {goalType !== 'streak' && (
+            <div>
+              <label className="block text-ui-sm font-body font-medium text-foreground mb-1">Every</label>
+              <select
+                value={period}
+                onChange={(e) => setPeriod(e.target.value as GoalPeriod)}
+                className={inputClass}
+              >
+                {(Object.keys(GOAL_PERIODS) as GoalPeriod[]).map((p) => (
+                  <option key={p} value={p}>
+                    {p.charAt(0).toUpperCase() + p.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {/* Scope */}
+        <div>
+          <label className="block text-ui-sm font-body font-medium text-foreground mb-1">Counts</label>
+          <select value={scope} onChange={(e) => setScope(e.target.value as GoalScope)} className={inputClass}>
+            <option value="global">All reading</option>
+            {categories.length > 0 && <option value="category">One category</option>}
+            {sortedBooks.length > 0 && <option value="book">One book</option>}
+          </select>
+        </div>
+
+        {scope === 'category' && (
+          <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={inputClass}>
+            {categories.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {scope === 'book' && (
+          <select value={bookId} onChange={(e) => setBookId(e.target.value)} className={inputClass}>
+            {sortedBooks.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.title}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {/* Name */}
+        <div>
+          <label className="block text-ui-sm font-body font-medium text-foreground mb-1">
+            Name <span className="text-muted-foreground font-normal">(optional)</span>
+          </label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={targetValue > 0 ? describeGoal({ type: goalType, target: targetValue, period }) : ''}
+            className={inputClass}
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end gap-2 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-ui-sm font-body text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!canSubmit || saving}
+            className="px-4 py-2 rounded-lg bg-primary text-primary-foreground text-ui-sm font-body font-medium hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Creating...' : 'Create Goal'}
+          </button>
+        </div>
+      </form>
+    </DialogOverlay>
+  )
+}
+
 // ─── Time Entry Dialog ─────────────────────────────────────
 
 function TimeEntryDialog({
@@ -1452,7 +1827,7 @@ function ConfirmDeleteDialog({
   onConfirm,
   onCancel,
 }: {
-  type: 'category' | 'track'
+  type: 'category' | 'track' | 'goal'
   name: string
   onConfirm: () => Promise<void>
   onCancel: () => void
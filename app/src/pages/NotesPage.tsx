@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
-import { highlightsService, notesService, booksService } from '@/services'
-import { HIGHLIGHT_COLORS, type HighlightDoc, type NoteDoc, type BookDoc } from '@/types'
+import { highlightsService, notesService, booksService, categoriesService } from '@/services'
+import { HIGHLIGHT_COLORS, type HighlightDoc, type NoteDoc, type BookDoc, type CategoryDoc } from '@/types'
+import { EXPORT_FORMATS, exportAnnotations, type AnnotationSet, type ExportFile, type ExportFormatId } from '@shared/annotations'
 
 interface HighlightWithBook extends HighlightDoc {
   bookTitle: string
@@ -16,6 +17,16 @@ interface NoteWithContext extends NoteDoc {
   highlightColor: string | null
 }
 
+function downloadFile(file: ExportFile) {
+  const blob = new Blob([file.content], { type: file.mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = file.name
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
 export function NotesPage() {
   const { user } = useAuth()
   const uid = user?.uid
@@ -24,6 +35,7 @@ export function NotesPage() {
   const [highlights, setHighlights] = useState<HighlightWithBook[]>([])
   const [notes, setNotes] = useState<NoteWithContext[]>([])
   const [books, setBooks] = useState<BookDoc[]>([])
+  const [categories, setCategories] = useState<CategoryDoc[]>([])
   const [loading, setLoading] = useState(true)
 
   // Filters
@@ -32,6 +44,13 @@ export function NotesPage() {
   const [searchQuery, setSearchQuery] = useState('')
   const [tab, setTab] = useState<'highlights' | 'notes'>('highlights')
 
+  // Export options
+  const [showExport, setShowExport] = useState(false)
+  const [exportFormat, setExportFormat] = useState<ExportFormatId>('obsidian')
+  const [exportCategoryId, setExportCategoryId] = useState<string | null>(null)
+  const [exportFrom, setExportFrom] = useState('')
+  const [exportTo, setExportTo] = useState('')
+
   // Edit state
   const [editingNoteId, setEditingNoteId] = useState<string | null>(null)
   const [editContent, setEditContent] = useState('')
@@ -43,16 +62,18 @@ export function NotesPage() {
 
     async function loadData() {
       try {
-        const [allHighlights, allNotes, allBooks] = await Promise.all([
+        const [allHighlights, allNotes, allBooks, allCategories] = await Promise.all([
           highlightsService.getAll(uid!),
           notesService.getAll(uid!),
           booksService.getAll(uid!),
+          categoriesService.getAll(uid!),
         ])
 
         if (cancelled) return
 
         const bookMap = new Map(allBooks.map((b) => [b.id, b]))
         setBooks(allBooks)
+        setCategories(allCategories)
 
         setHighlights(
           allHighlights.map((h) => ({
@@ -171,84 +192,47 @@ export function NotesPage() {
     [uid, editContent]
   )
 
-  // Export all (or filtered) to Markdown
+  // Export through the same serializer the desktop app uses, scoped to the
+  // selected book (or a category) and an optional date range
   const handleExport = useCallback(() => {
-    const lines: string[] = []
-    lines.push('# My Reading Annotations')
-    lines.push(`*Exported from FlareRead on ${new Date().toLocaleDateString()}*`)
-    lines.push('')
-
-    // Group highlights by book
-    const byBook = new Map<string, { title: string; author: string | null; highlights: HighlightWithBook[]; notes: NoteWithContext[] }>()
-
-    for (const h of filteredHighlights) {
-      if (!byBook.has(h.bookId)) {
-        byBook.set(h.bookId, { title: h.bookTitle, author: h.bookAuthor, highlights: [], notes: [] })
-      }
-      byBook.get(h.bookId)!.highlights.push(h)
-    }
-
-    for (const n of filteredNotes) {
-      if (!byBook.has(n.bookId)) {
-        byBook.set(n.bookId, { title: n.bookTitle, author: n.bookAuthor, highlights: [], notes: [] })
-      }
-      byBook.get(n.bookId)!.notes.push(n)
-    }
-
-    for (const [, bookData] of byBook) {
-      lines.push(`## ${bookData.title}`)
-      if (bookData.author) lines.push(`*by ${bookData.author}*`)
-      lines.push('')
-
-      if (bookData.highlights.length > 0) {
-        // Group by chapter
-        const byChapter = new Map<string, HighlightWithBook[]>()
-        for (const h of bookData.highlights) {
-          const ch = h.chapter || 'Other'
-          if (!byChapter.has(ch)) byChapter.set(ch, [])
-          byChapter.get(ch)!.push(h)
-        }
-
-        for (const [chapter, chHighlights] of byChapter) {
-          lines.push(`### ${chapter}`)
-          lines.push('')
-          for (const h of chHighlights) {
-            lines.push(`> ${h.text}`)
-            lines.push('')
-            // Add linked notes
-            const linked = filteredNotes.filter((n) => n.highlightId === h.id)
-            for (const n of linked) {
-              lines.push(`**Note:** ${n.content}`)
-              lines.push('')
-            }
-          }
-        }
-      }
-
-      // Standalone notes
-      const standalone = bookData.notes.filter((n) => !n.highlightId)
-      if (standalone.length > 0) {
-        lines.push('### Notes')
-        lines.push('')
-        for (const n of standalone) {
-          lines.push(`- ${n.content}`)
-          if (n.tags.length > 0) {
-            lines.push(`  *Tags: ${n.tags.join(', ')}*`)
-          }
-          lines.push('')
-        }
-      }
+    const categoryNames = new Map(categories.map((c) => [c.id, c.name]))
+    const set: AnnotationSet = {
+      books: books.map((b) => ({
+        id: b.id,
+        title: b.title,
+        author: b.author,
+        categoryId: b.categoryId,
+        categoryName: b.categoryId ? categoryNames.get(b.categoryId) ?? null : null,
+      })),
+      highlights: highlights.map((h) => ({
+        id: h.id,
+        bookId: h.bookId,
+        text: h.text,
+        color: h.color,
+        chapter: h.chapter,
+        location: h.cfiRange,
+        createdAt: h.createdAt.toDate().toISOString(),
+      })),
+      notes: notes.map((n) => ({
+        id: n.id,
+        bookId: n.bookId,
+        highlightId: n.highlightId,
+        content: n.content,
+        tags: n.tags,
+        createdAt: n.createdAt.toDate().toISOString(),
+      })),
     }
 
-    const markdown = lines.join('\n')
-    const blob = new Blob([markdown], { type: 'text/markdown' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `flareread-annotations-${new Date().toISOString().split('T')[0]}.md`
-    a.click()
-    URL.revokeObjectURL(url)
-  }, [filteredHighlights, filteredNotes])
+    const files = exportAnnotations(set, exportFormat, {
+      bookId: selectedBookId,
+      categoryId: selectedBookId ? null : exportCategoryId,
+      from: exportFrom || null,
+      to: exportTo || null,
+    })
+    // Stagger per-book files so the browser doesn't drop downloads
+    files.forEach((file, i) => setTimeout(() => downloadFile(file), i * 150))
+    setShowExport(false)
+  }, [books, categories, highlights, notes, exportFormat, selectedBookId, exportCategoryId, exportFrom, exportTo])
 
   if (loading) {
     return (
@@ -277,15 +261,88 @@ export function NotesPage() {
         </div>
 
         {totalAnnotations > 0 && (
-          <button
-            onClick={handleExport}
-            className="flex items-center gap-2 px-3.5 py-2 text-ui-sm font-body font-medium text-primary-foreground bg-primary rounded-lg hover:opacity-90 transition-opacity shrink-0"
-          >
-            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" />
-            </svg>
-            Export Markdown
-          </button>
+          <div className="relative shrink-0">
+            <button
+              onClick={() => setShowExport((v) => !v)}
+              className="flex items-center gap-2 px-3.5 py-2 text-ui-sm font-body font-medium text-primary-foreground bg-primary rounded-lg hover:opacity-90 transition-opacity"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" />
+              </svg>
+              Export
+            </button>
+
+            {showExport && (
+              <div className="absolute right-0 top-full mt-2 w-72 z-20 p-4 space-y-3 bg-card border border-border rounded-xl shadow-lg">
+                <label className="block">
+                  <span className="text-ui-xs font-body text-muted-foreground">Format</span>
+                  <select
+                    value={exportFormat}
+                    onChange={(e) => setExportFormat(e.target.value as ExportFormatId)}
+                    className="mt-1 w-full px-3 py-2 text-ui-sm font-body bg-background border border-border rounded-lg focus:outline-none focus:ring-1 focus:ring-primary"
+                  >
+                    {Object.values(EXPORT_FORMATS).map((f) => (
+                      <option key={f.id} value={f.id}>
+                        {f.label}{f.perBook ? ' (one file per book)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                {selectedBookId ? (
+                  <p className="text-ui-xs font-body text-muted-foreground">
+                    Exporting {books.find((b) => b.id === selectedBookId)?.title ?? 'the selected book'}
+                  </p>
+                ) : (
+                  categories.length > 0 && (
+                    <label className="block">
+                      <span className="text-ui-xs font-body text-muted-foreground">Category</span>
+                      <select
+                        value={exportCategoryId || ''}
+                        onChange={(e) => setExportCategoryId(e.target.value || null)}
+                        className="mt-1 w-full px-3 py-2 text-ui-sm font-body bg-background border border-border rounded-lg focus:outline-none focus:ring-1 focus:ring-primary"
+                      >
+                        <option value="">All books</option>
+                        {categories.map((c) => (
+                          <option key={c.id} value={c.id}>
+                            {c.name}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="block">
+                    <span className="text-ui-xs font-body text-muted-foreground">From</span>
+                    <input
+                      type="date"
+                      value={exportFrom}
+                      onChange={(e) => setExportFrom(e.target.value)}
+                      className="mt-1 w-full px-2 py-1.5 text-ui-sm font-body bg-background border border-border rounded-lg focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-ui-xs font-body text-muted-foreground">To</span>
+                    <input
+                      type="date"
+                      value={exportTo}
+                      onChange={(e) => setExportTo(e.target.value)}
+                      className="mt-1 w-full px-2 py-1.5 text-ui-sm font-body bg-background border border-border rounded-lg focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                  </label>
+                </div>
+
+                <button
+                  onClick={handleExport}
+                  className="w-full px-3 py-2 text-ui-sm font-body font-medium text-primary-foreground bg-primary rounded-lg hover:opacity-90 transition-opacity"
+                >
+                  Download
+                </button>
+              </div>
+            )}
+          </div>
         )}
       </div>
 
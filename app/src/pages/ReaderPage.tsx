@@ -1,9 +1,10 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { getDownloadURL, ref } from 'firebase/storage'
+import { Timestamp } from 'firebase/firestore'
 import { storage } from '@/lib/firebase'
 import { useAuth } from '@/contexts/AuthContext'
-import { booksService } from '@/services'
+import { booksService, chapterCompletionsService } from '@/services'
 import { useReader, type SelectionInfo } from '@/hooks/useReader'
 import { useReadingSettings } from '@/hooks/useReadingSettings'
 import { useHighlights } from '@/hooks/useHighlights'
@@ -85,6 +86,9 @@ export function ReaderPage() {
 
   // Auto-save debounce ref
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Last chapter and percent seen, to tell when a chapter was read to its end
+  const lastLocationRef = useRef<{ chapter: string | null; percent: number } | null>(null)
+  const finishedRef = useRef(false)
 
   // Load book data and EPUB URL
   useEffect(() => {
@@ -100,6 +104,7 @@ export function ReaderPage() {
           return
         }
         setBook(bookDoc)
+        finishedRef.current = !!bookDoc.finishedAt
 
         // Get download URL for the EPUB
         const epubRef = ref(storage, bookDoc.epubStoragePath)
@@ -120,13 +125,31 @@ export function ReaderPage() {
   const handleLocationChange = useCallback(
     (cfi: string, percent: number, chapter: string | null) => {
       if (!uid || !bookId) return
+
+      // Moving forward into another chapter, or reaching the end of the book,
+      // finishes the chapter being read; these feed chapter goals
+      const last = lastLocationRef.current
+      const finishedChapter =
+        last?.chapter && percent > last.percent && (chapter !== last.chapter || percent >= 100)
+          ? last.chapter
+          : null
+      if (finishedChapter) {
+        chapterCompletionsService.record(uid, bookId, finishedChapter).catch((err) => {
+          console.error('Failed to record chapter completion:', err)
+        })
+      }
+      lastLocationRef.current = { chapter, percent }
+
       if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current)
       saveTimeoutRef.current = setTimeout(() => {
+        const finishing = percent >= 100 && !finishedRef.current
         booksService.updateProgress(uid, bookId, {
           percentComplete: percent,
           cfiPosition: cfi,
           currentChapter: chapter,
+          ...(finishing ? { finishedAt: Timestamp.now() } : {}),
         })
+        if (finishing) finishedRef.current = true
       }, 2000)
     },
     [uid, bookId]
@@ -70,7 +70,12 @@ export const booksService = {
   async updateProgress(
     uid: string,
     bookId: string,
-    progress: { percentComplete: number; cfiPosition: string | null; currentChapter: string | null }
+    progress: {
+      percentComplete: number
+      cfiPosition: string | null
+      currentChapter: string | null
+      finishedAt?: Timestamp
+    }
   ): Promise<void> {
     await updateDoc(bookRef(uid, bookId), {
       ...progress,
@@ -0,0 +1,39 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  Timestamp
+} from 'firebase/firestore'
+import { db } from '../lib/firebase'
+import type { ChapterCompletionDoc } from '../types'
+
+function completionsCol(uid: string) {
+  return collection(db, 'users', uid, 'chapterCompletions')
+}
+
+/** One document per book and chapter, so finishing a chapter again keeps the first date */
+function completionRef(uid: string, bookId: string, chapter: string) {
+  return doc(db, 'users', uid, 'chapterCompletions', `${bookId}_${encodeURIComponent(chapter)}`)
+}
+
+export const chapterCompletionsService = {
+  async getAll(uid: string): Promise<ChapterCompletionDoc[]> {
+    const snap = await getDocs(completionsCol(uid))
+    return snap.docs.map((d) => ({ id: d.id, ...d.data() }) as ChapterCompletionDoc)
+  },
+
+  async record(uid: string, bookId: string, chapter: string): Promise<void> {
+    const ref = completionRef(uid, bookId, chapter)
+    const existing = await getDoc(ref)
+    if (existing.exists()) return
+    const completion: ChapterCompletionDoc = {
+      id: ref.id,
+      bookId,
+      chapter,
+      completedAt: Timestamp.now()
+    }
+    await setDoc(ref, completion)
+  }
+}
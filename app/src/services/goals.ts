@@ -0,0 +1,53 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  Timestamp
+} from 'firebase/firestore'
+import { db } from '../lib/firebase'
+import type { ReadingGoalDoc } from '../types'
+
+function goalsCol(uid: string) {
+  return collection(db, 'users', uid, 'goals')
+}
+
+function goalRef(uid: string, goalId: string) {
+  return doc(db, 'users', uid, 'goals', goalId)
+}
+
+export const goalsService = {
+  async getAll(uid: string): Promise<ReadingGoalDoc[]> {
+    const snap = await getDocs(goalsCol(uid))
+    return snap.docs.map((d) => ({ id: d.id, ...d.data() }) as ReadingGoalDoc)
+  },
+
+  async create(
+    uid: string,
+    data: Omit<ReadingGoalDoc, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<ReadingGoalDoc> {
+    const ref = doc(goalsCol(uid))
+    const now = Timestamp.now()
+    const goal: ReadingGoalDoc = {
+      ...data,
+      id: ref.id,
+      createdAt: now,
+      updatedAt: now
+    }
+    await setDoc(ref, goal)
+    return goal
+  },
+
+  async update(uid: string, goalId: string, data: Partial<ReadingGoalDoc>): Promise<void> {
+    await updateDoc(goalRef(uid, goalId), {
+      ...data,
+      updatedAt: Timestamp.now()
+    })
+  },
+
+  async delete(uid: string, goalId: string): Promise<void> {
+    await deleteDoc(goalRef(uid, goalId))
+  }
+}
@@ -5,5 +5,7 @@ export { notesService } from './notes'
 export { categoriesService } from './categories'
 export { tracksService } from './tracks'
 export { manualTimeEntriesService } from './manualTimeEntries'
+export { goalsService } from './goals'
+export { chapterCompletionsService } from './chapterCompletions'
 export { settingsService } from './settings'
 export { uploadBook, deleteBookWithStorage, extractEpubMetadata, checkDuplicate, getCoverUrl } from './upload'
@@ -18,6 +18,10 @@ export const DEFAULT_USER_SETTINGS: Omit<UserSettingsDoc, 'updatedAt'> = {
   lineHeight: 1.8,
   margin: 40,
   contentWidth: 65,
+  hyphenation: true,
+  textAlign: 'justify',
+  paragraphSpacing: 0.15,
+  publisherStyles: 'override',
   theme: 'system',
   // Reading
   defaultFocusMode: 'study',
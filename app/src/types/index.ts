@@ -2,6 +2,7 @@
 // Adapted for Firestore (Timestamps, cloud storage paths, no local file_path)
 
 import { Timestamp } from 'firebase/firestore'
+import type { GoalPeriod, GoalProgress, GoalScope, GoalType } from '@shared/goals'
 
 export type ReadingMode = 'study' | 'leisure' | null
 
@@ -26,6 +27,8 @@ export interface BookDoc {
   percentComplete: number
   cfiPosition: string | null
   currentChapter: string | null
+  /** First time the book was read to 100%; missing on books never finished */
+  finishedAt?: Timestamp | null
   createdAt: Timestamp
   updatedAt: Timestamp
 }
@@ -93,6 +96,26 @@ export interface CategoryTrackDoc {
   updatedAt: Timestamp
 }
 
+export interface ReadingGoalDoc {
+  id: string
+  goalType: GoalType
+  target: number
+  period: GoalPeriod
+  scope: GoalScope
+  scopeId: string | null
+  title: string | null
+  createdAt: Timestamp
+  updatedAt: Timestamp
+}
+
+/** First time a chapter was read to its end; the id is derived from book and chapter */
+export interface ChapterCompletionDoc {
+  id: string
+  bookId: string
+  chapter: string
+  completedAt: Timestamp
+}
+
 export interface ManualTimeEntryDoc {
   id: string
   categoryId: string
@@ -109,6 +132,10 @@ export interface UserSettingsDoc {
   lineHeight: number
   margin: number
   contentWidth: number
+  hyphenation: boolean
+  textAlign: TextAlign
+  paragraphSpacing: number
+  publisherStyles: PublisherStyles
   theme: 'light' | 'dark' | 'system'
   // Reading
   defaultFocusMode: 'study' | 'leisure'
@@ -158,12 +185,25 @@ export interface ReadingProgress {
   current_chapter: string | null
 }
 
+export type TextAlign = 'justify' | 'left'
+
+/**
+ * How much of the book's own stylesheet the reader replaces: everything,
+ * only the body text, or nothing but colors and font size
+ */
+export type PublisherStyles = 'override' | 'blend' | 'keep'
+
 export interface ReadingSettings {
   fontSize: number
   fontFamily: string
   lineHeight: number
   margin: number
   contentWidth: number
+  hyphenation: boolean
+  textAlign: TextAlign
+  /** Space after each paragraph, in em */
+  paragraphSpacing: number
+  publisherStyles: PublisherStyles
 }
 
 export const DEFAULT_SETTINGS: ReadingSettings = {
@@ -171,7 +211,11 @@ export const DEFAULT_SETTINGS: ReadingSettings = {
   fontFamily: 'Literata, Georgia, serif',
   lineHeight: 1.8,
   margin: 40,
-  contentWidth: 65
+  contentWidth: 65,
+  hyphenation: true,
+  textAlign: 'justify',
+  paragraphSpacing: 0.15,
+  publisherStyles: 'override'
 }
 
 export interface DashboardMetrics {
@@ -267,6 +311,26 @@ export interface TrackWithProgress extends CategoryTrack {
   progress: TrackProgress
 }
 
+export interface ReadingGoal {
+  id: string
+  goal_type: GoalType
+  target: number
+  period: GoalPeriod
+  scope: GoalScope
+  scope_id: string | null
+  title: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReadingGoalWithProgress extends ReadingGoal {
+  /** Name of the category or book a scoped goal covers */
+  scope_name: string | null
+  progress: GoalProgress
+}
+
+export type { GoalPeriod, GoalProgress, GoalScope, GoalStatus, GoalType } from '@shared/goals'
+
 // ─── Constants ──────────────────────────────────────
 
 export const FONT_FAMILIES = [
@@ -6,7 +6,14 @@ export default defineConfig({
   plugins: [react()],
   resolve: {
     alias: {
-      '@': path.resolve(__dirname, './src')
+      '@': path.resolve(__dirname, './src'),
+      // Code shared with the desktop app (e.g. the annotation exporter)
+      '@shared': path.resolve(__dirname, '../src/shared')
+    }
+  },
+  server: {
+    fs: {
+      allow: ['..']
     }
   }
 })
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { closeDatabase, getDatabase, initDatabase } from '../database'
+import { exportLibrary, importLibrary } from './archive'
+
+const electron = vi.hoisted(() => ({ userData: '' }))
+
+vi.mock('electron', () => ({
+  app: { getPath: () => electron.userData, getVersion: () => '0.0.0-test' },
+  BrowserWindow: { getAllWindows: () => [] },
+  safeStorage: { isEncryptionAvailable: () => false }
+}))
+vi.mock('../search/indexer', () => ({ indexMissingBooksInBackground: vi.fn() }))
+vi.mock('../estimates/chapters', () => ({ countMissingChaptersInBackground: vi.fn() }))
+
+let root: string
+
+/** Point userData at a fresh directory and open a new library there */
+function openLibrary(name: string): void {
+  closeDatabase()
+  electron.userData = join(root, name)
+  mkdirSync(electron.userData)
+  initDatabase()
+}
+
+function addCategory(id: string, name: string): void {
+  getDatabase().prepare('INSERT INTO categories (id, name) VALUES (?, ?)').run(id, name)
+}
+
+function addBook(id: string, title: string, categoryId: string): void {
+  getDatabase()
+    .prepare('INSERT INTO books (id, title, file_path, category_id) VALUES (?, ?, ?, ?)')
+    .run(id, title, join(electron.userData, 'books', `${id}.epub`), categoryId)
+}
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'flareread-archive-test-'))
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  closeDatabase()
+  rmSync(root, { recursive: true, force: true })
+  vi.restoreAllMocks()
+})
+
+describe('importLibrary merge', () => {
+  it('files archive rows under the local category of the same name', async () => {
+    openLibrary('laptop')
+    addCategory('cat-laptop', 'Philosophy')
+    addBook('meditations', 'Meditations', 'cat-laptop')
+    getDatabase()
+      .prepare('INSERT INTO category_tracks (id, category_id, target_hours_total) VALUES (?, ?, ?)')
+      .run('track-laptop', 'cat-laptop', 40)
+    getDatabase()
+      .prepare('INSERT INTO manual_time_entries (id, category_id, delta_minutes, occurred_at) VALUES (?, ?, ?, ?)')
+      .run('entry-laptop', 'cat-laptop', 90, '2026-03-01T10:00:00.000Z')
+    getDatabase()
+      .prepare("INSERT INTO reading_goals (id, goal_type, target, scope, scope_id) VALUES (?, 'books', 4, 'category', ?)")
+      .run('goal-laptop', 'cat-laptop')
+    const archivePath = join(root, 'laptop.zip')
+    await exportLibrary(archivePath)
+
+    openLibrary('desktop')
+    addCategory('cat-desktop', 'Philosophy')
+    addBook('republic', 'The Republic', 'cat-desktop')
+
+    const summary = importLibrary(archivePath, 'merge')
+
+    const db = getDatabase()
+    expect(summary.imported.books).toBe(1)
+    expect(db.prepare("SELECT id FROM categories WHERE name = 'Philosophy'").all()).toEqual([{ id: 'cat-desktop' }])
+    expect(db.prepare("SELECT 1 FROM categories WHERE id = 'cat-laptop'").get()).toBeUndefined()
+    expect(db.prepare("SELECT category_id FROM books WHERE id = 'meditations'").get()).toEqual({
+      category_id: 'cat-desktop'
+    })
+    expect(db.prepare('SELECT category_id FROM category_tracks').all()).toEqual([{ category_id: 'cat-desktop' }])
+    expect(db.prepare('SELECT category_id FROM manual_time_entries').all()).toEqual([{ category_id: 'cat-desktop' }])
+    expect(db.prepare('SELECT scope_id FROM reading_goals').all()).toEqual([{ scope_id: 'cat-desktop' }])
+  })
+
+  it('keeps archive categories whose names are new here', async () => {
+    openLibrary('laptop')
+    addCategory('cat-history', 'History')
+    addBook('spqr', 'SPQR', 'cat-history')
+    const archivePath = join(root, 'laptop.zip')
+    await exportLibrary(archivePath)
+
+    openLibrary('desktop')
+    addCategory('cat-desktop', 'Philosophy')
+
+    importLibrary(archivePath, 'merge')
+
+    const db = getDatabase()
+    expect(db.prepare("SELECT id FROM categories WHERE name IN ('History', 'Philosophy') ORDER BY name").all()).toEqual([
+      { id: 'cat-history' },
+      { id: 'cat-desktop' }
+    ])
+    expect(db.prepare("SELECT category_id FROM books WHERE id = 'spqr'").get()).toEqual({ category_id: 'cat-history' })
+  })
+})
@@ -0,0 +1,321 @@
+import { app } from 'electron'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, unlinkSync, writeFileSync } from 'fs'
+import AdmZip from 'adm-zip'
+import Database from 'better-sqlite3'
+import { getDatabase } from '../database'
+import { getCurrentVersion, runMigrations } from '../database/migrations'
+import { resetSyncState } from '../sync/engine'
+import { indexMissingBooksInBackground } from '../search/indexer'
+import { countMissingChaptersInBackground } from '../estimates/chapters'
+import { OPDS_CREDENTIALS_KEY } from '../opds/catalogs'
+import { WATCH_CONFIG_KEY } from '../watch/FolderWatcher'
+
+// ─── Library Backup ─────────────────────────────────
+// A backup is a zip holding a manifest, a snapshot of the SQLite database and
+// the books/, covers/ and fonts/ directories from userData. Paths stored in the
+// database are absolute, so they're rewritten on import to the new userData.
+
+export const BACKUP_FORMAT = 'flareread-backup'
+const BACKUP_FORMAT_VERSION = 1
+
+const MANIFEST_ENTRY = 'manifest.json'
+const DATABASE_ENTRY = 'flareread.db'
+const FILE_DIRS = ['books', 'covers', 'fonts'] as const
+
+/** Tables carried in a backup, parents before children */
+const BACKUP_TABLES = [
+  'typography_profiles',
+  'custom_fonts',
+  'categories',
+  'books',
+  'clipping_queue',
+  'pronunciations',
+  'reading_progress',
+  'chapter_completions',
+  'sessions',
+  'highlights',
+  'notes',
+  'bookmarks',
+  'vocabulary',
+  'category_tracks',
+  'manual_time_entries',
+  'reading_goals',
+  'cards',
+  'card_reviews',
+  'settings'
+]
+
+/** Settings tied to this install's account and keychain, never restored */
+const LOCAL_SETTINGS = ['sync', 'syncCredentials', OPDS_CREDENTIALS_KEY, WATCH_CONFIG_KEY]
+
+export type ImportMode = 'merge' | 'replace'
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT
+  formatVersion: number
+  schemaVersion: number
+  appVersion: string
+  createdAt: string
+  /** userData of the exporting install, used to rewrite stored paths */
+  userDataPath: string
+  counts: Record<string, number>
+}
+
+export interface BackupImportSummary {
+  mode: ImportMode
+  schemaVersion: number
+  imported: Record<string, number>
+  files: number
+}
+
+export class BackupError extends Error {}
+
+export async function exportLibrary(targetPath: string): Promise<BackupManifest> {
+  const db = getDatabase()
+  const userData = app.getPath('userData')
+  const workDir = mkdtempSync(join(tmpdir(), 'flareread-export-'))
+
+  try {
+    const snapshotPath = join(workDir, DATABASE_ENTRY)
+    await db.backup(snapshotPath)
+
+    // Drop what can be rebuilt or must not leave this machine
+    const snapshot = new Database(snapshotPath)
+    try {
+      snapshot.exec(`
+        DELETE FROM book_text_fts;
+        DELETE FROM book_text_index;
+        DELETE FROM book_chapters;
+        DELETE FROM sync_state;
+        DELETE FROM sync_tombstones;
+        DELETE FROM watched_files;
+      `)
+      for (const key of ['syncCredentials', OPDS_CREDENTIALS_KEY]) {
+        snapshot.prepare(`DELETE FROM settings WHERE key = ?`).run(key)
+      }
+      snapshot.exec('VACUUM')
+    } finally {
+      snapshot.close()
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion: getCurrentVersion(db),
+      appVersion: app.getVersion(),
+      createdAt: new Date().toISOString(),
+      userDataPath: userData,
+      counts: Object.fromEntries(
+        BACKUP_TABLES.map((table) => [
+          table,
+          (db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n
+        ])
+      )
+    }
+
+    const zip = new AdmZip()
+    zip.addFile(MANIFEST_ENTRY, Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8'))
+    zip.addLocalFile(snapshotPath)
+    for (const dir of FILE_DIRS) {
+      const source = join(userData, dir)
+      if (existsSync(source)) zip.addLocalFolder(source, dir)
+    }
+    await zip.writeZipPromise(targetPath, { overwrite: true })
+
+    return manifest
+  } finally {
+    rmSync(workDir, { recursive: true, force: true })
+  }
+}
+
+export function readManifest(archivePath: string): BackupManifest {
+  let zip: AdmZip
+  try {
+    zip = new AdmZip(archivePath)
+  } catch {
+    throw new BackupError('Not a valid backup archive')
+  }
+  const entry = zip.getEntry(MANIFEST_ENTRY)
+  if (!entry) throw new BackupError('Not a FlareRead backup (missing manifest)')
+
+  const manifest = JSON.parse(entry.getData().toString('utf-8')) as BackupManifest
+  if (manifest.format !== BACKUP_FORMAT) throw new BackupError('Not a FlareRead backup')
+  return manifest
+}
+
+/** Map a path under the exporting install's userData to this install's */
+function rebasePath(path: string | null, fromRoot: string, toRoot: string): string | null {
+  if (!path) return path
+  const normalized = path.replace(/\\/g, '/')
+  const root = fromRoot.replace(/\\/g, '/').replace(/\/+$/, '')
+  if (!normalized.startsWith(root + '/')) return path
+  return join(toRoot, ...normalized.slice(root.length + 1).split('/'))
+}
+
+/**
+ * Category names are unique, so on merge an archive category named like one
+ * here would be skipped while its books, tracks, time entries and goals still
+ * pointed at it. Give it the local id instead so they land in that category.
+ */
+function adoptLocalCategories(archiveDb: Database.Database, db: Database.Database): void {
+  const local = new Map(
+    (db.prepare('SELECT id, name FROM categories').all() as { id: string; name: string }[]).map((c) => [c.name, c.id])
+  )
+  const renames = (archiveDb.prepare('SELECT id, name FROM categories').all() as { id: string; name: string }[])
+    .map((c) => ({ from: c.id, to: local.get(c.name) }))
+    .filter((c): c is { from: string; to: string } => c.to !== undefined && c.to !== c.from)
+  if (renames.length === 0) return
+
+  // Parent and children change ids together; checking in between would fail
+  archiveDb.pragma('foreign_keys = OFF')
+  const statements = [
+    archiveDb.prepare('UPDATE categories SET id = @to WHERE id = @from'),
+    archiveDb.prepare('UPDATE books SET category_id = @to WHERE category_id = @from'),
+    archiveDb.prepare('UPDATE category_tracks SET category_id = @to WHERE category_id = @from'),
+    archiveDb.prepare('UPDATE manual_time_entries SET category_id = @to WHERE category_id = @from'),
+    archiveDb.prepare("UPDATE reading_goals SET scope_id = @to WHERE scope = 'category' AND scope_id = @from")
+  ]
+  archiveDb.transaction(() => {
+    for (const rename of renames) {
+      for (const statement of statements) statement.run(rename)
+    }
+  })()
+}
+
+function columnsOf(db: Database.Database, schema: string, table: string): string[] {
+  return (db.prepare(`PRAGMA ${schema}.table_info(${table})`).all() as { name: string }[]).map(
+    (c) => c.name
+  )
+}
+
+export function importLibrary(archivePath: string, mode: ImportMode): BackupImportSummary {
+  const manifest = readManifest(archivePath)
+  const db = getDatabase()
+  const userData = app.getPath('userData')
+
+  if (manifest.schemaVersion > getCurrentVersion(db)) {
+    throw new BackupError('This backup was made by a newer version of FlareRead. Update the app to restore it.')
+  }
+
+  const zip = new AdmZip(archivePath)
+  const dbEntry = zip.getEntry(DATABASE_ENTRY)
+  if (!dbEntry) throw new BackupError('Backup is missing its database')
+
+  const workDir = mkdtempSync(join(tmpdir(), 'flareread-import-'))
+  try {
+    const archiveDbPath = join(workDir, DATABASE_ENTRY)
+    writeFileSync(archiveDbPath, dbEntry.getData())
+
+    // Bring older archives up to the current schema, then point their paths here
+    const archiveDb = new Database(archiveDbPath)
+    try {
+      runMigrations(archiveDb)
+      const books = archiveDb.prepare('SELECT id, file_path, cover_path FROM books').all() as {
+        id: string
+        file_path: string
+        cover_path: string | null
+      }[]
+      const rebase = archiveDb.prepare('UPDATE books SET file_path = ?, cover_path = ? WHERE id = ?')
+      archiveDb.transaction(() => {
+        for (const b of books) {
+          rebase.run(
+            rebasePath(b.file_path, manifest.userDataPath, userData),
+            rebasePath(b.cover_path, manifest.userDataPath, userData),
+            b.id
+          )
+        }
+      })()
+      if (mode === 'merge') adoptLocalCategories(archiveDb, db)
+    } finally {
+      archiveDb.close()
+    }
+
+    const previousFiles =
+      mode === 'replace'
+        ? (db.prepare('SELECT file_path, cover_path FROM books').all() as {
+            file_path: string
+            cover_path: string | null
+          }[]).flatMap((b) => [b.file_path, b.cover_path])
+        : []
+
+    const imported: Record<string, number> = {}
+    db.prepare('ATTACH DATABASE ? AS archive').run(archiveDbPath)
+    try {
+      db.transaction(() => {
+        if (mode === 'replace') {
+          // Children first; books cascade to their progress, sessions, annotations and cards
+          for (const table of [...BACKUP_TABLES].reverse()) {
+            if (table === 'settings') {
+              db.prepare(
+                `DELETE FROM main.settings WHERE key NOT IN (${LOCAL_SETTINGS.map(() => '?').join(', ')})`
+              ).run(...LOCAL_SETTINGS)
+            } else {
+              db.prepare(`DELETE FROM main.${table}`).run()
+            }
+          }
+        }
+
+        for (const table of BACKUP_TABLES) {
+          const archiveColumns = new Set(columnsOf(db, 'archive', table))
+          const columns = columnsOf(db, 'main', table).filter((c) => archiveColumns.has(c))
+          if (columns.length === 0) continue
+          const list = columns.join(', ')
+          const where =
+            table === 'settings' ? `WHERE key NOT IN (${LOCAL_SETTINGS.map(() => '?').join(', ')})` : ''
+          // Merge keeps this library's version of any row present in both
+          imported[table] = db
+            .prepare(`INSERT OR IGNORE INTO main.${table} (${list}) SELECT ${list} FROM archive.${table} ${where}`)
+            .run(...(table === 'settings' ? LOCAL_SETTINGS : [])).changes
+        }
+
+        // The merge bases described the old library, so the next sync starts fresh
+        if (mode === 'replace') resetSyncState()
+      })()
+    } finally {
+      db.prepare('DETACH DATABASE archive').run()
+    }
+
+    // Remove files of replaced books, keeping any the restored rows still point at
+    if (previousFiles.length > 0) {
+      const kept = new Set(
+        (db.prepare('SELECT file_path, cover_path FROM books').all() as {
+          file_path: string
+          cover_path: string | null
+        }[]).flatMap((b) => [b.file_path, b.cover_path])
+      )
+      for (const path of previousFiles) {
+        if (!path || kept.has(path) || !path.startsWith(userData) || !existsSync(path)) continue
+        try {
+          unlinkSync(path)
+        } catch {
+          // Ignore files that are in use or already gone
+        }
+      }
+    }
+
+    let files = 0
+    for (const dir of FILE_DIRS) {
+      const targetDir = join(userData, dir)
+      mkdirSync(targetDir, { recursive: true })
+      const existing = new Set(readdirSync(targetDir))
+      for (const entry of zip.getEntries()) {
+        if (entry.isDirectory || !entry.entryName.startsWith(`${dir}/`)) continue
+        const name = entry.entryName.slice(dir.length + 1)
+        // Only flat files; anything with a path component could escape the directory
+        if (!name || /[\\/]/.test(name) || name === '..' || existing.has(name)) continue
+        writeFileSync(join(targetDir, name), entry.getData())
+        files++
+      }
+    }
+
+    // Neither the search index nor chapter word counts travel in a backup
+    indexMissingBooksInBackground()
+    countMissingChaptersInBackground()
+
+    return { mode, schemaVersion: manifest.schemaVersion, imported, files }
+  } finally {
+    rmSync(workDir, { recursive: true, force: true })
+  }
+}
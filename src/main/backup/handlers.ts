@@ -0,0 +1,46 @@
+import { app, BrowserWindow, dialog, ipcMain } from 'electron'
+import { exportLibrary, importLibrary, ImportMode } from './archive'
+
+const BACKUP_FILTERS = [{ name: 'FlareRead Backup', extensions: ['flareread', 'zip'] }]
+
+export function registerBackupHandlers(): void {
+  ipcMain.handle('backup:export', async () => {
+    const mainWindow = BrowserWindow.getFocusedWindow()
+    if (!mainWindow) return { success: false, error: 'No window' }
+
+    const date = new Date().toISOString().slice(0, 10)
+    const result = await dialog.showSaveDialog(mainWindow, {
+      defaultPath: `FlareRead Backup ${date}.flareread`,
+      filters: BACKUP_FILTERS
+    })
+    if (result.canceled || !result.filePath) return { success: false, error: 'Cancelled' }
+
+    try {
+      const manifest = await exportLibrary(result.filePath)
+      return { success: true, filePath: result.filePath, manifest }
+    } catch (err) {
+      console.error('Library export failed:', err)
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+
+  ipcMain.handle('backup:import', async (_e, mode: ImportMode) => {
+    const mainWindow = BrowserWindow.getFocusedWindow()
+    if (!mainWindow) return { success: false, error: 'No window' }
+
+    const result = await dialog.showOpenDialog(mainWindow, {
+      defaultPath: app.getPath('documents'),
+      properties: ['openFile'],
+      filters: BACKUP_FILTERS
+    })
+    if (result.canceled || result.filePaths.length === 0) return { success: false, error: 'Cancelled' }
+
+    try {
+      const summary = importLibrary(result.filePaths[0], mode === 'replace' ? 'replace' : 'merge')
+      return { success: true, summary }
+    } catch (err) {
+      console.error('Library import failed:', err)
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+}
@@ -0,0 +1,39 @@
+import { BrowserWindow, dialog, ipcMain } from 'electron'
+import { importCalibreBooks } from './importer'
+import { readCalibreLibrary } from './library'
+import type { CalibreImportOptions } from './types'
+
+export function registerCalibreHandlers(): void {
+  // Pick a Calibre library folder and list its books
+  ipcMain.handle('calibre:open', async (_e, libraryPath?: string) => {
+    let path = libraryPath
+    if (!path) {
+      const mainWindow = BrowserWindow.getFocusedWindow()
+      if (!mainWindow) return { success: false, error: 'No window' }
+      const result = await dialog.showOpenDialog(mainWindow, {
+        title: 'Choose your Calibre library folder',
+        properties: ['openDirectory']
+      })
+      if (result.canceled || result.filePaths.length === 0) return { success: false, error: 'Cancelled' }
+      path = result.filePaths[0]
+    }
+
+    try {
+      return { success: true, library: readCalibreLibrary(path) }
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+
+  ipcMain.handle('calibre:import', async (e, libraryPath: string, options: CalibreImportOptions) => {
+    try {
+      const report = await importCalibreBooks(libraryPath, options, (progress) => {
+        if (!e.sender.isDestroyed()) e.sender.send('calibre:import-progress', progress)
+      })
+      return { success: true, report }
+    } catch (err) {
+      console.error('Calibre import failed:', err)
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+}
@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto'
+import { existsSync, readFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { getDatabase } from '../database'
+import { importBook, saveRenderedCover } from '../import/importer'
+import { findExistingBook, readCalibreLibrary } from './library'
+import { CalibreBook, CalibreImportOptions, CalibreImportProgress, CalibreImportReport } from './types'
+
+/** Same palette the category picker offers */
+const CATEGORY_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#f97316']
+
+/**
+ * Resolves Calibre tags to category ids, creating a category for a tag only
+ * when none of the book's tags names an existing one.
+ */
+class TagCategories {
+  private byName = new Map<string, string>()
+  created = 0
+
+  constructor() {
+    const rows = getDatabase().prepare('SELECT id, name FROM categories').all() as { id: string; name: string }[]
+    for (const row of rows) this.byName.set(row.name.toLowerCase(), row.id)
+  }
+
+  resolve(tags: string[]): string | null {
+    if (tags.length === 0) return null
+    for (const tag of tags) {
+      const id = this.byName.get(tag.trim().toLowerCase())
+      if (id) return id
+    }
+
+    const name = tags[0].trim()
+    const id = randomUUID()
+    const color = CATEGORY_COLORS[this.byName.size % CATEGORY_COLORS.length]
+    getDatabase()
+      .prepare('INSERT INTO categories (id, name, color, icon, created_at) VALUES (?, ?, ?, NULL, ?)')
+      .run(id, name, color, new Date().toISOString())
+    this.byName.set(name.toLowerCase(), id)
+    this.created++
+    return id
+  }
+}
+
+/** Calibre's metadata is curated, so it replaces what the file's own OPF says */
+function applyMetadata(bookId: string, book: CalibreBook, categoryId: string | null, readingMode: string | null): void {
+  getDatabase()
+    .prepare(
+      `UPDATE books SET
+         title = ?, author = COALESCE(?, author), description = COALESCE(?, description),
+         language = COALESCE(language, ?), series = ?, series_index = ?, rating = ?, published_at = ?,
+         calibre_uuid = ?, category_id = COALESCE(category_id, ?), reading_mode = COALESCE(reading_mode, ?)
+       WHERE id = ?`
+    )
+    .run(
+      book.title,
+      book.author,
+      book.description,
+      book.language,
+      book.series,
+      book.seriesIndex,
+      book.rating,
+      book.publishedAt,
+      book.uuid,
+      categoryId,
+      readingMode,
+      bookId
+    )
+}
+
+/** Use Calibre's cover.jpg when the file had no cover of its own (always the case for PDFs) */
+function applyCalibreCover(bookId: string, book: CalibreBook): void {
+  if (!book.filePath) return
+  const row = getDatabase().prepare('SELECT cover_path FROM books WHERE id = ?').get(bookId) as
+    | { cover_path: string | null }
+    | undefined
+  if (!row || row.cover_path) return
+  const coverPath = join(dirname(book.filePath), 'cover.jpg')
+  if (!existsSync(coverPath)) return
+  try {
+    saveRenderedCover(bookId, `data:image/jpeg;base64,${readFileSync(coverPath).toString('base64')}`)
+  } catch {
+    // Non-fatal, the book just shows without a cover
+  }
+}
+
+/**
+ * Import or update the chosen books of a Calibre library. Books imported
+ * before (by an earlier Calibre import or by hand) get their metadata
+ * refreshed instead of being reported as duplicates.
+ */
+export async function importCalibreBooks(
+  libraryPath: string,
+  options: CalibreImportOptions,
+  onProgress?: (progress: CalibreImportProgress) => void
+): Promise<CalibreImportReport> {
+  const wanted = new Set(options.calibreIds)
+  const books = readCalibreLibrary(libraryPath).books.filter((b) => wanted.has(b.calibreId))
+  const categories = options.mapTags ? new TagCategories() : null
+  const report: CalibreImportReport = { imported: 0, updated: 0, skipped: 0, categoriesCreated: 0, errors: [] }
+
+  for (const [i, book] of books.entries()) {
+    onProgress?.({ done: i, total: books.length, title: book.title })
+
+    if (!book.filePath) {
+      report.skipped++
+      report.errors.push(`${book.title}: no EPUB or PDF file in the library`)
+      continue
+    }
+
+    try {
+      let bookId = book.existingBookId
+
+      if (!bookId) {
+        const result = await importBook(book.filePath, { readingMode: options.readingMode })
+        if (result.success) {
+          bookId = result.book.id
+          report.imported++
+        } else if (result.code === 'DUPLICATE') {
+          // The file's own metadata matched a book Calibre's did not
+          bookId = findExistingBook(book)
+          if (bookId) report.updated++
+        }
+        if (!bookId) {
+          report.skipped++
+          report.errors.push(`${book.title}: ${result.success ? 'import failed' : result.error}`)
+          continue
+        }
+      } else {
+        report.updated++
+      }
+
+      // Only books that made it in get a category, so skipped ones create none
+      const categoryId = categories?.resolve(book.tags) ?? null
+      applyMetadata(bookId, book, categoryId, options.readingMode)
+      applyCalibreCover(bookId, book)
+    } catch (err) {
+      report.skipped++
+      report.errors.push(`${book.title}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  onProgress?.({ done: books.length, total: books.length, title: '' })
+  report.categoriesCreated = categories?.created ?? 0
+  return report
+}
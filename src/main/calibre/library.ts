@@ -0,0 +1,194 @@
+import Database from 'better-sqlite3'
+import { existsSync } from 'fs'
+import { basename, join } from 'path'
+import { getDatabase } from '../database'
+import type { BookFormat } from '../import/types'
+import { CalibreBook, CalibreLibrary } from './types'
+
+/** Calibre stores "no publication date" as year 101; any year before this counts as unset */
+const UNDEFINED_PUBDATE_YEAR = 1000
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+export class CalibreError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CalibreError'
+  }
+}
+
+interface BookRow {
+  id: number
+  uuid: string
+  title: string
+  path: string
+  pubdate: string | null
+  series_index: number | null
+}
+
+/** Calibre comments are HTML; FlareRead shows descriptions as plain text */
+function commentsToText(html: string): string | null {
+  const text = html
+    .replace(/<\/(p|div|h[1-6]|li)>|<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#(\d+);/g, (_m, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&([a-z]+);/gi, (m, name: string) => ENTITIES[name.toLowerCase()] ?? m)
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n')
+  return text || null
+}
+
+function publishedDate(pubdate: string | null): string | null {
+  const match = pubdate?.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!match || Number(match[1]) < UNDEFINED_PUBDATE_YEAR) return null
+  return `${match[1]}-${match[2]}-${match[3]}`
+}
+
+/** Group a link table's rows by book id, keeping their order */
+function groupByBook<T extends { book: number }>(rows: T[]): Map<number, T[]> {
+  const map = new Map<number, T[]>()
+  for (const row of rows) {
+    const list = map.get(row.book)
+    if (list) list.push(row)
+    else map.set(row.book, [row])
+  }
+  return map
+}
+
+/**
+ * The FlareRead book a Calibre book was imported as: by Calibre UUID first,
+ * then by source file, then by title and first author for books that were
+ * imported by hand before.
+ */
+export function findExistingBook(book: {
+  uuid: string
+  title: string
+  author: string | null
+  filePath: string | null
+}): string | null {
+  const db = getDatabase()
+  const byUuid = db.prepare('SELECT id FROM books WHERE calibre_uuid = ?').get(book.uuid) as
+    | { id: string }
+    | undefined
+  if (byUuid) return byUuid.id
+
+  if (book.filePath) {
+    const byPath = db.prepare('SELECT id FROM books WHERE original_path = ?').get(book.filePath) as
+      | { id: string }
+      | undefined
+    if (byPath) return byPath.id
+  }
+
+  const firstAuthor = book.author?.split(', ')[0] ?? null
+  const byMeta = db
+    .prepare('SELECT id FROM books WHERE title = ? COLLATE NOCASE AND (author = ? OR author = ?) LIMIT 1')
+    .get(book.title, book.author, firstAuthor) as { id: string } | undefined
+  return byMeta?.id ?? null
+}
+
+/**
+ * Read a Calibre library folder. metadata.db is opened read-only, so this is
+ * safe while Calibre itself is running.
+ */
+export function readCalibreLibrary(libraryPath: string): CalibreLibrary {
+  const dbPath = join(libraryPath, 'metadata.db')
+  if (!existsSync(dbPath)) {
+    throw new CalibreError('No metadata.db in that folder. Choose the folder Calibre shows as your library location.')
+  }
+
+  let calibre: Database.Database
+  try {
+    calibre = new Database(dbPath, { readonly: true, fileMustExist: true })
+  } catch (err) {
+    throw new CalibreError(`Could not open the Calibre library: ${err instanceof Error ? err.message : String(err)}`)
+  }
+
+  try {
+    const rows = calibre
+      .prepare('SELECT id, uuid, title, path, pubdate, series_index FROM books ORDER BY sort COLLATE NOCASE')
+      .all() as BookRow[]
+
+    const authors = groupByBook(
+      calibre
+        .prepare(
+          `SELECT l.book, a.name FROM books_authors_link l
+           JOIN authors a ON a.id = l.author ORDER BY l.id`
+        )
+        .all() as { book: number; name: string }[]
+    )
+    const tags = groupByBook(
+      calibre
+        .prepare('SELECT l.book, t.name FROM books_tags_link l JOIN tags t ON t.id = l.tag ORDER BY l.id')
+        .all() as { book: number; name: string }[]
+    )
+    const series = groupByBook(
+      calibre
+        .prepare('SELECT l.book, s.name FROM books_series_link l JOIN series s ON s.id = l.series')
+        .all() as { book: number; name: string }[]
+    )
+    const ratings = groupByBook(
+      calibre
+        .prepare('SELECT l.book, r.rating FROM books_ratings_link l JOIN ratings r ON r.id = l.rating')
+        .all() as { book: number; rating: number | null }[]
+    )
+    const languages = groupByBook(
+      calibre
+        .prepare(
+          `SELECT l.book, g.lang_code FROM books_languages_link l
+           JOIN languages g ON g.id = l.lang_code ORDER BY l.item_order`
+        )
+        .all() as { book: number; lang_code: string }[]
+    )
+    const comments = groupByBook(
+      calibre.prepare('SELECT book, text FROM comments').all() as { book: number; text: string | null }[]
+    )
+    const files = groupByBook(
+      calibre.prepare("SELECT book, format, name FROM data WHERE format IN ('EPUB', 'PDF')").all() as {
+        book: number
+        format: string
+        name: string
+      }[]
+    )
+
+    const books = rows.map((row): CalibreBook => {
+      const formats = files.get(row.id) ?? []
+      const file = formats.find((f) => f.format === 'EPUB') ?? formats.find((f) => f.format === 'PDF') ?? null
+      const format = (file?.format.toLowerCase() as BookFormat | undefined) ?? null
+      const filePath = file ? join(libraryPath, row.path, `${file.name}.${format}`) : null
+      const onDisk = filePath !== null && existsSync(filePath)
+
+      const authorNames = (authors.get(row.id) ?? []).map((a) => a.name)
+      const seriesName = series.get(row.id)?.[0]?.name ?? null
+      const rating = ratings.get(row.id)?.[0]?.rating ?? null
+      const comment = comments.get(row.id)?.[0]?.text ?? null
+
+      const book: CalibreBook = {
+        calibreId: row.id,
+        uuid: row.uuid,
+        title: row.title,
+        author: authorNames.length > 0 ? authorNames.join(', ') : null,
+        series: seriesName,
+        seriesIndex: seriesName ? row.series_index : null,
+        tags: (tags.get(row.id) ?? []).map((t) => t.name),
+        rating: rating ? rating / 2 : null,
+        publishedAt: publishedDate(row.pubdate),
+        description: comment ? commentsToText(comment) : null,
+        language: languages.get(row.id)?.[0]?.lang_code ?? null,
+        filePath: onDisk ? filePath : null,
+        format: onDisk ? format : null,
+        existingBookId: null
+      }
+      book.existingBookId = findExistingBook(book)
+      return book
+    })
+
+    return { path: libraryPath, name: basename(libraryPath), books }
+  } catch (err) {
+    if (err instanceof CalibreError) throw err
+    throw new CalibreError(`This does not look like a Calibre library: ${err instanceof Error ? err.message : String(err)}`)
+  } finally {
+    calibre.close()
+  }
+}
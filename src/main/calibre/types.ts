@@ -0,0 +1,50 @@
+import type { BookFormat } from '../import/types'
+
+/** One book as listed in a Calibre library's metadata.db */
+export interface CalibreBook {
+  calibreId: number
+  uuid: string
+  title: string
+  author: string | null
+  series: string | null
+  seriesIndex: number | null
+  tags: string[]
+  /** Stars, 0.5 to 5 */
+  rating: number | null
+  /** YYYY-MM-DD */
+  publishedAt: string | null
+  description: string | null
+  language: string | null
+  /** The EPUB, or the PDF when the book has no EPUB; null if neither exists on disk */
+  filePath: string | null
+  format: BookFormat | null
+  /** The FlareRead book a previous import created or matched */
+  existingBookId: string | null
+}
+
+export interface CalibreLibrary {
+  path: string
+  name: string
+  books: CalibreBook[]
+}
+
+export interface CalibreImportOptions {
+  calibreIds: number[]
+  /** Put each book in a category named after one of its tags */
+  mapTags: boolean
+  readingMode: 'study' | 'leisure' | null
+}
+
+export interface CalibreImportReport {
+  imported: number
+  updated: number
+  skipped: number
+  categoriesCreated: number
+  errors: string[]
+}
+
+export interface CalibreImportProgress {
+  done: number
+  total: number
+  title: string
+}
@@ -0,0 +1,133 @@
+import { BrowserWindow, Notification } from 'electron'
+import { getDatabase } from '../database'
+import { readSetting, writeSetting } from '../database/settings'
+import { computeTrackProgress } from './progress'
+import { computeTrackForecast, TrackPaceStatus } from './forecast'
+
+/** Last alerted status per category, so a slipping track is announced once */
+const ALERTS_KEY = 'trackPaceAlerts'
+const STARTUP_DELAY_MS = 30_000
+const CHECK_INTERVAL_MS = 60 * 60 * 1000
+
+const SLIPPING: TrackPaceStatus[] = ['behind', 'overdue']
+
+export interface TrackPaceAlert {
+  categoryId: string
+  categoryName: string
+  status: TrackPaceStatus
+  title: string
+  message: string
+}
+
+interface DeadlineTrack {
+  category_id: string
+  category_name: string
+  target_hours_total: number | null
+  target_deadline: string | null
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+/**
+ * Checks tracks with a deadline against their forecast every hour and raises
+ * an in-app alert plus an OS notification when one slips behind pace or past
+ * its deadline. A track is announced again only after it has recovered.
+ */
+export class TrackPaceMonitor {
+  private startupTimer: ReturnType<typeof setTimeout> | null = null
+  private interval: ReturnType<typeof setInterval> | null = null
+
+  start(): void {
+    this.startupTimer = setTimeout(() => {
+      this.startupTimer = null
+      this.check()
+      this.interval = setInterval(() => this.check(), CHECK_INTERVAL_MS)
+    }, STARTUP_DELAY_MS)
+  }
+
+  check(): TrackPaceAlert[] {
+    try {
+      const tracks = getDatabase()
+        .prepare(
+          `SELECT t.category_id, c.name as category_name, t.target_hours_total, t.target_deadline
+           FROM category_tracks t
+           INNER JOIN categories c ON c.id = t.category_id
+           WHERE t.target_deadline IS NOT NULL AND t.target_hours_total > 0`
+        )
+        .all() as DeadlineTrack[]
+
+      const previous = readSetting<Record<string, TrackPaceStatus>>(ALERTS_KEY, {})
+      const next: Record<string, TrackPaceStatus> = {}
+      const alerts: TrackPaceAlert[] = []
+
+      for (const track of tracks) {
+        const forecast = computeTrackForecast(track, computeTrackProgress(track.category_id))
+        if (!forecast || !SLIPPING.includes(forecast.status)) continue
+        // Nothing logged yet, so nothing has slipped; the forecast card already says so
+        if (forecast.status === 'behind' && forecast.weeksObserved === 0 && forecast.weeklyHours === 0) continue
+
+        next[track.category_id] = forecast.status
+        if (previous[track.category_id] === forecast.status) continue
+
+        const name = track.category_name
+        const required = forecast.requiredWeeklyHours
+        let title = `${name} is behind pace`
+        let message = `${required} hrs/week from now keeps you on target.`
+        if (forecast.status === 'overdue') {
+          title = `${name} is past its deadline`
+          message = `${forecast.remainingHours} hrs are still left on this track.`
+        } else if (forecast.projectedCompletion) {
+          message = `At ${forecast.weeklyHours} hrs/week you'd finish ${formatDate(forecast.projectedCompletion)}. ${message}`
+        }
+        alerts.push({ categoryId: track.category_id, categoryName: name, status: forecast.status, title, message })
+      }
+
+      writeSetting(ALERTS_KEY, next)
+      for (const alert of alerts) this.notify(alert)
+      return alerts
+    } catch (err) {
+      console.error('Track pace check failed:', err)
+      return []
+    }
+  }
+
+  // ─── Events ──────────────────────────────────────
+
+  private notify(alert: TrackPaceAlert): void {
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send('tracks:pace-alert', alert)
+      }
+    }
+
+    if (!Notification.isSupported()) return
+    const notification = new Notification({ title: alert.title, body: alert.message })
+    notification.on('click', () => {
+      const win = BrowserWindow.getAllWindows()[0]
+      if (!win) return
+      if (win.isMinimized()) win.restore()
+      win.show()
+      win.focus()
+    })
+    notification.show()
+  }
+
+  destroy(): void {
+    if (this.startupTimer) clearTimeout(this.startupTimer)
+    if (this.interval) clearInterval(this.interval)
+    this.startupTimer = null
+    this.interval = null
+  }
+}
+
+// Singleton instance
+let instance: TrackPaceMonitor | null = null
+
+export function getTrackPaceMonitor(): TrackPaceMonitor {
+  if (!instance) {
+    instance = new TrackPaceMonitor()
+  }
+  return instance
+}
@@ -0,0 +1,170 @@
+import { getDatabase } from '../database'
+import { localDateKey, periodBounds } from '../../shared/goals'
+import { TrackProgress } from './progress'
+
+/** How far back the weekly pace is averaged */
+const HISTORY_WEEKS = 12
+/** Two-sided 80% band around the average weekly pace */
+const BAND_Z = 1.2816
+/** Share of the pace used as the band when there are too few weeks to measure spread */
+const FALLBACK_SPREAD = 0.5
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+export type TrackPaceStatus = 'completed' | 'on-track' | 'at-risk' | 'behind' | 'overdue' | 'no-deadline'
+
+export interface TrackForecast {
+  status: TrackPaceStatus
+  /** Hours per week over the recent history, counting sessions and manual entries */
+  weeklyHours: number
+  /** Lower and upper weekly pace of the confidence band */
+  weeklyHoursLow: number
+  weeklyHoursHigh: number
+  /** Complete weeks the pace was measured over */
+  weeksObserved: number
+  remainingHours: number
+  /** Hours per week needed from now on to finish by the deadline; null without one */
+  requiredWeeklyHours: number | null
+  weeksToDeadline: number | null
+  /** Projected finish at the average pace, and at the fast and slow ends of the band */
+  projectedCompletion: string | null
+  earliestCompletion: string | null
+  latestCompletion: string | null
+  /** Hours per complete week, oldest first */
+  history: { weekStart: string; hours: number }[]
+}
+
+/** Deadlines are saved as plain dates from a date input; they run to the end of that day */
+function parseDeadline(deadline: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(deadline)
+  if (match) return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + 1)
+  return new Date(deadline)
+}
+
+function weeksFromNow(weeks: number, now: Date): string {
+  return new Date(now.getTime() + weeks * WEEK_MS).toISOString()
+}
+
+/**
+ * Hours logged toward a category in each week since the history window (or
+ * the first logged activity, if later) began. The current week is returned
+ * separately since it is still in progress.
+ */
+function weeklyHistory(
+  categoryId: string,
+  countsListening: boolean,
+  now: Date
+): { weeks: { weekStart: string; hours: number }[]; currentHours: number; currentElapsed: number } {
+  const db = getDatabase()
+  const current = periodBounds('week', now)
+  const windowStart = new Date(current.start)
+  windowStart.setDate(windowStart.getDate() - HISTORY_WEEKS * 7)
+  const since = windowStart.toISOString()
+
+  const sessions = db
+    .prepare(
+      `SELECT s.start_time as at, s.active_ms / 60000.0 as minutes
+       FROM sessions s
+       INNER JOIN books b ON s.book_id = b.id
+       WHERE b.category_id = ? AND s.start_time >= ?
+         AND (? = 1 OR COALESCE(s.session_type, 'reading') != 'listening')`
+    )
+    .all(categoryId, since, countsListening ? 1 : 0) as { at: string; minutes: number }[]
+  const manual = db
+    .prepare(
+      `SELECT occurred_at as at, delta_minutes as minutes
+       FROM manual_time_entries
+       WHERE category_id = ? AND occurred_at >= ?`
+    )
+    .all(categoryId, since) as { at: string; minutes: number }[]
+
+  const byWeek = new Map<string, number>()
+  let first: Date | null = null
+  for (const row of [...sessions, ...manual]) {
+    const at = new Date(row.at)
+    const week = periodBounds('week', at).start
+    if (!first || week < first) first = week
+    const key = localDateKey(week)
+    byWeek.set(key, (byWeek.get(key) ?? 0) + row.minutes / 60)
+  }
+
+  // A track picked up recently is measured from its first week, not padded with empty ones
+  const weeks: { weekStart: string; hours: number }[] = []
+  const cursor = new Date(!first ? current.start : first > windowStart ? first : windowStart)
+  while (cursor < current.start) {
+    const key = localDateKey(cursor)
+    weeks.push({ weekStart: key, hours: Math.round((byWeek.get(key) ?? 0) * 100) / 100 })
+    cursor.setDate(cursor.getDate() + 7)
+  }
+
+  const currentElapsed =
+    (now.getTime() - current.start.getTime()) / (current.end.getTime() - current.start.getTime())
+  return { weeks, currentHours: byWeek.get(localDateKey(current.start)) ?? 0, currentElapsed }
+}
+
+/**
+ * Projects when a track reaches its target hours from the recent weekly pace,
+ * with a band from how much that pace varies week to week, and compares it to
+ * the deadline. Null for tracks without a target.
+ */
+export function computeTrackForecast(
+  track: { category_id: string; target_hours_total: number | null; target_deadline: string | null },
+  progress: TrackProgress,
+  now: Date = new Date()
+): TrackForecast | null {
+  const target = track.target_hours_total ?? 0
+  if (target <= 0) return null
+
+  const { weeks, currentHours, currentElapsed } = weeklyHistory(
+    track.category_id,
+    progress.countsListening,
+    now
+  )
+  const historyHours = weeks.reduce((sum, w) => sum + w.hours, 0) + currentHours
+  // Never extrapolate from less than a week, or one evening's reading looks like a huge pace
+  const elapsedWeeks = Math.max(1, weeks.length + currentElapsed)
+  const rate = Math.max(0, historyHours / elapsedWeeks)
+
+  let spread = rate * FALLBACK_SPREAD
+  if (weeks.length >= 2) {
+    const mean = weeks.reduce((sum, w) => sum + w.hours, 0) / weeks.length
+    const variance = weeks.reduce((sum, w) => sum + (w.hours - mean) ** 2, 0) / (weeks.length - 1)
+    spread = (BAND_Z * Math.sqrt(variance)) / Math.sqrt(weeks.length)
+  }
+  const low = Math.max(0, rate - spread)
+  const high = rate + spread
+
+  const remaining = Math.max(0, target - progress.totalHours)
+  const deadline = track.target_deadline ? parseDeadline(track.target_deadline) : null
+  const weeksToDeadline = deadline ? (deadline.getTime() - now.getTime()) / WEEK_MS : null
+
+  const finishAt = (pace: number): string | null =>
+    remaining <= 0 ? now.toISOString() : pace > 0 ? weeksFromNow(remaining / pace, now) : null
+  const projectedCompletion = finishAt(rate)
+  const earliestCompletion = finishAt(high)
+  const latestCompletion = finishAt(low)
+
+  let status: TrackPaceStatus
+  if (remaining <= 0) status = 'completed'
+  else if (!deadline || weeksToDeadline === null) status = 'no-deadline'
+  else if (weeksToDeadline <= 0) status = 'overdue'
+  else if (!projectedCompletion || new Date(projectedCompletion) > deadline) status = 'behind'
+  else if (!latestCompletion || new Date(latestCompletion) > deadline) status = 'at-risk'
+  else status = 'on-track'
+
+  const round = (n: number): number => Math.round(n * 10) / 10
+  return {
+    status,
+    weeklyHours: round(rate),
+    weeklyHoursLow: round(low),
+    weeklyHoursHigh: round(high),
+    weeksObserved: weeks.length,
+    remainingHours: round(remaining),
+    requiredWeeklyHours:
+      weeksToDeadline !== null && weeksToDeadline > 0 && remaining > 0 ? round(remaining / weeksToDeadline) : null,
+    weeksToDeadline: weeksToDeadline !== null ? round(weeksToDeadline) : null,
+    projectedCompletion,
+    earliestCompletion,
+    latestCompletion,
+    history: weeks
+  }
+}
@@ -1,6 +1,8 @@
 import { ipcMain } from 'electron'
 import { randomUUID } from 'crypto'
 import { getDatabase } from '../database'
+import { computeTrackProgress } from './progress'
+import { computeTrackForecast } from './forecast'
 
 export function registerCategoryHandlers(): void {
   // ─── Categories ─────────────────────────────────────
@@ -77,6 +79,7 @@ export function registerCategoryHandlers(): void {
         manualBaseHours?: number
         notes?: string
         sourceLabel?: string
+        countListening?: boolean
       }
     ) => {
       const db = getDatabase()
@@ -94,6 +97,7 @@ export function registerCategoryHandlers(): void {
             manual_base_hours = ?,
             notes = ?,
             source_label = ?,
+            count_listening = COALESCE(?, count_listening),
             updated_at = ?
           WHERE category_id = ?`
         ).run(
@@ -103,6 +107,7 @@ export function registerCategoryHandlers(): void {
           data.manualBaseHours ?? 0,
           data.notes ?? null,
           data.sourceLabel ?? null,
+          data.countListening === undefined ? null : data.countListening ? 1 : 0,
           now,
           data.categoryId
         )
@@ -111,8 +116,8 @@ export function registerCategoryHandlers(): void {
         const id = randomUUID()
         const now = new Date().toISOString()
         db.prepare(
-          `INSERT INTO category_tracks (id, category_id, target_hours_total, weekly_target_hours, target_deadline, manual_base_hours, notes, source_label, created_at, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          `INSERT INTO category_tracks (id, category_id, target_hours_total, weekly_target_hours, target_deadline, manual_base_hours, notes, source_label, count_listening, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
         ).run(
           id,
           data.categoryId,
@@ -122,6 +127,7 @@ export function registerCategoryHandlers(): void {
           data.manualBaseHours ?? 0,
           data.notes ?? null,
           data.sourceLabel ?? null,
+          data.countListening === false ? 0 : 1,
           now,
           now
         )
@@ -140,6 +146,16 @@ export function registerCategoryHandlers(): void {
     return computeTrackProgress(categoryId)
   })
 
+  ipcMain.handle('db:tracks:getForecast', (_e, categoryId: string) => {
+    const track = getDatabase()
+      .prepare('SELECT category_id, target_hours_total, target_deadline FROM category_tracks WHERE category_id = ?')
+      .get(categoryId) as
+      | { category_id: string; target_hours_total: number | null; target_deadline: string | null }
+      | undefined
+    if (!track) return null
+    return computeTrackForecast(track, computeTrackProgress(categoryId))
+  })
+
   ipcMain.handle('db:tracks:getTopForDashboard', (_e, limit?: number) => {
     const db = getDatabase()
     const effectiveLimit = limit ?? 3
@@ -154,6 +170,7 @@ export function registerCategoryHandlers(): void {
       manual_base_hours: number | null
       notes: string | null
       source_label: string | null
+      count_listening: number
       created_at: string
       updated_at: string
     }>
@@ -167,7 +184,8 @@ export function registerCategoryHandlers(): void {
       results.push({
         ...track,
         category,
-        progress
+        progress,
+        forecast: computeTrackForecast(track, progress)
       })
     }
 
@@ -194,6 +212,7 @@ export function registerCategoryHandlers(): void {
       manual_base_hours: number | null
       notes: string | null
       source_label: string | null
+      count_listening: number
       created_at: string
       updated_at: string
     }>
@@ -206,7 +225,8 @@ export function registerCategoryHandlers(): void {
       return {
         ...track,
         category,
-        progress
+        progress,
+        forecast: computeTrackForecast(track, progress)
       }
     })
   })
@@ -248,62 +268,3 @@ export function registerCategoryHandlers(): void {
     }
   )
 }
-
-// ─── Helper ─────────────────────────────────────────
-
-function computeTrackProgress(categoryId: string): {
-  activeMinutes: number
-  manualMinutes: number
-  manualBaseMinutes: number
-  totalMinutes: number
-  totalHours: number
-  percentComplete: number
-} {
-  const db = getDatabase()
-
-  // activeMinutes = SUM(sessions.active_ms) / 60000 WHERE book.category_id = categoryId
-  const activeRow = db
-    .prepare(
-      `SELECT COALESCE(SUM(s.active_ms), 0) as total
-       FROM sessions s
-       INNER JOIN books b ON s.book_id = b.id
-       WHERE b.category_id = ?`
-    )
-    .get(categoryId) as { total: number }
-  const activeMinutes = activeRow.total / 60000
-
-  // manualMinutes = SUM(manual_time_entries.delta_minutes) WHERE category_id = categoryId
-  const manualRow = db
-    .prepare(
-      `SELECT COALESCE(SUM(delta_minutes), 0) as total
-       FROM manual_time_entries
-       WHERE category_id = ?`
-    )
-    .get(categoryId) as { total: number }
-  const manualMinutes = manualRow.total
-
-  // manualBaseMinutes = track.manual_base_hours * 60
-  const track = db
-    .prepare('SELECT manual_base_hours FROM category_tracks WHERE category_id = ?')
-    .get(categoryId) as { manual_base_hours: number | null } | undefined
-  const manualBaseMinutes = (track?.manual_base_hours ?? 0) * 60
-
-  const totalMinutes = activeMinutes + manualMinutes + manualBaseMinutes
-  const totalHours = totalMinutes / 60
-
-  // percentComplete based on target_hours_total
-  const trackFull = db
-    .prepare('SELECT target_hours_total FROM category_tracks WHERE category_id = ?')
-    .get(categoryId) as { target_hours_total: number | null } | undefined
-  const targetHours = trackFull?.target_hours_total ?? 0
-  const percentComplete = targetHours > 0 ? Math.min(100, (totalHours / targetHours) * 100) : 0
-
-  return {
-    activeMinutes: Math.round(activeMinutes * 100) / 100,
-    manualMinutes,
-    manualBaseMinutes,
-    totalMinutes: Math.round(totalMinutes * 100) / 100,
-    totalHours: Math.round(totalHours * 100) / 100,
-    percentComplete: Math.round(percentComplete * 100) / 100
-  }
-}
@@ -0,0 +1,74 @@
+import { getDatabase } from '../database'
+
+export interface TrackProgress {
+  activeMinutes: number
+  reviewMinutes: number
+  listeningMinutes: number
+  countsListening: boolean
+  manualMinutes: number
+  manualBaseMinutes: number
+  totalMinutes: number
+  totalHours: number
+  percentComplete: number
+}
+
+export function computeTrackProgress(categoryId: string): TrackProgress {
+  const db = getDatabase()
+
+  // activeMinutes = SUM(sessions.active_ms) / 60000 WHERE book.category_id = categoryId,
+  // split into reading sessions, flashcard review sessions and read-aloud listening
+  const activeRow = db
+    .prepare(
+      `SELECT
+         COALESCE(SUM(CASE WHEN s.session_type IN ('review', 'listening') THEN 0 ELSE s.active_ms END), 0) as reading,
+         COALESCE(SUM(CASE WHEN s.session_type = 'review' THEN s.active_ms ELSE 0 END), 0) as review,
+         COALESCE(SUM(CASE WHEN s.session_type = 'listening' THEN s.active_ms ELSE 0 END), 0) as listening
+       FROM sessions s
+       INNER JOIN books b ON s.book_id = b.id
+       WHERE b.category_id = ?`
+    )
+    .get(categoryId) as { reading: number; review: number; listening: number }
+  const activeMinutes = activeRow.reading / 60000
+  const reviewMinutes = activeRow.review / 60000
+  const listeningMinutes = activeRow.listening / 60000
+
+  // manualMinutes = SUM(manual_time_entries.delta_minutes) WHERE category_id = categoryId
+  const manualRow = db
+    .prepare(
+      `SELECT COALESCE(SUM(delta_minutes), 0) as total
+       FROM manual_time_entries
+       WHERE category_id = ?`
+    )
+    .get(categoryId) as { total: number }
+  const manualMinutes = manualRow.total
+
+  // manualBaseMinutes = track.manual_base_hours * 60
+  const track = db
+    .prepare('SELECT manual_base_hours, count_listening FROM category_tracks WHERE category_id = ?')
+    .get(categoryId) as { manual_base_hours: number | null; count_listening: number } | undefined
+  const manualBaseMinutes = (track?.manual_base_hours ?? 0) * 60
+  const countsListening = track ? track.count_listening !== 0 : true
+
+  const totalMinutes =
+    activeMinutes + reviewMinutes + (countsListening ? listeningMinutes : 0) + manualMinutes + manualBaseMinutes
+  const totalHours = totalMinutes / 60
+
+  // percentComplete based on target_hours_total
+  const trackFull = db
+    .prepare('SELECT target_hours_total FROM category_tracks WHERE category_id = ?')
+    .get(categoryId) as { target_hours_total: number | null } | undefined
+  const targetHours = trackFull?.target_hours_total ?? 0
+  const percentComplete = targetHours > 0 ? Math.min(100, (totalHours / targetHours) * 100) : 0
+
+  return {
+    activeMinutes: Math.round(activeMinutes * 100) / 100,
+    reviewMinutes: Math.round(reviewMinutes * 100) / 100,
+    listeningMinutes: Math.round(listeningMinutes * 100) / 100,
+    countsListening,
+    manualMinutes,
+    manualBaseMinutes,
+    totalMinutes: Math.round(totalMinutes * 100) / 100,
+    totalHours: Math.round(totalHours * 100) / 100,
+    percentComplete: Math.round(percentComplete * 100) / 100
+  }
+}
@@ -0,0 +1,256 @@
+import { extractSpineMarkup } from '../epub/parser'
+
+// Locate clipping text inside a book's spine documents and express it as the
+// same range CFI epub.js produces from a selection, so imported highlights
+// render and navigate like ones made in the reader.
+
+interface ElementNode {
+  type: 'element'
+  tag: string
+  id: string | null
+  parent: ElementNode | null
+  children: DomNode[]
+}
+
+interface TextNode {
+  type: 'text'
+  text: string
+  parent: ElementNode
+}
+
+type DomNode = ElementNode | TextNode | { type: 'other'; parent: ElementNode }
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'meta', 'link', 'input', 'col', 'area', 'base', 'wbr', 'source'])
+const SKIP_TEXT_TAGS = new Set(['head', 'script', 'style'])
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3'])
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  shy: '\u00AD',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”'
+}
+
+const TOKEN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/([^\s>]+)\s*>|<([A-Za-z][^\s/>]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|[^<]+|</g
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_m, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_m, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&([a-z]+);/gi, (m, name: string) => ENTITIES[name.toLowerCase()] ?? m)
+}
+
+/** Build a DOM-shaped tree the way an XHTML parser would: every text run and comment is a node */
+function parseMarkup(html: string): ElementNode {
+  const root: ElementNode = { type: 'element', tag: '#document', id: null, parent: null, children: [] }
+  let current = root
+  let m: RegExpExecArray | null
+  TOKEN.lastIndex = 0
+
+  while ((m = TOKEN.exec(html)) !== null) {
+    const token = m[0]
+    if (m[1]) {
+      // Closing tag: pop to the matching element, ignoring strays
+      const tag = m[1].toLowerCase()
+      for (let el: ElementNode | null = current; el && el !== root; el = el.parent) {
+        if (el.tag === tag) {
+          current = el.parent ?? root
+          break
+        }
+      }
+    } else if (m[2]) {
+      const tag = m[2].toLowerCase()
+      const id = m[3].match(/\sid\s*=\s*["']([^"']*)["']/)?.[1] ?? null
+      const el: ElementNode = { type: 'element', tag, id, parent: current, children: [] }
+      current.children.push(el)
+      if (!m[4] && !VOID_TAGS.has(tag)) current = el
+    } else if (token.startsWith('<!--')) {
+      current.children.push({ type: 'other', parent: current })
+    } else if (token.startsWith('<!') || token.startsWith('<?')) {
+      // Doctype, processing instruction and CDATA are not text nodes for CFI purposes
+      if (token.startsWith('<![CDATA[')) current.children.push({ type: 'other', parent: current })
+    } else {
+      const text = token === '<' ? token : decodeEntities(token)
+      const last = current.children[current.children.length - 1]
+      if (last?.type === 'text') last.text += text
+      else current.children.push({ type: 'text', text, parent: current })
+    }
+  }
+  return root
+}
+
+/** Fold a UTF-16 unit for matching: case, quotes and dashes; whitespace and soft hyphens drop out */
+function fold(ch: string): string {
+  if (/\s/.test(ch) || ch === '\u00AD' || ch === '\u200B' || ch === '\uFEFF') return ''
+  if ('‘’‚‛′`'.includes(ch)) return "'"
+  if ('“”„‟″«»'.includes(ch)) return '"'
+  if ('‐‑‒–—―'.includes(ch)) return '-'
+  if (ch === '…') return '...'
+  return ch.toLowerCase()
+}
+
+export function foldText(text: string): string {
+  let out = ''
+  for (let i = 0; i < text.length; i++) out += fold(text[i])
+  return out
+}
+
+interface FlatDocument {
+  folded: string
+  /** For each folded character, the text node and offset it came from */
+  map: { node: TextNode; offset: number }[]
+  /** h1–h3 text by the folded offset where each heading starts */
+  headings: { at: number; text: string }[]
+}
+
+function flatten(root: ElementNode): FlatDocument {
+  const flat: FlatDocument = { folded: '', map: [], headings: [] }
+
+  const visit = (node: DomNode, inHeading: string[] | null): void => {
+    if (node.type === 'text') {
+      inHeading?.push(node.text)
+      for (let i = 0; i < node.text.length; i++) {
+        const folded = fold(node.text[i])
+        for (const ch of folded) {
+          flat.folded += ch
+          flat.map.push({ node, offset: i })
+        }
+      }
+      return
+    }
+    if (node.type !== 'element' || SKIP_TEXT_TAGS.has(node.tag)) return
+
+    if (HEADING_TAGS.has(node.tag)) {
+      const parts: string[] = []
+      const at = flat.folded.length
+      node.children.forEach((child) => visit(child, parts))
+      const text = parts.join('').replace(/\s+/g, ' ').trim()
+      if (text) flat.headings.push({ at, text })
+      return
+    }
+    node.children.forEach((child) => visit(child, inHeading))
+  }
+
+  visit(root, null)
+  return flat
+}
+
+function stepFor(node: ElementNode | TextNode): string {
+  const parent = node.parent!
+  if (node.type === 'element') {
+    const index = parent.children.filter((c) => c.type === 'element').indexOf(node)
+    return `${(index + 1) * 2}${node.id ? `[${node.id}]` : ''}`
+  }
+  const index = parent.children.filter((c) => c.type === 'text').indexOf(node)
+  return String(1 + 2 * index)
+}
+
+/** Steps from the root element down to the node, as epub.js's pathTo() builds them */
+function pathTo(node: TextNode): string[] {
+  const steps: string[] = []
+  let current: ElementNode | TextNode = node
+  while (current.parent && current.parent.tag !== '#document') {
+    steps.unshift(stepFor(current))
+    current = current.parent
+  }
+  return steps
+}
+
+function rangeCfi(
+  cfiBase: string,
+  start: { node: TextNode; offset: number },
+  end: { node: TextNode; offset: number }
+): string {
+  const startSteps = pathTo(start.node)
+  const endSteps = pathTo(end.node)
+
+  // Shared leading steps become the parent path; like epub.js, the last step
+  // stays in both halves even when start and end share a text node
+  let common = 0
+  while (common < startSteps.length - 1 && startSteps[common] === endSteps[common]) common++
+
+  const parent = startSteps.slice(0, common).join('/')
+  const from = startSteps.slice(common).join('/')
+  const to = endSteps.slice(common).join('/')
+  return `epubcfi(${cfiBase}!/${parent},/${from}:${start.offset},/${to}:${end.offset})`
+}
+
+/** Find the folded clipping in the folded document; long clippings may match by head and tail */
+function findRange(folded: string, needle: string): [number, number] | null {
+  const exact = folded.indexOf(needle)
+  if (exact >= 0) return [exact, exact + needle.length]
+
+  // Devices drop footnote markers and rewrite punctuation, so a long passage
+  // that differs in the middle still counts when both ends line up
+  if (needle.length < 60) return null
+  const head = needle.slice(0, 30)
+  const tail = needle.slice(-30)
+  for (let from = folded.indexOf(head); from >= 0; from = folded.indexOf(head, from + 1)) {
+    const tailAt = folded.indexOf(tail, from + head.length)
+    if (tailAt < 0) return null
+    const length = tailAt + tail.length - from
+    if (length <= needle.length * 1.25 + 20) return [from, tailAt + tail.length]
+  }
+  return null
+}
+
+export interface Anchor {
+  cfi: string
+  chapter: string | null
+  href: string
+}
+
+export interface BookText {
+  docs: { href: string; spineIndex: number; cfiBase: string; flat: FlatDocument }[]
+}
+
+/** Parse every spine document once; anchoring many clippings reuses the result */
+export function loadBookText(filePath: string): BookText {
+  return {
+    docs: extractSpineMarkup(filePath).map((doc) => ({
+      href: doc.href,
+      spineIndex: doc.spineIndex,
+      cfiBase: doc.cfiBase,
+      flat: flatten(parseMarkup(doc.html))
+    }))
+  }
+}
+
+/**
+ * Search the spine for the clipping, starting with the document the device
+ * reported when there is one. Returns null when the text is not in the book.
+ */
+export function anchorClipping(book: BookText, text: string, spineHint: number | null): Anchor | null {
+  const needle = foldText(text)
+  if (!needle) return null
+
+  const docs =
+    spineHint === null
+      ? book.docs
+      : [...book.docs.filter((d) => d.spineIndex === spineHint), ...book.docs.filter((d) => d.spineIndex !== spineHint)]
+
+  for (const doc of docs) {
+    const range = findRange(doc.flat.folded, needle)
+    if (!range) continue
+    const start = doc.flat.map[range[0]]
+    const last = doc.flat.map[range[1] - 1]
+    const heading = doc.flat.headings.filter((h) => h.at <= range[0]).pop()
+    return {
+      cfi: rangeCfi(doc.cfiBase, start, { node: last.node, offset: last.offset + 1 }),
+      chapter: heading?.text ?? null,
+      href: doc.href
+    }
+  }
+  return null
+}
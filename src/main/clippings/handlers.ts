@@ -0,0 +1,103 @@
+import { BrowserWindow, dialog, ipcMain } from 'electron'
+import { readdirSync, readFileSync, statSync } from 'fs'
+import { basename, join } from 'path'
+import { parseKindleClippings } from './kindle'
+import { parseKoreaderMetadata } from './koreader'
+import { assignQueued, dismissQueued, getQueue, importClippings, retryQueue } from './importer'
+import type { Clipping, ClippingImportReport } from './types'
+
+const KOREADER_METADATA = /^metadata\..+\.lua$/i
+const MAX_SCAN_DEPTH = 6
+
+/** Find Kindle and KOReader exports under a folder, e.g. a mounted device */
+function scanFolder(dir: string, depth = 0): string[] {
+  if (depth > MAX_SCAN_DEPTH) return []
+  const found: string[] = []
+  let names: string[]
+  try {
+    names = readdirSync(dir)
+  } catch {
+    return found
+  }
+  for (const name of names) {
+    const path = join(dir, name)
+    let isDir = false
+    try {
+      isDir = statSync(path).isDirectory()
+    } catch {
+      continue
+    }
+    if (isDir) found.push(...scanFolder(path, depth + 1))
+    else if (KOREADER_METADATA.test(name) || name.toLowerCase() === 'my clippings.txt') found.push(path)
+  }
+  return found
+}
+
+function readClippings(paths: string[]): { clippings: Clipping[]; skipped: number; errors: string[] } {
+  const clippings: Clipping[] = []
+  const errors: string[] = []
+  let skipped = 0
+
+  for (const path of paths) {
+    try {
+      const content = readFileSync(path, 'utf-8')
+      const parsed = path.toLowerCase().endsWith('.lua')
+        ? parseKoreaderMetadata(content, path)
+        : parseKindleClippings(content)
+      clippings.push(...parsed.clippings)
+      skipped += parsed.skipped
+    } catch (err) {
+      errors.push(`${basename(path)}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  return { clippings, skipped, errors }
+}
+
+export function registerClippingHandlers(): void {
+  // Pick Kindle "My Clippings.txt" / KOReader metadata files, or a folder to scan for them
+  ipcMain.handle('clippings:import', async (_e, pick: 'files' | 'folder' = 'files') => {
+    const mainWindow = BrowserWindow.getFocusedWindow()
+    if (!mainWindow) return { success: false, error: 'No window' }
+
+    const result = await dialog.showOpenDialog(
+      mainWindow,
+      pick === 'folder'
+        ? { title: 'Choose a device or KOReader folder', properties: ['openDirectory'] }
+        : {
+            properties: ['openFile', 'multiSelections'],
+            filters: [{ name: 'Kindle Clippings or KOReader Metadata', extensions: ['txt', 'lua'] }]
+          }
+    )
+    if (result.canceled || result.filePaths.length === 0) return { success: false, error: 'Cancelled' }
+
+    const paths = pick === 'folder' ? scanFolder(result.filePaths[0]) : result.filePaths
+    if (paths.length === 0) return { success: false, error: 'No Kindle or KOReader highlights found in that folder' }
+
+    try {
+      const read = readClippings(paths)
+      const placed = importClippings(read.clippings)
+      const report: ClippingImportReport = {
+        ...placed,
+        files: paths.length,
+        skipped: read.skipped,
+        errors: [...read.errors, ...placed.errors]
+      }
+      return { success: true, report }
+    } catch (err) {
+      console.error('Clipping import failed:', err)
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+
+  // ─── Review Queue ────────────────────────────────────
+  ipcMain.handle('db:clippings:getQueue', () => getQueue())
+
+  ipcMain.handle('db:clippings:assign', (_e, id: string, bookId: string) => assignQueued(id, bookId))
+
+  ipcMain.handle('db:clippings:retry', () => retryQueue())
+
+  ipcMain.handle('db:clippings:dismiss', (_e, id: string) => {
+    dismissQueued(id)
+    return { success: true }
+  })
+}
@@ -0,0 +1,315 @@
+import { existsSync } from 'fs'
+import { randomUUID } from 'crypto'
+import { getDatabase } from '../database'
+import { createHighlight, createNote } from '../database/handlers'
+import { anchorClipping, foldText, loadBookText, type BookText } from './anchor'
+import type { Clipping, ClippingImportReport, QueueReason, QueuedClipping } from './types'
+
+interface LibraryBook {
+  id: string
+  title: string
+  author: string | null
+  file_path: string
+  format: string
+}
+
+// ─── Book Matching ──────────────────────────────────
+
+/** Lowercase, strip accents, brackets and punctuation */
+function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .replace(/^(the|a|an) /, '')
+    .trim()
+}
+
+function bigrams(value: string): Map<string, number> {
+  const grams = new Map<string, number>()
+  const s = value.replace(/ /g, '')
+  for (let i = 0; i < s.length - 1; i++) {
+    const g = s.slice(i, i + 2)
+    grams.set(g, (grams.get(g) ?? 0) + 1)
+  }
+  return grams
+}
+
+/** Sørensen–Dice over character bigrams: 1 for identical, ~0 for unrelated */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1
+  const ga = bigrams(a)
+  const gb = bigrams(b)
+  let total = 0
+  let shared = 0
+  for (const n of ga.values()) total += n
+  for (const [g, n] of gb) {
+    total += n
+    shared += Math.min(n, ga.get(g) ?? 0)
+  }
+  return total === 0 ? 0 : (2 * shared) / total
+}
+
+function authorTokens(author: string | null): Set<string> {
+  return new Set(normalizeTitle(author ?? '').split(' ').filter((t) => t.length > 1))
+}
+
+const MATCH_THRESHOLD = 0.8
+
+/**
+ * Best library book for a device title/author. Device titles often carry a
+ * subtitle or series suffix the library lacks (or the other way round), so
+ * the main title before ":" is compared too. Agreeing authors lift a close
+ * title over the threshold; conflicting ones pull it under.
+ */
+export function matchBook(title: string, author: string | null, books: LibraryBook[]): LibraryBook | null {
+  const full = normalizeTitle(title)
+  const main = normalizeTitle(title.split(/:| - /)[0])
+  const wanted = authorTokens(author)
+
+  let best: LibraryBook | null = null
+  let bestScore = 0
+  for (const book of books) {
+    const bookFull = normalizeTitle(book.title)
+    const bookMain = normalizeTitle(book.title.split(/:| - /)[0])
+    let score = Math.max(similarity(full, bookFull), similarity(main, bookMain) - 0.05)
+
+    const have = authorTokens(book.author)
+    if (wanted.size > 0 && have.size > 0) {
+      const overlap = [...wanted].some((t) => have.has(t))
+      score += overlap ? 0.1 : -0.2
+    }
+    if (score > bestScore) {
+      best = book
+      bestScore = score
+    }
+  }
+  return bestScore >= MATCH_THRESHOLD ? best : null
+}
+
+// ─── Placement ──────────────────────────────────────
+
+type Placement = 'imported' | 'duplicate' | { reason: QueueReason; bookId: string | null }
+
+/**
+ * Matches books and anchors clippings, caching each book's parsed spine
+ * and existing highlights across one run.
+ */
+class ClippingPlacer {
+  private books: LibraryBook[]
+  private texts = new Map<string, BookText | null>()
+  private existing = new Map<string, Set<string>>()
+  readonly errors: string[] = []
+  notes = 0
+
+  constructor() {
+    this.books = getDatabase()
+      .prepare('SELECT id, title, author, file_path, format FROM books')
+      .all() as LibraryBook[]
+  }
+
+  bookById(id: string): LibraryBook | null {
+    return this.books.find((b) => b.id === id) ?? null
+  }
+
+  private textFor(book: LibraryBook): BookText | null {
+    if (!this.texts.has(book.id)) {
+      let text: BookText | null = null
+      if (book.format === 'epub' && existsSync(book.file_path)) {
+        try {
+          text = loadBookText(book.file_path)
+        } catch (err) {
+          this.errors.push(`${book.title}: ${err instanceof Error ? err.message : String(err)}`)
+        }
+      }
+      this.texts.set(book.id, text)
+    }
+    return this.texts.get(book.id) ?? null
+  }
+
+  private existingFor(bookId: string): Set<string> {
+    let set = this.existing.get(bookId)
+    if (!set) {
+      const rows = getDatabase()
+        .prepare('SELECT text, cfi_range FROM highlights WHERE book_id = ?')
+        .all(bookId) as { text: string; cfi_range: string }[]
+      set = new Set(rows.flatMap((r) => [foldText(r.text), r.cfi_range]))
+      this.existing.set(bookId, set)
+    }
+    return set
+  }
+
+  place(clipping: Clipping, forcedBook: LibraryBook | null = null): Placement {
+    const book = forcedBook ?? matchBook(clipping.bookTitle, clipping.bookAuthor, this.books)
+    if (!book) return { reason: 'no_book', bookId: null }
+
+    const seen = this.existingFor(book.id)
+    const folded = foldText(clipping.text)
+    if (seen.has(folded)) return 'duplicate'
+
+    const text = this.textFor(book)
+    const anchor = text ? anchorClipping(text, clipping.text, clipping.spineHint) : null
+    if (!anchor) return { reason: 'no_anchor', bookId: book.id }
+    if (seen.has(anchor.cfi)) return 'duplicate'
+
+    const highlight = createHighlight({
+      book_id: book.id,
+      cfi_range: anchor.cfi,
+      text: clipping.text,
+      color: clipping.color ?? undefined,
+      chapter: clipping.chapter ?? anchor.chapter ?? undefined,
+      created_at: clipping.clippedAt ?? undefined
+    }) as { id: string }
+    if (clipping.note) {
+      createNote({
+        book_id: book.id,
+        highlight_id: highlight.id,
+        content: clipping.note,
+        created_at: clipping.clippedAt ?? undefined
+      })
+      this.notes++
+    }
+    seen.add(folded)
+    seen.add(anchor.cfi)
+    return 'imported'
+  }
+}
+
+function enqueue(clipping: Clipping, reason: QueueReason, bookId: string | null): boolean {
+  const result = getDatabase()
+    .prepare(
+      `INSERT OR IGNORE INTO clipping_queue
+         (id, source, book_title, book_author, book_id, reason, text, note, chapter, location, clipped_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      randomUUID(),
+      clipping.source,
+      clipping.bookTitle,
+      clipping.bookAuthor,
+      bookId,
+      reason,
+      clipping.text,
+      clipping.note,
+      clipping.chapter,
+      clipping.location,
+      clipping.clippedAt,
+      new Date().toISOString()
+    )
+  return result.changes > 0
+}
+
+function fromQueue(row: QueuedClipping): Clipping {
+  return {
+    source: row.source,
+    bookTitle: row.book_title,
+    bookAuthor: row.book_author,
+    text: row.text,
+    note: row.note,
+    chapter: row.chapter,
+    location: row.location,
+    clippedAt: row.clipped_at,
+    color: null,
+    spineHint: null
+  }
+}
+
+// ─── Import ─────────────────────────────────────────
+
+/**
+ * Import parsed clippings as highlights. Anything that cannot be placed goes
+ * to the review queue rather than being dropped.
+ */
+export function importClippings(clippings: Clipping[]): Omit<ClippingImportReport, 'files' | 'skipped'> {
+  const db = getDatabase()
+  const placer = new ClippingPlacer()
+  const report = { clippings: clippings.length, imported: 0, notes: 0, duplicates: 0, queued: 0 }
+
+  db.transaction(() => {
+    for (const clipping of clippings) {
+      const placement = placer.place(clipping)
+      if (placement === 'imported') report.imported++
+      else if (placement === 'duplicate') report.duplicates++
+      // Already waiting in the queue from an earlier import
+      else if (enqueue(clipping, placement.reason, placement.bookId)) report.queued++
+      else report.duplicates++
+    }
+  })()
+
+  return { ...report, notes: placer.notes, errors: placer.errors }
+}
+
+export function getQueue(): (QueuedClipping & { matched_title: string | null })[] {
+  return getDatabase()
+    .prepare(
+      `SELECT q.*, b.title AS matched_title
+       FROM clipping_queue q
+       LEFT JOIN books b ON b.id = q.book_id
+       ORDER BY q.book_title, q.created_at`
+    )
+    .all() as (QueuedClipping & { matched_title: string | null })[]
+}
+
+/**
+ * Place a queued clipping in the book the user picked. When the text still
+ * can't be found the row stays queued, now pointing at that book.
+ */
+export function assignQueued(
+  id: string,
+  bookId: string
+): { success: true; duplicate: boolean } | { success: false; error: string } {
+  const db = getDatabase()
+  const row = db.prepare('SELECT * FROM clipping_queue WHERE id = ?').get(id) as QueuedClipping | undefined
+  if (!row) return { success: false, error: 'Clipping not found' }
+
+  const placer = new ClippingPlacer()
+  const book = placer.bookById(bookId)
+  if (!book) return { success: false, error: 'Book not found' }
+
+  return db.transaction(() => {
+    const placement = placer.place(fromQueue(row), book)
+    if (placement === 'imported' || placement === 'duplicate') {
+      db.prepare('DELETE FROM clipping_queue WHERE id = ?').run(id)
+      return { success: true as const, duplicate: placement === 'duplicate' }
+    }
+    db.prepare("UPDATE clipping_queue SET book_id = ?, reason = 'no_anchor' WHERE id = ?").run(bookId, id)
+    return {
+      success: false as const,
+      error: book.format === 'epub' ? 'Text not found in this book' : 'Only EPUB books can be searched for the passage'
+    }
+  })()
+}
+
+/** Try the whole queue again, e.g. after the missing books were imported */
+export function retryQueue(): { imported: number; duplicates: number; remaining: number } {
+  const db = getDatabase()
+  const placer = new ClippingPlacer()
+  const rows = db.prepare('SELECT * FROM clipping_queue').all() as QueuedClipping[]
+  let imported = 0
+  let duplicates = 0
+
+  db.transaction(() => {
+    for (const row of rows) {
+      const placement = placer.place(fromQueue(row), row.book_id ? placer.bookById(row.book_id) : null)
+      if (placement === 'imported') imported++
+      else if (placement === 'duplicate') duplicates++
+      else {
+        db.prepare('UPDATE clipping_queue SET book_id = ?, reason = ? WHERE id = ?').run(
+          placement.bookId,
+          placement.reason,
+          row.id
+        )
+        continue
+      }
+      db.prepare('DELETE FROM clipping_queue WHERE id = ?').run(row.id)
+    }
+  })()
+
+  return { imported, duplicates, remaining: rows.length - imported - duplicates }
+}
+
+export function dismissQueued(id: string): void {
+  getDatabase().prepare('DELETE FROM clipping_queue WHERE id = ?').run(id)
+}
@@ -0,0 +1,167 @@
+import type { Clipping } from './types'
+
+// Kindle appends every highlight, note and bookmark to "My Clippings.txt":
+//
+//   Book Title (Author Name)
+//   - Your Highlight on page 12 | Location 180-182 | Added on Monday, March 4, 2019 10:11:12 PM
+//
+//   The highlighted text
+//   ==========
+//
+// Notes are separate entries at the highlight's end location.
+
+const SEPARATOR = /^==========\s*$/m
+
+// The meta line is localised; these cover the common device languages
+const HIGHLIGHT_WORDS = /highlight|subrayado|markierung|surlignement|evidenziazione|destaque/i
+const NOTE_WORDS = /\bnote\b|\bnota\b|notiz/i
+const LOCATION_WORDS = /(?:location|loc\.|posición|position|posizione|posição)\s+(\d+)(?:-(\d+))?/i
+const PAGE_WORDS = /(?:page|página|seite|pagina)\s+(\d+)(?:-(\d+))?/i
+
+interface KindleEntry {
+  kind: 'highlight' | 'note' | 'other'
+  title: string
+  author: string | null
+  text: string
+  page: string | null
+  locStart: number | null
+  locEnd: number | null
+  clippedAt: string | null
+}
+
+/** "Title (Series) (Last, First)" — the author is the last parenthesised group */
+function splitTitleLine(line: string): { title: string; author: string | null } {
+  const cleaned = line.replace(/^\uFEFF/, '').trim()
+  const match = cleaned.match(/^(.*\S)\s*\(([^()]+)\)$/)
+  if (!match) return { title: cleaned, author: null }
+  const author = match[2].trim()
+  // Kindle writes "Last, First"; flip it so it compares against library metadata
+  const parts = author.split(',').map((p) => p.trim())
+  return {
+    title: match[1].trim(),
+    author: parts.length === 2 && parts[1] && !author.includes(';') ? `${parts[1]} ${parts[0]}` : author
+  }
+}
+
+function parseDate(meta: string): string | null {
+  const segment = meta.split('|').pop() ?? ''
+  // Drop "Added on" and the weekday; what is left is "March 4, 2019 10:11:12 PM"
+  const withoutWeekday = segment.replace(/^.*?,\s*/, '')
+  const time = Date.parse(withoutWeekday)
+  return Number.isNaN(time) ? null : new Date(time).toISOString()
+}
+
+function parseEntry(block: string): KindleEntry | null {
+  const lines = block.split(/\r?\n/)
+  while (lines.length > 0 && lines[0].trim() === '') lines.shift()
+  if (lines.length < 2) return null
+
+  const { title, author } = splitTitleLine(lines[0])
+  const meta = lines[1]
+  const text = lines.slice(2).join('\n').trim()
+
+  const beforePipe = meta.split('|')[0]
+  const kind = HIGHLIGHT_WORDS.test(beforePipe) ? 'highlight' : NOTE_WORDS.test(beforePipe) ? 'note' : 'other'
+
+  const loc = meta.match(LOCATION_WORDS)
+  const page = meta.match(PAGE_WORDS)
+  const locStart = loc ? parseInt(loc[1], 10) : null
+  // "180-82" abbreviates the end location to the digits that changed
+  let locEnd = locStart
+  if (loc?.[2] && locStart !== null) {
+    const suffix = loc[2]
+    const start = String(locStart)
+    locEnd = parseInt(start.slice(0, Math.max(0, start.length - suffix.length)) + suffix, 10)
+  }
+
+  return {
+    kind,
+    title,
+    author,
+    text,
+    page: page ? (page[2] ? `${page[1]}-${page[2]}` : page[1]) : null,
+    locStart,
+    locEnd,
+    clippedAt: parseDate(meta)
+  }
+}
+
+function locationLabel(entry: KindleEntry): string | null {
+  const parts: string[] = []
+  if (entry.page) parts.push(`Page ${entry.page}`)
+  if (entry.locStart !== null) {
+    parts.push(entry.locEnd !== entry.locStart ? `Location ${entry.locStart}-${entry.locEnd}` : `Location ${entry.locStart}`)
+  }
+  return parts.length > 0 ? parts.join(', ') : null
+}
+
+/**
+ * Parse "My Clippings.txt". Notes are folded into the highlight whose location
+ * range covers the note; a note with no such highlight is dropped with the
+ * bookmarks, since there is no passage to anchor it to.
+ */
+export function parseKindleClippings(content: string): { clippings: Clipping[]; skipped: number } {
+  const entries = content
+    .split(SEPARATOR)
+    .map(parseEntry)
+    .filter((e): e is KindleEntry => e !== null)
+
+  const clippings: Clipping[] = []
+  const byBook = new Map<string, { entry: KindleEntry; clipping: Clipping }[]>()
+  let skipped = 0
+
+  for (const entry of entries) {
+    if (entry.kind !== 'highlight' || !entry.text) continue
+    const clipping: Clipping = {
+      source: 'kindle',
+      bookTitle: entry.title,
+      bookAuthor: entry.author,
+      text: entry.text,
+      note: null,
+      chapter: null,
+      location: locationLabel(entry),
+      clippedAt: entry.clippedAt,
+      color: null,
+      spineHint: null
+    }
+
+    // Extending a highlight on the device appends a new entry instead of
+    // replacing the old one; keep the latest clipping for a location
+    const siblings = byBook.get(entry.title) ?? []
+    const previous = siblings.findIndex(
+      (s) => s.entry.locStart === entry.locStart && entry.locStart !== null
+    )
+    if (previous >= 0) {
+      const replaced = siblings[previous].clipping
+      clippings.splice(clippings.indexOf(replaced), 1, clipping)
+      siblings[previous] = { entry, clipping }
+      skipped++
+    } else {
+      clippings.push(clipping)
+      siblings.push({ entry, clipping })
+    }
+    byBook.set(entry.title, siblings)
+  }
+
+  for (const entry of entries) {
+    if (entry.kind === 'highlight' && entry.text) continue
+    if (entry.kind !== 'note' || !entry.text || entry.locStart === null) {
+      skipped++
+      continue
+    }
+    const target = (byBook.get(entry.title) ?? []).find(
+      (s) =>
+        s.entry.locStart !== null &&
+        s.entry.locEnd !== null &&
+        entry.locStart! >= s.entry.locStart &&
+        entry.locStart! <= s.entry.locEnd
+    )
+    if (!target) {
+      skipped++
+      continue
+    }
+    target.clipping.note = target.clipping.note ? `${target.clipping.note}\n\n${entry.text}` : entry.text
+  }
+
+  return { clippings, skipped }
+}
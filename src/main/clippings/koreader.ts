@@ -0,0 +1,123 @@
+import { basename, extname } from 'path'
+import { parseLuaTable, type LuaTable, type LuaValue } from './lua'
+import type { Clipping } from './types'
+
+// KOReader keeps each book's state next to it in "<book>.sdr/metadata.<ext>.lua".
+// Since 2023 highlights live in `annotations`; older versions split them
+// between `highlight` (per page) and `bookmarks` (which carry the notes).
+
+const COLORS: Record<string, string> = {
+  yellow: '#fef08a',
+  green: '#bbf7d0',
+  olive: '#bbf7d0',
+  blue: '#bfdbfe',
+  cyan: '#bfdbfe',
+  red: '#fbcfe8',
+  purple: '#fbcfe8',
+  orange: '#fed7aa'
+}
+
+function isTable(value: LuaValue | undefined): value is LuaTable {
+  return typeof value === 'object' && value !== null
+}
+
+function str(value: LuaValue | undefined): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+function entries(table: LuaValue | undefined): LuaTable[] {
+  if (!isTable(table)) return []
+  return Object.keys(table)
+    .sort((a, b) => Number(a) - Number(b))
+    .map((k) => table[k])
+    .filter(isTable)
+}
+
+/** "/body/DocFragment[12]/body/p[3]/text().45" → spine index 11 */
+function spineIndexOf(xpointer: string | null): number | null {
+  const match = xpointer?.match(/DocFragment\[(\d+)\]/)
+  return match ? parseInt(match[1], 10) - 1 : null
+}
+
+/** KOReader stores local time as "2024-01-31 21:04:10" */
+function toIso(datetime: string | null): string | null {
+  if (!datetime) return null
+  const time = Date.parse(datetime.replace(' ', 'T'))
+  return Number.isNaN(time) ? null : new Date(time).toISOString()
+}
+
+function locationOf(item: LuaTable): string | null {
+  const page = item.pageno ?? item.page
+  return typeof page === 'number' ? `Page ${page}` : null
+}
+
+/**
+ * Parse one metadata.*.lua file. `fileName` is the sidecar's path, used for
+ * the title when the book had no metadata.
+ */
+export function parseKoreaderMetadata(source: string, fileName: string): { clippings: Clipping[]; skipped: number } {
+  const root = parseLuaTable(source)
+  if (!isTable(root)) return { clippings: [], skipped: 0 }
+
+  const props = isTable(root.doc_props) ? root.doc_props : {}
+  const stats = isTable(root.stats) ? root.stats : {}
+  const docPath = str(root.doc_path)
+  const fallbackTitle = basename(docPath ?? fileName.replace(/\.sdr[\\/].*$/, ''))
+  const bookTitle = str(props.title) ?? str(stats.title) ?? basename(fallbackTitle, extname(fallbackTitle))
+  // Multiple authors are newline separated
+  const bookAuthor = (str(props.authors) ?? str(stats.authors))?.split('\n').join(', ') ?? null
+
+  const clippings: Clipping[] = []
+  let skipped = 0
+
+  const push = (item: LuaTable, text: string | null, note: string | null): void => {
+    if (!text) {
+      skipped++
+      return
+    }
+    const pos0 = str(item.pos0) ?? str(item.page)
+    clippings.push({
+      source: 'koreader',
+      bookTitle,
+      bookAuthor,
+      text,
+      note,
+      chapter: str(item.chapter),
+      location: locationOf(item),
+      clippedAt: toIso(str(item.datetime)),
+      color: COLORS[str(item.color)?.toLowerCase() ?? ''] ?? null,
+      spineHint: spineIndexOf(pos0)
+    })
+  }
+
+  const annotations = entries(root.annotations)
+  if (annotations.length > 0) {
+    for (const item of annotations) {
+      // Entries without a range are page bookmarks
+      if (!item.pos0) {
+        skipped++
+        continue
+      }
+      push(item, str(item.text), str(item.note))
+    }
+    return { clippings, skipped }
+  }
+
+  // Legacy layout: highlight[page][n] holds the passages, bookmarks hold notes
+  const notesByPos = new Map<string, string>()
+  for (const bookmark of entries(root.bookmarks)) {
+    const pos0 = str(bookmark.pos0)
+    const text = str(bookmark.text)
+    // Untouched bookmarks carry an auto-generated "Page 12 … @ 2024-01-31" label
+    if (pos0 && text && text !== str(bookmark.notes) && !/^Page \d+ .* @ \d{4}-\d{2}-\d{2}/s.test(text)) {
+      notesByPos.set(pos0, text)
+    }
+  }
+  for (const page of entries(root.highlight)) {
+    for (const item of entries(page)) {
+      push(item, str(item.text), notesByPos.get(str(item.pos0) ?? '') ?? null)
+    }
+  }
+
+  return { clippings, skipped }
+}
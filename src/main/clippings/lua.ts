@@ -0,0 +1,177 @@
+// Just enough Lua to read KOReader's metadata.*.lua files: a single
+// `return { ... }` table of strings, numbers, booleans and nested tables.
+
+export type LuaValue = string | number | boolean | null | LuaTable
+export interface LuaTable {
+  [key: string]: LuaValue
+}
+
+export class LuaParseError extends Error {
+  constructor(message: string, position: number) {
+    super(`${message} at offset ${position}`)
+    this.name = 'LuaParseError'
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  a: '\x07',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+  '\n': '\n'
+}
+
+class Parser {
+  private pos = 0
+
+  constructor(private readonly src: string) {}
+
+  parseChunk(): LuaValue {
+    this.skip()
+    if (this.src.startsWith('return', this.pos)) this.pos += 'return'.length
+    const value = this.value()
+    this.skip()
+    return value
+  }
+
+  private skip(): void {
+    for (;;) {
+      const rest = this.src.slice(this.pos, this.pos + 4)
+      if (/^\s/.test(rest)) {
+        this.pos++
+      } else if (rest.startsWith('--')) {
+        const long = this.src.slice(this.pos + 2).match(/^\[(=*)\[/)
+        if (long) {
+          const close = `]${long[1]}]`
+          const end = this.src.indexOf(close, this.pos)
+          this.pos = end < 0 ? this.src.length : end + close.length
+        } else {
+          const end = this.src.indexOf('\n', this.pos)
+          this.pos = end < 0 ? this.src.length : end + 1
+        }
+      } else {
+        return
+      }
+    }
+  }
+
+  private value(): LuaValue {
+    this.skip()
+    const ch = this.src[this.pos]
+    if (ch === '{') return this.table()
+    if (ch === '"' || ch === "'") return this.quoted(ch)
+    if (ch === '[' && /^\[=*\[/.test(this.src.slice(this.pos))) return this.longString()
+    if (ch === '-' || (ch >= '0' && ch <= '9') || ch === '.') return this.number()
+    for (const [word, result] of [
+      ['true', true],
+      ['false', false],
+      ['nil', null]
+    ] as const) {
+      if (this.src.startsWith(word, this.pos)) {
+        this.pos += word.length
+        return result
+      }
+    }
+    throw new LuaParseError(`Unexpected "${ch ?? 'end of input'}"`, this.pos)
+  }
+
+  private number(): number {
+    const match = this.src.slice(this.pos).match(/^-?(?:0x[0-9a-f]+|\d*\.?\d+(?:e[+-]?\d+)?)/i)
+    if (!match) throw new LuaParseError('Invalid number', this.pos)
+    this.pos += match[0].length
+    return Number(match[0])
+  }
+
+  private quoted(quote: string): string {
+    let out = ''
+    this.pos++
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos++]
+      if (ch === quote) return out
+      if (ch !== '\\') {
+        out += ch
+        continue
+      }
+      const next = this.src[this.pos]
+      const digits = this.src.slice(this.pos).match(/^\d{1,3}/)
+      if (digits) {
+        // Decimal escapes are bytes; KOReader writes UTF-8 text literally, so
+        // these are only ever control characters
+        out += String.fromCharCode(parseInt(digits[0], 10))
+        this.pos += digits[0].length
+      } else if (next in ESCAPES) {
+        out += ESCAPES[next]
+        this.pos++
+      } else {
+        out += next
+        this.pos++
+      }
+    }
+    throw new LuaParseError('Unterminated string', this.pos)
+  }
+
+  private longString(): string {
+    const open = this.src.slice(this.pos).match(/^\[(=*)\[/)!
+    const close = `]${open[1]}]`
+    const start = this.pos + open[0].length
+    const end = this.src.indexOf(close, start)
+    if (end < 0) throw new LuaParseError('Unterminated long string', this.pos)
+    this.pos = end + close.length
+    // A newline right after the opening bracket is not part of the string
+    return this.src.slice(start, end).replace(/^\r?\n/, '')
+  }
+
+  private table(): LuaTable {
+    const table: LuaTable = {}
+    let arrayIndex = 1
+    this.pos++ // {
+
+    for (;;) {
+      this.skip()
+      if (this.src[this.pos] === '}') {
+        this.pos++
+        return table
+      }
+
+      let key: string
+      if (this.src[this.pos] === '[' && !/^\[=*\[/.test(this.src.slice(this.pos))) {
+        this.pos++
+        key = String(this.value())
+        this.skip()
+        this.expect(']')
+        this.skip()
+        this.expect('=')
+      } else {
+        const name = this.src.slice(this.pos).match(/^([A-Za-z_][A-Za-z0-9_]*)\s*=(?!=)/)
+        if (name) {
+          key = name[1]
+          this.pos += name[0].length
+        } else {
+          key = String(arrayIndex++)
+        }
+      }
+
+      table[key] = this.value()
+      this.skip()
+      const sep = this.src[this.pos]
+      if (sep === ',' || sep === ';') this.pos++
+      else if (sep !== '}') throw new LuaParseError('Expected "," or "}"', this.pos)
+    }
+  }
+
+  private expect(ch: string): void {
+    if (this.src[this.pos] !== ch) throw new LuaParseError(`Expected "${ch}"`, this.pos)
+    this.pos++
+  }
+}
+
+/** Parse a Lua data file. Array-style keys come back as "1", "2", … */
+export function parseLuaTable(source: string): LuaValue {
+  return new Parser(source).parseChunk()
+}
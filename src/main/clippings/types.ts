@@ -0,0 +1,53 @@
+export type ClippingSource = 'kindle' | 'koreader'
+
+/**
+ * One highlight read from an e-reader export, before it is matched to a book.
+ * Parsers fill what their format knows and leave the rest null.
+ */
+export interface Clipping {
+  source: ClippingSource
+  bookTitle: string
+  bookAuthor: string | null
+  text: string
+  note: string | null
+  chapter: string | null
+  /** Human-readable position from the device ("Location 180-182", "Page 12") */
+  location: string | null
+  /** ISO timestamp from the device, when it recorded one */
+  clippedAt: string | null
+  color: string | null
+  /** 0-based spine index the device reported (KOReader xpointers), used to narrow the text search */
+  spineHint: number | null
+}
+
+export interface ClippingImportReport {
+  files: number
+  clippings: number
+  imported: number
+  notes: number
+  /** Already in the library, or already waiting in the review queue */
+  duplicates: number
+  /** Sent to the review queue: book not found or text not located */
+  queued: number
+  /** Bookmarks, empty entries, stray notes and highlights the device later extended */
+  skipped: number
+  errors: string[]
+}
+
+export type QueueReason = 'no_book' | 'no_anchor'
+
+/** A clipping_queue row */
+export interface QueuedClipping {
+  id: string
+  source: ClippingSource
+  book_title: string
+  book_author: string | null
+  book_id: string | null
+  reason: QueueReason
+  text: string
+  note: string | null
+  chapter: string | null
+  location: string | null
+  clipped_at: string | null
+  created_at: string
+}
@@ -1,6 +1,88 @@
 import { ipcMain } from 'electron'
 import { randomUUID } from 'crypto'
 import { getDatabase } from './index'
+import { getTimeLeft } from '../estimates/timeLeft'
+import { recordChapterProgress } from '../goals/chapters'
+
+export interface HighlightInput {
+  book_id: string
+  cfi_range: string
+  text: string
+  color?: string
+  chapter?: string
+  /** Defaults to now; importers keep the original clipping date */
+  created_at?: string
+}
+
+export interface NoteInput {
+  book_id: string
+  highlight_id?: string
+  content: string
+  tags?: string
+  created_at?: string
+}
+
+/** Shared by the IPC handler and the clippings importer */
+export function createHighlight(data: HighlightInput): unknown {
+  const id = randomUUID()
+  const now = data.created_at ?? new Date().toISOString()
+  getDatabase()
+    .prepare(
+      `INSERT INTO highlights (id, book_id, cfi_range, text, color, chapter, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(id, data.book_id, data.cfi_range, data.text, data.color ?? '#fef08a', data.chapter ?? null, now)
+  return getDatabase().prepare('SELECT * FROM highlights WHERE id = ?').get(id)
+}
+
+export function createNote(data: NoteInput): unknown {
+  const id = randomUUID()
+  const now = data.created_at ?? new Date().toISOString()
+  getDatabase()
+    .prepare(
+      `INSERT INTO notes (id, highlight_id, book_id, content, tags, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      data.highlight_id ?? null,
+      data.book_id,
+      data.content,
+      data.tags ?? '[]',
+      now,
+      now
+    )
+  return getDatabase().prepare('SELECT * FROM notes WHERE id = ?').get(id)
+}
+
+export interface BookmarkInput {
+  book_id: string
+  cfi: string
+  label?: string | null
+  chapter?: string | null
+  percent?: number
+}
+
+export function createBookmark(data: BookmarkInput): unknown {
+  const id = randomUUID()
+  const now = new Date().toISOString()
+  getDatabase()
+    .prepare(
+      `INSERT INTO bookmarks (id, book_id, cfi, label, chapter, percent, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      data.book_id,
+      data.cfi,
+      data.label?.trim() || null,
+      data.chapter || null,
+      data.percent ?? 0,
+      now,
+      now
+    )
+  return getDatabase().prepare('SELECT * FROM bookmarks WHERE id = ?').get(id)
+}
 
 export function registerDatabaseHandlers(): void {
   // ─── Books ───────────────────────────────────────────
@@ -92,6 +174,9 @@ export function registerDatabaseHandlers(): void {
         current_chapter?: string
       }
     ) => {
+      const previous = getDatabase()
+        .prepare('SELECT cfi_position FROM reading_progress WHERE book_id = ?')
+        .get(data.book_id) as { cfi_position: string | null } | undefined
       getDatabase()
         .prepare(
           `INSERT INTO reading_progress (book_id, cfi_position, percent_complete, current_chapter)
@@ -107,6 +192,14 @@ export function registerDatabaseHandlers(): void {
           data.percent_complete ?? null,
           data.current_chapter ?? null
         )
+      if (data.cfi_position) {
+        recordChapterProgress(
+          data.book_id,
+          previous?.cfi_position ?? null,
+          data.cfi_position,
+          data.percent_complete ?? null
+        )
+      }
       return getDatabase()
         .prepare('SELECT * FROM reading_progress WHERE book_id = ?')
         .get(data.book_id)
@@ -179,29 +272,7 @@ export function registerDatabaseHandlers(): void {
       .all(bookId)
   })
 
-  ipcMain.handle(
-    'db:highlights:create',
-    (
-      _e,
-      data: {
-        book_id: string
-        cfi_range: string
-        text: string
-        color?: string
-        chapter?: string
-      }
-    ) => {
-      const id = randomUUID()
-      const now = new Date().toISOString()
-      getDatabase()
-        .prepare(
-          `INSERT INTO highlights (id, book_id, cfi_range, text, color, chapter, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`
-        )
-        .run(id, data.book_id, data.cfi_range, data.text, data.color ?? '#fef08a', data.chapter ?? null, now)
-      return getDatabase().prepare('SELECT * FROM highlights WHERE id = ?').get(id)
-    }
-  )
+  ipcMain.handle('db:highlights:create', (_e, data: HighlightInput) => createHighlight(data))
 
   ipcMain.handle(
     'db:highlights:update',
@@ -237,36 +308,7 @@ export function registerDatabaseHandlers(): void {
       .all(highlightId)
   })
 
-  ipcMain.handle(
-    'db:notes:create',
-    (
-      _e,
-      data: {
-        book_id: string
-        highlight_id?: string
-        content: string
-        tags?: string
-      }
-    ) => {
-      const id = randomUUID()
-      const now = new Date().toISOString()
-      getDatabase()
-        .prepare(
-          `INSERT INTO notes (id, highlight_id, book_id, content, tags, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`
-        )
-        .run(
-          id,
-          data.highlight_id ?? null,
-          data.book_id,
-          data.content,
-          data.tags ?? '[]',
-          now,
-          now
-        )
-      return getDatabase().prepare('SELECT * FROM notes WHERE id = ?').get(id)
-    }
-  )
+  ipcMain.handle('db:notes:create', (_e, data: NoteInput) => createNote(data))
 
   ipcMain.handle(
     'db:notes:update',
@@ -290,6 +332,45 @@ export function registerDatabaseHandlers(): void {
     return getDatabase().prepare('DELETE FROM notes WHERE id = ?').run(id)
   })
 
+  // ─── Bookmarks ───────────────────────────────────────
+  ipcMain.handle('db:bookmarks:getByBook', (_e, bookId: string) => {
+    return getDatabase()
+      .prepare('SELECT * FROM bookmarks WHERE book_id = ? ORDER BY percent, created_at')
+      .all(bookId)
+  })
+
+  ipcMain.handle('db:bookmarks:create', (_e, data: BookmarkInput) => createBookmark(data))
+
+  ipcMain.handle('db:bookmarks:update', (_e, id: string, data: { label: string | null }) => {
+    getDatabase()
+      .prepare("UPDATE bookmarks SET label = ?, updated_at = datetime('now') WHERE id = ?")
+      .run(data.label?.trim() || null, id)
+    return getDatabase().prepare('SELECT * FROM bookmarks WHERE id = ?').get(id)
+  })
+
+  ipcMain.handle('db:bookmarks:delete', (_e, id: string) => {
+    return getDatabase().prepare('DELETE FROM bookmarks WHERE id = ?').run(id)
+  })
+
+  /**
+   * One-time import of the single bookmark per book the reader used to keep
+   * in localStorage. Skips books that are gone and positions already saved.
+   */
+  ipcMain.handle('db:bookmarks:importLegacy', (_e, entries: BookmarkInput[]) => {
+    const db = getDatabase()
+    const bookExists = db.prepare('SELECT 1 FROM books WHERE id = ?')
+    const saved = db.prepare('SELECT 1 FROM bookmarks WHERE book_id = ? AND cfi = ?')
+    let imported = 0
+    db.transaction(() => {
+      for (const entry of entries) {
+        if (!entry.cfi || !bookExists.get(entry.book_id) || saved.get(entry.book_id, entry.cfi)) continue
+        createBookmark(entry)
+        imported++
+      }
+    })()
+    return imported
+  })
+
   // ─── Cross-book queries ─────────────────────────────
   ipcMain.handle('db:notes:getAll', () => {
     return getDatabase()
@@ -315,6 +396,17 @@ export function registerDatabaseHandlers(): void {
       .all()
   })
 
+  ipcMain.handle('db:bookmarks:getAll', () => {
+    return getDatabase()
+      .prepare(
+        `SELECT bm.*, b.title as book_title, b.author as book_author
+         FROM bookmarks bm
+         LEFT JOIN books b ON bm.book_id = b.id
+         ORDER BY bm.created_at DESC`
+      )
+      .all()
+  })
+
   // ─── Dashboard ───────────────────────────────────────
   ipcMain.handle('db:dashboard:currentlyReading', () => {
     return getDatabase()
@@ -382,10 +474,20 @@ export function registerDatabaseHandlers(): void {
           .get() as { total: number }
       )?.total ?? 0
 
+    const totalPagesViewed =
+      (
+        db
+          .prepare(`SELECT COALESCE(SUM(pages_viewed), 0) as total FROM sessions`)
+          .get() as { total: number }
+      )?.total ?? 0
+
+    // Review and listening sessions read no words, so they'd drag the reading speed down
     const totalActiveMs =
       (
         db
-          .prepare(`SELECT COALESCE(SUM(active_ms), 0) as total FROM sessions`)
+          .prepare(
+            `SELECT COALESCE(SUM(active_ms), 0) as total FROM sessions WHERE session_type NOT IN ('review', 'listening')`
+          )
           .get() as { total: number }
       )?.total ?? 0
 
@@ -435,11 +537,7 @@ export function registerDatabaseHandlers(): void {
       avgWpm,
       totalSessions,
       pagesPerHour:
-        totalActiveMs > 0
-          ? Math.round(
-              ((totalWordsRead / 250) / (totalActiveMs / 3600000)) // 250 words per page
-            )
-          : 0
+        totalActiveMs > 0 ? Math.round(totalPagesViewed / (totalActiveMs / 3600000)) : 0
     }
   })
 
@@ -504,7 +602,8 @@ export function registerDatabaseHandlers(): void {
       progress: progress ?? null,
       highlights,
       notes,
-      stats
+      stats,
+      timeLeft: getTimeLeft([bookId])[bookId] ?? null
     }
   })
 
@@ -93,6 +93,480 @@ const migrations: Migration[] = [
         INSERT INTO categories (id, name, color, icon) VALUES ('uncategorized', 'Uncategorized', '#6b7280', NULL);
       `)
     }
+  },
+  {
+    version: 6,
+    description: 'Add full-text search index for book contents',
+    up: (db) => {
+      db.exec(`
+        -- One row per spine item; href is relative to the OPF so epub.js can display it
+        CREATE VIRTUAL TABLE IF NOT EXISTS book_text_fts USING fts5(
+          book_id UNINDEXED,
+          href UNINDEXED,
+          spine_index UNINDEXED,
+          content,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        -- Tracks which books have been indexed so older libraries can be backfilled
+        CREATE TABLE IF NOT EXISTS book_text_index (
+          book_id TEXT PRIMARY KEY REFERENCES books(id) ON DELETE CASCADE,
+          section_count INTEGER NOT NULL DEFAULT 0,
+          indexed_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+
+        -- FTS5 tables can't take part in foreign keys, so clean up on book delete
+        CREATE TRIGGER IF NOT EXISTS trg_books_delete_fts
+        AFTER DELETE ON books
+        BEGIN
+          DELETE FROM book_text_fts WHERE book_id = OLD.id;
+        END;
+      `)
+    }
+  },
+  {
+    version: 7,
+    description: 'Add format and page_count to books for PDF support',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE books ADD COLUMN format TEXT NOT NULL DEFAULT 'epub' CHECK(format IN ('epub','pdf'));
+        ALTER TABLE books ADD COLUMN page_count INTEGER;
+      `)
+    }
+  },
+  {
+    version: 8,
+    description: 'Add change tracking for cloud sync',
+    up: (db) => {
+      db.exec(`
+        -- Every synced row needs a modification time for last-writer-wins
+        ALTER TABLE highlights ADD COLUMN updated_at TEXT;
+        ALTER TABLE categories ADD COLUMN updated_at TEXT;
+        ALTER TABLE reading_progress ADD COLUMN updated_at TEXT;
+        UPDATE highlights SET updated_at = created_at;
+        UPDATE categories SET updated_at = COALESCE(created_at, datetime('now'));
+        UPDATE reading_progress SET updated_at = datetime('now');
+
+        -- Bump updated_at on any write that didn't set it explicitly. The sync
+        -- engine sets it to the remote time when applying pulled changes.
+        CREATE TRIGGER IF NOT EXISTS trg_books_touch AFTER UPDATE ON books
+        WHEN NEW.updated_at IS OLD.updated_at
+        BEGIN
+          UPDATE books SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trg_highlights_touch AFTER UPDATE ON highlights
+        WHEN NEW.updated_at IS OLD.updated_at
+        BEGIN
+          UPDATE highlights SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trg_highlights_insert_touch AFTER INSERT ON highlights
+        WHEN NEW.updated_at IS NULL
+        BEGIN
+          UPDATE highlights SET updated_at = NEW.created_at WHERE id = NEW.id;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trg_notes_touch AFTER UPDATE ON notes
+        WHEN NEW.updated_at IS OLD.updated_at
+        BEGIN
+          UPDATE notes SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trg_categories_touch AFTER UPDATE ON categories
+        WHEN NEW.updated_at IS OLD.updated_at
+        BEGIN
+          UPDATE categories SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trg_categories_insert_touch AFTER INSERT ON categories
+        WHEN NEW.updated_at IS NULL
+        BEGIN
+          UPDATE categories SET updated_at = COALESCE(NEW.created_at, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) WHERE id = NEW.id;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trg_progress_insert_touch AFTER INSERT ON reading_progress
+        WHEN NEW.updated_at IS NULL
+        BEGIN
+          UPDATE reading_progress SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE book_id = NEW.book_id;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trg_progress_touch AFTER UPDATE ON reading_progress
+        WHEN NEW.updated_at IS OLD.updated_at
+        BEGIN
+          UPDATE reading_progress SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE book_id = NEW.book_id;
+        END;
+
+        -- Deleted rows leave a tombstone so the delete can be pushed
+        CREATE TABLE IF NOT EXISTS sync_tombstones (
+          entity TEXT NOT NULL,
+          row_id TEXT NOT NULL,
+          deleted_at TEXT NOT NULL,
+          PRIMARY KEY (entity, row_id)
+        );
+
+        CREATE TRIGGER IF NOT EXISTS trg_books_tombstone AFTER DELETE ON books
+        BEGIN
+          INSERT OR REPLACE INTO sync_tombstones (entity, row_id, deleted_at)
+          VALUES ('books', OLD.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trg_highlights_tombstone AFTER DELETE ON highlights
+        BEGIN
+          INSERT OR REPLACE INTO sync_tombstones (entity, row_id, deleted_at)
+          VALUES ('highlights', OLD.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trg_notes_tombstone AFTER DELETE ON notes
+        BEGIN
+          INSERT OR REPLACE INTO sync_tombstones (entity, row_id, deleted_at)
+          VALUES ('notes', OLD.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trg_categories_tombstone AFTER DELETE ON categories
+        BEGIN
+          INSERT OR REPLACE INTO sync_tombstones (entity, row_id, deleted_at)
+          VALUES ('categories', OLD.id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;
+
+        -- Last field values both sides agreed on; the base for three-way merges
+        CREATE TABLE IF NOT EXISTS sync_state (
+          entity TEXT NOT NULL,
+          row_id TEXT NOT NULL,
+          base TEXT NOT NULL,
+          synced_at TEXT NOT NULL,
+          PRIMARY KEY (entity, row_id)
+        );
+      `)
+    }
+  },
+  {
+    version: 9,
+    description: 'Add spaced-repetition cards and review log',
+    up: (db) => {
+      db.exec(`
+        -- One card per highlight (cloze) and per note (question/answer).
+        -- Cloze text marks hidden spans as {{...}}.
+        CREATE TABLE IF NOT EXISTS cards (
+          id TEXT PRIMARY KEY,
+          book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+          highlight_id TEXT REFERENCES highlights(id) ON DELETE CASCADE,
+          note_id TEXT REFERENCES notes(id) ON DELETE CASCADE,
+          kind TEXT NOT NULL CHECK(kind IN ('basic','cloze')),
+          front TEXT NOT NULL,
+          back TEXT,
+          edited INTEGER NOT NULL DEFAULT 0,
+          suspended INTEGER NOT NULL DEFAULT 0,
+          ease REAL NOT NULL DEFAULT 2.5,
+          interval_days REAL NOT NULL DEFAULT 0,
+          repetitions INTEGER NOT NULL DEFAULT 0,
+          lapses INTEGER NOT NULL DEFAULT 0,
+          due_at TEXT NOT NULL,
+          last_reviewed_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_cards_highlight ON cards(highlight_id) WHERE note_id IS NULL;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_cards_note ON cards(note_id) WHERE note_id IS NOT NULL;
+        CREATE INDEX IF NOT EXISTS idx_cards_due_at ON cards(due_at);
+
+        CREATE TABLE IF NOT EXISTS card_reviews (
+          id TEXT PRIMARY KEY,
+          card_id TEXT NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+          session_id TEXT REFERENCES sessions(id) ON DELETE SET NULL,
+          grade TEXT NOT NULL CHECK(grade IN ('again','hard','good','easy')),
+          elapsed_ms INTEGER NOT NULL DEFAULT 0,
+          interval_days REAL NOT NULL,
+          ease REAL NOT NULL,
+          reviewed_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_card_reviews_card_id ON card_reviews(card_id);
+        CREATE INDEX IF NOT EXISTS idx_card_reviews_reviewed_at ON card_reviews(reviewed_at);
+      `)
+    }
+  },
+  {
+    version: 10,
+    description: 'Add review queue for imported clippings that could not be placed',
+    up: (db) => {
+      db.exec(`
+        -- Kindle / KOReader clippings whose book was not found (book_id NULL)
+        -- or whose text could not be located in the book's EPUB.
+        CREATE TABLE IF NOT EXISTS clipping_queue (
+          id TEXT PRIMARY KEY,
+          source TEXT NOT NULL CHECK(source IN ('kindle','koreader')),
+          book_title TEXT NOT NULL,
+          book_author TEXT,
+          book_id TEXT REFERENCES books(id) ON DELETE SET NULL,
+          reason TEXT NOT NULL CHECK(reason IN ('no_book','no_anchor')),
+          text TEXT NOT NULL,
+          note TEXT,
+          chapter TEXT,
+          location TEXT,
+          clipped_at TEXT,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_clipping_queue_text ON clipping_queue(book_title, text);
+      `)
+    }
+  },
+  {
+    version: 11,
+    description: 'Add series, rating and publication date to books for Calibre import',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE books ADD COLUMN series TEXT;
+        ALTER TABLE books ADD COLUMN series_index REAL;
+        -- Stars, 0.5 to 5
+        ALTER TABLE books ADD COLUMN rating REAL;
+        ALTER TABLE books ADD COLUMN published_at TEXT;
+        -- Lets a repeated Calibre import update the book instead of duplicating it
+        ALTER TABLE books ADD COLUMN calibre_uuid TEXT;
+
+        CREATE INDEX IF NOT EXISTS idx_books_calibre_uuid ON books(calibre_uuid);
+      `)
+    }
+  },
+  {
+    version: 12,
+    description: 'Add watched-folder import tracking and missing source flag',
+    up: (db) => {
+      db.exec(`
+        -- Set when the file a book was imported from has moved or been deleted
+        ALTER TABLE books ADD COLUMN original_missing_at TEXT;
+
+        -- Files in watched folders that were already handled, so a restart or a
+        -- book deleted from the library doesn't import them again
+        CREATE TABLE IF NOT EXISTS watched_files (
+          path TEXT PRIMARY KEY,
+          size INTEGER NOT NULL,
+          mtime_ms REAL NOT NULL,
+          book_id TEXT REFERENCES books(id) ON DELETE SET NULL,
+          status TEXT NOT NULL CHECK(status IN ('imported','relinked','duplicate','failed')),
+          error TEXT,
+          updated_at TEXT NOT NULL
+        );
+      `)
+    }
+  },
+  {
+    version: 13,
+    description: 'Add pronunciation lexicon for read-aloud',
+    up: (db) => {
+      db.exec(`
+        -- book_id NULL = applies to every book; book rules win over global ones
+        CREATE TABLE IF NOT EXISTS pronunciations (
+          id TEXT PRIMARY KEY,
+          book_id TEXT REFERENCES books(id) ON DELETE CASCADE,
+          term TEXT NOT NULL,
+          replacement TEXT NOT NULL,
+          case_sensitive INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_pronunciations_book ON pronunciations(book_id);
+      `)
+    }
+  },
+  {
+    version: 14,
+    description: 'Add listening position and listening time for read-aloud',
+    up: (db) => {
+      db.exec(`
+        -- Where read-aloud stopped: spine document href and chunk index in it
+        ALTER TABLE reading_progress ADD COLUMN listen_href TEXT;
+        ALTER TABLE reading_progress ADD COLUMN listen_chunk_index INTEGER;
+
+        -- Whether a track counts 'listening' sessions toward its hours
+        ALTER TABLE category_tracks ADD COLUMN count_listening INTEGER NOT NULL DEFAULT 1;
+      `)
+    }
+  },
+  {
+    version: 15,
+    description: 'Add per-chapter word counts for time-to-finish estimates',
+    up: (db) => {
+      db.exec(`
+        -- One row per spine document (EPUB) or page (PDF). label is the TOC entry
+        -- starting there, NULL for documents that continue the previous chapter.
+        CREATE TABLE IF NOT EXISTS book_chapters (
+          book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+          spine_index INTEGER NOT NULL,
+          href TEXT NOT NULL,
+          label TEXT,
+          word_count INTEGER NOT NULL,
+          PRIMARY KEY (book_id, spine_index)
+        );
+      `)
+    }
+  },
+  {
+    version: 16,
+    description: 'Add reading goals, finished dates and chapter completions',
+    up: (db) => {
+      db.exec(`
+        -- Goals counted over a day/week/month/year window. scope_id is the
+        -- category or book a scoped goal is limited to.
+        CREATE TABLE IF NOT EXISTS reading_goals (
+          id TEXT PRIMARY KEY,
+          goal_type TEXT NOT NULL CHECK(goal_type IN ('books','pages','words','chapters','streak')),
+          target REAL NOT NULL,
+          period TEXT NOT NULL DEFAULT 'week' CHECK(period IN ('day','week','month','year')),
+          scope TEXT NOT NULL DEFAULT 'global' CHECK(scope IN ('global','category','book')),
+          scope_id TEXT,
+          title TEXT,
+          created_at TEXT DEFAULT (datetime('now')),
+          updated_at TEXT DEFAULT (datetime('now'))
+        );
+
+        -- First time each labelled chapter was read to its end
+        CREATE TABLE IF NOT EXISTS chapter_completions (
+          book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+          spine_index INTEGER NOT NULL,
+          completed_at TEXT NOT NULL,
+          PRIMARY KEY (book_id, spine_index)
+        );
+        CREATE INDEX IF NOT EXISTS idx_chapter_completions_completed_at ON chapter_completions(completed_at);
+
+        -- When the book was first read to 100%. Set by trigger so progress
+        -- pulled in by sync finishes books too. Books finished earlier take
+        -- the end of their last session; updated_at is only the last save.
+        ALTER TABLE reading_progress ADD COLUMN finished_at TEXT;
+        UPDATE reading_progress SET finished_at = (
+          SELECT MAX(s.end_time) FROM sessions s WHERE s.book_id = reading_progress.book_id
+        )
+        WHERE percent_complete >= 100;
+
+        CREATE TRIGGER IF NOT EXISTS trg_progress_finished_insert AFTER INSERT ON reading_progress
+        WHEN NEW.percent_complete >= 100 AND NEW.finished_at IS NULL
+        BEGIN
+          UPDATE reading_progress SET finished_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE book_id = NEW.book_id;
+        END;
+
+        -- Only on the way to 100%, so re-saving a book finished before this
+        -- migration doesn't count it as finished today
+        CREATE TRIGGER IF NOT EXISTS trg_progress_finished AFTER UPDATE OF percent_complete ON reading_progress
+        WHEN NEW.percent_complete >= 100 AND NEW.finished_at IS NULL AND COALESCE(OLD.percent_complete, 0) < 100
+        BEGIN
+          UPDATE reading_progress SET finished_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE book_id = NEW.book_id;
+        END;
+      `)
+    }
+  },
+  {
+    version: 17,
+    description: 'Add bookmarks',
+    up: (db) => {
+      db.exec(`
+        -- Any number of bookmarks per book, replacing the single one the
+        -- reader kept in localStorage
+        CREATE TABLE IF NOT EXISTS bookmarks (
+          id TEXT PRIMARY KEY,
+          book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+          cfi TEXT NOT NULL,
+          label TEXT,
+          chapter TEXT,
+          percent REAL NOT NULL DEFAULT 0,
+          created_at TEXT DEFAULT (datetime('now')),
+          updated_at TEXT DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS idx_bookmarks_book ON bookmarks(book_id, percent);
+      `)
+    }
+  },
+  {
+    version: 18,
+    description: 'Clear per-book reader settings with their book',
+    up: (db) => {
+      db.exec(`
+        -- The reader keeps layout, font and theme overrides per book under
+        -- reader:settings:<book id>; every deletion path goes through here
+        CREATE TRIGGER IF NOT EXISTS trg_books_delete_reader_settings AFTER DELETE ON books
+        BEGIN
+          DELETE FROM settings WHERE key = 'reader:settings:' || OLD.id;
+        END;
+      `)
+    }
+  },
+  {
+    version: 19,
+    description: 'Add custom fonts and typography profiles',
+    up: (db) => {
+      db.exec(`
+        -- Font files imported by the user, copied into userData/fonts; one row
+        -- per face, so a family can have regular, bold and italic files
+        CREATE TABLE IF NOT EXISTS custom_fonts (
+          id TEXT PRIMARY KEY,
+          family TEXT NOT NULL,
+          file_name TEXT NOT NULL,
+          format TEXT NOT NULL CHECK(format IN ('truetype', 'opentype', 'woff', 'woff2')),
+          weight INTEGER NOT NULL DEFAULT 400,
+          style TEXT NOT NULL DEFAULT 'normal' CHECK(style IN ('normal', 'italic')),
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+
+        -- Named typography presets, assigned to a book or to a whole category
+        CREATE TABLE IF NOT EXISTS typography_profiles (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          font_family TEXT NOT NULL,
+          font_size REAL NOT NULL DEFAULT 18,
+          line_height REAL NOT NULL DEFAULT 1.8,
+          margin INTEGER NOT NULL DEFAULT 40,
+          hyphenation INTEGER NOT NULL DEFAULT 1,
+          text_align TEXT NOT NULL DEFAULT 'justify' CHECK(text_align IN ('justify', 'left')),
+          paragraph_spacing REAL NOT NULL DEFAULT 0.15,
+          publisher_styles TEXT NOT NULL DEFAULT 'override' CHECK(publisher_styles IN ('override', 'blend', 'keep')),
+          created_at TEXT DEFAULT (datetime('now')),
+          updated_at TEXT DEFAULT (datetime('now'))
+        );
+
+        ALTER TABLE books ADD COLUMN typography_profile_id TEXT REFERENCES typography_profiles(id) ON DELETE SET NULL;
+        ALTER TABLE categories ADD COLUMN typography_profile_id TEXT REFERENCES typography_profiles(id) ON DELETE SET NULL;
+      `)
+    }
+  },
+  {
+    version: 20,
+    description: 'Add dictionaries and vocabulary',
+    up: (db) => {
+      db.exec(`
+        -- StarDict/DICT dictionaries found under userData/dictionaries, keyed by
+        -- their path there. Rows follow the files; they only keep what the user
+        -- set about each one, so they're left out of backups like the files are
+        CREATE TABLE IF NOT EXISTS dictionaries (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          format TEXT NOT NULL CHECK(format IN ('stardict', 'dict')),
+          kind TEXT NOT NULL DEFAULT 'dictionary' CHECK(kind IN ('dictionary', 'encyclopedia', 'translation')),
+          source_language TEXT,
+          target_language TEXT,
+          word_count INTEGER NOT NULL DEFAULT 0,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+
+        -- Words looked up while reading and saved to learn, with where they were found
+        CREATE TABLE IF NOT EXISTS vocabulary (
+          id TEXT PRIMARY KEY,
+          book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+          word TEXT NOT NULL,
+          headword TEXT NOT NULL,
+          definition TEXT,
+          dictionary_name TEXT,
+          language TEXT,
+          context TEXT,
+          cfi_range TEXT,
+          chapter TEXT,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_vocabulary_book ON vocabulary(book_id);
+      `)
+    }
   }
 ]
 
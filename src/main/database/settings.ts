@@ -0,0 +1,19 @@
+import { getDatabase } from './index'
+
+/** JSON value stored under a settings key, or the fallback when missing or unreadable */
+export function readSetting<T>(key: string, fallback: T): T {
+  try {
+    const row = getDatabase().prepare('SELECT value FROM settings WHERE key = ?').get(key) as
+      | { value: string }
+      | undefined
+    return row ? (JSON.parse(row.value) as T) : fallback
+  } catch {
+    return fallback
+  }
+}
+
+export function writeSetting(key: string, value: unknown): void {
+  getDatabase()
+    .prepare('INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value')
+    .run(key, JSON.stringify(value))
+}
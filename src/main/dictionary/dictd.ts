@@ -0,0 +1,76 @@
+import { readFileSync } from 'fs'
+import { companion, openDictData } from './dictzip'
+import { Article, DictionaryReader } from './types'
+
+// ─── DICT (dictd) ───────────────────────────────────
+// The format dict.org servers use and FreeDict ships: a .index of
+// "headword<TAB>offset<TAB>length" lines, numbers in base 64, and a .dict or
+// .dict.dz of plain-text articles. Headwords starting with 00-database hold
+// the dictionary's own metadata.
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+const MAX_ARTICLES = 10
+
+function decodeNumber(value: string): number {
+  let n = 0
+  for (const c of value) {
+    const digit = BASE64.indexOf(c)
+    if (digit === -1) return NaN
+    n = n * 64 + digit
+  }
+  return n
+}
+
+interface IndexEntry {
+  headword: string
+  offset: number
+  length: number
+}
+
+function isMetadata(headword: string): boolean {
+  return /^00-?database/.test(headword)
+}
+
+/** Open a DICT dictionary from its .index file */
+export function openDictd(indexPath: string): DictionaryReader {
+  const base = indexPath.slice(0, -'.index'.length)
+  const dictPath = companion(base, ['.dict.dz', '.dict'])
+  if (!dictPath) throw new Error('DICT dictionary is missing its .dict file')
+
+  // Not reliably sorted (dictfmt's order depends on its flags), so keyed in memory
+  const entries = new Map<string, IndexEntry[]>()
+  let wordCount = 0
+  for (const line of readFileSync(indexPath, 'utf-8').split('\n')) {
+    const [headword, offset, length] = line.replace(/\r$/, '').split('\t')
+    if (!headword || !offset || !length) continue
+    const entry = { headword, offset: decodeNumber(offset), length: decodeNumber(length) }
+    if (Number.isNaN(entry.offset) || Number.isNaN(entry.length)) continue
+    const key = headword.toLowerCase()
+    const same = entries.get(key)
+    if (same) same.push(entry)
+    else entries.set(key, [entry])
+    if (!isMetadata(headword)) wordCount++
+  }
+
+  const data = openDictData(dictPath)
+  const read = (entry: IndexEntry): string => data.read(entry.offset, entry.length).toString('utf-8')
+
+  // The short name's article repeats the headword on its first line
+  const short = entries.get('00-database-short')?.[0] ?? entries.get('00databaseshort')?.[0]
+  const name = short ? read(short).split('\n').slice(1).join(' ').trim() || read(short).trim() : ''
+
+  return {
+    name: name || base.split(/[\\/]/).pop() || 'DICT',
+    wordCount,
+    lookup(word) {
+      const articles: Article[] = []
+      for (const entry of (entries.get(word.toLowerCase()) ?? []).slice(0, MAX_ARTICLES)) {
+        if (isMetadata(entry.headword)) continue
+        const content = read(entry).trim()
+        if (content) articles.push({ headword: entry.headword, definitions: [{ format: 'text', content }] })
+      }
+      return articles
+    },
+    close: () => data.close()
+  }
+}
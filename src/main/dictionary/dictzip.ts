@@ -0,0 +1,127 @@
+import { closeSync, existsSync, openSync, readFileSync, readSync } from 'fs'
+import { constants, gunzipSync, inflateRawSync } from 'zlib'
+
+/** Reads a byte range of a dictionary's article file */
+export interface DictData {
+  read(offset: number, length: number): Buffer
+  close(): void
+}
+
+/** The first of a dictionary's sibling files that exists, e.g. base + '.dict.dz' */
+export function companion(base: string, extensions: string[]): string | null {
+  for (const ext of extensions) {
+    if (existsSync(base + ext)) return base + ext
+  }
+  return null
+}
+
+const GZIP_FEXTRA = 0x04
+const GZIP_FNAME = 0x08
+const GZIP_FCOMMENT = 0x10
+const GZIP_FHCRC = 0x02
+
+interface DictzipHeader {
+  /** Where the first compressed chunk starts */
+  dataStart: number
+  chunkLength: number
+  /** Compressed size of every chunk, in order */
+  chunkSizes: number[]
+}
+
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buf = Buffer.alloc(length)
+  const read = readSync(fd, buf, 0, length, position)
+  return buf.subarray(0, read)
+}
+
+/**
+ * dictzip is gzip with an "RA" extra field listing the compressed size of
+ * every fixed-length chunk, each flushed so it can be inflated on its own.
+ * Returns null for ordinary gzip files, which have to be inflated whole.
+ */
+function readDictzipHeader(fd: number): DictzipHeader | null {
+  const head = readAt(fd, 0, 12)
+  if (head.length < 12 || head[0] !== 0x1f || head[1] !== 0x8b) return null
+  const flags = head[3]
+  if (!(flags & GZIP_FEXTRA)) return null
+
+  const extraLength = head.readUInt16LE(10)
+  const extra = readAt(fd, 12, extraLength)
+  let header: Omit<DictzipHeader, 'dataStart'> | null = null
+  for (let at = 0; at + 4 <= extra.length; ) {
+    const id = extra.toString('latin1', at, at + 2)
+    const length = extra.readUInt16LE(at + 2)
+    if (id === 'RA' && length >= 6) {
+      const chunkLength = extra.readUInt16LE(at + 6)
+      const count = extra.readUInt16LE(at + 8)
+      const chunkSizes: number[] = []
+      for (let i = 0; i < count; i++) chunkSizes.push(extra.readUInt16LE(at + 10 + i * 2))
+      header = { chunkLength, chunkSizes }
+    }
+    at += 4 + length
+  }
+  if (!header) return null
+
+  // File name and comment are zero-terminated and of unknown length
+  let dataStart = 12 + extraLength
+  for (const flag of [GZIP_FNAME, GZIP_FCOMMENT]) {
+    if (!(flags & flag)) continue
+    for (;;) {
+      const block = readAt(fd, dataStart, 256)
+      if (block.length === 0) return null
+      const end = block.indexOf(0)
+      if (end !== -1) {
+        dataStart += end + 1
+        break
+      }
+      dataStart += block.length
+    }
+  }
+  if (flags & GZIP_FHCRC) dataStart += 2
+  return { ...header, dataStart }
+}
+
+/**
+ * Open a .dict article file. Plain files and dictzip are read a range at a
+ * time, so multi-gigabyte encyclopedias stay on disk; a .dz without the
+ * dictzip index is inflated into memory once.
+ */
+export function openDictData(path: string): DictData {
+  const fd = openSync(path, 'r')
+  if (!path.endsWith('.dz')) {
+    return {
+      read: (offset, length) => readAt(fd, offset, length),
+      close: () => closeSync(fd)
+    }
+  }
+
+  const header = readDictzipHeader(fd)
+  if (!header) {
+    closeSync(fd)
+    const data = gunzipSync(readFileSync(path))
+    return { read: (offset, length) => data.subarray(offset, offset + length), close: () => {} }
+  }
+
+  const chunkStarts: number[] = []
+  let position = header.dataStart
+  for (const size of header.chunkSizes) {
+    chunkStarts.push(position)
+    position += size
+  }
+
+  return {
+    read: (offset, length) => {
+      if (length <= 0) return Buffer.alloc(0)
+      const first = Math.floor(offset / header.chunkLength)
+      const last = Math.min(Math.floor((offset + length - 1) / header.chunkLength), chunkStarts.length - 1)
+      if (first > last) return Buffer.alloc(0)
+      const start = chunkStarts[first]
+      const compressed = readAt(fd, start, chunkStarts[last] + header.chunkSizes[last] - start)
+      // Chunks end on a full flush rather than a final block
+      const data = inflateRawSync(compressed, { finishFlush: constants.Z_SYNC_FLUSH })
+      const skip = offset - first * header.chunkLength
+      return data.subarray(skip, skip + length)
+    },
+    close: () => closeSync(fd)
+  }
+}
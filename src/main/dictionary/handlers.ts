@@ -0,0 +1,124 @@
+import { BrowserWindow, dialog, ipcMain, shell } from 'electron'
+import { randomUUID } from 'crypto'
+import { getDatabase } from '../database'
+import { dictionariesDir, installDictionaries, lookup, removeDictionary, scanDictionaries } from './library'
+import { DictionaryKind } from './types'
+
+export interface DictionarySettings {
+  kind: DictionaryKind
+  source_language: string | null
+  target_language: string | null
+  enabled: boolean
+}
+
+export interface VocabularyInput {
+  book_id: string
+  word: string
+  headword: string
+  definition?: string | null
+  dictionary_name?: string | null
+  language?: string | null
+  context?: string | null
+  cfi_range?: string | null
+  chapter?: string | null
+}
+
+const SETTINGS_FIELDS: (keyof DictionarySettings)[] = ['kind', 'source_language', 'target_language', 'enabled']
+
+export function registerDictionaryHandlers(): void {
+  // ─── Dictionaries ───────────────────────────────────
+
+  ipcMain.handle('dictionaries:install', async () => {
+    const mainWindow = BrowserWindow.getFocusedWindow()
+    if (!mainWindow) return { success: false, error: 'No window' }
+
+    const result = await dialog.showOpenDialog(mainWindow, {
+      properties: ['openFile', 'multiSelections'],
+      filters: [
+        { name: 'Dictionaries', extensions: ['ifo', 'idx', 'syn', 'dict', 'dz', 'gz', 'index', 'zip'] }
+      ]
+    })
+    if (result.canceled || result.filePaths.length === 0) return { success: false, error: 'Cancelled' }
+
+    const { installed, errors } = installDictionaries(result.filePaths)
+    return { success: installed.length > 0, dictionaries: installed, errors, error: errors[0] }
+  })
+
+  // For installing by hand: drop the files in and rescan
+  ipcMain.handle('dictionaries:openFolder', async () => {
+    const error = await shell.openPath(dictionariesDir())
+    return { success: !error, error: error || undefined }
+  })
+
+  ipcMain.handle('db:dictionaries:getAll', () => scanDictionaries())
+
+  ipcMain.handle('db:dictionaries:update', (_e, id: string, data: Partial<DictionarySettings>) => {
+    const db = getDatabase()
+    const fields = SETTINGS_FIELDS.filter((key) => data[key] !== undefined)
+    if (fields.length > 0) {
+      const values = fields.map((key) => (key === 'enabled' ? (data.enabled ? 1 : 0) : data[key] || null))
+      db.prepare(`UPDATE dictionaries SET ${fields.map((key) => `${key} = ?`).join(', ')} WHERE id = ?`).run(
+        ...values,
+        id
+      )
+    }
+    return db.prepare('SELECT * FROM dictionaries WHERE id = ?').get(id)
+  })
+
+  ipcMain.handle('db:dictionaries:delete', (_e, id: string) => {
+    try {
+      removeDictionary(id)
+      return { success: true }
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+
+  ipcMain.handle('dictionary:lookup', (_e, text: string, bookId?: string) => {
+    return lookup(text, bookId ?? null)
+  })
+
+  // ─── Vocabulary ─────────────────────────────────────
+
+  ipcMain.handle('db:vocabulary:getAll', () => {
+    return getDatabase()
+      .prepare(
+        `SELECT v.*, b.title AS book_title
+         FROM vocabulary v
+         JOIN books b ON b.id = v.book_id
+         ORDER BY v.created_at DESC`
+      )
+      .all()
+  })
+
+  ipcMain.handle('db:vocabulary:getByBook', (_e, bookId: string) => {
+    return getDatabase()
+      .prepare('SELECT * FROM vocabulary WHERE book_id = ? ORDER BY created_at DESC')
+      .all(bookId)
+  })
+
+  ipcMain.handle('db:vocabulary:create', (_e, data: VocabularyInput) => {
+    const id = randomUUID()
+    const db = getDatabase()
+    db.prepare(
+      `INSERT INTO vocabulary (id, book_id, word, headword, definition, dictionary_name, language, context, cfi_range, chapter)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id,
+      data.book_id,
+      data.word,
+      data.headword,
+      data.definition ?? null,
+      data.dictionary_name ?? null,
+      data.language ?? null,
+      data.context ?? null,
+      data.cfi_range ?? null,
+      data.chapter ?? null
+    )
+    return db.prepare('SELECT * FROM vocabulary WHERE id = ?').get(id)
+  })
+
+  ipcMain.handle('db:vocabulary:delete', (_e, id: string) => {
+    return getDatabase().prepare('DELETE FROM vocabulary WHERE id = ?').run(id)
+  })
+}
@@ -0,0 +1,266 @@
+import { app } from 'electron'
+import { copyFileSync, existsSync, mkdirSync, readdirSync, rmdirSync, unlinkSync } from 'fs'
+import { basename, dirname, extname, join, relative, sep } from 'path'
+import AdmZip from 'adm-zip'
+import { getDatabase } from '../database'
+import { safeFileName } from '../../shared/annotations/util'
+import { companion } from './dictzip'
+import { openDictd } from './dictd'
+import { openStarDict, readIfo } from './stardict'
+import { baseLanguage, guessLanguages, lookupCandidates } from './morphology'
+import { DictionaryFormat, DictionaryReader, DictionaryRow, LookupEntry, LookupResult } from './types'
+
+// ─── Installed Dictionaries ─────────────────────────
+// Dictionaries are whatever StarDict and DICT files sit under
+// userData/dictionaries, installed through the app or copied there by hand.
+// Each gets a row keyed by its path there (without extension) holding what
+// the user set about it; rows follow the files on every scan.
+
+/** How deep to look; archives often unpack into a folder of their own */
+const MAX_DEPTH = 3
+/** Longest selection worth looking up; anything more is a passage, not a term */
+const MAX_QUERY_LENGTH = 100
+
+/** Every file extension that belongs to a dictionary, longest first */
+const DICTIONARY_EXTENSIONS = ['.dict.dz', '.idx.gz', '.syn.gz', '.ifo', '.idx', '.syn', '.dict', '.index']
+
+export function dictionariesDir(): string {
+  const dir = join(app.getPath('userData'), 'dictionaries')
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true })
+  return dir
+}
+
+interface FoundDictionary {
+  id: string
+  format: DictionaryFormat
+  /** The .ifo or .index file */
+  path: string
+}
+
+function findDictionaries(root: string, dir = root, depth = 0): FoundDictionary[] {
+  const found: FoundDictionary[] = []
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name)
+    if (entry.isDirectory()) {
+      if (depth < MAX_DEPTH) found.push(...findDictionaries(root, path, depth + 1))
+      continue
+    }
+    const ext = extname(entry.name).toLowerCase()
+    const base = path.slice(0, -ext.length)
+    const id = relative(root, base).split(sep).join('/')
+    if (ext === '.ifo') found.push({ id, format: 'stardict', path })
+    // A bare .index could be anything; only count it next to its articles
+    else if (ext === '.index' && companion(base, ['.dict.dz', '.dict'])) found.push({ id, format: 'dict', path })
+  }
+  return found
+}
+
+function dictionaryPath(row: Pick<DictionaryRow, 'id' | 'format'>): string {
+  return join(dictionariesDir(), ...row.id.split('/')) + (row.format === 'stardict' ? '.ifo' : '.index')
+}
+
+// Opened lazily on first lookup and kept; indexes are read once per run
+const readers = new Map<string, DictionaryReader>()
+
+function openReader(row: Pick<DictionaryRow, 'id' | 'format'>): DictionaryReader {
+  let reader = readers.get(row.id)
+  if (!reader) {
+    const path = dictionaryPath(row)
+    reader = row.format === 'stardict' ? openStarDict(path) : openDictd(path)
+    readers.set(row.id, reader)
+  }
+  return reader
+}
+
+function closeReader(id: string): void {
+  readers.get(id)?.close()
+  readers.delete(id)
+}
+
+function getRows(): DictionaryRow[] {
+  return getDatabase()
+    .prepare(
+      `SELECT * FROM dictionaries
+       ORDER BY CASE kind WHEN 'dictionary' THEN 0 WHEN 'translation' THEN 1 ELSE 2 END, name COLLATE NOCASE`
+    )
+    .all() as DictionaryRow[]
+}
+
+/**
+ * Bring the dictionaries table in line with the files on disk: rows for new
+ * files, with languages and kind guessed from the name, and none for files
+ * that are gone. Files that can't be read are left out until they can.
+ */
+export function scanDictionaries(): DictionaryRow[] {
+  const db = getDatabase()
+  const found = findDictionaries(dictionariesDir())
+  const foundIds = new Set(found.map((dict) => dict.id))
+  const known = new Set(getRows().map((row) => row.id))
+
+  for (const id of known) {
+    if (foundIds.has(id)) continue
+    closeReader(id)
+    db.prepare('DELETE FROM dictionaries WHERE id = ?').run(id)
+  }
+
+  const insert = db.prepare(
+    `INSERT INTO dictionaries (id, name, format, kind, source_language, target_language, word_count)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  )
+  for (const dict of found) {
+    if (known.has(dict.id)) continue
+    try {
+      let name: string
+      let wordCount: number
+      if (dict.format === 'stardict') {
+        // The .ifo has both; no need to read the index yet
+        const info = readIfo(dict.path)
+        name = info.bookname || basename(dict.id)
+        wordCount = Number(info.wordcount) || 0
+      } else {
+        const reader = openReader(dict)
+        name = reader.name
+        wordCount = reader.wordCount
+      }
+      const { source, target } = guessLanguages(`${dict.id} ${name}`)
+      const kind = source && target ? 'translation' : /wiki/i.test(`${dict.id} ${name}`) ? 'encyclopedia' : 'dictionary'
+      insert.run(dict.id, name, dict.format, kind, source, target, wordCount)
+    } catch (err) {
+      console.error(`Could not read dictionary ${dict.path}:`, err)
+    }
+  }
+  return getRows()
+}
+
+// ─── Install & Remove ───────────────────────────────
+
+/** "freedict-eng-spa.dict.dz" → "freedict-eng-spa" */
+function dictionaryStem(fileName: string): string | null {
+  const lower = fileName.toLowerCase()
+  const ext = DICTIONARY_EXTENSIONS.find((e) => lower.endsWith(e))
+  return ext ? fileName.slice(0, -ext.length) : null
+}
+
+/**
+ * Copy picked dictionary files into a folder per dictionary, or unpack a
+ * .zip of them, then rescan. Returns the dictionaries in those folders,
+ * including ones that replaced an earlier copy.
+ */
+export function installDictionaries(paths: string[]): { installed: DictionaryRow[]; errors: string[] } {
+  const root = dictionariesDir()
+  const folders = new Set<string>()
+  const errors: string[] = []
+
+  for (const path of paths) {
+    const fileName = basename(path)
+    try {
+      const zip = fileName.toLowerCase().endsWith('.zip')
+      const stem = zip ? fileName.slice(0, -4) : dictionaryStem(fileName)
+      if (!stem) throw new Error('Not a StarDict or DICT file')
+      const folder = safeFileName(stem)
+      const dir = join(root, folder)
+      if (zip) new AdmZip(path).extractAllTo(dir, true)
+      else {
+        mkdirSync(dir, { recursive: true })
+        copyFileSync(path, join(dir, fileName))
+      }
+      folders.add(folder)
+    } catch (err) {
+      errors.push(`${fileName}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  // Replaced files have to be read afresh
+  for (const id of readers.keys()) {
+    if (folders.has(id.split('/')[0])) closeReader(id)
+  }
+  const installed = scanDictionaries().filter((row) => folders.has(row.id.split('/')[0]))
+  if (installed.length === 0 && errors.length === 0) {
+    errors.push('No complete dictionary found; StarDict needs its .ifo, .idx and .dict files, DICT its .index and .dict')
+  }
+  return { installed, errors }
+}
+
+/** Delete a dictionary's files, and its folder when nothing else is left in it */
+export function removeDictionary(id: string): void {
+  const row = getDatabase().prepare('SELECT * FROM dictionaries WHERE id = ?').get(id) as DictionaryRow | undefined
+  if (!row) return
+  closeReader(id)
+
+  const path = dictionaryPath(row)
+  const dir = dirname(path)
+  const stem = dictionaryStem(basename(path))
+  for (const file of readdirSync(dir)) {
+    if (dictionaryStem(file) === stem) unlinkSync(join(dir, file))
+  }
+  if (dir !== dictionariesDir() && readdirSync(dir).length === 0) rmdirSync(dir)
+  getDatabase().prepare('DELETE FROM dictionaries WHERE id = ?').run(id)
+}
+
+// ─── Lookup ─────────────────────────────────────────
+
+/** Selections come with quotes, commas and line breaks around them */
+function cleanQuery(text: string): string {
+  return text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/\s+/g, ' ')
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+    .slice(0, MAX_QUERY_LENGTH)
+}
+
+/**
+ * Look a selection up in every enabled dictionary that fits the book's
+ * language. Each dictionary answers with the first form it knows: the
+ * selection itself, then the base forms morphology suggests.
+ */
+export function lookup(text: string, bookId: string | null): LookupResult {
+  const query = cleanQuery(text)
+  const book = bookId
+    ? (getDatabase().prepare('SELECT language FROM books WHERE id = ?').get(bookId) as
+        | { language: string | null }
+        | undefined)
+    : undefined
+  const language = book?.language ?? null
+  const result: LookupResult = { query, language, entries: [] }
+  if (!query) return result
+
+  const bookLanguage = baseLanguage(language)
+  for (const row of getRows()) {
+    if (!row.enabled) continue
+    const source = baseLanguage(row.source_language)
+    // Translation dictionaries are keyed by the book's language; others
+    // only skip books they clearly aren't for
+    if (row.kind === 'translation' ? !bookLanguage || source !== bookLanguage : source && bookLanguage && source !== bookLanguage) {
+      continue
+    }
+
+    let reader: DictionaryReader
+    try {
+      reader = openReader(row)
+    } catch (err) {
+      console.error(`Could not open dictionary ${row.id}:`, err)
+      continue
+    }
+    // A corrupt index or data chunk only costs this dictionary's answer
+    try {
+      for (const candidate of lookupCandidates(query, language ?? row.source_language)) {
+        const articles = reader.lookup(candidate)
+        if (articles.length === 0) continue
+        const inflectedFrom = candidate.toLowerCase() === query.toLowerCase() ? null : query
+        result.entries.push(
+          ...articles.map<LookupEntry>((article) => ({
+            ...article,
+            dictionaryId: row.id,
+            dictionaryName: row.name,
+            kind: row.kind,
+            inflectedFrom
+          }))
+        )
+        break
+      }
+    } catch (err) {
+      console.error(`Lookup failed in dictionary ${row.id}:`, err)
+    }
+  }
+  return result
+}
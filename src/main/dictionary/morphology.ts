@@ -0,0 +1,128 @@
+// ─── Languages ──────────────────────────────────────
+
+/** ISO 639-2/3 codes FreeDict and StarDict file names use, to the two-letter codes books declare */
+const THREE_LETTER: Record<string, string> = {
+  eng: 'en', spa: 'es', fra: 'fr', fre: 'fr', deu: 'de', ger: 'de', ita: 'it', por: 'pt',
+  nld: 'nl', dut: 'nl', rus: 'ru', pol: 'pl', swe: 'sv', dan: 'da', nor: 'no', fin: 'fi',
+  ces: 'cs', cze: 'cs', ell: 'el', gre: 'el', tur: 'tr', jpn: 'ja', zho: 'zh', chi: 'zh',
+  kor: 'ko', ara: 'ar', heb: 'he', hin: 'hi', lat: 'la', cat: 'ca', ron: 'ro', rum: 'ro',
+  hun: 'hu', ukr: 'uk', epo: 'eo'
+}
+
+/** "en-GB", "EN_us" and "eng" all become "en" */
+export function baseLanguage(language: string | null | undefined): string | null {
+  const code = language?.trim().toLowerCase().split(/[-_]/)[0]
+  if (!code) return null
+  return THREE_LETTER[code] ?? code
+}
+
+/**
+ * Source and target language from a dictionary's name, for FreeDict-style
+ * names like "freedict-eng-spa" or "stardict-en-es". Unknown otherwise.
+ */
+export function guessLanguages(name: string): { source: string | null; target: string | null } {
+  const pairs = name.toLowerCase().matchAll(/(?:^|[^a-z])([a-z]{2,3})[-_]([a-z]{2,3})(?=$|[^a-z])/g)
+  for (const [, from, to] of pairs) {
+    const source = THREE_LETTER[from] ?? (from.length === 2 ? from : null)
+    const target = THREE_LETTER[to] ?? (to.length === 2 ? to : null)
+    if (source && target && source !== target && isKnown(source) && isKnown(target)) return { source, target }
+  }
+  return { source: null, target: null }
+}
+
+function isKnown(code: string): boolean {
+  return Object.values(THREE_LETTER).includes(code)
+}
+
+// ─── Morphology ─────────────────────────────────────
+// Dictionaries list base forms, so "running" or "cantaban" would find
+// nothing. Rather than ship stemmers, each language gets suffix rules that
+// propose likely base forms; the dictionary decides which ones exist.
+
+type Rule = [suffix: string, replacement: string]
+
+const RULES: Record<string, Rule[]> = {
+  en: [
+    ["'s", ''], ['ies', 'y'], ['ied', 'y'], ['ier', 'y'], ['iest', 'y'], ['ily', 'y'],
+    ['ves', 'f'], ['ves', 'fe'], ['es', ''], ['s', ''], ['ed', 'e'], ['ed', ''], ['ing', 'e'],
+    ['ing', ''], ['er', 'e'], ['er', ''], ['est', 'e'], ['est', ''], ['ly', ''], ['ness', '']
+  ],
+  es: [
+    ['ces', 'z'], ['es', ''], ['s', ''], ['a', 'o'], ['as', 'o'], ['ísimo', 'o'],
+    ['ando', 'ar'], ['iendo', 'er'], ['iendo', 'ir'], ['ado', 'ar'], ['ada', 'ar'], ['ido', 'er'],
+    ['ido', 'ir'], ['aba', 'ar'], ['aban', 'ar'], ['abas', 'ar'], ['ábamos', 'ar'], ['ía', 'er'],
+    ['ía', 'ir'], ['ían', 'er'], ['ían', 'ir'], ['ó', 'ar'], ['ió', 'er'], ['ió', 'ir'],
+    ['aron', 'ar'], ['ieron', 'er'], ['ieron', 'ir'], ['an', 'ar'], ['en', 'er'], ['en', 'ir'],
+    ['amos', 'ar'], ['emos', 'er'], ['imos', 'ir'], ['ará', 'ar'], ['erá', 'er'], ['irá', 'ir']
+  ],
+  fr: [
+    ['aux', 'al'], ['x', ''], ['s', ''], ['es', ''], ['e', ''], ['ée', 'er'], ['ées', 'er'],
+    ['és', 'er'], ['é', 'er'], ['ait', 'er'], ['aient', 'er'], ['ais', 'er'], ['ant', 'er'],
+    ['ons', 'er'], ['ez', 'er'], ['ent', 'er'], ['a', 'er'], ['èrent', 'er'], ['it', 'ir'],
+    ['issait', 'ir'], ['issant', 'ir'], ['i', 'ir'], ['ra', 'r'], ['rait', 'r']
+  ],
+  de: [
+    ['en', ''], ['n', ''], ['e', ''], ['er', ''], ['es', ''], ['s', ''], ['em', ''],
+    ['te', 'en'], ['ten', 'en'], ['test', 'en'], ['t', 'en'], ['st', 'en']
+  ],
+  it: [
+    ['i', 'o'], ['e', 'a'], ['i', 'e'], ['ando', 'are'], ['endo', 'ere'], ['endo', 'ire'],
+    ['ato', 'are'], ['ata', 'are'], ['uto', 'ere'], ['ito', 'ire'], ['ava', 'are'], ['eva', 'ere']
+  ],
+  pt: [
+    ['ões', 'ão'], ['es', ''], ['s', ''], ['a', 'o'], ['as', 'o'], ['ando', 'ar'],
+    ['endo', 'er'], ['indo', 'ir'], ['ado', 'ar'], ['ido', 'er'], ['ido', 'ir'], ['ava', 'ar']
+  ]
+}
+
+/** Common English forms no suffix rule reaches */
+const EN_IRREGULAR: Record<string, string> = {
+  was: 'be', were: 'be', is: 'be', are: 'be', been: 'be', am: 'be', went: 'go', gone: 'go',
+  had: 'have', has: 'have', did: 'do', does: 'do', done: 'do', said: 'say', made: 'make',
+  took: 'take', taken: 'take', came: 'come', saw: 'see', seen: 'see', knew: 'know',
+  known: 'know', got: 'get', gave: 'give', given: 'give', found: 'find', thought: 'think',
+  told: 'tell', became: 'become', left: 'leave', felt: 'feel', brought: 'bring',
+  began: 'begin', begun: 'begin', kept: 'keep', held: 'hold', wrote: 'write',
+  written: 'write', stood: 'stand', heard: 'hear', meant: 'mean', met: 'meet', ran: 'run',
+  paid: 'pay', sat: 'sit', spoke: 'speak', spoken: 'speak', lay: 'lie', led: 'lead',
+  grew: 'grow', grown: 'grow', lost: 'lose', fell: 'fall', fallen: 'fall', sent: 'send',
+  built: 'build', understood: 'understand', drew: 'draw', drawn: 'draw', broke: 'break',
+  broken: 'break', spent: 'spend', rose: 'rise', risen: 'rise', drove: 'drive',
+  driven: 'drive', bought: 'buy', wore: 'wear', worn: 'wear', chose: 'choose',
+  chosen: 'choose', sought: 'seek', threw: 'throw', thrown: 'throw', caught: 'catch',
+  taught: 'teach', fought: 'fight', flew: 'fly', flown: 'fly', ate: 'eat', eaten: 'eat',
+  children: 'child', men: 'man', women: 'woman', feet: 'foot', teeth: 'tooth', mice: 'mouse',
+  people: 'person', better: 'good', best: 'good', worse: 'bad', worst: 'bad'
+}
+
+/** "runn" → "run", for stems whose final consonant was doubled before the suffix */
+function undouble(stem: string): string | null {
+  return /([bcdfgklmnprstvz])\1$/.test(stem) ? stem.slice(0, -1) : null
+}
+
+/**
+ * Forms worth looking up for a selected word, in order: the word as
+ * written, lowercased, then base forms its suffixes suggest. Books with no
+ * declared language get the English rules.
+ */
+export function lookupCandidates(word: string, language: string | null): string[] {
+  const lang = baseLanguage(language) ?? 'en'
+  let lower: string
+  try {
+    lower = word.toLocaleLowerCase(lang)
+  } catch {
+    // Not a valid locale tag
+    lower = word.toLowerCase()
+  }
+  const candidates = [word, lower]
+
+  if (lang === 'en' && EN_IRREGULAR[lower]) candidates.push(EN_IRREGULAR[lower])
+  for (const [suffix, replacement] of RULES[lang] ?? []) {
+    if (!lower.endsWith(suffix) || lower.length - suffix.length < 2) continue
+    const stem = lower.slice(0, -suffix.length)
+    candidates.push(stem + replacement)
+    const single = lang === 'en' && !replacement ? undouble(stem) : null
+    if (single) candidates.push(single)
+  }
+  return Array.from(new Set(candidates))
+}
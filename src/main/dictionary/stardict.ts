@@ -0,0 +1,220 @@
+import { readFileSync } from 'fs'
+import { gunzipSync } from 'zlib'
+import { companion, openDictData } from './dictzip'
+import { Article, Definition, DictionaryReader } from './types'
+
+// ─── StarDict ───────────────────────────────────────
+// A dictionary is a set of files sharing a base name: .ifo (metadata),
+// .idx (sorted headwords with article offsets), .dict or .dict.dz (articles)
+// and optionally .syn (extra headwords pointing into .idx).
+
+const IFO_MAGIC = "StarDict's dict ifo file"
+/** Articles returned per lookup; headwords differing only in case all match */
+const MAX_ARTICLES = 10
+
+export function readIfo(path: string): Record<string, string> {
+  const lines = readFileSync(path, 'utf-8').split(/\r?\n/)
+  if (!lines[0]?.startsWith(IFO_MAGIC)) throw new Error('Not a StarDict .ifo file')
+  const info: Record<string, string> = {}
+  for (const line of lines.slice(1)) {
+    const eq = line.indexOf('=')
+    if (eq > 0) info[line.slice(0, eq).trim()] = line.slice(eq + 1).trim()
+  }
+  return info
+}
+
+/** g_ascii_strcasecmp, the order StarDict sorts headwords in: only ASCII letters fold */
+function foldedCompare(a: Buffer, start: number, end: number, key: Buffer): number {
+  const length = Math.min(end - start, key.length)
+  for (let i = 0; i < length; i++) {
+    let x = a[start + i]
+    let y = key[i]
+    if (x >= 65 && x <= 90) x += 32
+    if (y >= 65 && y <= 90) y += 32
+    if (x !== y) return x - y
+  }
+  return end - start - key.length
+}
+
+function asciiLower(word: string): string {
+  return word.replace(/[A-Z]/g, (c) => c.toLowerCase())
+}
+
+/**
+ * Headwords of an .idx or .syn file, searched in place. Entries are a
+ * zero-terminated word followed by a fixed-size payload. Files that turn
+ * out not to be sorted are looked up through a map instead.
+ */
+class WordIndex {
+  private starts: Uint32Array
+  private ends: Uint32Array
+  private unsorted: Map<string, number[]> | null = null
+
+  constructor(
+    private buf: Buffer,
+    payloadSize: number
+  ) {
+    const starts: number[] = []
+    const ends: number[] = []
+    for (let at = 0; at < buf.length; ) {
+      const end = buf.indexOf(0, at)
+      if (end === -1 || end + 1 + payloadSize > buf.length) break
+      starts.push(at)
+      ends.push(end)
+      at = end + 1 + payloadSize
+    }
+    this.starts = Uint32Array.from(starts)
+    this.ends = Uint32Array.from(ends)
+
+    for (let i = 1; i < starts.length; i++) {
+      const previous = buf.subarray(starts[i - 1], ends[i - 1])
+      if (foldedCompare(buf, starts[i], ends[i], previous) < 0) {
+        this.unsorted = new Map()
+        for (let j = 0; j < starts.length; j++) {
+          const key = asciiLower(this.word(j))
+          const same = this.unsorted.get(key)
+          if (same) same.push(j)
+          else this.unsorted.set(key, [j])
+        }
+        break
+      }
+    }
+  }
+
+  get length(): number {
+    return this.starts.length
+  }
+
+  word(i: number): string {
+    return this.buf.toString('utf-8', this.starts[i], this.ends[i])
+  }
+
+  /** Where entry i's payload starts */
+  payload(i: number): number {
+    return this.ends[i] + 1
+  }
+
+  readUInt32(i: number, at = 0): number {
+    return this.buf.readUInt32BE(this.payload(i) + at)
+  }
+
+  readOffset(i: number, bytes: 4 | 8): number {
+    return bytes === 8 ? Number(this.buf.readBigUInt64BE(this.payload(i))) : this.readUInt32(i)
+  }
+
+  /** Entries whose word equals this one, ignoring ASCII case */
+  find(word: string): number[] {
+    if (this.unsorted) return this.unsorted.get(asciiLower(word)) ?? []
+
+    const key = Buffer.from(word, 'utf-8')
+    let low = 0
+    let high = this.starts.length
+    while (low < high) {
+      const mid = (low + high) >>> 1
+      if (foldedCompare(this.buf, this.starts[mid], this.ends[mid], key) < 0) low = mid + 1
+      else high = mid
+    }
+    const found: number[] = []
+    for (let i = low; i < this.starts.length; i++) {
+      if (foldedCompare(this.buf, this.starts[i], this.ends[i], key) !== 0) break
+      found.push(i)
+    }
+    return found
+  }
+}
+
+function readMaybeGzipped(path: string): Buffer {
+  const data = readFileSync(path)
+  return path.endsWith('.gz') ? gunzipSync(data) : data
+}
+
+function toDefinition(type: string, value: string): Definition | null {
+  const content = value.trim()
+  if (!content) return null
+  switch (type) {
+    case 'h':
+    case 'g':
+    case 'x':
+      return { format: 'html', content }
+    case 't':
+      return { format: 'text', content: `[${content}]` }
+    case 'm':
+    case 'l':
+    case 'y':
+    case 'k':
+    case 'w':
+      return { format: 'text', content }
+    default:
+      // Sound, pictures and resource lists
+      return null
+  }
+}
+
+/**
+ * Split an article into its typed parts. With sametypesequence the type
+ * letters are given once in the .ifo and the last part runs to the end;
+ * without it each part is prefixed by its type. Lowercase types are
+ * zero-terminated strings, uppercase ones binary data with a 32-bit size.
+ */
+function parseArticle(data: Buffer, sequence: string | null): Definition[] {
+  const definitions: Definition[] = []
+  const types = sequence ? sequence.split('') : null
+  let at = 0
+  for (let i = 0; at < data.length && (!types || i < types.length); i++) {
+    const type = types ? types[i] : String.fromCharCode(data[at++])
+    const last = !!types && i === types.length - 1
+    let value: Buffer
+    if (last) {
+      value = data.subarray(at)
+      at = data.length
+    } else if (type >= 'a' && type <= 'z') {
+      const end = data.indexOf(0, at)
+      value = data.subarray(at, end === -1 ? data.length : end)
+      at = end === -1 ? data.length : end + 1
+    } else {
+      if (at + 4 > data.length) break
+      const size = data.readUInt32BE(at)
+      value = data.subarray(at + 4, at + 4 + size)
+      at += 4 + size
+    }
+    const definition = type >= 'a' && type <= 'z' ? toDefinition(type, value.toString('utf-8')) : null
+    if (definition) definitions.push(definition)
+  }
+  return definitions
+}
+
+/** Open a StarDict dictionary from its .ifo file */
+export function openStarDict(ifoPath: string): DictionaryReader {
+  const info = readIfo(ifoPath)
+  const base = ifoPath.slice(0, -'.ifo'.length)
+  const idxPath = companion(base, ['.idx', '.idx.gz'])
+  const dictPath = companion(base, ['.dict', '.dict.dz'])
+  if (!idxPath || !dictPath) throw new Error('StarDict dictionary is missing its .idx or .dict file')
+
+  const offsetBytes = info.idxoffsetbits === '64' ? 8 : 4
+  const idx = new WordIndex(readMaybeGzipped(idxPath), offsetBytes + 4)
+  const synPath = companion(base, ['.syn', '.syn.gz'])
+  const syn = synPath ? new WordIndex(readMaybeGzipped(synPath), 4) : null
+  const data = openDictData(dictPath)
+  const sequence = info.sametypesequence || null
+
+  return {
+    name: info.bookname || base.split(/[\\/]/).pop() || 'StarDict',
+    wordCount: Number(info.wordcount) || idx.length,
+    lookup(word) {
+      const entries = new Set(idx.find(word))
+      for (const i of syn?.find(word) ?? []) entries.add(syn!.readUInt32(i))
+
+      const articles: Article[] = []
+      for (const i of Array.from(entries).slice(0, MAX_ARTICLES)) {
+        if (i >= idx.length) continue
+        const offset = idx.readOffset(i, offsetBytes)
+        const size = idx.readUInt32(i, offsetBytes)
+        const definitions = parseArticle(data.read(offset, size), sequence)
+        if (definitions.length > 0) articles.push({ headword: idx.word(i), definitions })
+      }
+      return articles
+    },
+    close: () => data.close()
+  }
+}
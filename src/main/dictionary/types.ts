@@ -0,0 +1,57 @@
+export type DictionaryFormat = 'stardict' | 'dict'
+
+/**
+ * What a dictionary is used for. Translation dictionaries are only consulted
+ * for books in their source language; encyclopedias (offline Wikipedia
+ * exports) get their own tab in the lookup panel.
+ */
+export type DictionaryKind = 'dictionary' | 'encyclopedia' | 'translation'
+
+/** One definition block; HTML comes from StarDict 'h', 'g' and 'x' entries and is sanitized by the renderer */
+export interface Definition {
+  format: 'text' | 'html'
+  content: string
+}
+
+export interface Article {
+  headword: string
+  definitions: Definition[]
+}
+
+/** An opened dictionary, whatever its file format */
+export interface DictionaryReader {
+  name: string
+  wordCount: number
+  /** Articles whose headword matches, ignoring case */
+  lookup(word: string): Article[]
+  close(): void
+}
+
+/** A dictionaries row */
+export interface DictionaryRow {
+  id: string
+  name: string
+  format: DictionaryFormat
+  kind: DictionaryKind
+  source_language: string | null
+  target_language: string | null
+  word_count: number
+  enabled: number
+  created_at: string
+}
+
+export interface LookupEntry extends Article {
+  dictionaryId: string
+  dictionaryName: string
+  kind: DictionaryKind
+  /** The inflected form that was selected, when the article is for its base form */
+  inflectedFrom: string | null
+}
+
+export interface LookupResult {
+  /** The selection, cleaned of surrounding punctuation */
+  query: string
+  /** The book's language, which picked the translation dictionaries and morphology rules */
+  language: string | null
+  entries: LookupEntry[]
+}
@@ -1,5 +1,6 @@
 import AdmZip from 'adm-zip'
-import { join, dirname } from 'path'
+import { join, dirname, posix } from 'path'
+import type { ChapterWordCount, TextSection } from '../import/types'
 
 export interface EpubMetadata {
   title: string
@@ -9,15 +10,169 @@ export interface EpubMetadata {
   coverImageData: Buffer | null
   coverImageExt: string | null
   estimatedWordCount: number
+  chapters: ChapterWordCount[]
 }
 
 /**
- * Parse an EPUB file and extract metadata, cover image, and estimated word count.
+ * Parse an EPUB file and extract metadata, cover image, and estimated word count
+ * (per spine document and in total).
+ */
+export function parseEpub(filePath: string): EpubMetadata {
+  const { zip, opfXml, opfDir } = openEpub(filePath)
+
+  // 1. Extract metadata from OPF
+  const title = extractTag(opfXml, 'dc:title') || extractTag(opfXml, 'title') || 'Untitled'
+  const author = extractTag(opfXml, 'dc:creator') || extractTag(opfXml, 'creator') || null
+  const description =
+    extractTag(opfXml, 'dc:description') || extractTag(opfXml, 'description') || null
+  const language = extractTag(opfXml, 'dc:language') || extractTag(opfXml, 'language') || null
+
+  // 2. Extract cover image
+  const { coverImageData, coverImageExt } = extractCoverImage(zip, opfXml, opfDir)
+
+  // 3. Estimate word count from XHTML content
+  const chapters = countChapterWords(zip, opfXml, opfDir)
+  const estimatedWordCount = chapters.reduce((sum, c) => sum + c.wordCount, 0)
+
+  return {
+    title,
+    author,
+    description,
+    language,
+    coverImageData,
+    coverImageExt,
+    estimatedWordCount,
+    chapters
+  }
+}
+
+/**
+ * Word count of every spine document, for books imported before counts were
+ * stored at import time.
+ */
+export function extractChapterWordCounts(filePath: string): ChapterWordCount[] {
+  const { zip, opfXml, opfDir } = openEpub(filePath)
+  return countChapterWords(zip, opfXml, opfDir)
+}
+
+/**
+ * Extract the plain text of every XHTML document in the spine, in reading order.
+ * Hrefs are manifest hrefs relative to the OPF, as epub.js expects for display().
+ * Used to build the full-text search index at import time.
+ */
+export function extractSpineText(filePath: string): TextSection[] {
+  const { zip, opfXml, opfDir } = openEpub(filePath)
+  return walkSpine(zip, opfXml, opfDir).map((doc) => ({
+    href: doc.href,
+    spineIndex: doc.spineIndex,
+    text: htmlToPlainText(doc.html)
+  }))
+}
+
+/**
+ * Raw markup of every spine document, with the CFI step that addresses it
+ * (e.g. "/6/8[chap03]"), so callers can build CFIs epub.js will resolve.
+ */
+export function extractSpineMarkup(
+  filePath: string
+): { href: string; spineIndex: number; cfiBase: string; html: string }[] {
+  const { zip, opfXml, opfDir } = openEpub(filePath)
+
+  // epub.js counts the <spine> element among the package's element children
+  const spineAt = opfXml.search(/<(?:opf:)?spine\b/i)
+  const before = opfXml.slice(0, Math.max(0, spineAt))
+  const spineNodeIndex = (before.match(/<(?:opf:)?(?:metadata|manifest)\b/gi) ?? []).length
+
+  return walkSpine(zip, opfXml, opfDir).map((doc) => ({
+    href: doc.href,
+    spineIndex: doc.spineIndex,
+    cfiBase: `/${(spineNodeIndex + 1) * 2}/${(doc.spineIndex + 1) * 2}${doc.itemrefId ? `[${doc.itemrefId}]` : ''}`,
+    html: doc.html
+  }))
+}
+
+export interface TocEntry {
+  label: string
+  /** Spine href relative to the OPF, without fragment, comparable to extractSpineText hrefs */
+  href: string
+}
+
+/**
+ * Flattened table of contents in document order, read the way epub.js reads it:
+ * the EPUB 3 nav document when present, otherwise the NCX.
+ */
+export function extractToc(filePath: string): TocEntry[] {
+  const { zip, opfXml, opfDir } = openEpub(filePath)
+  return readToc(zip, opfXml, opfDir)
+}
+
+function readToc(zip: AdmZip, opfXml: string, opfDir: string): TocEntry[] {
+  const items = (opfXml.match(/<item\b[^>]*>/gi) ?? []).map((tag) => ({
+    href: tag.match(/\shref=["']([^"']+)["']/i)?.[1] ?? '',
+    properties: tag.match(/\sproperties=["']([^"']+)["']/i)?.[1] ?? '',
+    mediaType: tag.match(/\smedia-type=["']([^"']+)["']/i)?.[1] ?? ''
+  }))
+  const nav = items.find((i) => i.href && /(^|\s)nav(\s|$)/.test(i.properties))
+  const ncx = items.find((i) => i.href && i.mediaType === 'application/x-dtbncx+xml')
+  const source = nav ?? ncx
+  if (!source) return []
+
+  const opfBase = opfDir === '.' ? '' : opfDir
+  const sourcePath = posix.join(opfBase, decodeURIComponent(source.href))
+  const entry = zip.getEntry(sourcePath)
+  if (!entry) return []
+  const xml = entry.getData().toString('utf-8')
+
+  // TOC links are relative to the nav/NCX document; spine hrefs are relative to the OPF
+  const toSpineHref = (link: string): string => {
+    const target = posix.join(posix.dirname(sourcePath), decodeURIComponent(link.split('#')[0]))
+    return posix.relative(`/${opfBase}`, `/${target}`)
+  }
+
+  const entries: TocEntry[] = []
+  if (source === nav) {
+    const tocNav =
+      xml.match(/<nav\b[^>]*epub:type=["'][^"']*\btoc\b[^"']*["'][^>]*>([\s\S]*?)<\/nav>/i)?.[1] ??
+      xml.match(/<nav\b[^>]*>([\s\S]*?)<\/nav>/i)?.[1] ??
+      ''
+    const linkRegex = /<a\b[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi
+    let m: RegExpExecArray | null
+    while ((m = linkRegex.exec(tocNav)) !== null) {
+      entries.push({ label: htmlToPlainText(m[2]), href: toSpineHref(m[1]) })
+    }
+  } else {
+    const pointRegex = /<navLabel\b[^>]*>[\s\S]*?<text\b[^>]*>([\s\S]*?)<\/text>[\s\S]*?<content\b[^>]*src=["']([^"']+)["']/gi
+    let m: RegExpExecArray | null
+    while ((m = pointRegex.exec(xml)) !== null) {
+      entries.push({ label: htmlToPlainText(m[1]), href: toSpineHref(m[2]) })
+    }
+  }
+
+  return entries.filter((e) => e.label && e.href)
+}
+
+/**
+ * Spine text with paragraph breaks at block elements, for text-to-speech.
+ * Follows the renderer's extractChapterText (same block tags, footnote references
+ * and hidden elements skipped, inline markup joined without spaces) so chunks built
+ * here match the ones live playback builds from the rendered chapter.
+ */
+export function extractSpineSpeechText(filePath: string): TextSection[] {
+  const { zip, opfXml, opfDir } = openEpub(filePath)
+  return walkSpine(zip, opfXml, opfDir).map((doc) => ({
+    href: doc.href,
+    spineIndex: doc.spineIndex,
+    text: htmlToSpeechText(doc.html)
+  }))
+}
+
+/**
+ * Open the ZIP archive and locate the OPF package document.
  * EPUB is a ZIP archive containing:
  *   META-INF/container.xml -> points to the OPF file
  *   OPF file -> contains metadata and manifest
  */
-export function parseEpub(filePath: string): EpubMetadata {
+function openEpub(filePath: string): { zip: AdmZip; opfXml: string; opfDir: string } {
   let zip: AdmZip
   try {
     zip = new AdmZip(filePath)
@@ -46,28 +201,7 @@ export function parseEpub(filePath: string): EpubMetadata {
   }
   const opfXml = opfEntry.getData().toString('utf-8')
 
-  // 3. Extract metadata from OPF
-  const title = extractTag(opfXml, 'dc:title') || extractTag(opfXml, 'title') || 'Untitled'
-  const author = extractTag(opfXml, 'dc:creator') || extractTag(opfXml, 'creator') || null
-  const description =
-    extractTag(opfXml, 'dc:description') || extractTag(opfXml, 'description') || null
-  const language = extractTag(opfXml, 'dc:language') || extractTag(opfXml, 'language') || null
-
-  // 4. Extract cover image
-  const { coverImageData, coverImageExt } = extractCoverImage(zip, opfXml, opfDir)
-
-  // 5. Estimate word count from XHTML content
-  const estimatedWordCount = estimateWordCount(zip, opfXml, opfDir)
-
-  return {
-    title,
-    author,
-    description,
-    language,
-    coverImageData,
-    coverImageExt,
-    estimatedWordCount
-  }
+  return { zip, opfXml, opfDir }
 }
 
 function extractTag(xml: string, tag: string): string | null {
@@ -175,15 +309,31 @@ function readImageEntry(
   return { coverImageData: data, coverImageExt: validExt }
 }
 
-function estimateWordCount(zip: AdmZip, opfXml: string, opfDir: string): number {
+interface SpineDocument {
+  href: string
+  spineIndex: number
+  /** The itemref's own id attribute, which epub.js puts in CFI assertions */
+  itemrefId: string | null
+  html: string
+}
+
+/**
+ * Walk the spine in reading order and return the raw markup of each XHTML/HTML item.
+ * Falls back to manifest order when the OPF has no spine.
+ */
+function walkSpine(zip: AdmZip, opfXml: string, opfDir: string): SpineDocument[] {
   // Find all XHTML/HTML items in the spine
   const spineItemRefs: string[] = []
+  const itemRefIds: (string | null)[] = []
   const spineMatch = opfXml.match(/<spine[^>]*>([\s\S]*?)<\/spine>/i)
   if (spineMatch) {
-    const itemRefRegex = /idref=["']([^"']+)["']/gi
+    const itemRefRegex = /<itemref\b[^>]*>/gi
     let m: RegExpExecArray | null
     while ((m = itemRefRegex.exec(spineMatch[1])) !== null) {
-      spineItemRefs.push(m[1])
+      const idref = m[0].match(/idref=["']([^"']+)["']/)
+      if (!idref) continue
+      spineItemRefs.push(idref[1])
+      itemRefIds.push(m[0].match(/\sid=["']([^"']+)["']/)?.[1] ?? null)
     }
   }
 
@@ -195,30 +345,95 @@ function estimateWordCount(zip: AdmZip, opfXml: string, opfDir: string): number
     manifestItems.set(im[1], im[2])
   }
 
-  let totalWords = 0
+  const docs: SpineDocument[] = []
 
-  // Count words in spine items
   const refs = spineItemRefs.length > 0 ? spineItemRefs : Array.from(manifestItems.keys())
-  for (const ref of refs) {
+  refs.forEach((ref, spineIndex) => {
     const href = manifestItems.get(ref)
-    if (!href) continue
+    if (!href) return
 
     // Only process XHTML/HTML files
     const lower = href.toLowerCase()
-    if (!lower.endsWith('.xhtml') && !lower.endsWith('.html') && !lower.endsWith('.htm')) continue
+    if (!lower.endsWith('.xhtml') && !lower.endsWith('.html') && !lower.endsWith('.htm')) return
 
     const decodedHref = decodeURIComponent(href)
     const filePath = opfDir === '.' ? decodedHref : join(opfDir, decodedHref).replace(/\\/g, '/')
     const entry = zip.getEntry(filePath)
-    if (!entry) continue
-
-    const text = entry.getData().toString('utf-8')
-    // Strip all HTML tags
-    const plainText = text.replace(/<[^>]+>/g, ' ')
-    // Count words (split on whitespace, filter empty)
-    const words = plainText.split(/\s+/).filter((w) => w.length > 0)
-    totalWords += words.length
+    if (!entry) return
+
+    docs.push({
+      href: decodedHref,
+      spineIndex,
+      itemrefId: itemRefIds[spineIndex] ?? null,
+      html: entry.getData().toString('utf-8')
+    })
+  })
+
+  return docs
+}
+
+/**
+ * Words per spine document. Each document a TOC entry points at carries that
+ * entry's label; documents in between belong to the chapter before them.
+ */
+function countChapterWords(zip: AdmZip, opfXml: string, opfDir: string): ChapterWordCount[] {
+  const labels = new Map<string, string>()
+  for (const entry of readToc(zip, opfXml, opfDir)) {
+    if (!labels.has(entry.href)) labels.set(entry.href, entry.label)
   }
 
-  return totalWords
+  return walkSpine(zip, opfXml, opfDir).map((doc) => ({
+    href: doc.href,
+    spineIndex: doc.spineIndex,
+    label: labels.get(doc.href) ?? null,
+    wordCount: countWords(doc.html)
+  }))
+}
+
+function countWords(html: string): number {
+  // Strip all HTML tags, then split on whitespace
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .split(/\s+/)
+    .filter((w) => w.length > 0).length
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+}
+
+function htmlToPlainText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<head[^>]*>[\s\S]*?<\/head>/gi, ' ')
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+const SPEECH_BLOCK_TAGS = 'p|h[1-6]|li|blockquote|div|figcaption|dt|dd'
+
+function htmlToSpeechText(html: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html
+  return decodeEntities(
+    body
+      .replace(/<(script|style|sup|nav)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<(a|span|aside|div)\b[^>]*(?:role=["']doc-noteref["']|epub:type=["'](?:noteref|footnote)["']|aria-hidden=["']true["']|class=["'][^"']*\bfootnote\b[^"']*["'])[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(new RegExp(`</?(?:${SPEECH_BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_m, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_m, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&([a-z]+);/gi, (m, name: string) => HTML_ENTITIES[name.toLowerCase()] ?? m)
 }
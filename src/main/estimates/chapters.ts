@@ -0,0 +1,94 @@
+import { existsSync } from 'fs'
+import { extractChapterWordCounts } from '../epub/parser'
+import { parsePdf } from '../pdf/parser'
+import { getDatabase } from '../database'
+import type { BookFormat, ChapterWordCount } from '../import/types'
+import type { ChapterWords } from '../../shared/reading/timeLeft'
+
+interface ChapterRow {
+  book_id: string
+  spine_index: number
+  label: string | null
+  word_count: number
+}
+
+function toChapterWords(row: ChapterRow): ChapterWords {
+  return { spineIndex: row.spine_index, label: row.label, wordCount: row.word_count }
+}
+
+/**
+ * Store a book's per-section word counts, replacing any stored before.
+ */
+export function saveChapterWordCounts(bookId: string, chapters: ChapterWordCount[]): void {
+  const db = getDatabase()
+  const insert = db.prepare(
+    'INSERT INTO book_chapters (book_id, spine_index, href, label, word_count) VALUES (?, ?, ?, ?, ?)'
+  )
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM book_chapters WHERE book_id = ?').run(bookId)
+    for (const c of chapters) {
+      insert.run(bookId, c.spineIndex, c.href, c.label, c.wordCount)
+    }
+  })()
+}
+
+export function getChapterWords(bookId: string): ChapterWords[] {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM book_chapters WHERE book_id = ? ORDER BY spine_index')
+    .all(bookId) as ChapterRow[]
+  return rows.map(toChapterWords)
+}
+
+/** Word counts of every book that has them, keyed by book id */
+export function getAllChapterWords(): Map<string, ChapterWords[]> {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM book_chapters ORDER BY book_id, spine_index')
+    .all() as ChapterRow[]
+  const byBook = new Map<string, ChapterWords[]>()
+  for (const row of rows) {
+    const list = byBook.get(row.book_id) ?? []
+    list.push(toChapterWords(row))
+    byBook.set(row.book_id, list)
+  }
+  return byBook
+}
+
+async function countChapterWords(filePath: string, format: BookFormat): Promise<ChapterWordCount[]> {
+  return format === 'pdf' ? (await parsePdf(filePath)).chapters : extractChapterWordCounts(filePath)
+}
+
+/**
+ * Books imported before word counts were stored at import time have no rows yet.
+ */
+function getUncountedBooks(): { id: string; file_path: string; format: BookFormat }[] {
+  return getDatabase()
+    .prepare(
+      `SELECT b.id, b.file_path, b.format FROM books b
+       WHERE NOT EXISTS (SELECT 1 FROM book_chapters c WHERE c.book_id = b.id)`
+    )
+    .all() as { id: string; file_path: string; format: BookFormat }[]
+}
+
+/**
+ * Backfill word counts for older books one at a time, like the search index
+ * backfill, so startup stays responsive.
+ */
+export function countMissingChaptersInBackground(): void {
+  const pending = getUncountedBooks()
+
+  const next = async (): Promise<void> => {
+    const book = pending.shift()
+    if (!book) return
+    if (existsSync(book.file_path)) {
+      try {
+        saveChapterWordCounts(book.id, await countChapterWords(book.file_path, book.format))
+      } catch (err) {
+        console.error(`Counting chapter words failed for book ${book.id}:`, err)
+      }
+    }
+    setTimeout(next, 50)
+  }
+
+  setTimeout(next, 3000)
+}
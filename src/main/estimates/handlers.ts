@@ -0,0 +1,18 @@
+import { ipcMain } from 'electron'
+import { getChapterWords } from './chapters'
+import { getReadingSpeeds } from './speed'
+import { getTimeLeft } from './timeLeft'
+
+export function registerEstimateHandlers(): void {
+  ipcMain.handle('db:estimates:chapters', (_e, bookId: string) => {
+    return getChapterWords(bookId)
+  })
+
+  ipcMain.handle('db:estimates:speeds', () => {
+    return getReadingSpeeds()
+  })
+
+  ipcMain.handle('db:estimates:timeLeft', (_e, bookIds?: string[]) => {
+    return getTimeLeft(bookIds)
+  })
+}
@@ -0,0 +1,43 @@
+import { getDatabase } from '../database'
+import {
+  DEFAULT_WPM,
+  ReadingModeKey,
+  ReadingSpeed,
+  ReadingSpeeds
+} from '../../shared/reading/timeLeft'
+
+/** Reading speed follows the most recent sessions, so it tracks the user as they improve */
+const ROLLING_SESSIONS = 20
+
+/** Below this much timed reading in a mode, its default speed is used instead */
+const MIN_CALIBRATION_MS = 10 * 60 * 1000
+
+/** Shorter sessions are mostly opening and closing the book */
+const MIN_SESSION_MS = 60 * 1000
+
+function speedForMode(mode: ReadingModeKey): ReadingSpeed {
+  // Review and listening sessions read no words; books without a mode count as leisure
+  const rows = getDatabase()
+    .prepare(
+      `SELECT s.active_ms, s.words_read_estimate FROM sessions s
+       JOIN books b ON b.id = s.book_id
+       WHERE s.session_type NOT IN ('review', 'listening')
+         AND s.words_read_estimate > 0 AND s.active_ms >= ?
+         AND COALESCE(b.reading_mode, 'leisure') = ?
+       ORDER BY s.start_time DESC
+       LIMIT ?`
+    )
+    .all(MIN_SESSION_MS, mode, ROLLING_SESSIONS) as { active_ms: number; words_read_estimate: number }[]
+
+  const activeMs = rows.reduce((sum, r) => sum + r.active_ms, 0)
+  const words = rows.reduce((sum, r) => sum + r.words_read_estimate, 0)
+  if (activeMs < MIN_CALIBRATION_MS) return { wpm: DEFAULT_WPM[mode], calibrated: false }
+  return { wpm: Math.round(words / (activeMs / 60000)), calibrated: true }
+}
+
+/**
+ * Rolling words-per-minute for study and leisure reading, from the user's own sessions.
+ */
+export function getReadingSpeeds(): ReadingSpeeds {
+  return { study: speedForMode('study'), leisure: speedForMode('leisure') }
+}
@@ -0,0 +1,50 @@
+import { getDatabase } from '../database'
+import { getAllChapterWords, getChapterWords } from './chapters'
+import { getReadingSpeeds } from './speed'
+import {
+  estimateTimeLeft,
+  positionFromLocation,
+  speedForMode,
+  TimeLeft
+} from '../../shared/reading/timeLeft'
+
+interface BookPositionRow {
+  id: string
+  reading_mode: string | null
+  cfi_position: string | null
+  percent_complete: number | null
+}
+
+/**
+ * Time left in the current chapter and the whole book from each book's saved
+ * position. Finished books and books without word counts are left out.
+ */
+export function getTimeLeft(bookIds?: string[]): Record<string, TimeLeft> {
+  const db = getDatabase()
+  const rows = db
+    .prepare(
+      `SELECT b.id, b.reading_mode, rp.cfi_position, rp.percent_complete
+       FROM books b
+       LEFT JOIN reading_progress rp ON rp.book_id = b.id`
+    )
+    .all() as BookPositionRow[]
+  const wanted = bookIds ? new Set(bookIds) : null
+  const chapters =
+    bookIds?.length === 1
+      ? new Map([[bookIds[0], getChapterWords(bookIds[0])]])
+      : getAllChapterWords()
+  const speeds = getReadingSpeeds()
+
+  const result: Record<string, TimeLeft> = {}
+  for (const row of rows) {
+    if (wanted && !wanted.has(row.id)) continue
+    const bookChapters = chapters.get(row.id)
+    if (!bookChapters?.length || (row.percent_complete ?? 0) >= 100) continue
+    result[row.id] = estimateTimeLeft(
+      bookChapters,
+      positionFromLocation(row.cfi_position),
+      speedForMode(speeds, row.reading_mode)
+    )
+  }
+  return result
+}
@@ -0,0 +1,189 @@
+import { BrowserWindow, dialog, ipcMain } from 'electron'
+import { join } from 'path'
+import { writeFileSync } from 'fs'
+import { getDatabase } from '../database'
+import {
+  AnnotationSet,
+  EXPORT_FORMATS,
+  ExportFile,
+  ExportFormatId,
+  ExportScope,
+  exportAnnotations,
+  groupAnnotations
+} from '../../shared/annotations'
+
+/** Load the annotations the scope can touch, mapped for the shared exporter */
+function loadAnnotations(scope: ExportScope): AnnotationSet {
+  const db = getDatabase()
+
+  const books = db
+    .prepare(
+      `SELECT b.id, b.title, b.author, b.category_id, c.name AS category_name
+       FROM books b
+       LEFT JOIN categories c ON c.id = b.category_id
+       WHERE (? IS NULL OR b.id = ?) AND (? IS NULL OR b.category_id = ?)`
+    )
+    .all(scope.bookId ?? null, scope.bookId ?? null, scope.categoryId ?? null, scope.categoryId ?? null) as {
+    id: string
+    title: string
+    author: string | null
+    category_id: string | null
+    category_name: string | null
+  }[]
+
+  const highlights = db
+    .prepare('SELECT id, book_id, text, color, chapter, cfi_range, created_at FROM highlights')
+    .all() as {
+    id: string
+    book_id: string
+    text: string
+    color: string
+    chapter: string | null
+    cfi_range: string
+    created_at: string
+  }[]
+
+  const notes = db
+    .prepare('SELECT id, book_id, highlight_id, content, tags, created_at FROM notes')
+    .all() as {
+    id: string
+    book_id: string
+    highlight_id: string | null
+    content: string
+    tags: string | null
+    created_at: string
+  }[]
+
+  const bookmarks = db
+    .prepare('SELECT id, book_id, label, chapter, cfi, percent, created_at FROM bookmarks')
+    .all() as {
+    id: string
+    book_id: string
+    label: string | null
+    chapter: string | null
+    cfi: string
+    percent: number
+    created_at: string
+  }[]
+
+  // SQLite's datetime('now') has no "T" or zone; make every timestamp ISO
+  const iso = (value: string): string => (value.includes('T') ? value : `${value.replace(' ', 'T')}Z`)
+
+  return {
+    books: books.map((b) => ({
+      id: b.id,
+      title: b.title,
+      author: b.author,
+      categoryId: b.category_id,
+      categoryName: b.category_name
+    })),
+    highlights: highlights.map((h) => ({
+      id: h.id,
+      bookId: h.book_id,
+      text: h.text,
+      color: h.color,
+      chapter: h.chapter,
+      location: h.cfi_range,
+      createdAt: iso(h.created_at)
+    })),
+    notes: notes.map((n) => {
+      let tags: string[] = []
+      try {
+        tags = JSON.parse(n.tags || '[]')
+      } catch {
+        // Leave malformed tag lists out
+      }
+      return {
+        id: n.id,
+        bookId: n.book_id,
+        highlightId: n.highlight_id,
+        content: n.content,
+        tags,
+        createdAt: iso(n.created_at)
+      }
+    }),
+    bookmarks: bookmarks.map((b) => ({
+      id: b.id,
+      bookId: b.book_id,
+      label: b.label,
+      chapter: b.chapter,
+      location: b.cfi,
+      percent: b.percent,
+      createdAt: iso(b.created_at)
+    }))
+  }
+}
+
+/** Ask where to save, then write. Multi-file exports go into a chosen folder. */
+async function saveFiles(
+  mainWindow: BrowserWindow,
+  files: ExportFile[],
+  format: ExportFormatId
+): Promise<{ success: true; filePath: string; count: number } | { success: false; error: string }> {
+  const exporter = EXPORT_FORMATS[format]
+
+  if (files.length === 1) {
+    const file = files[0]
+    const result = await dialog.showSaveDialog(mainWindow, {
+      defaultPath: file.name,
+      filters: [{ name: exporter.label, extensions: [exporter.extension] }]
+    })
+    if (result.canceled || !result.filePath) return { success: false, error: 'Cancelled' }
+    writeFileSync(result.filePath, file.content, 'utf-8')
+    return { success: true, filePath: result.filePath, count: 1 }
+  }
+
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: `Choose a folder for ${files.length} ${exporter.label} files`,
+    properties: ['openDirectory', 'createDirectory']
+  })
+  if (result.canceled || result.filePaths.length === 0) return { success: false, error: 'Cancelled' }
+
+  const dir = result.filePaths[0]
+  const used = new Set<string>()
+  for (const file of files) {
+    // Two books with the same title would otherwise overwrite each other
+    let name = file.name
+    for (let i = 2; used.has(name); i++) {
+      name = file.name.replace(/(\.[^.]+)$/, ` (${i})$1`)
+    }
+    used.add(name)
+    writeFileSync(join(dir, name), file.content, 'utf-8')
+  }
+  return { success: true, filePath: dir, count: files.length }
+}
+
+export function registerExportHandlers(): void {
+  ipcMain.handle('export:annotations', async (_e, format: ExportFormatId, scope: ExportScope = {}) => {
+    const mainWindow = BrowserWindow.getFocusedWindow()
+    if (!mainWindow) return { success: false, error: 'No window' }
+    if (!EXPORT_FORMATS[format]) return { success: false, error: `Unknown format: ${format}` }
+
+    const annotations = loadAnnotations(scope)
+    if (groupAnnotations(annotations, scope).length === 0) {
+      return { success: false, error: 'No highlights or notes to export' }
+    }
+    const files = exportAnnotations(annotations, format, scope)
+
+    try {
+      return await saveFiles(mainWindow, files, format)
+    } catch (err) {
+      return { success: false, error: String(err) }
+    }
+  })
+
+  // Per-book export from the reader
+  ipcMain.handle('export:markdown', async (_e, bookId: string) => {
+    const mainWindow = BrowserWindow.getFocusedWindow()
+    if (!mainWindow) return { success: false, error: 'No window' }
+
+    const files = exportAnnotations(loadAnnotations({ bookId }), 'obsidian', { bookId })
+    if (files.length === 0) return { success: false, error: 'No highlights or notes to export' }
+
+    try {
+      return await saveFiles(mainWindow, files, 'obsidian')
+    } catch (err) {
+      return { success: false, error: String(err) }
+    }
+  })
+}
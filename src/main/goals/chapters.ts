@@ -0,0 +1,34 @@
+import { getDatabase } from '../database'
+import { getChapterWords } from '../estimates/chapters'
+import { positionFromLocation } from '../../shared/reading/timeLeft'
+
+/**
+ * Mark the chapter the reader was in as finished once a saved position moves
+ * past its end, or reaches the end of the book inside it. Chapters are the
+ * labelled sections of book_chapters, so books without a TOC have none.
+ */
+export function recordChapterProgress(
+  bookId: string,
+  previousLocation: string | null,
+  location: string,
+  percentComplete: number | null
+): void {
+  const from = positionFromLocation(previousLocation)
+  const to = positionFromLocation(location)
+  if (!from || !to || to.spineIndex < from.spineIndex) return
+
+  const starts = getChapterWords(bookId)
+    .filter((c) => c.label !== null)
+    .map((c) => c.spineIndex)
+  // Front matter before the first chapter isn't one
+  const current = starts.filter((s) => s <= from.spineIndex).pop()
+  if (current === undefined) return
+
+  const next = starts.find((s) => s > current)
+  const finished = next !== undefined ? to.spineIndex >= next : (percentComplete ?? 0) >= 100
+  if (!finished) return
+
+  getDatabase()
+    .prepare('INSERT OR IGNORE INTO chapter_completions (book_id, spine_index, completed_at) VALUES (?, ?, ?)')
+    .run(bookId, current, new Date().toISOString())
+}
@@ -0,0 +1,111 @@
+import { ipcMain } from 'electron'
+import { randomUUID } from 'crypto'
+import { getDatabase } from '../database'
+import type { GoalPeriod, GoalScope, GoalType } from '../../shared/goals'
+import { computeGoalProgress, ReadingGoalRow } from './progress'
+
+interface GoalInput {
+  goalType: GoalType
+  target: number
+  period?: GoalPeriod
+  scope?: GoalScope
+  scopeId?: string | null
+  title?: string | null
+}
+
+/** Name of the category or book a scoped goal covers */
+function scopeName(row: ReadingGoalRow): string | null {
+  if (!row.scope_id) return null
+  const db = getDatabase()
+  if (row.scope === 'category') {
+    const category = db.prepare('SELECT name FROM categories WHERE id = ?').get(row.scope_id) as
+      | { name: string }
+      | undefined
+    return category?.name ?? null
+  }
+  if (row.scope === 'book') {
+    const book = db.prepare('SELECT title FROM books WHERE id = ?').get(row.scope_id) as
+      | { title: string }
+      | undefined
+    return book?.title ?? null
+  }
+  return null
+}
+
+function withProgress(row: ReadingGoalRow): Record<string, unknown> {
+  return { ...row, scope_name: scopeName(row), progress: computeGoalProgress(row) }
+}
+
+function getGoal(id: string): ReadingGoalRow | undefined {
+  return getDatabase().prepare('SELECT * FROM reading_goals WHERE id = ?').get(id) as
+    | ReadingGoalRow
+    | undefined
+}
+
+export function registerGoalHandlers(): void {
+  // ─── Reading Goals ──────────────────────────────────
+
+  ipcMain.handle('db:goals:getAll', () => {
+    const rows = getDatabase()
+      .prepare('SELECT * FROM reading_goals ORDER BY created_at ASC')
+      .all() as ReadingGoalRow[]
+    // A goal whose book or category was deleted no longer measures anything
+    return rows.filter((row) => row.scope === 'global' || scopeName(row) !== null).map(withProgress)
+  })
+
+  ipcMain.handle('db:goals:create', (_e, data: GoalInput) => {
+    const id = randomUUID()
+    const now = new Date().toISOString()
+    const scope = data.scope ?? 'global'
+    getDatabase()
+      .prepare(
+        `INSERT INTO reading_goals (id, goal_type, target, period, scope, scope_id, title, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        id,
+        data.goalType,
+        data.target,
+        data.period ?? 'week',
+        scope,
+        scope === 'global' ? null : (data.scopeId ?? null),
+        data.title ?? null,
+        now,
+        now
+      )
+    return withProgress(getGoal(id)!)
+  })
+
+  ipcMain.handle('db:goals:update', (_e, id: string, data: Partial<GoalInput>) => {
+    const columns: Record<keyof GoalInput, string> = {
+      goalType: 'goal_type',
+      target: 'target',
+      period: 'period',
+      scope: 'scope',
+      scopeId: 'scope_id',
+      title: 'title'
+    }
+    const fields: string[] = []
+    const values: unknown[] = []
+    for (const [key, value] of Object.entries(data)) {
+      const column = columns[key as keyof GoalInput]
+      if (!column) continue
+      fields.push(`${column} = ?`)
+      values.push(value ?? null)
+    }
+    if (data.scope === 'global') fields.push('scope_id = NULL')
+    if (fields.length > 0) {
+      values.push(new Date().toISOString(), id)
+      getDatabase()
+        .prepare(`UPDATE reading_goals SET ${fields.join(', ')}, updated_at = ? WHERE id = ?`)
+        .run(...values)
+    }
+    const row = getGoal(id)
+    return row ? withProgress(row) : null
+  })
+
+  ipcMain.handle('db:goals:delete', (_e, id: string) => {
+    getDatabase().prepare('DELETE FROM reading_goals WHERE id = ?').run(id)
+    return { success: true }
+  })
+}
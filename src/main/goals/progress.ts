@@ -0,0 +1,110 @@
+import { getDatabase } from '../database'
+import {
+  currentStreak,
+  GoalDefinition,
+  GoalPeriod,
+  GoalProgress,
+  GoalScope,
+  GoalType,
+  goalProgress,
+  periodBounds
+} from '../../shared/goals'
+
+export interface ReadingGoalRow {
+  id: string
+  goal_type: GoalType
+  target: number
+  period: GoalPeriod
+  scope: GoalScope
+  scope_id: string | null
+  title: string | null
+  created_at: string
+  updated_at: string
+}
+
+export function toGoalDefinition(row: ReadingGoalRow): GoalDefinition {
+  return {
+    type: row.goal_type,
+    target: row.target,
+    period: row.period,
+    scope: row.scope,
+    scopeId: row.scope_id
+  }
+}
+
+/** Limits a query to the goal's category or book through the given book id column */
+function scopeWhere(goal: GoalDefinition, bookColumn: string): { sql: string; params: string[] } {
+  if (goal.scope === 'category' && goal.scopeId) {
+    return { sql: `${bookColumn} IN (SELECT id FROM books WHERE category_id = ?)`, params: [goal.scopeId] }
+  }
+  if (goal.scope === 'book' && goal.scopeId) {
+    return { sql: `${bookColumn} = ?`, params: [goal.scopeId] }
+  }
+  return { sql: '1 = 1', params: [] }
+}
+
+/** Amount read toward the goal in its current window, or the current streak */
+function currentAmount(goal: GoalDefinition, now: Date): number {
+  const db = getDatabase()
+
+  if (goal.type === 'streak') {
+    const scope = scopeWhere(goal, 's.book_id')
+    const days = db
+      .prepare(
+        `SELECT DISTINCT date(s.start_time, 'localtime') as day FROM sessions s
+         WHERE ${scope.sql}`
+      )
+      .all(...scope.params) as { day: string }[]
+    return currentStreak(
+      days.map((d) => d.day),
+      now
+    )
+  }
+
+  const { start, end } = periodBounds(goal.period, now)
+  const window = [start.toISOString(), end.toISOString()]
+
+  if (goal.type === 'books') {
+    const scope = scopeWhere(goal, 'rp.book_id')
+    return (
+      db
+        .prepare(
+          `SELECT COUNT(*) as n FROM reading_progress rp
+           WHERE rp.finished_at >= ? AND rp.finished_at < ? AND ${scope.sql}`
+        )
+        .get(...window, ...scope.params) as { n: number }
+    ).n
+  }
+
+  if (goal.type === 'chapters') {
+    const scope = scopeWhere(goal, 'c.book_id')
+    return (
+      db
+        .prepare(
+          `SELECT COUNT(*) as n FROM chapter_completions c
+           WHERE c.completed_at >= ? AND c.completed_at < ? AND ${scope.sql}`
+        )
+        .get(...window, ...scope.params) as { n: number }
+    ).n
+  }
+
+  const column = goal.type === 'pages' ? 's.pages_viewed' : 's.words_read_estimate'
+  const scope = scopeWhere(goal, 's.book_id')
+  return (
+    db
+      .prepare(
+        `SELECT COALESCE(SUM(${column}), 0) as n FROM sessions s
+         WHERE s.start_time >= ? AND s.start_time < ? AND ${scope.sql}`
+      )
+      .get(...window, ...scope.params) as { n: number }
+  ).n
+}
+
+/**
+ * Progress toward a reading goal, the counterpart of computeTrackProgress for
+ * goals measured in books, pages, words, chapters or streak days.
+ */
+export function computeGoalProgress(row: ReadingGoalRow, now: Date = new Date()): GoalProgress {
+  const goal = toGoalDefinition(row)
+  return goalProgress(goal, currentAmount(goal, now), now)
+}
@@ -2,8 +2,13 @@ import { app } from 'electron'
 import { join } from 'path'
 import { existsSync, mkdirSync, copyFileSync, writeFileSync, unlinkSync } from 'fs'
 import { randomUUID } from 'crypto'
-import { parseEpub, EpubMetadata } from './parser'
+import { parseEpub } from '../epub/parser'
+import { parsePdf } from '../pdf/parser'
 import { getDatabase } from '../database'
+import { indexBook, indexBookSections } from '../search/indexer'
+import { saveChapterWordCounts } from '../estimates/chapters'
+import { downloadSource } from '../opds/client'
+import { BookFormat, BookMetadata, SUPPORTED_EXTENSIONS } from './types'
 
 export interface ImportResult {
   success: true
@@ -13,11 +18,18 @@ export interface ImportResult {
     author: string | null
     cover_path: string | null
     file_path: string
+    format: BookFormat
+    page_count: number | null
     total_words_estimate: number | null
     description: string | null
     language: string | null
     category_id: string | null
     reading_mode: string | null
+    series: string | null
+    series_index: number | null
+    rating: number | null
+    published_at: string | null
+    original_missing_at: string | null
     created_at: string
     updated_at: string
   }
@@ -26,7 +38,7 @@ export interface ImportResult {
 export interface ImportError {
   success: false
   error: string
-  code: 'INVALID_EPUB' | 'DUPLICATE' | 'FILE_NOT_FOUND' | 'UNKNOWN'
+  code: 'INVALID_EPUB' | 'INVALID_PDF' | 'UNSUPPORTED_FORMAT' | 'DUPLICATE' | 'FILE_NOT_FOUND' | 'UNKNOWN'
 }
 
 export type ImportResponse = ImportResult | ImportError
@@ -35,11 +47,13 @@ export interface ParseResult {
   success: true
   meta: {
     filePath: string
+    format: BookFormat
     title: string
     author: string | null
     description: string | null
     language: string | null
     estimatedWordCount: number
+    pageCount: number | null
     hasCover: boolean
   }
 }
@@ -58,32 +72,66 @@ function getCoversDir(): string {
   return dir
 }
 
+export function detectFormat(filePath: string): BookFormat | null {
+  const ext = filePath.split('.').pop()?.toLowerCase() ?? ''
+  return SUPPORTED_EXTENSIONS[ext] ?? null
+}
+
 /**
- * Parse an EPUB file without importing it.
+ * Run the format-specific parser and normalize its output.
+ */
+async function readMetadata(
+  sourcePath: string,
+  format: BookFormat
+): Promise<BookMetadata | ImportError> {
+  try {
+    if (format === 'pdf') return await parsePdf(sourcePath)
+    return { ...parseEpub(sourcePath), format: 'epub', pageCount: null, sections: null }
+  } catch (err) {
+    const fallback = format === 'pdf' ? 'Unknown error parsing PDF' : 'Unknown error parsing EPUB'
+    const msg = err instanceof Error ? err.message : fallback
+    return { success: false, error: msg, code: format === 'pdf' ? 'INVALID_PDF' : 'INVALID_EPUB' }
+  }
+}
+
+function unsupportedFormat(sourcePath: string): ImportError {
+  const ext = sourcePath.split('.').pop() ?? ''
+  return {
+    success: false,
+    error: `Unsupported file type${ext ? ` ".${ext}"` : ''}. FlareRead can import EPUB and PDF files.`,
+    code: 'UNSUPPORTED_FORMAT'
+  }
+}
+
+/** Catalog downloads are temp files; the acquisition URL is where they really came from */
+function originalPathOf(sourcePath: string): string {
+  return downloadSource(sourcePath) ?? sourcePath
+}
+
+/**
+ * Parse a book file without importing it.
  * Returns metadata for the import category dialog.
  */
-export function parseEpubFile(sourcePath: string): ParseResponse {
+export async function parseBookFile(sourcePath: string): Promise<ParseResponse> {
   if (!existsSync(sourcePath)) {
     return { success: false, error: 'File not found', code: 'FILE_NOT_FOUND' }
   }
 
+  const format = detectFormat(sourcePath)
+  if (!format) return unsupportedFormat(sourcePath)
+
   const db = getDatabase()
 
   const existingByPath = db
     .prepare('SELECT * FROM books WHERE file_path LIKE ? OR original_path = ?')
-    .get(`%${sourcePath.split(/[\\/]/).pop()}`, sourcePath)
+    .get(`%${sourcePath.split(/[\\/]/).pop()}`, originalPathOf(sourcePath))
 
   if (existingByPath) {
     return { success: false, error: 'This book has already been imported', code: 'DUPLICATE' }
   }
 
-  let metadata: EpubMetadata
-  try {
-    metadata = parseEpub(sourcePath)
-  } catch (err) {
-    const msg = err instanceof Error ? err.message : 'Unknown error parsing EPUB'
-    return { success: false, error: msg, code: 'INVALID_EPUB' }
-  }
+  const metadata = await readMetadata(sourcePath, format)
+  if ('success' in metadata) return metadata
 
   if (metadata.title && metadata.author) {
     const existingByMeta = db
@@ -102,40 +150,47 @@ export function parseEpubFile(sourcePath: string): ParseResponse {
     success: true,
     meta: {
       filePath: sourcePath,
+      format,
       title: metadata.title,
       author: metadata.author,
       description: metadata.description,
       language: metadata.language,
       estimatedWordCount: metadata.estimatedWordCount,
+      pageCount: metadata.pageCount,
       hasCover: !!(metadata.coverImageData && metadata.coverImageExt)
     }
   }
 }
 
 /**
- * Import an EPUB file:
+ * Import an EPUB or PDF file:
  * 1. Check for duplicates (by original file path hash or title+author)
- * 2. Parse metadata and cover
- * 3. Copy EPUB to app data directory
+ * 2. Parse metadata and cover with the parser for the file's format
+ * 3. Copy the book to app data directory
  * 4. Save cover image to covers directory
  * 5. Create database record
+ * 6. Store per-chapter word counts and build the full-text search index
  */
-export function importEpub(
+export async function importBook(
   sourcePath: string,
   options?: { categoryId?: string; readingMode?: string | null }
-): ImportResponse {
+): Promise<ImportResponse> {
   // Check file exists
   if (!existsSync(sourcePath)) {
     return { success: false, error: 'File not found', code: 'FILE_NOT_FOUND' }
   }
 
+  const format = detectFormat(sourcePath)
+  if (!format) return unsupportedFormat(sourcePath)
+
   const db = getDatabase()
 
   // Check for duplicate by original source path or by stored file
   // We store the original path in a separate column for duplicate detection
+  const originalPath = originalPathOf(sourcePath)
   const existingByPath = db
     .prepare('SELECT * FROM books WHERE file_path LIKE ? OR original_path = ?')
-    .get(`%${sourcePath.split(/[\\/]/).pop()}`, sourcePath)
+    .get(`%${sourcePath.split(/[\\/]/).pop()}`, originalPath)
 
   if (existingByPath) {
     return {
@@ -145,14 +200,9 @@ export function importEpub(
     }
   }
 
-  // Parse the EPUB
-  let metadata: EpubMetadata
-  try {
-    metadata = parseEpub(sourcePath)
-  } catch (err) {
-    const msg = err instanceof Error ? err.message : 'Unknown error parsing EPUB'
-    return { success: false, error: msg, code: 'INVALID_EPUB' }
-  }
+  // Parse the book
+  const metadata = await readMetadata(sourcePath, format)
+  if ('success' in metadata) return metadata
 
   // Check for duplicate by title + author
   if (metadata.title && metadata.author) {
@@ -171,15 +221,15 @@ export function importEpub(
   const bookId = randomUUID()
   const now = new Date().toISOString()
 
-  // Copy EPUB to app data directory
-  const fileName = `${bookId}.epub`
+  // Copy the book to app data directory
+  const fileName = `${bookId}.${format}`
   const destPath = join(getBooksDir(), fileName)
   try {
     copyFileSync(sourcePath, destPath)
   } catch (err) {
     return {
       success: false,
-      error: 'Failed to copy EPUB file to library',
+      error: 'Failed to copy book file to library',
       code: 'UNKNOWN'
     }
   }
@@ -203,15 +253,17 @@ export function importEpub(
   // Create database record
   try {
     db.prepare(
-      `INSERT INTO books (id, title, author, cover_path, file_path, original_path, description, language, total_words_estimate, category_id, reading_mode, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      `INSERT INTO books (id, title, author, cover_path, file_path, original_path, format, page_count, description, language, total_words_estimate, category_id, reading_mode, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     ).run(
       bookId,
       metadata.title,
       metadata.author,
       coverPath,
       destPath,
-      sourcePath,
+      originalPath,
+      format,
+      metadata.pageCount,
       metadata.description,
       metadata.language,
       metadata.estimatedWordCount > 0 ? metadata.estimatedWordCount : null,
@@ -233,11 +285,52 @@ export function importEpub(
     }
   }
 
+  // Word counts for time-left estimates (non-fatal, backfilled on next start)
+  try {
+    saveChapterWordCounts(bookId, metadata.chapters)
+  } catch (err) {
+    console.error(`Saving chapter word counts failed for book ${bookId}:`, err)
+  }
+
+  // Index contents for full-text search (non-fatal, can be rebuilt later).
+  // PDF text was already extracted while parsing, so reuse it.
+  try {
+    if (metadata.sections) {
+      indexBookSections(bookId, metadata.sections)
+    } else {
+      await indexBook(bookId, destPath, format)
+    }
+  } catch (err) {
+    console.error(`Search indexing failed for book ${bookId}:`, err)
+  }
+
   const book = db.prepare('SELECT * FROM books WHERE id = ?').get(bookId) as ImportResult['book']
 
   return { success: true, book }
 }
 
+/**
+ * Save a cover thumbnail rendered by the renderer (PDF first pages need a canvas).
+ * Accepts a data URL and updates the book's cover_path.
+ */
+export function saveRenderedCover(bookId: string, dataUrl: string): string | null {
+  const match = dataUrl.match(/^data:image\/(png|jpeg|webp);base64,(.+)$/)
+  if (!match) return null
+
+  const ext = match[1] === 'jpeg' ? 'jpg' : match[1]
+  const coverPath = join(getCoversDir(), `${bookId}.${ext}`)
+  try {
+    writeFileSync(coverPath, Buffer.from(match[2], 'base64'))
+  } catch {
+    return null
+  }
+
+  getDatabase()
+    .prepare('UPDATE books SET cover_path = ?, updated_at = ? WHERE id = ?')
+    .run(coverPath, new Date().toISOString(), bookId)
+  return coverPath
+}
+
 /**
  * Delete a book and its associated files
  */
@@ -249,7 +342,7 @@ export function deleteBookFiles(bookId: string): void {
 
   if (!book) return
 
-  // Delete the EPUB file if it's in our books directory
+  // Delete the book file if it's in our books directory
   if (book.file_path && book.file_path.includes(app.getPath('userData'))) {
     try {
       if (existsSync(book.file_path)) unlinkSync(book.file_path)
@@ -0,0 +1,46 @@
+export type BookFormat = 'epub' | 'pdf'
+
+export const SUPPORTED_EXTENSIONS: Record<string, BookFormat> = {
+  epub: 'epub',
+  pdf: 'pdf'
+}
+
+/**
+ * A searchable unit of book text: a spine document for EPUB, a page for PDF.
+ * `href` is whatever the matching reader accepts for navigation.
+ */
+export interface TextSection {
+  href: string
+  spineIndex: number
+  text: string
+}
+
+/**
+ * Words in one spine document (EPUB) or page (PDF), for time-to-finish estimates.
+ * `label` is set where a table-of-contents entry starts; a chapter runs until the
+ * next labelled section.
+ */
+export interface ChapterWordCount {
+  href: string
+  spineIndex: number
+  label: string | null
+  wordCount: number
+}
+
+/**
+ * Metadata every format parser produces, so the importer can stay format-agnostic.
+ */
+export interface BookMetadata {
+  format: BookFormat
+  title: string
+  author: string | null
+  description: string | null
+  language: string | null
+  coverImageData: Buffer | null
+  coverImageExt: string | null
+  estimatedWordCount: number
+  chapters: ChapterWordCount[]
+  pageCount: number | null
+  /** Already-extracted text, when the parser had to read it anyway */
+  sections: TextSection[] | null
+}
@@ -1,17 +1,36 @@
 import { app, BrowserWindow, shell, ipcMain, dialog, Menu, protocol, net } from 'electron'
 import { join } from 'path'
-import { writeFileSync } from 'fs'
 import { is } from '@electron-toolkit/utils'
 import { initDatabase, closeDatabase, getDatabase } from './database'
 import { registerDatabaseHandlers } from './database/handlers'
-import { importEpub, deleteBookFiles, parseEpubFile } from './epub/importer'
+import { importBook, deleteBookFiles, parseBookFile, saveRenderedCover } from './import/importer'
 import { registerSessionHandlers } from './session/handlers'
 import { getSessionManager } from './session/StudySessionManager'
 import { registerFocusWallHandlers } from './focuswall/handlers'
 import { registerCategoryHandlers } from './categories/handlers'
 import { registerTtsHandlers } from './tts/handlers'
+import { registerSearchHandlers } from './search/handlers'
+import { indexMissingBooksInBackground } from './search/indexer'
+import { registerEstimateHandlers } from './estimates/handlers'
+import { countMissingChaptersInBackground } from './estimates/chapters'
+import { registerStatsHandlers } from './stats/handlers'
+import { registerGoalHandlers } from './goals/handlers'
+import { registerSyncHandlers } from './sync/handlers'
+import { registerReviewHandlers } from './review/handlers'
+import { registerBackupHandlers } from './backup/handlers'
+import { registerExportHandlers } from './export/handlers'
+import { registerClippingHandlers } from './clippings/handlers'
+import { registerOpdsHandlers } from './opds/handlers'
+import { registerCalibreHandlers } from './calibre/handlers'
+import { registerWatchHandlers } from './watch/handlers'
+import { registerTypographyHandlers } from './typography/handlers'
+import { registerDictionaryHandlers } from './dictionary/handlers'
+import { getFolderWatcher } from './watch/FolderWatcher'
+import { getTrackPaceMonitor } from './categories/TrackPaceMonitor'
+import { getSyncManager } from './sync/SyncManager'
 import { getFocusWallManager } from './focuswall/FocusWallManager'
 import { getTtsService } from './tts/TtsService'
+import { getAudiobookRenderer } from './tts/AudiobookRenderer'
 import { seedSampleData } from './database/seed'
 
 // Allow Web Audio API to play without requiring a user gesture per-context
@@ -60,7 +79,7 @@ function buildMenu(mainWindow: BrowserWindow): void {
       label: 'File',
       submenu: [
         {
-          label: 'Import EPUB...',
+          label: 'Import Book...',
           accelerator: 'CmdOrCtrl+O',
           click: (): void => send('menu:import-epub')
         },
@@ -217,7 +236,21 @@ app.whenReady().then(() => {
   registerSessionHandlers()
   registerFocusWallHandlers()
   registerCategoryHandlers()
+  registerGoalHandlers()
   registerTtsHandlers()
+  registerSearchHandlers()
+  registerEstimateHandlers()
+  registerStatsHandlers()
+  registerSyncHandlers()
+  registerReviewHandlers()
+  registerBackupHandlers()
+  registerExportHandlers()
+  registerClippingHandlers()
+  registerOpdsHandlers()
+  registerCalibreHandlers()
+  registerWatchHandlers()
+  registerTypographyHandlers()
+  registerDictionaryHandlers()
 
   // ─── Seed Data Handler (dev only) ──────────────────
   if (is.dev) {
@@ -232,15 +265,15 @@ app.whenReady().then(() => {
     if (!mainWindow) return null
     const result = await dialog.showOpenDialog(mainWindow, {
       properties: ['openFile'],
-      filters: [{ name: 'EPUB Files', extensions: ['epub'] }]
+      filters: [{ name: 'Books', extensions: ['epub', 'pdf'] }]
     })
     if (result.canceled || result.filePaths.length === 0) return null
     return result.filePaths[0]
   })
 
-  // ─── EPUB Parse Handler (metadata only, no save) ────
+  // ─── Book Parse Handler (EPUB/PDF metadata only, no save) ────
   ipcMain.handle('epub:parse', (_e, filePath: string) => {
-    return parseEpubFile(filePath)
+    return parseBookFile(filePath)
   })
 
   ipcMain.handle('epub:parseDialog', async () => {
@@ -248,13 +281,13 @@ app.whenReady().then(() => {
     if (!mainWindow) return { success: false, error: 'No window', code: 'UNKNOWN' }
     const result = await dialog.showOpenDialog(mainWindow, {
       properties: ['openFile'],
-      filters: [{ name: 'EPUB Files', extensions: ['epub'] }]
+      filters: [{ name: 'Books', extensions: ['epub', 'pdf'] }]
     })
     if (result.canceled || result.filePaths.length === 0) return null
-    return parseEpubFile(result.filePaths[0])
+    return parseBookFile(result.filePaths[0])
   })
 
-  // ─── EPUB Import Handler ─────────────────────────────
+  // ─── Book Import Handler (EPUB/PDF) ──────────────────
   ipcMain.handle(
     'epub:import',
     (
@@ -262,7 +295,7 @@ app.whenReady().then(() => {
       filePath: string,
       options?: { categoryId?: string; readingMode?: string | null }
     ) => {
-      return importEpub(filePath, options)
+      return importBook(filePath, options)
     }
   )
 
@@ -271,10 +304,15 @@ app.whenReady().then(() => {
     if (!mainWindow) return { success: false, error: 'No window', code: 'UNKNOWN' }
     const result = await dialog.showOpenDialog(mainWindow, {
       properties: ['openFile'],
-      filters: [{ name: 'EPUB Files', extensions: ['epub'] }]
+      filters: [{ name: 'Books', extensions: ['epub', 'pdf'] }]
     })
     if (result.canceled || result.filePaths.length === 0) return null
-    return importEpub(result.filePaths[0])
+    return importBook(result.filePaths[0])
+  })
+
+  // ─── PDF Cover Handler (thumbnail rendered in renderer) ──
+  ipcMain.handle('pdf:saveCover', (_e, bookId: string, dataUrl: string) => {
+    return saveRenderedCover(bookId, dataUrl)
   })
 
   // ─── Book Delete Handler (with file cleanup) ─────────
@@ -284,113 +322,6 @@ app.whenReady().then(() => {
     return { success: true }
   })
 
-  // ─── Markdown Export Handler ─────────────────────────
-  ipcMain.handle(
-    'export:markdown',
-    async (_e, bookId: string) => {
-      const mainWindow = BrowserWindow.getFocusedWindow()
-      if (!mainWindow) return { success: false, error: 'No window' }
-
-      const db = getDatabase()
-      const book = db.prepare('SELECT * FROM books WHERE id = ?').get(bookId) as
-        | { title: string; author: string | null }
-        | undefined
-      if (!book) return { success: false, error: 'Book not found' }
-
-      const highlights = db
-        .prepare('SELECT * FROM highlights WHERE book_id = ? ORDER BY created_at ASC')
-        .all(bookId) as Array<{
-        id: string
-        text: string
-        color: string
-        chapter: string | null
-        cfi_range: string
-        created_at: string
-      }>
-
-      const notes = db
-        .prepare(
-          `SELECT n.*, h.text as highlight_text, h.cfi_range as highlight_cfi
-           FROM notes n
-           LEFT JOIN highlights h ON n.highlight_id = h.id
-           WHERE n.book_id = ?
-           ORDER BY n.created_at ASC`
-        )
-        .all(bookId) as Array<{
-        id: string
-        content: string
-        tags: string
-        highlight_text: string | null
-        highlight_cfi: string | null
-        highlight_id: string | null
-        created_at: string
-      }>
-
-      // Build markdown
-      let md = `# ${book.title}\n`
-      if (book.author) md += `*by ${book.author}*\n`
-      md += `\n---\n\n`
-
-      // Group highlights by chapter
-      const chapterMap = new Map<string, typeof highlights>()
-      for (const h of highlights) {
-        const chapter = h.chapter || 'Uncategorized'
-        if (!chapterMap.has(chapter)) chapterMap.set(chapter, [])
-        chapterMap.get(chapter)!.push(h)
-      }
-
-      if (chapterMap.size > 0) {
-        md += `## Highlights\n\n`
-        for (const [chapter, chapterHighlights] of chapterMap) {
-          md += `### ${chapter}\n\n`
-          for (const h of chapterHighlights) {
-            md += `> ${h.text}\n\n`
-            // Find associated notes
-            const relatedNotes = notes.filter((n) => n.highlight_id === h.id)
-            for (const n of relatedNotes) {
-              md += `**Note:** ${n.content}\n\n`
-              const tags: string[] = JSON.parse(n.tags || '[]')
-              if (tags.length > 0) {
-                md += `Tags: ${tags.map((t) => `\`${t}\``).join(', ')}\n\n`
-              }
-            }
-          }
-        }
-      }
-
-      // Standalone notes (not linked to highlights)
-      const standaloneNotes = notes.filter((n) => !n.highlight_id)
-      if (standaloneNotes.length > 0) {
-        md += `## Notes\n\n`
-        for (const n of standaloneNotes) {
-          md += `- ${n.content}\n`
-          const tags: string[] = JSON.parse(n.tags || '[]')
-          if (tags.length > 0) {
-            md += `  Tags: ${tags.map((t) => `\`${t}\``).join(', ')}\n`
-          }
-          md += `\n`
-        }
-      }
-
-      md += `---\n*Exported from FlareRead on ${new Date().toLocaleDateString()}*\n`
-
-      const safeTitle = book.title.replace(/[<>:"/\\|?*]/g, '_')
-      const result = await dialog.showSaveDialog(mainWindow, {
-        defaultPath: `${safeTitle} - Notes & Highlights.md`,
-        filters: [{ name: 'Markdown', extensions: ['md'] }]
-      })
-
-      if (result.canceled || !result.filePath) return { success: false, error: 'Cancelled' }
-
-      try {
-        writeFileSync(result.filePath, md, 'utf-8')
-        return { success: true, filePath: result.filePath }
-      } catch (err) {
-        return { success: false, error: String(err) }
-      }
-    }
-  )
-
   // ─── Fullscreen Handler ──────────────────────────────
   ipcMain.handle('window:toggleFullscreen', () => {
     const mainWindow = BrowserWindow.getFocusedWindow()
@@ -407,6 +338,14 @@ app.whenReady().then(() => {
   const mainWindow = createWindow()
   buildMenu(mainWindow)
 
+  // Index books imported before full-text search existed, and count their
+  // chapter words if they predate time-left estimates
+  indexMissingBooksInBackground()
+  countMissingChaptersInBackground()
+  getSyncManager().start()
+  getFolderWatcher().start()
+  getTrackPaceMonitor().start()
+
   // ─── Intercept window close for focus mode confirmation ──
   let forceClose = false
   mainWindow.on('close', (e) => {
@@ -442,7 +381,11 @@ app.on('window-all-closed', () => {
 
 app.on('will-quit', () => {
   getTtsService().destroy()
+  getAudiobookRenderer().destroy()
   getFocusWallManager().destroy()
   getSessionManager().destroy()
+  getSyncManager().destroy()
+  getFolderWatcher().destroy()
+  getTrackPaceMonitor().destroy()
   closeDatabase()
 })
@@ -0,0 +1,93 @@
+import { safeStorage } from 'electron'
+import { randomUUID } from 'crypto'
+import { readSetting, writeSetting } from '../database/settings'
+import { OpdsCatalog, OpdsError } from './types'
+
+const CATALOGS_KEY = 'opdsCatalogs'
+/** Encrypted passwords by catalog id; never exported in backups */
+export const OPDS_CREDENTIALS_KEY = 'opdsCredentials'
+
+type StoredCatalog = Omit<OpdsCatalog, 'hasPassword'>
+
+export function getCatalogs(): OpdsCatalog[] {
+  const passwords = readSetting<Record<string, string>>(OPDS_CREDENTIALS_KEY, {})
+  return readSetting<StoredCatalog[]>(CATALOGS_KEY, []).map((c) => ({ ...c, hasPassword: c.id in passwords }))
+}
+
+export function getCatalog(id: string): OpdsCatalog {
+  const catalog = getCatalogs().find((c) => c.id === id)
+  if (!catalog) throw new OpdsError('Catalog not found')
+  return catalog
+}
+
+/**
+ * Add or update a catalog. `password` undefined keeps the stored one,
+ * null or '' clears it.
+ */
+export function saveCatalog(data: {
+  id?: string
+  title: string
+  url: string
+  username?: string | null
+  password?: string | null
+}): OpdsCatalog {
+  let url: URL
+  try {
+    url = new URL(data.url.trim())
+  } catch {
+    throw new OpdsError('Enter a full catalog address, e.g. http://localhost:8080/opds')
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new OpdsError('Catalogs must use http or https')
+  }
+
+  const catalogs = readSetting<StoredCatalog[]>(CATALOGS_KEY, [])
+  const id = data.id ?? randomUUID()
+  const entry: StoredCatalog = {
+    id,
+    title: data.title.trim() || url.host,
+    url: url.toString(),
+    username: data.username?.trim() || null
+  }
+  const index = catalogs.findIndex((c) => c.id === id)
+  if (index >= 0) catalogs[index] = entry
+  else catalogs.push(entry)
+  writeSetting(CATALOGS_KEY, catalogs)
+
+  if (data.password !== undefined) {
+    const passwords = readSetting<Record<string, string>>(OPDS_CREDENTIALS_KEY, {})
+    if (data.password && safeStorage.isEncryptionAvailable()) {
+      passwords[id] = safeStorage.encryptString(data.password).toString('base64')
+    } else {
+      delete passwords[id]
+    }
+    writeSetting(OPDS_CREDENTIALS_KEY, passwords)
+  }
+
+  return getCatalog(id)
+}
+
+export function deleteCatalog(id: string): void {
+  writeSetting(
+    CATALOGS_KEY,
+    readSetting<StoredCatalog[]>(CATALOGS_KEY, []).filter((c) => c.id !== id)
+  )
+  const passwords = readSetting<Record<string, string>>(OPDS_CREDENTIALS_KEY, {})
+  delete passwords[id]
+  writeSetting(OPDS_CREDENTIALS_KEY, passwords)
+}
+
+/** Username and decrypted password for a catalog, when it has a username */
+export function getCredentials(catalog: OpdsCatalog): { username: string; password: string } | null {
+  if (!catalog.username) return null
+  const stored = readSetting<Record<string, string>>(OPDS_CREDENTIALS_KEY, {})[catalog.id]
+  let password = ''
+  if (stored && safeStorage.isEncryptionAvailable()) {
+    try {
+      password = safeStorage.decryptString(Buffer.from(stored, 'base64'))
+    } catch {
+      // Encrypted on another machine (or keychain reset); try without it
+    }
+  }
+  return { username: catalog.username, password }
+}
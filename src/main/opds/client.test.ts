@@ -0,0 +1,319 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { createHash } from 'crypto'
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'fs'
+import { createServer, IncomingHttpHeaders, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import { basename, join } from 'path'
+import type { OpdsCatalog } from './types'
+
+const fixture = vi.hoisted(() => ({
+  temp: '',
+  catalogs: new Map<string, { catalog: OpdsCatalog; password: string }>()
+}))
+
+vi.mock('electron', () => ({ app: { getPath: () => fixture.temp } }))
+vi.mock('./catalogs', () => ({
+  getCatalog: (id: string) => fixture.catalogs.get(id)!.catalog,
+  getCredentials: (catalog: OpdsCatalog) =>
+    catalog.username ? { username: catalog.username, password: fixture.catalogs.get(catalog.id)!.password } : null
+}))
+
+const { downloadPublication, downloadSource, fetchCover, fetchFeed } = await import('./client')
+
+// ─── Fixture servers ────────────────────────────────
+
+const USERNAME = 'reader'
+const PASSWORD = 'secret'
+const REALM = 'calibre'
+const NONCE = 'dcd98b7102dd2f0e8b11d0f600bfb0c093'
+const EPUB_BYTES = Buffer.from('PK\x03\x04mimetypeapplication/epub+zip', 'latin1')
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47])
+
+const md5 = (value: string): string => createHash('md5').update(value).digest('hex')
+
+function digestParams(header: string): Record<string, string> {
+  const params: Record<string, string> = {}
+  for (const m of header.matchAll(/(\w+)=(?:"([^"]*)"|([^\s,]+))/g)) params[m[1]] = m[2] ?? m[3]
+  return params
+}
+
+function validDigest(header: string | undefined, method: string): boolean {
+  if (!header?.startsWith('Digest ')) return false
+  const p = digestParams(header)
+  const ha1 = md5(`${p.username}:${REALM}:${PASSWORD}`)
+  const ha2 = md5(`${method}:${p.uri}`)
+  return p.username === USERNAME && p.response === md5(`${ha1}:${NONCE}:${p.nc}:${p.cnonce}:${p.qop}:${ha2}`)
+}
+
+const BASIC = `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString('base64')}`
+
+let catalogServer: Server
+let foreignServer: Server
+let base: string
+let foreign: string
+/** Headers of every request each server saw, by path */
+const seen = { catalog: [] as [string, IncomingHttpHeaders][], foreign: [] as [string, IncomingHttpHeaders][] }
+
+function atomFeed(): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:opds="http://opds-spec.org/2010/catalog">
+  <id>urn:fixture:root</id>
+  <title>Fixture Library</title>
+  <link rel="next" href="/opds/page2" type="application/atom+xml;profile=opds-catalog;kind=acquisition"/>
+  <link rel="search" href="opensearch.xml" type="application/opensearchdescription+xml"/>
+  <entry>
+    <id>urn:fixture:new</id>
+    <title>New arrivals</title>
+    <link rel="subsection" href="/opds/new" type="application/atom+xml;profile=opds-catalog;kind=acquisition"/>
+  </entry>
+  <entry>
+    <id>urn:isbn:9780441013593</id>
+    <title>Dune</title>
+    <author><name>Frank Herbert</name></author>
+    <summary type="html">&lt;p&gt;A desert &lt;b&gt;planet&lt;/b&gt;.&lt;/p&gt;</summary>
+    <dc:language xmlns:dc="http://purl.org/dc/terms/">en</dc:language>
+    <link rel="http://opds-spec.org/image/thumbnail" href="${foreign}/covers/dune.png" type="image/png"/>
+    <link rel="http://opds-spec.org/acquisition/open-access" href="/books/dune.epub" type="application/epub+zip"/>
+    <link rel="http://opds-spec.org/acquisition/buy" href="/shop/dune" type="text/html"/>
+  </entry>
+</feed>`
+}
+
+const OPEN_SEARCH = `<?xml version="1.0" encoding="UTF-8"?>
+<OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/">
+  <Url type="application/atom+xml" template="/opds/search?q={searchTerms}&amp;page={startPage?}"/>
+</OpenSearchDescription>`
+
+const OPDS2_FEED = JSON.stringify({
+  metadata: { title: 'Fixture Library 2' },
+  links: [
+    { rel: 'self', href: '/v2/root', type: 'application/opds+json' },
+    { rel: 'search', href: '/v2/search{?query}', type: 'application/opds+json', templated: true },
+    { rel: 'next', href: '/v2/root?page=2', type: 'application/opds+json' }
+  ],
+  navigation: [{ href: '/v2/popular', title: 'Popular', type: 'application/opds+json' }],
+  groups: [
+    {
+      metadata: { title: 'Featured' },
+      publications: [
+        {
+          metadata: {
+            title: 'Moby-Dick',
+            identifier: 'urn:isbn:9780142437247',
+            author: [{ name: 'Herman Melville' }],
+            language: ['en', 'fr']
+          },
+          links: [
+            { rel: 'http://opds-spec.org/acquisition', href: '/books/moby.pdf', type: 'application/pdf' },
+            { rel: 'http://opds-spec.org/acquisition/borrow', href: '/loan/moby', type: 'application/epub+zip' }
+          ],
+          images: [{ href: '/covers/moby.jpg', type: 'image/jpeg' }]
+        }
+      ]
+    }
+  ]
+})
+
+function handleCatalog(req: IncomingMessage, res: ServerResponse): void {
+  const path = req.url ?? '/'
+  seen.catalog.push([path, req.headers])
+  const send = (status: number, type: string, body: string | Buffer, headers: Record<string, string> = {}): void => {
+    res.writeHead(status, { 'Content-Type': type, ...headers })
+    res.end(body)
+  }
+
+  if (path.startsWith('/basic/') && req.headers.authorization !== BASIC) {
+    return send(401, 'text/plain', 'login', { 'WWW-Authenticate': `Basic realm="${REALM}"` })
+  }
+  if (path.startsWith('/digest/') && !validDigest(req.headers.authorization, 'GET')) {
+    return send(401, 'text/plain', 'login', {
+      'WWW-Authenticate': `Digest realm="${REALM}", nonce="${NONCE}", qop="auth", algorithm=MD5`
+    })
+  }
+
+  const route = path.replace(/^\/(basic|digest)/, '')
+  if (route === '/opds') return send(200, 'application/atom+xml;profile=opds-catalog', atomFeed())
+  if (route === '/opensearch.xml') return send(200, 'application/opensearchdescription+xml', OPEN_SEARCH)
+  if (route === '/v2/root') return send(200, 'application/opds+json', OPDS2_FEED)
+  if (route === '/covers/local.png') return send(200, 'image/png', PNG_BYTES)
+  if (route === '/books/dune.epub') return send(200, 'application/epub+zip', EPUB_BYTES)
+  if (route === '/books/login.epub') return send(200, 'text/html', '<html><body>Sign in</body></html>')
+  if (route === '/books/broken.epub') return send(200, 'application/epub+zip', 'not a zip at all')
+  if (route === '/redirect-away') {
+    res.writeHead(302, { Location: `${foreign}/protected` })
+    return void res.end()
+  }
+  send(404, 'text/plain', 'not found')
+}
+
+function handleForeign(req: IncomingMessage, res: ServerResponse): void {
+  seen.foreign.push([req.url ?? '/', req.headers])
+  if (req.url === '/covers/dune.png') {
+    res.writeHead(200, { 'Content-Type': 'image/png' })
+    return void res.end(PNG_BYTES)
+  }
+  // Any password offered here would be leaked to a third party
+  res.writeHead(401, { 'WWW-Authenticate': `Basic realm="${REALM}"` })
+  res.end()
+}
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`))
+  )
+}
+
+function addCatalog(id: string, url: string, withLogin = true): void {
+  fixture.catalogs.set(id, {
+    catalog: { id, title: id, url, username: withLogin ? USERNAME : null, hasPassword: withLogin },
+    password: PASSWORD
+  })
+}
+
+beforeAll(async () => {
+  fixture.temp = mkdtempSync(join(tmpdir(), 'flareread-opds-test-'))
+  catalogServer = createServer(handleCatalog)
+  foreignServer = createServer(handleForeign)
+  base = await listen(catalogServer)
+  foreign = await listen(foreignServer)
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => catalogServer.close(resolve))
+  await new Promise((resolve) => foreignServer.close(resolve))
+  rmSync(fixture.temp, { recursive: true, force: true })
+})
+
+afterEach(() => {
+  seen.catalog.length = 0
+  seen.foreign.length = 0
+})
+
+// ─── Tests ──────────────────────────────────────────
+
+describe('fetchFeed', () => {
+  it('parses an OPDS 1.2 Atom feed and resolves its OpenSearch template', async () => {
+    addCatalog('atom', `${base}/opds`, false)
+    const feed = await fetchFeed('atom')
+
+    expect(feed.title).toBe('Fixture Library')
+    expect(feed.next).toBe(`${base}/opds/page2`)
+    expect(feed.searchTemplate).toBe(`${base}/opds/search?q={searchTerms}&page=`)
+    expect(feed.navigation).toMatchObject([{ title: 'New arrivals', href: `${base}/opds/new` }])
+    expect(feed.publications).toHaveLength(1)
+    expect(feed.publications[0]).toMatchObject({
+      id: 'urn:isbn:9780441013593',
+      title: 'Dune',
+      author: 'Frank Herbert',
+      summary: 'A desert planet .',
+      language: 'en',
+      coverUrl: `${foreign}/covers/dune.png`,
+      acquisitions: [
+        { href: `${base}/books/dune.epub`, format: 'epub', kind: 'open' },
+        { href: `${base}/shop/dune`, format: null, kind: 'buy' }
+      ]
+    })
+  })
+
+  it('parses an OPDS 2.0 JSON feed with groups and a templated search', async () => {
+    addCatalog('json', `${base}/v2/root`, false)
+    const feed = await fetchFeed('json')
+
+    expect(feed.title).toBe('Fixture Library 2')
+    expect(feed.next).toBe(`${base}/v2/root?page=2`)
+    expect(feed.searchTemplate).toBe(`${base}/v2/search?query={searchTerms}`)
+    expect(feed.navigation).toMatchObject([{ title: 'Popular', href: `${base}/v2/popular` }])
+    expect(feed.publications[0]).toMatchObject({
+      title: 'Moby-Dick',
+      author: 'Herman Melville',
+      language: 'en',
+      coverUrl: `${base}/covers/moby.jpg`,
+      acquisitions: [
+        { href: `${base}/books/moby.pdf`, format: 'pdf', kind: 'open' },
+        { href: `${base}/loan/moby`, format: 'epub', kind: 'borrow' }
+      ]
+    })
+  })
+
+  it('reports a missing login without credentials', async () => {
+    addCatalog('anonymous', `${base}/basic/opds`, false)
+    await expect(fetchFeed('anonymous')).rejects.toMatchObject({
+      message: 'This catalog needs a username and password',
+      status: 401
+    })
+  })
+})
+
+describe('authentication', () => {
+  it('answers a Basic challenge and sends Basic up front afterwards', async () => {
+    addCatalog('basic', `${base}/basic/opds`)
+    await fetchFeed('basic')
+    expect(seen.catalog.map(([path, h]) => [path, h.authorization ?? null])).toEqual([
+      ['/basic/opds', null],
+      ['/basic/opds', BASIC],
+      ['/basic/opensearch.xml', BASIC]
+    ])
+  })
+
+  it('answers a Digest challenge without ever sending the password', async () => {
+    addCatalog('digest', `${base}/digest/opds`)
+    const feed = await fetchFeed('digest')
+    expect(feed.title).toBe('Fixture Library')
+    const sent = seen.catalog.map(([, h]) => h.authorization ?? '')
+    expect(sent.some((h) => h.startsWith('Basic') || h.includes(PASSWORD))).toBe(false)
+    expect(sent.filter((h) => h.startsWith('Digest'))).toHaveLength(2)
+  })
+
+  it('keeps credentials from hosts other than the catalog', async () => {
+    addCatalog('scoped', `${base}/basic/opds`)
+    await fetchFeed('scoped')
+    // Basic is now sent up front, but only to the catalog's own origin
+    expect(await fetchCover('scoped', `${base}/basic/covers/local.png`)).toMatch(/^data:image\/png;base64,/)
+    expect(await fetchCover('scoped', `${foreign}/covers/dune.png`)).toMatch(/^data:image\/png;base64,/)
+    await expect(fetchFeed('scoped', `${foreign}/private/feed`)).rejects.toMatchObject({ status: 401 })
+
+    expect(seen.catalog.at(-1)?.[1].authorization).toBe(BASIC)
+    expect(seen.foreign.map(([path]) => path)).toEqual(['/covers/dune.png', '/private/feed'])
+    expect(seen.foreign.every(([, h]) => h.authorization === undefined)).toBe(true)
+  })
+
+  it('does not answer a challenge from a host a redirect led to', async () => {
+    addCatalog('redirected', `${base}/opds`)
+    await expect(fetchFeed('redirected', `${base}/redirect-away`)).rejects.toMatchObject({ status: 401 })
+    expect(seen.foreign).toHaveLength(1)
+    expect(seen.foreign[0][1].authorization).toBeUndefined()
+  })
+})
+
+describe('downloadPublication', () => {
+  it('saves each download under its own name and remembers where it came from', async () => {
+    addCatalog('downloads', `${base}/opds`, false)
+    const href = `${base}/books/dune.epub`
+    const first = await downloadPublication('downloads', href, 'epub')
+    const second = await downloadPublication('downloads', href, 'epub')
+
+    expect(first).not.toBe(second)
+    expect(existsSync(first) && existsSync(second)).toBe(true)
+    expect(basename(first)).toMatch(/^[0-9a-f-]{36}\.epub$/)
+    expect(downloadSource(first)).toBe(href)
+    expect(downloadSource(join(fixture.temp, 'elsewhere.epub'))).toBeNull()
+  })
+
+  it('rejects a web page served in place of the book', async () => {
+    addCatalog('login-page', `${base}/opds`, false)
+    await expect(downloadPublication('login-page', `${base}/books/login.epub`, 'epub')).rejects.toThrow(
+      /sent a web page instead of the book/
+    )
+  })
+
+  it('rejects and removes a file that is not the promised format', async () => {
+    addCatalog('broken', `${base}/opds`, false)
+    const dir = join(fixture.temp, 'flareread-opds')
+    const before = existsSync(dir) ? readdirSync(dir).length : 0
+    await expect(downloadPublication('broken', `${base}/books/broken.epub`, 'epub')).rejects.toThrow(
+      'The downloaded file is not a valid EPUB'
+    )
+    expect(readdirSync(dir)).toHaveLength(before)
+  })
+})
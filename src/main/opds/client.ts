@@ -0,0 +1,250 @@
+import { app } from 'electron'
+import { createHash, randomBytes, randomUUID } from 'crypto'
+import { createWriteStream, existsSync, mkdirSync, readdirSync, statSync, unlinkSync, openSync, readSync, closeSync } from 'fs'
+import { join } from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { BookFormat } from '../import/types'
+import { getCatalog, getCredentials } from './catalogs'
+import { parseFeed, parseOpenSearch } from './parser'
+import { OpdsCatalog, OpdsError, OpdsFeed } from './types'
+
+const FEED_TIMEOUT_MS = 30_000
+const DOWNLOAD_TIMEOUT_MS = 10 * 60_000
+const MAX_COVER_BYTES = 2 * 1024 * 1024
+const MAX_CACHED_COVERS = 300
+/** Downloads wait here for the import dialog; anything older is left over */
+const STALE_DOWNLOAD_MS = 24 * 60 * 60_000
+
+const FEED_ACCEPT =
+  'application/opds+json, application/atom+xml;profile=opds-catalog, application/atom+xml;q=0.9, application/xml;q=0.8, */*;q=0.5'
+
+const openSearchTemplates = new Map<string, string | null>()
+const coverCache = new Map<string, string>()
+const basicAuthCatalogs = new Set<string>()
+/** Temp download path → acquisition URL, so an import can record where the book came from */
+const downloadSources = new Map<string, string>()
+
+// ─── HTTP ───────────────────────────────────────────
+
+function md5(value: string): string {
+  return createHash('md5').update(value).digest('hex')
+}
+
+/** RFC 7616 Digest response; Calibre's content server uses it over plain http */
+function digestHeader(
+  challenge: string,
+  method: string,
+  url: string,
+  credentials: { username: string; password: string }
+): string {
+  const params: Record<string, string> = {}
+  for (const m of challenge.matchAll(/(\w+)=(?:"([^"]*)"|([^\s,]+))/g)) {
+    params[m[1].toLowerCase()] = m[2] ?? m[3]
+  }
+  const { pathname, search } = new URL(url)
+  const uri = pathname + search
+  const ha1 = md5(`${credentials.username}:${params.realm}:${credentials.password}`)
+  const ha2 = md5(`${method}:${uri}`)
+  const qop = params.qop?.split(',').map((q) => q.trim()).includes('auth') ? 'auth' : null
+  const nc = '00000001'
+  const cnonce = randomBytes(8).toString('hex')
+  const response = qop
+    ? md5(`${ha1}:${params.nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+    : md5(`${ha1}:${params.nonce}:${ha2}`)
+
+  const parts = [
+    `username="${credentials.username}"`,
+    `realm="${params.realm}"`,
+    `nonce="${params.nonce}"`,
+    `uri="${uri}"`,
+    `response="${response}"`
+  ]
+  if (qop) parts.push(`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`)
+  if (params.opaque) parts.push(`opaque="${params.opaque}"`)
+  if (params.algorithm) parts.push(`algorithm=${params.algorithm}`)
+  return `Digest ${parts.join(', ')}`
+}
+
+function basicHeader(credentials: { username: string; password: string }): string {
+  return `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`
+}
+
+function sameOrigin(url: string, catalog: OpdsCatalog): boolean {
+  try {
+    return new URL(url).origin === new URL(catalog.url).origin
+  } catch {
+    return false
+  }
+}
+
+/**
+ * GET with the catalog's credentials. They are only sent once the server
+ * asks, so a password never travels in the clear to a Digest server; catalogs
+ * that asked for Basic get it up front from then on. Feeds link covers and
+ * books on other hosts, which never see the credentials.
+ */
+async function request(catalog: OpdsCatalog, url: string, accept: string, timeoutMs: number): Promise<Response> {
+  const credentials = sameOrigin(url, catalog) ? getCredentials(catalog) : null
+  const headers: Record<string, string> = { Accept: accept }
+  if (credentials && basicAuthCatalogs.has(catalog.id)) headers.Authorization = basicHeader(credentials)
+
+  let response: Response
+  try {
+    response = await fetch(url, { headers, redirect: 'follow', signal: AbortSignal.timeout(timeoutMs) })
+    const challenge = response.headers.get('www-authenticate') ?? ''
+    // A redirect may have left the catalog's host; only the catalog gets an answer
+    const challenger = response.url || url
+    if (response.status === 401 && credentials && !headers.Authorization && sameOrigin(challenger, catalog)) {
+      if (challenge.toLowerCase().startsWith('digest')) {
+        headers.Authorization = digestHeader(challenge, 'GET', challenger, credentials)
+      } else {
+        headers.Authorization = basicHeader(credentials)
+        basicAuthCatalogs.add(catalog.id)
+      }
+      response = await fetch(url, { headers, redirect: 'follow', signal: AbortSignal.timeout(timeoutMs) })
+    }
+  } catch (err) {
+    const reason = err instanceof Error && err.name === 'TimeoutError' ? 'timed out' : 'could not be reached'
+    throw new OpdsError(`${new URL(url).host} ${reason}`)
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    throw new OpdsError(
+      credentials ? 'The catalog rejected the username or password' : 'This catalog needs a username and password',
+      response.status
+    )
+  }
+  if (!response.ok) throw new OpdsError(`The catalog returned HTTP ${response.status}`, response.status)
+  return response
+}
+
+// ─── Feeds ──────────────────────────────────────────
+
+async function resolveOpenSearch(catalog: OpdsCatalog, url: string): Promise<string | null> {
+  if (!openSearchTemplates.has(url)) {
+    let template: string | null = null
+    try {
+      const response = await request(catalog, url, 'application/opensearchdescription+xml, */*', FEED_TIMEOUT_MS)
+      template = parseOpenSearch(await response.text(), response.url || url)
+    } catch {
+      // Browsing still works without search
+    }
+    openSearchTemplates.set(url, template)
+  }
+  return openSearchTemplates.get(url) ?? null
+}
+
+/** Load a feed page; the catalog's root when no URL is given */
+export async function fetchFeed(catalogId: string, url?: string): Promise<OpdsFeed> {
+  const catalog = getCatalog(catalogId)
+  const target = url ?? catalog.url
+  const response = await request(catalog, target, FEED_ACCEPT, FEED_TIMEOUT_MS)
+  const { feed, openSearchUrl } = parseFeed(
+    await response.text(),
+    response.headers.get('content-type') ?? '',
+    response.url || target
+  )
+  if (!feed.searchTemplate && openSearchUrl) {
+    feed.searchTemplate = await resolveOpenSearch(catalog, openSearchUrl)
+  }
+  return feed
+}
+
+export function searchCatalog(catalogId: string, template: string, query: string): Promise<OpdsFeed> {
+  return fetchFeed(catalogId, template.split('{searchTerms}').join(encodeURIComponent(query.trim())))
+}
+
+/**
+ * Covers go through the main process so catalogs behind a login still show
+ * them. Returned as data URLs and kept for the session.
+ */
+export async function fetchCover(catalogId: string, url: string): Promise<string | null> {
+  const cached = coverCache.get(url)
+  if (cached) return cached
+  try {
+    const response = await request(getCatalog(catalogId), url, 'image/*', FEED_TIMEOUT_MS)
+    const type = response.headers.get('content-type') ?? 'image/jpeg'
+    if (!type.startsWith('image/')) return null
+    const data = Buffer.from(await response.arrayBuffer())
+    if (data.length > MAX_COVER_BYTES) return null
+    const dataUrl = `data:${type};base64,${data.toString('base64')}`
+    if (coverCache.size >= MAX_CACHED_COVERS) coverCache.delete(coverCache.keys().next().value as string)
+    coverCache.set(url, dataUrl)
+    return dataUrl
+  } catch {
+    return null
+  }
+}
+
+// ─── Downloads ──────────────────────────────────────
+
+function getDownloadsDir(): string {
+  const dir = join(app.getPath('temp'), 'flareread-opds')
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true })
+  return dir
+}
+
+function pruneDownloads(dir: string): void {
+  for (const name of readdirSync(dir)) {
+    const path = join(dir, name)
+    try {
+      if (Date.now() - statSync(path).mtimeMs > STALE_DOWNLOAD_MS) unlinkSync(path)
+    } catch {
+      // In use or already gone
+    }
+  }
+}
+
+function hasSignature(path: string, format: BookFormat): boolean {
+  const fd = openSync(path, 'r')
+  try {
+    const head = Buffer.alloc(4)
+    readSync(fd, head, 0, 4, 0)
+    return format === 'pdf' ? head.toString('latin1') === '%PDF' : head[0] === 0x50 && head[1] === 0x4b
+  } finally {
+    closeSync(fd)
+  }
+}
+
+/**
+ * Download a publication to a temp file, ready for the regular parse →
+ * categorize → import flow. Returns the file path.
+ */
+export async function downloadPublication(
+  catalogId: string,
+  href: string,
+  format: BookFormat
+): Promise<string> {
+  const catalog = getCatalog(catalogId)
+  const dir = getDownloadsDir()
+  pruneDownloads(dir)
+
+  const accept = format === 'pdf' ? 'application/pdf' : 'application/epub+zip'
+  const response = await request(catalog, href, `${accept}, */*;q=0.5`, DOWNLOAD_TIMEOUT_MS)
+  if ((response.headers.get('content-type') ?? '').startsWith('text/html')) {
+    throw new OpdsError('The catalog sent a web page instead of the book; it may need you to sign in on its website')
+  }
+  if (!response.body) throw new OpdsError('The catalog sent an empty file')
+
+  // Titles repeat across books, so each download gets its own file
+  const destPath = join(dir, `${randomUUID()}.${format}`)
+  try {
+    await pipeline(Readable.fromWeb(response.body as import('stream/web').ReadableStream), createWriteStream(destPath))
+  } catch (err) {
+    if (existsSync(destPath)) unlinkSync(destPath)
+    throw new OpdsError(`Download failed: ${err instanceof Error ? err.message : String(err)}`)
+  }
+
+  if (!hasSignature(destPath, format)) {
+    unlinkSync(destPath)
+    throw new OpdsError(`The downloaded file is not a valid ${format.toUpperCase()}`)
+  }
+  downloadSources.set(destPath, response.url || href)
+  return destPath
+}
+
+/** Acquisition URL a downloaded temp file came from; null for any other file */
+export function downloadSource(path: string): string | null {
+  return downloadSources.get(path) ?? null
+}
@@ -0,0 +1,64 @@
+import { ipcMain } from 'electron'
+import type { BookFormat } from '../import/types'
+import { deleteCatalog, getCatalogs, saveCatalog } from './catalogs'
+import { downloadPublication, fetchCover, fetchFeed, searchCatalog } from './client'
+
+function failure(err: unknown): { success: false; error: string } {
+  return { success: false, error: err instanceof Error ? err.message : String(err) }
+}
+
+export function registerOpdsHandlers(): void {
+  // ─── Catalogs ────────────────────────────────────────
+  ipcMain.handle('opds:catalogs:getAll', () => getCatalogs())
+
+  ipcMain.handle(
+    'opds:catalogs:save',
+    (
+      _e,
+      data: { id?: string; title: string; url: string; username?: string | null; password?: string | null }
+    ) => {
+      try {
+        return { success: true, catalog: saveCatalog(data) }
+      } catch (err) {
+        return failure(err)
+      }
+    }
+  )
+
+  ipcMain.handle('opds:catalogs:delete', (_e, id: string) => {
+    deleteCatalog(id)
+    return { success: true }
+  })
+
+  // ─── Browsing ────────────────────────────────────────
+  ipcMain.handle('opds:feed', async (_e, catalogId: string, url?: string) => {
+    try {
+      return { success: true, feed: await fetchFeed(catalogId, url) }
+    } catch (err) {
+      return failure(err)
+    }
+  })
+
+  ipcMain.handle('opds:search', async (_e, catalogId: string, template: string, query: string) => {
+    try {
+      return { success: true, feed: await searchCatalog(catalogId, template, query) }
+    } catch (err) {
+      return failure(err)
+    }
+  })
+
+  ipcMain.handle('opds:cover', (_e, catalogId: string, url: string) => fetchCover(catalogId, url))
+
+  // Download only; the renderer hands the file to the regular import flow
+  ipcMain.handle(
+    'opds:download',
+    async (_e, catalogId: string, href: string, format: BookFormat) => {
+      try {
+        return { success: true, filePath: await downloadPublication(catalogId, href, format) }
+      } catch (err) {
+        console.error('OPDS download failed:', err)
+        return failure(err)
+      }
+    }
+  )
+}
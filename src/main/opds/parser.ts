@@ -0,0 +1,299 @@
+import type { BookFormat } from '../import/types'
+import { OpdsAcquisition, OpdsEntry, OpdsError, OpdsFeed } from './types'
+import { XmlElement, childNamed, childrenNamed, decodeEntities, parseXml, textContent } from './xml'
+
+const ACQUISITION_REL = 'http://opds-spec.org/acquisition'
+
+const FORMATS: Record<string, BookFormat> = {
+  'application/epub+zip': 'epub',
+  'application/pdf': 'pdf'
+}
+
+export interface ParsedFeed {
+  feed: OpdsFeed
+  /** OPDS 1 catalogs point at an OpenSearch description instead of a template */
+  openSearchUrl: string | null
+}
+
+function resolve(href: string | undefined | null, base: string): string | null {
+  if (!href) return null
+  try {
+    return new URL(href, base).toString()
+  } catch {
+    return null
+  }
+}
+
+/** Resolve a search template without escaping its {searchTerms} placeholder */
+function resolveTemplate(template: string, base: string): string | null {
+  const [head, ...rest] = template.split('{searchTerms}')
+  if (rest.length === 0) return null
+  const resolved = resolve(head, base)
+  return resolved ? resolved + '{searchTerms}' + rest.join('{searchTerms}') : null
+}
+
+function formatOf(type: string): BookFormat | null {
+  return FORMATS[type.split(';')[0].trim().toLowerCase()] ?? null
+}
+
+function acquisitionKind(rel: string): OpdsAcquisition['kind'] {
+  if (rel.endsWith('/buy')) return 'buy'
+  if (rel.endsWith('/borrow')) return 'borrow'
+  if (rel.endsWith('/sample') || rel.endsWith('/preview')) return 'sample'
+  return 'open'
+}
+
+function isCatalogType(type: string | undefined): boolean {
+  return !!type && (type.includes('profile=opds-catalog') || type.startsWith('application/atom+xml') || type.startsWith('application/opds+json'))
+}
+
+/** Summaries come as plain text, escaped HTML or inline XHTML; show them as text */
+function plainText(value: string): string | null {
+  const text = decodeEntities(value.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim()
+  return text || null
+}
+
+// ─── OPDS 1.x (Atom) ────────────────────────────────
+
+function parseAtomEntry(entry: XmlElement, base: string): OpdsEntry {
+  const acquisitions: OpdsAcquisition[] = []
+  let cover: string | null = null
+  let thumbnail: string | null = null
+  let href: string | null = null
+
+  for (const link of childrenNamed(entry, 'link')) {
+    const rel = link.attrs.rel ?? ''
+    const type = link.attrs.type ?? ''
+    const url = resolve(link.attrs.href, base)
+    if (!url) continue
+
+    if (rel.startsWith(ACQUISITION_REL)) {
+      acquisitions.push({ href: url, type, format: formatOf(type), kind: acquisitionKind(rel) })
+    } else if (rel === 'http://opds-spec.org/image/thumbnail' || rel === 'x-stanza-cover-image-thumbnail') {
+      thumbnail = url
+    } else if (rel === 'http://opds-spec.org/image' || rel === 'x-stanza-cover-image') {
+      cover = url
+    } else if (isCatalogType(type) && rel !== 'alternate' && !href) {
+      href = url
+    }
+  }
+
+  const authors = childrenNamed(entry, 'author')
+    .map((a) => textContent(childNamed(a, 'name') ?? a).trim())
+    .filter(Boolean)
+  const summary = childNamed(entry, 'summary') ?? childNamed(entry, 'content')
+  const published = childNamed(entry, 'issued') ?? childNamed(entry, 'published')
+
+  return {
+    id: textContent(childNamed(entry, 'id') ?? entry).trim() || href || acquisitions[0]?.href || '',
+    title: textContent(childNamed(entry, 'title') ?? entry).trim() || 'Untitled',
+    author: authors.length > 0 ? authors.join(', ') : null,
+    summary: summary ? plainText(textContent(summary)) : null,
+    language: childNamed(entry, 'language')?.text.trim() || null,
+    published: published?.text.trim() || null,
+    coverUrl: thumbnail ?? cover,
+    href: acquisitions.length > 0 ? null : href,
+    acquisitions
+  }
+}
+
+function parseAtomFeed(root: XmlElement, base: string): ParsedFeed {
+  const feed: OpdsFeed = {
+    url: base,
+    title: textContent(childNamed(root, 'title') ?? root).trim() || 'Catalog',
+    navigation: [],
+    publications: [],
+    next: null,
+    previous: null,
+    start: null,
+    searchTemplate: null
+  }
+  let openSearchUrl: string | null = null
+
+  for (const link of childrenNamed(root, 'link')) {
+    const rel = link.attrs.rel ?? ''
+    const url = resolve(link.attrs.href, base)
+    if (!url) continue
+    if (rel === 'next') feed.next = url
+    else if (rel === 'previous' || rel === 'prev') feed.previous = url
+    else if (rel === 'start') feed.start = url
+    else if (rel === 'search') {
+      if (link.attrs.href?.includes('{searchTerms}')) {
+        feed.searchTemplate = resolveTemplate(link.attrs.href, base)
+      } else if ((link.attrs.type ?? '').includes('opensearchdescription')) {
+        openSearchUrl = url
+      }
+    }
+  }
+
+  for (const entry of childrenNamed(root, 'entry')) {
+    const parsed = parseAtomEntry(entry, base)
+    if (parsed.acquisitions.length > 0) feed.publications.push(parsed)
+    else if (parsed.href) feed.navigation.push(parsed)
+  }
+
+  return { feed, openSearchUrl }
+}
+
+/** Pick the Atom search template out of an OpenSearch description */
+export function parseOpenSearch(body: string, base: string): string | null {
+  const root = parseXml(body)
+  if (!root) return null
+  const urls = childrenNamed(root, 'Url')
+  const url =
+    urls.find((u) => (u.attrs.type ?? '').includes('atom')) ?? urls.find((u) => u.attrs.template) ?? null
+  const template = url?.attrs.template
+  if (!template) return null
+  // Optional OpenSearch parameters ({startPage?}) are left empty
+  return resolveTemplate(template.replace(/\{(?!searchTerms\})[^}]*\?\}/g, ''), base)
+}
+
+// ─── OPDS 2.0 (JSON) ────────────────────────────────
+
+interface Opds2Link {
+  href?: string
+  rel?: string | string[]
+  type?: string
+  title?: string
+  templated?: boolean
+}
+
+interface Opds2Publication {
+  metadata?: {
+    title?: string
+    identifier?: string
+    author?: unknown
+    description?: string
+    language?: string | string[]
+    published?: string
+  }
+  links?: Opds2Link[]
+  images?: Opds2Link[]
+}
+
+interface Opds2Group {
+  metadata?: { title?: string }
+  navigation?: Opds2Link[]
+  publications?: Opds2Publication[]
+}
+
+interface Opds2Feed extends Opds2Group {
+  links?: Opds2Link[]
+  groups?: Opds2Group[]
+}
+
+function rels(link: Opds2Link): string[] {
+  return Array.isArray(link.rel) ? link.rel : link.rel ? [link.rel] : []
+}
+
+function contributorNames(value: unknown): string | null {
+  const list = Array.isArray(value) ? value : value ? [value] : []
+  const names = list
+    .map((c) => (typeof c === 'string' ? c : typeof c === 'object' && c && 'name' in c ? String(c.name) : ''))
+    .filter(Boolean)
+  return names.length > 0 ? names.join(', ') : null
+}
+
+/** RFC 6570 "{?query}" → "?query={searchTerms}", the form OPDS 1 uses */
+function searchTemplateFrom(href: string, base: string): string | null {
+  const template = href
+    .replace(/\{\?([^}]+)\}/, (_m, vars: string) => {
+      const params = vars.split(',').filter((v) => v === 'query' || v === 'title')
+      return params.length > 0 ? `?${params[0]}={searchTerms}` : ''
+    })
+    .replace(/\{query\}/, '{searchTerms}')
+  return resolveTemplate(template, base)
+}
+
+function parseOpds2Publication(pub: Opds2Publication, base: string): OpdsEntry {
+  const meta = pub.metadata ?? {}
+  const acquisitions: OpdsAcquisition[] = []
+  for (const link of pub.links ?? []) {
+    const acquisition = rels(link).find((r) => r.startsWith(ACQUISITION_REL))
+    const url = resolve(link.href, base)
+    if (!acquisition || !url) continue
+    const type = link.type ?? ''
+    acquisitions.push({ href: url, type, format: formatOf(type), kind: acquisitionKind(acquisition) })
+  }
+  return {
+    id: meta.identifier ?? acquisitions[0]?.href ?? meta.title ?? '',
+    title: meta.title ?? 'Untitled',
+    author: contributorNames(meta.author),
+    summary: meta.description ? plainText(meta.description) : null,
+    language: Array.isArray(meta.language) ? (meta.language[0] ?? null) : (meta.language ?? null),
+    published: meta.published ?? null,
+    coverUrl: resolve(pub.images?.[0]?.href, base),
+    href: null,
+    acquisitions
+  }
+}
+
+function parseOpds2Navigation(link: Opds2Link, base: string): OpdsEntry | null {
+  const url = resolve(link.href, base)
+  if (!url) return null
+  return {
+    id: url,
+    title: link.title ?? url,
+    author: null,
+    summary: null,
+    language: null,
+    published: null,
+    coverUrl: null,
+    href: url,
+    acquisitions: []
+  }
+}
+
+function parseOpds2Feed(json: Opds2Feed, base: string): ParsedFeed {
+  const feed: OpdsFeed = {
+    url: base,
+    title: json.metadata?.title ?? 'Catalog',
+    navigation: [],
+    publications: [],
+    next: null,
+    previous: null,
+    start: null,
+    searchTemplate: null
+  }
+
+  for (const link of json.links ?? []) {
+    const linkRels = rels(link)
+    if (!link.href) continue
+    if (linkRels.includes('search') && link.templated) feed.searchTemplate = searchTemplateFrom(link.href, base)
+    else if (linkRels.includes('next')) feed.next = resolve(link.href, base)
+    else if (linkRels.includes('previous') || linkRels.includes('prev')) feed.previous = resolve(link.href, base)
+    else if (linkRels.includes('start')) feed.start = resolve(link.href, base)
+  }
+
+  for (const group of [json, ...(json.groups ?? [])]) {
+    for (const link of group.navigation ?? []) {
+      const entry = parseOpds2Navigation(link, base)
+      if (entry) feed.navigation.push(entry)
+    }
+    for (const pub of group.publications ?? []) {
+      feed.publications.push(parseOpds2Publication(pub, base))
+    }
+  }
+
+  return { feed, openSearchUrl: null }
+}
+
+/** Parse an OPDS 1.x Atom or OPDS 2.0 JSON feed */
+export function parseFeed(body: string, contentType: string, url: string): ParsedFeed {
+  const trimmed = body.trimStart()
+  if (contentType.includes('json') || trimmed.startsWith('{')) {
+    let json: Opds2Feed
+    try {
+      json = JSON.parse(body) as Opds2Feed
+    } catch {
+      throw new OpdsError('The catalog returned invalid JSON')
+    }
+    return parseOpds2Feed(json, url)
+  }
+
+  const root = parseXml(body)
+  if (!root || root.name !== 'feed') {
+    throw new OpdsError('This address did not return an OPDS catalog')
+  }
+  return parseAtomFeed(root, url)
+}
@@ -0,0 +1,55 @@
+import type { BookFormat } from '../import/types'
+
+/** A saved OPDS catalog. The password is kept apart, encrypted. */
+export interface OpdsCatalog {
+  id: string
+  title: string
+  url: string
+  username: string | null
+  hasPassword: boolean
+}
+
+export interface OpdsAcquisition {
+  href: string
+  type: string
+  /** Formats FlareRead can import; null for anything else the feed offers */
+  format: BookFormat | null
+  /** Open-access and plain acquisition links can be downloaded; buy/borrow links cannot */
+  kind: 'open' | 'buy' | 'borrow' | 'sample'
+}
+
+export interface OpdsEntry {
+  id: string
+  title: string
+  author: string | null
+  summary: string | null
+  language: string | null
+  published: string | null
+  coverUrl: string | null
+  /** Feed link for navigation entries (subsections, shelves, authors…) */
+  href: string | null
+  acquisitions: OpdsAcquisition[]
+}
+
+export interface OpdsFeed {
+  url: string
+  title: string
+  /** Navigation entries, then publications */
+  navigation: OpdsEntry[]
+  publications: OpdsEntry[]
+  next: string | null
+  previous: string | null
+  start: string | null
+  /** URL with a {searchTerms} placeholder, when the catalog can be searched */
+  searchTemplate: string | null
+}
+
+export class OpdsError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null = null
+  ) {
+    super(message)
+    this.name = 'OpdsError'
+  }
+}
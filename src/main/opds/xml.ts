@@ -0,0 +1,81 @@
+// A small, forgiving XML reader for Atom/OPDS 1.x feeds and OpenSearch
+// descriptions. Element names keep only their local part ("dc:language" →
+// "language"), which is all the feeds need to be told apart.
+
+export interface XmlElement {
+  name: string
+  attrs: Record<string, string>
+  children: XmlElement[]
+  /** Direct text content, entities decoded */
+  text: string
+  /** Text and child elements in document order */
+  nodes: (XmlElement | string)[]
+}
+
+const TOKEN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+)/g
+
+const ATTR = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_m, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_m, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&([a-z]+);/gi, (m, name: string) => ENTITIES[name.toLowerCase()] ?? m)
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':')
+  return colon >= 0 ? name.slice(colon + 1) : name
+}
+
+/** Parse a document and return its root element */
+export function parseXml(source: string): XmlElement | null {
+  const top: XmlElement = { name: '#document', attrs: {}, children: [], text: '', nodes: [] }
+  const stack: XmlElement[] = [top]
+  let m: RegExpExecArray | null
+  TOKEN.lastIndex = 0
+
+  while ((m = TOKEN.exec(source)) !== null) {
+    const current = stack[stack.length - 1]
+    if (m[1] !== undefined) {
+      current.text += m[1]
+      current.nodes.push(m[1])
+    } else if (m[2]) {
+      const name = localName(m[2])
+      const at = stack.map((el) => el.name).lastIndexOf(name)
+      if (at > 0) stack.length = at
+    } else if (m[3]) {
+      const attrs: Record<string, string> = {}
+      ATTR.lastIndex = 0
+      let a: RegExpExecArray | null
+      while ((a = ATTR.exec(m[4])) !== null) {
+        attrs[localName(a[1])] = decodeEntities(a[2] ?? a[3] ?? '')
+      }
+      const el: XmlElement = { name: localName(m[3]), attrs, children: [], text: '', nodes: [] }
+      current.children.push(el)
+      current.nodes.push(el)
+      if (!m[5]) stack.push(el)
+    } else if (m[6]) {
+      const text = decodeEntities(m[6])
+      current.text += text
+      current.nodes.push(text)
+    }
+  }
+  return top.children[0] ?? null
+}
+
+export function childrenNamed(el: XmlElement, name: string): XmlElement[] {
+  return el.children.filter((c) => c.name === name)
+}
+
+export function childNamed(el: XmlElement, name: string): XmlElement | null {
+  return el.children.find((c) => c.name === name) ?? null
+}
+
+/** All text under the element, e.g. for Atom content given as inline XHTML */
+export function textContent(el: XmlElement): string {
+  return el.nodes.map((n) => (typeof n === 'string' ? n : ` ${textContent(n)} `)).join('')
+}
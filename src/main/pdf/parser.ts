@@ -0,0 +1,91 @@
+import { readFileSync } from 'fs'
+import { basename, extname } from 'path'
+import type { BookMetadata, ChapterWordCount, TextSection } from '../import/types'
+
+interface PdfInfo {
+  Title?: string
+  Author?: string
+  Subject?: string
+  Language?: string
+}
+
+/**
+ * Reader location for a PDF page. Uses the standard PDF open parameter so the
+ * same string works as a search hit href, TOC href and saved progress position.
+ */
+export function pdfPageHref(pageNumber: number): string {
+  return `#page=${pageNumber}`
+}
+
+/**
+ * Parse a PDF file and extract metadata, page count, word estimate, and per-page text
+ * and word counts.
+ * The cover thumbnail needs a canvas, so it is rendered by the renderer after import.
+ */
+export async function parsePdf(filePath: string): Promise<BookMetadata> {
+  let data: Uint8Array
+  try {
+    data = new Uint8Array(readFileSync(filePath))
+  } catch {
+    throw new Error('Could not read PDF file')
+  }
+
+  // pdf.js ships as ESM only — load it lazily like the other ESM-only modules
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs')
+
+  let doc: Awaited<ReturnType<typeof pdfjs.getDocument>['promise']>
+  try {
+    doc = await pdfjs.getDocument({
+      data,
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false,
+      verbosity: 0
+    }).promise
+  } catch {
+    throw new Error('Invalid or corrupted PDF file')
+  }
+
+  try {
+    const { info } = await doc.getMetadata().catch(() => ({ info: {} }))
+    const pdfInfo = (info ?? {}) as PdfInfo
+
+    const sections: TextSection[] = []
+    const chapters: ChapterWordCount[] = []
+    let totalWords = 0
+
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber)
+      const content = await page.getTextContent()
+      const text = content.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim()
+      page.cleanup()
+
+      const wordCount = text.split(/\s+/).filter((w) => w.length > 0).length
+      totalWords += wordCount
+      chapters.push({ href: pdfPageHref(pageNumber), spineIndex: pageNumber - 1, label: null, wordCount })
+      if (text) {
+        sections.push({ href: pdfPageHref(pageNumber), spineIndex: pageNumber - 1, text })
+      }
+    }
+
+    return {
+      format: 'pdf',
+      title: pdfInfo.Title?.trim() || basename(filePath, extname(filePath)),
+      author: pdfInfo.Author?.trim() || null,
+      description: pdfInfo.Subject?.trim() || null,
+      language: pdfInfo.Language?.trim() || null,
+      coverImageData: null,
+      coverImageExt: null,
+      estimatedWordCount: totalWords,
+      chapters,
+      pageCount: doc.numPages,
+      sections
+    }
+  } finally {
+    await doc.destroy()
+  }
+}
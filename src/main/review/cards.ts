@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto'
+import { getDatabase } from '../database'
+
+// ─── Card Generation ────────────────────────────────
+// Cards are derived from highlights and notes. A highlight becomes a cloze card
+// hiding its most distinctive word; a note attached to a highlight becomes a
+// question/answer card (passage → your note). Standalone notes become cards only
+// when they already contain {{cloze}} markup or a first-line question.
+
+const CLOZE_PATTERN = /\{\{(.+?)\}\}/g
+
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'against', 'because', 'before', 'being', 'between', 'could', 'during',
+  'every', 'their', 'there', 'these', 'those', 'through', 'under', 'until', 'where', 'which',
+  'while', 'would', 'should', 'other', 'another', 'without', 'within', 'though', 'although',
+  'cuando', 'donde', 'porque', 'aunque', 'entre', 'sobre', 'desde', 'hasta', 'también', 'siempre',
+  'nunca', 'todos', 'todas', 'otros', 'otras', 'puede', 'pueden', 'había', 'habían', 'estaba'
+])
+
+export function hasCloze(text: string): boolean {
+  return new RegExp(CLOZE_PATTERN.source).test(text)
+}
+
+/** The hidden spans of a cloze card, in order */
+export function clozeAnswers(text: string): string[] {
+  return Array.from(text.matchAll(CLOZE_PATTERN), (m) => m[1])
+}
+
+/**
+ * Wrap the longest non-stopword in cloze markup. Returns null for passages too
+ * short to make a useful card.
+ */
+export function autoCloze(text: string): string | null {
+  const words = text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) ?? []
+  if (words.length < 4) return null
+
+  let best: string | null = null
+  for (const word of words) {
+    if (word.length < 4 || STOPWORDS.has(word.toLowerCase())) continue
+    if (!best || word.length > best.length) best = word
+  }
+  if (!best) return null
+
+  const escaped = best.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return text.replace(new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'u'), `$1{{${best}}}`)
+}
+
+interface CardDraft {
+  kind: 'basic' | 'cloze'
+  front: string
+  back: string | null
+}
+
+function draftForNote(content: string, highlightText: string | null): CardDraft | null {
+  const text = content.trim()
+  if (!text) return null
+  if (highlightText) return { kind: 'basic', front: highlightText, back: text }
+  if (hasCloze(text)) return { kind: 'cloze', front: text, back: null }
+
+  const [first, ...rest] = text.split('\n')
+  const answer = rest.join('\n').trim()
+  if (first.trim().endsWith('?') && answer) return { kind: 'basic', front: first.trim(), back: answer }
+  return null
+}
+
+/**
+ * Create cards for new highlights and notes, and refresh the text of cards whose
+ * source changed (unless the card was edited by hand). Safe to call often.
+ */
+export function generateCards(): { created: number; updated: number } {
+  const db = getDatabase()
+  const now = new Date().toISOString()
+  let created = 0
+  let updated = 0
+
+  const insert = db.prepare(
+    `INSERT INTO cards (id, book_id, highlight_id, note_id, kind, front, back, due_at, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  )
+  const refresh = db.prepare(
+    'UPDATE cards SET kind = ?, front = ?, back = ?, updated_at = ? WHERE id = ? AND edited = 0'
+  )
+
+  const highlights = db
+    .prepare(
+      `SELECT h.id, h.book_id, h.text, c.id AS card_id, c.front AS card_front
+       FROM highlights h
+       LEFT JOIN cards c ON c.highlight_id = h.id AND c.note_id IS NULL`
+    )
+    .all() as Array<{ id: string; book_id: string; text: string; card_id: string | null; card_front: string | null }>
+
+  const notes = db
+    .prepare(
+      `SELECT n.id, n.book_id, n.content, n.highlight_id, h.text AS highlight_text,
+              c.id AS card_id, c.front AS card_front, c.back AS card_back
+       FROM notes n
+       LEFT JOIN highlights h ON h.id = n.highlight_id
+       LEFT JOIN cards c ON c.note_id = n.id`
+    )
+    .all() as Array<{
+    id: string
+    book_id: string
+    content: string
+    highlight_id: string | null
+    highlight_text: string | null
+    card_id: string | null
+    card_front: string | null
+    card_back: string | null
+  }>
+
+  db.transaction(() => {
+    for (const h of highlights) {
+      // The stored cloze already hides a word of this exact passage
+      if (h.card_id && h.card_front?.replace(CLOZE_PATTERN, '$1') === h.text) continue
+      const front = autoCloze(h.text)
+      if (!front) continue
+      if (h.card_id) {
+        updated += refresh.run('cloze', front, null, now, h.card_id).changes
+      } else {
+        insert.run(randomUUID(), h.book_id, h.id, null, 'cloze', front, null, now, now, now)
+        created++
+      }
+    }
+
+    for (const n of notes) {
+      const draft = draftForNote(n.content, n.highlight_text)
+      if (!draft) continue
+      if (n.card_id) {
+        if (n.card_front === draft.front && n.card_back === draft.back) continue
+        updated += refresh.run(draft.kind, draft.front, draft.back, now, n.card_id).changes
+      } else {
+        insert.run(randomUUID(), n.book_id, n.highlight_id, n.id, draft.kind, draft.front, draft.back, now, now, now)
+        created++
+      }
+    }
+  })()
+
+  return { created, updated }
+}
@@ -0,0 +1,171 @@
+import { ipcMain } from 'electron'
+import { randomUUID } from 'crypto'
+import { getDatabase } from '../database'
+import { generateCards } from './cards'
+import { previewIntervals, ReviewGrade, scheduleCard, REVIEW_GRADES } from './scheduler'
+
+/** Time spent on a single card beyond this is treated as the user walking away */
+const MAX_CARD_MS = 2 * 60 * 1000
+
+interface CardRow {
+  id: string
+  book_id: string
+  highlight_id: string | null
+  note_id: string | null
+  kind: 'basic' | 'cloze'
+  front: string
+  back: string | null
+  ease: number
+  interval_days: number
+  repetitions: number
+  lapses: number
+  due_at: string
+}
+
+// ─── Review Sessions ────────────────────────────────
+// Review time is recorded as sessions with session_type 'review', one per book
+// per review run, so it counts toward the book's category track like reading does.
+
+const openSessions = new Map<string, string>()
+
+function addReviewTime(bookId: string, elapsedMs: number): string {
+  const db = getDatabase()
+  const now = new Date().toISOString()
+  let sessionId = openSessions.get(bookId)
+  if (!sessionId) {
+    sessionId = randomUUID()
+    db.prepare(
+      `INSERT INTO sessions (id, book_id, start_time, end_time, active_ms, session_type, status)
+       VALUES (?, ?, ?, ?, 0, 'review', 'active')`
+    ).run(sessionId, bookId, now, now)
+    openSessions.set(bookId, sessionId)
+  }
+  db.prepare('UPDATE sessions SET active_ms = active_ms + ?, end_time = ? WHERE id = ?').run(
+    elapsedMs,
+    now,
+    sessionId
+  )
+  return sessionId
+}
+
+function finishReviewSessions(): void {
+  getDatabase()
+    .prepare("UPDATE sessions SET status = 'completed' WHERE session_type = 'review' AND status = 'active'")
+    .run()
+  openSessions.clear()
+}
+
+function withPreview(card: CardRow): CardRow & { intervals: Record<ReviewGrade, number> } {
+  return {
+    ...card,
+    intervals: previewIntervals({
+      ease: card.ease,
+      intervalDays: card.interval_days,
+      repetitions: card.repetitions,
+      lapses: card.lapses
+    })
+  }
+}
+
+export function registerReviewHandlers(): void {
+  // Review runs left open by a crash or quit
+  finishReviewSessions()
+
+  ipcMain.handle('db:review:generate', () => {
+    return generateCards()
+  })
+
+  ipcMain.handle('db:review:queue', (_e, options?: { bookId?: string; limit?: number }) => {
+    generateCards()
+    const db = getDatabase()
+    const cards = db
+      .prepare(
+        `SELECT c.*, b.title AS book_title, b.author AS book_author,
+                h.cfi_range, h.color AS highlight_color, h.chapter
+         FROM cards c
+         JOIN books b ON b.id = c.book_id
+         LEFT JOIN highlights h ON h.id = c.highlight_id
+         WHERE c.suspended = 0 AND c.due_at <= ? AND (? IS NULL OR c.book_id = ?)
+         ORDER BY c.repetitions = 0, c.due_at ASC
+         LIMIT ?`
+      )
+      .all(new Date().toISOString(), options?.bookId ?? null, options?.bookId ?? null, options?.limit ?? 100) as CardRow[]
+    return cards.map(withPreview)
+  })
+
+  ipcMain.handle('db:review:counts', () => {
+    generateCards()
+    const now = new Date().toISOString()
+    return getDatabase()
+      .prepare(
+        `SELECT
+           COALESCE(SUM(CASE WHEN suspended = 0 AND due_at <= ? THEN 1 ELSE 0 END), 0) AS due,
+           COALESCE(SUM(CASE WHEN suspended = 0 AND repetitions = 0 AND last_reviewed_at IS NULL THEN 1 ELSE 0 END), 0) AS new,
+           COUNT(*) AS total
+         FROM cards`
+      )
+      .get(now)
+  })
+
+  ipcMain.handle('db:review:grade', (_e, cardId: string, grade: ReviewGrade, elapsedMs: number) => {
+    if (!REVIEW_GRADES.includes(grade)) throw new Error(`Unknown grade: ${grade}`)
+    const db = getDatabase()
+    const card = db.prepare('SELECT * FROM cards WHERE id = ?').get(cardId) as CardRow | undefined
+    if (!card) return null
+
+    const now = new Date()
+    const next = scheduleCard(
+      { ease: card.ease, intervalDays: card.interval_days, repetitions: card.repetitions, lapses: card.lapses },
+      grade,
+      now
+    )
+    const elapsed = Math.max(0, Math.min(MAX_CARD_MS, Math.round(elapsedMs)))
+
+    db.transaction(() => {
+      const sessionId = addReviewTime(card.book_id, elapsed)
+      db.prepare(
+        `UPDATE cards SET ease = ?, interval_days = ?, repetitions = ?, lapses = ?, due_at = ?,
+           last_reviewed_at = ?, updated_at = ?
+         WHERE id = ?`
+      ).run(next.ease, next.intervalDays, next.repetitions, next.lapses, next.dueAt, now.toISOString(), now.toISOString(), cardId)
+      db.prepare(
+        `INSERT INTO card_reviews (id, card_id, session_id, grade, elapsed_ms, interval_days, ease, reviewed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(randomUUID(), cardId, sessionId, grade, elapsed, next.intervalDays, next.ease, now.toISOString())
+    })()
+
+    return withPreview(db.prepare('SELECT * FROM cards WHERE id = ?').get(cardId) as CardRow)
+  })
+
+  ipcMain.handle(
+    'db:review:update',
+    (_e, cardId: string, data: Partial<{ kind: 'basic' | 'cloze'; front: string; back: string | null }>) => {
+      const fields: string[] = []
+      const values: unknown[] = []
+      for (const [key, value] of Object.entries(data)) {
+        if (!['kind', 'front', 'back'].includes(key)) continue
+        fields.push(`${key} = ?`)
+        values.push(value)
+      }
+      // Hand-edited cards keep their text when the source highlight or note changes
+      fields.push('edited = 1', 'updated_at = ?')
+      values.push(new Date().toISOString(), cardId)
+      getDatabase()
+        .prepare(`UPDATE cards SET ${fields.join(', ')} WHERE id = ?`)
+        .run(...values)
+      return getDatabase().prepare('SELECT * FROM cards WHERE id = ?').get(cardId)
+    }
+  )
+
+  ipcMain.handle('db:review:suspend', (_e, cardId: string, suspended: boolean) => {
+    getDatabase()
+      .prepare('UPDATE cards SET suspended = ?, updated_at = ? WHERE id = ?')
+      .run(suspended ? 1 : 0, new Date().toISOString(), cardId)
+    return { success: true }
+  })
+
+  ipcMain.handle('db:review:finish', () => {
+    finishReviewSessions()
+    return { success: true }
+  })
+}
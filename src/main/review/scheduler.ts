@@ -0,0 +1,72 @@
+// ─── SM-2 Scheduler ─────────────────────────────────
+// Classic SuperMemo-2 with four answer buttons. "Again" puts the card back in
+// the queue after a short relearning step instead of waiting a full day.
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy']
+
+export interface CardSchedule {
+  ease: number
+  intervalDays: number
+  repetitions: number
+  lapses: number
+}
+
+export interface ScheduleResult extends CardSchedule {
+  dueAt: string
+}
+
+const QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 }
+
+const MIN_EASE = 1.3
+const RELEARN_MINUTES = 10
+const HARD_FACTOR = 1.2
+const EASY_BONUS = 1.3
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function scheduleCard(card: CardSchedule, grade: ReviewGrade, now = new Date()): ScheduleResult {
+  const q = QUALITY[grade]
+  const ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)))
+
+  if (grade === 'again') {
+    return {
+      ease,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: card.repetitions > 0 ? card.lapses + 1 : card.lapses,
+      dueAt: new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000).toISOString()
+    }
+  }
+
+  let intervalDays: number
+  if (card.repetitions === 0) {
+    intervalDays = grade === 'easy' ? 4 : 1
+  } else if (card.repetitions === 1) {
+    intervalDays = grade === 'hard' ? 3 : grade === 'easy' ? 8 : 6
+  } else if (grade === 'hard') {
+    intervalDays = card.intervalDays * HARD_FACTOR
+  } else {
+    intervalDays = card.intervalDays * ease * (grade === 'easy' ? EASY_BONUS : 1)
+  }
+  intervalDays = Math.max(1, Math.round(intervalDays))
+
+  return {
+    ease,
+    intervalDays,
+    repetitions: card.repetitions + 1,
+    lapses: card.lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString()
+  }
+}
+
+/** Next interval for each answer button, in days (fractions for the relearning step) */
+export function previewIntervals(card: CardSchedule): Record<ReviewGrade, number> {
+  const now = new Date()
+  return Object.fromEntries(
+    REVIEW_GRADES.map((grade) => {
+      const next = scheduleCard(card, grade, now)
+      return [grade, (Date.parse(next.dueAt) - now.getTime()) / DAY_MS]
+    })
+  ) as Record<ReviewGrade, number>
+}
@@ -0,0 +1,121 @@
+import { ipcMain } from 'electron'
+import { getDatabase } from '../database'
+import { indexBook } from './indexer'
+import type { BookFormat } from '../import/types'
+
+const MATCH_START = '\u0002'
+const MATCH_END = '\u0003'
+
+interface SearchRow {
+  book_id: string
+  book_title: string
+  book_author: string | null
+  href: string
+  spine_index: number
+  snippet: string
+  rank: number
+}
+
+/**
+ * Turn free-form user input into a safe FTS5 expression: every term is quoted
+ * (so operators and punctuation are literal) and the last term is prefix-matched
+ * to support search-as-you-type.
+ */
+function toFtsQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map((t) => t.replace(/"/g, '').trim())
+    .filter((t) => t.length > 0)
+  if (terms.length === 0) return null
+  return terms
+    .map((t, i) => (i === terms.length - 1 ? `"${t}"*` : `"${t}"`))
+    .join(' ')
+}
+
+/**
+ * Split an FTS5 snippet into the text around the first marked match.
+ * The renderer uses `match` to locate the hit inside the section and
+ * `before`/`after` to pick the right occurrence when it appears more than once.
+ */
+function splitSnippet(snippet: string): { before: string; match: string; after: string } {
+  const start = snippet.indexOf(MATCH_START)
+  const end = snippet.indexOf(MATCH_END, start)
+  const strip = (s: string): string => s.split(MATCH_START).join('').split(MATCH_END).join('')
+  if (start === -1 || end === -1) {
+    return { before: strip(snippet), match: '', after: '' }
+  }
+  return {
+    before: strip(snippet.slice(0, start)),
+    match: snippet.slice(start + 1, end),
+    after: strip(snippet.slice(end + 1))
+  }
+}
+
+export function registerSearchHandlers(): void {
+  // ─── Full-Text Search ───────────────────────────────
+
+  ipcMain.handle(
+    'db:search:query',
+    (_e, query: string, options?: { bookId?: string; limit?: number }) => {
+      const ftsQuery = toFtsQuery(query)
+      if (!ftsQuery) return []
+
+      const limit = Math.min(Math.max(options?.limit ?? 30, 1), 200)
+      const params: unknown[] = [MATCH_START, MATCH_END, ftsQuery]
+      let bookFilter = ''
+      if (options?.bookId) {
+        bookFilter = 'AND f.book_id = ?'
+        params.push(options.bookId)
+      }
+      params.push(limit)
+
+      let rows: SearchRow[]
+      try {
+        rows = getDatabase()
+          .prepare(
+            `SELECT f.book_id, b.title as book_title, b.author as book_author,
+                    f.href, f.spine_index,
+                    snippet(book_text_fts, 3, ?, ?, '…', 16) as snippet,
+                    f.rank
+             FROM book_text_fts f
+             JOIN books b ON b.id = f.book_id
+             WHERE book_text_fts MATCH ? ${bookFilter}
+             ORDER BY f.rank
+             LIMIT ?`
+          )
+          .all(...params) as SearchRow[]
+      } catch (err) {
+        // Malformed expressions are possible with unusual unicode input; treat as no results
+        console.error('Full-text search failed:', err)
+        return []
+      }
+
+      return rows.map((row) => {
+        const { before, match, after } = splitSnippet(row.snippet)
+        return {
+          book_id: row.book_id,
+          book_title: row.book_title,
+          book_author: row.book_author,
+          href: row.href,
+          spine_index: row.spine_index,
+          before,
+          match,
+          after
+        }
+      })
+    }
+  )
+
+  ipcMain.handle('db:search:reindexBook', async (_e, bookId: string) => {
+    const book = getDatabase()
+      .prepare('SELECT file_path, format FROM books WHERE id = ?')
+      .get(bookId) as { file_path: string; format: BookFormat } | undefined
+    if (!book) return { success: false, error: 'Book not found' }
+    try {
+      const sections = await indexBook(bookId, book.file_path, book.format)
+      return { success: true, sections }
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'Indexing failed' }
+    }
+  })
+}
@@ -0,0 +1,83 @@
+import { existsSync } from 'fs'
+import { extractSpineText } from '../epub/parser'
+import { parsePdf } from '../pdf/parser'
+import { getDatabase } from '../database'
+import type { BookFormat, TextSection } from '../import/types'
+
+/**
+ * Extract the book's text and index it into the FTS5 table.
+ */
+export async function indexBook(
+  bookId: string,
+  filePath: string,
+  format: BookFormat = 'epub'
+): Promise<number> {
+  const sections =
+    format === 'pdf' ? ((await parsePdf(filePath)).sections ?? []) : extractSpineText(filePath)
+  return indexBookSections(bookId, sections)
+}
+
+/**
+ * Store already-extracted text sections for a book.
+ * Re-indexing replaces any rows previously stored for the book.
+ */
+export function indexBookSections(bookId: string, allSections: TextSection[]): number {
+  const sections = allSections.filter((s) => s.text.length > 0)
+  const db = getDatabase()
+
+  const insert = db.prepare(
+    'INSERT INTO book_text_fts (book_id, href, spine_index, content) VALUES (?, ?, ?, ?)'
+  )
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM book_text_fts WHERE book_id = ?').run(bookId)
+    for (const section of sections) {
+      insert.run(bookId, section.href, section.spineIndex, section.text)
+    }
+    db.prepare(
+      `INSERT INTO book_text_index (book_id, section_count, indexed_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT(book_id) DO UPDATE SET
+         section_count = excluded.section_count,
+         indexed_at = excluded.indexed_at`
+    ).run(bookId, sections.length, new Date().toISOString())
+  })()
+
+  return sections.length
+}
+
+/**
+ * Books imported before the search index existed have no rows yet.
+ */
+export function getUnindexedBooks(): { id: string; file_path: string; format: BookFormat }[] {
+  return getDatabase()
+    .prepare(
+      `SELECT b.id, b.file_path, b.format FROM books b
+       LEFT JOIN book_text_index i ON i.book_id = b.id
+       WHERE i.book_id IS NULL`
+    )
+    .all() as { id: string; file_path: string; format: BookFormat }[]
+}
+
+/**
+ * Backfill the index for older books one at a time so the main process
+ * stays responsive while the library is indexed after startup.
+ */
+export function indexMissingBooksInBackground(): void {
+  const pending = getUnindexedBooks()
+
+  const next = async (): Promise<void> => {
+    const book = pending.shift()
+    if (!book) return
+    if (existsSync(book.file_path)) {
+      try {
+        await indexBook(book.id, book.file_path, book.format)
+      } catch (err) {
+        console.error(`Search indexing failed for book ${book.id}:`, err)
+      }
+    }
+    setTimeout(next, 50)
+  }
+
+  setTimeout(next, 2000)
+}
@@ -1,6 +1,8 @@
 import { BrowserWindow } from 'electron'
 import { randomUUID } from 'crypto'
 import { getDatabase } from '../database'
+import { getChapterWords } from '../estimates/chapters'
+import { ChapterWords, ReadingPosition, wordOffset } from '../../shared/reading/timeLeft'
 
 // ─── Types ───────────────────────────────────────────
 
@@ -43,8 +45,27 @@ export interface SessionSnapshot {
   totalMicrobreakMs: number
   /** Configured interval in minutes (0 = disabled) */
   microbreakIntervalMinutes: number
+  /** Pages the reader stayed on long enough to count as viewed */
+  pagesViewed: number
+  /** Words on the pages read, discounted for skimming */
+  wordsRead: number
 }
 
+/** The page on screen, as the reader reports it on every page turn */
+export interface PageLocation {
+  bookId: string
+  startCfi: string
+  endCfi: string
+  start: ReadingPosition
+  end: ReadingPosition
+}
+
+/** Pages turned faster than this are skimmed past, not viewed */
+const MIN_PAGE_MS = 3000
+
+/** Nobody reads faster than this; shorter page dwell times only credit what fits */
+const MAX_READING_WPM = 900
+
 const DEFAULT_CONFIG: SessionConfig = {
   bookId: '',
   pomodoroEnabled: true,
@@ -88,6 +109,13 @@ export class StudySessionManager {
   private highlightsDuring: number = 0
   private notesDuring: number = 0
 
+  // Reading progress: the page on screen and the active time when it appeared
+  private pagesViewed: number = 0
+  private wordsRead: number = 0
+  private chapterWords: ChapterWords[] = []
+  private page: PageLocation | null = null
+  private pageActiveMs: number = 0
+
   // Microbreak
   private microbreakIntervalMinutes: number = 20
   private activeMsSinceLastMicrobreak: number = 0
@@ -128,6 +156,12 @@ export class StudySessionManager {
     this.completedPomodoros = 0
     this.highlightsDuring = 0
     this.notesDuring = 0
+    this.pagesViewed = 0
+    this.wordsRead = 0
+    this.chapterWords = this.loadChapterWords(merged.bookId)
+    // The page already open when the session starts is read from now on
+    if (this.page?.bookId !== merged.bookId) this.page = null
+    this.pageActiveMs = 0
     this.activeMsSinceLastMicrobreak = 0
     this.microbreakDue = false
     this.microbreakActive = false
@@ -191,6 +225,23 @@ export class StudySessionManager {
     if (this.sessionId) this.notesDuring++
   }
 
+  /**
+   * The reader moved to another page. The page it left is credited with its
+   * words, capped by how long it was on screen, so skimming or jumping through
+   * the book doesn't count as reading. Reports outside a session only remember
+   * the page, so a session started mid-page measures from there.
+   */
+  reportLocation(location: PageLocation): void {
+    if (this.page && this.page.startCfi === location.startCfi && this.page.bookId === location.bookId) {
+      // Same page laid out again (resize, font change)
+      this.page = location
+      return
+    }
+    if (this.isActive()) this.creditPage()
+    this.page = location.bookId === this.bookId || !this.isActive() ? location : null
+    this.pageActiveMs = this.activeMs
+  }
+
   /** User clicks "Take a break" — pause active time, start microbreak */
   microbreakTake(): void {
     if (this.state === 'running' && this.microbreakDue) {
@@ -259,7 +310,9 @@ export class StudySessionManager {
       microbreakDue: this.microbreakDue,
       microbreakActive: this.microbreakActive,
       totalMicrobreakMs: this.totalMicrobreakMs,
-      microbreakIntervalMinutes: this.microbreakIntervalMinutes
+      microbreakIntervalMinutes: this.microbreakIntervalMinutes,
+      pagesViewed: this.pagesViewed,
+      wordsRead: this.wordsRead
     }
   }
 
@@ -298,6 +351,31 @@ export class StudySessionManager {
 
   // ─── Private ─────────────────────────────────────
 
+  private loadChapterWords(bookId: string): ChapterWords[] {
+    try {
+      return getChapterWords(bookId)
+    } catch {
+      return []
+    }
+  }
+
+  /** Credit the page on screen with the words read on it so far */
+  private creditPage(): void {
+    if (!this.page || this.page.bookId !== this.bookId) return
+    const dwellMs = this.activeMs - this.pageActiveMs
+    if (dwellMs < MIN_PAGE_MS) return
+
+    // Books imported moments ago may only just have their counts
+    if (this.chapterWords.length === 0) this.chapterWords = this.loadChapterWords(this.bookId)
+    const words = Math.max(
+      0,
+      wordOffset(this.chapterWords, this.page.end) - wordOffset(this.chapterWords, this.page.start)
+    )
+
+    this.pagesViewed++
+    this.wordsRead += Math.min(words, Math.round((dwellMs / 60000) * MAX_READING_WPM))
+  }
+
   private startTicking(): void {
     this.stopTicking()
     this.tickInterval = setInterval(() => this.tick(), 1000)
@@ -443,6 +521,8 @@ export class StudySessionManager {
   private endSession(): void {
     this.stopTicking()
     this.stopAfkCheck()
+    this.creditPage()
+    this.pageActiveMs = this.activeMs
     this.state = 'completed'
 
     // Persist final data to DB
@@ -505,7 +585,9 @@ export class StudySessionManager {
           total_afk_ms = ?,
           total_break_ms = ?,
           highlights_during = ?,
-          notes_during = ?
+          notes_during = ?,
+          pages_viewed = ?,
+          words_read_estimate = ?
          WHERE id = ?`
       ).run(
         new Date().toISOString(),
@@ -516,6 +598,8 @@ export class StudySessionManager {
         this.totalBreakMs,
         this.highlightsDuring,
         this.notesDuring,
+        this.pagesViewed,
+        this.wordsRead,
         this.sessionId
       )
     } catch (err) {
@@ -1,5 +1,5 @@
 import { ipcMain, BrowserWindow } from 'electron'
-import { getSessionManager, SessionConfig } from './StudySessionManager'
+import { getSessionManager, PageLocation, SessionConfig } from './StudySessionManager'
 import { getFocusWallManager } from '../focuswall/FocusWallManager'
 import { getDatabase } from '../database'
 
@@ -105,6 +105,11 @@ export function registerSessionHandlers(): void {
     manager.incrementNotes()
   })
 
+  // Page turns, for words read and pages viewed
+  ipcMain.on('session:location', (_e, location: PageLocation) => {
+    manager.reportLocation(location)
+  })
+
   // ─── Microbreak handlers ────────────────────────────
   ipcMain.on('session:microbreak-take', () => {
     manager.microbreakTake()
@@ -0,0 +1,36 @@
+import { ipcMain } from 'electron'
+import {
+  getDailyActivity,
+  getHourlyActivity,
+  getSummary,
+  getTimeSeries,
+  getWpmTrend,
+  StatsBucket,
+  StatsGroup,
+  StatsRange
+} from './queries'
+
+export function registerStatsHandlers(): void {
+  ipcMain.handle('db:stats:daily', (_e, range: StatsRange = {}) => {
+    return getDailyActivity(range)
+  })
+
+  ipcMain.handle('db:stats:hourly', (_e, range: StatsRange = {}) => {
+    return getHourlyActivity(range)
+  })
+
+  ipcMain.handle(
+    'db:stats:series',
+    (_e, range: StatsRange = {}, groupBy: StatsGroup = 'book', bucket: StatsBucket = 'week') => {
+      return getTimeSeries(range, groupBy, bucket)
+    }
+  )
+
+  ipcMain.handle('db:stats:wpmTrend', (_e, range: StatsRange = {}, bucket: StatsBucket = 'week') => {
+    return getWpmTrend(range, bucket)
+  })
+
+  ipcMain.handle('db:stats:summary', (_e, range: StatsRange = {}) => {
+    return getSummary(range)
+  })
+}
@@ -0,0 +1,199 @@
+import { getDatabase } from '../database'
+
+/**
+ * Half-open range of session start times, as ISO strings: from <= start_time < to.
+ * Either end may be omitted for an open range.
+ */
+export interface StatsRange {
+  from?: string
+  to?: string
+}
+
+export type StatsBucket = 'day' | 'week' | 'month'
+export type StatsGroup = 'book' | 'category'
+
+// Session times are stored in UTC; days, hours and weekdays are the user's local ones
+const LOCAL_DAY = `date(s.start_time, 'localtime')`
+const BUCKETS: Record<StatsBucket, string> = {
+  day: LOCAL_DAY,
+  // Monday of the session's week
+  week: `date(s.start_time, 'localtime', 'weekday 0', '-6 days')`,
+  month: `strftime('%Y-%m-01', s.start_time, 'localtime')`
+}
+
+/** Review and listening sessions read no words, so reading speed leaves them out */
+const READING_SESSIONS = `s.session_type NOT IN ('review', 'listening')`
+
+function rangeWhere(range: StatsRange): { sql: string; params: string[] } {
+  const clauses: string[] = []
+  const params: string[] = []
+  if (range.from) {
+    clauses.push('s.start_time >= ?')
+    params.push(range.from)
+  }
+  if (range.to) {
+    clauses.push('s.start_time < ?')
+    params.push(range.to)
+  }
+  return { sql: clauses.length > 0 ? clauses.join(' AND ') : '1 = 1', params }
+}
+
+/** Reading time, sessions and words per local day, for the activity heatmap */
+export function getDailyActivity(
+  range: StatsRange
+): { day: string; minutes: number; sessions: number; words: number }[] {
+  const where = rangeWhere(range)
+  return getDatabase()
+    .prepare(
+      `SELECT ${LOCAL_DAY} as day,
+         ROUND(SUM(s.active_ms) / 60000.0, 1) as minutes,
+         COUNT(*) as sessions,
+         SUM(s.words_read_estimate) as words
+       FROM sessions s
+       WHERE ${where.sql}
+       GROUP BY day
+       ORDER BY day`
+    )
+    .all(...where.params) as { day: string; minutes: number; sessions: number; words: number }[]
+}
+
+/** Minutes by weekday (0 = Sunday) and hour of the day the session started */
+export function getHourlyActivity(
+  range: StatsRange
+): { weekday: number; hour: number; minutes: number }[] {
+  const where = rangeWhere(range)
+  return getDatabase()
+    .prepare(
+      `SELECT CAST(strftime('%w', s.start_time, 'localtime') AS INTEGER) as weekday,
+         CAST(strftime('%H', s.start_time, 'localtime') AS INTEGER) as hour,
+         ROUND(SUM(s.active_ms) / 60000.0, 1) as minutes
+       FROM sessions s
+       WHERE ${where.sql}
+       GROUP BY weekday, hour`
+    )
+    .all(...where.params) as { weekday: number; hour: number; minutes: number }[]
+}
+
+/**
+ * Minutes per book or category in each bucket. Books without a category are
+ * grouped under a null key.
+ */
+export function getTimeSeries(
+  range: StatsRange,
+  groupBy: StatsGroup,
+  bucket: StatsBucket
+): { key: string | null; label: string; color: string | null; bucket: string; minutes: number }[] {
+  const where = rangeWhere(range)
+  const group =
+    groupBy === 'book'
+      ? `b.id as key, b.title as label, NULL as color`
+      : `c.id as key, COALESCE(c.name, 'Uncategorized') as label, c.color as color`
+  return getDatabase()
+    .prepare(
+      `SELECT ${group}, ${BUCKETS[bucket]} as bucket,
+         ROUND(SUM(s.active_ms) / 60000.0, 1) as minutes
+       FROM sessions s
+       JOIN books b ON b.id = s.book_id
+       LEFT JOIN categories c ON c.id = b.category_id
+       WHERE ${where.sql}
+       GROUP BY key, bucket
+       ORDER BY bucket`
+    )
+    .all(...where.params) as {
+    key: string | null
+    label: string
+    color: string | null
+    bucket: string
+    minutes: number
+  }[]
+}
+
+/** Words per minute in each bucket, from sessions that tracked words read */
+export function getWpmTrend(
+  range: StatsRange,
+  bucket: StatsBucket
+): { bucket: string; wpm: number; words: number; minutes: number }[] {
+  const where = rangeWhere(range)
+  return getDatabase()
+    .prepare(
+      `SELECT ${BUCKETS[bucket]} as bucket,
+         SUM(s.words_read_estimate) as words,
+         ROUND(SUM(s.active_ms) / 60000.0, 1) as minutes,
+         CAST(ROUND(SUM(s.words_read_estimate) / (SUM(s.active_ms) / 60000.0)) AS INTEGER) as wpm
+       FROM sessions s
+       WHERE ${where.sql} AND ${READING_SESSIONS}
+         AND s.words_read_estimate > 0 AND s.active_ms > 0
+       GROUP BY bucket
+       ORDER BY bucket`
+    )
+    .all(...where.params) as { bucket: string; wpm: number; words: number; minutes: number }[]
+}
+
+export interface StatsSummary {
+  minutes: number
+  sessions: number
+  words: number
+  avgWpm: number
+  /** Books read in the range, and how many of them are now finished */
+  booksRead: number
+  booksFinished: number
+  /** Pomodoros completed against those started (a cut-short one counts as started) */
+  pomodorosCompleted: number
+  pomodorosStarted: number
+  /** Study-session time spent away, against time present */
+  afkMs: number
+  studyActiveMs: number
+}
+
+export function getSummary(range: StatsRange): StatsSummary {
+  const db = getDatabase()
+  const where = rangeWhere(range)
+
+  const totals = db
+    .prepare(
+      `SELECT COALESCE(SUM(s.active_ms), 0) as active_ms, COUNT(*) as sessions
+       FROM sessions s WHERE ${where.sql}`
+    )
+    .get(...where.params) as { active_ms: number; sessions: number }
+
+  const reading = db
+    .prepare(
+      `SELECT COALESCE(SUM(s.words_read_estimate), 0) as words, COALESCE(SUM(s.active_ms), 0) as active_ms
+       FROM sessions s WHERE ${where.sql} AND ${READING_SESSIONS} AND s.words_read_estimate > 0`
+    )
+    .get(...where.params) as { words: number; active_ms: number }
+
+  const books = db
+    .prepare(
+      `SELECT COUNT(*) as read,
+         COALESCE(SUM(CASE WHEN rp.percent_complete >= 100 THEN 1 ELSE 0 END), 0) as finished
+       FROM (SELECT DISTINCT s.book_id FROM sessions s WHERE ${where.sql}) r
+       LEFT JOIN reading_progress rp ON rp.book_id = r.book_id`
+    )
+    .get(...where.params) as { read: number; finished: number }
+
+  const study = db
+    .prepare(
+      `SELECT COALESCE(SUM(s.completed_pomodoros), 0) as completed,
+         COALESCE(SUM(CASE WHEN s.pomodoro_enabled = 1 AND s.pomodoro_work_min > 0
+           THEN MAX(s.completed_pomodoros, CAST((s.active_ms + s.pomodoro_work_min * 60000 - 1) / (s.pomodoro_work_min * 60000) AS INTEGER))
+           ELSE 0 END), 0) as started,
+         COALESCE(SUM(s.total_afk_ms), 0) as afk_ms,
+         COALESCE(SUM(s.active_ms), 0) as active_ms
+       FROM sessions s WHERE ${where.sql} AND s.session_type = 'study'`
+    )
+    .get(...where.params) as { completed: number; started: number; afk_ms: number; active_ms: number }
+
+  return {
+    minutes: Math.round(totals.active_ms / 60000),
+    sessions: totals.sessions,
+    words: reading.words,
+    avgWpm: reading.active_ms > 0 ? Math.round(reading.words / (reading.active_ms / 60000)) : 0,
+    booksRead: books.read,
+    booksFinished: books.finished,
+    pomodorosCompleted: study.completed,
+    pomodorosStarted: study.started,
+    afkMs: study.afk_ms,
+    studyActiveMs: study.active_ms
+  }
+}
@@ -0,0 +1,196 @@
+import { BrowserWindow, safeStorage } from 'electron'
+import { getDatabase } from '../database'
+import { readSetting, writeSetting } from '../database/settings'
+import { connectFirestore } from './firestore'
+import { resetSyncState, runSync } from './engine'
+import { DEFAULT_SYNC_CONFIG, RemoteStore, SyncConfig, SyncStatus } from './types'
+
+const CONFIG_KEY = 'sync'
+const CREDENTIALS_KEY = 'syncCredentials'
+const STARTUP_DELAY_MS = 10_000
+
+export class SyncManager {
+  private config: SyncConfig = DEFAULT_SYNC_CONFIG
+  private remote: RemoteStore | null = null
+  /** Kept in memory when the OS keychain isn't available to encrypt it */
+  private sessionPassword: string | null = null
+  private running: Promise<SyncStatus> | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+  private status: SyncStatus = {
+    state: 'idle',
+    signedIn: false,
+    lastSyncAt: null,
+    lastError: null,
+    counts: null
+  }
+
+  constructor() {
+    this.config = { ...DEFAULT_SYNC_CONFIG, ...readSetting<Partial<SyncConfig> | null>(CONFIG_KEY, null) }
+    this.status.signedIn = this.getPassword() !== null
+  }
+
+  // ─── Configuration ───────────────────────────────
+
+  getConfig(): SyncConfig {
+    return { ...this.config }
+  }
+
+  async updateConfig(update: Partial<SyncConfig>): Promise<SyncConfig> {
+    const connectionChanged =
+      ('firebase' in update && JSON.stringify(update.firebase) !== JSON.stringify(this.config.firebase)) ||
+      ('emulatorHost' in update && update.emulatorHost !== this.config.emulatorHost)
+
+    this.config = { ...this.config, ...update }
+    writeSetting(CONFIG_KEY, this.config)
+
+    if (connectionChanged) await this.disconnect()
+    this.schedule()
+    return this.getConfig()
+  }
+
+  getStatus(): SyncStatus {
+    return { ...this.status }
+  }
+
+  // ─── Account ─────────────────────────────────────
+
+  async signIn(email: string, password: string): Promise<SyncStatus> {
+    await this.disconnect()
+    this.remote = await connectFirestore(this.config, email, password)
+
+    // Merge bases belong to one account; a different account starts from scratch
+    if (this.config.email !== email) resetSyncState()
+    this.config = { ...this.config, email, enabled: true }
+    writeSetting(CONFIG_KEY, this.config)
+    this.storePassword(password)
+
+    this.setStatus({ signedIn: true, lastError: null })
+    this.schedule()
+    return this.syncNow()
+  }
+
+  async signOut(): Promise<SyncStatus> {
+    await this.disconnect()
+    this.storePassword(null)
+    this.config = { ...this.config, enabled: false }
+    writeSetting(CONFIG_KEY, this.config)
+    this.schedule()
+    this.setStatus({ state: 'idle', signedIn: false, lastError: null })
+    return this.getStatus()
+  }
+
+  // ─── Sync ────────────────────────────────────────
+
+  /** Run a sync now, or join the one already in progress */
+  syncNow(): Promise<SyncStatus> {
+    if (!this.running) {
+      this.running = this.doSync().finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  private async doSync(): Promise<SyncStatus> {
+    this.setStatus({ state: 'syncing' })
+    try {
+      const remote = await this.ensureRemote()
+      const counts = await runSync(remote)
+      this.setStatus({ state: 'idle', lastSyncAt: new Date().toISOString(), lastError: null, counts })
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err)
+      console.error('Sync failed:', msg)
+      // Drop the connection so the next attempt signs in again
+      await this.disconnect()
+      this.setStatus({ state: 'error', lastError: msg })
+    }
+    return this.getStatus()
+  }
+
+  private async ensureRemote(): Promise<RemoteStore> {
+    if (this.remote) return this.remote
+    const password = this.getPassword()
+    if (!this.config.email || !password) throw new Error('Not signed in')
+    this.remote = await connectFirestore(this.config, this.config.email, password)
+    return this.remote
+  }
+
+  private async disconnect(): Promise<void> {
+    const remote = this.remote
+    this.remote = null
+    try {
+      await remote?.dispose()
+    } catch {
+      // Ignore teardown errors
+    }
+  }
+
+  /** Start (or restart) periodic syncing according to the current config */
+  schedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    if (!this.config.enabled || !this.status.signedIn) return
+
+    const intervalMs = Math.max(1, this.config.intervalMinutes) * 60_000
+    this.timer = setInterval(() => this.syncNow(), intervalMs)
+  }
+
+  /** Begin syncing shortly after launch, once the window is up */
+  start(): void {
+    this.schedule()
+    if (this.config.enabled && this.status.signedIn) {
+      setTimeout(() => this.syncNow(), STARTUP_DELAY_MS)
+    }
+  }
+
+  private setStatus(update: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...update }
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send('sync:status-update', this.status)
+      }
+    }
+  }
+
+  // ─── Persistence ─────────────────────────────────
+
+  private storePassword(password: string | null): void {
+    this.sessionPassword = password
+    const db = getDatabase()
+    if (password && safeStorage.isEncryptionAvailable()) {
+      writeSetting(CREDENTIALS_KEY, safeStorage.encryptString(password).toString('base64'))
+    } else {
+      db.prepare('DELETE FROM settings WHERE key = ?').run(CREDENTIALS_KEY)
+    }
+  }
+
+  private getPassword(): string | null {
+    if (this.sessionPassword) return this.sessionPassword
+    const stored = readSetting<unknown>(CREDENTIALS_KEY, null)
+    if (typeof stored !== 'string' || !safeStorage.isEncryptionAvailable()) return null
+    try {
+      this.sessionPassword = safeStorage.decryptString(Buffer.from(stored, 'base64'))
+      return this.sessionPassword
+    } catch {
+      return null
+    }
+  }
+
+  destroy(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+    this.disconnect()
+  }
+}
+
+// Singleton instance
+let instance: SyncManager | null = null
+
+export function getSyncManager(): SyncManager {
+  if (!instance) {
+    instance = new SyncManager()
+  }
+  return instance
+}
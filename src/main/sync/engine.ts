@@ -0,0 +1,141 @@
+import { getDatabase } from '../database'
+import { DocFields, RemoteStore, SyncCounts } from './types'
+import { LocalRecord, SyncEntity, SYNC_ENTITIES, toIso, toMillis } from './entities'
+import { fieldsEqual, mergeFields } from './merge'
+
+interface BaseState {
+  base: DocFields
+  syncedAt: string
+}
+
+const TIMESTAMP_FIELDS = ['createdAt', 'updatedAt']
+
+// ─── Sync bookkeeping ───────────────────────────────
+
+function loadStates(entity: SyncEntity): Map<string, BaseState> {
+  const rows = getDatabase()
+    .prepare('SELECT row_id, base, synced_at FROM sync_state WHERE entity = ?')
+    .all(entity.name) as Array<{ row_id: string; base: string; synced_at: string }>
+  return new Map(rows.map((r) => [r.row_id, { base: JSON.parse(r.base), syncedAt: r.synced_at }]))
+}
+
+function loadTombstones(entity: SyncEntity): Map<string, string> {
+  const rows = getDatabase()
+    .prepare('SELECT row_id, deleted_at FROM sync_tombstones WHERE entity = ?')
+    .all(entity.name) as Array<{ row_id: string; deleted_at: string }>
+  return new Map(rows.map((r) => [r.row_id, r.deleted_at]))
+}
+
+function saveState(entity: SyncEntity, id: string, base: DocFields): void {
+  getDatabase()
+    .prepare(
+      `INSERT INTO sync_state (entity, row_id, base, synced_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(entity, row_id) DO UPDATE SET base = excluded.base, synced_at = excluded.synced_at`
+    )
+    .run(entity.name, id, JSON.stringify(base), new Date().toISOString())
+}
+
+function forget(entity: SyncEntity, id: string): void {
+  const db = getDatabase()
+  db.prepare('DELETE FROM sync_state WHERE entity = ? AND row_id = ?').run(entity.name, id)
+  db.prepare('DELETE FROM sync_tombstones WHERE entity = ? AND row_id = ?').run(entity.name, id)
+}
+
+/** Drop all merge bases, e.g. after switching accounts */
+export function resetSyncState(): void {
+  getDatabase().exec('DELETE FROM sync_state; DELETE FROM sync_tombstones;')
+}
+
+function pickFields(fields: DocFields, names: string[]): DocFields {
+  return Object.fromEntries(names.map((f) => [f, fields[f] ?? null]))
+}
+
+function laterOf(a: string, b: string): string {
+  return toMillis(a) >= toMillis(b) ? toIso(a) : toIso(b)
+}
+
+// ─── Per-row resolution ─────────────────────────────
+
+async function createRemote(
+  entity: SyncEntity,
+  remote: RemoteStore,
+  record: LocalRecord
+): Promise<void> {
+  const extra = entity.prepareCreate ? await entity.prepareCreate(record.id, remote) : {}
+  await remote.write(
+    entity.name,
+    record.id,
+    { ...record.fields, ...extra, id: record.id, createdAt: record.createdAt, updatedAt: record.updatedAt },
+    TIMESTAMP_FIELDS
+  )
+}
+
+async function syncEntity(entity: SyncEntity, remote: RemoteStore, counts: SyncCounts): Promise<void> {
+  const remoteDocs = await remote.list(entity.name)
+  const localRows = entity.loadLocal()
+  const states = loadStates(entity)
+  const tombstones = loadTombstones(entity)
+
+  const ids = new Set([...remoteDocs.keys(), ...localRows.keys(), ...tombstones.keys(), ...states.keys()])
+
+  for (const id of ids) {
+    const local = localRows.get(id)
+    const doc = remoteDocs.get(id)
+    const state = states.get(id)
+
+    if (local && doc) {
+      const merged = mergeFields(entity, state?.base ?? null, local, doc)
+      const updatedAt = laterOf(local.updatedAt, doc.updatedAt)
+      if (!fieldsEqual(merged, local.fields, entity.fields)) {
+        entity.updateLocal(id, merged, updatedAt)
+        counts.pulled++
+      }
+      if (!fieldsEqual(merged, doc.fields, entity.fields)) {
+        await remote.write(entity.name, id, { ...merged, updatedAt }, TIMESTAMP_FIELDS)
+        counts.pushed++
+      }
+      saveState(entity, id, merged)
+    } else if (local && !doc) {
+      if (state && toMillis(local.updatedAt) <= toMillis(state.syncedAt)) {
+        // Deleted in the cloud and untouched here since the last sync
+        entity.deleteLocal(id)
+        forget(entity, id)
+        counts.deleted++
+      } else {
+        // New here, or edited here after the cloud copy was deleted
+        await createRemote(entity, remote, local)
+        saveState(entity, id, pickFields(local.fields, entity.fields))
+        counts.pushed++
+      }
+    } else if (!local && doc) {
+      const deletedAt = tombstones.get(id) ?? state?.syncedAt
+      if (deletedAt && toMillis(doc.updatedAt) <= toMillis(deletedAt)) {
+        // Deleted here and untouched in the cloud since
+        await remote.remove(entity.name, id)
+        forget(entity, id)
+        counts.deleted++
+      } else if (entity.insertLocal(id, doc.fields, doc.updatedAt)) {
+        // New in the cloud, or edited in the cloud after the local copy was deleted
+        getDatabase().prepare('DELETE FROM sync_tombstones WHERE entity = ? AND row_id = ?').run(entity.name, id)
+        saveState(entity, id, pickFields(doc.fields, entity.fields))
+        counts.pulled++
+      } else {
+        counts.skipped++
+      }
+    } else {
+      forget(entity, id)
+    }
+  }
+}
+
+/**
+ * Run one full two-way sync. Entities are processed in dependency order and
+ * bookkeeping is saved row by row, so an interrupted run resumes cleanly.
+ */
+export async function runSync(remote: RemoteStore): Promise<SyncCounts> {
+  const counts: SyncCounts = { pushed: 0, pulled: 0, deleted: 0, skipped: 0 }
+  for (const entity of SYNC_ENTITIES) {
+    await syncEntity(entity, remote, counts)
+  }
+  return counts
+}
@@ -0,0 +1,462 @@
+import { basename, extname } from 'path'
+import { existsSync, readFileSync } from 'fs'
+import { createHash } from 'crypto'
+import { getDatabase } from '../database'
+import { deleteBookFiles } from '../import/importer'
+import { DocFields, RemoteStore, SyncEntityName } from './types'
+
+/** A local SQLite row in its Firestore document shape */
+export interface LocalRecord {
+  id: string
+  fields: DocFields
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Fields that only make sense together and are resolved as a unit.
+ * `pick` returns the winning side, or null to fall back to last-writer-wins.
+ */
+export interface FieldGroup {
+  fields: string[]
+  pick: (local: DocFields, remote: DocFields) => 'local' | 'remote' | null
+}
+
+export interface SyncEntity {
+  name: SyncEntityName
+  /** Mutable fields, merged one by one against the last synced base */
+  fields: string[]
+  groups: FieldGroup[]
+  loadLocal(): Map<string, LocalRecord>
+  /** Create a row from a cloud document. Returns false when it can't exist locally. */
+  insertLocal(id: string, fields: DocFields, updatedAt: string): boolean
+  updateLocal(id: string, fields: DocFields, updatedAt: string): void
+  deleteLocal(id: string): void
+  /** Extra document fields needed when the desktop creates the cloud copy */
+  prepareCreate?(id: string, remote: RemoteStore): Promise<DocFields>
+}
+
+// ─── Timestamps ─────────────────────────────────────
+
+/** SQLite's datetime('now') has no zone and no "T"; everything else is already ISO */
+export function toIso(value: string | null | undefined): string {
+  if (!value) return new Date(0).toISOString()
+  if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)) return value.replace(' ', 'T') + '.000Z'
+  return value
+}
+
+export function toMillis(value: string | null | undefined): number {
+  const ms = Date.parse(toIso(value))
+  return Number.isNaN(ms) ? 0 : ms
+}
+
+function latest(...values: Array<string | null | undefined>): string {
+  return values.reduce<string>((a, b) => (toMillis(b) > toMillis(a) ? toIso(b) : a), toIso(null))
+}
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' ? value : null
+}
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+// ─── Categories ─────────────────────────────────────
+
+interface CategoryRow {
+  id: string
+  name: string
+  color: string | null
+  icon: string | null
+  created_at: string | null
+  updated_at: string | null
+}
+
+const categories: SyncEntity = {
+  name: 'categories',
+  fields: ['name', 'color', 'icon'],
+  groups: [],
+
+  loadLocal() {
+    const rows = getDatabase().prepare('SELECT * FROM categories').all() as CategoryRow[]
+    return new Map(
+      rows.map((r) => [
+        r.id,
+        {
+          id: r.id,
+          fields: { name: r.name, color: r.color, icon: r.icon },
+          createdAt: toIso(r.created_at),
+          updatedAt: toIso(r.updated_at ?? r.created_at)
+        }
+      ])
+    )
+  },
+
+  insertLocal(id, fields, updatedAt) {
+    const result = getDatabase()
+      .prepare(
+        `INSERT OR IGNORE INTO categories (id, name, color, icon, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(id, str(fields.name) ?? 'Untitled', str(fields.color), str(fields.icon), str(fields.createdAt) ?? updatedAt, updatedAt)
+    // A local category with the same name already exists
+    return result.changes > 0
+  },
+
+  updateLocal(id, fields, updatedAt) {
+    getDatabase()
+      .prepare('UPDATE categories SET name = ?, color = ?, icon = ?, updated_at = ? WHERE id = ?')
+      .run(str(fields.name), str(fields.color), str(fields.icon), updatedAt, id)
+  },
+
+  deleteLocal(id) {
+    getDatabase().prepare('DELETE FROM categories WHERE id = ?').run(id)
+  }
+}
+
+// ─── Books (with reading progress) ──────────────────
+// Only EPUBs are synced: the web reader can't open PDFs. Books that exist only in
+// the cloud are skipped — their file lives in Firebase Storage, not on this machine.
+
+interface BookRow {
+  id: string
+  title: string
+  author: string | null
+  description: string | null
+  language: string | null
+  total_words_estimate: number | null
+  category_id: string | null
+  reading_mode: string | null
+  series: string | null
+  series_index: number | null
+  rating: number | null
+  published_at: string | null
+  created_at: string
+  updated_at: string
+  cfi_position: string | null
+  percent_complete: number | null
+  current_chapter: string | null
+  progress_updated_at: string | null
+}
+
+const books: SyncEntity = {
+  name: 'books',
+  fields: [
+    'title',
+    'author',
+    'description',
+    'language',
+    'totalWordsEstimate',
+    'categoryId',
+    'readingMode',
+    'series',
+    'seriesIndex',
+    'rating',
+    'publishedAt',
+    'percentComplete',
+    'cfiPosition',
+    'currentChapter'
+  ],
+  groups: [
+    {
+      // Progress from two devices can't be merged field by field; keep the furthest position
+      fields: ['percentComplete', 'cfiPosition', 'currentChapter'],
+      pick: (local, remote) => {
+        const l = num(local.percentComplete) ?? 0
+        const r = num(remote.percentComplete) ?? 0
+        if (l === r) return null
+        return l > r ? 'local' : 'remote'
+      }
+    }
+  ],
+
+  loadLocal() {
+    const rows = getDatabase()
+      .prepare(
+        `SELECT b.id, b.title, b.author, b.description, b.language, b.total_words_estimate,
+                b.category_id, b.reading_mode, b.series, b.series_index, b.rating, b.published_at,
+                b.created_at, b.updated_at,
+                p.cfi_position, p.percent_complete, p.current_chapter, p.updated_at AS progress_updated_at
+         FROM books b
+         LEFT JOIN reading_progress p ON p.book_id = b.id
+         WHERE b.format = 'epub'`
+      )
+      .all() as BookRow[]
+    return new Map(
+      rows.map((r) => [
+        r.id,
+        {
+          id: r.id,
+          fields: {
+            title: r.title,
+            author: r.author,
+            description: r.description,
+            language: r.language,
+            totalWordsEstimate: r.total_words_estimate,
+            categoryId: r.category_id,
+            readingMode: r.reading_mode,
+            series: r.series,
+            seriesIndex: r.series_index,
+            rating: r.rating,
+            publishedAt: r.published_at,
+            percentComplete: r.percent_complete ?? 0,
+            cfiPosition: r.cfi_position,
+            currentChapter: r.current_chapter
+          },
+          createdAt: toIso(r.created_at),
+          updatedAt: latest(r.updated_at, r.progress_updated_at)
+        }
+      ])
+    )
+  },
+
+  insertLocal() {
+    return false
+  },
+
+  updateLocal(id, fields, updatedAt) {
+    const db = getDatabase()
+    const categoryId = str(fields.categoryId)
+    const categoryExists =
+      categoryId !== null && db.prepare('SELECT 1 FROM categories WHERE id = ?').get(categoryId) !== undefined
+
+    db.prepare(
+      `UPDATE books SET title = ?, author = ?, description = ?, language = ?, total_words_estimate = ?,
+         category_id = ?, reading_mode = ?, series = ?, series_index = ?, rating = ?, published_at = ?,
+         updated_at = ?
+       WHERE id = ?`
+    ).run(
+      str(fields.title),
+      str(fields.author),
+      str(fields.description),
+      str(fields.language),
+      num(fields.totalWordsEstimate),
+      categoryExists ? categoryId : null,
+      str(fields.readingMode),
+      str(fields.series),
+      num(fields.seriesIndex),
+      num(fields.rating),
+      str(fields.publishedAt),
+      updatedAt,
+      id
+    )
+    db.prepare(
+      `INSERT INTO reading_progress (book_id, cfi_position, percent_complete, current_chapter, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(book_id) DO UPDATE SET
+         cfi_position = excluded.cfi_position,
+         percent_complete = excluded.percent_complete,
+         current_chapter = excluded.current_chapter,
+         updated_at = excluded.updated_at`
+    ).run(id, str(fields.cfiPosition), num(fields.percentComplete) ?? 0, str(fields.currentChapter), updatedAt)
+  },
+
+  deleteLocal(id) {
+    deleteBookFiles(id)
+    getDatabase().prepare('DELETE FROM books WHERE id = ?').run(id)
+  },
+
+  async prepareCreate(id, remote) {
+    const book = getDatabase()
+      .prepare('SELECT file_path, original_path, cover_path FROM books WHERE id = ?')
+      .get(id) as { file_path: string; original_path: string | null; cover_path: string | null }
+
+    // Same Storage layout and duplicate-detection fields as uploads from the web app
+    // Catalog downloads record their acquisition URL, which makes no file name
+    const source = book.original_path && !/^https?:/i.test(book.original_path) ? book.original_path : book.file_path
+    const fileName = basename(source)
+    const data = readFileSync(book.file_path)
+    const epubStoragePath = `users/${remote.uid}/books/${id}/${fileName}`
+    await remote.upload(epubStoragePath, book.file_path)
+
+    let coverStoragePath: string | null = null
+    if (book.cover_path && existsSync(book.cover_path)) {
+      coverStoragePath = `users/${remote.uid}/books/${id}/cover${extname(book.cover_path)}`
+      await remote.upload(coverStoragePath, book.cover_path)
+    }
+
+    return {
+      epubStoragePath,
+      coverStoragePath,
+      fileName,
+      fileHash: createHash('sha256').update(data).digest('hex')
+    }
+  }
+}
+
+// ─── Highlights ─────────────────────────────────────
+
+interface HighlightRow {
+  id: string
+  book_id: string
+  cfi_range: string
+  text: string
+  color: string
+  chapter: string | null
+  created_at: string
+  updated_at: string | null
+}
+
+function bookExists(bookId: unknown): boolean {
+  return (
+    typeof bookId === 'string' &&
+    getDatabase().prepare("SELECT 1 FROM books WHERE id = ? AND format = 'epub'").get(bookId) !== undefined
+  )
+}
+
+const highlights: SyncEntity = {
+  name: 'highlights',
+  fields: ['bookId', 'cfiRange', 'text', 'color', 'chapter'],
+  groups: [],
+
+  loadLocal() {
+    const rows = getDatabase()
+      .prepare(
+        `SELECT h.* FROM highlights h
+         JOIN books b ON b.id = h.book_id
+         WHERE b.format = 'epub'`
+      )
+      .all() as HighlightRow[]
+    return new Map(
+      rows.map((r) => [
+        r.id,
+        {
+          id: r.id,
+          fields: { bookId: r.book_id, cfiRange: r.cfi_range, text: r.text, color: r.color, chapter: r.chapter },
+          createdAt: toIso(r.created_at),
+          updatedAt: toIso(r.updated_at ?? r.created_at)
+        }
+      ])
+    )
+  },
+
+  insertLocal(id, fields, updatedAt) {
+    if (!bookExists(fields.bookId)) return false
+    getDatabase()
+      .prepare(
+        `INSERT INTO highlights (id, book_id, cfi_range, text, color, chapter, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        id,
+        fields.bookId,
+        str(fields.cfiRange) ?? '',
+        str(fields.text) ?? '',
+        str(fields.color) ?? '#fef08a',
+        str(fields.chapter),
+        str(fields.createdAt) ?? updatedAt,
+        updatedAt
+      )
+    return true
+  },
+
+  updateLocal(id, fields, updatedAt) {
+    getDatabase()
+      .prepare('UPDATE highlights SET cfi_range = ?, text = ?, color = ?, chapter = ?, updated_at = ? WHERE id = ?')
+      .run(str(fields.cfiRange), str(fields.text), str(fields.color), str(fields.chapter), updatedAt, id)
+  },
+
+  deleteLocal(id) {
+    getDatabase().prepare('DELETE FROM highlights WHERE id = ?').run(id)
+  }
+}
+
+// ─── Notes ──────────────────────────────────────────
+
+interface NoteRow {
+  id: string
+  highlight_id: string | null
+  book_id: string
+  content: string
+  tags: string | null
+  created_at: string
+  updated_at: string
+}
+
+function parseTags(tags: string | null): string[] {
+  try {
+    const parsed = JSON.parse(tags || '[]')
+    return Array.isArray(parsed) ? parsed.filter((t): t is string => typeof t === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+function tagsJson(tags: unknown): string {
+  return JSON.stringify(Array.isArray(tags) ? tags.filter((t) => typeof t === 'string') : [])
+}
+
+function highlightExists(highlightId: string | null): boolean {
+  return (
+    highlightId !== null &&
+    getDatabase().prepare('SELECT 1 FROM highlights WHERE id = ?').get(highlightId) !== undefined
+  )
+}
+
+const notes: SyncEntity = {
+  name: 'notes',
+  fields: ['highlightId', 'bookId', 'content', 'tags'],
+  groups: [],
+
+  loadLocal() {
+    const rows = getDatabase()
+      .prepare(
+        `SELECT n.* FROM notes n
+         JOIN books b ON b.id = n.book_id
+         WHERE b.format = 'epub'`
+      )
+      .all() as NoteRow[]
+    return new Map(
+      rows.map((r) => [
+        r.id,
+        {
+          id: r.id,
+          fields: { highlightId: r.highlight_id, bookId: r.book_id, content: r.content, tags: parseTags(r.tags) },
+          createdAt: toIso(r.created_at),
+          updatedAt: toIso(r.updated_at)
+        }
+      ])
+    )
+  },
+
+  insertLocal(id, fields, updatedAt) {
+    if (!bookExists(fields.bookId)) return false
+    const highlightId = str(fields.highlightId)
+    getDatabase()
+      .prepare(
+        `INSERT INTO notes (id, highlight_id, book_id, content, tags, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        id,
+        highlightExists(highlightId) ? highlightId : null,
+        fields.bookId,
+        str(fields.content) ?? '',
+        tagsJson(fields.tags),
+        str(fields.createdAt) ?? updatedAt,
+        updatedAt
+      )
+    return true
+  },
+
+  updateLocal(id, fields, updatedAt) {
+    const highlightId = str(fields.highlightId)
+    getDatabase()
+      .prepare('UPDATE notes SET highlight_id = ?, content = ?, tags = ?, updated_at = ? WHERE id = ?')
+      .run(
+        highlightExists(highlightId) ? highlightId : null,
+        str(fields.content) ?? '',
+        tagsJson(fields.tags),
+        updatedAt,
+        id
+      )
+  },
+
+  deleteLocal(id) {
+    getDatabase().prepare('DELETE FROM notes WHERE id = ?').run(id)
+  }
+}
+
+/** In dependency order: a book's category and a note's highlight are synced first */
+export const SYNC_ENTITIES: SyncEntity[] = [categories, books, highlights, notes]
@@ -0,0 +1,102 @@
+import { readFileSync } from 'fs'
+import { DocFields, FirebaseOptions, RemoteDoc, RemoteStore, SyncConfig } from './types'
+
+const AUTH_EMULATOR_PORT = 9099
+const STORAGE_EMULATOR_PORT = 9199
+
+/** Project used against the emulator when no real Firebase config is set */
+const EMULATOR_OPTIONS: FirebaseOptions = {
+  apiKey: 'demo-key',
+  authDomain: 'demo-flareread.firebaseapp.com',
+  projectId: 'demo-flareread',
+  storageBucket: 'demo-flareread.appspot.com',
+  appId: 'demo-app'
+}
+
+export class SyncAuthError extends Error {}
+
+/**
+ * Sign in and return a RemoteStore backed by Firestore + Storage, in the same
+ * users/{uid}/... layout the web app reads. Firebase is loaded lazily so the
+ * SDK only costs anything once sync is turned on.
+ */
+export async function connectFirestore(
+  config: SyncConfig,
+  email: string,
+  password: string
+): Promise<RemoteStore> {
+  const { initializeApp, deleteApp } = await import('firebase/app')
+  const { getAuth, connectAuthEmulator, signInWithEmailAndPassword } = await import('firebase/auth')
+  const { getFirestore, connectFirestoreEmulator, collection, doc, getDocs, setDoc, deleteDoc, Timestamp } =
+    await import('firebase/firestore/lite')
+  const { getStorage, connectStorageEmulator, ref, uploadBytes } = await import('firebase/storage')
+
+  const emulatorHost = config.emulatorHost || process.env['FIRESTORE_EMULATOR_HOST'] || null
+  const options = config.firebase ?? (emulatorHost ? EMULATOR_OPTIONS : null)
+  if (!options) throw new SyncAuthError('Cloud sync is not configured')
+
+  // A named app so reconnecting after a config change doesn't clash with the previous instance
+  const app = initializeApp(options, `flareread-sync-${Date.now()}`)
+  const auth = getAuth(app)
+  const db = getFirestore(app)
+  const storage = getStorage(app)
+
+  if (emulatorHost) {
+    const [host, port] = emulatorHost.split(':')
+    connectFirestoreEmulator(db, host, Number(port) || 8080)
+    connectAuthEmulator(auth, `http://${host}:${AUTH_EMULATOR_PORT}`, { disableWarnings: true })
+    connectStorageEmulator(storage, host, STORAGE_EMULATOR_PORT)
+  }
+
+  let uid: string
+  try {
+    const credential = await signInWithEmailAndPassword(auth, email, password)
+    uid = credential.user.uid
+  } catch (err) {
+    await deleteApp(app)
+    const msg = err instanceof Error ? err.message : String(err)
+    throw new SyncAuthError(`Sign-in failed: ${msg}`)
+  }
+
+  const toPlain = (data: DocFields): DocFields =>
+    Object.fromEntries(
+      Object.entries(data).map(([k, v]) => [k, v instanceof Timestamp ? v.toDate().toISOString() : v])
+    )
+
+  return {
+    uid,
+
+    async list(name) {
+      const snap = await getDocs(collection(db, 'users', uid, name))
+      const docs = new Map<string, RemoteDoc>()
+      for (const d of snap.docs) {
+        const fields = toPlain(d.data())
+        const updatedAt = (fields.updatedAt ?? fields.createdAt ?? new Date(0).toISOString()) as string
+        docs.set(d.id, { id: d.id, fields, updatedAt })
+      }
+      return docs
+    },
+
+    async write(name, id, fields, timestampFields) {
+      const data = Object.fromEntries(
+        Object.entries(fields).map(([k, v]) => [
+          k,
+          timestampFields.includes(k) && typeof v === 'string' ? Timestamp.fromDate(new Date(v)) : v
+        ])
+      )
+      await setDoc(doc(db, 'users', uid, name, id), data, { merge: true })
+    },
+
+    async remove(name, id) {
+      await deleteDoc(doc(db, 'users', uid, name, id))
+    },
+
+    async upload(storagePath, filePath) {
+      await uploadBytes(ref(storage, storagePath), new Uint8Array(readFileSync(filePath)))
+    },
+
+    async dispose() {
+      await deleteApp(app)
+    }
+  }
+}
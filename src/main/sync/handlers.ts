@@ -0,0 +1,35 @@
+import { ipcMain } from 'electron'
+import { getSyncManager } from './SyncManager'
+import { SyncConfig } from './types'
+
+export function registerSyncHandlers(): void {
+  const manager = getSyncManager()
+
+  ipcMain.handle('sync:get-config', () => {
+    return manager.getConfig()
+  })
+
+  ipcMain.handle('sync:update-config', (_e, update: Partial<SyncConfig>) => {
+    return manager.updateConfig(update)
+  })
+
+  ipcMain.handle('sync:get-status', () => {
+    return manager.getStatus()
+  })
+
+  ipcMain.handle('sync:sign-in', async (_e, email: string, password: string) => {
+    try {
+      return { success: true, status: await manager.signIn(email, password) }
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+
+  ipcMain.handle('sync:sign-out', () => {
+    return manager.signOut()
+  })
+
+  ipcMain.handle('sync:run', () => {
+    return manager.syncNow()
+  })
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fieldsEqual, mergeFields } from './merge'
+import { SYNC_ENTITIES, SyncEntity } from './entities'
+
+vi.mock('electron', () => ({ app: {}, BrowserWindow: {} }))
+
+const notes = SYNC_ENTITIES.find((e) => e.name === 'notes') as SyncEntity
+const books = SYNC_ENTITIES.find((e) => e.name === 'books') as SyncEntity
+
+const EARLIER = '2026-03-01T10:00:00.000Z'
+const LATER = '2026-03-02T10:00:00.000Z'
+
+function note(content: string, tags: string[] = []) {
+  return { bookId: 'b1', highlightId: null, content, tags }
+}
+
+function progress(percentComplete: number, cfiPosition: string, currentChapter: string) {
+  return { title: 'Dune', author: 'Frank Herbert', percentComplete, cfiPosition, currentChapter }
+}
+
+describe('mergeFields', () => {
+  it('takes a field changed on one side only, whatever the timestamps', () => {
+    const base = note('original', ['quote'])
+    const merged = mergeFields(
+      notes,
+      base,
+      { fields: note('edited here', ['quote']), updatedAt: EARLIER },
+      { fields: note('original', ['quote', 'theme']), updatedAt: LATER }
+    )
+    expect(merged.content).toBe('edited here')
+    expect(merged.tags).toEqual(['quote', 'theme'])
+  })
+
+  it('lets the last writer win a field changed on both sides', () => {
+    const base = note('original')
+    const local = { fields: note('local edit'), updatedAt: LATER }
+    const remote = { fields: note('remote edit'), updatedAt: EARLIER }
+    expect(mergeFields(notes, base, local, remote).content).toBe('local edit')
+    expect(mergeFields(notes, base, { ...local, updatedAt: EARLIER }, { ...remote, updatedAt: LATER }).content).toBe(
+      'remote edit'
+    )
+  })
+
+  it('gives exact ties to the cloud so every device settles on the same value', () => {
+    const merged = mergeFields(
+      notes,
+      note('original'),
+      { fields: note('local edit'), updatedAt: LATER },
+      { fields: note('remote edit'), updatedAt: LATER }
+    )
+    expect(merged.content).toBe('remote edit')
+  })
+
+  it('treats a row without a base as changed on both sides', () => {
+    const merged = mergeFields(
+      notes,
+      null,
+      { fields: note('local'), updatedAt: LATER },
+      { fields: note('remote'), updatedAt: EARLIER }
+    )
+    expect(merged.content).toBe('local')
+  })
+
+  it('compares SQLite and ISO timestamps on the same clock', () => {
+    const merged = mergeFields(
+      notes,
+      note('original'),
+      { fields: note('local edit'), updatedAt: '2026-03-02 10:00:00' },
+      { fields: note('remote edit'), updatedAt: '2026-03-01T23:00:00.000Z' }
+    )
+    expect(merged.content).toBe('local edit')
+  })
+
+  it('keeps the furthest reading position even from the older side', () => {
+    const base = progress(10, 'epubcfi(/6/4!/4/2)', 'Ch. 1')
+    const merged = mergeFields(
+      books,
+      base,
+      { fields: progress(60, 'epubcfi(/6/14!/4/2)', 'Ch. 6'), updatedAt: EARLIER },
+      { fields: progress(30, 'epubcfi(/6/8!/4/2)', 'Ch. 3'), updatedAt: LATER }
+    )
+    expect(merged).toMatchObject({ percentComplete: 60, cfiPosition: 'epubcfi(/6/14!/4/2)', currentChapter: 'Ch. 6' })
+  })
+
+  it('moves the position fields as one unit', () => {
+    const base = progress(10, 'epubcfi(/6/4!/4/2)', 'Ch. 1')
+    // Only the chapter label changed locally, but the remote position is further on
+    const merged = mergeFields(
+      books,
+      base,
+      { fields: progress(10, 'epubcfi(/6/4!/4/2)', 'Chapter One'), updatedAt: LATER },
+      { fields: progress(40, 'epubcfi(/6/10!/4/2)', 'Ch. 4'), updatedAt: EARLIER }
+    )
+    expect(merged).toMatchObject({ percentComplete: 40, cfiPosition: 'epubcfi(/6/10!/4/2)', currentChapter: 'Ch. 4' })
+  })
+
+  it('falls back to last-writer-wins for positions at the same percentage', () => {
+    const merged = mergeFields(
+      books,
+      progress(10, 'epubcfi(/6/4!/4/2)', 'Ch. 1'),
+      { fields: progress(50, 'epubcfi(/6/12!/4/2)', 'Ch. 5'), updatedAt: EARLIER },
+      { fields: progress(50, 'epubcfi(/6/12!/4/8)', 'Ch. 5'), updatedAt: LATER }
+    )
+    expect(merged.cfiPosition).toBe('epubcfi(/6/12!/4/8)')
+  })
+
+  it('merges the other book fields independently of the position', () => {
+    const base = progress(10, 'epubcfi(/6/4!/4/2)', 'Ch. 1')
+    const merged = mergeFields(
+      books,
+      base,
+      { fields: { ...progress(20, 'epubcfi(/6/6!/4/2)', 'Ch. 2'), title: 'Dune (Deluxe)' }, updatedAt: EARLIER },
+      { fields: progress(5, 'epubcfi(/6/2!/4/2)', 'Prologue'), updatedAt: LATER }
+    )
+    expect(merged).toMatchObject({ title: 'Dune (Deluxe)', percentComplete: 20 })
+  })
+})
+
+describe('fieldsEqual', () => {
+  it('treats missing and null values alike', () => {
+    expect(fieldsEqual({ tags: null }, {}, ['tags'])).toBe(true)
+    expect(fieldsEqual({ tags: ['quote'] }, {}, ['tags'])).toBe(false)
+  })
+})
@@ -0,0 +1,61 @@
+import { DocFields } from './types'
+import { SyncEntity, toMillis } from './entities'
+
+interface Side {
+  fields: DocFields
+  updatedAt: string
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+function changed(side: DocFields, base: DocFields | null, fields: string[]): boolean {
+  if (!base) return true
+  return fields.some((f) => !same(side[f], base[f]))
+}
+
+/**
+ * Three-way merge of one row. A field changed on only one side since the last
+ * sync takes that side's value. When both sides changed it, the more recently
+ * updated side wins, with the cloud winning exact ties so every device settles
+ * on the same result. Field groups (reading progress) resolve as a unit with
+ * their own rule first.
+ */
+export function mergeFields(
+  entity: SyncEntity,
+  base: DocFields | null,
+  local: Side,
+  remote: Side
+): DocFields {
+  const lastWriter: 'local' | 'remote' =
+    toMillis(local.updatedAt) > toMillis(remote.updatedAt) ? 'local' : 'remote'
+
+  const resolve = (fields: string[], pick: () => 'local' | 'remote' | null): DocFields => {
+    const localChanged = changed(local.fields, base, fields)
+    const remoteChanged = changed(remote.fields, base, fields)
+    let winner: 'local' | 'remote'
+    if (localChanged && !remoteChanged) winner = 'local'
+    else if (remoteChanged && !localChanged) winner = 'remote'
+    else winner = pick() ?? lastWriter
+
+    const source = winner === 'local' ? local.fields : remote.fields
+    return Object.fromEntries(fields.map((f) => [f, source[f] ?? null]))
+  }
+
+  const merged: DocFields = {}
+  const grouped = new Set(entity.groups.flatMap((g) => g.fields))
+
+  for (const group of entity.groups) {
+    Object.assign(merged, resolve(group.fields, () => group.pick(local.fields, remote.fields)))
+  }
+  for (const field of entity.fields) {
+    if (grouped.has(field)) continue
+    Object.assign(merged, resolve([field], () => null))
+  }
+  return merged
+}
+
+export function fieldsEqual(a: DocFields, b: DocFields, fields: string[]): boolean {
+  return fields.every((f) => same(a[f], b[f]))
+}
@@ -0,0 +1,67 @@
+/** Firebase web config, as shown in the Firebase console for the web app */
+export interface FirebaseOptions {
+  apiKey: string
+  authDomain: string
+  projectId: string
+  storageBucket: string
+  appId: string
+}
+
+export interface SyncConfig {
+  enabled: boolean
+  firebase: FirebaseOptions | null
+  email: string | null
+  /** "host:port" of the Firestore emulator; when set, auth and storage use their default emulator ports */
+  emulatorHost: string | null
+  intervalMinutes: number
+}
+
+export const DEFAULT_SYNC_CONFIG: SyncConfig = {
+  enabled: false,
+  firebase: null,
+  email: null,
+  emulatorHost: null,
+  intervalMinutes: 15
+}
+
+export type SyncEntityName = 'categories' | 'books' | 'highlights' | 'notes'
+
+export type SyncState = 'idle' | 'syncing' | 'error'
+
+export interface SyncCounts {
+  pushed: number
+  pulled: number
+  deleted: number
+  skipped: number
+}
+
+export interface SyncStatus {
+  state: SyncState
+  signedIn: boolean
+  lastSyncAt: string | null
+  lastError: string | null
+  counts: SyncCounts | null
+}
+
+/** Plain document fields; Firestore Timestamps are converted to ISO strings at the remote boundary */
+export type DocFields = Record<string, unknown>
+
+export interface RemoteDoc {
+  id: string
+  fields: DocFields
+  updatedAt: string
+}
+
+/**
+ * The operations the sync engine needs from the cloud side.
+ * Collections are scoped to the signed-in user (users/{uid}/{collection}).
+ */
+export interface RemoteStore {
+  readonly uid: string
+  list(collection: string): Promise<Map<string, RemoteDoc>>
+  /** Merge-write fields into a document; `timestampFields` are stored as Firestore Timestamps */
+  write(collection: string, id: string, fields: DocFields, timestampFields: string[]): Promise<void>
+  remove(collection: string, id: string): Promise<void>
+  upload(storagePath: string, filePath: string): Promise<void>
+  dispose(): Promise<void>
+}
@@ -0,0 +1,515 @@
+import { app, BrowserWindow } from 'electron'
+import { randomUUID } from 'crypto'
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs'
+import { extname, join } from 'path'
+import { getDatabase } from '../database'
+import type { TextChunk } from '../../shared/tts/chunker'
+import { safeFileName } from '../../shared/annotations/util'
+import { encodeM4b, findFfmpeg } from './ffmpeg'
+import { getTtsService } from './TtsService'
+import { readSections } from './bookText'
+import { prepareSpeechText } from './lexicon'
+import { getBookLanguage } from './preferences'
+import { TtsCache } from './TtsCache'
+import type { TtsEngineId } from './TtsEngine'
+import { encodeWav, readWavPcm, WavWriter } from './wav'
+
+export type AudiobookFormat = 'm4b' | 'chapters'
+
+export type AudiobookJobState = 'queued' | 'rendering' | 'encoding' | 'paused' | 'done' | 'failed'
+
+export interface AudiobookChapter {
+  title: string
+  /**
+   * Spine documents read into this chapter. cacheLabel is the chapter label live
+   * playback keys its TtsCache entries with, so chunks already heard are reused.
+   */
+  sections: { href: string; cacheLabel: string; chunkCount: number }[]
+  chunkCount: number
+  doneChunks: number
+  /** Rendered WAV inside the job folder, set once the whole chapter is synthesized */
+  file: string | null
+  durationMs: number
+}
+
+export interface AudiobookJob {
+  id: string
+  bookId: string
+  title: string
+  author: string | null
+  engine: TtsEngineId
+  voiceId: string
+  rate: number
+  format: AudiobookFormat
+  /** The .m4b file, or the folder that receives per-chapter files */
+  outputPath: string
+  state: AudiobookJobState
+  chapters: AudiobookChapter[]
+  totalChunks: number
+  doneChunks: number
+  /** Progress of the final M4B encode or file copy, 0–100 */
+  encodePercent: number
+  error: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AudiobookRenderParams {
+  bookId: string
+  engine: TtsEngineId
+  voiceId: string
+  rate: number
+  format: AudiobookFormat
+  outputPath: string
+}
+
+export const FFMPEG_MISSING =
+  'M4B export needs ffmpeg. Install it (or set FFMPEG_PATH) and try again, or export per-chapter files instead.'
+
+/** Pause between chunks so sentences split across chunks don't run together */
+const CHUNK_GAP_MS = 250
+const BROADCAST_INTERVAL_MS = 250
+
+interface BookRow {
+  id: string
+  title: string
+  author: string | null
+  file_path: string
+  cover_path: string | null
+  format: string
+}
+
+/**
+ * Group spine documents into chapters. Consecutive documents under the same TOC
+ * entry become one chapter; without a TOC every document is its own chapter.
+ */
+function planChapters(bookTitle: string, filePath: string): AudiobookChapter[] {
+  const { sections, hasToc } = readSections(filePath)
+  const chapters: AudiobookChapter[] = []
+  let lastLabel: string | null = null
+
+  for (const section of sections) {
+    if (section.chunks.length === 0) continue
+    const ref = { href: section.href, cacheLabel: section.label || 'unknown', chunkCount: section.chunks.length }
+    const last = chapters[chapters.length - 1]
+    if (hasToc && last && lastLabel === section.label) {
+      last.sections.push(ref)
+      last.chunkCount += ref.chunkCount
+      continue
+    }
+    lastLabel = section.label
+    chapters.push({
+      title: section.label || (hasToc ? bookTitle : `Chapter ${chapters.length + 1}`),
+      sections: [ref],
+      chunkCount: ref.chunkCount,
+      doneChunks: 0,
+      file: null,
+      durationMs: 0
+    })
+  }
+
+  return chapters
+}
+
+function cueQuote(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`
+}
+
+/**
+ * Renders whole books to audio in the background with any TTS engine, one job at a
+ * time. Each chapter is written to the job folder as soon as it is complete, so
+ * a cancelled or interrupted job resumes at the first unfinished chapter; chunks
+ * inside that chapter come back from the TTS cache.
+ */
+export class AudiobookRenderer {
+  private rootDir: string
+  private jobs = new Map<string, AudiobookJob>()
+  private running: { jobId: string; abort: AbortController } | null = null
+  private lastBroadcast = 0
+
+  constructor() {
+    this.rootDir = join(app.getPath('userData'), 'audiobooks')
+    mkdirSync(this.rootDir, { recursive: true })
+    this.loadJobs()
+  }
+
+  // ─── Public API ────────────────────────────────────
+
+  listJobs(): AudiobookJob[] {
+    return [...this.jobs.values()]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((job) => this.snapshot(job))
+  }
+
+  async start(params: AudiobookRenderParams): Promise<AudiobookJob> {
+    const book = this.getBook(params.bookId)
+    if (params.format === 'm4b' && !(await findFfmpeg())) throw new Error(FFMPEG_MISSING)
+
+    // Same book, voice and speed: pick up where the earlier job stopped
+    const existing = [...this.jobs.values()].find(
+      (j) =>
+        j.bookId === book.id &&
+        j.engine === params.engine &&
+        j.voiceId === params.voiceId &&
+        j.rate === params.rate &&
+        j.state !== 'done'
+    )
+    if (existing) {
+      existing.format = params.format
+      existing.outputPath = params.outputPath
+      return this.resume(existing.id)
+    }
+
+    const chapters = planChapters(book.title, book.file_path)
+    if (chapters.length === 0) throw new Error('This book has no text to read aloud')
+
+    // A finished job for the same book is superseded by the new one
+    for (const job of [...this.jobs.values()]) {
+      if (job.bookId === book.id && job.state === 'done') this.discard(job.id)
+    }
+
+    const now = new Date().toISOString()
+    const job: AudiobookJob = {
+      id: randomUUID(),
+      bookId: book.id,
+      title: book.title,
+      author: book.author,
+      engine: params.engine,
+      voiceId: params.voiceId,
+      rate: params.rate,
+      format: params.format,
+      outputPath: params.outputPath,
+      state: 'queued',
+      chapters,
+      totalChunks: chapters.reduce((sum, c) => sum + c.chunkCount, 0),
+      doneChunks: 0,
+      encodePercent: 0,
+      error: null,
+      createdAt: now,
+      updatedAt: now
+    }
+    this.jobs.set(job.id, job)
+    mkdirSync(this.jobDir(job.id), { recursive: true })
+    this.save(job)
+    this.broadcast(job, true)
+    this.pump()
+    return this.snapshot(job)
+  }
+
+  resume(jobId: string): AudiobookJob {
+    const job = this.jobs.get(jobId)
+    if (!job) throw new Error('Audiobook job not found')
+    if (job.state === 'paused' || job.state === 'failed') {
+      this.update(job, { state: 'queued', error: null })
+      this.pump()
+    }
+    return this.snapshot(job)
+  }
+
+  /** Stop a job, keeping finished chapters so it can be resumed */
+  cancel(jobId: string): AudiobookJob | null {
+    const job = this.jobs.get(jobId)
+    if (!job) return null
+    if (job.state === 'queued' || job.state === 'rendering' || job.state === 'encoding') {
+      this.update(job, { state: 'paused' })
+      if (this.running?.jobId === jobId) this.running.abort.abort()
+    }
+    return this.snapshot(job)
+  }
+
+  /** Forget a job and delete its rendered chapters. Exported files are left alone. */
+  discard(jobId: string): boolean {
+    const job = this.jobs.get(jobId)
+    if (!job) return false
+    if (this.running?.jobId === jobId) this.running.abort.abort()
+    this.jobs.delete(jobId)
+    rmSync(this.jobDir(jobId), { recursive: true, force: true })
+    return true
+  }
+
+  destroy(): void {
+    if (!this.running) return
+    const job = this.jobs.get(this.running.jobId)
+    if (job) {
+      job.state = 'paused'
+      this.save(job)
+    }
+    this.running.abort.abort()
+    this.running = null
+  }
+
+  // ─── Rendering ─────────────────────────────────────
+
+  private pump(): void {
+    if (this.running) return
+    const next = [...this.jobs.values()]
+      .filter((j) => j.state === 'queued')
+      .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))[0]
+    if (next) void this.run(next)
+  }
+
+  private async run(job: AudiobookJob): Promise<void> {
+    const abort = new AbortController()
+    this.running = { jobId: job.id, abort }
+
+    try {
+      await this.renderChapters(job, abort.signal)
+      if (abort.signal.aborted) return
+
+      this.update(job, { state: 'encoding', encodePercent: 0 })
+      await this.writeOutput(job, abort.signal)
+      if (abort.signal.aborted) return
+
+      this.removeWorkFiles(job)
+      this.update(job, { state: 'done', encodePercent: 100 })
+    } catch (err) {
+      if (!abort.signal.aborted) {
+        console.error('Audiobook render failed:', err)
+        this.update(job, { state: 'failed', error: err instanceof Error ? err.message : String(err) })
+      }
+    } finally {
+      if (this.running?.jobId === job.id) this.running = null
+      this.pump()
+    }
+  }
+
+  private async renderChapters(job: AudiobookJob, signal: AbortSignal): Promise<void> {
+    const engine = getTtsService().getEngine(job.engine)
+    if (!engine.isReady()) throw new Error(`${engine.label} TTS is not installed`)
+
+    const book = this.getBook(job.bookId)
+    const { sections } = readSections(book.file_path)
+    const chunksByHref = new Map(sections.map((s) => [s.href, s.chunks]))
+    const dir = this.jobDir(job.id)
+
+    // Chapters finished in an earlier run count as done; the rest start over
+    for (const chapter of job.chapters) {
+      if (!chapter.file || !existsSync(join(dir, chapter.file))) {
+        chapter.file = null
+        chapter.doneChunks = 0
+      }
+    }
+    job.doneChunks = job.chapters.reduce((sum, c) => sum + c.doneChunks, 0)
+    this.update(job, { state: 'rendering' })
+
+    for (const [i, chapter] of job.chapters.entries()) {
+      if (chapter.file) continue
+
+      const name = `chapter-${String(i + 1).padStart(3, '0')}`
+      const partPath = join(dir, `${name}.part.wav`)
+      const writer = new WavWriter(partPath)
+      let written = false
+
+      try {
+        for (const ref of chapter.sections) {
+          for (const chunk of chunksByHref.get(ref.href) ?? []) {
+            const wavPath = await this.synthesize(job, ref.cacheLabel, chunk, signal)
+            if (signal.aborted || !wavPath) return
+
+            const { sampleRate, pcm } = readWavPcm(wavPath)
+            if (written) writer.appendSilence(CHUNK_GAP_MS)
+            writer.append(pcm, sampleRate)
+            written = true
+
+            chapter.doneChunks++
+            job.doneChunks++
+            this.broadcast(job)
+          }
+        }
+
+        chapter.durationMs = writer.finish({
+          title: chapter.title,
+          artist: job.author ?? undefined,
+          album: job.title,
+          track: i + 1
+        })
+      } catch (err) {
+        writer.abort()
+        throw err
+      } finally {
+        if (signal.aborted) writer.abort()
+      }
+
+      renameSync(partPath, join(dir, `${name}.wav`))
+      chapter.file = `${name}.wav`
+      // The book text may have changed since the job was planned
+      chapter.chunkCount = chapter.doneChunks
+      job.totalChunks = job.chapters.reduce((sum, c) => sum + c.chunkCount, 0)
+      this.update(job, {})
+    }
+  }
+
+  /** WAV path for one chunk, from the cache when live playback or an earlier run made it */
+  private async synthesize(
+    job: AudiobookJob,
+    cacheLabel: string,
+    chunk: TextChunk,
+    signal: AbortSignal
+  ): Promise<string | null> {
+    const tts = getTtsService()
+    const cache = tts.getCache()
+    const speech = prepareSpeechText(job.bookId, chunk.text, getBookLanguage(job.bookId))
+    const key = TtsCache.makeKey(job.bookId, cacheLabel, job.engine, job.voiceId, job.rate, chunk.index, speech.text)
+
+    const cached = cache.get(key)
+    if (cached) return cached
+    if (signal.aborted) return null
+
+    const { samples, sampleRate } = await tts
+      .getEngine(job.engine)
+      .synthesize(speech.text, { voiceId: job.voiceId, rate: job.rate })
+
+    // Cached even when cancelled meanwhile, so a resume doesn't redo it
+    return cache.put(key, encodeWav(samples, sampleRate), { bookId: job.bookId, terms: speech.terms })
+  }
+
+  private async writeOutput(job: AudiobookJob, signal: AbortSignal): Promise<void> {
+    const dir = this.jobDir(job.id)
+    const chapters = job.chapters
+      .filter((c) => c.file)
+      .map((c) => ({ file: join(dir, c.file!), title: c.title, durationMs: c.durationMs }))
+
+    const book = this.getBook(job.bookId)
+    const coverPath = book.cover_path && existsSync(book.cover_path) ? book.cover_path : null
+
+    if (job.format === 'm4b') {
+      const ffmpeg = await findFfmpeg()
+      if (!ffmpeg) throw new Error(FFMPEG_MISSING)
+
+      const partPath = `${job.outputPath}.part`
+      try {
+        await encodeM4b({
+          ffmpeg,
+          chapters,
+          title: job.title,
+          author: job.author,
+          coverPath,
+          outputPath: partPath,
+          workDir: dir,
+          signal,
+          onProgress: (percent) => {
+            job.encodePercent = percent
+            this.broadcast(job)
+          }
+        })
+      } catch (err) {
+        rmSync(partPath, { force: true })
+        throw err
+      }
+      renameSync(partPath, job.outputPath)
+      return
+    }
+
+    // Per-chapter files, a cover image and a CUE sheet / playlist carrying the chapter titles
+    mkdirSync(job.outputPath, { recursive: true })
+    const width = Math.max(2, String(chapters.length).length)
+    const cue = [`PERFORMER ${cueQuote(job.author ?? '')}`, `TITLE ${cueQuote(job.title)}`]
+    const m3u = ['#EXTM3U']
+
+    for (const [i, chapter] of chapters.entries()) {
+      if (signal.aborted) return
+      const track = String(i + 1).padStart(width, '0')
+      const fileName = `${track} - ${safeFileName(chapter.title).slice(0, 80)}.wav`
+      copyFileSync(chapter.file, join(job.outputPath, fileName))
+
+      cue.push(
+        `FILE ${cueQuote(fileName)} WAVE`,
+        `  TRACK ${String(i + 1).padStart(2, '0')} AUDIO`,
+        `    TITLE ${cueQuote(chapter.title)}`,
+        `    INDEX 01 00:00:00`
+      )
+      m3u.push(`#EXTINF:${Math.round(chapter.durationMs / 1000)},${chapter.title}`, fileName)
+
+      job.encodePercent = Math.round(((i + 1) / chapters.length) * 100)
+      this.broadcast(job)
+    }
+
+    if (coverPath) copyFileSync(coverPath, join(job.outputPath, `cover${extname(coverPath)}`))
+    const base = safeFileName(job.title)
+    writeFileSync(join(job.outputPath, `${base}.cue`), cue.join('\n') + '\n', 'utf-8')
+    writeFileSync(join(job.outputPath, `${base}.m3u`), m3u.join('\n') + '\n', 'utf-8')
+  }
+
+  /** Drop rendered chapters once exported; job.json stays so the UI can show the result */
+  private removeWorkFiles(job: AudiobookJob): void {
+    const dir = this.jobDir(job.id)
+    for (const file of readdirSync(dir)) {
+      if (file !== 'job.json') rmSync(join(dir, file), { force: true })
+    }
+    for (const chapter of job.chapters) chapter.file = null
+  }
+
+  // ─── Persistence ───────────────────────────────────
+
+  private jobDir(jobId: string): string {
+    return join(this.rootDir, jobId)
+  }
+
+  private loadJobs(): void {
+    for (const entry of readdirSync(this.rootDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue
+      try {
+        const job = JSON.parse(readFileSync(join(this.rootDir, entry.name, 'job.json'), 'utf-8')) as AudiobookJob
+        // Jobs from before engine selection were all Kokoro
+        job.engine ??= 'kokoro'
+        // Jobs interrupted by quitting wait for the user to resume them
+        if (job.state === 'queued' || job.state === 'rendering' || job.state === 'encoding') {
+          job.state = 'paused'
+        }
+        this.jobs.set(job.id, job)
+      } catch {
+        // Not a job folder, or a corrupted manifest
+      }
+    }
+  }
+
+  private save(job: AudiobookJob): void {
+    try {
+      writeFileSync(join(this.jobDir(job.id), 'job.json'), JSON.stringify(job), 'utf-8')
+    } catch (err) {
+      console.error('Failed to save audiobook job:', err)
+    }
+  }
+
+  private update(job: AudiobookJob, patch: Partial<AudiobookJob>): void {
+    Object.assign(job, patch, { updatedAt: new Date().toISOString() })
+    this.save(job)
+    this.broadcast(job, true)
+  }
+
+  private getBook(bookId: string): BookRow {
+    const book = getDatabase()
+      .prepare('SELECT id, title, author, file_path, cover_path, format FROM books WHERE id = ?')
+      .get(bookId) as BookRow | undefined
+    if (!book) throw new Error('Book not found')
+    if (book.format !== 'epub') throw new Error('Audiobook export is only available for EPUB books')
+    return book
+  }
+
+  private snapshot(job: AudiobookJob): AudiobookJob {
+    return { ...job, chapters: job.chapters.map((c) => ({ ...c, sections: [...c.sections] })) }
+  }
+
+  private broadcast(job: AudiobookJob, force = false): void {
+    const now = Date.now()
+    if (!force && now - this.lastBroadcast < BROADCAST_INTERVAL_MS) return
+    this.lastBroadcast = now
+
+    const snapshot = this.snapshot(job)
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send('tts:render-progress', snapshot)
+      }
+    }
+  }
+}
+
+// Singleton
+let instance: AudiobookRenderer | null = null
+
+export function getAudiobookRenderer(): AudiobookRenderer {
+  if (!instance) {
+    instance = new AudiobookRenderer()
+  }
+  return instance
+}
@@ -1,6 +1,7 @@
 import { app, BrowserWindow } from 'electron'
 import { join } from 'path'
 import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import type { SynthesizedAudio, SynthesizeOptions, TtsEngine, TtsEngineVoice } from './TtsEngine'
 
 export interface KokoroVoice {
   id: string
@@ -67,7 +68,11 @@ type KokoroTTSInstance = any
 const MODEL_ID = 'onnx-community/Kokoro-82M-v1.0-ONNX'
 const MARKER_FILE = '.kokoro-installed'
 
-export class KokoroManager {
+export class KokoroManager implements TtsEngine {
+  readonly id = 'kokoro'
+  readonly label = 'Kokoro'
+  readonly defaultVoiceId = 'af_heart'
+
   private modelDir: string
   private ttsInstance: KokoroTTSInstance | null = null
   private loadingPromise: Promise<KokoroTTSInstance> | null = null
@@ -86,9 +91,23 @@ export class KokoroManager {
     return this.isInstalled()
   }
 
-  getVoices(): Array<KokoroVoice & { installed: boolean }> {
+  getVoices(): TtsEngineVoice[] {
     const installed = this.isInstalled()
-    return KOKORO_VOICES.map((v) => ({ ...v, installed }))
+    return KOKORO_VOICES.map((v) => ({ ...v, engine: this.id, installed }))
+  }
+
+  async synthesize(text: string, options: SynthesizeOptions): Promise<SynthesizedAudio> {
+    const kokoro = await this.ensureLoaded()
+    options.signal?.throwIfAborted()
+
+    const result = await kokoro.generate(text, { voice: options.voiceId, speed: options.rate })
+    options.signal?.throwIfAborted()
+
+    // kokoro-js returns an object with audio/waveform + sampling_rate
+    return {
+      samples: result.audio ?? result.waveform,
+      sampleRate: result.sampling_rate ?? result.sampleRate ?? 24000
+    }
   }
 
   async install(): Promise<void> {
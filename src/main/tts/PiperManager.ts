@@ -1,9 +1,11 @@
 import { app, BrowserWindow } from 'electron'
 import { join } from 'path'
-import { existsSync, mkdirSync, createWriteStream, chmodSync, unlinkSync, createReadStream, writeFileSync } from 'fs'
+import { existsSync, mkdirSync, createWriteStream, chmodSync, unlinkSync, createReadStream, readFileSync } from 'fs'
+import { spawn } from 'child_process'
 import { pipeline } from 'stream/promises'
 import { createGunzip } from 'zlib'
 import { Readable } from 'stream'
+import type { SynthesizedAudio, SynthesizeOptions, TtsEngine, TtsEngineVoice } from './TtsEngine'
 
 export interface VoiceInfo {
   id: string
@@ -94,7 +96,13 @@ function getPiperDownloadUrl(): { url: string; isArchive: boolean; archiveType:
   }
 }
 
-export class PiperManager {
+const DEFAULT_VOICE = 'en_US-amy-medium'
+
+export class PiperManager implements TtsEngine {
+  readonly id = 'piper'
+  readonly label = 'Piper'
+  readonly defaultVoiceId = DEFAULT_VOICE
+
   private baseDir: string
   private piperDir: string
   private voicesDir: string
@@ -154,13 +162,57 @@ export class PiperManager {
   /**
    * Get all available voices with install status.
    */
-  getVoices(): Array<VoiceInfo & { installed: boolean }> {
+  getVoices(): TtsEngineVoice[] {
     return VOICES.map((v) => ({
-      ...v,
-      installed: this.isVoiceInstalled(v.id)
+      id: v.id,
+      engine: this.id,
+      name: v.name,
+      language: v.language,
+      installed: this.isInstalled() && this.isVoiceInstalled(v.id)
     }))
   }
 
+  /**
+   * Run the Piper binary on one chunk. Piper reads text on stdin and, with
+   * --output_raw, writes 16-bit mono PCM at the voice's sample rate to stdout.
+   */
+  async synthesize(text: string, options: SynthesizeOptions): Promise<SynthesizedAudio> {
+    if (!this.isInstalled()) throw new Error('Piper is not installed')
+    if (!this.isVoiceInstalled(options.voiceId)) throw new Error(`Piper voice not downloaded: ${options.voiceId}`)
+
+    const sampleRate = this.getSampleRate(options.voiceId)
+    const args = [
+      '--model', this.getModelPath(options.voiceId),
+      '--config', this.getConfigPath(options.voiceId),
+      '--output_raw',
+      // Piper's speed control is a phoneme length multiplier
+      '--length_scale', String(1 / options.rate)
+    ]
+
+    const pcm = await new Promise<Buffer>((resolve, reject) => {
+      const child = spawn(this.getBinaryPath(), args, { signal: options.signal, windowsHide: true })
+      const chunks: Buffer[] = []
+      let stderr = ''
+      child.stdout.on('data', (data: Buffer) => chunks.push(data))
+      child.stderr.on('data', (data: Buffer) => {
+        stderr = (stderr + data.toString()).slice(-1000)
+      })
+      child.on('error', reject)
+      child.on('close', (code) => {
+        if (code === 0) resolve(Buffer.concat(chunks))
+        else reject(new Error(`Piper exited with code ${code}: ${stderr.trim().split('\n').pop() ?? ''}`))
+      })
+      // One line per utterance; Piper would otherwise pause at every newline
+      child.stdin.end(text.replace(/\s+/g, ' ') + '\n')
+    })
+
+    const samples = new Float32Array(Math.floor(pcm.length / 2))
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = pcm.readInt16LE(i * 2) / 0x8000
+    }
+    return { samples, sampleRate }
+  }
+
   /**
    * Download and install the Piper binary.
    */
@@ -223,11 +275,20 @@ export class PiperManager {
    */
   async install(): Promise<void> {
     await this.installBinary()
-    await this.downloadVoice('en_US-amy-medium')
+    await this.downloadVoice(DEFAULT_VOICE)
   }
 
   // ─── Private ───────────────────────────────────────
 
+  private getSampleRate(voiceId: string): number {
+    try {
+      const config = JSON.parse(readFileSync(this.getConfigPath(voiceId), 'utf-8'))
+      return config?.audio?.sample_rate ?? 22050
+    } catch {
+      return 22050
+    }
+  }
+
   private broadcast(channel: string, data: unknown): void {
     for (const win of BrowserWindow.getAllWindows()) {
       if (!win.isDestroyed()) {
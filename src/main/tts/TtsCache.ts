@@ -8,12 +8,21 @@ import {
   writeFileSync,
   unlinkSync
 } from 'fs'
+import type { TtsEngineId } from './TtsEngine'
 
 interface CacheEntry {
   key: string
   file: string
   sizeBytes: number
   accessedAt: number
+  bookId?: string
+  /** Pronunciation terms applied to the chunk, so editing a rule can drop its audio */
+  terms?: string[]
+}
+
+export interface CacheEntryInfo {
+  bookId?: string
+  terms?: string[]
 }
 
 interface CacheManifest {
@@ -37,17 +46,21 @@ export class TtsCache {
   }
 
   /**
-   * Generate a cache key for a chunk.
+   * Generate a cache key for a chunk. The engine is part of it since voice ids
+   * are only unique within one engine. chunkText is the text as synthesized,
+   * after pronunciation rules and normalization, so a rule edit changes the key
+   * of every chunk it touches.
    */
   static makeKey(
     bookId: string,
     chapterHref: string,
+    engine: TtsEngineId,
     voiceId: string,
     rate: number,
     chunkIndex: number,
     chunkText: string
   ): string {
-    const input = `${bookId}|${chapterHref}|${voiceId}|${rate}|${chunkIndex}|${chunkText}`
+    const input = `${bookId}|${chapterHref}|${engine}|${voiceId}|${rate}|${chunkIndex}|${chunkText}`
     return createHash('sha256').update(input).digest('hex').slice(0, 16)
   }
 
@@ -76,7 +89,7 @@ export class TtsCache {
   /**
    * Store a WAV file in the cache and return its path.
    */
-  put(key: string, wavBuffer: Buffer): string {
+  put(key: string, wavBuffer: Buffer, info: CacheEntryInfo = {}): string {
     const fileName = `${key}.wav`
     const filePath = join(this.cacheDir, fileName)
 
@@ -89,7 +102,9 @@ export class TtsCache {
       key,
       file: fileName,
       sizeBytes: wavBuffer.length,
-      accessedAt: Date.now()
+      accessedAt: Date.now(),
+      ...(info.bookId ? { bookId: info.bookId } : {}),
+      ...(info.terms?.length ? { terms: info.terms } : {})
     })
 
     this.recalcTotal()
@@ -128,6 +143,31 @@ export class TtsCache {
     return freed
   }
 
+  /**
+   * Delete the entries synthesized with a pronunciation term, optionally only
+   * for one book. Returns the number of entries removed.
+   */
+  invalidateTerms(terms: string[], bookId: string | null): number {
+    const wanted = new Set(terms.map((t) => t.toLowerCase()))
+    const stale = this.manifest.entries.filter(
+      (e) => e.terms?.some((t) => wanted.has(t)) && (bookId === null || e.bookId === bookId)
+    )
+    if (stale.length === 0) return 0
+
+    for (const entry of stale) {
+      try {
+        unlinkSync(join(this.cacheDir, entry.file))
+      } catch {
+        // Already gone
+      }
+    }
+    const staleKeys = new Set(stale.map((e) => e.key))
+    this.manifest.entries = this.manifest.entries.filter((e) => !staleKeys.has(e.key))
+    this.recalcTotal()
+    this.saveManifest()
+    return stale.length
+  }
+
   /**
    * Get cache stats.
    */
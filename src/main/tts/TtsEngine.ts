@@ -0,0 +1,53 @@
+export type TtsEngineId = 'kokoro' | 'piper'
+
+export interface TtsEngineVoice {
+  id: string
+  engine: TtsEngineId
+  name: string
+  /** BCP 47 tag or bare language code, e.g. "en-US" or "es" */
+  language: string
+  gender?: 'female' | 'male'
+  installed: boolean
+}
+
+export interface TtsEngineStatus {
+  id: TtsEngineId
+  label: string
+  installed: boolean
+  ready: boolean
+}
+
+export interface SynthesizedAudio {
+  samples: Float32Array
+  sampleRate: number
+}
+
+export interface SynthesizeOptions {
+  voiceId: string
+  rate: number
+  signal?: AbortSignal
+}
+
+/**
+ * A speech engine the TTS service, the audiobook renderer and the IPC layer can
+ * drive without knowing which one it is.
+ */
+export interface TtsEngine {
+  readonly id: TtsEngineId
+  readonly label: string
+  /** Voice used until the user picks one */
+  readonly defaultVoiceId: string
+
+  /** Engine files are on disk */
+  isInstalled(): boolean
+  /** Installed and has at least one usable voice */
+  isReady(): boolean
+  getVoices(): TtsEngineVoice[]
+  install(): Promise<void>
+  downloadVoice(voiceId: string): Promise<void>
+  synthesize(text: string, options: SynthesizeOptions): Promise<SynthesizedAudio>
+}
+
+export function engineStatus(engine: TtsEngine): TtsEngineStatus {
+  return { id: engine.id, label: engine.label, installed: engine.isInstalled(), ready: engine.isReady() }
+}
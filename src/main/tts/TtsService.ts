@@ -1,17 +1,57 @@
 import { BrowserWindow } from 'electron'
+import { randomUUID } from 'crypto'
+import { getDatabase } from '../database'
 import { KokoroManager } from './KokoroManager'
+import { PiperManager } from './PiperManager'
 import { TtsCache } from './TtsCache'
+import { TtsEngine, TtsEngineId, TtsEngineVoice } from './TtsEngine'
+import { getBookLanguage, rememberVoice, resolveVoice } from './preferences'
+import { prepareSpeechText, SpeechText } from './lexicon'
+import { encodeWav, readWavPcm } from './wav'
+import { alignWords, WordTiming } from './alignment'
+import { findSection, readSections, sameSectionHref, SectionText } from './bookText'
+import { getListeningPosition, saveListeningPosition } from './listening'
 
 export type TtsState = 'idle' | 'loading' | 'speaking' | 'paused'
 
+export type SleepTimerSpec =
+  | { mode: 'minutes'; minutes: number }
+  | { mode: 'chapter' }
+  | { mode: 'chunks'; count: number }
+
+export interface SleepTimerState {
+  mode: SleepTimerSpec['mode']
+  /** Epoch ms the 'minutes' timer runs out */
+  endsAt: number | null
+  /** Chunks still to play in 'chunks' mode, the current one included */
+  chunksLeft: number | null
+  /** Playback stops when the current chunk ends, so the player fades it out */
+  endsWithChunk: boolean
+}
+
+/** A book or one of its chapters waiting to be read after the current one */
+export interface TtsQueueItem {
+  id: string
+  bookId: string
+  title: string
+  /** Spine document to start at; null resumes the book where listening stopped */
+  sectionHref: string | null
+  label: string
+}
+
 export interface TtsSnapshot {
   state: TtsState
   bookId: string | null
   chapterHref: string | null
+  /** Spine document being read, when playback can continue into the next one */
+  sectionHref: string | null
+  engine: TtsEngineId
   voiceId: string
   rate: number
   currentChunkIndex: number
   totalChunks: number
+  sleep: SleepTimerState | null
+  queue: TtsQueueItem[]
 }
 
 interface ChunkData {
@@ -20,57 +60,31 @@ interface ChunkData {
   startOffset: number
 }
 
-const DEFAULT_VOICE = 'af_heart'
 const DEFAULT_RATE = 1.0
 
-/**
- * Encode Float32 audio samples into a WAV buffer (mono, 16-bit PCM).
- */
-function encodeWav(samples: Float32Array, sampleRate: number): Buffer {
-  const bitsPerSample = 16
-  const bytesPerSample = bitsPerSample / 8
-  const dataSize = samples.length * bytesPerSample
-  const buffer = Buffer.alloc(44 + dataSize)
-
-  // RIFF header
-  buffer.write('RIFF', 0)
-  buffer.writeUInt32LE(36 + dataSize, 4)
-  buffer.write('WAVE', 8)
-
-  // fmt chunk
-  buffer.write('fmt ', 12)
-  buffer.writeUInt32LE(16, 16)
-  buffer.writeUInt16LE(1, 20) // PCM
-  buffer.writeUInt16LE(1, 22) // mono
-  buffer.writeUInt32LE(sampleRate, 24)
-  buffer.writeUInt32LE(sampleRate * bytesPerSample, 28)
-  buffer.writeUInt16LE(bytesPerSample, 32)
-  buffer.writeUInt16LE(bitsPerSample, 34)
-
-  // data chunk
-  buffer.write('data', 36)
-  buffer.writeUInt32LE(dataSize, 40)
-
-  for (let i = 0; i < samples.length; i++) {
-    const s = Math.max(-1, Math.min(1, samples[i]))
-    buffer.writeInt16LE(s < 0 ? s * 0x8000 : s * 0x7fff, 44 + i * 2)
-  }
-
-  return buffer
-}
-
 export class TtsService {
-  private kokoroManager: KokoroManager
+  private engines: Record<TtsEngineId, TtsEngine>
   private cache: TtsCache
 
   private state: TtsState = 'idle'
   private bookId: string | null = null
+  private bookLanguage: string | null = null
   private chapterHref: string | null = null
-  private voiceId: string = DEFAULT_VOICE
+  private sectionHref: string | null = null
+  private engine: TtsEngine
+  private voiceId: string
   private rate: number = DEFAULT_RATE
   private chunks: ChunkData[] = []
   private currentChunkIndex: number = 0
 
+  // Spine sections of the book being read, for continuing past the chapter end
+  private bookSections: { bookId: string; sections: SectionText[] } | null = null
+  private queue: TtsQueueItem[] = []
+
+  // Sleep timer
+  private sleep: { spec: SleepTimerSpec; endsAt: number | null; chunksLeft: number | null } | null = null
+  private sleepTimeout: ReturnType<typeof setTimeout> | null = null
+
   // Cancellation
   private activeAbort: AbortController | null = null
   private preBufferAbort: AbortController | null = null
@@ -83,8 +97,10 @@ export class TtsService {
   private onStateChangeCallbacks: Array<(state: TtsState) => void> = []
 
   constructor() {
-    this.kokoroManager = new KokoroManager()
+    this.engines = { kokoro: new KokoroManager(), piper: new PiperManager() }
     this.cache = new TtsCache()
+    this.engine = this.engines.kokoro
+    this.voiceId = this.engine.defaultVoiceId
   }
 
   // ─── Public API ────────────────────────────────────
@@ -94,15 +110,38 @@ export class TtsService {
       state: this.state,
       bookId: this.bookId,
       chapterHref: this.chapterHref,
+      sectionHref: this.sectionHref,
+      engine: this.engine.id,
       voiceId: this.voiceId,
       rate: this.rate,
       currentChunkIndex: this.currentChunkIndex,
-      totalChunks: this.chunks.length
+      totalChunks: this.chunks.length,
+      sleep: this.sleep && {
+        mode: this.sleep.spec.mode,
+        endsAt: this.sleep.endsAt,
+        chunksLeft: this.sleep.chunksLeft,
+        endsWithChunk: this.sleepEndsWithChunk()
+      },
+      queue: [...this.queue]
     }
   }
 
-  getKokoroManager(): KokoroManager {
-    return this.kokoroManager
+  getEngine(id: TtsEngineId): TtsEngine {
+    return this.engines[id] ?? this.engines.kokoro
+  }
+
+  getEngines(): TtsEngine[] {
+    return Object.values(this.engines)
+  }
+
+  /** Every engine's voices in one list, tagged with their engine */
+  getVoices(): TtsEngineVoice[] {
+    return this.getEngines().flatMap((e) => e.getVoices())
+  }
+
+  /** Engine and voice a book would be read with right now */
+  resolveVoice(bookId: string | null): { engine: TtsEngineId; voiceId: string } {
+    return resolveVoice(this.getEngines(), bookId ? getBookLanguage(bookId) : null)
   }
 
   getCache(): TtsCache {
@@ -116,38 +155,33 @@ export class TtsService {
   async speak(params: {
     bookId: string
     chapterHref: string
+    /** Spine document the chunks come from; lets playback go on into the next one */
+    sectionHref?: string
     chunks: ChunkData[]
+    /** Without it, a chapter resumes where listening last stopped in it */
     startChunkIndex?: number
+    /** Both or neither: without them the voice is picked from preferences and the book's language */
+    engine?: TtsEngineId
     voiceId?: string
     rate?: number
   }): Promise<TtsSnapshot> {
     this.cancelAll()
 
     this.bookId = params.bookId
+    this.bookLanguage = getBookLanguage(params.bookId)
     this.chapterHref = params.chapterHref
+    this.sectionHref = params.sectionHref ?? null
     this.chunks = params.chunks
-    this.currentChunkIndex = params.startChunkIndex ?? 0
-    if (params.voiceId) this.voiceId = params.voiceId
+    this.currentChunkIndex = params.startChunkIndex ?? this.savedChunkIndex()
+    const choice =
+      params.engine && params.voiceId
+        ? { engine: params.engine, voiceId: params.voiceId }
+        : resolveVoice(this.getEngines(), this.bookLanguage)
+    this.engine = this.getEngine(choice.engine)
+    this.voiceId = choice.voiceId
     if (params.rate) this.rate = params.rate
 
-    if (this.chunks.length === 0) {
-      this.setState('idle')
-      return this.getSnapshot()
-    }
-
-    if (!this.kokoroManager.isReady()) {
-      this.broadcastError('Kokoro TTS is not installed', 'NOT_INSTALLED')
-      this.setState('idle')
-      return this.getSnapshot()
-    }
-
-    this.setState('loading')
-    await this.synthesizeAndSendChunk(this.currentChunkIndex)
-    this.setState('speaking')
-
-    this.preBufferNext()
-
-    return this.getSnapshot()
+    return this.startChunks()
   }
 
   pause(): TtsSnapshot {
@@ -166,17 +200,27 @@ export class TtsService {
 
   stop(): TtsSnapshot {
     this.cancelAll()
+    this.clearSleepTimer()
     this.chunks = []
     this.currentChunkIndex = 0
     this.bookId = null
+    this.bookLanguage = null
     this.chapterHref = null
+    this.sectionHref = null
     this.setState('idle')
     return this.getSnapshot()
   }
 
   async nextChunk(): Promise<TtsSnapshot> {
+    if (this.sleep) {
+      if (this.sleep.chunksLeft !== null) this.sleep.chunksLeft--
+      if (this.sleep.chunksLeft === 0 || (this.sleep.spec.mode === 'chapter' && this.atChapterEnd())) {
+        return this.sleepExpired(true)
+      }
+    }
+
     if (this.currentChunkIndex >= this.chunks.length - 1) {
-      return this.stop()
+      return this.continueListening()
     }
 
     this.currentChunkIndex++
@@ -186,10 +230,10 @@ export class TtsService {
 
     // Use pre-buffered WAV if available
     if (this.preBufferedWavPath && this.preBufferedChunkIndex === this.currentChunkIndex) {
-      const url = this.cache.getUrl(this.preBufferedWavPath)
-      this.broadcastChunkReady(this.currentChunkIndex, url)
+      this.broadcastChunkReady(this.currentChunkIndex, this.preBufferedWavPath)
       this.preBufferedWavPath = null
       this.preBufferedChunkIndex = -1
+      this.rememberPosition()
       this.setState('speaking')
       this.preBufferNext()
       return this.getSnapshot()
@@ -216,8 +260,11 @@ export class TtsService {
     return this.getSnapshot()
   }
 
-  async setVoice(voiceId: string): Promise<TtsSnapshot> {
+  /** Switch voice (and engine, if given) and remember the pick for this book's language */
+  async setVoice(voiceId: string, engineId?: TtsEngineId): Promise<TtsSnapshot> {
+    if (engineId) this.engine = this.getEngine(engineId)
     this.voiceId = voiceId
+    rememberVoice({ engine: this.engine.id, voiceId }, this.bookLanguage)
     if (this.state === 'speaking' || this.state === 'paused') {
       this.cancelAll()
       this.setState('loading')
@@ -228,6 +275,13 @@ export class TtsService {
     return this.getSnapshot()
   }
 
+  /** Make an engine the user's default and continue with its last used voice */
+  async setEngine(engineId: TtsEngineId): Promise<TtsSnapshot> {
+    const engine = this.getEngine(engineId)
+    const voiceId = this.voiceId && this.engine === engine ? this.voiceId : this.resolveEngineVoice(engine)
+    return this.setVoice(voiceId, engine.id)
+  }
+
   async setRate(rate: number): Promise<TtsSnapshot> {
     this.rate = rate
     if (this.state === 'speaking' || this.state === 'paused') {
@@ -240,6 +294,72 @@ export class TtsService {
     return this.getSnapshot()
   }
 
+  /**
+   * Stop after a number of minutes, at the end of the chapter or after a number
+   * of chunks; null turns the timer off. The player fades the audio out before.
+   */
+  setSleepTimer(spec: SleepTimerSpec | null): TtsSnapshot {
+    this.clearSleepTimer()
+    if (spec?.mode === 'minutes') {
+      const ms = Math.max(1, spec.minutes) * 60_000
+      this.sleep = { spec, endsAt: Date.now() + ms, chunksLeft: null }
+      this.sleepTimeout = setTimeout(() => this.sleepExpired(false), ms)
+    } else if (spec?.mode === 'chunks') {
+      this.sleep = { spec, endsAt: null, chunksLeft: Math.max(1, Math.round(spec.count)) }
+    } else if (spec) {
+      this.sleep = { spec, endsAt: null, chunksLeft: null }
+    }
+    this.broadcastState()
+    return this.getSnapshot()
+  }
+
+  // ─── Queue ─────────────────────────────────────────
+
+  /** Queue a book (from where listening stopped) or one of its chapters */
+  enqueue(bookId: string, sectionHref: string | null = null): TtsSnapshot {
+    const book = getDatabase().prepare('SELECT title FROM books WHERE id = ?').get(bookId) as
+      | { title: string }
+      | undefined
+    if (!book) throw new Error('Book not found')
+    const section = sectionHref ? findSection(this.sectionsFor(bookId), sectionHref) : undefined
+    this.queue.push({
+      id: randomUUID(),
+      bookId,
+      title: book.title,
+      sectionHref: section?.href ?? null,
+      label: section?.label ?? ''
+    })
+    this.broadcastState()
+    return this.getSnapshot()
+  }
+
+  removeFromQueue(id: string): TtsSnapshot {
+    this.queue = this.queue.filter((item) => item.id !== id)
+    this.broadcastState()
+    return this.getSnapshot()
+  }
+
+  clearQueue(): TtsSnapshot {
+    this.queue = []
+    this.broadcastState()
+    return this.getSnapshot()
+  }
+
+  /** Skip the rest of what's playing and start the next queued item */
+  async playNext(): Promise<TtsSnapshot> {
+    if (this.queue.length === 0) return this.getSnapshot()
+    return this.continueWithQueue()
+  }
+
+  /**
+   * Pronunciation rules changed: forget the pre-buffered chunk, which may have
+   * been synthesized with the old ones. The chunk playing now is left alone.
+   */
+  refreshSpeech(): void {
+    this.cancelPreBuffer()
+    if (this.state === 'speaking' || this.state === 'paused') this.preBufferNext()
+  }
+
   getState(): TtsState {
     return this.state
   }
@@ -250,6 +370,7 @@ export class TtsService {
 
   destroy(): void {
     this.cancelAll()
+    this.clearSleepTimer()
     this.state = 'idle'
     this.chunks = []
   }
@@ -272,59 +393,207 @@ export class TtsService {
     }
   }
 
+  private async startChunks(): Promise<TtsSnapshot> {
+    if (this.chunks.length === 0) {
+      this.setState('idle')
+      return this.getSnapshot()
+    }
+
+    if (!this.engine.isReady()) {
+      this.broadcastError(`${this.engine.label} TTS is not installed`, 'NOT_INSTALLED')
+      this.setState('idle')
+      return this.getSnapshot()
+    }
+
+    this.setState('loading')
+    await this.synthesizeAndSendChunk(this.currentChunkIndex)
+    this.setState('speaking')
+
+    this.preBufferNext()
+
+    return this.getSnapshot()
+  }
+
+  /** Spine sections of a book with something to read; empty for PDFs and unreadable files */
+  private sectionsFor(bookId: string): SectionText[] {
+    if (this.bookSections?.bookId === bookId) return this.bookSections.sections
+    let sections: SectionText[] = []
+    try {
+      const book = getDatabase().prepare('SELECT file_path, format FROM books WHERE id = ?').get(bookId) as
+        | { file_path: string; format: string }
+        | undefined
+      if (book && book.format !== 'pdf') {
+        sections = readSections(book.file_path).sections.filter((s) => s.chunks.length > 0)
+      }
+    } catch (err) {
+      console.warn('Could not read book sections for read-aloud:', err)
+    }
+    this.bookSections = { bookId, sections }
+    return sections
+  }
+
+  private nextSection(): SectionText | null {
+    if (!this.bookId || !this.sectionHref) return null
+    const sections = this.sectionsFor(this.bookId)
+    const index = sections.findIndex((s) => sameSectionHref(s.href, this.sectionHref))
+    return index >= 0 ? (sections[index + 1] ?? null) : null
+  }
+
+  /** Last chunk of the chapter; a chapter split over several spine documents ends with the last one */
+  private atChapterEnd(): boolean {
+    if (this.currentChunkIndex < this.chunks.length - 1) return false
+    const next = this.nextSection()
+    return !next || next.label !== this.chapterHref
+  }
+
+  private sleepEndsWithChunk(): boolean {
+    if (!this.sleep) return false
+    if (this.sleep.spec.mode === 'chapter') return this.atChapterEnd()
+    return this.sleep.chunksLeft === 1
+  }
+
+  private savedChunkIndex(): number {
+    if (!this.bookId || !this.sectionHref) return 0
+    const saved = getListeningPosition(this.bookId)
+    return saved && sameSectionHref(saved.href, this.sectionHref) && saved.chunkIndex < this.chunks.length
+      ? saved.chunkIndex
+      : 0
+  }
+
+  private rememberPosition(): void {
+    if (!this.bookId || !this.sectionHref) return
+    saveListeningPosition(this.bookId, { href: this.sectionHref, chunkIndex: this.currentChunkIndex })
+  }
+
+  /** The chapter is done: read on into the next one, else the next queued item, else stop */
+  private async continueListening(): Promise<TtsSnapshot> {
+    const next = this.nextSection()
+    if (next) return this.startSection(next, 0)
+
+    // Finished the book; start it from the top next time
+    if (this.bookId && this.sectionHref) saveListeningPosition(this.bookId, null)
+    return this.continueWithQueue()
+  }
+
+  private async startSection(section: SectionText, startChunkIndex: number): Promise<TtsSnapshot> {
+    this.cancelAll()
+    this.sectionHref = section.href
+    this.chapterHref = section.label || 'unknown'
+    this.chunks = section.chunks
+    this.currentChunkIndex = Math.min(startChunkIndex, section.chunks.length - 1)
+    this.broadcastSection()
+    return this.startChunks()
+  }
+
+  private async playQueueItem(item: TtsQueueItem): Promise<TtsSnapshot> {
+    const sections = this.sectionsFor(item.bookId)
+    const saved = item.sectionHref ? null : getListeningPosition(item.bookId)
+    const href = item.sectionHref ?? saved?.href ?? null
+    const index = href ? sections.findIndex((s) => sameSectionHref(s.href, href)) : 0
+    const section = sections[Math.max(0, index)]
+    if (!section) {
+      this.broadcastError(`"${item.title}" has no text to read aloud`, 'QUEUE_SKIPPED')
+      return this.continueWithQueue()
+    }
+
+    if (item.bookId !== this.bookId) {
+      this.bookId = item.bookId
+      this.bookLanguage = getBookLanguage(item.bookId)
+      const choice = resolveVoice(this.getEngines(), this.bookLanguage)
+      this.engine = this.getEngine(choice.engine)
+      this.voiceId = choice.voiceId
+    }
+    const startChunk = saved && index >= 0 ? saved.chunkIndex : 0
+    return this.startSection(section, startChunk)
+  }
+
+  private async continueWithQueue(): Promise<TtsSnapshot> {
+    const item = this.queue.shift()
+    return item ? this.playQueueItem(item) : this.stop()
+  }
+
+  /**
+   * Sleep timer ran out. After a finished chunk, listening picks up with the
+   * next one; cut off mid-chunk, it repeats the chunk.
+   */
+  private sleepExpired(chunkFinished: boolean): TtsSnapshot {
+    if (this.bookId && this.sectionHref) {
+      if (!chunkFinished || this.currentChunkIndex < this.chunks.length - 1) {
+        saveListeningPosition(this.bookId, {
+          href: this.sectionHref,
+          chunkIndex: this.currentChunkIndex + (chunkFinished ? 1 : 0)
+        })
+      } else {
+        const next = this.nextSection()
+        saveListeningPosition(this.bookId, next ? { href: next.href, chunkIndex: 0 } : null)
+      }
+    }
+    return this.stop()
+  }
+
+  private clearSleepTimer(): void {
+    if (this.sleepTimeout) clearTimeout(this.sleepTimeout)
+    this.sleepTimeout = null
+    this.sleep = null
+  }
+
+  private speechFor(chunk: ChunkData): SpeechText {
+    return prepareSpeechText(this.bookId, chunk.text, this.bookLanguage)
+  }
+
+  /** Best voice on one particular engine, using the same rules as resolveVoice */
+  private resolveEngineVoice(engine: TtsEngine): string {
+    return resolveVoice([engine], this.bookLanguage).voiceId
+  }
+
   private async synthesizeAndSendChunk(chunkIndex: number): Promise<void> {
     const chunk = this.chunks[chunkIndex]
     if (!chunk) return
 
+    const speech = this.speechFor(chunk)
     const cacheKey = TtsCache.makeKey(
       this.bookId!,
       this.chapterHref!,
+      this.engine.id,
       this.voiceId,
       this.rate,
       chunkIndex,
-      chunk.text
+      speech.text
     )
 
+    this.rememberPosition()
+
     // Check cache first
     const cached = this.cache.get(cacheKey)
     if (cached) {
-      const url = this.cache.getUrl(cached)
-      this.broadcastChunkReady(chunkIndex, url)
+      this.broadcastChunkReady(chunkIndex, cached)
       return
     }
 
-    // Synthesize with Kokoro
-    const wavPath = await this.synthesizeChunk(chunk.text, cacheKey)
+    const wavPath = await this.synthesizeChunk(speech, cacheKey)
     if (wavPath) {
-      const url = this.cache.getUrl(wavPath)
-      this.broadcastChunkReady(chunkIndex, url)
+      this.broadcastChunkReady(chunkIndex, wavPath)
     }
   }
 
-  private async synthesizeChunk(text: string, cacheKey: string): Promise<string | null> {
+  private async synthesizeChunk(speech: SpeechText, cacheKey: string): Promise<string | null> {
     const abort = new AbortController()
     this.activeAbort = abort
 
     try {
-      const kokoro = await this.kokoroManager.ensureLoaded()
-      if (abort.signal.aborted) return null
-
-      const result = await kokoro.generate(text, {
-        voice: this.voiceId,
-        speed: this.rate
+      const { samples, sampleRate } = await this.engine.synthesize(speech.text, {
+        voiceId: this.voiceId,
+        rate: this.rate,
+        signal: abort.signal
       })
       if (abort.signal.aborted) return null
 
-      // Extract audio data — kokoro-js returns object with audio/waveform + sampling_rate
-      const samples: Float32Array = result.audio ?? result.waveform
-      const sampleRate: number = result.sampling_rate ?? result.sampleRate ?? 24000
-
       const wavBuffer = encodeWav(samples, sampleRate)
-      const wavPath = this.cache.put(cacheKey, wavBuffer)
+      const wavPath = this.cache.put(cacheKey, wavBuffer, { bookId: this.bookId!, terms: speech.terms })
       return wavPath
     } catch (err) {
       if (abort.signal.aborted) return null
-      console.error('Kokoro synthesis failed:', err)
+      console.error(`${this.engine.label} synthesis failed:`, err)
       this.broadcastError(
         `Synthesis failed: ${err instanceof Error ? err.message : String(err)}`,
         'SYNTHESIS_ERROR'
@@ -344,13 +613,16 @@ export class TtsService {
     const chunk = this.chunks[nextIndex]
     if (!chunk) return
 
+    const speech = this.speechFor(chunk)
+    const bookId = this.bookId!
     const cacheKey = TtsCache.makeKey(
-      this.bookId!,
+      bookId,
       this.chapterHref!,
+      this.engine.id,
       this.voiceId,
       this.rate,
       nextIndex,
-      chunk.text
+      speech.text
     )
 
     // Already cached?
@@ -370,20 +642,15 @@ export class TtsService {
     // Fire-and-forget synthesis
     ;(async () => {
       try {
-        const kokoro = await this.kokoroManager.ensureLoaded()
-        if (abort.signal.aborted) return
-
-        const result = await kokoro.generate(chunk.text, {
-          voice: this.voiceId,
-          speed: this.rate
+        const { samples, sampleRate } = await this.engine.synthesize(speech.text, {
+          voiceId: this.voiceId,
+          rate: this.rate,
+          signal: abort.signal
         })
         if (abort.signal.aborted) return
 
-        const samples: Float32Array = result.audio ?? result.waveform
-        const sampleRate: number = result.sampling_rate ?? result.sampleRate ?? 24000
-
         const wavBuffer = encodeWav(samples, sampleRate)
-        const wavPath = this.cache.put(cacheKey, wavBuffer)
+        const wavPath = this.cache.put(cacheKey, wavBuffer, { bookId, terms: speech.terms })
 
         if (!abort.signal.aborted) {
           this.preBufferedChunkIndex = nextIndex
@@ -429,14 +696,44 @@ export class TtsService {
     }
   }
 
-  private broadcastChunkReady(chunkIndex: number, wavUrl: string): void {
+  /** Playback moved on to another spine document; the reader follows it and swaps its chunk list */
+  private broadcastSection(): void {
+    const section = {
+      bookId: this.bookId,
+      chapterHref: this.chapterHref,
+      sectionHref: this.sectionHref,
+      chunks: this.chunks
+    }
     for (const win of BrowserWindow.getAllWindows()) {
       if (!win.isDestroyed()) {
-        win.webContents.send('tts:chunk-ready', { chunkIndex, wavUrl })
+        win.webContents.send('tts:section-start', section)
       }
     }
   }
 
+  private broadcastChunkReady(chunkIndex: number, wavPath: string): void {
+    const wavUrl = this.cache.getUrl(wavPath)
+    const words = this.alignChunk(chunkIndex, wavPath)
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send('tts:chunk-ready', { chunkIndex, wavUrl, words })
+      }
+    }
+  }
+
+  /** Word timings for karaoke highlighting; an empty list just disables it for the chunk */
+  private alignChunk(chunkIndex: number, wavPath: string): WordTiming[] {
+    const chunk = this.chunks[chunkIndex]
+    if (!chunk) return []
+    try {
+      const { sampleRate, pcm } = readWavPcm(wavPath)
+      return alignWords(chunk.text, pcm, sampleRate)
+    } catch (err) {
+      console.warn('Word alignment failed:', err)
+      return []
+    }
+  }
+
   private broadcastError(message: string, code: string): void {
     for (const win of BrowserWindow.getAllWindows()) {
       if (!win.isDestroyed()) {
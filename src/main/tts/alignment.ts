@@ -0,0 +1,171 @@
+export interface WordTiming {
+  /** Character range of the word in the chunk text */
+  start: number
+  end: number
+  startMs: number
+  endMs: number
+}
+
+interface Word {
+  start: number
+  end: number
+  /** Rough speaking length: letters, with digits counted heavier since they expand when read */
+  weight: number
+  /** 2 after sentence punctuation, 1 after clause punctuation, 0 otherwise */
+  pause: number
+}
+
+interface Pause {
+  startFrame: number
+  endFrame: number
+}
+
+const FRAME_MS = 10
+/** Kokoro leaves 150–400 ms between sentences and shorter gaps at commas */
+const MIN_PAUSE_MS = 90
+/** How far (as a fraction of speaking time) a pause may sit from where a boundary is expected */
+const MAX_ANCHOR_DRIFT = 0.15
+
+function tokenize(text: string): Word[] {
+  const words: Word[] = []
+  for (const match of text.matchAll(/\S+/g)) {
+    const token = match[0]
+    const letters = (token.match(/\p{L}/gu) ?? []).length
+    const digits = (token.match(/\p{N}/gu) ?? []).length
+    const trimmed = token.replace(/["'”’)\]]+$/u, '')
+    words.push({
+      start: match.index!,
+      end: match.index! + token.length,
+      weight: Math.max(1, letters + digits * 3) + 1,
+      pause: /[.!?…]$/u.test(trimmed) ? 2 : /[,;:]$/.test(trimmed) ? 1 : 0
+    })
+  }
+  return words
+}
+
+/** RMS per 10 ms frame of 16-bit mono PCM */
+function frameEnergies(pcm: Buffer, sampleRate: number): Float32Array {
+  const samplesPerFrame = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000))
+  const totalSamples = Math.floor(pcm.length / 2)
+  const energies = new Float32Array(Math.ceil(totalSamples / samplesPerFrame))
+  for (let f = 0; f < energies.length; f++) {
+    let sum = 0
+    const from = f * samplesPerFrame
+    const to = Math.min(totalSamples, from + samplesPerFrame)
+    for (let i = from; i < to; i++) {
+      const s = pcm.readInt16LE(i * 2) / 0x8000
+      sum += s * s
+    }
+    energies[f] = Math.sqrt(sum / Math.max(1, to - from))
+  }
+  return energies
+}
+
+/** Silence threshold relative to the loud end of the chunk, so quiet voices still work */
+function silenceThreshold(energies: Float32Array): number {
+  const sorted = Array.from(energies).sort((a, b) => a - b)
+  const loud = sorted[Math.floor(sorted.length * 0.95)] ?? 0
+  return Math.max(loud * 0.06, 1e-4)
+}
+
+/**
+ * Estimate when each word of a synthesized chunk is spoken.
+ *
+ * Kokoro returns audio without phoneme durations, so this is a lightweight
+ * forced alignment: silent stretches in the waveform are matched, in order, to
+ * the word boundaries where a pause is most plausible (after punctuation, near
+ * the expected time), and the words between two matched pauses share that
+ * stretch of speech in proportion to their length.
+ */
+export function alignWords(text: string, pcm: Buffer, sampleRate: number): WordTiming[] {
+  const words = tokenize(text)
+  if (words.length === 0) return []
+
+  const energies = frameEnergies(pcm, sampleRate)
+  if (energies.length === 0) return []
+  const threshold = silenceThreshold(energies)
+
+  let speechStart = 0
+  while (speechStart < energies.length - 1 && energies[speechStart] < threshold) speechStart++
+  let speechEnd = energies.length
+  while (speechEnd > speechStart + 1 && energies[speechEnd - 1] < threshold) speechEnd--
+
+  // Silent runs inside the speech
+  const minPauseFrames = Math.ceil(MIN_PAUSE_MS / FRAME_MS)
+  const pauses: Pause[] = []
+  let runStart = -1
+  for (let f = speechStart; f < speechEnd; f++) {
+    if (energies[f] < threshold) {
+      if (runStart < 0) runStart = f
+    } else if (runStart >= 0) {
+      if (f - runStart >= minPauseFrames) pauses.push({ startFrame: runStart, endFrame: f })
+      runStart = -1
+    }
+  }
+
+  const pauseFrames = pauses.reduce((sum, p) => sum + p.endFrame - p.startFrame, 0)
+  const speechFrames = Math.max(1, speechEnd - speechStart - pauseFrames)
+  const totalWeight = words.reduce((sum, w) => sum + w.weight, 0)
+
+  // Where each boundary (after word i) falls as a fraction of the weight
+  const boundaryAt: number[] = []
+  let cumulative = 0
+  for (const word of words) {
+    cumulative += word.weight
+    boundaryAt.push(cumulative / totalWeight)
+  }
+
+  // Match pauses to boundaries in order; a pause nobody claims stays inside a word
+  const anchors: { word: number; pause: Pause }[] = []
+  let spokenBefore = 0
+  let lastWord = -1
+  for (const pause of pauses) {
+    const spokenAt = (pause.startFrame - speechStart - spokenBefore) / speechFrames
+    spokenBefore += pause.endFrame - pause.startFrame
+
+    let best = -1
+    let bestCost = Infinity
+    for (let i = lastWord + 1; i < words.length - 1; i++) {
+      const drift = Math.abs(boundaryAt[i] - spokenAt)
+      if (drift > MAX_ANCHOR_DRIFT) {
+        if (boundaryAt[i] > spokenAt) break
+        continue
+      }
+      const cost = drift - words[i].pause * 0.05
+      if (cost < bestCost) {
+        best = i
+        bestCost = cost
+      }
+    }
+    if (best >= 0) {
+      anchors.push({ word: best, pause })
+      lastWord = best
+    }
+  }
+
+  // Spread the words of each stretch between anchors across its speech
+  const timings: WordTiming[] = []
+  let firstWord = 0
+  let segmentStart = speechStart
+  const segments = [...anchors, { word: words.length - 1, pause: { startFrame: speechEnd, endFrame: speechEnd } }]
+  for (const { word: lastInSegment, pause } of segments) {
+    const segmentWords = words.slice(firstWord, lastInSegment + 1)
+    const weight = segmentWords.reduce((sum, w) => sum + w.weight, 0)
+    const frames = Math.max(0, pause.startFrame - segmentStart)
+    let at = segmentStart
+    for (const word of segmentWords) {
+      const length = weight > 0 ? (frames * word.weight) / weight : 0
+      timings.push({
+        start: word.start,
+        end: word.end,
+        startMs: Math.round(at * FRAME_MS),
+        endMs: Math.round((at + length) * FRAME_MS)
+      })
+      at += length
+    }
+    firstWord = lastInSegment + 1
+    segmentStart = pause.endFrame
+  }
+
+  return timings
+}
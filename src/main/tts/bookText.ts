@@ -0,0 +1,50 @@
+import { extractSpineSpeechText, extractToc, TocEntry } from '../epub/parser'
+import { chunkText, cleanTextForTts, TextChunk } from '../../shared/tts/chunker'
+
+export interface SectionText {
+  href: string
+  /** TOC label in effect for this document, carried forward like the reader does */
+  label: string
+  chunks: TextChunk[]
+}
+
+function findTocLabel(href: string, toc: TocEntry[]): string {
+  return toc.find((entry) => href === entry.href || href.endsWith(entry.href))?.label ?? ''
+}
+
+/** Spine documents in reading order, chunked with the live playback rules */
+export function readSections(filePath: string): { sections: SectionText[]; hasToc: boolean } {
+  const toc = extractToc(filePath)
+  let label = ''
+  const sections = extractSpineSpeechText(filePath).map((section) => {
+    label = findTocLabel(section.href, toc) || label
+    return { href: section.href, label, chunks: chunkText(cleanTextForTts(section.text)) }
+  })
+  return { sections, hasToc: toc.length > 0 }
+}
+
+function decodeHref(href: string): string {
+  const path = href.split('#')[0]
+  try {
+    return decodeURIComponent(path)
+  } catch {
+    return path
+  }
+}
+
+/** epub.js hands out manifest hrefs still URL-encoded; the parser decodes them */
+export function sameSectionHref(a: string | null, b: string | null): boolean {
+  if (!a || !b) return false
+  return decodeHref(a) === decodeHref(b)
+}
+
+/**
+ * Section a reader href points at. TOC hrefs are relative to the navigation
+ * document, so fall back to matching the path's tail when they don't line up.
+ */
+export function findSection(sections: SectionText[], href: string): SectionText | undefined {
+  const exact = sections.find((s) => sameSectionHref(s.href, href))
+  if (exact) return exact
+  const tail = decodeHref(href).replace(/^(\.\.?\/)+/, '')
+  return tail ? sections.find((s) => s.href === tail || s.href.endsWith(`/${tail}`)) : undefined
+}
@@ -0,0 +1,126 @@
+import { execFile, spawn } from 'child_process'
+import { writeFileSync } from 'fs'
+import { extname, join } from 'path'
+
+/**
+ * FlareRead doesn't ship an AAC encoder, so M4B output goes through a system
+ * ffmpeg (FFMPEG_PATH, or `ffmpeg` on PATH). Per-chapter WAV export needs nothing.
+ */
+let ffmpegLookup: Promise<string | null> | null = null
+
+export function findFfmpeg(): Promise<string | null> {
+  if (!ffmpegLookup) {
+    const candidates = [process.env.FFMPEG_PATH, 'ffmpeg'].filter((c): c is string => !!c)
+    ffmpegLookup = (async () => {
+      for (const candidate of candidates) {
+        const ok = await new Promise<boolean>((resolve) => {
+          execFile(candidate, ['-version'], { timeout: 10_000 }, (err) => resolve(!err))
+        })
+        if (ok) return candidate
+      }
+      return null
+    })()
+  }
+  return ffmpegLookup
+}
+
+export interface M4bChapter {
+  file: string
+  title: string
+  durationMs: number
+}
+
+export interface M4bParams {
+  ffmpeg: string
+  chapters: M4bChapter[]
+  title: string
+  author: string | null
+  coverPath: string | null
+  outputPath: string
+  /** Scratch folder for the concat list and chapter metadata */
+  workDir: string
+  signal: AbortSignal
+  onProgress: (percent: number) => void
+}
+
+function escapeMetadata(value: string): string {
+  return value.replace(/[=;#\\\n]/g, (c) => (c === '\n' ? ' ' : `\\${c}`))
+}
+
+/** ffmpeg's FFMETADATA1 format: book tags plus one [CHAPTER] block per chapter */
+function buildMetadata(params: M4bParams): string {
+  const lines = [';FFMETADATA1', `title=${escapeMetadata(params.title)}`, `album=${escapeMetadata(params.title)}`]
+  if (params.author) {
+    lines.push(`artist=${escapeMetadata(params.author)}`, `album_artist=${escapeMetadata(params.author)}`)
+  }
+  lines.push('genre=Audiobook')
+
+  let start = 0
+  for (const chapter of params.chapters) {
+    lines.push(
+      '',
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${start}`,
+      `END=${start + chapter.durationMs}`,
+      `title=${escapeMetadata(chapter.title)}`
+    )
+    start += chapter.durationMs
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Concatenate the chapter WAVs into one AAC M4B with chapter markers and the
+ * cover as attached picture. Rejects with an AbortError when the signal fires.
+ */
+export function encodeM4b(params: M4bParams): Promise<void> {
+  const listPath = join(params.workDir, 'concat.txt')
+  const metadataPath = join(params.workDir, 'chapters.txt')
+  writeFileSync(
+    listPath,
+    params.chapters.map((c) => `file '${c.file.replace(/'/g, "'\\''")}'`).join('\n') + '\n',
+    'utf-8'
+  )
+  writeFileSync(metadataPath, buildMetadata(params), 'utf-8')
+
+  // The mp4 muxer only takes JPEG and PNG cover art
+  const cover =
+    params.coverPath && ['.jpg', '.jpeg', '.png'].includes(extname(params.coverPath).toLowerCase())
+      ? params.coverPath
+      : null
+
+  const args = ['-y', '-hide_banner', '-f', 'concat', '-safe', '0', '-i', listPath, '-i', metadataPath]
+  if (cover) args.push('-i', cover)
+  args.push('-map', '0:a', '-map_metadata', '1', '-map_chapters', '1')
+  if (cover) args.push('-map', '2:v', '-c:v', 'copy', '-disposition:v:0', 'attached_pic')
+  args.push('-c:a', 'aac', '-b:a', '64k', '-movflags', '+faststart', '-f', 'mp4', params.outputPath)
+
+  const totalMs = params.chapters.reduce((sum, c) => sum + c.durationMs, 0)
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(params.ffmpeg, args, { signal: params.signal, windowsHide: true })
+    let tail = ''
+
+    child.stderr.on('data', (data: Buffer) => {
+      const text = data.toString()
+      tail = (tail + text).slice(-2000)
+      const match = text.match(/time=(\d+):(\d+):(\d+(?:\.\d+)?)/)
+      if (match && totalMs > 0) {
+        const ms = (Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3])) * 1000
+        params.onProgress(Math.min(99, Math.round((ms / totalMs) * 100)))
+      }
+    })
+
+    child.on('error', reject)
+    child.on('close', (code) => {
+      if (code === 0) {
+        params.onProgress(100)
+        resolve()
+      } else if (!params.signal.aborted) {
+        const lastLine = tail.trim().split('\n').pop() ?? ''
+        reject(new Error(`ffmpeg exited with code ${code}: ${lastLine}`))
+      }
+    })
+  })
+}
@@ -1,6 +1,21 @@
-import { ipcMain } from 'electron'
-import { getTtsService } from './TtsService'
+import { BrowserWindow, dialog, ipcMain, shell } from 'electron'
+import { join } from 'path'
+import { getTtsService, SleepTimerSpec } from './TtsService'
+import { engineStatus, TtsEngineId } from './TtsEngine'
+import {
+  deletePronunciation,
+  getPronunciation,
+  listPronunciations,
+  PronunciationInput,
+  PronunciationRule,
+  savePronunciation
+} from './lexicon'
+import { AudiobookRenderParams, FFMPEG_MISSING, getAudiobookRenderer } from './AudiobookRenderer'
+import { findFfmpeg } from './ffmpeg'
+import { addListeningTime, finishListeningSessions } from './listening'
+import { getDatabase } from '../database'
 import { getSessionManager } from '../session/StudySessionManager'
+import { safeFileName } from '../../shared/annotations/util'
 
 export function registerTtsHandlers(): void {
   const tts = getTtsService()
@@ -31,8 +46,12 @@ export function registerTtsHandlers(): void {
     return tts.prevChunk()
   })
 
-  ipcMain.handle('tts:set-voice', async (_e, voiceId: string) => {
-    return tts.setVoice(voiceId)
+  ipcMain.handle('tts:set-voice', async (_e, voiceId: string, engine?: TtsEngineId) => {
+    return tts.setVoice(voiceId, engine)
+  })
+
+  ipcMain.handle('tts:set-engine', async (_e, engine: TtsEngineId) => {
+    return tts.setEngine(engine)
   })
 
   ipcMain.handle('tts:set-rate', async (_e, rate: number) => {
@@ -44,20 +63,31 @@ export function registerTtsHandlers(): void {
   })
 
   ipcMain.handle('tts:get-voices', () => {
-    return tts.getKokoroManager().getVoices()
+    return tts.getVoices()
+  })
+
+  ipcMain.handle('tts:get-engines', () => {
+    return tts.getEngines().map(engineStatus)
+  })
+
+  // Voice a book would be read with; without a book, the user's default
+  ipcMain.handle('tts:resolve-voice', (_e, bookId?: string) => {
+    return tts.resolveVoice(bookId ?? null)
   })
 
-  ipcMain.handle('tts:is-installed', () => {
-    return tts.getKokoroManager().isReady()
+  // Whether the engine the book (or the user's default) resolves to can speak
+  ipcMain.handle('tts:is-installed', (_e, bookId?: string) => {
+    return tts.getEngine(tts.resolveVoice(bookId ?? null).engine).isReady()
   })
 
-  ipcMain.handle('tts:install', async () => {
+  ipcMain.handle('tts:install', async (_e, engineId?: TtsEngineId) => {
+    const engine = tts.getEngine(engineId ?? tts.resolveVoice(null).engine)
     try {
       // 2-minute timeout for model download (was 5min — too long, users think it's frozen)
       const timeout = new Promise<never>((_, reject) =>
         setTimeout(() => reject(new Error('Tiempo de espera agotado (2 min). Verifica tu conexión a internet e intenta de nuevo.')), 2 * 60 * 1000)
       )
-      await Promise.race([tts.getKokoroManager().install(), timeout])
+      await Promise.race([engine.install(), timeout])
       return { success: true }
     } catch (err) {
       console.error('TTS install failed:', err)
@@ -65,9 +95,10 @@ export function registerTtsHandlers(): void {
     }
   })
 
-  ipcMain.handle('tts:download-voice', async (_e, voiceId: string) => {
+  ipcMain.handle('tts:download-voice', async (_e, voiceId: string, engineId?: TtsEngineId) => {
     try {
-      await tts.getKokoroManager().downloadVoice(voiceId)
+      const engine = engineId ?? tts.getVoices().find((v) => v.id === voiceId)?.engine ?? 'kokoro'
+      await tts.getEngine(engine).downloadVoice(voiceId)
       return { success: true }
     } catch (err) {
       return { success: false, error: String(err) }
@@ -79,6 +110,134 @@ export function registerTtsHandlers(): void {
     return { success: true, freedBytes }
   })
 
+  // ─── Sleep Timer & Queue ───────────────────────────
+
+  ipcMain.handle('tts:set-sleep-timer', (_e, spec: SleepTimerSpec | null) => {
+    return tts.setSleepTimer(spec)
+  })
+
+  ipcMain.handle('tts:queue-add', (_e, bookId: string, sectionHref?: string) => {
+    try {
+      return { success: true, snapshot: tts.enqueue(bookId, sectionHref ?? null) }
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+
+  ipcMain.handle('tts:queue-remove', (_e, id: string) => {
+    return tts.removeFromQueue(id)
+  })
+
+  ipcMain.handle('tts:queue-clear', () => {
+    return tts.clearQueue()
+  })
+
+  ipcMain.handle('tts:queue-play-next', async () => {
+    return tts.playNext()
+  })
+
+  // ─── Pronunciation Lexicon ─────────────────────────
+
+  // Audio made with a rule's old wording is stale, wherever the rule applied
+  const dropCachedAudio = (...rules: Array<PronunciationRule | null>): void => {
+    for (const rule of rules) {
+      if (rule) tts.getCache().invalidateTerms([rule.term], rule.book_id)
+    }
+    tts.refreshSpeech()
+  }
+
+  ipcMain.handle('tts:lexicon-list', (_e, bookId?: string) => {
+    return listPronunciations(bookId ?? null)
+  })
+
+  ipcMain.handle('tts:lexicon-save', (_e, input: PronunciationInput) => {
+    try {
+      const previous = input.id ? getPronunciation(input.id) : null
+      const rule = savePronunciation(input)
+      dropCachedAudio(previous, rule)
+      return { success: true, rule }
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+
+  ipcMain.handle('tts:lexicon-delete', (_e, id: string) => {
+    const rule = getPronunciation(id)
+    deletePronunciation(id)
+    dropCachedAudio(rule)
+    return { success: true }
+  })
+
+  // ─── Audiobook Rendering ───────────────────────────
+
+  const audiobooks = getAudiobookRenderer()
+
+  ipcMain.handle('tts:render-capabilities', async () => {
+    return { m4b: (await findFfmpeg()) !== null }
+  })
+
+  ipcMain.handle('tts:render-list', () => {
+    return audiobooks.listJobs()
+  })
+
+  // Ask where the audiobook goes, then queue it (or resume a matching unfinished job)
+  ipcMain.handle('tts:render-start', async (_e, params: Omit<AudiobookRenderParams, 'outputPath'>) => {
+    const mainWindow = BrowserWindow.getFocusedWindow()
+    if (!mainWindow) return { success: false, error: 'No window' }
+    if (params.format === 'm4b' && !(await findFfmpeg())) return { success: false, error: FFMPEG_MISSING }
+
+    const book = getDatabase().prepare('SELECT title FROM books WHERE id = ?').get(params.bookId) as
+      | { title: string }
+      | undefined
+    if (!book) return { success: false, error: 'Book not found' }
+    const name = safeFileName(book.title)
+
+    let outputPath: string
+    if (params.format === 'm4b') {
+      const result = await dialog.showSaveDialog(mainWindow, {
+        title: 'Save audiobook',
+        defaultPath: `${name}.m4b`,
+        filters: [{ name: 'Audiobook', extensions: ['m4b'] }]
+      })
+      if (result.canceled || !result.filePath) return { success: false, error: 'Cancelled' }
+      outputPath = result.filePath
+    } else {
+      const result = await dialog.showOpenDialog(mainWindow, {
+        title: 'Choose a folder for the chapter files',
+        properties: ['openDirectory', 'createDirectory']
+      })
+      if (result.canceled || result.filePaths.length === 0) return { success: false, error: 'Cancelled' }
+      outputPath = join(result.filePaths[0], name)
+    }
+
+    try {
+      return { success: true, job: await audiobooks.start({ ...params, outputPath }) }
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+
+  ipcMain.handle('tts:render-cancel', (_e, jobId: string) => {
+    return audiobooks.cancel(jobId)
+  })
+
+  ipcMain.handle('tts:render-resume', (_e, jobId: string) => {
+    try {
+      return { success: true, job: audiobooks.resume(jobId) }
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+
+  ipcMain.handle('tts:render-discard', (_e, jobId: string) => {
+    return audiobooks.discard(jobId)
+  })
+
+  ipcMain.handle('tts:render-reveal', (_e, jobId: string) => {
+    const job = audiobooks.listJobs().find((j) => j.id === jobId)
+    if (job) shell.showItemInFolder(job.outputPath)
+  })
+
   // ─── Session Integration ───────────────────────────
 
   const sessionManager = getSessionManager()
@@ -172,4 +331,33 @@ export function registerTtsHandlers(): void {
       startSessionWatch()
     }
   })
+
+  // ─── Listening Time ────────────────────────────────
+  // Time spent speaking outside a study session is logged as 'listening'; inside
+  // one, the anti-AFK reports above already count it as reading time.
+
+  let listeningSince: number | null = null
+  let listeningBookId: string | null = null
+  let listeningFlushInterval: ReturnType<typeof setInterval> | null = null
+
+  function flushListening(): void {
+    if (listeningSince !== null && listeningBookId && !sessionManager.isActive()) {
+      addListeningTime(listeningBookId, Date.now() - listeningSince)
+    }
+    listeningSince = tts.isSpeaking() ? Date.now() : null
+  }
+
+  tts.onStateChange((state) => {
+    flushListening()
+    if (state === 'speaking') {
+      listeningBookId = tts.getSnapshot().bookId
+      listeningSince = Date.now()
+      // Keep the session row current so a crash loses at most a minute
+      listeningFlushInterval ??= setInterval(flushListening, 60_000)
+    } else if (listeningFlushInterval) {
+      clearInterval(listeningFlushInterval)
+      listeningFlushInterval = null
+    }
+    if (state === 'idle') finishListeningSessions()
+  })
 }
@@ -0,0 +1,130 @@
+import { randomUUID } from 'crypto'
+import { getDatabase } from '../database'
+import { normalizeForSpeech } from './normalize'
+
+export interface PronunciationRule {
+  id: string
+  /** null for rules that apply to every book */
+  book_id: string | null
+  term: string
+  replacement: string
+  case_sensitive: number
+  created_at: string
+  updated_at: string
+}
+
+export interface PronunciationInput {
+  id?: string
+  bookId: string | null
+  term: string
+  replacement: string
+  caseSensitive: boolean
+}
+
+export interface SpeechText {
+  text: string
+  /** Lowercased terms of the rules that changed the text, for cache invalidation */
+  terms: string[]
+}
+
+interface CompiledLexicon {
+  /** Every term in one alternation, longest first so "C++" wins over "C" */
+  pattern: RegExp | null
+  /** Book rules first, so they shadow a global rule for the same term */
+  rules: PronunciationRule[]
+}
+
+const compiled = new Map<string, CompiledLexicon>()
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function compile(bookId: string | null): CompiledLexicon {
+  const key = bookId ?? ''
+  const cached = compiled.get(key)
+  if (cached) return cached
+
+  const rules = listPronunciations(bookId).sort((a, b) => (a.book_id ? 0 : 1) - (b.book_id ? 0 : 1))
+  const terms = [...new Set(rules.map((r) => r.term))].sort((a, b) => b.length - a.length)
+  const lexicon: CompiledLexicon = {
+    // Terms can start or end with symbols ("C#", ".NET"), so bound on letters and digits rather than \b
+    pattern: terms.length
+      ? new RegExp(`(?<![\\p{L}\\p{N}_])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_])`, 'giu')
+      : null,
+    rules
+  }
+  compiled.set(key, lexicon)
+  return lexicon
+}
+
+/** Drop compiled rules after an edit; they are rebuilt on the next chunk */
+export function invalidateLexicon(): void {
+  compiled.clear()
+}
+
+/** Global rules plus, with a book, that book's own rules */
+export function listPronunciations(bookId: string | null): PronunciationRule[] {
+  const db = getDatabase()
+  return (
+    bookId
+      ? db
+          .prepare('SELECT * FROM pronunciations WHERE book_id IS NULL OR book_id = ? ORDER BY term COLLATE NOCASE')
+          .all(bookId)
+      : db.prepare('SELECT * FROM pronunciations WHERE book_id IS NULL ORDER BY term COLLATE NOCASE').all()
+  ) as PronunciationRule[]
+}
+
+export function getPronunciation(id: string): PronunciationRule | null {
+  return (getDatabase().prepare('SELECT * FROM pronunciations WHERE id = ?').get(id) as PronunciationRule) ?? null
+}
+
+export function savePronunciation(input: PronunciationInput): PronunciationRule {
+  const term = input.term.trim()
+  const replacement = input.replacement.trim()
+  if (!term) throw new Error('The word to replace is empty')
+
+  const db = getDatabase()
+  const now = new Date().toISOString()
+  const id = input.id ?? randomUUID()
+  if (input.id) {
+    db.prepare(
+      `UPDATE pronunciations SET book_id = ?, term = ?, replacement = ?, case_sensitive = ?, updated_at = ?
+       WHERE id = ?`
+    ).run(input.bookId, term, replacement, input.caseSensitive ? 1 : 0, now, id)
+  } else {
+    db.prepare(
+      `INSERT INTO pronunciations (id, book_id, term, replacement, case_sensitive, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(id, input.bookId, term, replacement, input.caseSensitive ? 1 : 0, now, now)
+  }
+  invalidateLexicon()
+  return getPronunciation(id)!
+}
+
+export function deletePronunciation(id: string): void {
+  getDatabase().prepare('DELETE FROM pronunciations WHERE id = ?').run(id)
+  invalidateLexicon()
+}
+
+function applyLexicon(bookId: string | null, text: string, terms: Set<string>): string {
+  const { pattern, rules } = compile(bookId)
+  if (!pattern) return text
+  return text.replace(pattern, (match) => {
+    const lower = match.toLowerCase()
+    const rule = rules.find((r) => (r.case_sensitive ? r.term === match : r.term.toLowerCase() === lower))
+    if (!rule) return match
+    terms.add(rule.term.toLowerCase())
+    return rule.replacement
+  })
+}
+
+/**
+ * What actually gets synthesized for a chunk: the user's pronunciation rules
+ * first, so they can override anything, then the number/unit/URL normalization.
+ */
+export function prepareSpeechText(bookId: string | null, text: string, language: string | null): SpeechText {
+  const terms = new Set<string>()
+  const replaced = applyLexicon(bookId, text, terms)
+  return { text: normalizeForSpeech(replaced, language), terms: [...terms] }
+}
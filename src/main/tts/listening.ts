@@ -0,0 +1,64 @@
+import { randomUUID } from 'crypto'
+import { getDatabase } from '../database'
+
+// ─── Listening Sessions ─────────────────────────────
+// Read-aloud outside a study session is recorded as sessions with session_type
+// 'listening', one per book per run, so tracks can count or leave it out.
+
+const openSessions = new Map<string, string>()
+
+export function addListeningTime(bookId: string, elapsedMs: number): void {
+  if (elapsedMs <= 0) return
+  const db = getDatabase()
+  const now = new Date().toISOString()
+  let sessionId = openSessions.get(bookId)
+  if (!sessionId) {
+    sessionId = randomUUID()
+    db.prepare(
+      `INSERT INTO sessions (id, book_id, start_time, end_time, active_ms, session_type, status)
+       VALUES (?, ?, ?, ?, 0, 'listening', 'active')`
+    ).run(sessionId, bookId, new Date(Date.now() - elapsedMs).toISOString(), now)
+    openSessions.set(bookId, sessionId)
+  }
+  db.prepare('UPDATE sessions SET active_ms = active_ms + ?, end_time = ? WHERE id = ?').run(
+    Math.round(elapsedMs),
+    now,
+    sessionId
+  )
+}
+
+export function finishListeningSessions(): void {
+  getDatabase()
+    .prepare("UPDATE sessions SET status = 'completed' WHERE session_type = 'listening' AND status = 'active'")
+    .run()
+  openSessions.clear()
+}
+
+// ─── Listening Position ─────────────────────────────
+
+export interface ListeningPosition {
+  /** Spine document href, as the EPUB parser reports it */
+  href: string
+  chunkIndex: number
+}
+
+export function getListeningPosition(bookId: string): ListeningPosition | null {
+  const row = getDatabase()
+    .prepare('SELECT listen_href, listen_chunk_index FROM reading_progress WHERE book_id = ?')
+    .get(bookId) as { listen_href: string | null; listen_chunk_index: number | null } | undefined
+  if (!row?.listen_href) return null
+  return { href: row.listen_href, chunkIndex: row.listen_chunk_index ?? 0 }
+}
+
+/** null forgets the position, e.g. once the book has been listened to the end */
+export function saveListeningPosition(bookId: string, position: ListeningPosition | null): void {
+  getDatabase()
+    .prepare(
+      `INSERT INTO reading_progress (book_id, listen_href, listen_chunk_index)
+       VALUES (?, ?, ?)
+       ON CONFLICT(book_id) DO UPDATE SET
+         listen_href = excluded.listen_href,
+         listen_chunk_index = excluded.listen_chunk_index`
+    )
+    .run(bookId, position?.href ?? null, position?.chunkIndex ?? null)
+}
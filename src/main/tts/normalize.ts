@@ -0,0 +1,267 @@
+// ─── Speech Normalization ───────────────────────────
+// Rewrites what the voices tend to mangle — numbers, dates, times, money,
+// units, URLs, code identifiers and chapter numerals — into the words a narrator
+// would say. Runs on chunk text right before synthesis; the reader still shows
+// and highlights the original text. The rules are English, so books in other
+// languages are left to the engine.
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+]
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety']
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion']
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+const ORDINAL_EXCEPTIONS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth'
+}
+
+/** [singular, plural] */
+const UNITS: Record<string, [string, string]> = {
+  'km/h': ['kilometer per hour', 'kilometers per hour'],
+  mph: ['mile per hour', 'miles per hour'],
+  km: ['kilometer', 'kilometers'],
+  cm: ['centimeter', 'centimeters'],
+  mm: ['millimeter', 'millimeters'],
+  m: ['meter', 'meters'],
+  kg: ['kilogram', 'kilograms'],
+  mg: ['milligram', 'milligrams'],
+  g: ['gram', 'grams'],
+  lb: ['pound', 'pounds'],
+  lbs: ['pound', 'pounds'],
+  oz: ['ounce', 'ounces'],
+  ft: ['foot', 'feet'],
+  mi: ['mile', 'miles'],
+  '°C': ['degree Celsius', 'degrees Celsius'],
+  '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+  GHz: ['gigahertz', 'gigahertz'],
+  MHz: ['megahertz', 'megahertz'],
+  kHz: ['kilohertz', 'kilohertz'],
+  Hz: ['hertz', 'hertz'],
+  TB: ['terabyte', 'terabytes'],
+  GB: ['gigabyte', 'gigabytes'],
+  MB: ['megabyte', 'megabytes'],
+  KB: ['kilobyte', 'kilobytes'],
+  kB: ['kilobyte', 'kilobytes'],
+  kW: ['kilowatt', 'kilowatts'],
+  W: ['watt', 'watts'],
+  V: ['volt', 'volts'],
+  mL: ['milliliter', 'milliliters'],
+  ml: ['milliliter', 'milliliters'],
+  ms: ['millisecond', 'milliseconds']
+}
+
+/** [unit, units, hundredth, hundredths] */
+const CURRENCIES: Record<string, [string, string, string, string]> = {
+  $: ['dollar', 'dollars', 'cent', 'cents'],
+  '£': ['pound', 'pounds', 'penny', 'pence'],
+  '€': ['euro', 'euros', 'cent', 'cents']
+}
+
+const ROMAN = /^M{0,3}(CM|CD|D?C{0,3})(XC|XL|L?X{0,3})(IX|IV|V?I{0,3})$/
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100, D: 500, M: 1000 }
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+}
+
+function belowThousand(n: number): string {
+  const parts: string[] = []
+  if (n >= 100) {
+    parts.push(`${ONES[Math.floor(n / 100)]} hundred`)
+    n %= 100
+  }
+  if (n >= 20) {
+    parts.push(n % 10 ? `${TENS[Math.floor(n / 10)]}-${ONES[n % 10]}` : TENS[Math.floor(n / 10)])
+  } else if (n > 0) {
+    parts.push(ONES[n])
+  }
+  return parts.join(' ')
+}
+
+/** Cardinal words for a non-negative integer below a quadrillion */
+export function numberToWords(n: number): string {
+  if (n === 0) return 'zero'
+  const groups: string[] = []
+  for (let scale = 0; n > 0 && scale < SCALES.length; scale++) {
+    const group = n % 1000
+    if (group) groups.unshift(SCALES[scale] ? `${belowThousand(group)} ${SCALES[scale]}` : belowThousand(group))
+    n = Math.floor(n / 1000)
+  }
+  return groups.join(' ')
+}
+
+export function ordinalWords(n: number): string {
+  const words = numberToWords(n)
+  return words.replace(/([a-z]+)$/, (last) => {
+    if (ORDINAL_EXCEPTIONS[last]) return ORDINAL_EXCEPTIONS[last]
+    if (last.endsWith('y')) return `${last.slice(0, -1)}ieth`
+    return `${last}th`
+  })
+}
+
+/** 1984 → "nineteen eighty-four", 2005 → "two thousand five", 2021 → "twenty twenty-one" */
+function yearWords(n: number): string {
+  if (n >= 2000 && n < 2010) return numberToWords(n)
+  const high = Math.floor(n / 100)
+  const low = n % 100
+  if (low === 0) return `${numberToWords(high)} hundred`
+  if (low < 10) return `${numberToWords(high)} oh ${ONES[low]}`
+  return `${numberToWords(high)} ${numberToWords(low)}`
+}
+
+function digitWords(digits: string): string {
+  return [...digits].map((d) => ONES[Number(d)]).join(' ')
+}
+
+/** "1,234.5" → "one thousand two hundred thirty-four point five" */
+function decimalWords(value: string): string {
+  const [whole, fraction] = value.replace(/,/g, '').split('.')
+  const integer = whole.length > 1 && whole.startsWith('0') ? digitWords(whole) : integerWords(whole)
+  return fraction ? `${integer} point ${digitWords(fraction)}` : integer
+}
+
+function integerWords(digits: string): string {
+  if (digits.length > 15) return digitWords(digits)
+  return numberToWords(Number(digits))
+}
+
+function isOne(value: string): boolean {
+  return Number(value.replace(/,/g, '')) === 1
+}
+
+function romanToNumber(roman: string): number {
+  let total = 0
+  for (let i = 0; i < roman.length; i++) {
+    const value = ROMAN_VALUES[roman[i]]
+    const next = ROMAN_VALUES[roman[i + 1]] ?? 0
+    total += value < next ? -value : value
+  }
+  return total
+}
+
+function spokenHost(host: string): string {
+  return host.replace(/^www\./i, '').split('.').filter(Boolean).join(' dot ')
+}
+
+const UNIT_PATTERN = Object.keys(UNITS)
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|')
+
+const NUMBER = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`
+
+type Rule = [RegExp, (match: string, ...groups: string[]) => string]
+
+const RULES: Rule[] = [
+  // URLs and e-mail addresses: just the host, the path is noise when heard
+  [
+    /\b(?:https?:\/\/|www\.)([^\s/<>"')\]]+?)(?:\/[^\s<>"')\]]*?)?(?=[.,;:!?]?(?:\s|$))/gi,
+    (_m, host) => spokenHost(host)
+  ],
+  [
+    /\b([\w.+-]+)@([\w-]+(?:\.[\w-]+)+)\b/g,
+    (_m, user, host) => `${user.replace(/[._]/g, ' ')} at ${spokenHost(host)}`
+  ],
+
+  // Negative numbers, before the rules below read the digits
+  [/(^|\s)-(?=\d)/g, (_m, before) => `${before}minus `],
+
+  // Dates
+  [
+    /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+    (m, y, mo, d) => {
+      const month = MONTHS[Number(mo) - 1]
+      if (!month || Number(d) < 1 || Number(d) > 31) return m
+      return `${month} ${ordinalWords(Number(d))}, ${yearWords(Number(y))}`
+    }
+  ],
+  [
+    new RegExp(String.raw`\b(${MONTHS.join('|')}) (\d{1,2})(?:st|nd|rd|th)?\b`, 'g'),
+    (m, month, d) => (Number(d) >= 1 && Number(d) <= 31 ? `${month} ${ordinalWords(Number(d))}` : m)
+  ],
+
+  // Times: 9:05 → nine oh five, 10:00 pm → ten p m
+  [
+    /\b(\d{1,2}):(\d{2})(?:\s?([ap])\.?m\.?(?![a-z]))?/gi,
+    (m, h, min, meridiem) => {
+      const hour = Number(h)
+      const minutes = Number(min)
+      if (hour > 23 || minutes > 59) return m
+      let spoken = numberToWords(hour)
+      if (minutes === 0) spoken += meridiem ? '' : " o'clock"
+      else spoken += minutes < 10 ? ` oh ${ONES[minutes]}` : ` ${numberToWords(minutes)}`
+      return meridiem ? `${spoken} ${meridiem.toLowerCase()} m` : spoken
+    }
+  ],
+
+  // Money: $5.99, £3 million
+  [
+    new RegExp(String.raw`([$£€])(${NUMBER})(\s(?:million|billion|trillion)\b)?`, 'g'),
+    (_m, symbol, amount, scale) => {
+      const [unit, units, hundredth, hundredths] = CURRENCIES[symbol]
+      if (scale) return `${decimalWords(amount)}${scale} ${units}`
+      const [whole, fraction = ''] = amount.replace(/,/g, '').split('.')
+      if (fraction && fraction.length !== 2) return `${decimalWords(amount)} ${units}`
+      const spoken = `${integerWords(whole)} ${isOne(whole) ? unit : units}`
+      const cents = Number(fraction || 0)
+      return cents ? `${spoken} and ${numberToWords(cents)} ${cents === 1 ? hundredth : hundredths}` : spoken
+    }
+  ],
+
+  // Percentages and units
+  [new RegExp(String.raw`(${NUMBER})\s?%`, 'g'), (_m, value) => `${decimalWords(value)} percent`],
+  [
+    new RegExp(String.raw`(${NUMBER})\s?(${UNIT_PATTERN})(?![\p{L}\p{N}])`, 'gu'),
+    (_m, value, unit) => `${decimalWords(value)} ${UNITS[unit][isOne(value) ? 0 : 1]}`
+  ],
+
+  // Ordinals: 21st → twenty-first
+  [/\b(\d+)(?:st|nd|rd|th)\b/g, (_m, n) => ordinalWords(Number(n))],
+
+  // Chapter numerals: Chapter XIV → Chapter fourteen
+  [
+    /\b(Chapter|Part|Book|Volume|Vol\.|Act|Scene|Section|Appendix|Canto)\s+([IVXLCDM]+)\b/g,
+    (m, keyword, roman) => (ROMAN.test(roman) ? `${keyword} ${numberToWords(romanToNumber(roman))}` : m)
+  ],
+
+  // Remaining numbers. Bare four-digit numbers in the usual range read as years,
+  // which is right far more often than not in prose
+  [
+    new RegExp(String.raw`(^|[^\w.,])(${NUMBER})\b`, 'g'),
+    (_m, before, value) => {
+      if (/^\d{4}$/.test(value) && Number(value) >= 1100 && Number(value) < 2100) {
+        return `${before}${yearWords(Number(value))}`
+      }
+      return `${before}${decimalWords(value)}`
+    }
+  ],
+
+  // Code identifiers: parseInt() → parse int, user_id → user id, os.path → os dot path
+  [/\b(\w+)\(\)/g, (_m, name) => name],
+  [/\b[a-z][a-z0-9]*(?:[A-Z][a-z0-9]*)+\b/g, (m) => m.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase()],
+  [/\b[A-Za-z][A-Za-z0-9]*(?:_[A-Za-z0-9]+)+\b/g, (m) => m.replace(/_/g, ' ')],
+  [/\b[a-z_]\w+(?:\.[a-z_]\w+)+\b/g, (m) => m.split('.').join(' dot ')]
+]
+
+/**
+ * A chunk that is nothing but a Roman numeral is a chapter heading ("IV.").
+ * A lone "I" is left alone, it's far more likely the pronoun.
+ */
+function normalizeHeading(text: string): string | null {
+  const match = text.trim().match(/^([IVXLCDM]{2,}|[VXLCDM])\.?$/)
+  if (!match || !ROMAN.test(match[1])) return null
+  return numberToWords(romanToNumber(match[1]))
+}
+
+export function normalizeForSpeech(text: string, language: string | null): string {
+  if (language && language !== 'en') return text
+  const heading = normalizeHeading(text)
+  if (heading) return heading
+  return RULES.reduce((result, [pattern, replace]) => result.replace(pattern, replace), text)
+}
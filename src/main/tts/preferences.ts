@@ -0,0 +1,96 @@
+import { getDatabase } from '../database'
+import { readSetting, writeSetting } from '../database/settings'
+import type { TtsEngine, TtsEngineId, TtsEngineVoice } from './TtsEngine'
+
+const PREFERENCES_KEY = 'ttsVoices'
+
+export interface VoiceChoice {
+  engine: TtsEngineId
+  voiceId: string
+}
+
+export interface TtsPreferences {
+  /** Engine used when nothing more specific applies */
+  engine: TtsEngineId
+  /** Last voice picked on each engine */
+  voices: Partial<Record<TtsEngineId, string>>
+  /** Voice picked while reading a book in that language, keyed by primary language subtag */
+  languageVoices: Record<string, VoiceChoice>
+}
+
+const DEFAULT_PREFERENCES: TtsPreferences = { engine: 'kokoro', voices: {}, languageVoices: {} }
+
+// OPF files use ISO 639-2 codes about as often as BCP 47 tags
+const THREE_LETTER_CODES: Record<string, string> = {
+  eng: 'en', spa: 'es', fra: 'fr', fre: 'fr', ita: 'it', por: 'pt', deu: 'de', ger: 'de',
+  jpn: 'ja', zho: 'zh', chi: 'zh', hin: 'hi', nld: 'nl', dut: 'nl', rus: 'ru', pol: 'pl'
+}
+
+/** "en-US", "en_GB", "eng" → "en"; null for missing or unusable values */
+export function primaryLanguage(tag: string | null | undefined): string | null {
+  const primary = tag?.trim().toLowerCase().split(/[-_]/)[0]
+  if (!primary || primary === 'und') return null
+  return THREE_LETTER_CODES[primary] ?? primary
+}
+
+export function getTtsPreferences(): TtsPreferences {
+  return { ...DEFAULT_PREFERENCES, ...readSetting<Partial<TtsPreferences>>(PREFERENCES_KEY, {}) }
+}
+
+export function saveTtsPreferences(preferences: TtsPreferences): void {
+  writeSetting(PREFERENCES_KEY, preferences)
+}
+
+/** Remember a voice pick; with a book language it only applies to books in that language */
+export function rememberVoice(choice: VoiceChoice, bookLanguage: string | null): void {
+  const preferences = getTtsPreferences()
+  preferences.voices = { ...preferences.voices, [choice.engine]: choice.voiceId }
+  if (bookLanguage) {
+    preferences.languageVoices = { ...preferences.languageVoices, [bookLanguage]: choice }
+  } else {
+    preferences.engine = choice.engine
+  }
+  saveTtsPreferences(preferences)
+}
+
+export function getBookLanguage(bookId: string): string | null {
+  const row = getDatabase().prepare('SELECT language FROM books WHERE id = ?').get(bookId) as
+    | { language: string | null }
+    | undefined
+  return primaryLanguage(row?.language)
+}
+
+function usableVoice(engine: TtsEngine | undefined, voiceId: string | undefined): TtsEngineVoice | null {
+  if (!engine?.isReady() || !voiceId) return null
+  return engine.getVoices().find((v) => v.id === voiceId && v.installed) ?? null
+}
+
+/**
+ * Pick the engine and voice for a book: the voice last chosen for the book's
+ * language, else the user's engine and voice if they speak that language, else
+ * any installed voice (user's engine first) that does, else the user's voice.
+ */
+export function resolveVoice(engines: TtsEngine[], bookLanguage: string | null): VoiceChoice {
+  const preferences = getTtsPreferences()
+  const byId = (id: TtsEngineId): TtsEngine | undefined => engines.find((e) => e.id === id)
+  const preferredEngine = byId(preferences.engine) ?? engines[0]
+  const preferred: VoiceChoice = {
+    engine: preferredEngine.id,
+    voiceId: preferences.voices[preferredEngine.id] ?? preferredEngine.defaultVoiceId
+  }
+  if (!bookLanguage) return preferred
+
+  const saved = preferences.languageVoices[bookLanguage]
+  if (saved && usableVoice(byId(saved.engine), saved.voiceId)) return saved
+
+  const preferredVoice = usableVoice(preferredEngine, preferred.voiceId)
+  if (preferredVoice && primaryLanguage(preferredVoice.language) === bookLanguage) return preferred
+
+  const ordered = [preferredEngine, ...engines.filter((e) => e !== preferredEngine)]
+  for (const engine of ordered) {
+    if (!engine.isReady()) continue
+    const match = engine.getVoices().find((v) => v.installed && primaryLanguage(v.language) === bookLanguage)
+    if (match) return { engine: engine.id, voiceId: match.id }
+  }
+  return preferred
+}
@@ -0,0 +1,161 @@
+import { closeSync, openSync, readFileSync, writeSync } from 'fs'
+
+const HEADER_BYTES = 44
+
+function writeHeader(buffer: Buffer, sampleRate: number, dataSize: number, trailingBytes = 0): void {
+  const bitsPerSample = 16
+  const bytesPerSample = bitsPerSample / 8
+
+  // RIFF header
+  buffer.write('RIFF', 0)
+  buffer.writeUInt32LE(36 + dataSize + trailingBytes, 4)
+  buffer.write('WAVE', 8)
+
+  // fmt chunk
+  buffer.write('fmt ', 12)
+  buffer.writeUInt32LE(16, 16)
+  buffer.writeUInt16LE(1, 20) // PCM
+  buffer.writeUInt16LE(1, 22) // mono
+  buffer.writeUInt32LE(sampleRate, 24)
+  buffer.writeUInt32LE(sampleRate * bytesPerSample, 28)
+  buffer.writeUInt16LE(bytesPerSample, 32)
+  buffer.writeUInt16LE(bitsPerSample, 34)
+
+  // data chunk
+  buffer.write('data', 36)
+  buffer.writeUInt32LE(dataSize, 40)
+}
+
+/**
+ * Encode Float32 audio samples into a WAV buffer (mono, 16-bit PCM).
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Buffer {
+  const dataSize = samples.length * 2
+  const buffer = Buffer.alloc(HEADER_BYTES + dataSize)
+  writeHeader(buffer, sampleRate, dataSize)
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]))
+    buffer.writeInt16LE(s < 0 ? s * 0x8000 : s * 0x7fff, HEADER_BYTES + i * 2)
+  }
+
+  return buffer
+}
+
+/**
+ * Read the PCM payload of a WAV file written by encodeWav (or any mono 16-bit file).
+ * Walks the RIFF chunks instead of assuming a 44-byte header.
+ */
+export function readWavPcm(filePath: string): { sampleRate: number; pcm: Buffer } {
+  const buffer = readFileSync(filePath)
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error(`Not a WAV file: ${filePath}`)
+  }
+
+  let sampleRate = 24000
+  let offset = 12
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4)
+    const size = buffer.readUInt32LE(offset + 4)
+    const body = offset + 8
+    if (id === 'fmt ') {
+      sampleRate = buffer.readUInt32LE(body + 4)
+    } else if (id === 'data') {
+      return { sampleRate, pcm: buffer.subarray(body, Math.min(body + size, buffer.length)) }
+    }
+    offset = body + size + (size % 2)
+  }
+  throw new Error(`WAV file has no data chunk: ${filePath}`)
+}
+
+/** RIFF INFO tags (title, artist, album, track) most players show for WAV files */
+export interface WavTags {
+  title?: string
+  artist?: string
+  album?: string
+  track?: number
+}
+
+function encodeInfoChunk(tags: WavTags): Buffer {
+  const fields: [string, string | undefined][] = [
+    ['INAM', tags.title],
+    ['IART', tags.artist],
+    ['IPRD', tags.album],
+    ['ITRK', tags.track != null ? String(tags.track) : undefined]
+  ]
+
+  const parts: Buffer[] = [Buffer.from('INFO', 'ascii')]
+  for (const [id, value] of fields) {
+    if (!value) continue
+    const text = Buffer.from(`${value}\0`, 'utf-8')
+    const header = Buffer.alloc(8)
+    header.write(id, 0, 'ascii')
+    header.writeUInt32LE(text.length, 4)
+    parts.push(header, text)
+    if (text.length % 2) parts.push(Buffer.alloc(1))
+  }
+  if (parts.length === 1) return Buffer.alloc(0)
+
+  const body = Buffer.concat(parts)
+  const header = Buffer.alloc(8)
+  header.write('LIST', 0, 'ascii')
+  header.writeUInt32LE(body.length, 4)
+  return Buffer.concat([header, body])
+}
+
+/**
+ * Streams PCM into a WAV file so a whole chapter never has to sit in memory.
+ * The header is patched with the final sizes in finish().
+ */
+export class WavWriter {
+  private fd: number
+  private dataBytes = 0
+  private sampleRate: number | null = null
+  private closed = false
+
+  constructor(filePath: string) {
+    this.fd = openSync(filePath, 'w')
+    writeSync(this.fd, Buffer.alloc(HEADER_BYTES))
+  }
+
+  /** Append 16-bit PCM; the first call fixes the sample rate */
+  append(pcm: Buffer, sampleRate: number): void {
+    if (this.sampleRate === null) this.sampleRate = sampleRate
+    if (sampleRate !== this.sampleRate) {
+      throw new Error(`Sample rate changed mid-file (${this.sampleRate} → ${sampleRate})`)
+    }
+    writeSync(this.fd, pcm, 0, pcm.length, HEADER_BYTES + this.dataBytes)
+    this.dataBytes += pcm.length
+  }
+
+  appendSilence(ms: number): void {
+    if (this.sampleRate === null) return
+    const samples = Math.round((this.sampleRate * ms) / 1000)
+    this.append(Buffer.alloc(samples * 2), this.sampleRate)
+  }
+
+  /** Close the file and return the audio duration in milliseconds */
+  finish(tags: WavTags = {}): number {
+    const sampleRate = this.sampleRate ?? 24000
+    const info = encodeInfoChunk(tags)
+    if (info.length > 0) {
+      writeSync(this.fd, info, 0, info.length, HEADER_BYTES + this.dataBytes)
+    }
+    const header = Buffer.alloc(HEADER_BYTES)
+    writeHeader(header, sampleRate, this.dataBytes, info.length)
+    writeSync(this.fd, header, 0, HEADER_BYTES, 0)
+    this.close()
+    return Math.round((this.dataBytes / 2 / sampleRate) * 1000)
+  }
+
+  /** Close without finalizing, e.g. when a render is cancelled */
+  abort(): void {
+    this.close()
+  }
+
+  private close(): void {
+    if (this.closed) return
+    this.closed = true
+    closeSync(this.fd)
+  }
+}
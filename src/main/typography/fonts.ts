@@ -0,0 +1,184 @@
+import { brotliDecompressSync, inflateSync } from 'zlib'
+import { basename, extname } from 'path'
+
+export type FontFormat = 'truetype' | 'opentype' | 'woff' | 'woff2'
+
+export interface FontFace {
+  family: string
+  format: FontFormat
+  weight: number
+  style: 'normal' | 'italic'
+}
+
+export const FONT_EXTENSIONS: Record<string, FontFormat> = {
+  '.ttf': 'truetype',
+  '.otf': 'opentype',
+  '.woff': 'woff',
+  '.woff2': 'woff2'
+}
+
+/** Known table tags of WOFF2, addressed by index in its table directory */
+const WOFF2_TAGS = [
+  'cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm', 'glyf', 'loca', 'prep',
+  'CFF ', 'VORG', 'EBDT', 'EBLC', 'gasp', 'hdmx', 'kern', 'LTSH', 'PCLT', 'VDMX', 'vhea', 'vmtx', 'BASE',
+  'GDEF', 'GPOS', 'GSUB', 'EBSC', 'JSTF', 'MATH', 'CBDT', 'CBLC', 'COLR', 'CPAL', 'SVG ', 'sbix', 'acnt',
+  'avar', 'bdat', 'bloc', 'bsln', 'cvar', 'fdsc', 'feat', 'fmtx', 'fvar', 'gvar', 'hsty', 'just', 'lcar',
+  'mort', 'morx', 'opbd', 'prop', 'trak', 'Zapf', 'Silf', 'Glat', 'Gloc', 'Feat', 'Sill'
+]
+
+/** Name IDs for the typographic family, falling back to the legacy family */
+const FAMILY_NAME_IDS = [16, 1]
+const WINDOWS_ENGLISH = 0x409
+
+type TableReader = (tag: string) => Buffer | null
+
+// ─── Containers ─────────────────────────────────────
+
+/** Plain TrueType/OpenType: a table directory of tag, checksum, offset, length */
+function sfntTables(data: Buffer): TableReader {
+  const count = data.readUInt16BE(4)
+  return (tag) => {
+    for (let i = 0; i < count; i++) {
+      const entry = 12 + i * 16
+      if (data.toString('latin1', entry, entry + 4) !== tag) continue
+      const offset = data.readUInt32BE(entry + 8)
+      return data.subarray(offset, offset + data.readUInt32BE(entry + 12))
+    }
+    return null
+  }
+}
+
+/** WOFF 1: the same directory, each table zlib-compressed unless that wouldn't save space */
+function woffTables(data: Buffer): TableReader {
+  const count = data.readUInt16BE(12)
+  return (tag) => {
+    for (let i = 0; i < count; i++) {
+      const entry = 44 + i * 20
+      if (data.toString('latin1', entry, entry + 4) !== tag) continue
+      const offset = data.readUInt32BE(entry + 4)
+      const compLength = data.readUInt32BE(entry + 8)
+      const origLength = data.readUInt32BE(entry + 12)
+      const table = data.subarray(offset, offset + compLength)
+      return compLength < origLength ? inflateSync(table) : table
+    }
+    return null
+  }
+}
+
+function readBase128(data: Buffer, pos: { at: number }): number {
+  let value = 0
+  for (let i = 0; i < 5; i++) {
+    const byte = data[pos.at++]
+    value = value * 128 + (byte & 0x7f)
+    if ((byte & 0x80) === 0) return value
+  }
+  throw new Error('Malformed WOFF2 table directory')
+}
+
+/**
+ * WOFF 2: a compact directory followed by one Brotli stream holding every
+ * table back to back. Only glyf, loca and hmtx are ever transformed, and
+ * the name and OS/2 tables read here never are.
+ */
+function woff2Tables(data: Buffer): TableReader {
+  const count = data.readUInt16BE(12)
+  const compressedLength = data.readUInt32BE(20)
+  const pos = { at: 48 }
+  const tables: { tag: string; offset: number; length: number }[] = []
+  let offset = 0
+  for (let i = 0; i < count; i++) {
+    const flags = data[pos.at++]
+    let tag = WOFF2_TAGS[flags & 0x3f]
+    if ((flags & 0x3f) === 0x3f) {
+      tag = data.toString('latin1', pos.at, pos.at + 4)
+      pos.at += 4
+    }
+    const origLength = readBase128(data, pos)
+    const version = flags >> 6
+    const transformed = tag === 'glyf' || tag === 'loca' ? version !== 3 : version !== 0
+    const length = transformed ? readBase128(data, pos) : origLength
+    tables.push({ tag, offset, length })
+    offset += length
+  }
+
+  let stream: Buffer | null = null
+  return (tag) => {
+    const table = tables.find((t) => t.tag === tag)
+    if (!table) return null
+    stream ??= brotliDecompressSync(data.subarray(pos.at, pos.at + compressedLength))
+    return stream.subarray(table.offset, table.offset + table.length)
+  }
+}
+
+// ─── Tables ─────────────────────────────────────────
+
+function decodeName(raw: Buffer, platformId: number): string {
+  // Windows and Unicode names are UTF-16BE; Mac Roman is close enough to Latin-1 for family names
+  if (platformId === 0 || platformId === 3) {
+    const swapped = Buffer.from(raw)
+    swapped.swap16()
+    return swapped.toString('utf16le')
+  }
+  return raw.toString('latin1')
+}
+
+function familyName(name: Buffer): string | null {
+  const count = name.readUInt16BE(2)
+  const stringOffset = name.readUInt16BE(4)
+  let best: { rank: number; value: string } | null = null
+
+  for (let i = 0; i < count; i++) {
+    const record = 6 + i * 12
+    const platformId = name.readUInt16BE(record)
+    const languageId = name.readUInt16BE(record + 4)
+    const nameId = name.readUInt16BE(record + 6)
+    const idRank = FAMILY_NAME_IDS.indexOf(nameId)
+    if (idRank === -1) continue
+
+    const length = name.readUInt16BE(record + 8)
+    const start = stringOffset + name.readUInt16BE(record + 10)
+    const value = decodeName(name.subarray(start, start + length), platformId).trim()
+    if (!value) continue
+
+    // Prefer the typographic family, then English Windows names
+    const rank = idRank * 4 + (platformId === 3 ? (languageId === WINDOWS_ENGLISH ? 0 : 1) : 2)
+    if (!best || rank < best.rank) best = { rank, value }
+  }
+  return best?.value ?? null
+}
+
+function fileFamily(path: string): string {
+  // "Lora-BoldItalic.ttf" → "Lora"
+  return basename(path, extname(path)).split(/[-_]/)[0].replace(/([a-z])([A-Z])/g, '$1 $2') || 'Custom Font'
+}
+
+/**
+ * Read the family name, weight and style a font file declares, so several
+ * files of one family share a single entry in the font menu. Files that
+ * can't be parsed fall back to their file name as the family.
+ */
+export function readFontFace(path: string, data: Buffer): FontFace {
+  const format = FONT_EXTENSIONS[extname(path).toLowerCase()]
+  if (!format) throw new Error('Not a TTF, OTF, WOFF or WOFF2 font')
+
+  const face: FontFace = { family: fileFamily(path), format, weight: 400, style: 'normal' }
+  try {
+    const signature = data.toString('latin1', 0, 4)
+    const tables =
+      signature === 'wOFF' ? woffTables(data) : signature === 'wOF2' ? woff2Tables(data) : sfntTables(data)
+
+    const name = tables('name')
+    const family = name ? familyName(name) : null
+    if (family) face.family = family
+
+    const os2 = tables('OS/2')
+    if (os2 && os2.length >= 64) {
+      face.weight = os2.readUInt16BE(4) || 400
+      // fsSelection bit 0 is italic, bit 9 oblique
+      face.style = os2.readUInt16BE(62) & 0x201 ? 'italic' : 'normal'
+    }
+  } catch {
+    // Unreadable tables; keep the file name
+  }
+  return face
+}
@@ -0,0 +1,191 @@
+import { app, BrowserWindow, dialog, ipcMain } from 'electron'
+import { randomUUID } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs'
+import { basename, extname, join } from 'path'
+import { getDatabase } from '../database'
+import { FONT_EXTENSIONS, readFontFace } from './fonts'
+
+interface CustomFontRow {
+  id: string
+  family: string
+  file_name: string
+  format: string
+  weight: number
+  style: string
+  created_at: string
+}
+
+export interface TypographyProfileInput {
+  name: string
+  font_family: string
+  font_size: number
+  line_height: number
+  margin: number
+  hyphenation: boolean
+  text_align: 'justify' | 'left'
+  paragraph_spacing: number
+  publisher_styles: 'override' | 'blend' | 'keep'
+}
+
+const PROFILE_FIELDS: (keyof TypographyProfileInput)[] = [
+  'name',
+  'font_family',
+  'font_size',
+  'line_height',
+  'margin',
+  'hyphenation',
+  'text_align',
+  'paragraph_spacing',
+  'publisher_styles'
+]
+
+function fontsDir(): string {
+  const dir = join(app.getPath('userData'), 'fonts')
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true })
+  return dir
+}
+
+/** Rows keep only the file name so a restored backup finds them under its own userData */
+function withPath(font: CustomFontRow): CustomFontRow & { file_path: string } {
+  return { ...font, file_path: join(fontsDir(), font.file_name) }
+}
+
+function getFonts(): (CustomFontRow & { file_path: string })[] {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM custom_fonts ORDER BY family COLLATE NOCASE, weight, style')
+    .all() as CustomFontRow[]
+  return rows.map(withPath)
+}
+
+function importFontFile(sourcePath: string): CustomFontRow & { file_path: string } {
+  const data = readFileSync(sourcePath)
+  const face = readFontFace(sourcePath, data)
+  const id = randomUUID()
+  const fileName = `${id}${extname(sourcePath).toLowerCase()}`
+  writeFileSync(join(fontsDir(), fileName), data)
+
+  const db = getDatabase()
+  db.prepare(
+    `INSERT INTO custom_fonts (id, family, file_name, format, weight, style)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(id, face.family, fileName, face.format, face.weight, face.style)
+  return withPath(db.prepare('SELECT * FROM custom_fonts WHERE id = ?').get(id) as CustomFontRow)
+}
+
+function toRow(data: Partial<TypographyProfileInput>): Record<string, unknown> {
+  const row: Record<string, unknown> = {}
+  for (const key of PROFILE_FIELDS) {
+    if (data[key] === undefined) continue
+    row[key] = key === 'hyphenation' ? (data[key] ? 1 : 0) : data[key]
+  }
+  return row
+}
+
+export function registerTypographyHandlers(): void {
+  // ─── Custom Fonts ───────────────────────────────────
+
+  ipcMain.handle('fonts:import', async () => {
+    const mainWindow = BrowserWindow.getFocusedWindow()
+    if (!mainWindow) return { success: false, error: 'No window' }
+
+    const result = await dialog.showOpenDialog(mainWindow, {
+      properties: ['openFile', 'multiSelections'],
+      filters: [
+        { name: 'Fonts', extensions: Object.keys(FONT_EXTENSIONS).map((ext) => ext.slice(1)) }
+      ]
+    })
+    if (result.canceled || result.filePaths.length === 0) return { success: false, error: 'Cancelled' }
+
+    const fonts: (CustomFontRow & { file_path: string })[] = []
+    const errors: string[] = []
+    for (const path of result.filePaths) {
+      try {
+        fonts.push(importFontFile(path))
+      } catch (err) {
+        errors.push(`${basename(path)}: ${err instanceof Error ? err.message : String(err)}`)
+      }
+    }
+    return { success: fonts.length > 0, fonts, errors, error: errors[0] }
+  })
+
+  ipcMain.handle('db:fonts:getAll', () => getFonts())
+
+  ipcMain.handle('db:fonts:delete', (_e, id: string) => {
+    const db = getDatabase()
+    const font = db.prepare('SELECT * FROM custom_fonts WHERE id = ?').get(id) as CustomFontRow | undefined
+    if (!font) return { success: false }
+    db.prepare('DELETE FROM custom_fonts WHERE id = ?').run(id)
+    try {
+      unlinkSync(join(fontsDir(), font.file_name))
+    } catch {
+      // Already gone
+    }
+    return { success: true }
+  })
+
+  // ─── Typography Profiles ────────────────────────────
+
+  ipcMain.handle('db:typography:getAll', () => {
+    return getDatabase().prepare('SELECT * FROM typography_profiles ORDER BY name COLLATE NOCASE').all()
+  })
+
+  ipcMain.handle('db:typography:create', (_e, data: TypographyProfileInput) => {
+    const id = randomUUID()
+    const row = toRow(data)
+    const columns = Object.keys(row)
+    const db = getDatabase()
+    db.prepare(
+      `INSERT INTO typography_profiles (id, ${columns.join(', ')})
+       VALUES (?, ${columns.map(() => '?').join(', ')})`
+    ).run(id, ...Object.values(row))
+    return db.prepare('SELECT * FROM typography_profiles WHERE id = ?').get(id)
+  })
+
+  ipcMain.handle('db:typography:update', (_e, id: string, data: Partial<TypographyProfileInput>) => {
+    const row = toRow(data)
+    const db = getDatabase()
+    if (Object.keys(row).length > 0) {
+      const fields = Object.keys(row).map((key) => `${key} = ?`)
+      db.prepare(
+        `UPDATE typography_profiles SET ${fields.join(', ')}, updated_at = datetime('now') WHERE id = ?`
+      ).run(...Object.values(row), id)
+    }
+    return db.prepare('SELECT * FROM typography_profiles WHERE id = ?').get(id)
+  })
+
+  ipcMain.handle('db:typography:delete', (_e, id: string) => {
+    // Books and categories using it fall back via ON DELETE SET NULL
+    getDatabase().prepare('DELETE FROM typography_profiles WHERE id = ?').run(id)
+    return { success: true }
+  })
+
+  // The book's own profile wins over its category's
+  ipcMain.handle('db:typography:getForBook', (_e, bookId: string) => {
+    const row = getDatabase()
+      .prepare(
+        `SELECT p.*, CASE WHEN b.typography_profile_id IS NOT NULL THEN 'book' ELSE 'category' END AS source
+         FROM books b
+         LEFT JOIN categories c ON c.id = b.category_id
+         INNER JOIN typography_profiles p ON p.id = COALESCE(b.typography_profile_id, c.typography_profile_id)
+         WHERE b.id = ?`
+      )
+      .get(bookId) as ({ source: 'book' | 'category' } & Record<string, unknown>) | undefined
+    if (!row) return { profile: null, source: null }
+    const { source, ...profile } = row
+    return { profile, source }
+  })
+
+  // Assignments aren't synced, but the touch triggers still bump updated_at,
+  // so the row counts as edited here at its next sync
+  ipcMain.handle('db:typography:assignBook', (_e, bookId: string, profileId: string | null) => {
+    getDatabase().prepare('UPDATE books SET typography_profile_id = ? WHERE id = ?').run(profileId, bookId)
+    return { success: true }
+  })
+
+  ipcMain.handle('db:typography:assignCategory', (_e, categoryId: string, profileId: string | null) => {
+    getDatabase()
+      .prepare('UPDATE categories SET typography_profile_id = ? WHERE id = ?')
+      .run(profileId, categoryId)
+    return { success: true }
+  })
+}
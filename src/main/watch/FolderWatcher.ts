@@ -0,0 +1,390 @@
+import { BrowserWindow } from 'electron'
+import { createHash } from 'crypto'
+import { createReadStream, existsSync, readdirSync, statSync, watch, FSWatcher } from 'fs'
+import { basename, join, sep } from 'path'
+import { pipeline } from 'stream/promises'
+import { getDatabase } from '../database'
+import { readSetting, writeSetting } from '../database/settings'
+import { detectFormat, importBook } from '../import/importer'
+import { DEFAULT_WATCH_CONFIG, WatchConfig, WatchError, WatchStatus } from './types'
+
+/** Folder paths only make sense on this machine; never restored from backups */
+export const WATCH_CONFIG_KEY = 'watchFolders'
+const STARTUP_DELAY_MS = 15_000
+/** A file must keep the same size this long before it's imported, so half-copied files are left alone */
+const SETTLE_MS = 2_000
+const MAX_SCAN_DEPTH = 8
+const MAX_ERRORS = 20
+
+type FileStatus = 'imported' | 'relinked' | 'duplicate' | 'failed'
+
+function isUnder(path: string, folder: string): boolean {
+  return path === folder || path.startsWith(folder.endsWith(sep) ? folder : folder + sep)
+}
+
+async function hashFile(path: string): Promise<string> {
+  const hash = createHash('sha1')
+  await pipeline(createReadStream(path), hash)
+  return hash.digest('hex')
+}
+
+/**
+ * Watches the configured folders and imports new EPUB and PDF files in the
+ * background, one at a time. Books whose source file disappears are flagged;
+ * if the same file shows up elsewhere in a watched folder, the book is
+ * relinked to it instead of being imported twice.
+ */
+export class FolderWatcher {
+  private config: WatchConfig = DEFAULT_WATCH_CONFIG
+  private watchers = new Map<string, FSWatcher>()
+  private settling = new Map<string, { timer: ReturnType<typeof setTimeout>; size: number }>()
+  private queue: string[] = []
+  private draining: Promise<void> | null = null
+  private startupTimer: ReturnType<typeof setTimeout> | null = null
+  private status: WatchStatus = {
+    state: 'idle',
+    current: null,
+    queued: 0,
+    imported: 0,
+    errors: [],
+    unavailable: []
+  }
+
+  constructor() {
+    this.config = { ...DEFAULT_WATCH_CONFIG, ...readSetting<Partial<WatchConfig> | null>(WATCH_CONFIG_KEY, null) }
+  }
+
+  // ─── Configuration ───────────────────────────────
+
+  getConfig(): WatchConfig {
+    return { ...this.config, folders: [...this.config.folders] }
+  }
+
+  updateConfig(update: Partial<WatchConfig>): WatchConfig {
+    const added = (update.folders ?? []).filter((f) => !this.config.folders.includes(f))
+    const enabling = update.enabled === true && !this.config.enabled
+
+    this.config = { ...this.config, ...update }
+    writeSetting(WATCH_CONFIG_KEY, this.config)
+    this.applyConfig()
+
+    // Pick up what is already sitting in a newly added folder
+    if (enabling) this.scanNow()
+    else if (added.length > 0) this.scanNow(added)
+    return this.getConfig()
+  }
+
+  getStatus(): WatchStatus {
+    return { ...this.status, errors: [...this.status.errors], unavailable: [...this.status.unavailable] }
+  }
+
+  // ─── Watching ────────────────────────────────────
+
+  /** Start watching shortly after launch and catch up on changes made while closed */
+  start(): void {
+    this.applyConfig()
+    this.startupTimer = setTimeout(() => this.scanNow(), STARTUP_DELAY_MS)
+  }
+
+  private applyConfig(): void {
+    const wanted = new Set(this.config.enabled ? this.config.folders : [])
+    for (const [folder, watcher] of this.watchers) {
+      if (!wanted.has(folder)) {
+        watcher.close()
+        this.watchers.delete(folder)
+      }
+    }
+
+    const unavailable: string[] = []
+    for (const folder of wanted) {
+      if (this.watchers.has(folder)) continue
+      try {
+        if (!statSync(folder).isDirectory()) throw new Error('Not a folder')
+        const watcher = watch(folder, { recursive: true }, (_event, name) => {
+          if (name) this.onChange(join(folder, name.toString()))
+        })
+        watcher.on('error', () => {
+          watcher.close()
+          this.watchers.delete(folder)
+          this.setStatus({ unavailable: [...new Set([...this.status.unavailable, folder])] })
+        })
+        this.watchers.set(folder, watcher)
+      } catch {
+        unavailable.push(folder)
+      }
+    }
+    this.setStatus({ unavailable })
+  }
+
+  private onChange(path: string): void {
+    if (!existsSync(path)) {
+      this.onRemoved(path)
+      return
+    }
+    if (!detectFormat(path) || basename(path).startsWith('.')) return
+
+    let size: number
+    try {
+      size = statSync(path).size
+    } catch {
+      return
+    }
+    const previous = this.settling.get(path)
+    if (previous) clearTimeout(previous.timer)
+    const timer = setTimeout(() => this.settle(path, size), SETTLE_MS)
+    this.settling.set(path, { timer, size })
+  }
+
+  private settle(path: string, size: number): void {
+    this.settling.delete(path)
+    let current: number
+    try {
+      current = statSync(path).size
+    } catch {
+      return
+    }
+    // Still being written; check again later
+    if (current !== size || current === 0) {
+      const timer = setTimeout(() => this.settle(path, current), SETTLE_MS)
+      this.settling.set(path, { timer, size: current })
+      return
+    }
+    this.enqueue([path])
+  }
+
+  /** A file or folder went away: flag the books imported from it */
+  private onRemoved(path: string): void {
+    const db = getDatabase()
+    const now = new Date().toISOString()
+    const prefix = path.endsWith(sep) ? path : path + sep
+    db.prepare(
+      `UPDATE books SET original_missing_at = ?
+       WHERE original_missing_at IS NULL AND (original_path = ? OR substr(original_path, 1, ?) = ?)`
+    ).run(now, path, prefix.length, prefix)
+    db.prepare('DELETE FROM watched_files WHERE path = ? OR substr(path, 1, ?) = ?').run(path, prefix.length, prefix)
+  }
+
+  // ─── Scanning ────────────────────────────────────
+
+  /** Re-check every watched folder (or just the given ones) for new and missing files */
+  scanNow(folders?: string[]): void {
+    if (!this.config.enabled) return
+    const targets = (folders ?? this.config.folders).filter((f) => existsSync(f))
+    const wasIdle = this.status.state === 'idle'
+    if (wasIdle) this.setStatus({ state: 'scanning' })
+    this.checkMissing()
+
+    const handled = new Map(
+      (
+        getDatabase().prepare('SELECT path, size, mtime_ms FROM watched_files').all() as {
+          path: string
+          size: number
+          mtime_ms: number
+        }[]
+      ).map((row) => [row.path, row])
+    )
+    const found: string[] = []
+    for (const folder of targets) {
+      for (const path of this.listBooks(folder)) {
+        const seen = handled.get(path)
+        try {
+          const stat = statSync(path)
+          if (seen && seen.size === stat.size && seen.mtime_ms === stat.mtimeMs) continue
+        } catch {
+          continue
+        }
+        found.push(path)
+      }
+    }
+    if (wasIdle) this.setStatus({ state: 'idle' })
+    this.enqueue(found)
+  }
+
+  private listBooks(dir: string, depth = 0): string[] {
+    if (depth > MAX_SCAN_DEPTH) return []
+    const found: string[] = []
+    let names: string[]
+    try {
+      names = readdirSync(dir)
+    } catch {
+      return found
+    }
+    for (const name of names) {
+      if (name.startsWith('.')) continue
+      const path = join(dir, name)
+      try {
+        if (statSync(path).isDirectory()) found.push(...this.listBooks(path, depth + 1))
+        else if (detectFormat(path)) found.push(path)
+      } catch {
+        // Unreadable entry
+      }
+    }
+    return found
+  }
+
+  /** Flag (or unflag) books from watched folders whose source file is gone (or back) */
+  private checkMissing(): void {
+    const db = getDatabase()
+    const books = db
+      .prepare('SELECT id, original_path, original_missing_at FROM books WHERE original_path IS NOT NULL')
+      .all() as { id: string; original_path: string; original_missing_at: string | null }[]
+    const flag = db.prepare('UPDATE books SET original_missing_at = ? WHERE id = ?')
+    const now = new Date().toISOString()
+
+    for (const book of books) {
+      if (!this.config.folders.some((f) => isUnder(book.original_path, f))) continue
+      const exists = existsSync(book.original_path)
+      if (!exists && !book.original_missing_at) flag.run(now, book.id)
+      else if (exists && book.original_missing_at) flag.run(null, book.id)
+    }
+  }
+
+  // ─── Importing ───────────────────────────────────
+
+  private enqueue(paths: string[]): void {
+    for (const path of paths) {
+      if (!this.queue.includes(path)) this.queue.push(path)
+    }
+    this.setStatus({ queued: this.queue.length })
+    if (!this.draining && this.queue.length > 0) {
+      this.draining = this.drain().finally(() => {
+        this.draining = null
+      })
+    }
+  }
+
+  private async drain(): Promise<void> {
+    let path: string | undefined
+    while ((path = this.queue.shift()) !== undefined) {
+      this.setStatus({ state: 'importing', current: basename(path), queued: this.queue.length })
+      try {
+        await this.processFile(path)
+      } catch (err) {
+        this.recordError(path, err instanceof Error ? err.message : String(err))
+      }
+    }
+    this.setStatus({ state: 'idle', current: null, queued: 0 })
+  }
+
+  private async processFile(path: string): Promise<void> {
+    if (!existsSync(path)) return
+    const stat = statSync(path)
+    const db = getDatabase()
+
+    // The file came back where it was
+    const restored = db
+      .prepare('UPDATE books SET original_missing_at = NULL WHERE original_path = ? AND original_missing_at IS NOT NULL')
+      .run(path)
+    const existing = db.prepare('SELECT id FROM books WHERE original_path = ?').get(path) as { id: string } | undefined
+    if (existing) {
+      this.recordFile(path, stat, existing.id, restored.changes > 0 ? 'relinked' : 'duplicate')
+      return
+    }
+
+    const moved = await this.findMovedBook(path, stat.size)
+    if (moved) {
+      db.prepare('UPDATE books SET original_path = ?, original_missing_at = NULL WHERE id = ?').run(path, moved)
+      this.recordFile(path, stat, moved, 'relinked')
+      return
+    }
+
+    const result = await importBook(path, {
+      categoryId: this.config.categoryId ?? undefined,
+      readingMode: this.config.readingMode
+    })
+    if (result.success) {
+      this.recordFile(path, stat, result.book.id, 'imported')
+      this.setStatus({ imported: this.status.imported + 1 })
+      this.broadcast('watch:book-imported', result.book)
+    } else if (result.code === 'DUPLICATE') {
+      // Already in the library under another path; not worth an error
+      this.recordFile(path, stat, null, 'duplicate')
+    } else {
+      this.recordFile(path, stat, null, 'failed', result.error)
+      this.recordError(path, result.error)
+    }
+  }
+
+  /** A flagged book whose stored copy has the same bytes as the new file */
+  private async findMovedBook(path: string, size: number): Promise<string | null> {
+    const format = detectFormat(path)
+    const candidates = getDatabase()
+      .prepare('SELECT id, file_path FROM books WHERE original_missing_at IS NOT NULL AND format = ?')
+      .all(format) as { id: string; file_path: string }[]
+
+    let hash: string | null = null
+    for (const candidate of candidates) {
+      try {
+        if (statSync(candidate.file_path).size !== size) continue
+        hash ??= await hashFile(path)
+        if ((await hashFile(candidate.file_path)) === hash) return candidate.id
+      } catch {
+        // Stored copy missing too; can't compare
+      }
+    }
+    return null
+  }
+
+  private recordFile(
+    path: string,
+    stat: { size: number; mtimeMs: number },
+    bookId: string | null,
+    status: FileStatus,
+    error: string | null = null
+  ): void {
+    getDatabase()
+      .prepare(
+        `INSERT INTO watched_files (path, size, mtime_ms, book_id, status, error, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(path) DO UPDATE SET
+           size = excluded.size, mtime_ms = excluded.mtime_ms, book_id = excluded.book_id,
+           status = excluded.status, error = excluded.error, updated_at = excluded.updated_at`
+      )
+      .run(path, stat.size, stat.mtimeMs, bookId, status, error, new Date().toISOString())
+  }
+
+  private recordError(path: string, error: string): void {
+    console.error(`Watched folder import failed for ${path}:`, error)
+    const entry: WatchError = { path, error, at: new Date().toISOString() }
+    this.setStatus({ errors: [entry, ...this.status.errors].slice(0, MAX_ERRORS) })
+  }
+
+  clearErrors(): WatchStatus {
+    this.setStatus({ errors: [] })
+    return this.getStatus()
+  }
+
+  // ─── Events ──────────────────────────────────────
+
+  private setStatus(update: Partial<WatchStatus>): void {
+    this.status = { ...this.status, ...update }
+    this.broadcast('watch:status-update', this.status)
+  }
+
+  private broadcast(channel: string, data: unknown): void {
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send(channel, data)
+      }
+    }
+  }
+
+  destroy(): void {
+    if (this.startupTimer) clearTimeout(this.startupTimer)
+    for (const { timer } of this.settling.values()) clearTimeout(timer)
+    this.settling.clear()
+    for (const watcher of this.watchers.values()) watcher.close()
+    this.watchers.clear()
+    this.queue = []
+  }
+}
+
+// Singleton instance
+let instance: FolderWatcher | null = null
+
+export function getFolderWatcher(): FolderWatcher {
+  if (!instance) {
+    instance = new FolderWatcher()
+  }
+  return instance
+}
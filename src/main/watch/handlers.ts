@@ -0,0 +1,43 @@
+import { BrowserWindow, dialog, ipcMain } from 'electron'
+import { getFolderWatcher } from './FolderWatcher'
+import { WatchConfig } from './types'
+
+export function registerWatchHandlers(): void {
+  const watcher = getFolderWatcher()
+
+  ipcMain.handle('watch:get-config', () => {
+    return watcher.getConfig()
+  })
+
+  ipcMain.handle('watch:update-config', (_e, update: Partial<WatchConfig>) => {
+    return watcher.updateConfig(update)
+  })
+
+  ipcMain.handle('watch:get-status', () => {
+    return watcher.getStatus()
+  })
+
+  // Pick a folder and start watching it; null when the dialog is dismissed
+  ipcMain.handle('watch:add-folder', async () => {
+    const mainWindow = BrowserWindow.getFocusedWindow()
+    if (!mainWindow) return null
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: 'Choose a folder to watch for new books',
+      properties: ['openDirectory']
+    })
+    if (result.canceled || result.filePaths.length === 0) return null
+
+    const folders = watcher.getConfig().folders
+    if (folders.includes(result.filePaths[0])) return watcher.getConfig()
+    return watcher.updateConfig({ folders: [...folders, result.filePaths[0]] })
+  })
+
+  ipcMain.handle('watch:scan', () => {
+    watcher.scanNow()
+    return watcher.getStatus()
+  })
+
+  ipcMain.handle('watch:clear-errors', () => {
+    return watcher.clearErrors()
+  })
+}
@@ -0,0 +1,33 @@
+export interface WatchConfig {
+  enabled: boolean
+  folders: string[]
+  /** Category and reading mode given to every book imported from a watched folder */
+  categoryId: string | null
+  readingMode: 'study' | 'leisure' | null
+}
+
+export const DEFAULT_WATCH_CONFIG: WatchConfig = {
+  enabled: true,
+  folders: [],
+  categoryId: null,
+  readingMode: null
+}
+
+export interface WatchError {
+  path: string
+  error: string
+  at: string
+}
+
+export interface WatchStatus {
+  state: 'idle' | 'scanning' | 'importing'
+  /** File being imported right now */
+  current: string | null
+  queued: number
+  /** Books imported since launch */
+  imported: number
+  /** Most recent failures, newest first */
+  errors: WatchError[]
+  /** Configured folders that could not be watched (missing, unplugged drive, no access) */
+  unavailable: string[]
+}
@@ -75,6 +75,26 @@ const api = {
     delete: (id: string): Promise<unknown> => ipcRenderer.invoke('db:notes:delete', id)
   },
 
+  // ─── Bookmarks ───────────────────────────────────────
+  bookmarks: {
+    getAll: (): Promise<unknown[]> => ipcRenderer.invoke('db:bookmarks:getAll'),
+    getByBook: (bookId: string): Promise<unknown[]> =>
+      ipcRenderer.invoke('db:bookmarks:getByBook', bookId),
+    create: (data: {
+      book_id: string
+      cfi: string
+      label?: string | null
+      chapter?: string | null
+      percent?: number
+    }): Promise<unknown> => ipcRenderer.invoke('db:bookmarks:create', data),
+    update: (id: string, data: { label: string | null }): Promise<unknown> =>
+      ipcRenderer.invoke('db:bookmarks:update', id, data),
+    delete: (id: string): Promise<unknown> => ipcRenderer.invoke('db:bookmarks:delete', id),
+    importLegacy: (
+      entries: { book_id: string; cfi: string; chapter?: string | null; percent?: number }[]
+    ): Promise<number> => ipcRenderer.invoke('db:bookmarks:importLegacy', entries)
+  },
+
   // ─── Dashboard ──────────────────────────────────────
   dashboard: {
     currentlyReading: (): Promise<unknown[]> =>
@@ -126,11 +146,14 @@ const api = {
       manualBaseHours?: number
       notes?: string
       sourceLabel?: string
+      countListening?: boolean
     }): Promise<unknown> => ipcRenderer.invoke('db:tracks:upsert', data),
     delete: (categoryId: string): Promise<unknown> =>
       ipcRenderer.invoke('db:tracks:delete', categoryId),
     computeProgress: (categoryId: string): Promise<unknown> =>
       ipcRenderer.invoke('db:tracks:computeProgress', categoryId),
+    getForecast: (categoryId: string): Promise<unknown> =>
+      ipcRenderer.invoke('db:tracks:getForecast', categoryId),
     getTopForDashboard: (limit?: number): Promise<unknown[]> =>
       ipcRenderer.invoke('db:tracks:getTopForDashboard', limit),
     getAll: (): Promise<unknown[]> => ipcRenderer.invoke('db:tracks:getAll')
@@ -146,6 +169,106 @@ const api = {
     }): Promise<unknown> => ipcRenderer.invoke('db:manual-time:add', data),
     getRecent: (categoryId: string, limit?: number): Promise<unknown[]> =>
       ipcRenderer.invoke('db:manual-time:getRecent', categoryId, limit)
+  },
+
+  // ─── Reading Goals ──────────────────────────────────
+  goals: {
+    getAll: (): Promise<unknown[]> => ipcRenderer.invoke('db:goals:getAll'),
+    create: (data: {
+      goalType: string
+      target: number
+      period?: string
+      scope?: string
+      scopeId?: string | null
+      title?: string | null
+    }): Promise<unknown> => ipcRenderer.invoke('db:goals:create', data),
+    update: (id: string, data: Record<string, unknown>): Promise<unknown> =>
+      ipcRenderer.invoke('db:goals:update', id, data),
+    delete: (id: string): Promise<unknown> => ipcRenderer.invoke('db:goals:delete', id)
+  },
+
+  // ─── Full-Text Search ───────────────────────────────
+  search: {
+    query: (query: string, options?: { bookId?: string; limit?: number }): Promise<unknown[]> =>
+      ipcRenderer.invoke('db:search:query', query, options),
+    reindexBook: (bookId: string): Promise<unknown> =>
+      ipcRenderer.invoke('db:search:reindexBook', bookId)
+  },
+
+  // ─── Time-Left Estimates ────────────────────────────
+  estimates: {
+    chapters: (bookId: string): Promise<unknown[]> =>
+      ipcRenderer.invoke('db:estimates:chapters', bookId),
+    speeds: (): Promise<unknown> => ipcRenderer.invoke('db:estimates:speeds'),
+    timeLeft: (bookIds?: string[]): Promise<unknown> =>
+      ipcRenderer.invoke('db:estimates:timeLeft', bookIds)
+  },
+  // ─── Statistics ─────────────────────────────────────
+  stats: {
+    daily: (range?: { from?: string; to?: string }): Promise<unknown[]> =>
+      ipcRenderer.invoke('db:stats:daily', range),
+    hourly: (range?: { from?: string; to?: string }): Promise<unknown[]> =>
+      ipcRenderer.invoke('db:stats:hourly', range),
+    series: (
+      range?: { from?: string; to?: string },
+      groupBy?: 'book' | 'category',
+      bucket?: 'day' | 'week' | 'month'
+    ): Promise<unknown[]> => ipcRenderer.invoke('db:stats:series', range, groupBy, bucket),
+    wpmTrend: (
+      range?: { from?: string; to?: string },
+      bucket?: 'day' | 'week' | 'month'
+    ): Promise<unknown[]> => ipcRenderer.invoke('db:stats:wpmTrend', range, bucket),
+    summary: (range?: { from?: string; to?: string }): Promise<unknown> =>
+      ipcRenderer.invoke('db:stats:summary', range)
+  },
+  review: {
+    generate: (): Promise<unknown> => ipcRenderer.invoke('db:review:generate'),
+    queue: (options?: { bookId?: string; limit?: number }): Promise<unknown[]> =>
+      ipcRenderer.invoke('db:review:queue', options),
+    counts: (): Promise<unknown> => ipcRenderer.invoke('db:review:counts'),
+    grade: (cardId: string, grade: string, elapsedMs: number): Promise<unknown> =>
+      ipcRenderer.invoke('db:review:grade', cardId, grade, elapsedMs),
+    update: (cardId: string, data: Record<string, unknown>): Promise<unknown> =>
+      ipcRenderer.invoke('db:review:update', cardId, data),
+    suspend: (cardId: string, suspended: boolean): Promise<unknown> =>
+      ipcRenderer.invoke('db:review:suspend', cardId, suspended),
+    finish: (): Promise<unknown> => ipcRenderer.invoke('db:review:finish')
+  },
+  clippings: {
+    getQueue: (): Promise<unknown[]> => ipcRenderer.invoke('db:clippings:getQueue'),
+    assign: (id: string, bookId: string): Promise<unknown> =>
+      ipcRenderer.invoke('db:clippings:assign', id, bookId),
+    retry: (): Promise<unknown> => ipcRenderer.invoke('db:clippings:retry'),
+    dismiss: (id: string): Promise<unknown> => ipcRenderer.invoke('db:clippings:dismiss', id)
+  },
+  fonts: {
+    getAll: (): Promise<unknown[]> => ipcRenderer.invoke('db:fonts:getAll'),
+    delete: (id: string): Promise<unknown> => ipcRenderer.invoke('db:fonts:delete', id)
+  },
+  typography: {
+    getAll: (): Promise<unknown[]> => ipcRenderer.invoke('db:typography:getAll'),
+    create: (data: Record<string, unknown>): Promise<unknown> => ipcRenderer.invoke('db:typography:create', data),
+    update: (id: string, data: Record<string, unknown>): Promise<unknown> =>
+      ipcRenderer.invoke('db:typography:update', id, data),
+    delete: (id: string): Promise<unknown> => ipcRenderer.invoke('db:typography:delete', id),
+    getForBook: (bookId: string): Promise<unknown> => ipcRenderer.invoke('db:typography:getForBook', bookId),
+    assignBook: (bookId: string, profileId: string | null): Promise<unknown> =>
+      ipcRenderer.invoke('db:typography:assignBook', bookId, profileId),
+    assignCategory: (categoryId: string, profileId: string | null): Promise<unknown> =>
+      ipcRenderer.invoke('db:typography:assignCategory', categoryId, profileId)
+  },
+  dictionaries: {
+    getAll: (): Promise<unknown[]> => ipcRenderer.invoke('db:dictionaries:getAll'),
+    update: (id: string, data: Record<string, unknown>): Promise<unknown> =>
+      ipcRenderer.invoke('db:dictionaries:update', id, data),
+    delete: (id: string): Promise<unknown> => ipcRenderer.invoke('db:dictionaries:delete', id),
+    lookup: (text: string, bookId?: string): Promise<unknown> => ipcRenderer.invoke('dictionary:lookup', text, bookId)
+  },
+  vocabulary: {
+    getAll: (): Promise<unknown[]> => ipcRenderer.invoke('db:vocabulary:getAll'),
+    getByBook: (bookId: string): Promise<unknown[]> => ipcRenderer.invoke('db:vocabulary:getByBook', bookId),
+    create: (data: Record<string, unknown>): Promise<unknown> => ipcRenderer.invoke('db:vocabulary:create', data),
+    delete: (id: string): Promise<unknown> => ipcRenderer.invoke('db:vocabulary:delete', id)
   }
 }
 
@@ -154,21 +277,61 @@ const appApi = {
   toggleFullscreen: (): Promise<boolean> => ipcRenderer.invoke('window:toggleFullscreen'),
   isFullscreen: (): Promise<boolean> => ipcRenderer.invoke('window:isFullscreen'),
 
-  // EPUB parse (metadata only, no save)
+  // Book parse (EPUB/PDF metadata only, no save)
   parseEpub: (filePath: string): Promise<unknown> => ipcRenderer.invoke('epub:parse', filePath),
   parseEpubDialog: (): Promise<unknown> => ipcRenderer.invoke('epub:parseDialog'),
 
-  // EPUB import
+  // Book import (EPUB/PDF)
   importEpub: (
     filePath: string,
     options?: { categoryId?: string; readingMode?: string | null }
   ): Promise<unknown> => ipcRenderer.invoke('epub:import', filePath, options),
   importEpubDialog: (): Promise<unknown> => ipcRenderer.invoke('epub:importDialog'),
   deleteBook: (bookId: string): Promise<unknown> => ipcRenderer.invoke('epub:delete', bookId),
+  savePdfCover: (bookId: string, dataUrl: string): Promise<string | null> =>
+    ipcRenderer.invoke('pdf:saveCover', bookId, dataUrl),
 
   // Export
   exportMarkdown: (bookId: string): Promise<unknown> =>
     ipcRenderer.invoke('export:markdown', bookId),
+  exportAnnotations: (
+    format: string,
+    scope?: { bookId?: string | null; categoryId?: string | null; from?: string | null; to?: string | null }
+  ): Promise<unknown> =>
+    ipcRenderer.invoke('export:annotations', format, scope),
+
+  // Library backup
+  exportLibrary: (): Promise<unknown> => ipcRenderer.invoke('backup:export'),
+  importLibrary: (mode: 'merge' | 'replace'): Promise<unknown> => ipcRenderer.invoke('backup:import', mode),
+
+  // Kindle / KOReader highlights
+  importClippings: (pick: 'files' | 'folder'): Promise<unknown> => ipcRenderer.invoke('clippings:import', pick),
+
+  // Reading fonts (TTF/OTF/WOFF/WOFF2)
+  importFonts: (): Promise<unknown> => ipcRenderer.invoke('fonts:import'),
+
+  // StarDict and DICT dictionaries
+  installDictionaries: (): Promise<unknown> => ipcRenderer.invoke('dictionaries:install'),
+  openDictionariesFolder: (): Promise<unknown> => ipcRenderer.invoke('dictionaries:openFolder'),
+
+  // Calibre library
+  openCalibreLibrary: (libraryPath?: string): Promise<unknown> => ipcRenderer.invoke('calibre:open', libraryPath),
+  importCalibreBooks: (
+    libraryPath: string,
+    options: { calibreIds: number[]; mapTags: boolean; readingMode: string | null }
+  ): Promise<unknown> => ipcRenderer.invoke('calibre:import', libraryPath, options),
+  onCalibreImportProgress: (callback: (progress: unknown) => void): (() => void) => {
+    const handler = (_event: unknown, progress: unknown): void => callback(progress)
+    ipcRenderer.on('calibre:import-progress', handler as (...args: unknown[]) => void)
+    return () => ipcRenderer.removeListener('calibre:import-progress', handler as (...args: unknown[]) => void)
+  },
+
+  // Learning tracks slipping behind pace
+  onTrackPaceAlert: (callback: (alert: unknown) => void): (() => void) => {
+    const handler = (_event: unknown, alert: unknown): void => callback(alert)
+    ipcRenderer.on('tracks:pace-alert', handler as (...args: unknown[]) => void)
+    return () => ipcRenderer.removeListener('tracks:pace-alert', handler as (...args: unknown[]) => void)
+  },
 
   // Menu events
   onMenuImportEpub: (callback: () => void): (() => void) => {
@@ -298,6 +461,16 @@ const sessionApi = {
     ipcRenderer.send('session:increment-note')
   },
 
+  reportLocation: (location: {
+    bookId: string
+    startCfi: string
+    endCfi: string
+    start: { spineIndex: number; fraction: number }
+    end: { spineIndex: number; fraction: number }
+  }): void => {
+    ipcRenderer.send('session:location', location)
+  },
+
   microbreakTake: (): void => {
     ipcRenderer.send('session:microbreak-take')
   },
@@ -323,12 +496,33 @@ const sessionApi = {
 }
 
 // ─── TTS API ────────────────────────────────────────
+interface TtsChunkReady {
+  chunkIndex: number
+  wavUrl: string
+  /** Estimated timing of each word, as character ranges into the chunk text */
+  words: Array<{ start: number; end: number; startMs: number; endMs: number }>
+}
+
+interface TtsSectionStart {
+  bookId: string
+  chapterHref: string
+  sectionHref: string
+  chunks: Array<{ index: number; text: string; startOffset: number }>
+}
+
+type TtsSleepTimerSpec =
+  | { mode: 'minutes'; minutes: number }
+  | { mode: 'chapter' }
+  | { mode: 'chunks'; count: number }
+
 const ttsApi = {
   speak: (params: {
     bookId: string
     chapterHref: string
+    sectionHref?: string
     chunks: Array<{ index: number; text: string; startOffset: number }>
     startChunkIndex?: number
+    engine?: 'kokoro' | 'piper'
     voiceId?: string
     rate?: number
   }): Promise<unknown> => ipcRenderer.invoke('tts:speak', params),
@@ -338,27 +532,73 @@ const ttsApi = {
   stop: (): Promise<unknown> => ipcRenderer.invoke('tts:stop'),
   nextChunk: (): Promise<unknown> => ipcRenderer.invoke('tts:next-chunk'),
   prevChunk: (): Promise<unknown> => ipcRenderer.invoke('tts:prev-chunk'),
-  setVoice: (voiceId: string): Promise<unknown> => ipcRenderer.invoke('tts:set-voice', voiceId),
+  setVoice: (voiceId: string, engine?: 'kokoro' | 'piper'): Promise<unknown> =>
+    ipcRenderer.invoke('tts:set-voice', voiceId, engine),
+  setEngine: (engine: 'kokoro' | 'piper'): Promise<unknown> => ipcRenderer.invoke('tts:set-engine', engine),
   setRate: (rate: number): Promise<unknown> => ipcRenderer.invoke('tts:set-rate', rate),
   getStatus: (): Promise<unknown> => ipcRenderer.invoke('tts:get-status'),
   getVoices: (): Promise<unknown[]> => ipcRenderer.invoke('tts:get-voices'),
-  isInstalled: (): Promise<boolean> => ipcRenderer.invoke('tts:is-installed'),
-  install: (): Promise<unknown> => ipcRenderer.invoke('tts:install'),
-  downloadVoice: (voiceId: string): Promise<unknown> => ipcRenderer.invoke('tts:download-voice', voiceId),
+  getEngines: (): Promise<unknown[]> => ipcRenderer.invoke('tts:get-engines'),
+  resolveVoice: (bookId?: string): Promise<{ engine: 'kokoro' | 'piper'; voiceId: string }> =>
+    ipcRenderer.invoke('tts:resolve-voice', bookId),
+  isInstalled: (bookId?: string): Promise<boolean> => ipcRenderer.invoke('tts:is-installed', bookId),
+  install: (engine?: 'kokoro' | 'piper'): Promise<unknown> => ipcRenderer.invoke('tts:install', engine),
+  downloadVoice: (voiceId: string, engine?: 'kokoro' | 'piper'): Promise<unknown> =>
+    ipcRenderer.invoke('tts:download-voice', voiceId, engine),
   clearCache: (): Promise<unknown> => ipcRenderer.invoke('tts:clear-cache'),
 
+  // Sleep timer and listening queue
+  setSleepTimer: (spec: TtsSleepTimerSpec | null): Promise<unknown> => ipcRenderer.invoke('tts:set-sleep-timer', spec),
+  addToQueue: (bookId: string, sectionHref?: string): Promise<unknown> =>
+    ipcRenderer.invoke('tts:queue-add', bookId, sectionHref),
+  removeFromQueue: (id: string): Promise<unknown> => ipcRenderer.invoke('tts:queue-remove', id),
+  clearQueue: (): Promise<unknown> => ipcRenderer.invoke('tts:queue-clear'),
+  playNextInQueue: (): Promise<unknown> => ipcRenderer.invoke('tts:queue-play-next'),
+
+  // Pronunciation lexicon
+  listPronunciations: (bookId?: string): Promise<unknown[]> => ipcRenderer.invoke('tts:lexicon-list', bookId),
+  savePronunciation: (rule: {
+    id?: string
+    bookId: string | null
+    term: string
+    replacement: string
+    caseSensitive: boolean
+  }): Promise<unknown> => ipcRenderer.invoke('tts:lexicon-save', rule),
+  deletePronunciation: (id: string): Promise<unknown> => ipcRenderer.invoke('tts:lexicon-delete', id),
+
+  // Audiobook rendering
+  getRenderCapabilities: (): Promise<{ m4b: boolean }> => ipcRenderer.invoke('tts:render-capabilities'),
+  listRenderJobs: (): Promise<unknown[]> => ipcRenderer.invoke('tts:render-list'),
+  startRender: (params: {
+    bookId: string
+    engine: 'kokoro' | 'piper'
+    voiceId: string
+    rate: number
+    format: 'm4b' | 'chapters'
+  }): Promise<unknown> => ipcRenderer.invoke('tts:render-start', params),
+  cancelRender: (jobId: string): Promise<unknown> => ipcRenderer.invoke('tts:render-cancel', jobId),
+  resumeRender: (jobId: string): Promise<unknown> => ipcRenderer.invoke('tts:render-resume', jobId),
+  discardRender: (jobId: string): Promise<boolean> => ipcRenderer.invoke('tts:render-discard', jobId),
+  revealRender: (jobId: string): Promise<void> => ipcRenderer.invoke('tts:render-reveal', jobId),
+
   onStateUpdate: (callback: (snapshot: unknown) => void): (() => void) => {
     const handler = (_event: unknown, snapshot: unknown): void => callback(snapshot)
     ipcRenderer.on('tts:state-update', handler as (...args: unknown[]) => void)
     return () => ipcRenderer.removeListener('tts:state-update', handler as (...args: unknown[]) => void)
   },
 
-  onChunkReady: (callback: (data: { chunkIndex: number; wavUrl: string }) => void): (() => void) => {
-    const handler = (_event: unknown, data: { chunkIndex: number; wavUrl: string }): void => callback(data)
+  onChunkReady: (callback: (data: TtsChunkReady) => void): (() => void) => {
+    const handler = (_event: unknown, data: TtsChunkReady): void => callback(data)
     ipcRenderer.on('tts:chunk-ready', handler as (...args: unknown[]) => void)
     return () => ipcRenderer.removeListener('tts:chunk-ready', handler as (...args: unknown[]) => void)
   },
 
+  onSectionStart: (callback: (data: TtsSectionStart) => void): (() => void) => {
+    const handler = (_event: unknown, data: TtsSectionStart): void => callback(data)
+    ipcRenderer.on('tts:section-start', handler as (...args: unknown[]) => void)
+    return () => ipcRenderer.removeListener('tts:section-start', handler as (...args: unknown[]) => void)
+  },
+
   onDownloadProgress: (callback: (data: { percent: number; label: string }) => void): (() => void) => {
     const handler = (_event: unknown, data: { percent: number; label: string }): void => callback(data)
     ipcRenderer.on('tts:download-progress', handler as (...args: unknown[]) => void)
@@ -369,13 +609,79 @@ const ttsApi = {
     const handler = (_event: unknown, data: { message: string; code: string }): void => callback(data)
     ipcRenderer.on('tts:error', handler as (...args: unknown[]) => void)
     return () => ipcRenderer.removeListener('tts:error', handler as (...args: unknown[]) => void)
+  },
+
+  onRenderProgress: (callback: (job: unknown) => void): (() => void) => {
+    const handler = (_event: unknown, job: unknown): void => callback(job)
+    ipcRenderer.on('tts:render-progress', handler as (...args: unknown[]) => void)
+    return () => ipcRenderer.removeListener('tts:render-progress', handler as (...args: unknown[]) => void)
   }
 }
 
+// ─── Cloud Sync API ─────────────────────────────────
+const syncApi = {
+  getConfig: (): Promise<unknown> => ipcRenderer.invoke('sync:get-config'),
+  updateConfig: (update: Record<string, unknown>): Promise<unknown> =>
+    ipcRenderer.invoke('sync:update-config', update),
+  getStatus: (): Promise<unknown> => ipcRenderer.invoke('sync:get-status'),
+  signIn: (email: string, password: string): Promise<unknown> =>
+    ipcRenderer.invoke('sync:sign-in', email, password),
+  signOut: (): Promise<unknown> => ipcRenderer.invoke('sync:sign-out'),
+  syncNow: (): Promise<unknown> => ipcRenderer.invoke('sync:run'),
+
+  onStatusUpdate: (callback: (status: unknown) => void): (() => void) => {
+    const handler = (_event: unknown, status: unknown): void => callback(status)
+    ipcRenderer.on('sync:status-update', handler as (...args: unknown[]) => void)
+    return () => ipcRenderer.removeListener('sync:status-update', handler as (...args: unknown[]) => void)
+  }
+}
+
+const watchApi = {
+  getConfig: (): Promise<unknown> => ipcRenderer.invoke('watch:get-config'),
+  updateConfig: (update: Record<string, unknown>): Promise<unknown> =>
+    ipcRenderer.invoke('watch:update-config', update),
+  getStatus: (): Promise<unknown> => ipcRenderer.invoke('watch:get-status'),
+  addFolder: (): Promise<unknown> => ipcRenderer.invoke('watch:add-folder'),
+  scanNow: (): Promise<unknown> => ipcRenderer.invoke('watch:scan'),
+  clearErrors: (): Promise<unknown> => ipcRenderer.invoke('watch:clear-errors'),
+  onStatusUpdate: (callback: (status: unknown) => void): (() => void) => {
+    const handler = (_event: unknown, status: unknown): void => callback(status)
+    ipcRenderer.on('watch:status-update', handler as (...args: unknown[]) => void)
+    return () => ipcRenderer.removeListener('watch:status-update', handler as (...args: unknown[]) => void)
+  },
+  onBookImported: (callback: (book: unknown) => void): (() => void) => {
+    const handler = (_event: unknown, book: unknown): void => callback(book)
+    ipcRenderer.on('watch:book-imported', handler as (...args: unknown[]) => void)
+    return () => ipcRenderer.removeListener('watch:book-imported', handler as (...args: unknown[]) => void)
+  }
+}
+
+const opdsApi = {
+  getCatalogs: (): Promise<unknown[]> => ipcRenderer.invoke('opds:catalogs:getAll'),
+  saveCatalog: (data: {
+    id?: string
+    title: string
+    url: string
+    username?: string | null
+    password?: string | null
+  }): Promise<unknown> => ipcRenderer.invoke('opds:catalogs:save', data),
+  deleteCatalog: (id: string): Promise<unknown> => ipcRenderer.invoke('opds:catalogs:delete', id),
+  getFeed: (catalogId: string, url?: string): Promise<unknown> => ipcRenderer.invoke('opds:feed', catalogId, url),
+  search: (catalogId: string, template: string, query: string): Promise<unknown> =>
+    ipcRenderer.invoke('opds:search', catalogId, template, query),
+  getCover: (catalogId: string, url: string): Promise<string | null> =>
+    ipcRenderer.invoke('opds:cover', catalogId, url),
+  download: (catalogId: string, href: string, format: string): Promise<unknown> =>
+    ipcRenderer.invoke('opds:download', catalogId, href, format)
+}
+
 export type DatabaseAPI = typeof api
 export type AppAPI = typeof appApi
 export type SessionAPI = typeof sessionApi
 export type TtsAPI = typeof ttsApi
+export type SyncAPI = typeof syncApi
+export type OpdsAPI = typeof opdsApi
+export type WatchAPI = typeof watchApi
 
 if (process.contextIsolated) {
   try {
@@ -384,6 +690,9 @@ if (process.contextIsolated) {
     contextBridge.exposeInMainWorld('appApi', appApi)
     contextBridge.exposeInMainWorld('sessionApi', sessionApi)
     contextBridge.exposeInMainWorld('ttsApi', ttsApi)
+    contextBridge.exposeInMainWorld('syncApi', syncApi)
+    contextBridge.exposeInMainWorld('opdsApi', opdsApi)
+    contextBridge.exposeInMainWorld('watchApi', watchApi)
   } catch (error) {
     console.error(error)
   }
@@ -398,4 +707,10 @@ if (process.contextIsolated) {
   window.sessionApi = sessionApi
   // @ts-ignore (define in dts)
   window.ttsApi = ttsApi
+  // @ts-ignore (define in dts)
+  window.syncApi = syncApi
+  // @ts-ignore (define in dts)
+  window.opdsApi = opdsApi
+  // @ts-ignore (define in dts)
+  window.watchApi = watchApi
 }
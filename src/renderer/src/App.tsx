@@ -1,38 +1,50 @@
 import { useState, useCallback, useEffect, useRef } from 'react'
 import { Plus } from 'lucide-react'
 import { ReaderView } from '@/components/reader/ReaderView'
+import { PdfReaderView } from '@/components/reader/PdfReaderView'
 import { AppShell, TopBar } from '@/components/layout'
 import { Dashboard } from '@/components/dashboard/Dashboard'
 import { LibraryView } from '@/components/library/LibraryView'
 import { NotesView } from '@/components/notes/NotesView'
 import { SessionsView } from '@/components/session'
+import { StatsView } from '@/components/stats/StatsView'
 import { CommandPalette } from '@/components/CommandPalette'
 import { KeyboardShortcutsDialog } from '@/components/KeyboardShortcutsDialog'
 import { ReentryRecap } from '@/components/recap/ReentryRecap'
 import { SettingsView, FirstRunWizard } from '@/components/settings'
 import { SoundscapeMiniPlayer } from '@/components/soundscape'
 import { GoalsView } from '@/components/goals/GoalsView'
+import { ReviewView } from '@/components/review/ReviewView'
+import { CatalogView } from '@/components/catalogs/CatalogView'
 import { AnimatePresence, motion } from 'framer-motion'
-import { Book, ImportResponse, ParsedEpubMeta, ReadingMode } from '@/types'
+import { Book, ImportResponse, ParsedEpubMeta, ReadingMode, SearchTarget, TrackPaceAlert } from '@/types'
+import { ensurePdfCover } from '@/lib/pdf'
 import { useRecap } from '@/hooks/useRecap'
 import { useSettings, type AppSettings } from '@/hooks/useSettings'
 import { useStudySession } from '@/hooks/useStudySession'
 import { useAmbientSounds } from '@/hooks/useAmbientSounds'
 import { useCategories } from '@/hooks/useCategories'
 import { ImportCategoryDialog } from '@/components/import/ImportCategoryDialog'
+import { CalibreImportDialog } from '@/components/import/CalibreImportDialog'
 import type { NavPage } from '@/components/layout/Sidebar'
 
 type View =
   | { type: 'home'; page: NavPage }
-  | { type: 'reader'; book: Book }
+  | { type: 'reader'; book: Book; searchTarget?: SearchTarget; startCfi?: string }
   | { type: 'recap'; book: Book }
 
+/** Bookmarks now live in the database; these keys are only read once to carry them over */
+const LEGACY_BOOKMARK_PREFIX = 'flareread-bookmark-'
+
 const PAGE_TITLES: Record<NavPage, string> = {
   dashboard: 'Dashboard',
   library: 'Library',
   sessions: 'Sessions',
+  stats: 'Statistics',
   notes: 'Notes',
+  review: 'Review',
   goals: 'Learning Goals',
+  catalogs: 'Catalogs',
   settings: 'Settings'
 }
 
@@ -63,10 +75,11 @@ function App(): JSX.Element {
   } = useRecap()
 
   // Categories
-  const { categories, createCategory } = useCategories()
+  const { categories, createCategory, refresh: refreshCategories } = useCategories()
 
   // Pending import (shown in category dialog between parse and save)
   const [pendingImport, setPendingImport] = useState<ParsedEpubMeta | null>(null)
+  const [showCalibreImport, setShowCalibreImport] = useState(false)
 
   // Study session (for soundscape AFK integration)
   const { session } = useStudySession()
@@ -131,6 +144,32 @@ function App(): JSX.Element {
     setShowTtsSetup(false)
   }, [])
 
+  // Carry bookmarks the reader used to keep in localStorage (one per book) into the database
+  useEffect(() => {
+    const keys = Object.keys(localStorage).filter((key) => key.startsWith(LEGACY_BOOKMARK_PREFIX))
+    if (keys.length === 0) return
+    const entries = keys.flatMap((key) => {
+      try {
+        const stored = JSON.parse(localStorage.getItem(key) || 'null')
+        if (!stored?.cfi) return []
+        return [
+          {
+            book_id: key.slice(LEGACY_BOOKMARK_PREFIX.length),
+            cfi: stored.cfi as string,
+            chapter: (stored.chapter as string) || null,
+            percent: Number(stored.percent) || 0
+          }
+        ]
+      } catch {
+        return []
+      }
+    })
+    window.api.bookmarks
+      .importLegacy(entries)
+      .then(() => keys.forEach((key) => localStorage.removeItem(key)))
+      .catch((err) => console.error('Failed to migrate bookmarks:', err))
+  }, [])
+
   // Show first-run wizard if not completed
   useEffect(() => {
     if (settingsLoaded && !settings['wizard:completed']) {
@@ -209,6 +248,10 @@ function App(): JSX.Element {
         setBooks((prev) => [result.book, ...prev])
         setImportCount((c) => c + 1)
         addToast(`"${result.book.title}" imported successfully`)
+        // PDFs carry no cover image — render the first page in the background
+        ensurePdfCover(result.book).then((saved) => {
+          if (saved) loadBooks()
+        })
         return result.book
       } else {
         if (result.code === 'DUPLICATE') {
@@ -219,7 +262,7 @@ function App(): JSX.Element {
         return null
       }
     },
-    [addToast]
+    [addToast, loadBooks]
   )
 
   // Handle parse result - show dialog or report error
@@ -233,13 +276,28 @@ function App(): JSX.Element {
         if (parsed.code === 'DUPLICATE') {
           addToast(parsed.error || 'Duplicate book', 'warning')
         } else {
-          addToast(parsed.error || 'Failed to parse EPUB', 'error')
+          addToast(parsed.error || 'Failed to read book file', 'error')
         }
       }
     },
     [addToast]
   )
 
+  // Books picked up from watched folders are imported by the main process
+  useEffect(() => {
+    return window.watchApi.onBookImported((book) => {
+      handleImportResult({ success: true, book: book as Book })
+    })
+  }, [handleImportResult])
+
+  // Learning tracks that slip behind pace are also announced with an OS notification
+  useEffect(() => {
+    return window.appApi.onTrackPaceAlert((alert) => {
+      const { title, message } = alert as TrackPaceAlert
+      addToast(`${title}. ${message}`, 'warning')
+    })
+  }, [addToast])
+
   // Import via file dialog (Ctrl+O / menu / button) - two-step: parse → dialog → save
   const handleImportDialog = useCallback(async () => {
     const result = await window.appApi.parseEpubDialog()
@@ -324,6 +382,18 @@ function App(): JSX.Element {
     [isBookStale]
   )
 
+  // Search hits skip the recap: the reader asked for a specific passage
+  const handleOpenSearchHit = useCallback(
+    (book: Book, searchTarget: SearchTarget) => {
+      setView({ type: 'reader', book, searchTarget })
+    },
+    []
+  )
+
+  const handleOpenBookmark = useCallback((book: Book, cfi: string) => {
+    setView({ type: 'reader', book, startCfi: cfi })
+  }, [])
+
   const handleOpenBookById = useCallback(
     async (bookId: string) => {
       const book = (await window.api.books.getById(bookId)) as Book | null
@@ -377,6 +447,8 @@ function App(): JSX.Element {
       <CommandPalette
         books={books}
         onOpenBook={handleOpenBook}
+        onOpenSearchHit={handleOpenSearchHit}
+        onOpenBookmark={handleOpenBookmark}
         onNavigate={handleNavigate}
         onImportDialog={handleImportDialog}
       />
@@ -396,6 +468,17 @@ function App(): JSX.Element {
         />
       )}
 
+      {showCalibreImport && (
+        <CalibreImportDialog
+          onClose={() => setShowCalibreImport(false)}
+          onImported={() => {
+            loadBooks()
+            refreshCategories()
+            setImportCount((c) => c + 1)
+          }}
+        />
+      )}
+
       {/* Recap view - shown before reader for stale books */}
       {view.type === 'recap' ? (
         <ReentryRecap
@@ -406,7 +489,23 @@ function App(): JSX.Element {
         />
       ) : /* Reader view - full screen, no shell */
       view.type === 'reader' ? (
-        <ReaderView bookId={view.book.id} filePath={view.book.file_path} onBack={handleBack} />
+        view.book.format === 'pdf' ? (
+          <PdfReaderView
+            bookId={view.book.id}
+            filePath={view.book.file_path}
+            bookTitle={view.book.title}
+            searchTarget={view.searchTarget}
+            onBack={handleBack}
+          />
+        ) : (
+          <ReaderView
+            bookId={view.book.id}
+            filePath={view.book.file_path}
+            searchTarget={view.searchTarget}
+            startCfi={view.startCfi}
+            onBack={handleBack}
+          />
+        )
       ) : (
         <AppShell activePage={currentPage} onNavigate={handleNavigate}>
           {currentPage !== 'settings' && (
@@ -473,6 +572,7 @@ function App(): JSX.Element {
                   onCreateCategory={createCategory}
                   onImportFile={handleImportFile}
                   onImportDialog={handleImportDialog}
+                  onImportCalibre={() => setShowCalibreImport(true)}
                 />
               )}
 
@@ -480,13 +580,25 @@ function App(): JSX.Element {
                 <SessionsView onOpenBook={handleOpenBookById} />
               )}
 
+              {currentPage === 'stats' && (
+                <StatsView />
+              )}
+
               {currentPage === 'notes' && (
                 <NotesView onOpenBook={handleOpenBookById} />
               )}
 
+              {currentPage === 'review' && (
+                <ReviewView onOpenBook={handleOpenBookById} />
+              )}
+
               {currentPage === 'goals' && (
                 <GoalsView />
               )}
+
+              {currentPage === 'catalogs' && (
+                <CatalogView onImportFile={handleImportFile} />
+              )}
             </motion.div>
           </AnimatePresence>
 
@@ -1,9 +1,12 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import {
   BookOpen,
+  Bookmark,
   FileText,
   Highlighter,
   StickyNote,
+  Layers,
+  Globe,
   Moon,
   Sun,
   Maximize,
@@ -13,7 +16,9 @@ import {
   LayoutDashboard,
   Library,
   Clock,
-  Search
+  BarChart3,
+  Search,
+  TextSearch
 } from 'lucide-react'
 import {
   Command,
@@ -27,7 +32,7 @@ import {
 } from '@/components/ui/command'
 import { Dialog, DialogOverlay, DialogPortal } from '@/components/ui/dialog'
 import { useTheme } from '@/components/ThemeProvider'
-import type { Book, Highlight, NoteWithContext } from '@/types'
+import type { Book, BookmarkWithBook, BookSearchHit, Highlight, NoteWithContext, SearchTarget } from '@/types'
 import type { NavPage } from '@/components/layout/Sidebar'
 
 // ─── Types ───────────────────────────────────────────
@@ -35,6 +40,8 @@ import type { NavPage } from '@/components/layout/Sidebar'
 interface CommandPaletteProps {
   books: Book[]
   onOpenBook: (book: Book) => void
+  onOpenSearchHit: (book: Book, target: SearchTarget) => void
+  onOpenBookmark: (book: Book, cfi: string) => void
   onNavigate: (page: NavPage) => void
   onImportDialog: () => void
 }
@@ -48,12 +55,16 @@ interface RecentCommand {
 
 const RECENT_COMMANDS_KEY = 'flareread-recent-commands'
 const MAX_RECENT = 5
+const FULL_TEXT_MIN_CHARS = 3
+const FULL_TEXT_DEBOUNCE_MS = 250
 
 // ─── Component ───────────────────────────────────────
 
 export function CommandPalette({
   books,
   onOpenBook,
+  onOpenSearchHit,
+  onOpenBookmark,
   onNavigate,
   onImportDialog
 }: CommandPaletteProps): JSX.Element {
@@ -61,6 +72,8 @@ export function CommandPalette({
   const [search, setSearch] = useState('')
   const [highlights, setHighlights] = useState<(Highlight & { book_title?: string })[]>([])
   const [notes, setNotes] = useState<NoteWithContext[]>([])
+  const [bookmarks, setBookmarks] = useState<BookmarkWithBook[]>([])
+  const [textHits, setTextHits] = useState<BookSearchHit[]>([])
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [hasActiveSession, setHasActiveSession] = useState(false)
   const [recentCommands, setRecentCommands] = useState<RecentCommand[]>([])
@@ -139,6 +152,16 @@ export function CommandPalette({
       }
     }
 
+    // Load bookmarks across all books
+    const loadBookmarks = async (): Promise<void> => {
+      try {
+        const allBookmarks = (await window.api.bookmarks.getAll()) as BookmarkWithBook[]
+        setBookmarks(allBookmarks)
+      } catch {
+        setBookmarks([])
+      }
+    }
+
     // Check fullscreen state
     const checkFullscreen = async (): Promise<void> => {
       try {
@@ -161,10 +184,35 @@ export function CommandPalette({
 
     loadHighlights()
     loadNotes()
+    loadBookmarks()
     checkFullscreen()
     checkSession()
   }, [open, books])
 
+  // ─── Full-text search inside books (debounced) ─────
+  useEffect(() => {
+    const query = search.trim()
+    if (!open || query.length < FULL_TEXT_MIN_CHARS) {
+      setTextHits([])
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const hits = (await window.api.search.query(query, { limit: 20 })) as BookSearchHit[]
+        if (!cancelled) setTextHits(hits)
+      } catch {
+        if (!cancelled) setTextHits([])
+      }
+    }, FULL_TEXT_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [open, search])
+
   // ─── Action handlers ───────────────────────────────
 
   const runAction = useCallback(
@@ -183,6 +231,26 @@ export function CommandPalette({
     [onOpenBook, runAction]
   )
 
+  const handleOpenSearchHit = useCallback(
+    (hit: BookSearchHit) => {
+      const book = books.find((b) => b.id === hit.book_id)
+      if (!book) return
+      setOpen(false)
+      onOpenSearchHit(book, hit)
+    },
+    [books, onOpenSearchHit]
+  )
+
+  const handleOpenBookmark = useCallback(
+    (bookmark: BookmarkWithBook) => {
+      const book = books.find((b) => b.id === bookmark.book_id)
+      if (!book) return
+      setOpen(false)
+      onOpenBookmark(book, bookmark.cfi)
+    },
+    [books, onOpenBookmark]
+  )
+
   const handleNavigate = useCallback(
     (page: NavPage, label: string) => {
       runAction(`nav:${page}`, label, 'Navigation', () => onNavigate(page))
@@ -210,7 +278,7 @@ export function CommandPalette({
   }, [hasActiveSession, runAction])
 
   const handleImport = useCallback(() => {
-    runAction('action:import', 'Import EPUB', 'Actions', onImportDialog)
+    runAction('action:import', 'Import Book', 'Actions', onImportDialog)
   }, [onImportDialog, runAction])
 
   // ─── Show recent when search is empty ──────────────
@@ -305,8 +373,64 @@ export function CommandPalette({
               ))}
             </CommandGroup>
 
+            {/* ─── Full-text matches ───────────────── */}
+            {textHits.length > 0 && (
+              <>
+                <CommandSeparator className="mx-2 bg-border/50" />
+                <CommandGroup heading="In Books">
+                  {textHits.map((hit, i) => (
+                    <CommandItem
+                      key={`text:${hit.book_id}:${hit.href}:${i}`}
+                      // Include the query so cmdk's own filter never hides server-side matches
+                      value={`text ${search} ${hit.book_title} ${hit.href} ${i}`}
+                      onSelect={() => handleOpenSearchHit(hit)}
+                    >
+                      <TextSearch className="mr-2.5 h-4 w-4 shrink-0 text-primary/70" />
+                      <div className="flex flex-col min-w-0">
+                        <span className="truncate text-ui-sm">
+                          {hit.before}
+                          <mark className="bg-primary/20 text-foreground rounded-sm px-0.5">
+                            {hit.match}
+                          </mark>
+                          {hit.after}
+                        </span>
+                        <span className="text-ui-sm text-muted-foreground/70 truncate">
+                          {hit.book_title}
+                          {hit.book_author && ` · ${hit.book_author}`}
+                        </span>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </>
+            )}
+
             <CommandSeparator className="mx-2 bg-border/50" />
 
+            {/* ─── Bookmarks ──────────────────────── */}
+            {bookmarks.length > 0 && (
+              <CommandGroup heading="Bookmarks">
+                {bookmarks.map((bookmark) => (
+                  <CommandItem
+                    key={`bm:${bookmark.id}`}
+                    value={`bookmark ${bookmark.label || ''} ${bookmark.chapter || ''} ${bookmark.book_title || ''} ${bookmark.id}`}
+                    onSelect={() => handleOpenBookmark(bookmark)}
+                  >
+                    <Bookmark className="mr-2.5 h-4 w-4 shrink-0 text-primary/70" />
+                    <div className="flex flex-col min-w-0">
+                      <span className="truncate text-ui-sm">
+                        {bookmark.label || bookmark.chapter || `${Math.round(bookmark.percent)}%`}
+                      </span>
+                      <span className="text-ui-sm text-muted-foreground/70 truncate">
+                        {bookmark.book_title}
+                        {bookmark.label && bookmark.chapter && ` · ${bookmark.chapter}`}
+                      </span>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
             {/* ─── Highlights ─────────────────────── */}
             {searchableHighlights.length > 0 && (
               <CommandGroup heading="Highlights">
@@ -398,6 +522,14 @@ export function CommandPalette({
                 <span className="text-ui-sm">Go to Sessions</span>
                 <CommandShortcut className="text-ui-sm text-muted-foreground/50">Navigation</CommandShortcut>
               </CommandItem>
+              <CommandItem
+                value="navigate statistics stats heatmap charts"
+                onSelect={() => handleNavigate('stats', 'Statistics')}
+              >
+                <BarChart3 className="mr-2.5 h-4 w-4 text-muted-foreground/60" />
+                <span className="text-ui-sm">Go to Statistics</span>
+                <CommandShortcut className="text-ui-sm text-muted-foreground/50">Navigation</CommandShortcut>
+              </CommandItem>
               <CommandItem
                 value="navigate notes highlights"
                 onSelect={() => handleNavigate('notes', 'Notes')}
@@ -406,6 +538,22 @@ export function CommandPalette({
                 <span className="text-ui-sm">Go to Notes & Highlights</span>
                 <CommandShortcut className="text-ui-sm text-muted-foreground/50">Navigation</CommandShortcut>
               </CommandItem>
+              <CommandItem
+                value="navigate review flashcards"
+                onSelect={() => handleNavigate('review', 'Review')}
+              >
+                <Layers className="mr-2.5 h-4 w-4 text-muted-foreground/60" />
+                <span className="text-ui-sm">Go to Review</span>
+                <CommandShortcut className="text-ui-sm text-muted-foreground/50">Navigation</CommandShortcut>
+              </CommandItem>
+              <CommandItem
+                value="navigate catalogs opds download"
+                onSelect={() => handleNavigate('catalogs', 'Catalogs')}
+              >
+                <Globe className="mr-2.5 h-4 w-4 text-muted-foreground/60" />
+                <span className="text-ui-sm">Go to Catalogs</span>
+                <CommandShortcut className="text-ui-sm text-muted-foreground/50">Navigation</CommandShortcut>
+              </CommandItem>
             </CommandGroup>
 
             <CommandSeparator className="mx-2 bg-border/50" />
@@ -448,7 +596,7 @@ export function CommandPalette({
                 onSelect={handleImport}
               >
                 <FileText className="mr-2.5 h-4 w-4 text-muted-foreground/60" />
-                <span className="text-ui-sm">Import EPUB</span>
+                <span className="text-ui-sm">Import Book</span>
                 <CommandShortcut className="text-ui-sm text-muted-foreground/50">Ctrl+O</CommandShortcut>
               </CommandItem>
 
@@ -9,7 +9,7 @@ const SHORTCUT_GROUPS = [
   {
     title: 'General',
     shortcuts: [
-      { keys: ['Ctrl', 'O'], description: 'Import EPUB' },
+      { keys: ['Ctrl', 'O'], description: 'Import Book' },
       { keys: ['Ctrl', 'K'], description: 'Command Palette' },
       { keys: ['Ctrl', ','], description: 'Open Settings' },
       { keys: ['Ctrl', 'W'], description: 'Close Book' },
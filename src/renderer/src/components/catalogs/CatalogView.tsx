@@ -0,0 +1,526 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Globe,
+  Plus,
+  Pencil,
+  Trash2,
+  ChevronRight,
+  ChevronLeft,
+  Search,
+  Download,
+  Folder,
+  BookOpen,
+  Loader2,
+  Lock
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { OpdsCatalog, OpdsEntry, OpdsFeed } from '@/types'
+
+interface CatalogViewProps {
+  /** Hands a downloaded file to the regular parse → category → import flow */
+  onImportFile: (filePath: string) => Promise<unknown>
+}
+
+type FeedResult = { success: boolean; feed?: OpdsFeed; error?: string }
+
+interface CatalogDraft {
+  id?: string
+  title: string
+  url: string
+  username: string
+  password: string
+  hasPassword: boolean
+}
+
+const EMPTY_DRAFT: CatalogDraft = { title: '', url: '', username: '', password: '', hasPassword: false }
+
+const inputClass =
+  'mt-1 w-full px-3 py-2 text-ui-sm border border-border/50 rounded-xl bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary/30'
+
+function CatalogForm({
+  draft,
+  onSave,
+  onCancel
+}: {
+  draft: CatalogDraft
+  onSave: (draft: CatalogDraft) => Promise<string | null>
+  onCancel: () => void
+}): JSX.Element {
+  const [value, setValue] = useState(draft)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (patch: Partial<CatalogDraft>): void => setValue((v) => ({ ...v, ...patch }))
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    setSaving(true)
+    setError(await onSave(value))
+    setSaving(false)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-4 rounded-xl border border-border/50 bg-card">
+      <label className="block">
+        <span className="text-ui-xs font-medium text-muted-foreground">Catalog address</span>
+        <input
+          autoFocus
+          value={value.url}
+          onChange={(e) => update({ url: e.target.value })}
+          placeholder="http://localhost:8080/opds"
+          className={inputClass}
+        />
+      </label>
+      <label className="block">
+        <span className="text-ui-xs font-medium text-muted-foreground">Name</span>
+        <input
+          value={value.title}
+          onChange={(e) => update({ title: e.target.value })}
+          placeholder="Calibre library"
+          className={inputClass}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <span className="text-ui-xs font-medium text-muted-foreground">Username (optional)</span>
+          <input
+            value={value.username}
+            onChange={(e) => update({ username: e.target.value })}
+            autoComplete="off"
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className="text-ui-xs font-medium text-muted-foreground">Password</span>
+          <input
+            type="password"
+            value={value.password}
+            onChange={(e) => update({ password: e.target.value })}
+            placeholder={value.hasPassword ? 'Unchanged' : ''}
+            autoComplete="off"
+            disabled={!value.username.trim()}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      {error && <p className="text-ui-xs text-destructive">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={saving || !value.url.trim()}>
+          {saving && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+function Cover({ catalogId, url }: { catalogId: string; url: string | null }): JSX.Element {
+  const [src, setSrc] = useState<string | null>(null)
+
+  useEffect(() => {
+    setSrc(null)
+    if (!url) return
+    let cancelled = false
+    window.opdsApi.getCover(catalogId, url).then((data) => {
+      if (!cancelled) setSrc(data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [catalogId, url])
+
+  return (
+    <div className="w-14 h-20 shrink-0 rounded-md overflow-hidden bg-muted/40 flex items-center justify-center">
+      {src ? (
+        <img src={src} alt="" className="w-full h-full object-cover" />
+      ) : (
+        <BookOpen className="h-5 w-5 text-muted-foreground/30" />
+      )}
+    </div>
+  )
+}
+
+function PublicationRow({
+  catalogId,
+  entry,
+  downloading,
+  onDownload
+}: {
+  catalogId: string
+  entry: OpdsEntry
+  downloading: string | null
+  onDownload: (href: string, format: 'epub' | 'pdf') => void
+}): JSX.Element {
+  const [expanded, setExpanded] = useState(false)
+  // One button per importable format, EPUB first
+  const downloads = entry.acquisitions
+    .filter((a) => a.format && a.kind === 'open')
+    .filter((a, i, all) => all.findIndex((b) => b.format === a.format) === i)
+    .sort((a, b) => (a.format === 'epub' ? -1 : b.format === 'epub' ? 1 : 0))
+  const restricted = downloads.length === 0 && entry.acquisitions.some((a) => a.kind !== 'open')
+
+  return (
+    <div className="flex gap-3 py-3 border-b border-border/30 last:border-0">
+      <Cover catalogId={catalogId} url={entry.coverUrl} />
+      <div className="flex-1 min-w-0">
+        <p className="text-ui-sm font-medium text-foreground truncate">{entry.title}</p>
+        {entry.author && <p className="text-ui-xs text-muted-foreground truncate">{entry.author}</p>}
+        {entry.summary && (
+          <button
+            onClick={() => setExpanded((v) => !v)}
+            className={`mt-1 text-left text-ui-xs text-muted-foreground/70 ${expanded ? '' : 'line-clamp-2'}`}
+          >
+            {entry.summary}
+          </button>
+        )}
+      </div>
+      <div className="flex flex-col items-end gap-1.5 shrink-0">
+        {downloads.map((a) => (
+          <Button
+            key={a.href}
+            variant="outline"
+            size="sm"
+            disabled={downloading !== null}
+            onClick={() => onDownload(a.href, a.format!)}
+          >
+            {downloading === a.href ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <Download className="h-3.5 w-3.5" />
+            )}
+            {a.format!.toUpperCase()}
+          </Button>
+        ))}
+        {downloads.length === 0 && (
+          <span className="text-ui-xs text-muted-foreground/60">
+            {restricted ? 'Not free to download' : 'No EPUB or PDF'}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function CatalogView({ onImportFile }: CatalogViewProps): JSX.Element {
+  const [catalogs, setCatalogs] = useState<OpdsCatalog[]>([])
+  const [loading, setLoading] = useState(true)
+  const [draft, setDraft] = useState<CatalogDraft | null>(null)
+  const [active, setActive] = useState<OpdsCatalog | null>(null)
+  // Feeds opened so far; the last one is shown and the rest form the breadcrumb
+  const [stack, setStack] = useState<OpdsFeed[]>([])
+  const [feedLoading, setFeedLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [query, setQuery] = useState('')
+  const [downloading, setDownloading] = useState<string | null>(null)
+
+  const loadCatalogs = useCallback(async () => {
+    const result = (await window.opdsApi.getCatalogs()) as OpdsCatalog[]
+    setCatalogs(result)
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadCatalogs()
+  }, [loadCatalogs])
+
+  const current = stack[stack.length - 1] ?? null
+  // Search results and sub-feeds rarely repeat the search link; keep the nearest one
+  const searchTemplate = [...stack].reverse().find((f) => f.searchTemplate)?.searchTemplate ?? null
+
+  const openFeed = useCallback(
+    async (request: Promise<unknown>, replace = false) => {
+      setFeedLoading(true)
+      setError(null)
+      const result = (await request) as FeedResult
+      setFeedLoading(false)
+      if (result.success && result.feed) {
+        const feed = result.feed
+        setStack((s) => (replace ? [feed] : [...s, feed]))
+      } else {
+        setError(result.error || 'Could not load the catalog')
+      }
+    },
+    []
+  )
+
+  const handleOpenCatalog = (catalog: OpdsCatalog): void => {
+    setActive(catalog)
+    setStack([])
+    setQuery('')
+    openFeed(window.opdsApi.getFeed(catalog.id), true)
+  }
+
+  const handleSaveCatalog = async (value: CatalogDraft): Promise<string | null> => {
+    const result = (await window.opdsApi.saveCatalog({
+      id: value.id,
+      title: value.title,
+      url: value.url,
+      username: value.username || null,
+      // Leaving the field empty keeps a saved password
+      password: !value.username.trim() ? null : value.password || undefined
+    })) as { success: boolean; error?: string }
+    if (!result.success) return result.error || 'Could not save the catalog'
+    setDraft(null)
+    await loadCatalogs()
+    return null
+  }
+
+  const handleDeleteCatalog = async (catalog: OpdsCatalog): Promise<void> => {
+    await window.opdsApi.deleteCatalog(catalog.id)
+    await loadCatalogs()
+  }
+
+  const handleSearch = (e: React.FormEvent): void => {
+    e.preventDefault()
+    if (!active || !searchTemplate || !query.trim()) return
+    openFeed(window.opdsApi.search(active.id, searchTemplate, query))
+  }
+
+  const handleLoadMore = async (): Promise<void> => {
+    if (!active || !current?.next) return
+    setFeedLoading(true)
+    const result = (await window.opdsApi.getFeed(active.id, current.next)) as FeedResult
+    setFeedLoading(false)
+    if (result.success && result.feed) {
+      const page = result.feed
+      setStack((s) => [
+        ...s.slice(0, -1),
+        {
+          ...current,
+          navigation: [...current.navigation, ...page.navigation],
+          publications: [...current.publications, ...page.publications],
+          next: page.next
+        }
+      ])
+    } else {
+      setError(result.error || 'Could not load more')
+    }
+  }
+
+  const handleDownload = async (href: string, format: 'epub' | 'pdf'): Promise<void> => {
+    if (!active) return
+    setDownloading(href)
+    setError(null)
+    const result = (await window.opdsApi.download(active.id, href, format)) as {
+      success: boolean
+      filePath?: string
+      error?: string
+    }
+    setDownloading(null)
+    if (result.success && result.filePath) {
+      await onImportFile(result.filePath)
+    } else {
+      setError(result.error || 'Download failed')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  // ─── Catalog list ────────────────────────────────────
+  if (!active) {
+    return (
+      <div className="flex-1 flex flex-col overflow-y-auto">
+        <div className="w-full max-w-2xl mx-auto px-6 py-8 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-ui-base font-semibold text-foreground">OPDS catalogs</h2>
+              <p className="text-ui-xs text-muted-foreground/70">
+                Browse a Calibre content server or any other OPDS library and download books into FlareRead
+              </p>
+            </div>
+            {!draft && (
+              <Button size="sm" variant="outline" onClick={() => setDraft(EMPTY_DRAFT)}>
+                <Plus className="h-3.5 w-3.5" />
+                Add catalog
+              </Button>
+            )}
+          </div>
+
+          {draft && (
+            <CatalogForm
+              key={draft.id ?? 'new'}
+              draft={draft}
+              onSave={handleSaveCatalog}
+              onCancel={() => setDraft(null)}
+            />
+          )}
+
+          {catalogs.length === 0 && !draft ? (
+            <div className="flex flex-col items-center justify-center text-center py-16">
+              <div className="h-16 w-16 rounded-2xl bg-muted/30 flex items-center justify-center mb-4">
+                <Globe className="h-7 w-7 text-muted-foreground/30" />
+              </div>
+              <p className="text-ui-lg font-medium text-foreground mb-1">No catalogs yet</p>
+              <p className="text-ui-sm text-muted-foreground/70">Add the address of an OPDS feed to start browsing</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {catalogs.map((catalog) => (
+                <div
+                  key={catalog.id}
+                  className="group flex items-center gap-3 p-3 rounded-xl border border-border/50 bg-card hover:border-primary/30 transition-colors"
+                >
+                  <button
+                    onClick={() => handleOpenCatalog(catalog)}
+                    className="flex-1 min-w-0 flex items-center gap-3 text-left"
+                  >
+                    <Globe className="h-4 w-4 text-primary/70 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-ui-sm font-medium text-foreground truncate flex items-center gap-1.5">
+                        {catalog.title}
+                        {catalog.username && <Lock className="h-3 w-3 text-muted-foreground/50" />}
+                      </p>
+                      <p className="text-ui-xs text-muted-foreground/70 truncate">{catalog.url}</p>
+                    </div>
+                  </button>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() =>
+                        setDraft({
+                          id: catalog.id,
+                          title: catalog.title,
+                          url: catalog.url,
+                          username: catalog.username ?? '',
+                          password: '',
+                          hasPassword: catalog.hasPassword
+                        })
+                      }
+                      className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent"
+                      title="Edit"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteCatalog(catalog)}
+                      className="p-1.5 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                      title="Remove"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  // ─── Feed browser ────────────────────────────────────
+  return (
+    <div className="flex-1 flex flex-col overflow-y-auto">
+      <div className="w-full max-w-3xl mx-auto px-6 py-6 space-y-4">
+        {/* Breadcrumb */}
+        <div className="flex items-center gap-1 text-ui-xs text-muted-foreground flex-wrap">
+          <button
+            onClick={() => {
+              setActive(null)
+              setStack([])
+              setError(null)
+            }}
+            className="flex items-center gap-1 hover:text-foreground"
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+            Catalogs
+          </button>
+          {stack.map((feed, i) => (
+            <span key={`${feed.url}-${i}`} className="flex items-center gap-1">
+              <ChevronRight className="h-3 w-3 text-muted-foreground/40" />
+              <button
+                onClick={() => setStack((s) => s.slice(0, i + 1))}
+                disabled={i === stack.length - 1}
+                className="hover:text-foreground disabled:text-foreground disabled:font-medium truncate max-w-[14rem]"
+              >
+                {i === 0 ? active.title : feed.title}
+              </button>
+            </span>
+          ))}
+        </div>
+
+        {searchTemplate && (
+          <form onSubmit={handleSearch} className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground/50" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={`Search ${active.title}`}
+              className="w-full pl-9 pr-3 py-2 text-ui-sm border border-border/50 rounded-xl bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary/30"
+            />
+          </form>
+        )}
+
+        {error && (
+          <div className="px-3 py-2 rounded-lg bg-destructive/10 text-ui-xs text-destructive">{error}</div>
+        )}
+
+        {current && (
+          <>
+            {current.navigation.length > 0 && (
+              <div className="rounded-xl border border-border/50 bg-card divide-y divide-border/30">
+                {current.navigation.map((entry) => (
+                  <button
+                    key={`${entry.id}-${entry.href}`}
+                    onClick={() => entry.href && openFeed(window.opdsApi.getFeed(active.id, entry.href))}
+                    disabled={feedLoading}
+                    className="w-full flex items-center gap-3 px-4 py-2.5 text-left hover:bg-accent/50 transition-colors"
+                  >
+                    <Folder className="h-4 w-4 text-primary/60 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-ui-sm text-foreground truncate">{entry.title}</p>
+                      {entry.summary && (
+                        <p className="text-ui-xs text-muted-foreground/70 truncate">{entry.summary}</p>
+                      )}
+                    </div>
+                    <ChevronRight className="h-4 w-4 text-muted-foreground/40 shrink-0" />
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {current.publications.length > 0 && (
+              <div className="rounded-xl border border-border/50 bg-card px-4">
+                {current.publications.map((entry) => (
+                  <PublicationRow
+                    key={entry.id}
+                    catalogId={active.id}
+                    entry={entry}
+                    downloading={downloading}
+                    onDownload={handleDownload}
+                  />
+                ))}
+              </div>
+            )}
+
+            {current.navigation.length === 0 && current.publications.length === 0 && !feedLoading && (
+              <p className="py-12 text-center text-ui-sm text-muted-foreground/70">Nothing here</p>
+            )}
+
+            {current.next && (
+              <div className="flex justify-center">
+                <Button variant="ghost" size="sm" onClick={handleLoadMore} disabled={feedLoading}>
+                  Load more
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        {feedLoading && (
+          <div className="flex justify-center py-6">
+            <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -14,10 +14,11 @@ import {
   ArrowRight
 } from 'lucide-react'
 import { useDashboard } from '@/hooks/useDashboard'
-import { BookWithProgress, Book, StaleBook } from '@/types'
+import { BookWithProgress, Book, StaleBook, ImportResponse } from '@/types'
 import { Progress } from '@/components/ui/progress'
 import { Button } from '@/components/ui/button'
-import { cn, fileUrl } from '@/lib/utils'
+import { cn, fileUrl, isBookFile } from '@/lib/utils'
+import { ensurePdfCover } from '@/lib/pdf'
 import { DashboardGoalsCard } from './DashboardGoalsCard'
 
 interface DashboardProps {
@@ -125,15 +126,15 @@ export function Dashboard({
       setIsDragging(false)
 
       const files = Array.from(e.dataTransfer.files)
-      const epubFiles = files.filter((f) => f.name.toLowerCase().endsWith('.epub'))
+      const bookFiles = files.filter((f) => isBookFile(f.name))
 
-      if (files.length > 0 && epubFiles.length === 0) {
+      if (files.length > 0 && bookFiles.length === 0) {
         setRejectedDrop(true)
         setTimeout(() => setRejectedDrop(false), 3000)
         return
       }
 
-      for (const file of epubFiles) {
+      for (const file of bookFiles) {
         const filePath = (file as unknown as { path: string }).path
         if (filePath && onImportFile) {
           await onImportFile(filePath)
@@ -198,7 +199,7 @@ export function Dashboard({
               >
                 <Upload className="h-7 w-7 text-gold" />
               </motion.div>
-              <p className="font-display text-xl italic text-foreground">Drop EPUB files to import</p>
+              <p className="font-display text-xl italic text-foreground">Drop books to import</p>
               <p className="text-ui-xs text-muted-foreground mt-1">Your next adventure awaits</p>
             </motion.div>
             {/* Animated border */}
@@ -216,7 +217,7 @@ export function Dashboard({
             exit={{ opacity: 0, y: -12, scale: 0.95 }}
             className="absolute top-4 left-1/2 -translate-x-1/2 z-50 px-5 py-2.5 rounded-lg bg-red-500/95 text-white text-ui-sm font-medium shadow-lg backdrop-blur-sm"
           >
-            Only .epub files are supported
+            Only .epub and .pdf files are supported
           </motion.div>
         )}
       </AnimatePresence>
@@ -782,11 +783,12 @@ function EmptyState({ onImport }: EmptyStateProps): JSX.Element {
       setIsDragging(false)
 
       const files = Array.from(e.dataTransfer.files)
-      const epubFile = files.find((f) => f.name.toLowerCase().endsWith('.epub'))
-      if (epubFile) {
-        const filePath = (epubFile as unknown as { path: string }).path
+      const bookFile = files.find((f) => isBookFile(f.name))
+      if (bookFile) {
+        const filePath = (bookFile as unknown as { path: string }).path
         if (filePath) {
-          await window.appApi.importEpub(filePath)
+          const result = (await window.appApi.importEpub(filePath)) as ImportResponse
+          if (result?.success) await ensurePdfCover(result.book)
           onImport()
         }
       } else if (files.length > 0) {
@@ -855,11 +857,11 @@ function EmptyState({ onImport }: EmptyStateProps): JSX.Element {
             />
           </motion.div>
           <p className="text-ui-sm text-muted-foreground">
-            {isDragging ? 'Drop your EPUB here' : 'Drag & drop an EPUB file here'}
+            {isDragging ? 'Drop your book here' : 'Drag & drop an EPUB or PDF file here'}
           </p>
           {rejectedDrop && (
             <p className="text-ui-xs text-red-500 font-medium mt-2">
-              Only .epub files are supported
+              Only .epub and .pdf files are supported
             </p>
           )}
         </div>
@@ -874,7 +876,7 @@ function EmptyState({ onImport }: EmptyStateProps): JSX.Element {
         {/* Import button */}
         <Button onClick={onImport} size="lg" className="gap-2 import-btn">
           <FilePlus className="h-4 w-4" />
-          Import EPUB
+          Import Book
         </Button>
       </motion.div>
     </div>
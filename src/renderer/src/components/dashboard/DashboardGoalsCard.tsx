@@ -1,6 +1,6 @@
 import { useState, useCallback } from 'react'
 import { motion } from 'framer-motion'
-import { Target, Plus, Clock, ArrowRight, Calendar } from 'lucide-react'
+import { Target, Plus, Clock, ArrowRight, Calendar, AlertTriangle } from 'lucide-react'
 import { useTracks } from '@/hooks/useTracks'
 import { TrackWithProgress } from '@/types'
 import { Button } from '@/components/ui/button'
@@ -14,6 +14,7 @@ import {
   DialogFooter
 } from '@/components/ui/dialog'
 import { cn } from '@/lib/utils'
+import { formatForecastDate, PACE_STATUS } from '@/components/goals/TrackForecastPanel'
 
 interface DashboardGoalsCardProps {
   onNavigateGoals?: () => void
@@ -109,14 +110,19 @@ function TrackCard({ track, index, onAddHours, onAdjustGoal }: TrackCardProps):
   const percent = Math.round(progress.percentComplete)
   const remainingHours = Math.max(0, targetHours - progress.totalHours)
 
-  // ETA calculation
+  // ETA from the recent weekly pace, falling back to the weekly target before there is any history
+  const forecast = track.forecast
   let etaText: string | null = null
-  if (track.weekly_target_hours && track.weekly_target_hours > 0 && remainingHours > 0) {
+  if (forecast?.projectedCompletion && remainingHours > 0) {
+    etaText = formatForecastDate(forecast.projectedCompletion)
+  } else if (track.weekly_target_hours && track.weekly_target_hours > 0 && remainingHours > 0) {
     const weeksLeft = Math.ceil(remainingHours / track.weekly_target_hours)
     const etaDate = new Date()
     etaDate.setDate(etaDate.getDate() + weeksLeft * 7)
     etaText = etaDate.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
   }
+  const slipping =
+    forecast?.status === 'behind' || forecast?.status === 'overdue' || forecast?.status === 'at-risk'
 
   const categoryColor = category?.color ?? '#6366f1'
 
@@ -197,6 +203,17 @@ function TrackCard({ track, index, onAddHours, onAdjustGoal }: TrackCardProps):
           </div>
         )}
 
+        {forecast && slipping && (
+          <div className={cn('flex items-center gap-1.5 text-ui-sm', PACE_STATUS[forecast.status].className)}>
+            <AlertTriangle className="h-3 w-3" />
+            <span>
+              {forecast.requiredWeeklyHours !== null
+                ? `Needs ${forecast.requiredWeeklyHours} hrs/week (now ${forecast.weeklyHours})`
+                : PACE_STATUS[forecast.status].label}
+            </span>
+          </div>
+        )}
+
         {track.weekly_target_hours && track.weekly_target_hours > 0 && (
           <div className="flex items-center gap-1.5 text-ui-sm text-muted-foreground">
             <Clock className="h-3 w-3" />
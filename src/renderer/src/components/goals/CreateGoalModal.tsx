@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { cn } from '@/lib/utils'
+import { Book, Category, GoalPeriod, GoalScope, GoalType } from '@/types'
+import { describeGoal, GOAL_PERIODS, GOAL_TYPES } from '@shared/goals'
+
+interface CreateGoalModalProps {
+  categories: Category[]
+  onCreated: () => Promise<void>
+  onClose: () => void
+}
+
+const SELECT_CLASS =
+  'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring'
+
+/** Common challenges, one click away */
+const PRESETS: { type: GoalType; target: number; period: GoalPeriod }[] = [
+  { type: 'books', target: 52, period: 'year' },
+  { type: 'pages', target: 200, period: 'week' },
+  { type: 'chapters', target: 1, period: 'day' },
+  { type: 'streak', target: 30, period: 'day' }
+]
+
+export function CreateGoalModal({ categories, onCreated, onClose }: CreateGoalModalProps): JSX.Element {
+  const [books, setBooks] = useState<Book[]>([])
+  const [goalType, setGoalType] = useState<GoalType>('books')
+  const [target, setTarget] = useState('12')
+  const [period, setPeriod] = useState<GoalPeriod>('year')
+  const [scope, setScope] = useState<GoalScope>('global')
+  const [bookId, setBookId] = useState('')
+  const [categoryId, setCategoryId] = useState(categories[0]?.id ?? '')
+  const [title, setTitle] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    window.api.books.getAll().then((all) => {
+      const list = (all as Book[]).sort((a, b) => a.title.localeCompare(b.title))
+      setBooks(list)
+      setBookId((current) => current || list[0]?.id || '')
+    })
+  }, [])
+
+  const targetValue = parseFloat(target)
+  const scopeId = scope === 'book' ? bookId : scope === 'category' ? categoryId : null
+  const canSubmit = targetValue > 0 && (scope === 'global' || !!scopeId)
+
+  const handleSubmit = useCallback(async () => {
+    if (!canSubmit) return
+    setSubmitting(true)
+    try {
+      await window.api.goals.create({
+        goalType,
+        target: targetValue,
+        period: goalType === 'streak' ? 'day' : period,
+        scope,
+        scopeId,
+        title: title.trim() || null
+      })
+      await onCreated()
+    } catch (err) {
+      console.error('Failed to create goal:', err)
+    } finally {
+      setSubmitting(false)
+    }
+  }, [canSubmit, goalType, targetValue, period, scope, scopeId, title, onCreated])
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Reading Goal</DialogTitle>
+          <DialogDescription>Count books, pages, words, chapters or reading days</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Presets */}
+          <div className="flex flex-wrap gap-1.5">
+            {PRESETS.map((preset) => (
+              <button
+                key={preset.type}
+                onClick={() => {
+                  setGoalType(preset.type)
+                  setTarget(String(preset.target))
+                  setPeriod(preset.period)
+                }}
+                className="px-2.5 py-1 rounded-full border border-border/50 text-xs text-muted-foreground hover:text-foreground hover:border-border transition-all"
+              >
+                {describeGoal(preset)}
+              </button>
+            ))}
+          </div>
+
+          {/* Type */}
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Measure</label>
+            <div className="grid grid-cols-3 gap-1.5">
+              {(Object.keys(GOAL_TYPES) as GoalType[]).map((type) => (
+                <button
+                  key={type}
+                  onClick={() => setGoalType(type)}
+                  className={cn(
+                    'px-3 py-2 rounded-lg border text-ui-sm text-left transition-all',
+                    goalType === type
+                      ? 'border-primary/40 bg-primary/[0.06] text-primary'
+                      : 'border-border/50 text-muted-foreground hover:text-foreground hover:border-border'
+                  )}
+                >
+                  {GOAL_TYPES[type].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Target and period */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">
+                {goalType === 'streak' ? 'Days in a row' : `Target (${GOAL_TYPES[goalType].units})`}
+              </label>
+              <Input
+                type="number"
+                min="1"
+                step="1"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+              />
+            </div>
+            {goalType !== 'streak' && (
+              <div>
+                <label className="text-xs text-muted-foreground mb-1 block">Every</label>
+                <select
+                  value={period}
+                  onChange={(e) => setPeriod(e.target.value as GoalPeriod)}
+                  className={SELECT_CLASS}
+                >
+                  {(Object.keys(GOAL_PERIODS) as GoalPeriod[]).map((p) => (
+                    <option key={p} value={p}>
+                      {p.charAt(0).toUpperCase() + p.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {/* Scope */}
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Counts</label>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as GoalScope)}
+              className={SELECT_CLASS}
+            >
+              <option value="global">All reading</option>
+              {categories.length > 0 && <option value="category">One category</option>}
+              <option value="book">One book</option>
+            </select>
+          </div>
+
+          {scope === 'category' && (
+            <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={SELECT_CLASS}>
+              {categories.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {scope === 'book' && (
+            <select value={bookId} onChange={(e) => setBookId(e.target.value)} className={SELECT_CLASS}>
+              {books.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.title}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {/* Title */}
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Name (optional)</label>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={targetValue > 0 ? describeGoal({ type: goalType, target: targetValue, period }) : ''}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || submitting}>
+            {submitting ? 'Creating...' : 'Create Goal'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,45 +1,41 @@
 import { useState, useCallback, useEffect } from 'react'
-import { Plus, Target, TrendingUp, TrendingDown, Minus } from 'lucide-react'
+import { Plus, Target, TrendingUp, TrendingDown, Minus, Trash2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { cn } from '@/lib/utils'
-import { TrackWithProgress } from '@/types'
+import { ReadingGoalWithProgress, TrackWithProgress } from '@/types'
 import { useCategories } from '@/hooks/useCategories'
+import { useReadingGoals } from '@/hooks/useReadingGoals'
+import { describeGoal, GOAL_PERIODS, GOAL_TYPES } from '@shared/goals'
 import { TrackDetailView } from './TrackDetailView'
 import { CreateTrackModal } from './CreateTrackModal'
+import { CreateGoalModal } from './CreateGoalModal'
 
 type FilterTab = 'all' | 'active' | 'completed' | 'no-target'
 
 function getTrackStatus(
   track: TrackWithProgress
-): 'on-track' | 'behind' | 'ahead' | 'no-target' | 'completed' {
+): 'on-track' | 'at-risk' | 'behind' | 'ahead' | 'no-target' | 'completed' {
   if (!track.target_hours_total) return 'no-target'
   if (track.progress.percentComplete >= 100) return 'completed'
 
-  if (!track.weekly_target_hours || !track.target_deadline) return 'on-track'
-
-  const now = new Date()
-  const deadline = new Date(track.target_deadline)
-  const weeksRemaining = Math.max(
-    0,
-    (deadline.getTime() - now.getTime()) / (7 * 24 * 60 * 60 * 1000)
-  )
-  if (weeksRemaining === 0) return 'behind'
-
-  const hoursRemaining = track.target_hours_total - track.progress.totalHours
-  const requiredWeeklyPace = hoursRemaining / weeksRemaining
-  const actualWeeklyPace = track.weekly_target_hours
-
-  if (requiredWeeklyPace > actualWeeklyPace * 1.2) return 'behind'
-  if (requiredWeeklyPace < actualWeeklyPace * 0.8) return 'ahead'
+  // Tracks with a deadline are judged by the forecast from their recent weekly hours
+  const forecast = track.forecast
+  if (!forecast || forecast.status === 'no-deadline') return 'on-track'
+  if (forecast.status === 'behind' || forecast.status === 'overdue') return 'behind'
+  if (forecast.status === 'at-risk') return 'at-risk'
+  if (forecast.requiredWeeklyHours !== null && forecast.requiredWeeklyHours < forecast.weeklyHours * 0.8) {
+    return 'ahead'
+  }
   return 'on-track'
 }
 
 function StatusBadge({ status }: { status: ReturnType<typeof getTrackStatus> }): JSX.Element {
   const config = {
     'on-track': { label: 'On track', className: 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400' },
+    'at-risk': { label: 'At risk', className: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400' },
     behind: { label: 'Behind', className: 'bg-amber-500/10 text-amber-600 dark:text-amber-400' },
     ahead: { label: 'Ahead', className: 'bg-blue-500/10 text-blue-600 dark:text-blue-400' },
     'no-target': { label: 'No target', className: 'bg-muted/50 text-muted-foreground' },
@@ -97,7 +93,7 @@ function TrackCard({
           <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
             {status === 'ahead' ? (
               <TrendingUp className="h-3 w-3 text-blue-500" />
-            ) : status === 'behind' ? (
+            ) : status === 'behind' || status === 'at-risk' ? (
               <TrendingDown className="h-3 w-3 text-amber-500" />
             ) : (
               <Minus className="h-3 w-3" />
@@ -112,13 +108,68 @@ function TrackCard({
   )
 }
 
+function ReadingGoalCard({
+  goal,
+  onDelete
+}: {
+  goal: ReadingGoalWithProgress
+  onDelete: () => void
+}): JSX.Element {
+  const { progress } = goal
+  const units = GOAL_TYPES[goal.goal_type].units
+  const scopeLabel = goal.scope === 'global' ? 'All reading' : goal.scope_name
+  const name =
+    goal.title || describeGoal({ type: goal.goal_type, target: goal.target, period: goal.period })
+
+  return (
+    <div className="group relative rounded-xl border border-border/50 bg-card/80 p-5 hover:bg-card hover:border-border transition-all">
+      <div className="flex items-start justify-between mb-3 gap-2">
+        <div className="min-w-0">
+          <span className="font-medium text-ui-sm block truncate">{name}</span>
+          <span className="text-xs text-muted-foreground truncate block">{scopeLabel}</span>
+        </div>
+        <div className="flex items-center gap-1.5 shrink-0">
+          <StatusBadge status={progress.status} />
+          <button
+            onClick={onDelete}
+            className="p-1 rounded-md text-muted-foreground/50 hover:text-destructive opacity-0 group-hover:opacity-100 transition-all"
+            title="Delete goal"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Progress value={progress.percentComplete} className="flex-1 h-1.5" />
+          <span className="text-xs text-muted-foreground shrink-0 tabular-nums">
+            {progress.current.toLocaleString()} / {progress.target.toLocaleString()} {units}
+          </span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {goal.goal_type === 'streak'
+            ? progress.current > 0
+              ? `${progress.current}-day streak going`
+              : 'Read today to start a streak'
+            : progress.expected !== null && progress.status !== 'completed'
+              ? `${Math.round(progress.expected).toLocaleString()} ${units} would be on pace ${GOAL_PERIODS[goal.period].current}`
+              : `Reached ${GOAL_PERIODS[goal.period].current}`}
+        </p>
+      </div>
+    </div>
+  )
+}
+
 export function GoalsView(): JSX.Element {
   const [tracks, setTracks] = useState<TrackWithProgress[]>([])
   const [loading, setLoading] = useState(true)
   const [filter, setFilter] = useState<FilterTab>('all')
   const [selectedTrack, setSelectedTrack] = useState<TrackWithProgress | null>(null)
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [showCreateGoal, setShowCreateGoal] = useState(false)
   const { categories, createCategory } = useCategories()
+  const { goals, refresh: refreshGoals, deleteGoal } = useReadingGoals()
 
   const loadTracks = useCallback(async () => {
     setLoading(true)
@@ -185,7 +236,7 @@ export function GoalsView(): JSX.Element {
           <div>
             <h1 className="text-ui-xl font-semibold">Learning Goals</h1>
             <p className="text-ui-sm text-muted-foreground mt-1">
-              Track your personal learning targets across categories
+              Reading challenges and personal learning targets across categories
             </p>
           </div>
           <Button onClick={() => setShowCreateModal(true)} className="gap-2">
@@ -194,6 +245,29 @@ export function GoalsView(): JSX.Element {
           </Button>
         </div>
 
+        {/* Reading goals */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-ui-base font-medium">Reading Goals</h2>
+            <Button variant="outline" size="sm" onClick={() => setShowCreateGoal(true)} className="gap-1.5 rounded-lg">
+              <Plus className="h-3.5 w-3.5" />
+              New Goal
+            </Button>
+          </div>
+          {goals.length === 0 ? (
+            <p className="text-ui-sm text-muted-foreground/70">
+              Set a target for books finished, pages or words read, chapters or a reading streak
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {goals.map((goal) => (
+                <ReadingGoalCard key={goal.id} goal={goal} onDelete={() => deleteGoal(goal.id)} />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <h2 className="text-ui-base font-medium mb-3">Learning Tracks</h2>
         <Tabs value={filter} onValueChange={(v) => setFilter(v as FilterTab)} className="mb-6">
           <TabsList>
             <TabsTrigger value="all">All</TabsTrigger>
@@ -249,6 +323,17 @@ export function GoalsView(): JSX.Element {
           onClose={() => setShowCreateModal(false)}
         />
       )}
+
+      {showCreateGoal && (
+        <CreateGoalModal
+          categories={categories}
+          onCreated={async () => {
+            await refreshGoals()
+            setShowCreateGoal(false)
+          }}
+          onClose={() => setShowCreateGoal(false)}
+        />
+      )}
     </ScrollArea>
   )
 }
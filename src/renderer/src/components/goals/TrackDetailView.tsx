@@ -21,6 +21,7 @@ import {
   Book
 } from '@/types'
 import { AddHoursModal } from './AddHoursModal'
+import { TrackForecastPanel } from './TrackForecastPanel'
 
 interface TrackDetailViewProps {
   track: TrackWithProgress
@@ -68,6 +69,7 @@ export function TrackDetailView({
   )
   const [notes, setNotes] = useState(track.notes ?? '')
   const [sourceLabel, setSourceLabel] = useState(track.source_label ?? '')
+  const [countListening, setCountListening] = useState(track.count_listening !== 0)
   const [saving, setSaving] = useState(false)
 
   // Manual time entries
@@ -119,6 +121,7 @@ export function TrackDetailView({
     setManualBaseHours(track.manual_base_hours?.toString() ?? '0')
     setNotes(track.notes ?? '')
     setSourceLabel(track.source_label ?? '')
+    setCountListening(track.count_listening !== 0)
     setEditing(false)
   }, [track])
 
@@ -132,7 +135,8 @@ export function TrackDetailView({
         targetDeadline: deadline || undefined,
         manualBaseHours: manualBaseHours ? parseFloat(manualBaseHours) : 0,
         notes: notes || undefined,
-        sourceLabel: sourceLabel || undefined
+        sourceLabel: sourceLabel || undefined,
+        countListening
       })
       setEditing(false)
       await onTrackUpdated()
@@ -149,6 +153,7 @@ export function TrackDetailView({
     manualBaseHours,
     notes,
     sourceLabel,
+    countListening,
     onTrackUpdated
   ])
 
@@ -159,6 +164,7 @@ export function TrackDetailView({
     setManualBaseHours(track.manual_base_hours?.toString() ?? '0')
     setNotes(track.notes ?? '')
     setSourceLabel(track.source_label ?? '')
+    setCountListening(track.count_listening !== 0)
     setEditing(false)
   }, [track])
 
@@ -169,6 +175,8 @@ export function TrackDetailView({
   }, [loadEntries, onTrackUpdated])
 
   const activeHours = track.progress.activeMinutes / 60
+  const reviewHours = track.progress.reviewMinutes / 60
+  const listeningHours = track.progress.listeningMinutes / 60
   const manualHours = track.progress.manualMinutes / 60
   const baseHours = track.progress.manualBaseMinutes / 60
   const hasTarget = track.target_hours_total && track.target_hours_total > 0
@@ -220,11 +228,22 @@ export function TrackDetailView({
 
           <div className="text-sm text-muted-foreground/70 space-y-0.5">
             <div>{activeHours.toFixed(1)} hrs from reading sessions</div>
+            {reviewHours > 0 && <div>{reviewHours.toFixed(1)} hrs from flashcard review</div>}
+            {listeningHours > 0 && (
+              <div>
+                {listeningHours.toFixed(1)} hrs listening to read-aloud
+                {!track.progress.countsListening && ' (not counted)'}
+              </div>
+            )}
             <div>{manualHours.toFixed(1)} hrs from manual entries</div>
             {baseHours > 0 && <div>{baseHours.toFixed(1)} hrs historical baseline</div>}
           </div>
         </div>
 
+        {track.forecast && (
+          <TrackForecastPanel forecast={track.forecast} deadline={track.target_deadline} />
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-2 gap-3 mb-6">
           <StatCard
@@ -382,6 +401,25 @@ export function TrackDetailView({
                 </p>
               )}
             </div>
+
+            <div>
+              <label className="text-ui-sm text-muted-foreground mb-1 block">Read-aloud listening</label>
+              {editing ? (
+                <label className="flex items-center gap-2 text-ui-sm py-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={countListening}
+                    onChange={(e) => setCountListening(e.target.checked)}
+                    className="accent-primary"
+                  />
+                  Count time spent listening toward this goal
+                </label>
+              ) : (
+                <div className="text-ui-sm py-2 text-muted-foreground">
+                  {track.count_listening !== 0 ? 'Counted toward this goal' : 'Not counted'}
+                </div>
+              )}
+            </div>
           </div>
         </div>
 
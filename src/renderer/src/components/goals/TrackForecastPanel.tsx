@@ -0,0 +1,121 @@
+import { AlertTriangle, CalendarClock, CheckCircle2, Gauge } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { TrackForecast, TrackPaceStatus } from '@/types'
+
+export const PACE_STATUS: Record<TrackPaceStatus, { label: string; className: string }> = {
+  completed: { label: 'Target reached', className: 'text-emerald-600 dark:text-emerald-400' },
+  'on-track': { label: 'On pace for the deadline', className: 'text-emerald-600 dark:text-emerald-400' },
+  'at-risk': { label: 'Deadline at risk', className: 'text-yellow-600 dark:text-yellow-400' },
+  behind: { label: 'Behind pace', className: 'text-amber-600 dark:text-amber-400' },
+  overdue: { label: 'Past the deadline', className: 'text-red-500 dark:text-red-400' },
+  'no-deadline': { label: 'No deadline set', className: 'text-muted-foreground' }
+}
+
+/** Plain YYYY-MM-DD dates (deadlines, week starts) are local days, not UTC midnight */
+function parseDate(value: string): Date {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return new Date(value)
+  const [y, m, d] = value.split('-').map(Number)
+  return new Date(y, m - 1, d)
+}
+
+export function formatForecastDate(value: string | null): string {
+  if (!value) return 'Not at this pace'
+  return parseDate(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+function weekLabel(weekStart: string): string {
+  return parseDate(weekStart).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+interface TrackForecastPanelProps {
+  forecast: TrackForecast
+  deadline: string | null
+}
+
+export function TrackForecastPanel({ forecast, deadline }: TrackForecastPanelProps): JSX.Element {
+  const status = PACE_STATUS[forecast.status]
+  const slipping = forecast.status === 'behind' || forecast.status === 'overdue' || forecast.status === 'at-risk'
+  const StatusIcon = slipping ? AlertTriangle : forecast.status === 'no-deadline' ? CalendarClock : CheckCircle2
+  const maxHours = Math.max(0, ...forecast.history.map((w) => w.hours), forecast.requiredWeeklyHours ?? 0)
+
+  return (
+    <div className="rounded-xl border border-border/50 bg-card/80 p-5 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-ui-sm font-medium text-foreground">Forecast</span>
+        <span className={cn('flex items-center gap-1.5 text-ui-sm font-medium', status.className)}>
+          <StatusIcon className="h-3.5 w-3.5" />
+          {status.label}
+        </span>
+      </div>
+
+      {forecast.status !== 'completed' && (
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <div className="flex items-center gap-1.5 text-ui-sm text-muted-foreground/70 mb-1">
+              <CalendarClock className="h-3.5 w-3.5" />
+              Projected finish
+            </div>
+            <div className="text-ui-lg font-semibold text-foreground">
+              {formatForecastDate(forecast.projectedCompletion)}
+            </div>
+            {forecast.projectedCompletion && (
+              <div className="text-ui-sm text-muted-foreground/60 mt-0.5">
+                Likely between {formatForecastDate(forecast.earliestCompletion)} and{' '}
+                {forecast.latestCompletion ? formatForecastDate(forecast.latestCompletion) : 'much later'}
+              </div>
+            )}
+          </div>
+          <div>
+            <div className="flex items-center gap-1.5 text-ui-sm text-muted-foreground/70 mb-1">
+              <Gauge className="h-3.5 w-3.5" />
+              Weekly pace
+            </div>
+            <div className="text-ui-lg font-semibold text-foreground tabular-nums">
+              {forecast.weeklyHours} hrs/week
+            </div>
+            <div className="text-ui-sm text-muted-foreground/60 mt-0.5">
+              {forecast.requiredWeeklyHours !== null
+                ? `${forecast.requiredWeeklyHours} hrs/week needed by ${formatForecastDate(deadline)}`
+                : forecast.status === 'overdue'
+                  ? `${forecast.remainingHours} hrs left after the deadline`
+                  : `${forecast.remainingHours} hrs to go`}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {forecast.history.length > 0 && (
+        <div>
+          <div className="relative flex items-end gap-1 h-16">
+            {forecast.requiredWeeklyHours !== null && maxHours > 0 && (
+              <div
+                className="absolute inset-x-0 border-t border-dashed border-amber-500/70"
+                style={{ bottom: `${(forecast.requiredWeeklyHours / maxHours) * 100}%` }}
+                title={`${forecast.requiredWeeklyHours} hrs/week needed`}
+              />
+            )}
+            {forecast.history.map((week) => (
+              <div
+                key={week.weekStart}
+                className="flex-1 h-full flex flex-col justify-end"
+                title={`Week of ${weekLabel(week.weekStart)} · ${week.hours.toFixed(1)} hrs`}
+              >
+                <div
+                  className="w-full rounded-t-[2px] bg-primary/60"
+                  style={{ height: maxHours > 0 ? `${(Math.max(0, week.hours) / maxHours) * 100}%` : 0 }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-muted-foreground mt-1">
+            <span>{weekLabel(forecast.history[0].weekStart)}</span>
+            <span>
+              Based on {forecast.weeksObserved} {forecast.weeksObserved === 1 ? 'week' : 'weeks'} of sessions and
+              manual entries
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
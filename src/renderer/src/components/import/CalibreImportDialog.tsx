@@ -0,0 +1,258 @@
+import { useState, useEffect, useMemo } from 'react'
+import { FolderOpen, Search } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { ReadingModeSelect } from '@/components/categories/ReadingModeSelect'
+import { CalibreImportProgress, CalibreImportReport, CalibreLibrary, ReadingMode } from '@/types'
+
+interface CalibreImportDialogProps {
+  onClose: () => void
+  /** Called after an import so the caller can reload books and categories */
+  onImported: () => void
+}
+
+type OpenResult = { success: true; library: CalibreLibrary } | { success: false; error: string }
+type ImportResult = { success: true; report: CalibreImportReport } | { success: false; error: string }
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`
+}
+
+export function CalibreImportDialog({ onClose, onImported }: CalibreImportDialogProps): JSX.Element {
+  const [library, setLibrary] = useState<CalibreLibrary | null>(null)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [filter, setFilter] = useState('')
+  const [mapTags, setMapTags] = useState(true)
+  const [readingMode, setReadingMode] = useState<ReadingMode>(null)
+  const [progress, setProgress] = useState<CalibreImportProgress | null>(null)
+  const [report, setReport] = useState<CalibreImportReport | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    return window.appApi.onCalibreImportProgress((p) => setProgress(p as CalibreImportProgress))
+  }, [])
+
+  const visible = useMemo(() => {
+    if (!library) return []
+    const q = filter.trim().toLowerCase()
+    if (!q) return library.books
+    return library.books.filter((b) =>
+      [b.title, b.author, b.series, ...b.tags].some((v) => v?.toLowerCase().includes(q))
+    )
+  }, [library, filter])
+
+  const handleOpen = async (): Promise<void> => {
+    setBusy(true)
+    setMessage(null)
+    const result = (await window.appApi.openCalibreLibrary()) as OpenResult
+    setBusy(false)
+    if (!result.success) {
+      if (result.error !== 'Cancelled') setMessage(result.error)
+      return
+    }
+    setLibrary(result.library)
+    setReport(null)
+    // Everything importable starts selected; already-imported books get their metadata refreshed
+    setSelected(new Set(result.library.books.filter((b) => b.filePath).map((b) => b.calibreId)))
+  }
+
+  const toggle = (id: number): void => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const allVisibleSelected = visible.filter((b) => b.filePath).every((b) => selected.has(b.calibreId))
+
+  const toggleAll = (): void => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      for (const b of visible) {
+        if (!b.filePath) continue
+        if (allVisibleSelected) next.delete(b.calibreId)
+        else next.add(b.calibreId)
+      }
+      return next
+    })
+  }
+
+  const handleImport = async (): Promise<void> => {
+    if (!library || selected.size === 0) return
+    setBusy(true)
+    setMessage(null)
+    setProgress({ done: 0, total: selected.size, title: '' })
+    const result = (await window.appApi.importCalibreBooks(library.path, {
+      calibreIds: [...selected],
+      mapTags,
+      readingMode
+    })) as ImportResult
+    setBusy(false)
+    setProgress(null)
+    if (!result.success) {
+      setMessage(result.error)
+      return
+    }
+    setReport(result.report)
+    onImported()
+  }
+
+  const newCount = library?.books.filter((b) => selected.has(b.calibreId) && !b.existingBookId).length ?? 0
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !busy && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import from Calibre</DialogTitle>
+          <DialogDescription>
+            {library
+              ? `${library.name} · ${plural(library.books.length, 'book')}`
+              : 'Read books, series, ratings and tags straight from a Calibre library folder'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!library ? (
+          <button
+            onClick={handleOpen}
+            disabled={busy}
+            className="flex items-start gap-2.5 px-3 py-2.5 rounded-lg border border-border/50 text-left hover:border-border hover:bg-accent/50 transition-all disabled:opacity-50"
+          >
+            <FolderOpen className="h-4 w-4 mt-0.5 text-muted-foreground" />
+            <span className="text-ui-sm">
+              Choose library folder
+              <span className="block text-xs text-muted-foreground">The folder that contains metadata.db</span>
+            </span>
+          </button>
+        ) : report ? (
+          <div className="rounded-lg bg-muted/40 px-3 py-2.5 text-ui-sm space-y-0.5">
+            <p>
+              Imported {plural(report.imported, 'book')}, updated {report.updated}
+              {report.categoriesCreated > 0 && `, created ${plural(report.categoriesCreated, 'category')}`}.
+            </p>
+            {report.skipped > 0 && <p className="text-xs text-muted-foreground">{report.skipped} skipped</p>}
+            <div className="max-h-40 overflow-y-auto">
+              {report.errors.map((err) => (
+                <p key={err} className="text-xs text-destructive">
+                  {err}
+                </p>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground/50" />
+                <input
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Filter by title, author, series or tag"
+                  className="w-full h-8 pl-8 pr-3 text-ui-sm rounded-md border border-input bg-transparent focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                />
+              </div>
+              <Button size="sm" variant="ghost" className="h-8" onClick={toggleAll} disabled={busy}>
+                {allVisibleSelected ? 'Select none' : 'Select all'}
+              </Button>
+            </div>
+
+            <ul className="max-h-72 overflow-y-auto divide-y divide-border/30 rounded-lg border border-border/50">
+              {visible.map((book) => (
+                <li key={book.calibreId}>
+                  <label
+                    className={`flex items-start gap-2.5 px-3 py-2 ${book.filePath ? 'cursor-pointer hover:bg-accent/40' : 'opacity-50'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(book.calibreId)}
+                      onChange={() => toggle(book.calibreId)}
+                      disabled={!book.filePath || busy}
+                      className="mt-1 accent-primary"
+                    />
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-ui-sm text-foreground truncate">{book.title}</span>
+                      <span className="block text-xs text-muted-foreground truncate">
+                        {[
+                          book.author,
+                          book.series && `${book.series}${book.seriesIndex != null ? ` #${book.seriesIndex}` : ''}`,
+                          book.tags.join(', ')
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </span>
+                    </span>
+                    <span className="text-[10px] font-mono uppercase tracking-wider text-muted-foreground/70 shrink-0 mt-1">
+                      {!book.filePath ? 'No EPUB' : book.existingBookId ? 'In library' : book.format}
+                    </span>
+                  </label>
+                </li>
+              ))}
+              {visible.length === 0 && (
+                <li className="px-3 py-6 text-center text-ui-sm text-muted-foreground">No matching books</li>
+              )}
+            </ul>
+
+            <label className="flex items-center gap-2 text-ui-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={mapTags}
+                onChange={(e) => setMapTags(e.target.checked)}
+                className="accent-primary"
+              />
+              Use Calibre tags as categories
+              <span className="text-xs text-muted-foreground">(creates missing ones)</span>
+            </label>
+
+            <div className="space-y-2">
+              <label className="text-ui-sm font-medium">Reading mode for new books</label>
+              <ReadingModeSelect value={readingMode} onChange={setReadingMode} />
+            </div>
+
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+                <p className="text-xs text-muted-foreground truncate">
+                  {progress.done} of {progress.total}
+                  {progress.title && ` · ${progress.title}`}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {message && <p className="text-xs text-destructive">{message}</p>}
+
+        <DialogFooter>
+          {library && !report ? (
+            <>
+              <Button variant="ghost" onClick={onClose} disabled={busy}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={busy || selected.size === 0}>
+                {busy
+                  ? 'Importing...'
+                  : newCount === selected.size
+                    ? `Import ${plural(selected.size, 'book')}`
+                    : `Import ${newCount}, update ${selected.size - newCount}`}
+              </Button>
+            </>
+          ) : (
+            <Button variant="ghost" onClick={onClose}>
+              Done
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
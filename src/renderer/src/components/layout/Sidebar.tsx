@@ -1,11 +1,11 @@
-import { Library, BookMarked, Clock, StickyNote, Target, Sun, Moon, Monitor, Settings } from 'lucide-react'
+import { Library, BookMarked, Clock, BarChart3, StickyNote, Layers, Target, Globe, Sun, Moon, Monitor, Settings } from 'lucide-react'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/components/ui/tooltip'
 import { useTheme } from '@/components/ThemeProvider'
 import { cn } from '@/lib/utils'
 import { motion } from 'framer-motion'
 
-export type NavPage = 'dashboard' | 'library' | 'sessions' | 'notes' | 'goals' | 'settings'
+export type NavPage = 'dashboard' | 'library' | 'sessions' | 'stats' | 'notes' | 'review' | 'goals' | 'catalogs' | 'settings'
 
 interface SidebarProps {
   className?: string
@@ -17,8 +17,11 @@ const NAV_ITEMS: { id: NavPage; label: string; icon: typeof Library; tooltip: st
   { id: 'dashboard', label: 'Reading', icon: BookMarked, tooltip: 'Dashboard & currently reading' },
   { id: 'library', label: 'Library', icon: Library, tooltip: 'Your book library' },
   { id: 'sessions', label: 'Sessions', icon: Clock, tooltip: 'Reading sessions' },
+  { id: 'stats', label: 'Statistics', icon: BarChart3, tooltip: 'Reading statistics & trends' },
   { id: 'notes', label: 'Notes', icon: StickyNote, tooltip: 'Your notes & highlights' },
-  { id: 'goals', label: 'Goals', icon: Target, tooltip: 'Learning goals & tracks' }
+  { id: 'review', label: 'Review', icon: Layers, tooltip: 'Flashcards from your highlights' },
+  { id: 'goals', label: 'Goals', icon: Target, tooltip: 'Learning goals & tracks' },
+  { id: 'catalogs', label: 'Catalogs', icon: Globe, tooltip: 'Browse OPDS catalogs' }
 ]
 
 const LITERARY_QUOTES = [
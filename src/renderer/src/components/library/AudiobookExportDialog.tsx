@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react'
+import { FileMusic, Files } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { STORAGE_KEY_RATE } from '@/hooks/useTts'
+import { AudiobookFormat, AudiobookJob, Book, TTS_RATES, TtsEngineId, TtsEngineStatus, TtsVoice } from '@/types'
+
+interface AudiobookExportDialogProps {
+  book: Book
+  onClose: () => void
+}
+
+type StartResult = { success: true; job: AudiobookJob } | { success: false; error: string }
+
+const FORMATS: { value: AudiobookFormat; label: string; hint: string; icon: typeof Files }[] = [
+  { value: 'm4b', label: 'M4B audiobook', hint: 'One file with chapter markers and cover art', icon: FileMusic },
+  { value: 'chapters', label: 'Chapter files', hint: 'A WAV per chapter, plus cover and a CUE playlist', icon: Files }
+]
+
+const STATE_LABELS: Record<AudiobookJob['state'], string> = {
+  queued: 'Waiting for another audiobook to finish',
+  rendering: 'Rendering',
+  encoding: 'Writing files',
+  paused: 'Stopped',
+  done: 'Finished',
+  failed: 'Failed'
+}
+
+function jobPercent(job: AudiobookJob): number {
+  if (job.state === 'encoding' || job.state === 'done') return job.encodePercent
+  return job.totalChunks > 0 ? (job.doneChunks / job.totalChunks) * 100 : 0
+}
+
+export function AudiobookExportDialog({ book, onClose }: AudiobookExportDialogProps): JSX.Element {
+  const [voices, setVoices] = useState<TtsVoice[]>([])
+  const [engines, setEngines] = useState<TtsEngineStatus[]>([])
+  const [installed, setInstalled] = useState<boolean | null>(null)
+  const [canM4b, setCanM4b] = useState(false)
+  const [engine, setEngine] = useState<TtsEngineId>('kokoro')
+  const [voiceId, setVoiceId] = useState('af_heart')
+  const [rate, setRate] = useState(() => parseFloat(localStorage.getItem(STORAGE_KEY_RATE) || '1'))
+  const [format, setFormat] = useState<AudiobookFormat>('chapters')
+  const [job, setJob] = useState<AudiobookJob | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    window.ttsApi.isInstalled(book.id).then(setInstalled)
+    window.ttsApi.getVoices().then((v) => setVoices(v as TtsVoice[]))
+    window.ttsApi.getEngines().then((e) => setEngines(e as TtsEngineStatus[]))
+    // Same voice the reader would use for this book
+    window.ttsApi.resolveVoice(book.id).then((choice) => {
+      setEngine(choice.engine)
+      setVoiceId(choice.voiceId)
+    })
+    window.ttsApi.getRenderCapabilities().then(({ m4b }) => {
+      setCanM4b(m4b)
+      if (m4b) setFormat('m4b')
+    })
+    window.ttsApi.listRenderJobs().then((jobs) => {
+      const latest = (jobs as AudiobookJob[]).find((j) => j.bookId === book.id)
+      if (latest) setJob(latest)
+    })
+    return window.ttsApi.onRenderProgress((data) => {
+      const update = data as AudiobookJob
+      if (update.bookId === book.id) setJob(update)
+    })
+  }, [book.id])
+
+  const handleStart = async (): Promise<void> => {
+    setBusy(true)
+    setMessage(null)
+    const result = (await window.ttsApi.startRender({ bookId: book.id, engine, voiceId, rate, format })) as StartResult
+    setBusy(false)
+    if (!result.success) {
+      if (result.error !== 'Cancelled') setMessage(result.error)
+      return
+    }
+    setJob(result.job)
+  }
+
+  const handleResume = async (): Promise<void> => {
+    if (!job) return
+    const result = (await window.ttsApi.resumeRender(job.id)) as StartResult
+    if (!result.success) setMessage(result.error)
+  }
+
+  const handleDiscard = async (): Promise<void> => {
+    if (!job) return
+    await window.ttsApi.discardRender(job.id)
+    setJob(null)
+  }
+
+  const active = !!job && (job.state === 'queued' || job.state === 'rendering' || job.state === 'encoding')
+  const currentChapter = job?.chapters.findIndex((c) => c.doneChunks < c.chunkCount) ?? -1
+  // Settings stay available while stopped: the same voice and speed resume, others start over
+  const showSettings = !active
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !busy && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export audiobook</DialogTitle>
+          <DialogDescription>
+            {book.title}
+            {book.author && ` · ${book.author}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {installed === false ? (
+          <p className="text-ui-sm text-muted-foreground">
+            Install a TTS engine from the read-aloud bar in the reader first. Audiobooks are rendered offline
+            with the same voices.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {job && (
+              <div className="rounded-lg bg-muted/40 px-3 py-2.5 space-y-1.5">
+                <div className="flex items-center justify-between text-ui-sm">
+                  <span>{STATE_LABELS[job.state]}</span>
+                  <span className="text-xs text-muted-foreground tabular-nums">{Math.round(jobPercent(job))}%</span>
+                </div>
+                <Progress value={jobPercent(job)} />
+                <p className="text-xs text-muted-foreground truncate">
+                  {job.state === 'rendering' && currentChapter >= 0
+                    ? `Chapter ${currentChapter + 1} of ${job.chapters.length} · ${job.chapters[currentChapter].title}`
+                    : job.state === 'failed'
+                      ? job.error
+                      : job.outputPath}
+                </p>
+              </div>
+            )}
+
+            {showSettings && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="space-y-1.5">
+                    <span className="text-ui-sm font-medium">Voice</span>
+                    <select
+                      value={`${engine}:${voiceId}`}
+                      onChange={(e) => {
+                        const [nextEngine, ...rest] = e.target.value.split(':')
+                        setEngine(nextEngine as TtsEngineId)
+                        setVoiceId(rest.join(':'))
+                      }}
+                      className="w-full h-8 rounded-lg border border-border/60 bg-background px-2.5 text-ui-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring/40"
+                    >
+                      {engines
+                        .filter((en) => en.ready)
+                        .map((en) => (
+                          <optgroup key={en.id} label={en.label}>
+                            {voices
+                              .filter((v) => v.engine === en.id && v.installed)
+                              .map((v) => (
+                                <option key={v.id} value={`${v.engine}:${v.id}`}>
+                                  {v.name}
+                                </option>
+                              ))}
+                          </optgroup>
+                        ))}
+                    </select>
+                  </label>
+                  <label className="space-y-1.5">
+                    <span className="text-ui-sm font-medium">Speed</span>
+                    <select
+                      value={rate}
+                      onChange={(e) => setRate(parseFloat(e.target.value))}
+                      className="w-full h-8 rounded-lg border border-border/60 bg-background px-2.5 text-ui-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring/40"
+                    >
+                      {TTS_RATES.map((r) => (
+                        <option key={r} value={r}>
+                          {r}x
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                <div className="space-y-1.5">
+                  {FORMATS.map((f) => {
+                    const disabled = f.value === 'm4b' && !canM4b
+                    return (
+                      <button
+                        key={f.value}
+                        onClick={() => setFormat(f.value)}
+                        disabled={disabled}
+                        className={`w-full flex items-start gap-2.5 px-3 py-2 rounded-lg border text-left transition-all disabled:opacity-50 ${
+                          format === f.value ? 'border-primary bg-primary/5' : 'border-border/50 hover:border-border'
+                        }`}
+                      >
+                        <f.icon className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                        <span className="text-ui-sm">
+                          {f.label}
+                          <span className="block text-xs text-muted-foreground">
+                            {disabled ? 'Needs ffmpeg installed on this computer' : f.hint}
+                          </span>
+                        </span>
+                      </button>
+                    )
+                  })}
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  Rendering runs in the background and can take a while for long books. Stopped renders pick up
+                  at the last unfinished chapter.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {message && <p className="text-xs text-destructive">{message}</p>}
+
+        <DialogFooter>
+          {job && active && (
+            <Button variant="ghost" onClick={() => window.ttsApi.cancelRender(job.id)}>
+              Stop
+            </Button>
+          )}
+          {job && (job.state === 'paused' || job.state === 'failed') && (
+            <>
+              <Button variant="ghost" onClick={handleDiscard}>
+                Discard
+              </Button>
+              <Button variant="ghost" onClick={handleResume}>
+                Resume
+              </Button>
+            </>
+          )}
+          {job?.state === 'done' && (
+            <Button variant="ghost" onClick={() => window.ttsApi.revealRender(job.id)}>
+              Show in folder
+            </Button>
+          )}
+          {showSettings && installed !== false && (
+            <Button onClick={handleStart} disabled={busy || installed === null}>
+              {busy ? 'Starting...' : 'Render audiobook'}
+            </Button>
+          )}
+          {!showSettings && (
+            <Button variant="ghost" onClick={onClose}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useCallback, useRef, useMemo } from 'react'
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   BookOpen,
@@ -8,9 +8,13 @@ import {
   Trash2,
   Upload,
   FilePlus,
-  Pencil
+  Pencil,
+  Library,
+  Headphones,
+  ListPlus,
+  Clock
 } from 'lucide-react'
-import { Book, Category, ReadingMode } from '@/types'
+import { Book, Category, ReadingMode, TimeLeft } from '@/types'
 import { Button } from '@/components/ui/button'
 import {
   Dialog,
@@ -28,15 +32,17 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { CategorySelect } from '@/components/categories/CategorySelect'
 import { ReadingModeSelect } from '@/components/categories/ReadingModeSelect'
-import { cn, fileUrl } from '@/lib/utils'
+import { AudiobookExportDialog } from './AudiobookExportDialog'
+import { cn, fileUrl, formatMinutes, isBookFile } from '@/lib/utils'
 
 type ViewMode = 'grid' | 'list'
-type SortKey = 'title' | 'author' | 'created_at' | 'updated_at'
+type SortKey = 'title' | 'author' | 'series' | 'created_at' | 'updated_at'
 type SortDir = 'asc' | 'desc'
 
 const SORT_OPTIONS: { key: SortKey; label: string }[] = [
   { key: 'title', label: 'Title' },
   { key: 'author', label: 'Author' },
+  { key: 'series', label: 'Series' },
   { key: 'created_at', label: 'Date Added' },
   { key: 'updated_at', label: 'Last Read' }
 ]
@@ -51,6 +57,19 @@ interface LibraryViewProps {
   onCreateCategory: (data: { name: string; color?: string }) => Promise<Category>
   onImportFile: (filePath: string) => Promise<unknown>
   onImportDialog: () => void
+  onImportCalibre: () => void
+}
+
+function seriesLabel(book: Book): string | null {
+  if (!book.series) return null
+  return book.series_index != null ? `${book.series} #${book.series_index}` : book.series
+}
+
+function timeLeftLabel(timeLeft: TimeLeft): string {
+  const book = `${formatMinutes(timeLeft.bookMinutes)} left`
+  return timeLeft.chapterMinutes !== null
+    ? `${formatMinutes(timeLeft.chapterMinutes)} in chapter · ${book}`
+    : book
 }
 
 export function LibraryView({
@@ -62,7 +81,8 @@ export function LibraryView({
   onUpdateBook,
   onCreateCategory,
   onImportFile,
-  onImportDialog
+  onImportDialog,
+  onImportCalibre
 }: LibraryViewProps): JSX.Element {
   const [viewMode, setViewMode] = useState<ViewMode>('grid')
   const [sortKey, setSortKey] = useState<SortKey>('created_at')
@@ -71,8 +91,18 @@ export function LibraryView({
   const [rejectedDrop, setRejectedDrop] = useState(false)
   const [confirmDelete, setConfirmDelete] = useState<string | null>(null)
   const [editingBook, setEditingBook] = useState<Book | null>(null)
+  const [audiobookBook, setAudiobookBook] = useState<Book | null>(null)
+  const [timeLeft, setTimeLeft] = useState<Record<string, TimeLeft>>({})
   const dropRef = useRef<HTMLDivElement>(null)
 
+  // Reading time left per book, from saved positions and the user's reading speed
+  useEffect(() => {
+    window.api.estimates
+      .timeLeft()
+      .then((result) => setTimeLeft(result as Record<string, TimeLeft>))
+      .catch((err) => console.error('Failed to load time-left estimates:', err))
+  }, [books])
+
   const sortedBooks = useMemo(() => {
     return [...books].sort((a, b) => {
       let cmp = 0
@@ -84,6 +114,8 @@ export function LibraryView({
       else if (typeof av === 'string' && typeof bv === 'string') {
         cmp = av.localeCompare(bv, undefined, { sensitivity: 'base' })
       }
+      // Books in the same series follow their series order
+      if (cmp === 0 && sortKey === 'series') cmp = (a.series_index ?? 0) - (b.series_index ?? 0)
       return sortDir === 'asc' ? cmp : -cmp
     })
   }, [books, sortKey, sortDir])
@@ -94,7 +126,7 @@ export function LibraryView({
         setSortDir((d) => (d === 'asc' ? 'desc' : 'asc'))
       } else {
         setSortKey(key)
-        setSortDir(key === 'title' || key === 'author' ? 'asc' : 'desc')
+        setSortDir(key === 'title' || key === 'author' || key === 'series' ? 'asc' : 'desc')
       }
     },
     [sortKey]
@@ -114,6 +146,11 @@ export function LibraryView({
     [confirmDelete, onDeleteBook]
   )
 
+  // Read aloud after whatever is playing, starting where listening last stopped
+  const handleQueueListening = useCallback((book: Book) => {
+    window.ttsApi.addToQueue(book.id)
+  }, [])
+
   // Drag and drop handlers
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -137,15 +174,15 @@ export function LibraryView({
       setIsDragging(false)
 
       const files = Array.from(e.dataTransfer.files)
-      const epubFiles = files.filter((f) => f.name.toLowerCase().endsWith('.epub'))
+      const bookFiles = files.filter((f) => isBookFile(f.name))
 
-      if (files.length > 0 && epubFiles.length === 0) {
+      if (files.length > 0 && bookFiles.length === 0) {
         setRejectedDrop(true)
         setTimeout(() => setRejectedDrop(false), 3000)
         return
       }
 
-      for (const file of epubFiles) {
+      for (const file of bookFiles) {
         const filePath = (file as unknown as { path: string }).path
         if (filePath) {
           await onImportFile(filePath)
@@ -200,7 +237,7 @@ export function LibraryView({
                 <Upload className="h-7 w-7 text-sidebar-gold" />
               </motion.div>
               <p className="font-display text-xl italic text-foreground">Drop to add to your library</p>
-              <p className="text-ui-xs text-muted-foreground mt-1">EPUB files only</p>
+              <p className="text-ui-xs text-muted-foreground mt-1">EPUB and PDF files</p>
             </motion.div>
             <div className="absolute inset-3 rounded-xl border-2 border-dashed border-sidebar-gold/40 pointer-events-none" />
           </motion.div>
@@ -216,7 +253,7 @@ export function LibraryView({
             exit={{ opacity: 0, y: -12, scale: 0.95 }}
             className="absolute top-4 left-1/2 -translate-x-1/2 z-50 px-5 py-2.5 rounded-lg bg-red-500/95 text-white text-ui-sm font-medium shadow-lg backdrop-blur-sm"
           >
-            Only .epub files are supported
+            Only .epub and .pdf files are supported
           </motion.div>
         )}
       </AnimatePresence>
@@ -230,6 +267,14 @@ export function LibraryView({
             </p>
 
             <div className="flex items-center gap-3">
+              <button
+                onClick={onImportCalibre}
+                className="flex items-center gap-1.5 text-ui-sm text-muted-foreground hover:text-foreground transition-colors px-2.5 py-1.5 rounded-lg hover:bg-muted/50"
+              >
+                <Library className="h-3.5 w-3.5" />
+                From Calibre
+              </button>
+
               {/* Sort dropdown */}
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -300,7 +345,7 @@ export function LibraryView({
               />
             </motion.div>
           ) : books.length === 0 ? (
-            <LibraryEmptyState onImportDialog={onImportDialog} />
+            <LibraryEmptyState onImportDialog={onImportDialog} onImportCalibre={onImportCalibre} />
           ) : viewMode === 'grid' ? (
             <GridView
               key="grid"
@@ -308,6 +353,9 @@ export function LibraryView({
               onOpenBook={onOpenBook}
               onDeleteBook={handleDelete}
               onEditBook={setEditingBook}
+              onExportAudiobook={setAudiobookBook}
+              onQueueListening={handleQueueListening}
+              timeLeft={timeLeft}
               confirmDelete={confirmDelete}
               getCategoryForBook={getCategoryForBook}
             />
@@ -318,6 +366,9 @@ export function LibraryView({
               onOpenBook={onOpenBook}
               onDeleteBook={handleDelete}
               onEditBook={setEditingBook}
+              onExportAudiobook={setAudiobookBook}
+              onQueueListening={handleQueueListening}
+              timeLeft={timeLeft}
               confirmDelete={confirmDelete}
               getCategoryForBook={getCategoryForBook}
             />
@@ -338,6 +389,8 @@ export function LibraryView({
           onClose={() => setEditingBook(null)}
         />
       )}
+
+      {audiobookBook && <AudiobookExportDialog book={audiobookBook} onClose={() => setAudiobookBook(null)} />}
     </div>
   )
 }
@@ -349,6 +402,9 @@ function GridView({
   onOpenBook,
   onDeleteBook,
   onEditBook,
+  onExportAudiobook,
+  onQueueListening,
+  timeLeft,
   confirmDelete,
   getCategoryForBook
 }: {
@@ -356,6 +412,9 @@ function GridView({
   onOpenBook: (book: Book) => void
   onDeleteBook: (bookId: string) => void
   onEditBook: (book: Book) => void
+  onExportAudiobook: (book: Book) => void
+  onQueueListening: (book: Book) => void
+  timeLeft: Record<string, TimeLeft>
   confirmDelete: string | null
   getCategoryForBook: (book: Book) => Category | undefined
 }): JSX.Element {
@@ -401,6 +460,12 @@ function GridView({
                     {category.name}
                   </span>
                 )}
+                {/* Format badge */}
+                {book.format === 'pdf' && (
+                  <span className="absolute bottom-2 right-2 px-1.5 py-0.5 rounded text-[10px] font-mono font-medium uppercase tracking-wider bg-black/50 text-white/90 backdrop-blur-sm">
+                    PDF
+                  </span>
+                )}
                 {/* Hover info overlay */}
                 <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-black/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-end p-3">
                   <div className="text-white/90">
@@ -420,6 +485,18 @@ function GridView({
               {book.author && (
                 <p className="text-ui-sm italic text-muted-foreground truncate">{book.author}</p>
               )}
+              {book.series && (
+                <p className="text-ui-xs text-muted-foreground/70 truncate">{seriesLabel(book)}</p>
+              )}
+              {timeLeft[book.id] && (
+                <p
+                  className="flex items-center gap-1 text-ui-xs text-muted-foreground/70 truncate"
+                  title={`At ${timeLeft[book.id].wpm} words/min`}
+                >
+                  <Clock className="h-3 w-3 shrink-0" />
+                  <span className="truncate">{timeLeftLabel(timeLeft[book.id])}</span>
+                </p>
+              )}
             </button>
 
             {/* Action buttons — frosted glass */}
@@ -434,6 +511,30 @@ function GridView({
               >
                 <Pencil className="h-3.5 w-3.5" />
               </button>
+              {book.format !== 'pdf' && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onExportAudiobook(book)
+                  }}
+                  className="p-1.5 rounded-md transition-all duration-200 opacity-0 scale-90 group-hover:opacity-100 group-hover:scale-100 backdrop-blur-md bg-background/80 border border-border/50 text-muted-foreground hover:text-primary"
+                  title="Export audiobook"
+                >
+                  <Headphones className="h-3.5 w-3.5" />
+                </button>
+              )}
+              {book.format !== 'pdf' && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onQueueListening(book)
+                  }}
+                  className="p-1.5 rounded-md transition-all duration-200 opacity-0 scale-90 group-hover:opacity-100 group-hover:scale-100 backdrop-blur-md bg-background/80 border border-border/50 text-muted-foreground hover:text-primary"
+                  title="Add to listening queue"
+                >
+                  <ListPlus className="h-3.5 w-3.5" />
+                </button>
+              )}
               <button
                 onClick={(e) => {
                   e.stopPropagation()
@@ -464,6 +565,9 @@ function ListView({
   onOpenBook,
   onDeleteBook,
   onEditBook,
+  onExportAudiobook,
+  onQueueListening,
+  timeLeft,
   confirmDelete,
   getCategoryForBook
 }: {
@@ -471,6 +575,9 @@ function ListView({
   onOpenBook: (book: Book) => void
   onDeleteBook: (bookId: string) => void
   onEditBook: (book: Book) => void
+  onExportAudiobook: (book: Book) => void
+  onQueueListening: (book: Book) => void
+  timeLeft: Record<string, TimeLeft>
   confirmDelete: string | null
   getCategoryForBook: (book: Book) => Category | undefined
 }): JSX.Element {
@@ -522,6 +629,22 @@ function ListView({
                   <p className="text-ui-sm italic text-muted-foreground truncate">
                     {book.author || 'Unknown author'}
                   </p>
+                  {book.series && (
+                    <span className="text-ui-xs text-muted-foreground/70 truncate shrink-0">{seriesLabel(book)}</span>
+                  )}
+                  {book.format === 'pdf' && (
+                    <span className="px-1.5 py-0.5 rounded text-[10px] font-mono font-medium uppercase tracking-wider bg-muted text-muted-foreground shrink-0">
+                      PDF
+                    </span>
+                  )}
+                  {book.original_missing_at && (
+                    <span
+                      className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-500/10 text-amber-600 dark:text-amber-400 shrink-0"
+                      title={`${book.original_path ?? 'The original file'} was moved or deleted. FlareRead keeps its own copy.`}
+                    >
+                      Source missing
+                    </span>
+                  )}
                   {/* Category tag */}
                   {category && category.id !== 'uncategorized' && (
                     <span
@@ -534,6 +657,17 @@ function ListView({
                 </div>
               </div>
 
+              {/* Time left */}
+              {timeLeft[book.id] && (
+                <span
+                  className="text-xs text-muted-foreground shrink-0 hidden md:flex items-center gap-1 tabular-nums"
+                  title={`At ${timeLeft[book.id].wpm} words/min`}
+                >
+                  <Clock className="h-3 w-3" />
+                  {timeLeftLabel(timeLeft[book.id])}
+                </span>
+              )}
+
               {/* Date */}
               <span className="text-xs font-mono text-muted-foreground shrink-0 hidden sm:block tabular-nums">
                 {new Date(book.created_at).toLocaleDateString(undefined, {
@@ -553,6 +687,28 @@ function ListView({
               <Pencil className="h-3.5 w-3.5" />
             </button>
 
+            {/* Audiobook button */}
+            {book.format !== 'pdf' && (
+              <button
+                onClick={() => onExportAudiobook(book)}
+                className="p-1.5 rounded-md transition-all shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-primary hover:bg-primary/10"
+                title="Export audiobook"
+              >
+                <Headphones className="h-3.5 w-3.5" />
+              </button>
+            )}
+
+            {/* Listening queue button */}
+            {book.format !== 'pdf' && (
+              <button
+                onClick={() => onQueueListening(book)}
+                className="p-1.5 rounded-md transition-all shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-primary hover:bg-primary/10"
+                title="Add to listening queue"
+              >
+                <ListPlus className="h-3.5 w-3.5" />
+              </button>
+            )}
+
             {/* Delete button */}
             <button
               onClick={() => onDeleteBook(book.id)}
@@ -638,7 +794,13 @@ function BookEditDialog({
 
 // ─── Empty State ─────────────────────────────────────────
 
-function LibraryEmptyState({ onImportDialog }: { onImportDialog: () => void }): JSX.Element {
+function LibraryEmptyState({
+  onImportDialog,
+  onImportCalibre
+}: {
+  onImportDialog: () => void
+  onImportCalibre: () => void
+}): JSX.Element {
   return (
     <motion.div
       key="empty"
@@ -653,7 +815,7 @@ function LibraryEmptyState({ onImportDialog }: { onImportDialog: () => void }):
       </div>
       <h2 className="font-display text-2xl text-foreground mb-2">Your library is empty</h2>
       <p className="text-ui-sm text-muted-foreground mb-8 max-w-xs">
-        Import an EPUB file or drag and drop to get started
+        Import an EPUB or PDF file, or drag and drop to get started
       </p>
       {/* Import zone */}
       <button
@@ -669,7 +831,13 @@ function LibraryEmptyState({ onImportDialog }: { onImportDialog: () => void }):
         <div className="w-10 h-10 rounded-xl bg-sidebar-gold/10 flex items-center justify-center group-hover:bg-sidebar-gold/15 transition-colors">
           <FilePlus className="h-5 w-5 text-sidebar-gold group-hover:scale-110 transition-transform duration-300" />
         </div>
-        <span className="font-body text-ui-sm font-medium text-sidebar-gold">Import EPUB</span>
+        <span className="font-body text-ui-sm font-medium text-sidebar-gold">Import Book</span>
+      </button>
+      <button
+        onClick={onImportCalibre}
+        className="mt-4 text-ui-sm text-muted-foreground hover:text-foreground underline-offset-4 hover:underline transition-colors"
+      >
+        or import a Calibre library
       </button>
     </motion.div>
   )
@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { cn } from '@/lib/utils'
+import { Book, Category } from '@/types'
+import { EXPORT_FORMATS, type ExportFormatId, type ExportScope } from '@shared/annotations'
+
+interface ExportAnnotationsDialogProps {
+  categories: Category[]
+  /** Preselect a single book */
+  bookId?: string | null
+  onClose: () => void
+}
+
+type ScopeKind = 'all' | 'book' | 'category'
+
+const SELECT_CLASS =
+  'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring'
+
+export function ExportAnnotationsDialog({ categories, bookId, onClose }: ExportAnnotationsDialogProps): JSX.Element {
+  const [books, setBooks] = useState<Book[]>([])
+  const [format, setFormat] = useState<ExportFormatId>('obsidian')
+  const [scopeKind, setScopeKind] = useState<ScopeKind>(bookId ? 'book' : 'all')
+  const [selectedBookId, setSelectedBookId] = useState(bookId ?? '')
+  const [categoryId, setCategoryId] = useState(categories[0]?.id ?? '')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.api.books.getAll().then((all) => {
+      const list = (all as Book[]).sort((a, b) => a.title.localeCompare(b.title))
+      setBooks(list)
+      setSelectedBookId((current) => current || list[0]?.id || '')
+    })
+  }, [])
+
+  const handleExport = useCallback(async () => {
+    const scope: ExportScope = {
+      bookId: scopeKind === 'book' ? selectedBookId : null,
+      categoryId: scopeKind === 'category' ? categoryId : null,
+      from: from || null,
+      to: to || null
+    }
+    setExporting(true)
+    setError(null)
+    const result = (await window.appApi.exportAnnotations(format, scope)) as
+      | { success: true }
+      | { success: false; error: string }
+    setExporting(false)
+    if (result.success) onClose()
+    else if (result.error !== 'Cancelled') setError(result.error)
+  }, [format, scopeKind, selectedBookId, categoryId, from, to, onClose])
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Annotations</DialogTitle>
+          <DialogDescription>Save highlights and notes for another app</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Format */}
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Format</label>
+            <div className="grid grid-cols-2 gap-1.5">
+              {Object.values(EXPORT_FORMATS).map((f) => (
+                <button
+                  key={f.id}
+                  onClick={() => setFormat(f.id)}
+                  className={cn(
+                    'px-3 py-2 rounded-lg border text-ui-sm text-left transition-all',
+                    format === f.id
+                      ? 'border-primary/40 bg-primary/[0.06] text-primary'
+                      : 'border-border/50 text-muted-foreground hover:text-foreground hover:border-border'
+                  )}
+                >
+                  {f.label}
+                  {f.perBook && <span className="block text-xs opacity-60">One file per book</span>}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Scope */}
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Include</label>
+            <select
+              value={scopeKind}
+              onChange={(e) => setScopeKind(e.target.value as ScopeKind)}
+              className={SELECT_CLASS}
+            >
+              <option value="all">All books</option>
+              <option value="book">One book</option>
+              {categories.length > 0 && <option value="category">One category</option>}
+            </select>
+          </div>
+
+          {scopeKind === 'book' && (
+            <select value={selectedBookId} onChange={(e) => setSelectedBookId(e.target.value)} className={SELECT_CLASS}>
+              {books.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.title}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {scopeKind === 'category' && (
+            <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={SELECT_CLASS}>
+              {categories.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {/* Date range */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">From (optional)</label>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">To (optional)</label>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting}>
+            {exporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,253 @@
+import { useState, useEffect, useCallback } from 'react'
+import { FileText, FolderSearch, RotateCw, X } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Book, ClippingImportReport, QueuedClipping } from '@/types'
+
+interface ImportClippingsDialogProps {
+  onClose: () => void
+  /** Called whenever highlights were added, so the caller can reload */
+  onImported: () => void
+}
+
+type ImportResult = { success: true; report: ClippingImportReport } | { success: false; error: string }
+type AssignResult = { success: true; duplicate: boolean } | { success: false; error: string }
+
+const SELECT_CLASS =
+  'flex h-8 min-w-0 flex-1 rounded-md border border-input bg-transparent px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring'
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`
+}
+
+function QueueItem({
+  item,
+  books,
+  onAssign,
+  onDismiss
+}: {
+  item: QueuedClipping
+  books: Book[]
+  onAssign: (id: string, bookId: string) => Promise<string | null>
+  onDismiss: (id: string) => void
+}): JSX.Element {
+  const [bookId, setBookId] = useState(item.book_id ?? '')
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const handleAssign = async (): Promise<void> => {
+    if (!bookId) return
+    setBusy(true)
+    setError(await onAssign(item.id, bookId))
+    setBusy(false)
+  }
+
+  return (
+    <li className="rounded-lg border border-border/50 p-3 space-y-2">
+      <div className="flex items-start gap-2">
+        <div className="flex-1 min-w-0">
+          <p className="text-ui-xs text-muted-foreground truncate">
+            {item.book_title}
+            {item.book_author && ` — ${item.book_author}`}
+            {item.location && ` · ${item.location}`}
+          </p>
+          <p className="text-ui-sm text-foreground/90 line-clamp-3 mt-0.5">{item.text}</p>
+          <p className="text-xs text-muted-foreground/70 mt-1">
+            {error ??
+              (item.reason === 'no_book'
+                ? 'No matching book in your library'
+                : `Passage not found in “${item.matched_title ?? 'the matched book'}”`)}
+          </p>
+        </div>
+        <button
+          onClick={() => onDismiss(item.id)}
+          className="p-1 rounded text-muted-foreground/60 hover:text-foreground hover:bg-accent transition-colors"
+          title="Discard clipping"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      <div className="flex items-center gap-2">
+        <select value={bookId} onChange={(e) => setBookId(e.target.value)} className={SELECT_CLASS}>
+          <option value="">Choose a book…</option>
+          {books.map((b) => (
+            <option key={b.id} value={b.id}>
+              {b.title}
+            </option>
+          ))}
+        </select>
+        <Button size="sm" variant="outline" className="h-8" onClick={handleAssign} disabled={!bookId || busy}>
+          {busy ? 'Placing...' : 'Place'}
+        </Button>
+      </div>
+    </li>
+  )
+}
+
+export function ImportClippingsDialog({ onClose, onImported }: ImportClippingsDialogProps): JSX.Element {
+  const [books, setBooks] = useState<Book[]>([])
+  const [queue, setQueue] = useState<QueuedClipping[]>([])
+  const [report, setReport] = useState<ClippingImportReport | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const loadQueue = useCallback(async () => {
+    setQueue((await window.api.clippings.getQueue()) as QueuedClipping[])
+  }, [])
+
+  useEffect(() => {
+    window.api.books.getAll().then((all) => {
+      setBooks((all as Book[]).sort((a, b) => a.title.localeCompare(b.title)))
+    })
+    loadQueue()
+  }, [loadQueue])
+
+  const handleImport = useCallback(
+    async (pick: 'files' | 'folder') => {
+      setBusy(true)
+      setMessage(null)
+      const result = (await window.appApi.importClippings(pick)) as ImportResult
+      setBusy(false)
+      if (!result.success) {
+        if (result.error !== 'Cancelled') setMessage(result.error)
+        return
+      }
+      setReport(result.report)
+      if (result.report.imported > 0) onImported()
+      loadQueue()
+    },
+    [onImported, loadQueue]
+  )
+
+  const handleRetry = useCallback(async () => {
+    setBusy(true)
+    const result = (await window.api.clippings.retry()) as { imported: number; duplicates: number; remaining: number }
+    setBusy(false)
+    setMessage(
+      result.imported > 0
+        ? `Placed ${plural(result.imported, 'highlight')}; ${result.remaining} still waiting`
+        : 'No more clippings could be placed'
+    )
+    if (result.imported > 0) onImported()
+    loadQueue()
+  }, [onImported, loadQueue])
+
+  const handleAssign = useCallback(
+    async (id: string, bookId: string): Promise<string | null> => {
+      const result = (await window.api.clippings.assign(id, bookId)) as AssignResult
+      if (!result.success) {
+        loadQueue()
+        return result.error
+      }
+      setQueue((prev) => prev.filter((q) => q.id !== id))
+      if (!result.duplicate) onImported()
+      return null
+    },
+    [onImported, loadQueue]
+  )
+
+  const handleDismiss = useCallback(async (id: string) => {
+    await window.api.clippings.dismiss(id)
+    setQueue((prev) => prev.filter((q) => q.id !== id))
+  }, [])
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Highlights</DialogTitle>
+          <DialogDescription>Bring in highlights from a Kindle or KOReader device</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => handleImport('files')}
+              disabled={busy}
+              className="flex items-start gap-2.5 px-3 py-2.5 rounded-lg border border-border/50 text-left hover:border-border hover:bg-accent/50 transition-all disabled:opacity-50"
+            >
+              <FileText className="h-4 w-4 mt-0.5 text-muted-foreground" />
+              <span className="text-ui-sm">
+                Choose files
+                <span className="block text-xs text-muted-foreground">My Clippings.txt or metadata.*.lua</span>
+              </span>
+            </button>
+            <button
+              onClick={() => handleImport('folder')}
+              disabled={busy}
+              className="flex items-start gap-2.5 px-3 py-2.5 rounded-lg border border-border/50 text-left hover:border-border hover:bg-accent/50 transition-all disabled:opacity-50"
+            >
+              <FolderSearch className="h-4 w-4 mt-0.5 text-muted-foreground" />
+              <span className="text-ui-sm">
+                Scan a folder
+                <span className="block text-xs text-muted-foreground">A mounted e-reader or its backup</span>
+              </span>
+            </button>
+          </div>
+
+          {busy && <p className="text-xs text-muted-foreground">Searching books for your highlights...</p>}
+
+          {report && (
+            <div className="rounded-lg bg-muted/40 px-3 py-2.5 text-ui-sm space-y-0.5">
+              <p>
+                Imported {plural(report.imported, 'highlight')}
+                {report.notes > 0 && ` with ${plural(report.notes, 'note')}`} from {plural(report.files, 'file')}.
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {report.duplicates} already in FlareRead · {report.queued} need review · {report.skipped} bookmarks
+                or replaced entries skipped
+              </p>
+              {report.errors.map((err) => (
+                <p key={err} className="text-xs text-destructive">
+                  {err}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {message && <p className="text-xs text-muted-foreground">{message}</p>}
+
+          {queue.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-ui-sm font-medium">Needs review ({queue.length})</h3>
+                <button
+                  onClick={handleRetry}
+                  disabled={busy}
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <RotateCw className="h-3 w-3" />
+                  Retry all
+                </button>
+              </div>
+              <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
+                {queue.map((item) => (
+                  <QueueItem
+                    key={item.id}
+                    item={item}
+                    books={books}
+                    onAssign={handleAssign}
+                    onDismiss={handleDismiss}
+                  />
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,7 +1,10 @@
 import { useState, useEffect, useCallback } from 'react'
 import { motion } from 'framer-motion'
-import { Search, StickyNote, Trash2 } from 'lucide-react'
+import { Search, StickyNote, Trash2, Download, Upload } from 'lucide-react'
 import { NoteWithContext, HIGHLIGHT_COLORS } from '@/types'
+import { useCategories } from '@/hooks/useCategories'
+import { ExportAnnotationsDialog } from './ExportAnnotationsDialog'
+import { ImportClippingsDialog } from './ImportClippingsDialog'
 
 interface NotesViewProps {
   onOpenBook?: (bookId: string) => void
@@ -12,6 +15,9 @@ export function NotesView({ onOpenBook }: NotesViewProps) {
   const [loading, setLoading] = useState(true)
   const [filterTag, setFilterTag] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
+  const [showExport, setShowExport] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const { categories } = useCategories()
 
   const loadNotes = useCallback(async () => {
     setLoading(true)
@@ -24,6 +30,11 @@ export function NotesView({ onOpenBook }: NotesViewProps) {
     loadNotes()
   }, [loadNotes])
 
+  // Reload without the spinner so open dialogs stay mounted
+  const refreshNotes = useCallback(async () => {
+    setNotes((await window.api.notes.getAll()) as NoteWithContext[])
+  }, [])
+
   // Collect all tags
   const allTags = Array.from(
     new Set(
@@ -90,15 +101,31 @@ export function NotesView({ onOpenBook }: NotesViewProps) {
     <div className="flex-1 flex flex-col overflow-hidden">
       {/* Search and filters */}
       <div className="px-6 py-4 border-b border-border/50 space-y-3">
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground/50" />
-          <input
-            type="text"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search notes and highlights..."
-            className="w-full pl-9 pr-3 py-2.5 text-ui-sm border border-border/50 rounded-xl bg-background text-foreground placeholder:text-muted-foreground/50 focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary/30 transition-all"
-          />
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground/50" />
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search notes and highlights..."
+              className="w-full pl-9 pr-3 py-2.5 text-ui-sm border border-border/50 rounded-xl bg-background text-foreground placeholder:text-muted-foreground/50 focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary/30 transition-all"
+            />
+          </div>
+          <button
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-1.5 px-3 py-2.5 text-ui-sm font-medium rounded-xl border border-border/50 text-muted-foreground hover:text-foreground hover:bg-accent transition-all"
+          >
+            <Upload className="h-4 w-4" />
+            Import
+          </button>
+          <button
+            onClick={() => setShowExport(true)}
+            className="flex items-center gap-1.5 px-3 py-2.5 text-ui-sm font-medium rounded-xl border border-border/50 text-muted-foreground hover:text-foreground hover:bg-accent transition-all"
+          >
+            <Download className="h-4 w-4" />
+            Export
+          </button>
         </div>
         {allTags.length > 0 && (
           <div className="flex flex-wrap gap-1.5">
@@ -244,6 +271,11 @@ export function NotesView({ onOpenBook }: NotesViewProps) {
         {filteredNotes.length} note{filteredNotes.length !== 1 ? 's' : ''} across{' '}
         {bookGroups.size} book{bookGroups.size !== 1 ? 's' : ''}
       </div>
+
+      {showExport && (
+        <ExportAnnotationsDialog categories={categories} onClose={() => setShowExport(false)} />
+      )}
+      {showImport && <ImportClippingsDialog onClose={() => setShowImport(false)} onImported={refreshNotes} />}
     </div>
   )
 }
@@ -1,6 +1,6 @@
 import { useState, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Highlight, Note, HIGHLIGHT_COLORS } from '@/types'
+import { Bookmark, Highlight, Note, VocabularyWord, HIGHLIGHT_COLORS } from '@/types'
 
 interface AnnotationsSidebarProps {
   isOpen: boolean
@@ -15,6 +15,13 @@ interface AnnotationsSidebarProps {
   onDeleteHighlight: (id: string) => void
   onExport: () => void
   getNotesForHighlight: (highlightId: string) => Note[]
+  /** Readers without bookmarks (PDF) leave these out */
+  bookmarks?: Bookmark[]
+  onRenameBookmark?: (id: string, label: string | null) => void
+  onDeleteBookmark?: (id: string) => void
+  /** Words saved from the lookup panel */
+  vocabulary?: VocabularyWord[]
+  onDeleteVocabulary?: (id: string) => void
 }
 
 export function AnnotationsSidebar({
@@ -29,7 +36,12 @@ export function AnnotationsSidebar({
   onUpdateHighlight,
   onDeleteHighlight,
   onExport,
-  getNotesForHighlight
+  getNotesForHighlight,
+  bookmarks = [],
+  onRenameBookmark,
+  onDeleteBookmark,
+  vocabulary = [],
+  onDeleteVocabulary
 }: AnnotationsSidebarProps) {
   const [filterTag, setFilterTag] = useState<string | null>(null)
   const [editingNoteId, setEditingNoteId] = useState<string | null>(null)
@@ -57,6 +69,10 @@ export function AnnotationsSidebar({
       })
     : highlights
 
+  // Bookmarks carry no notes, so a tag filter hides them
+  const visibleBookmarks = filterTag ? [] : bookmarks
+  const visibleVocabulary = filterTag ? [] : vocabulary
+
   const handleStartAddNote = useCallback((highlightId: string) => {
     setAddingNoteForHighlight(highlightId)
     setNewNoteContent('')
@@ -191,7 +207,38 @@ export function AnnotationsSidebar({
 
             {/* Content */}
             <div className="flex-1 overflow-y-auto">
-              {filteredHighlights.length === 0 ? (
+              {visibleBookmarks.length > 0 && (
+                <div className="border-b border-border/50 py-2">
+                  <p className="px-4 pb-1 text-xs text-muted-foreground/60 uppercase tracking-wider font-medium">
+                    Bookmarks
+                  </p>
+                  {visibleBookmarks.map((bookmark) => (
+                    <BookmarkRow
+                      key={bookmark.id}
+                      bookmark={bookmark}
+                      onNavigate={() => onNavigateToCfi(bookmark.cfi)}
+                      onRename={(label) => onRenameBookmark?.(bookmark.id, label)}
+                      onDelete={() => onDeleteBookmark?.(bookmark.id)}
+                    />
+                  ))}
+                </div>
+              )}
+              {visibleVocabulary.length > 0 && (
+                <div className="border-b border-border/50 py-2">
+                  <p className="px-4 pb-1 text-xs text-muted-foreground/60 uppercase tracking-wider font-medium">
+                    Vocabulary
+                  </p>
+                  {visibleVocabulary.map((word) => (
+                    <VocabularyRow
+                      key={word.id}
+                      word={word}
+                      onNavigate={word.cfi_range ? () => onNavigateToCfi(word.cfi_range!) : undefined}
+                      onDelete={() => onDeleteVocabulary?.(word.id)}
+                    />
+                  ))}
+                </div>
+              )}
+              {filteredHighlights.length === 0 && visibleBookmarks.length === 0 && visibleVocabulary.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-full text-center px-6">
                   <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" className="text-muted-foreground/30 mb-3">
                     <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"/><path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"/>
@@ -199,7 +246,7 @@ export function AnnotationsSidebar({
                   <p className="text-sm text-muted-foreground">No annotations yet</p>
                   <p className="text-xs text-muted-foreground/60 mt-1">Select text to highlight</p>
                 </div>
-              ) : (
+              ) : filteredHighlights.length > 0 && (
                 <div className="divide-y divide-border/50">
                   {filteredHighlights.map((highlight) => {
                     const relatedNotes = getNotesForHighlight(highlight.id)
@@ -243,6 +290,16 @@ export function AnnotationsSidebar({
             <div className="px-4 py-2 border-t border-border text-xs text-muted-foreground shrink-0">
               {highlights.length} highlight{highlights.length !== 1 ? 's' : ''} &middot;{' '}
               {notes.length} note{notes.length !== 1 ? 's' : ''}
+              {bookmarks.length > 0 && (
+                <>
+                  {' '}&middot; {bookmarks.length} bookmark{bookmarks.length !== 1 ? 's' : ''}
+                </>
+              )}
+              {vocabulary.length > 0 && (
+                <>
+                  {' '}&middot; {vocabulary.length} word{vocabulary.length !== 1 ? 's' : ''}
+                </>
+              )}
             </div>
           </motion.aside>
         </>
@@ -251,6 +308,108 @@ export function AnnotationsSidebar({
   )
 }
 
+// ─── Bookmark Row ───────────────────────────────────
+
+interface BookmarkRowProps {
+  bookmark: Bookmark
+  onNavigate: () => void
+  onRename: (label: string | null) => void
+  onDelete: () => void
+}
+
+function BookmarkRow({ bookmark, onNavigate, onRename, onDelete }: BookmarkRowProps) {
+  const [editing, setEditing] = useState(false)
+  const [label, setLabel] = useState('')
+
+  const startEdit = (): void => {
+    setLabel(bookmark.label ?? '')
+    setEditing(true)
+  }
+
+  const save = (): void => {
+    onRename(label.trim() || null)
+    setEditing(false)
+  }
+
+  return (
+    <div className="group px-4 py-1.5 hover:bg-accent/50 transition-colors">
+      {editing ? (
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') { e.preventDefault(); save() }
+              if (e.key === 'Escape') { e.stopPropagation(); setEditing(false) }
+            }}
+            placeholder={bookmark.chapter || 'Bookmark name...'}
+            className="flex-1 min-w-0 text-xs px-2 py-0.5 border border-border rounded-md bg-card text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+            autoFocus
+          />
+          <button onClick={save} className="text-xs px-1.5 py-0.5 bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors">Save</button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="currentColor" className="text-primary shrink-0">
+            <path d="M19 21l-7-4-7 4V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
+          </svg>
+          <button
+            onClick={onNavigate}
+            className="flex-1 min-w-0 text-left text-sm text-foreground/80 hover:text-primary transition-colors truncate"
+            title="Jump to bookmark"
+          >
+            {bookmark.label || bookmark.chapter || 'Bookmark'}
+          </button>
+          <span className="text-xs text-muted-foreground/60 tabular-nums shrink-0">{Math.round(bookmark.percent)}%</span>
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button onClick={startEdit} className="text-xs text-muted-foreground hover:text-primary transition-colors">Rename</button>
+            <button onClick={onDelete} className="text-xs text-muted-foreground hover:text-destructive transition-colors">Delete</button>
+          </div>
+        </div>
+      )}
+      {!editing && bookmark.label && bookmark.chapter && (
+        <p className="text-xs text-muted-foreground/60 ml-5 truncate">{bookmark.chapter}</p>
+      )}
+    </div>
+  )
+}
+
+// ─── Vocabulary Row ─────────────────────────────────
+
+interface VocabularyRowProps {
+  word: VocabularyWord
+  onNavigate?: () => void
+  onDelete: () => void
+}
+
+function VocabularyRow({ word, onNavigate, onDelete }: VocabularyRowProps) {
+  return (
+    <div className="group px-4 py-1.5 hover:bg-accent/50 transition-colors">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onNavigate}
+          disabled={!onNavigate}
+          className="flex-1 min-w-0 text-left text-sm text-foreground/80 hover:text-primary disabled:hover:text-foreground/80 transition-colors truncate"
+          title={word.context ?? undefined}
+        >
+          {word.headword}
+          {word.word.toLowerCase() !== word.headword.toLowerCase() && (
+            <span className="text-muted-foreground/60"> ({word.word})</span>
+          )}
+        </button>
+        <button
+          onClick={onDelete}
+          className="text-xs text-muted-foreground hover:text-destructive transition-colors opacity-0 group-hover:opacity-100"
+        >
+          Delete
+        </button>
+      </div>
+      {word.definition && <p className="text-xs text-muted-foreground/80 line-clamp-2">{word.definition}</p>}
+    </div>
+  )
+}
+
 // ─── Highlight Card ─────────────────────────────────
 
 interface HighlightCardProps {
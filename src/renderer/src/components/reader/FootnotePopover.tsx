@@ -0,0 +1,90 @@
+import { ArrowLeft, ArrowUpRight, X } from 'lucide-react'
+import { FootnotePopup } from '@/types'
+
+interface FootnotePopoverProps {
+  popup: FootnotePopup | null
+  onClose: () => void
+  onBack: () => void
+  onGoToNote: () => void
+  onLink: (href: string, label: string) => void
+}
+
+const POPOVER_WIDTH = 360
+const EDGE_GAP = 12
+
+export function FootnotePopover({ popup, onClose, onBack, onGoToNote, onLink }: FootnotePopoverProps) {
+  if (!popup) return null
+  const entry = popup.entries[popup.entries.length - 1]
+
+  // Keep it on screen, and above the reference when that sits low on the page
+  const left = Math.min(
+    Math.max(popup.x - POPOVER_WIDTH / 2, EDGE_GAP),
+    window.innerWidth - POPOVER_WIDTH - EDGE_GAP
+  )
+  const above = popup.y > window.innerHeight * 0.6
+
+  // Links inside the note open the next note over this one or take the reader there
+  const handleContentClick = (e: React.MouseEvent) => {
+    const link = (e.target as Element).closest('a[href]')
+    if (!link || link.getAttribute('target') === '_blank') return
+    e.preventDefault()
+    onLink(link.getAttribute('href') ?? '', (link.textContent ?? '').trim())
+  }
+
+  return (
+    <>
+      {/* Invisible backdrop to catch outside clicks */}
+      <div className="fixed inset-0 z-[9998]" onClick={onClose} />
+
+      <div
+        role="dialog"
+        aria-label={`Nota ${entry.label}`}
+        className="fixed z-[9999] flex flex-col max-h-[50vh] bg-popover/95 backdrop-blur-xl rounded-xl shadow-lg border border-border animate-in fade-in zoom-in-95 duration-150"
+        style={{
+          left: `${left}px`,
+          top: `${popup.y}px`,
+          width: `${POPOVER_WIDTH}px`,
+          transform: above ? 'translateY(calc(-100% - 32px))' : 'translateY(8px)'
+        }}
+      >
+        <div className="flex items-center gap-1 px-2 pt-2">
+          {popup.entries.length > 1 && (
+            <button
+              onClick={onBack}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg text-ui-xs font-body text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+              title="Volver a la nota anterior"
+            >
+              <ArrowLeft className="w-3.5 h-3.5" />
+              Atrás
+            </button>
+          )}
+          <span className="flex-1 px-2 text-ui-xs font-body text-muted-foreground truncate">
+            {entry.label ? `Nota ${entry.label}` : 'Nota'}
+          </span>
+          <button
+            onClick={onGoToNote}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg text-ui-xs font-body text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+            title="Leer la nota en su sitio"
+          >
+            Ir a la nota
+            <ArrowUpRight className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+            aria-label="Cerrar nota"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        {/* Markup comes from the book, reduced to allowlisted plain HTML by noteHtml() */}
+        <div
+          className="px-4 pt-2 pb-4 overflow-y-auto font-body text-ui-sm leading-relaxed text-foreground [&_a]:text-primary [&_a]:underline [&_p]:mb-2 [&_p:last-child]:mb-0"
+          onClick={handleContentClick}
+          dangerouslySetInnerHTML={{ __html: entry.html }}
+        />
+      </div>
+    </>
+  )
+}
@@ -6,6 +6,8 @@ interface HighlightToolbarProps {
   onDismiss: () => void
   existingHighlight?: { id: string; color: string } | null
   onRemoveHighlight?: () => void
+  /** Look the selection up in the installed dictionaries */
+  onLookup?: () => void
 }
 
 export function HighlightToolbar({
@@ -13,7 +15,8 @@ export function HighlightToolbar({
   onHighlight,
   onDismiss,
   existingHighlight,
-  onRemoveHighlight
+  onRemoveHighlight,
+  onLookup
 }: HighlightToolbarProps) {
   if (!position) return null
 
@@ -45,6 +48,33 @@ export function HighlightToolbar({
           />
         ))}
 
+        {/* Dictionary lookup button */}
+        {onLookup && (
+          <>
+            <div className="w-px h-5 bg-border mx-0.5" />
+            <button
+              onClick={onLookup}
+              className="w-6 h-6 rounded-full flex items-center justify-center text-muted-foreground hover:text-foreground hover:bg-accent transition-all hover:scale-110 active:scale-95"
+              title="Buscar en el diccionario"
+              aria-label="Buscar en el diccionario"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="14"
+                height="14"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M4 19.5v-15A2.5 2.5 0 0 1 6.5 2H20v20H6.5a2.5 2.5 0 0 1 0-5H20" />
+              </svg>
+            </button>
+          </>
+        )}
+
         {/* Remove highlight button */}
         {existingHighlight && onRemoveHighlight && (
           <>
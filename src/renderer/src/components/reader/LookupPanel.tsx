@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { DictionaryKind, LookupEntry, LookupRequest, LookupResult, VocabularyWord } from '@/types'
+import { definitionHtml } from '@/lib/dictionary'
+
+interface LookupPanelProps {
+  bookId: string
+  request: LookupRequest | null
+  vocabulary: VocabularyWord[]
+  onSave: (entry: LookupEntry, result: LookupResult) => void
+  onClose: () => void
+}
+
+const TABS: { kind: DictionaryKind; label: string }[] = [
+  { kind: 'dictionary', label: 'Dictionary' },
+  { kind: 'encyclopedia', label: 'Wikipedia' },
+  { kind: 'translation', label: 'Translation' }
+]
+
+export function LookupPanel({ bookId, request, vocabulary, onSave, onClose }: LookupPanelProps) {
+  // What's looked up: the selection, or a cross-reference followed from it
+  const [query, setQuery] = useState<string | null>(null)
+  const [result, setResult] = useState<LookupResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState(false)
+  const [tab, setTab] = useState<DictionaryKind>('dictionary')
+
+  useEffect(() => {
+    setQuery(request?.text ?? null)
+  }, [request])
+
+  useEffect(() => {
+    if (!query) {
+      setResult(null)
+      return
+    }
+    let cancelled = false
+    setLoading(true)
+    setError(false)
+    window.api.dictionaries
+      .lookup(query, bookId)
+      .then((res) => {
+        if (cancelled) return
+        const lookup = res as LookupResult
+        setResult(lookup)
+        // Open on the first tab that has something
+        const first = TABS.find((t) => lookup.entries.some((e) => e.kind === t.kind))
+        if (first) setTab(first.kind)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        console.error('Dictionary lookup failed:', err)
+        setResult(null)
+        setError(true)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [query, bookId])
+
+  const tabs = TABS.filter((t) => result?.entries.some((e) => e.kind === t.kind))
+  const entries = result?.entries.filter((e) => e.kind === tab) ?? []
+  const followedReference = !!request && !!query && query !== request.text
+
+  const isSaved = (entry: LookupEntry): boolean =>
+    vocabulary.some((w) => w.headword === entry.headword && w.cfi_range === (request?.cfiRange ?? null))
+
+  const handleDefinitionClick = (e: React.MouseEvent) => {
+    const link = (e.target as Element).closest('[data-lookup]')
+    if (!link) return
+    e.preventDefault()
+    setQuery(link.getAttribute('data-lookup'))
+  }
+
+  return (
+    <AnimatePresence>
+      {request && (
+        <>
+          {/* Overlay */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed inset-0 bg-background/60 backdrop-blur-sm z-30"
+            onClick={onClose}
+          />
+
+          {/* Panel */}
+          <motion.aside
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', stiffness: 400, damping: 35 }}
+            className="fixed right-0 top-0 bottom-0 w-96 bg-card/95 backdrop-blur-xl z-40 shadow-xl flex flex-col border-l border-border"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-border shrink-0">
+              <div className="min-w-0">
+                <h2 className="font-display italic text-foreground text-sm truncate">
+                  {result?.query || query}
+                </h2>
+                {followedReference && (
+                  <button
+                    onClick={() => setQuery(request.text)}
+                    className="text-xs text-muted-foreground hover:text-primary transition-colors truncate max-w-full"
+                  >
+                    &larr; Back to &ldquo;{request.text}&rdquo;
+                  </button>
+                )}
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-md hover:bg-accent text-muted-foreground transition-colors shrink-0"
+                aria-label="Close lookup"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <line x1="18" y1="6" x2="6" y2="18" /><line x1="6" y1="6" x2="18" y2="18" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Tabs */}
+            {tabs.length > 1 && (
+              <div className="px-4 py-2 border-b border-border/50 flex gap-1">
+                {tabs.map((t) => (
+                  <button
+                    key={t.kind}
+                    onClick={() => setTab(t.kind)}
+                    className={`text-xs px-2.5 py-0.5 rounded-full transition-colors ${
+                      tab === t.kind
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-accent text-muted-foreground hover:bg-accent/80'
+                    }`}
+                  >
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto">
+              {loading && !result ? (
+                <p className="px-4 py-6 text-sm text-muted-foreground">Looking up&hellip;</p>
+              ) : error ? (
+                <div className="flex flex-col items-center justify-center h-full text-center px-6">
+                  <p className="text-sm text-muted-foreground">Could not look up &ldquo;{query}&rdquo;</p>
+                  <p className="text-xs text-muted-foreground/60 mt-1">
+                    A dictionary may be damaged; check Settings &rarr; Dictionaries
+                  </p>
+                </div>
+              ) : entries.length === 0 ? (
+                <div className="flex flex-col items-center justify-center h-full text-center px-6">
+                  <p className="text-sm text-muted-foreground">No entry for &ldquo;{result?.query || query}&rdquo;</p>
+                  <p className="text-xs text-muted-foreground/60 mt-1">
+                    Dictionaries are installed in Settings &rarr; Dictionaries
+                  </p>
+                </div>
+              ) : (
+                <div className="divide-y divide-border/50">
+                  {entries.map((entry, i) => (
+                    <article key={`${entry.dictionaryId}:${entry.headword}:${i}`} className="px-4 py-3">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <h3 className="text-sm font-medium text-foreground">{entry.headword}</h3>
+                        <button
+                          onClick={() => result && onSave(entry, result)}
+                          disabled={isSaved(entry)}
+                          className="text-xs text-muted-foreground hover:text-primary disabled:text-primary disabled:cursor-default transition-colors shrink-0"
+                        >
+                          {isSaved(entry) ? 'Saved' : 'Save to vocabulary'}
+                        </button>
+                      </div>
+                      <p className="text-xs text-muted-foreground/60 mb-1.5">
+                        {entry.dictionaryName}
+                        {entry.inflectedFrom && <> &middot; base form of &ldquo;{entry.inflectedFrom}&rdquo;</>}
+                      </p>
+                      {entry.definitions.map((definition, j) => (
+                        <div
+                          key={j}
+                          className="text-sm text-foreground/80 leading-relaxed mb-1.5 last:mb-0 [&_a]:text-primary [&_a]:underline"
+                          onClick={handleDefinitionClick}
+                          dangerouslySetInnerHTML={{ __html: definitionHtml(definition) }}
+                        />
+                      ))}
+                    </article>
+                  ))}
+                </div>
+              )}
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,705 @@
+import { useEffect, useCallback, useMemo, useRef, useState } from 'react'
+import { usePdfReader } from '@/hooks/usePdfReader'
+import { useAnnotations } from '@/hooks/useAnnotations'
+import { useStudySession } from '@/hooks/useStudySession'
+import { useTimeLeft } from '@/hooks/useTimeLeft'
+import { TocSidebar } from './TocSidebar'
+import { TopBar } from './TopBar'
+import { HighlightToolbar } from './HighlightToolbar'
+import { AnnotationsSidebar } from './AnnotationsSidebar'
+import { SessionTimer, AfkModal, BreakOverlay, MicrobreakReminder, WrapUpScreen, StartSessionDialog } from '@/components/session'
+import { formatMinutes } from '@/lib/utils'
+import { SessionStartConfig, Highlight, SearchTarget, PageLocation } from '@/types'
+
+interface PdfReaderViewProps {
+  bookId: string
+  filePath: string
+  bookTitle: string
+  /** Full-text search hit to jump to once the document has loaded */
+  searchTarget?: SearchTarget
+  onBack: () => void
+}
+
+const ZOOM_MIN = 0.5
+const ZOOM_MAX = 3
+const ZOOM_STEP = 0.1
+
+export function PdfReaderView({ bookId, filePath, bookTitle: libraryTitle, searchTarget, onBack }: PdfReaderViewProps) {
+  const [tocOpen, setTocOpen] = useState(false)
+  const [zoomOpen, setZoomOpen] = useState(false)
+  const [zoom, setZoom] = useState(1)
+  const [focusMode, setFocusMode] = useState(false)
+  const [annotationsOpen, setAnnotationsOpen] = useState(false)
+  const [toolbarPosition, setToolbarPosition] = useState<{ x: number; y: number } | null>(null)
+  const [existingHighlight, setExistingHighlight] = useState<{ id: string; color: string } | null>(null)
+  const [showResumeToast, setShowResumeToast] = useState(false)
+  const [exitConfirmation, setExitConfirmation] = useState<{ action: () => void } | null>(null)
+  const resumeToastShown = useRef(false)
+  const searchTargetApplied = useRef<SearchTarget | null>(null)
+  const selectionCfiRef = useRef<string | null>(null)
+  const selectionTextRef = useRef<string>('')
+  const highlightsRef = useRef<Highlight[]>([])
+  const wasFullscreenBeforeFocus = useRef(false)
+
+  const {
+    viewerRef,
+    onHighlightClickRef,
+    onSelectionRef,
+    toc,
+    currentChapter,
+    bookTitle: documentTitle,
+    percent,
+    currentCfi,
+    pageNumber,
+    numPages,
+    isLoading,
+    atStart,
+    atEnd,
+    didResume,
+    initBook,
+    goNext,
+    goPrev,
+    goToHref,
+    goToCfi,
+    goToSearchHit,
+    savePosition,
+    applyHighlights,
+    removeHighlightAnnotation
+  } = usePdfReader({ bookId, filePath, zoom })
+
+  const bookTitle = libraryTitle || documentTitle
+  const chapterLabel = currentChapter || (numPages > 0 ? `Page ${pageNumber}` : '')
+  // A PDF page is its own section, read from top to bottom
+  const pageLocation = useMemo<PageLocation | null>(
+    () =>
+      numPages > 0
+        ? {
+            startCfi: currentCfi,
+            endCfi: currentCfi,
+            start: { spineIndex: pageNumber - 1, fraction: 0 },
+            end: { spineIndex: pageNumber - 1, fraction: 1 }
+          }
+        : null,
+    [currentCfi, pageNumber, numPages]
+  )
+  const timeLeft = useTimeLeft(bookId, pageLocation?.start ?? null)
+
+  const {
+    highlights,
+    notes,
+    createHighlight,
+    updateHighlight,
+    deleteHighlight,
+    createNote,
+    updateNote,
+    deleteNote,
+    getNotesForHighlight
+  } = useAnnotations({ bookId })
+
+  // Keep highlights ref in sync for use in event handlers
+  highlightsRef.current = highlights
+
+  // ─── Selection → highlight toolbar ────────────────
+  onSelectionRef.current = (selection) => {
+    if (!selection) {
+      setToolbarPosition(null)
+      setExistingHighlight(null)
+      return
+    }
+    selectionCfiRef.current = selection.cfiRange
+    selectionTextRef.current = selection.text
+    setExistingHighlight(null)
+    setToolbarPosition({ x: selection.x, y: selection.y })
+  }
+
+  onHighlightClickRef.current = (highlight, e) => {
+    setExistingHighlight({ id: highlight.id, color: highlight.color })
+    selectionCfiRef.current = highlight.cfi_range
+    selectionTextRef.current = ''
+    if (e) {
+      setToolbarPosition({ x: e.clientX, y: e.clientY })
+      return
+    }
+    const viewer = viewerRef.current
+    if (viewer) {
+      const rect = viewer.getBoundingClientRect()
+      setToolbarPosition({ x: rect.left + rect.width / 2, y: rect.top + 60 })
+    }
+  }
+
+  // ─── Study Session ─────────────────────────────────
+  const {
+    session,
+    isActive: sessionActive,
+    startSession,
+    stopSession,
+    confirmPresence,
+    handleAfkTimeout,
+    skipBreak,
+    getWrapUp,
+    reportActivity,
+    reportLocation,
+    onHighlightCreated,
+    onNoteCreated,
+    microbreakTake,
+    microbreakEnd,
+    microbreakPostpone,
+    microbreakDisableToday
+  } = useStudySession()
+
+  const [showStartDialog, setShowStartDialog] = useState(false)
+  const [showWrapUp, setShowWrapUp] = useState(false)
+  const wrapUpDismissedRef = useRef(false)
+
+  // Sync focus mode with fullscreen — enter fullscreen on focus, restore on exit
+  useEffect(() => {
+    ;(async () => {
+      if (focusMode) {
+        wasFullscreenBeforeFocus.current = await window.appApi.isFullscreen()
+        if (!wasFullscreenBeforeFocus.current) {
+          window.appApi.toggleFullscreen()
+        }
+      } else {
+        const isFs = await window.appApi.isFullscreen()
+        if (isFs && !wasFullscreenBeforeFocus.current) {
+          window.appApi.toggleFullscreen()
+        }
+      }
+    })()
+  }, [focusMode])
+
+  // Track mouse/keyboard activity for AFK detection
+  useEffect(() => {
+    if (!sessionActive) return
+
+    const handleActivity = () => reportActivity()
+    window.addEventListener('mousemove', handleActivity)
+    window.addEventListener('keydown', handleActivity)
+    window.addEventListener('mousedown', handleActivity)
+    window.addEventListener('scroll', handleActivity, true)
+
+    return () => {
+      window.removeEventListener('mousemove', handleActivity)
+      window.removeEventListener('keydown', handleActivity)
+      window.removeEventListener('mousedown', handleActivity)
+      window.removeEventListener('scroll', handleActivity, true)
+    }
+  }, [sessionActive, reportActivity])
+
+  // Report page turns, also outside sessions so one started mid-page counts from there
+  useEffect(() => {
+    if (pageLocation) reportLocation(bookId, pageLocation)
+  }, [bookId, pageLocation, reportLocation])
+
+  // Show wrap-up screen when session completes (but not if user already dismissed it)
+  useEffect(() => {
+    if (session?.state === 'completed' && session.activeMs > 0 && !wrapUpDismissedRef.current) {
+      setShowWrapUp(true)
+    }
+    if (session?.state === 'running') {
+      wrapUpDismissedRef.current = false
+    }
+  }, [session?.state, session?.activeMs])
+
+  const handleStartSession = useCallback(
+    (config: SessionStartConfig) => {
+      startSession(config)
+      setShowStartDialog(false)
+    },
+    [startSession]
+  )
+
+  const handleStopSession = useCallback(async () => {
+    await stopSession()
+  }, [stopSession])
+
+  const handleWrapUpContinue = useCallback(() => {
+    wrapUpDismissedRef.current = true
+    setShowWrapUp(false)
+    setShowStartDialog(true)
+  }, [])
+
+  const handleWrapUpFinish = useCallback(() => {
+    wrapUpDismissedRef.current = true
+    setShowWrapUp(false)
+  }, [])
+
+  // ─── Position persistence ─────────────────────────
+  const lastSavedCfi = useRef('')
+
+  const saveCurrentPosition = useCallback(() => {
+    if (currentCfi && currentCfi !== lastSavedCfi.current) {
+      savePosition(currentCfi, percent, chapterLabel)
+      lastSavedCfi.current = currentCfi
+    }
+  }, [currentCfi, percent, chapterLabel, savePosition])
+
+  // Save on every page change
+  useEffect(() => {
+    if (currentCfi) saveCurrentPosition()
+  }, [currentCfi, saveCurrentPosition])
+
+  // Save on unmount
+  useEffect(() => {
+    return () => {
+      if (currentCfi) savePosition(currentCfi, percent, chapterLabel)
+    }
+  }, [currentCfi, percent, chapterLabel, savePosition])
+
+  // ─── Exit Book with Focus Mode Confirmation ───────
+  const doExitBook = useCallback(() => {
+    if (sessionActive) stopSession()
+    onBack()
+  }, [sessionActive, stopSession, onBack])
+
+  const tryExitBook = useCallback(() => {
+    saveCurrentPosition()
+    if (focusMode || sessionActive) {
+      setExitConfirmation({ action: doExitBook })
+    } else {
+      doExitBook()
+    }
+  }, [focusMode, sessionActive, saveCurrentPosition, doExitBook])
+
+  const confirmExit = useCallback(() => {
+    if (exitConfirmation) {
+      exitConfirmation.action()
+      setExitConfirmation(null)
+    }
+  }, [exitConfirmation])
+
+  // Load the document on mount
+  useEffect(() => {
+    initBook()
+  }, [initBook])
+
+  // Apply highlights when the document is ready and highlights are loaded
+  useEffect(() => {
+    if (!isLoading) applyHighlights(highlights)
+  }, [isLoading, highlights, applyHighlights])
+
+  // Jump to the search hit the book was opened from
+  useEffect(() => {
+    if (isLoading || !searchTarget || searchTargetApplied.current === searchTarget) return
+    searchTargetApplied.current = searchTarget
+    goToSearchHit(searchTarget)
+  }, [isLoading, searchTarget, goToSearchHit])
+
+  // Show "continued reading" toast when the document resumes from saved position
+  useEffect(() => {
+    if (!isLoading && didResume && !searchTarget && !resumeToastShown.current) {
+      resumeToastShown.current = true
+      setShowResumeToast(true)
+      const timer = setTimeout(() => setShowResumeToast(false), 3500)
+      return () => clearTimeout(timer)
+    }
+  }, [isLoading, didResume, searchTarget])
+
+  // ─── Highlights ───────────────────────────────────
+  const clearSelection = useCallback(() => {
+    window.getSelection()?.removeAllRanges()
+    setToolbarPosition(null)
+    setExistingHighlight(null)
+    selectionCfiRef.current = null
+    selectionTextRef.current = ''
+  }, [])
+
+  const handleHighlight = useCallback(
+    async (color: string) => {
+      if (existingHighlight) {
+        if (existingHighlight.color !== color) {
+          await updateHighlight(existingHighlight.id, { color })
+        }
+      } else if (selectionCfiRef.current && selectionTextRef.current) {
+        const duplicate = highlightsRef.current.find((h) => h.cfi_range === selectionCfiRef.current)
+        if (duplicate) {
+          if (duplicate.color !== color) await updateHighlight(duplicate.id, { color })
+        } else {
+          await createHighlight({
+            cfi_range: selectionCfiRef.current,
+            text: selectionTextRef.current,
+            color,
+            chapter: chapterLabel || undefined
+          })
+          onHighlightCreated()
+        }
+      }
+      clearSelection()
+    },
+    [existingHighlight, createHighlight, updateHighlight, chapterLabel, onHighlightCreated, clearSelection]
+  )
+
+  const handleRemoveHighlightFromToolbar = useCallback(async () => {
+    if (!existingHighlight) return
+    const highlight = highlightsRef.current.find((h) => h.id === existingHighlight.id)
+    if (highlight) removeHighlightAnnotation(highlight.cfi_range)
+    await deleteHighlight(existingHighlight.id)
+    clearSelection()
+  }, [existingHighlight, removeHighlightAnnotation, deleteHighlight, clearSelection])
+
+  const handleDeleteHighlight = useCallback(
+    async (id: string) => {
+      const highlight = highlights.find((h) => h.id === id)
+      if (highlight) removeHighlightAnnotation(highlight.cfi_range)
+      await deleteHighlight(id)
+    },
+    [highlights, removeHighlightAnnotation, deleteHighlight]
+  )
+
+  const handleNavigateToCfi = useCallback(
+    (cfi: string) => {
+      goToCfi(cfi)
+      setAnnotationsOpen(false)
+    },
+    [goToCfi]
+  )
+
+  const handleExport = useCallback(async () => {
+    await window.appApi.exportMarkdown(bookId)
+  }, [bookId])
+
+  const changeZoom = useCallback((delta: number | null) => {
+    setZoom((prev) =>
+      delta === null ? 1 : Math.min(ZOOM_MAX, Math.max(ZOOM_MIN, Math.round((prev + delta) * 10) / 10))
+    )
+  }, [])
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        e.target instanceof HTMLSelectElement
+      ) {
+        return
+      }
+
+      switch (e.key) {
+        case 'ArrowRight':
+        case 'PageDown':
+          e.preventDefault()
+          goNext()
+          break
+        case 'ArrowLeft':
+        case 'PageUp':
+          e.preventDefault()
+          goPrev()
+          break
+        case 'Escape':
+          e.preventDefault()
+          setFocusMode((prev) => !prev)
+          setTocOpen(false)
+          setZoomOpen(false)
+          setAnnotationsOpen(false)
+          break
+        case 'f':
+        case 'F':
+          if (!e.ctrlKey && !e.metaKey && !e.altKey) {
+            e.preventDefault()
+            window.appApi.toggleFullscreen()
+          }
+          break
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [goNext, goPrev])
+
+  // ─── Window close confirmation (focus mode / session) ──
+  useEffect(() => {
+    const cleanup = window.appApi.onCloseRequested(() => {
+      if (focusMode || sessionActive) {
+        setExitConfirmation({
+          action: () => {
+            if (sessionActive) stopSession()
+            saveCurrentPosition()
+            window.appApi.confirmClose()
+          }
+        })
+      } else {
+        saveCurrentPosition()
+        window.appApi.confirmClose()
+      }
+    })
+    return cleanup
+  }, [focusMode, sessionActive, stopSession, saveCurrentPosition])
+
+  // ─── Menu event handlers ──────────────────────────
+  useEffect(() => {
+    const cleanups = [
+      window.appApi.onMenuToggleFocusMode(() => setFocusMode((prev) => !prev)),
+      window.appApi.onMenuToggleSidebar(() => setTocOpen((prev) => !prev)),
+      window.appApi.onMenuCloseBook(() => tryExitBook()),
+      window.appApi.onMenuZoomIn(() => changeZoom(ZOOM_STEP)),
+      window.appApi.onMenuZoomOut(() => changeZoom(-ZOOM_STEP)),
+      window.appApi.onMenuZoomReset(() => changeZoom(null)),
+      window.appApi.onMenuStartPomodoro(() => {
+        if (!sessionActive) setShowStartDialog(true)
+      }),
+      window.appApi.onMenuEndSession(() => {
+        if (sessionActive) stopSession()
+      })
+    ]
+    return () => cleanups.forEach((fn) => fn())
+  }, [sessionActive, stopSession, tryExitBook, changeZoom])
+
+  return (
+    <div className="h-screen flex flex-col bg-reading-bg overflow-hidden">
+      {/* Top Bar */}
+      <TopBar
+        bookTitle={bookTitle}
+        currentChapter={chapterLabel}
+        percent={percent}
+        focusMode={focusMode}
+        onOpenToc={() => {
+          setTocOpen(true)
+          setZoomOpen(false)
+          setAnnotationsOpen(false)
+        }}
+        onOpenSettings={() => {
+          setZoomOpen(!zoomOpen)
+          setTocOpen(false)
+          setAnnotationsOpen(false)
+        }}
+        onOpenAnnotations={() => {
+          setAnnotationsOpen(!annotationsOpen)
+          setTocOpen(false)
+          setZoomOpen(false)
+        }}
+        onBack={tryExitBook}
+        highlightCount={highlights.length}
+        sessionSlot={
+          session && session.state !== 'completed' ? (
+            <SessionTimer session={session} compact onStop={handleStopSession} />
+          ) : (
+            <button
+              onClick={() => setShowStartDialog(true)}
+              className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border border-border text-muted-foreground hover:text-foreground hover:border-border/80 transition-colors"
+              title="Start study session"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>
+              Focus
+            </button>
+          )
+        }
+      />
+
+      {/* Zoom Panel (anchored to top bar) */}
+      <div className="relative">
+        {zoomOpen && (
+          <div className="absolute right-4 top-2 z-30 flex items-center gap-2 px-3 py-2 bg-popover rounded-lg border border-border shadow-lg animate-in fade-in slide-in-from-top-2 duration-150">
+            <button
+              onClick={() => changeZoom(-ZOOM_STEP)}
+              disabled={zoom <= ZOOM_MIN}
+              className="px-2 py-1 rounded-md text-sm hover:bg-accent disabled:opacity-30"
+              aria-label="Zoom out"
+            >
+              −
+            </button>
+            <button
+              onClick={() => changeZoom(null)}
+              className="font-mono text-ui-xs tabular-nums w-12 text-center text-muted-foreground hover:text-foreground"
+              title="Fit to width"
+            >
+              {Math.round(zoom * 100)}%
+            </button>
+            <button
+              onClick={() => changeZoom(ZOOM_STEP)}
+              disabled={zoom >= ZOOM_MAX}
+              className="px-2 py-1 rounded-md text-sm hover:bg-accent disabled:opacity-30"
+              aria-label="Zoom in"
+            >
+              +
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Main Reader Area */}
+      <div className="flex-1 relative overflow-hidden">
+        {/* Loading Overlay */}
+        {isLoading && (
+          <div className="absolute inset-0 bg-reading-bg z-20 flex items-center justify-center">
+            <div className="flex flex-col items-center gap-4">
+              <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" className="text-primary animate-pulse">
+                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" /><polyline points="14 2 14 8 20 8" />
+              </svg>
+              <p className="font-body italic text-sm text-muted-foreground">Opening your document...</p>
+            </div>
+          </div>
+        )}
+
+        {/* PDF Page Container */}
+        <div ref={viewerRef} className="h-full w-full overflow-auto px-4" />
+      </div>
+
+      {/* Bottom Navigation Bar */}
+      {!isLoading && (
+        <div className="shrink-0 bg-topbar shadow-[0_-1px_3px_rgba(0,0,0,0.05)] px-4 py-1.5 flex items-center gap-3 select-none">
+          <button
+            onClick={goPrev}
+            disabled={atStart}
+            className="p-1 rounded-md hover:bg-accent text-muted-foreground disabled:opacity-20 disabled:pointer-events-none transition-all hover:scale-110"
+            aria-label="Previous page"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="15 18 9 12 15 6" />
+            </svg>
+          </button>
+
+          <div className="flex-1 flex items-center gap-3">
+            <div className="relative flex-1 h-1 bg-border rounded-full overflow-visible">
+              <div
+                className="h-full rounded-full transition-all duration-500 bg-gradient-to-r from-primary to-sidebar-gold"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            <span className="font-mono text-ui-xs text-muted-foreground tabular-nums shrink-0 text-right">
+              {pageNumber} / {numPages}
+            </span>
+            {timeLeft && (
+              <span
+                className="font-mono text-ui-xs text-muted-foreground tabular-nums shrink-0"
+                title={`Time left at ${timeLeft.wpm} words/min${timeLeft.calibrated ? '' : ' (default speed until you have more sessions)'}`}
+              >
+                {formatMinutes(timeLeft.bookMinutes)} left
+              </span>
+            )}
+          </div>
+
+          <button
+            onClick={goNext}
+            disabled={atEnd}
+            className="p-1 rounded-md hover:bg-accent text-muted-foreground disabled:opacity-20 disabled:pointer-events-none transition-all hover:scale-110"
+            aria-label="Next page"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="9 18 15 12 9 6" />
+            </svg>
+          </button>
+        </div>
+      )}
+
+      {/* Highlight Toolbar (floating) */}
+      <HighlightToolbar
+        position={toolbarPosition}
+        onHighlight={handleHighlight}
+        onDismiss={clearSelection}
+        existingHighlight={existingHighlight}
+        onRemoveHighlight={handleRemoveHighlightFromToolbar}
+      />
+
+      {/* TOC Sidebar (PDF outline) */}
+      <TocSidebar
+        toc={toc}
+        isOpen={tocOpen}
+        onClose={() => setTocOpen(false)}
+        onNavigate={goToHref}
+        currentChapter={currentChapter}
+      />
+
+      {/* Annotations Sidebar */}
+      <AnnotationsSidebar
+        isOpen={annotationsOpen}
+        onClose={() => setAnnotationsOpen(false)}
+        highlights={highlights}
+        notes={notes}
+        onNavigateToCfi={handleNavigateToCfi}
+        onCreateNote={(data) => {
+          const result = createNote(data)
+          onNoteCreated()
+          return result
+        }}
+        onUpdateNote={updateNote}
+        onDeleteNote={deleteNote}
+        onUpdateHighlight={(id, data) => updateHighlight(id, data)}
+        onDeleteHighlight={handleDeleteHighlight}
+        onExport={handleExport}
+        getNotesForHighlight={getNotesForHighlight}
+      />
+
+      {/* ─── Session Overlays ─────────────────────────── */}
+
+      <StartSessionDialog
+        bookId={bookId}
+        visible={showStartDialog}
+        onStart={handleStartSession}
+        onCancel={() => setShowStartDialog(false)}
+      />
+
+      <AfkModal
+        visible={session?.state === 'paused_afk'}
+        onConfirm={confirmPresence}
+        onTimeout={handleAfkTimeout}
+      />
+
+      {session && <BreakOverlay session={session} onSkipBreak={skipBreak} />}
+
+      {session && session.state === 'running' && (session.microbreakDue || session.microbreakActive) && (
+        <MicrobreakReminder
+          session={session}
+          onTakeBreak={microbreakTake}
+          onPostpone={microbreakPostpone}
+          onDisableToday={microbreakDisableToday}
+          onEndBreak={microbreakEnd}
+        />
+      )}
+
+      {showWrapUp && (
+        <WrapUpScreen
+          getWrapUp={getWrapUp}
+          onContinue={handleWrapUpContinue}
+          onFinish={handleWrapUpFinish}
+          onNavigateToHighlight={(cfi) => {
+            setShowWrapUp(false)
+            goToCfi(cfi)
+          }}
+        />
+      )}
+
+      {/* Exit Focus Mode Confirmation */}
+      {exitConfirmation && (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+          <div className="bg-popover rounded-xl shadow-2xl border border-border p-6 max-w-sm mx-4 animate-in zoom-in-95 duration-200">
+            <h3 className="text-lg font-semibold mb-3">
+              {sessionActive ? 'Sesion activa' : 'Modo enfoque activo'}
+            </h3>
+            <p className="text-sm text-muted-foreground mb-5">
+              {sessionActive
+                ? 'Tu sesion de estudio se detendra si sales ahora. ¿Quieres continuar?'
+                : 'Estas en modo enfoque. ¿Seguro que quieres salir?'}
+            </p>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setExitConfirmation(null)}
+                className="px-4 py-2 rounded-lg text-sm font-medium hover:bg-accent transition-colors"
+              >
+                Seguir leyendo
+              </button>
+              <button
+                onClick={confirmExit}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-destructive text-destructive-foreground hover:bg-destructive/90 transition-colors"
+              >
+                Salir
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Resume Toast */}
+      {showResumeToast && (
+        <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2.5 px-4 py-2.5 bg-popover/95 backdrop-blur-xl rounded-xl shadow-lg border border-border animate-in fade-in slide-in-from-bottom-4 duration-300">
+          <div>
+            <p className="text-[11px] text-muted-foreground leading-tight">Continuando donde lo dejaste</p>
+            <p className="text-sm font-medium leading-tight">
+              {chapterLabel} {'·'} {percent}%
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
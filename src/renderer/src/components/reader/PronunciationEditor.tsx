@@ -0,0 +1,166 @@
+import { useState } from 'react'
+import { Pencil, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { usePronunciations } from '@/hooks/usePronunciations'
+import { PronunciationRule } from '@/types'
+
+interface PronunciationEditorProps {
+  /** With a book, its own rules are listed and new rules default to it */
+  bookId?: string
+  className?: string
+}
+
+interface Draft {
+  id?: string
+  term: string
+  replacement: string
+  caseSensitive: boolean
+  bookOnly: boolean
+}
+
+const INPUT_CLASS =
+  'h-8 min-w-0 flex-1 rounded-lg border border-border/60 bg-background px-2.5 text-ui-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring/40 transition-shadow'
+
+/**
+ * Add, edit and remove the words read-aloud should say differently. Shared by
+ * the settings page (global rules) and the reader (this book plus global rules).
+ */
+export function PronunciationEditor({ bookId, className }: PronunciationEditorProps): JSX.Element {
+  const { rules, save, remove } = usePronunciations(bookId)
+  const emptyDraft: Draft = { term: '', replacement: '', caseSensitive: false, bookOnly: !!bookId }
+  const [draft, setDraft] = useState<Draft>(emptyDraft)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async (): Promise<void> => {
+    setSaving(true)
+    const err = await save({
+      id: draft.id,
+      bookId: draft.bookOnly && bookId ? bookId : null,
+      term: draft.term,
+      replacement: draft.replacement,
+      caseSensitive: draft.caseSensitive
+    })
+    setSaving(false)
+    setError(err)
+    if (!err) setDraft(emptyDraft)
+  }
+
+  const handleEdit = (rule: PronunciationRule): void => {
+    setError(null)
+    setDraft({
+      id: rule.id,
+      term: rule.term,
+      replacement: rule.replacement,
+      caseSensitive: !!rule.case_sensitive,
+      bookOnly: rule.book_id !== null
+    })
+  }
+
+  const handleDelete = async (rule: PronunciationRule): Promise<void> => {
+    if (draft.id === rule.id) setDraft(emptyDraft)
+    await remove(rule.id)
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <form
+        className="space-y-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleSave()
+        }}
+      >
+        <div className="flex items-center gap-2">
+          <input
+            value={draft.term}
+            onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+            placeholder="Word, e.g. Hermione"
+            className={INPUT_CLASS}
+          />
+          <span className="text-ui-xs text-muted-foreground">→</span>
+          <input
+            value={draft.replacement}
+            onChange={(e) => setDraft({ ...draft, replacement: e.target.value })}
+            placeholder="Say it as, e.g. her-MY-oh-nee"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div className="flex items-center gap-4 text-ui-xs text-muted-foreground">
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.caseSensitive}
+              onChange={(e) => setDraft({ ...draft, caseSensitive: e.target.checked })}
+              className="accent-primary"
+            />
+            Match case
+          </label>
+          {bookId && (
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.bookOnly}
+                onChange={(e) => setDraft({ ...draft, bookOnly: e.target.checked })}
+                className="accent-primary"
+              />
+              Only in this book
+            </label>
+          )}
+          <div className="ml-auto flex items-center gap-2">
+            {draft.id && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => setDraft(emptyDraft)}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" size="sm" disabled={saving || !draft.term.trim()}>
+              {draft.id ? 'Save' : 'Add'}
+            </Button>
+          </div>
+        </div>
+        {error && <p className="text-ui-xs text-destructive">{error}</p>}
+      </form>
+
+      {rules.length === 0 ? (
+        <p className="text-ui-xs text-muted-foreground">No pronunciations yet.</p>
+      ) : (
+        <ul className="divide-y divide-border/40 rounded-lg border border-border/50">
+          {rules.map((rule) => (
+            <li
+              key={rule.id}
+              className={cn(
+                'flex items-center gap-2 px-3 py-2 text-ui-sm',
+                draft.id === rule.id && 'bg-primary/5'
+              )}
+            >
+              <span className="truncate font-medium text-foreground">{rule.term}</span>
+              <span className="text-muted-foreground">→</span>
+              <span className="flex-1 truncate text-foreground">{rule.replacement || <em>silent</em>}</span>
+              {!!rule.case_sensitive && <span className="text-[10px] text-muted-foreground">Aa</span>}
+              {bookId && (
+                <span className="text-[10px] uppercase tracking-wide text-muted-foreground">
+                  {rule.book_id ? 'Book' : 'All books'}
+                </span>
+              )}
+              <button
+                onClick={() => handleEdit(rule)}
+                className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                title="Edit"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+              <button
+                onClick={() => handleDelete(rule)}
+                className="p-1 rounded-md text-muted-foreground hover:text-destructive hover:bg-muted/50 transition-colors"
+                title="Delete"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
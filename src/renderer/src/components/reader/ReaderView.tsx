@@ -2,8 +2,12 @@ import { useEffect, useCallback, useRef, useState } from 'react'
 import { useEpubReader } from '@/hooks/useEpubReader'
 import { useReadingSettings } from '@/hooks/useReadingSettings'
 import { useAnnotations } from '@/hooks/useAnnotations'
+import { useBookmarks } from '@/hooks/useBookmarks'
+import { useVocabulary } from '@/hooks/useVocabulary'
+import { useTypography } from '@/hooks/useTypography'
 import { useStudySession } from '@/hooks/useStudySession'
 import { useTts } from '@/hooks/useTts'
+import { useTimeLeft } from '@/hooks/useTimeLeft'
 import { useTheme } from '@/components/ThemeProvider'
 import { TocSidebar } from './TocSidebar'
 import { SettingsPanel } from './SettingsPanel'
@@ -12,17 +16,46 @@ import { HighlightToolbar } from './HighlightToolbar'
 import { TtsBar } from './TtsBar'
 import { AnnotationsSidebar } from './AnnotationsSidebar'
 import { ImageLightbox } from './ImageLightbox'
+import { FootnotePopover } from './FootnotePopover'
+import { LookupPanel } from './LookupPanel'
+import { findSpokenWordRange } from '@/lib/ttsWordRange'
+import { definitionText, sentenceAround } from '@/lib/dictionary'
+import { formatMinutes } from '@/lib/utils'
 import { SessionTimer, AfkModal, BreakOverlay, MicrobreakReminder, WrapUpScreen, StartSessionDialog } from '@/components/session'
-import { SessionStartConfig, Highlight } from '@/types'
+import {
+  SessionStartConfig,
+  Highlight,
+  SearchTarget,
+  PAGE_THEMES,
+  LookupEntry,
+  LookupRequest,
+  LookupResult
+} from '@/types'
 
 interface ReaderViewProps {
   bookId: string
   filePath: string
+  /** Full-text search hit to jump to once the book has loaded */
+  searchTarget?: SearchTarget
+  /** Bookmark position to jump to once the book has loaded */
+  startCfi?: string
   onBack: () => void
 }
 
-export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
-  const { settings, updateSettings, loaded: settingsLoaded } = useReadingSettings()
+export function ReaderView({ bookId, filePath, searchTarget, startCfi, onBack }: ReaderViewProps) {
+  const {
+    settings,
+    updateSettings,
+    loaded: settingsLoaded,
+    customized: settingsCustomized,
+    saveAsDefault,
+    resetToDefault,
+    profile,
+    profileSource,
+    assignProfile,
+    profileSaved
+  } = useReadingSettings(bookId)
+  const { fonts, fontFamilies, profiles, importFonts, createProfile, updateProfile } = useTypography()
   const { resolvedTheme } = useTheme()
   const [tocOpen, setTocOpen] = useState(false)
   const [settingsOpen, setSettingsOpen] = useState(false)
@@ -34,11 +67,15 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
   const [ttsOpen, setTtsOpen] = useState(false)
   const [showResumeToast, setShowResumeToast] = useState(false)
   const [exitConfirmation, setExitConfirmation] = useState<{ action: () => void } | null>(null)
-  const [bookmark, setBookmark] = useState<{ cfi: string; percent: number; chapter: string } | null>(null)
+  const [lookupRequest, setLookupRequest] = useState<LookupRequest | null>(null)
   const ttsFromTextRef = useRef<(text: string) => void>(() => {})
   const resumeToastShown = useRef(false)
+  const searchTargetApplied = useRef<SearchTarget | null>(null)
+  const startCfiApplied = useRef<string | null>(null)
   const selectionCfiRef = useRef<string | null>(null)
   const selectionTextRef = useRef<string>('')
+  // Sentence around the selection, kept with words saved from the lookup panel
+  const selectionContextRef = useRef<string | null>(null)
   const highlightsRef = useRef<Highlight[]>([])
   const wasFullscreenBeforeFocus = useRef(false)
 
@@ -51,19 +88,38 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
     bookTitle,
     percent,
     currentCfi,
+    pageLocation,
+    position,
     isLoading,
     atStart,
     atEnd,
     didResume,
+    isFixedLayout,
+    isScrolling,
     initBook,
     goNext,
     goPrev,
     goToHref,
     goToCfi,
+    goToSearchHit,
     savePosition,
     applyHighlights,
-    removeHighlightAnnotation
-  } = useEpubReader({ bookId, filePath, settings, resolvedTheme, onImageClick: setLightboxSrc })
+    removeHighlightAnnotation,
+    footnote,
+    openNoteLink,
+    footnoteBack,
+    closeFootnote,
+    goToFootnote,
+    canGoBack,
+    goBackInHistory
+  } = useEpubReader({
+    bookId,
+    filePath,
+    settings,
+    resolvedTheme,
+    customFonts: fonts,
+    onImageClick: setLightboxSrc
+  })
 
   const {
     highlights,
@@ -77,6 +133,11 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
     getNotesForHighlight
   } = useAnnotations({ bookId })
 
+  const { bookmarks, createBookmark, renameBookmark, deleteBookmark } = useBookmarks({ bookId })
+  const { vocabulary, saveWord, deleteWord } = useVocabulary({ bookId })
+
+  const timeLeft = useTimeLeft(bookId, position)
+
   // ─── TTS ─────────────────────────────────────────
   const tts = useTts()
 
@@ -108,41 +169,27 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
   // Keep highlights ref in sync for use in event handlers
   highlightsRef.current = highlights
 
-  // Load bookmark from localStorage
-  useEffect(() => {
-    const stored = localStorage.getItem(`flareread-bookmark-${bookId}`)
-    if (stored) {
-      try {
-        setBookmark(JSON.parse(stored))
-      } catch { /* ignore */ }
-    }
-  }, [bookId])
+  // Bookmark on the page being read, if any
+  const currentBookmark = bookmarks.find((b) => b.cfi === currentCfi) ?? null
 
   // Save/toggle bookmark
   const toggleBookmark = useCallback(() => {
-    if (bookmark && bookmark.cfi === currentCfi) {
+    if (!currentCfi) return
+    if (currentBookmark) {
       // Remove bookmark if we're at the bookmarked position
-      localStorage.removeItem(`flareread-bookmark-${bookId}`)
-      setBookmark(null)
+      deleteBookmark(currentBookmark.id)
     } else {
-      // Set new bookmark at current position
-      const newBookmark = { cfi: currentCfi, percent, chapter: currentChapter }
-      localStorage.setItem(`flareread-bookmark-${bookId}`, JSON.stringify(newBookmark))
-      setBookmark(newBookmark)
-    }
-  }, [bookmark, currentCfi, percent, currentChapter, bookId])
-
-  const goToBookmark = useCallback(() => {
-    if (bookmark) {
-      goToCfi(bookmark.cfi)
+      // Add a bookmark at current position
+      createBookmark({ cfi: currentCfi, percent, chapter: currentChapter || null })
     }
-  }, [bookmark, goToCfi])
+  }, [currentBookmark, currentCfi, percent, currentChapter, createBookmark, deleteBookmark])
 
   // Handle clicks on existing highlight annotations in the epub
   onHighlightClickRef.current = (highlight, e) => {
     setExistingHighlight({ id: highlight.id, color: highlight.color })
     selectionCfiRef.current = highlight.cfi_range
     selectionTextRef.current = ''
+    selectionContextRef.current = null
     if (e) {
       const iframe = viewerRef.current?.querySelector('iframe')
       if (iframe) {
@@ -173,6 +220,7 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
     skipBreak,
     getWrapUp,
     reportActivity,
+    reportLocation,
     onHighlightCreated,
     onNoteCreated,
     microbreakTake,
@@ -220,6 +268,11 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
     }
   }, [sessionActive, reportActivity])
 
+  // Report page turns, also outside sessions so one started mid-page counts from there
+  useEffect(() => {
+    if (pageLocation) reportLocation(bookId, pageLocation)
+  }, [bookId, pageLocation, reportLocation])
+
   // Show wrap-up screen when session completes (but not if user already dismissed it)
   useEffect(() => {
     if (session?.state === 'completed' && session.activeMs > 0 && !wrapUpDismissedRef.current) {
@@ -338,15 +391,29 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
     }
   }, [isLoading, highlights, applyHighlights])
 
+  // Jump to the search hit the book was opened from
+  useEffect(() => {
+    if (isLoading || !searchTarget || searchTargetApplied.current === searchTarget) return
+    searchTargetApplied.current = searchTarget
+    goToSearchHit(searchTarget)
+  }, [isLoading, searchTarget, goToSearchHit])
+
+  // Jump to the bookmark the book was opened from
+  useEffect(() => {
+    if (isLoading || !startCfi || startCfiApplied.current === startCfi) return
+    startCfiApplied.current = startCfi
+    goToCfi(startCfi)
+  }, [isLoading, startCfi, goToCfi])
+
   // Show "continued reading" toast when book resumes from saved position
   useEffect(() => {
-    if (!isLoading && didResume && !resumeToastShown.current) {
+    if (!isLoading && didResume && !searchTarget && !startCfi && !resumeToastShown.current) {
       resumeToastShown.current = true
       setShowResumeToast(true)
       const timer = setTimeout(() => setShowResumeToast(false), 3500)
       return () => clearTimeout(timer)
     }
-  }, [isLoading, didResume])
+  }, [isLoading, didResume, searchTarget, startCfi])
 
   // Set up text selection listener on the epub iframe
   useEffect(() => {
@@ -375,6 +442,7 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
 
       // Get position for toolbar - use the range's bounding rect
       const range = selection.getRangeAt(0)
+      selectionContextRef.current = sentenceAround(range)
       const rect = range.getBoundingClientRect()
 
       // The epub content is inside an iframe, so we need to offset by iframe position
@@ -579,6 +647,17 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
     }
   }, [isLoading, renditionRef])
 
+  // Follow read-aloud into the next chapter of this book
+  const ttsBookId = tts.snapshot?.bookId
+  const ttsSectionHref = tts.snapshot?.sectionHref
+  useEffect(() => {
+    const rendition = renditionRef.current
+    if (!rendition || ttsBookId !== bookId || !ttsSectionHref) return
+    const shownHref = rendition.location?.start?.href
+    if (shownHref && decodeURIComponent(shownHref) === decodeURIComponent(ttsSectionHref)) return
+    rendition.display(ttsSectionHref).catch(() => {})
+  }, [ttsBookId, ttsSectionHref, bookId, renditionRef])
+
   // Highlight current TTS chunk text in the epub iframe
   const ttsState = tts.snapshot?.state ?? 'idle'
   useEffect(() => {
@@ -658,6 +737,61 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
     }
   }, [tts.currentChunkText, ttsState, renditionRef])
 
+  // Highlight the word being spoken and keep it on screen
+  const lastPageTurnRef = useRef(0)
+  useEffect(() => {
+    const word = tts.currentWord
+    const rendition = renditionRef.current
+    if (!rendition) return
+
+    let contents: Array<{ document: Document; cfiFromRange: (range: Range) => string }> = []
+    try {
+      contents = rendition.getContents() as unknown as typeof contents
+    } catch {
+      return
+    }
+
+    for (const content of contents) {
+      const doc = content.document
+      const win = doc?.defaultView as (Window & typeof globalThis) | null
+      if (!doc?.body || !win?.CSS?.highlights) continue
+
+      win.CSS.highlights.delete('flareread-tts-word')
+      if (!word) continue
+
+      const range = findSpokenWordRange(doc, word)
+      if (!range) continue
+
+      if (!doc.getElementById('flareread-tts-word-css')) {
+        const style = doc.createElement('style')
+        style.id = 'flareread-tts-word-css'
+        style.textContent = `::highlight(flareread-tts-word) { background-color: rgba(250, 204, 21, 0.45); }`
+        doc.head.appendChild(style)
+      }
+      win.CSS.highlights.set('flareread-tts-word', new win.Highlight(range))
+
+      // Only move the page once the word leaves the visible area
+      const container = viewerRef.current
+      const frame = win.frameElement
+      if (!container || !frame) continue
+      const view = container.getBoundingClientRect()
+      const frameRect = frame.getBoundingClientRect()
+      const rect = range.getBoundingClientRect()
+      const top = frameRect.top + rect.top
+      const left = frameRect.left + rect.left
+      const visible =
+        top >= view.top && top + rect.height <= view.bottom && left >= view.left && left + rect.width <= view.right
+      if (visible) continue
+
+      if (isScrolling) {
+        range.startContainer.parentElement?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      } else if (Date.now() - lastPageTurnRef.current > 600) {
+        lastPageTurnRef.current = Date.now()
+        rendition.display(content.cfiFromRange(range)).catch(() => {})
+      }
+    }
+  }, [tts.currentWord, isScrolling, renditionRef, viewerRef])
+
   // Handle highlighting (create or update)
   const handleHighlight = useCallback(
     async (color: string) => {
@@ -720,6 +854,34 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
     selectionTextRef.current = ''
   }, [existingHighlight, removeHighlightAnnotation, deleteHighlight, viewerRef])
 
+  // Look up the selection, or the highlight that was clicked
+  const handleLookup = useCallback(() => {
+    const text =
+      selectionTextRef.current ||
+      highlightsRef.current.find((h) => h.id === existingHighlight?.id)?.text ||
+      ''
+    if (!text) return
+    setLookupRequest({ text, cfiRange: selectionCfiRef.current, context: selectionContextRef.current })
+    setToolbarPosition(null)
+    setExistingHighlight(null)
+  }, [existingHighlight])
+
+  const handleSaveWord = useCallback(
+    async (entry: LookupEntry, result: LookupResult) => {
+      await saveWord({
+        word: result.query,
+        headword: entry.headword,
+        definition: entry.definitions.map(definitionText).join('\n\n') || null,
+        dictionary_name: entry.dictionaryName,
+        language: result.language,
+        context: lookupRequest?.context ?? null,
+        cfi_range: lookupRequest?.cfiRange ?? null,
+        chapter: currentChapter || null
+      })
+    },
+    [saveWord, lookupRequest, currentChapter]
+  )
+
   const handleDismissToolbar = useCallback(() => {
     setToolbarPosition(null)
     setExistingHighlight(null)
@@ -758,6 +920,19 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
     await window.appApi.exportMarkdown(bookId)
   }, [bookId])
 
+  const handleSaveProfile = useCallback(
+    async (name: string) => {
+      const created = await createProfile(name, settings)
+      await assignProfile(created.id)
+    },
+    [createProfile, assignProfile, settings]
+  )
+
+  const handleUpdateProfile = useCallback(async () => {
+    if (!profile) return
+    profileSaved(await updateProfile(profile.id, { settings }))
+  }, [profile, profileSaved, updateProfile, settings])
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -773,14 +948,14 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
       switch (e.key) {
         case 'ArrowRight':
         case 'PageDown':
-          if (!settings.scrollMode) {
+          if (!isScrolling) {
             e.preventDefault()
             goNext()
           }
           break
         case 'ArrowLeft':
         case 'PageUp':
-          if (!settings.scrollMode) {
+          if (!isScrolling) {
             e.preventDefault()
             goPrev()
           }
@@ -789,6 +964,10 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
           e.preventDefault()
           if (lightboxSrc) {
             setLightboxSrc(null)
+          } else if (footnote) {
+            closeFootnote()
+          } else if (lookupRequest) {
+            setLookupRequest(null)
           } else {
             setFocusMode((prev) => !prev)
             setTocOpen(false)
@@ -808,7 +987,7 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [goNext, goPrev, settings.scrollMode, lightboxSrc])
+  }, [goNext, goPrev, isScrolling, lightboxSrc, footnote, closeFootnote, lookupRequest])
 
   // ─── Window close confirmation (focus mode / session) ──
   useEffect(() => {
@@ -860,8 +1039,18 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
     return () => cleanups.forEach((fn) => fn())
   }, [sessionActive, stopSession, onBack, saveCurrentPosition, tryExitBook, updateSettings, settings.fontSize])
 
+  // A per-book page theme recolors the reader chrome to match the page
+  const pageTheme = PAGE_THEMES.find((t) => t.value === settings.pageTheme)
+  const pageThemeStyle = pageTheme
+    ? ({
+        '--reading-bg': pageTheme.bg,
+        '--reading-fg': pageTheme.fg,
+        '--reading-link': pageTheme.link
+      } as React.CSSProperties)
+    : undefined
+
   return (
-    <div className="h-screen flex flex-col bg-reading-bg overflow-hidden">
+    <div className="h-screen flex flex-col bg-reading-bg overflow-hidden" style={pageThemeStyle}>
       {/* Top Bar */}
       <TopBar
         bookTitle={bookTitle}
@@ -908,6 +1097,18 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
           onClose={() => setSettingsOpen(false)}
           settings={settings}
           onUpdate={updateSettings}
+          isFixedLayout={isFixedLayout}
+          customized={settingsCustomized}
+          onSaveAsDefault={saveAsDefault}
+          onResetToDefault={resetToDefault}
+          customFonts={fontFamilies}
+          onImportFonts={importFonts}
+          profiles={profiles}
+          profile={profile}
+          profileSource={profileSource}
+          onAssignProfile={assignProfile}
+          onSaveProfile={handleSaveProfile}
+          onUpdateProfile={handleUpdateProfile}
         />
       </div>
 
@@ -926,12 +1127,16 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
         )}
 
         {/* EPUB Viewer Container */}
-        <div className="h-full w-full mx-auto" style={{ maxWidth: `${settings.contentWidth}%`, padding: `0 ${settings.margin}px` }}>
+        {/* Fixed-layout pages are scaled by epub.js to fill the whole area */}
+        <div
+          className="h-full w-full mx-auto"
+          style={isFixedLayout ? undefined : { maxWidth: `${settings.contentWidth}%`, padding: `0 ${settings.margin}px` }}
+        >
           <div ref={viewerRef} className="h-full w-full" />
         </div>
 
         {/* Navigation Overlays (click zones) - hidden in scroll mode */}
-        {!isLoading && !settings.scrollMode && (
+        {!isLoading && !isScrolling && (
           <>
             {/* Left click zone - Previous */}
             <button
@@ -969,10 +1174,11 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
         tts={tts}
         visible={ttsOpen}
         onClose={() => setTtsOpen(false)}
+        bookId={bookId}
       />
 
       {/* Bottom Navigation Bar - hidden in scroll mode */}
-      {!isLoading && !settings.scrollMode && (
+      {!isLoading && !isScrolling && (
         <div className="shrink-0 bg-topbar shadow-[0_-1px_3px_rgba(0,0,0,0.05)] px-4 py-1.5 flex items-center gap-3 select-none">
           <button
             onClick={goPrev}
@@ -992,13 +1198,14 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
                 className="h-full rounded-full transition-all duration-500 bg-gradient-to-r from-primary to-sidebar-gold"
                 style={{ width: `${percent}%` }}
               />
-              {/* Bookmark flag on progress bar */}
-              {bookmark && (
+              {/* Bookmark flags on progress bar */}
+              {bookmarks.map((bookmark) => (
                 <button
-                  onClick={goToBookmark}
+                  key={bookmark.id}
+                  onClick={() => goToCfi(bookmark.cfi)}
                   className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 z-10 group"
                   style={{ left: `${bookmark.percent}%` }}
-                  title={`Ir a marcador: ${bookmark.chapter || `${bookmark.percent}%`}`}
+                  title={`Ir a marcador: ${bookmark.label || bookmark.chapter || `${bookmark.percent}%`}`}
                 >
                   <svg
                     xmlns="http://www.w3.org/2000/svg"
@@ -1011,11 +1218,20 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
                     <path d="M19 21l-7-4-7 4V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
                   </svg>
                 </button>
-              )}
+              ))}
             </div>
             <span className="font-mono text-ui-xs text-muted-foreground tabular-nums shrink-0 w-10 text-right">
               {percent}%
             </span>
+            {timeLeft && (
+              <span
+                className="font-mono text-ui-xs text-muted-foreground tabular-nums shrink-0"
+                title={`Tiempo restante a ${timeLeft.wpm} palabras/min${timeLeft.calibrated ? '' : ' (velocidad por defecto hasta tener más sesiones)'}`}
+              >
+                {timeLeft.chapterMinutes !== null && `${formatMinutes(timeLeft.chapterMinutes)} cap. · `}
+                {formatMinutes(timeLeft.bookMinutes)} libro
+              </span>
+            )}
           </div>
 
           {/* Read aloud button */}
@@ -1050,14 +1266,14 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
           <button
             onClick={toggleBookmark}
             className={`p-1 rounded-md transition-all hover:scale-110 ${
-              bookmark
+              currentBookmark
                 ? 'text-primary hover:bg-primary/10'
                 : 'text-muted-foreground hover:bg-accent'
             }`}
-            title={bookmark ? 'Quitar marcador' : 'Marcar posicion actual'}
-            aria-label={bookmark ? 'Quitar marcador' : 'Marcar posicion actual'}
+            title={currentBookmark ? 'Quitar marcador' : 'Marcar posicion actual'}
+            aria-label={currentBookmark ? 'Quitar marcador' : 'Marcar posicion actual'}
           >
-            <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill={bookmark ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill={currentBookmark ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <path d="M19 21l-7-4-7 4V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
             </svg>
           </button>
@@ -1082,8 +1298,42 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
         onDismiss={handleDismissToolbar}
         existingHighlight={existingHighlight}
         onRemoveHighlight={handleRemoveHighlightFromToolbar}
+        onLookup={handleLookup}
+      />
+
+      {/* Dictionary lookup */}
+      <LookupPanel
+        bookId={bookId}
+        request={lookupRequest}
+        vocabulary={vocabulary}
+        onSave={handleSaveWord}
+        onClose={() => setLookupRequest(null)}
+      />
+
+      {/* Footnote Popover (floating) */}
+      <FootnotePopover
+        popup={footnote}
+        onClose={closeFootnote}
+        onBack={footnoteBack}
+        onGoToNote={goToFootnote}
+        onLink={openNoteLink}
       />
 
+      {/* Back to where an internal link was followed from */}
+      {canGoBack && (
+        <button
+          onClick={goBackInHistory}
+          className="fixed bottom-20 left-6 z-40 flex items-center gap-1.5 px-3 py-2 bg-popover/90 backdrop-blur-xl rounded-full shadow-lg border border-border text-ui-xs font-body text-muted-foreground hover:text-foreground transition-colors animate-in fade-in slide-in-from-bottom-4 duration-300"
+          title="Volver a donde seguiste el enlace"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M9 14 4 9l5-5" />
+            <path d="M4 9h10.5a5.5 5.5 0 0 1 0 11H11" />
+          </svg>
+          Volver
+        </button>
+      )}
+
       {/* TOC Sidebar */}
       <TocSidebar
         toc={toc}
@@ -1091,6 +1341,7 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
         onClose={() => setTocOpen(false)}
         onNavigate={goToHref}
         currentChapter={currentChapter}
+        onQueue={(href) => tts.addToQueue(bookId, href)}
       />
 
       {/* Annotations Sidebar */}
@@ -1111,6 +1362,11 @@ export function ReaderView({ bookId, filePath, onBack }: ReaderViewProps) {
         onDeleteHighlight={handleDeleteHighlight}
         onExport={handleExport}
         getNotesForHighlight={getNotesForHighlight}
+        bookmarks={bookmarks}
+        onRenameBookmark={renameBookmark}
+        onDeleteBookmark={deleteBookmark}
+        vocabulary={vocabulary}
+        onDeleteVocabulary={deleteWord}
       />
 
       {/* ─── Session Overlays ─────────────────────────── */}
@@ -1,4 +1,16 @@
-import { ReadingSettings, FONT_FAMILIES } from '@/types'
+import { useState } from 'react'
+import {
+  ReadingSettings,
+  ReadingFlow,
+  ReadingSpread,
+  PageLayout,
+  TextAlign,
+  PublisherStyles,
+  TypographyProfile,
+  FONT_FAMILIES,
+  PAGE_THEMES,
+  customFontValue
+} from '@/types'
 import { motion, AnimatePresence } from 'framer-motion'
 
 interface SettingsPanelProps {
@@ -6,9 +18,110 @@ interface SettingsPanelProps {
   onClose: () => void
   settings: ReadingSettings
   onUpdate: (patch: Partial<ReadingSettings>) => void
+  /** The open book has pre-paginated pages, so flow and typography don't apply */
+  isFixedLayout?: boolean
+  /** The book has settings of its own instead of the defaults */
+  customized?: boolean
+  onSaveAsDefault?: () => void
+  onResetToDefault?: () => void
+  /** Families of imported fonts */
+  customFonts?: string[]
+  onImportFonts?: () => void
+  profiles?: TypographyProfile[]
+  /** Profile the book reads with, set on the book or inherited from its category */
+  profile?: TypographyProfile | null
+  profileSource?: 'book' | 'category' | null
+  onAssignProfile?: (profileId: string | null) => void
+  onSaveProfile?: (name: string) => void
+  onUpdateProfile?: () => void
 }
 
-export function SettingsPanel({ isOpen, onClose, settings, onUpdate }: SettingsPanelProps) {
+const FLOW_OPTIONS: { value: ReadingFlow; label: string; title: string }[] = [
+  { value: 'paginated', label: 'Pages', title: 'Turn pages' },
+  { value: 'scrolled-doc', label: 'Chapter', title: 'Scroll one chapter at a time' },
+  { value: 'scrolled', label: 'Continuous', title: 'Scroll through the whole book' }
+]
+
+const SPREAD_OPTIONS: { value: ReadingSpread; label: string; title: string }[] = [
+  { value: 'none', label: 'Single', title: 'One page at a time' },
+  { value: 'auto', label: 'Spread', title: 'Two pages side by side on wide windows' }
+]
+
+const LAYOUT_OPTIONS: { value: PageLayout; label: string; title: string }[] = [
+  { value: 'auto', label: 'Auto', title: "Use the book's own layout" },
+  { value: 'reflowable', label: 'Reflow', title: 'Reflow text to the window' },
+  { value: 'pre-paginated', label: 'Fixed', title: 'Show fixed pages, for comics and textbooks' }
+]
+
+const ALIGN_OPTIONS: { value: TextAlign; label: string; title: string }[] = [
+  { value: 'justify', label: 'Justified', title: 'Even left and right edges' },
+  { value: 'left', label: 'Left', title: 'Ragged right edge' }
+]
+
+const PUBLISHER_OPTIONS: { value: PublisherStyles; label: string; title: string }[] = [
+  { value: 'override', label: 'Override', title: "Replace the book's styles with these settings" },
+  { value: 'blend', label: 'Blend', title: "Set the body text, keep the book's headings, quotes and tables" },
+  { value: 'keep', label: 'Publisher', title: "Keep the book's own styles; only colors and size change" }
+]
+
+function Segmented<T extends string>({
+  options,
+  value,
+  onChange,
+  disabled
+}: {
+  options: { value: T; label: string; title: string }[]
+  value: T
+  onChange: (value: T) => void
+  disabled?: boolean
+}) {
+  return (
+    <div className={`flex rounded-lg border border-border overflow-hidden ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          title={option.title}
+          className={`flex-1 px-2 py-2 text-xs font-medium transition-all ${
+            value === option.value
+              ? 'bg-primary text-primary-foreground'
+              : 'bg-card text-muted-foreground hover:bg-accent'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export function SettingsPanel({
+  isOpen,
+  onClose,
+  settings,
+  onUpdate,
+  isFixedLayout = false,
+  customized = false,
+  onSaveAsDefault,
+  onResetToDefault,
+  customFonts = [],
+  onImportFonts,
+  profiles = [],
+  profile = null,
+  profileSource = null,
+  onAssignProfile,
+  onSaveProfile,
+  onUpdateProfile
+}: SettingsPanelProps) {
+  const [profileName, setProfileName] = useState<string | null>(null)
+
+  const saveProfile = () => {
+    const name = profileName?.trim()
+    if (!name) return
+    onSaveProfile?.(name)
+    setProfileName(null)
+  }
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -19,7 +132,7 @@ export function SettingsPanel({ isOpen, onClose, settings, onUpdate }: SettingsP
             animate={{ opacity: 1, y: 0, scale: 1 }}
             exit={{ opacity: 0, y: -8, scale: 0.96 }}
             transition={{ type: 'spring', stiffness: 500, damping: 32 }}
-            className="absolute right-4 top-1 z-40 bg-card/95 backdrop-blur-xl rounded-lg shadow-xl border border-border w-72 p-4 space-y-5"
+            className="absolute right-4 top-1 z-40 bg-card/95 backdrop-blur-xl rounded-lg shadow-xl border border-border w-72 p-4 space-y-5 max-h-[calc(100vh-6rem)] overflow-y-auto"
           >
             <div className="flex items-center justify-between">
               <h3 className="font-display italic text-foreground text-sm">Reading Settings</h3>
@@ -39,125 +152,330 @@ export function SettingsPanel({ isOpen, onClose, settings, onUpdate }: SettingsP
               <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
                 Reading Mode
               </label>
-              <div className="flex rounded-lg border border-border overflow-hidden">
-                <button
-                  onClick={() => onUpdate({ scrollMode: false })}
-                  className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-xs font-medium transition-all ${
-                    !settings.scrollMode
-                      ? 'bg-primary text-primary-foreground'
-                      : 'bg-card text-muted-foreground hover:bg-accent'
-                  }`}
-                >
-                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20" /><path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z" />
-                  </svg>
-                  Paginated
-                </button>
-                <button
-                  onClick={() => onUpdate({ scrollMode: true })}
-                  className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-xs font-medium transition-all ${
-                    settings.scrollMode
-                      ? 'bg-primary text-primary-foreground'
-                      : 'bg-card text-muted-foreground hover:bg-accent'
-                  }`}
-                >
-                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <path d="M12 5v14" /><path d="m19 12-7 7-7-7" />
-                  </svg>
-                  Scroll
-                </button>
-              </div>
+              <Segmented
+                options={FLOW_OPTIONS}
+                value={isFixedLayout ? 'paginated' : settings.flow}
+                onChange={(flow) => onUpdate({ flow })}
+                disabled={isFixedLayout}
+              />
+              {isFixedLayout && (
+                <p className="text-xs text-muted-foreground/70 mt-1.5">Fixed-layout pages are always shown one page at a time.</p>
+              )}
             </div>
 
-            {/* Font Size */}
-            <div>
-              <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
-                Font Size
-              </label>
-              <div className="flex items-center gap-3">
-                <button
-                  onClick={() => onUpdate({ fontSize: Math.max(12, settings.fontSize - 2) })}
-                  className="w-8 h-8 rounded-md border border-border flex items-center justify-center text-muted-foreground hover:bg-accent hover:text-foreground transition-colors text-sm font-medium"
-                >
-                  A
-                </button>
-                <span className="text-sm text-foreground font-medium flex-1 text-center tabular-nums">
-                  {settings.fontSize}px
-                </span>
-                <button
-                  onClick={() => onUpdate({ fontSize: Math.min(32, settings.fontSize + 2) })}
-                  className="w-8 h-8 rounded-md border border-border flex items-center justify-center text-muted-foreground hover:bg-accent hover:text-foreground transition-colors text-lg font-medium"
-                >
-                  A
-                </button>
+            {/* Spread */}
+            {(isFixedLayout || settings.flow === 'paginated') && (
+              <div>
+                <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
+                  Pages
+                </label>
+                <Segmented
+                  options={SPREAD_OPTIONS}
+                  value={settings.spread}
+                  onChange={(spread) => onUpdate({ spread })}
+                />
+                {settings.spread === 'auto' && (
+                  <p className="text-xs text-muted-foreground/70 mt-1.5">Two pages side by side when the window is wide enough.</p>
+                )}
               </div>
-            </div>
-
-            {/* Font Family */}
-            <div>
-              <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
-                Font
-              </label>
-              <select
-                value={settings.fontFamily}
-                onChange={(e) => onUpdate({ fontFamily: e.target.value })}
-                className="w-full rounded-md border border-border px-3 py-2 text-sm text-foreground bg-card focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring transition-colors"
-              >
-                {FONT_FAMILIES.map((f) => (
-                  <option key={f.value} value={f.value}>
-                    {f.label}
-                  </option>
-                ))}
-              </select>
-            </div>
+            )}
 
-            {/* Line Height */}
+            {/* Page Layout */}
             <div>
               <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
-                Line Height — <span className="text-foreground">{settings.lineHeight.toFixed(1)}</span>
+                Page Layout
               </label>
-              <input
-                type="range"
-                min="1.0"
-                max="2.5"
-                step="0.1"
-                value={settings.lineHeight}
-                onChange={(e) => onUpdate({ lineHeight: parseFloat(e.target.value) })}
-                className="w-full accent-primary"
+              <Segmented
+                options={LAYOUT_OPTIONS}
+                value={settings.pageLayout}
+                onChange={(pageLayout) => onUpdate({ pageLayout })}
               />
             </div>
 
-            {/* Content Width */}
+            {/* Page Theme */}
             <div>
               <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
-                Content Width — <span className="text-foreground">{settings.contentWidth}%</span>
+                Page
               </label>
-              <input
-                type="range"
-                min="40"
-                max="100"
-                step="5"
-                value={settings.contentWidth}
-                onChange={(e) => onUpdate({ contentWidth: parseInt(e.target.value) })}
-                className="w-full accent-primary"
-              />
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onUpdate({ pageTheme: 'app' })}
+                  className={`px-2.5 h-7 rounded-full border text-xs transition-all ${
+                    settings.pageTheme === 'app'
+                      ? 'border-primary text-primary'
+                      : 'border-border text-muted-foreground hover:bg-accent'
+                  }`}
+                  title="Follow the app theme"
+                >
+                  App
+                </button>
+                {PAGE_THEMES.map((theme) => (
+                  <button
+                    key={theme.value}
+                    onClick={() => onUpdate({ pageTheme: theme.value })}
+                    className={`w-7 h-7 rounded-full border-2 text-[10px] font-medium transition-all ${
+                      settings.pageTheme === theme.value ? 'border-primary scale-110' : 'border-border hover:scale-105'
+                    }`}
+                    style={{ backgroundColor: `hsl(${theme.bg})`, color: `hsl(${theme.fg})` }}
+                    title={theme.label}
+                    aria-label={`${theme.label} page`}
+                  >
+                    Aa
+                  </button>
+                ))}
+              </div>
             </div>
 
-            {/* Margins */}
-            <div>
-              <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
-                Margins — <span className="text-foreground">{settings.margin}px</span>
-              </label>
-              <input
-                type="range"
-                min="20"
-                max="120"
-                step="10"
-                value={settings.margin}
-                onChange={(e) => onUpdate({ margin: parseInt(e.target.value) })}
-                className="w-full accent-primary"
-              />
-            </div>
+            {/* Typography doesn't apply to fixed-layout pages */}
+            {!isFixedLayout && (
+              <>
+                {/* Typography Profile */}
+                {onAssignProfile && (
+                  <div>
+                    <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
+                      Profile
+                    </label>
+                    <select
+                      value={profile?.id ?? ''}
+                      onChange={(e) => onAssignProfile(e.target.value || null)}
+                      className="w-full rounded-md border border-border px-3 py-2 text-sm text-foreground bg-card focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring transition-colors"
+                    >
+                      <option value="">None</option>
+                      {profiles.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </select>
+                    {profileSource === 'category' && (
+                      <p className="text-xs text-muted-foreground/70 mt-1.5">Set for this book's category.</p>
+                    )}
+                    {profileName === null ? (
+                      <div className="flex gap-2 mt-2">
+                        <button
+                          onClick={() => setProfileName('')}
+                          className="flex-1 px-2 py-1.5 rounded-md border border-border text-xs text-foreground hover:bg-accent transition-colors"
+                        >
+                          Save as profile
+                        </button>
+                        {profile && customized && (
+                          <button
+                            onClick={onUpdateProfile}
+                            className="flex-1 px-2 py-1.5 rounded-md border border-border text-xs text-foreground hover:bg-accent transition-colors truncate"
+                            title={`Save these settings to ${profile.name}`}
+                          >
+                            Update {profile.name}
+                          </button>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="flex gap-2 mt-2">
+                        <input
+                          autoFocus
+                          value={profileName}
+                          onChange={(e) => setProfileName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') saveProfile()
+                            if (e.key === 'Escape') setProfileName(null)
+                          }}
+                          placeholder="Profile name"
+                          className="flex-1 min-w-0 rounded-md border border-border px-2 py-1.5 text-xs text-foreground bg-card focus:outline-none focus:ring-2 focus:ring-ring"
+                        />
+                        <button
+                          onClick={saveProfile}
+                          disabled={!profileName.trim()}
+                          className="px-2 py-1.5 rounded-md bg-primary text-primary-foreground text-xs font-medium disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Publisher Styles */}
+                <div>
+                  <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
+                    Book Styles
+                  </label>
+                  <Segmented
+                    options={PUBLISHER_OPTIONS}
+                    value={settings.publisherStyles}
+                    onChange={(publisherStyles) => onUpdate({ publisherStyles })}
+                  />
+                  {settings.publisherStyles === 'keep' && (
+                    <p className="text-xs text-muted-foreground/70 mt-1.5">
+                      The book's own fonts and spacing are used; only the font size applies.
+                    </p>
+                  )}
+                </div>
+
+                {/* Font Size */}
+                <div>
+                  <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
+                    Font Size
+                  </label>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => onUpdate({ fontSize: Math.max(12, settings.fontSize - 2) })}
+                      className="w-8 h-8 rounded-md border border-border flex items-center justify-center text-muted-foreground hover:bg-accent hover:text-foreground transition-colors text-sm font-medium"
+                    >
+                      A
+                    </button>
+                    <span className="text-sm text-foreground font-medium flex-1 text-center tabular-nums">
+                      {settings.fontSize}px
+                    </span>
+                    <button
+                      onClick={() => onUpdate({ fontSize: Math.min(32, settings.fontSize + 2) })}
+                      className="w-8 h-8 rounded-md border border-border flex items-center justify-center text-muted-foreground hover:bg-accent hover:text-foreground transition-colors text-lg font-medium"
+                    >
+                      A
+                    </button>
+                  </div>
+                </div>
+
+                {/* Font Family */}
+                <div>
+                  <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
+                    Font
+                  </label>
+                  <select
+                    value={settings.fontFamily}
+                    onChange={(e) => onUpdate({ fontFamily: e.target.value })}
+                    className="w-full rounded-md border border-border px-3 py-2 text-sm text-foreground bg-card focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring transition-colors"
+                  >
+                    {FONT_FAMILIES.map((f) => (
+                      <option key={f.value} value={f.value}>
+                        {f.label}
+                      </option>
+                    ))}
+                    {customFonts.length > 0 && (
+                      <optgroup label="Your fonts">
+                        {customFonts.map((family) => (
+                          <option key={family} value={customFontValue(family)}>
+                            {family}
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </select>
+                  {onImportFonts && (
+                    <button
+                      onClick={onImportFonts}
+                      className="mt-1.5 text-xs text-primary hover:underline"
+                    >
+                      Import font…
+                    </button>
+                  )}
+                </div>
+
+                {/* Line Height */}
+                <div>
+                  <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
+                    Line Height — <span className="text-foreground">{settings.lineHeight.toFixed(1)}</span>
+                  </label>
+                  <input
+                    type="range"
+                    min="1.0"
+                    max="2.5"
+                    step="0.1"
+                    value={settings.lineHeight}
+                    onChange={(e) => onUpdate({ lineHeight: parseFloat(e.target.value) })}
+                    className="w-full accent-primary"
+                  />
+                </div>
+
+                {/* Paragraph Spacing */}
+                <div>
+                  <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
+                    Paragraph Spacing — <span className="text-foreground">{settings.paragraphSpacing.toFixed(2)}em</span>
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1.5"
+                    step="0.05"
+                    value={settings.paragraphSpacing}
+                    onChange={(e) => onUpdate({ paragraphSpacing: parseFloat(e.target.value) })}
+                    className="w-full accent-primary"
+                  />
+                </div>
+
+                {/* Alignment & Hyphenation */}
+                <div>
+                  <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
+                    Alignment
+                  </label>
+                  <Segmented
+                    options={ALIGN_OPTIONS}
+                    value={settings.textAlign}
+                    onChange={(textAlign) => onUpdate({ textAlign })}
+                  />
+                  <label className="flex items-center gap-2 mt-2 text-xs text-foreground cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.hyphenation}
+                      onChange={(e) => onUpdate({ hyphenation: e.target.checked })}
+                      className="accent-primary"
+                    />
+                    Hyphenate words at line ends
+                  </label>
+                </div>
+
+                {/* Content Width */}
+                <div>
+                  <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
+                    Content Width — <span className="text-foreground">{settings.contentWidth}%</span>
+                  </label>
+                  <input
+                    type="range"
+                    min="40"
+                    max="100"
+                    step="5"
+                    value={settings.contentWidth}
+                    onChange={(e) => onUpdate({ contentWidth: parseInt(e.target.value) })}
+                    className="w-full accent-primary"
+                  />
+                </div>
+
+                {/* Margins */}
+                <div>
+                  <label className="text-ui-sm font-medium text-muted-foreground uppercase tracking-wider block mb-2">
+                    Margins — <span className="text-foreground">{settings.margin}px</span>
+                  </label>
+                  <input
+                    type="range"
+                    min="20"
+                    max="120"
+                    step="10"
+                    value={settings.margin}
+                    onChange={(e) => onUpdate({ margin: parseInt(e.target.value) })}
+                    className="w-full accent-primary"
+                  />
+                </div>
+              </>
+            )}
+
+            {/* Per-book settings */}
+            {customized && (
+              <div className="pt-3 border-t border-border/60">
+                <p className="text-xs text-muted-foreground mb-2">These settings apply to this book only.</p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={onSaveAsDefault}
+                    className="flex-1 px-2 py-1.5 rounded-md border border-border text-xs text-foreground hover:bg-accent transition-colors"
+                  >
+                    Use for all books
+                  </button>
+                  <button
+                    onClick={onResetToDefault}
+                    className="flex-1 px-2 py-1.5 rounded-md border border-border text-xs text-muted-foreground hover:bg-accent transition-colors"
+                  >
+                    Reset to default
+                  </button>
+                </div>
+              </div>
+            )}
           </motion.div>
         </>
       )}
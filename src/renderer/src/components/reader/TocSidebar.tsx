@@ -7,38 +7,56 @@ interface TocSidebarProps {
   onClose: () => void
   onNavigate: (href: string) => void
   currentChapter: string
+  /** Add a chapter to the read-aloud queue */
+  onQueue?: (href: string) => void
 }
 
 function TocEntry({
   item,
   depth,
   onNavigate,
-  currentChapter
+  currentChapter,
+  onQueue
 }: {
   item: TocItem
   depth: number
   onNavigate: (href: string) => void
   currentChapter: string
+  onQueue?: (href: string) => void
 }) {
   const isActive = item.label === currentChapter
 
   return (
     <>
-      <button
-        onClick={() => onNavigate(item.href)}
-        className={`w-full text-left px-4 py-2 text-sm transition-all relative
-          ${isActive
-            ? 'bg-primary/10 text-primary font-medium'
-            : 'text-foreground/80 hover:bg-accent hover:text-foreground'}
-        `}
-        style={{ paddingLeft: `${16 + depth * 16}px` }}
-        title={item.label}
-      >
-        {isActive && (
-          <span className="absolute left-0 top-1 bottom-1 w-[3px] rounded-r-full bg-primary" />
+      <div className="relative group">
+        <button
+          onClick={() => onNavigate(item.href)}
+          className={`w-full text-left px-4 py-2 text-sm transition-all relative
+            ${isActive
+              ? 'bg-primary/10 text-primary font-medium'
+              : 'text-foreground/80 hover:bg-accent hover:text-foreground'}
+          `}
+          style={{ paddingLeft: `${16 + depth * 16}px` }}
+          title={item.label}
+        >
+          {isActive && (
+            <span className="absolute left-0 top-1 bottom-1 w-[3px] rounded-r-full bg-primary" />
+          )}
+          <span className="line-clamp-2">{item.label}</span>
+        </button>
+        {onQueue && (
+          <button
+            onClick={() => onQueue(item.href)}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-md bg-card/90 text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-primary hover:bg-accent transition-all"
+            title="Add to listening queue"
+            aria-label={`Add ${item.label} to listening queue`}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M11 12H3" /><path d="M16 6H3" /><path d="M16 18H3" /><path d="M18 9v6" /><path d="M21 12h-6" />
+            </svg>
+          </button>
         )}
-        <span className="line-clamp-2">{item.label}</span>
-      </button>
+      </div>
       {item.subitems?.map((sub) => (
         <TocEntry
           key={sub.id}
@@ -46,13 +64,14 @@ function TocEntry({
           depth={depth + 1}
           onNavigate={onNavigate}
           currentChapter={currentChapter}
+          onQueue={onQueue}
         />
       ))}
     </>
   )
 }
 
-export function TocSidebar({ toc, isOpen, onClose, onNavigate, currentChapter }: TocSidebarProps) {
+export function TocSidebar({ toc, isOpen, onClose, onNavigate, currentChapter, onQueue }: TocSidebarProps) {
   return (
     <AnimatePresence>
       {isOpen && (
@@ -107,6 +126,7 @@ export function TocSidebar({ toc, isOpen, onClose, onNavigate, currentChapter }:
                       onClose()
                     }}
                     currentChapter={currentChapter}
+                    onQueue={onQueue}
                   />
                 ))
               )}
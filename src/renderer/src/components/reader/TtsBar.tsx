@@ -1,19 +1,27 @@
 import { useState } from 'react'
-import { TtsSnapshot, TtsVoice, TTS_RATES, TtsRate } from '@/types'
+import { TtsSnapshot, TtsVoice, TTS_RATES, TtsRate, TtsSleepTimer, TtsSleepTimerSpec } from '@/types'
 import type { UseTtsReturn } from '@/hooks/useTts'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog'
+import { PronunciationEditor } from './PronunciationEditor'
 
 interface TtsBarProps {
   tts: UseTtsReturn
   visible: boolean
   onClose: () => void
+  bookId?: string
 }
 
-export function TtsBar({ tts, visible, onClose }: TtsBarProps) {
+export function TtsBar({ tts, visible, onClose, bookId }: TtsBarProps) {
   const [showVoiceMenu, setShowVoiceMenu] = useState(false)
-  const { snapshot, voices, installed, installing, downloadProgress, error, volume } = tts
+  const [showLexicon, setShowLexicon] = useState(false)
+  const [showSleepMenu, setShowSleepMenu] = useState(false)
+  const [showQueueMenu, setShowQueueMenu] = useState(false)
+  const { snapshot, voices, engines, installed, installing, downloadProgress, error, volume } = tts
 
   if (!visible) return null
 
+  const preferredEngine = tts.engine
+
   // Not installed — show setup card (floating bottom-right)
   if (installed === false) {
     return (
@@ -35,8 +43,25 @@ export function TtsBar({ tts, visible, onClose }: TtsBarProps) {
                 ? downloadProgress?.label || 'Preparando instalación...'
                 : error
                   ? 'Haz clic en reintentar para intentar de nuevo'
-                  : 'Instala Kokoro TTS para leer en voz alta (offline)'}
+                  : `Instala ${engines.find((e) => e.id === preferredEngine)?.label ?? 'Kokoro'} TTS para leer en voz alta (offline)`}
             </p>
+            {!installing && engines.length > 1 && (
+              <div className="mt-1.5 flex gap-1">
+                {engines.map((engine) => (
+                  <button
+                    key={engine.id}
+                    onClick={() => tts.setEngine(engine.id)}
+                    className={`px-2 py-0.5 rounded text-[10px] font-medium transition-all ${
+                      engine.id === preferredEngine
+                        ? 'bg-primary/15 text-primary'
+                        : 'text-muted-foreground hover:text-foreground hover:bg-accent'
+                    }`}
+                  >
+                    {engine.label}
+                  </button>
+                ))}
+              </div>
+            )}
             {installing && (
               <div className="mt-1.5 h-1 bg-border rounded-full overflow-hidden">
                 <div
@@ -48,7 +73,7 @@ export function TtsBar({ tts, visible, onClose }: TtsBarProps) {
           </div>
           {!installing && (
             <button
-              onClick={tts.install}
+              onClick={() => tts.install(preferredEngine)}
               className="px-3 py-1.5 rounded-lg text-xs font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors shrink-0"
             >
               {error ? 'Reintentar' : 'Instalar'}
@@ -74,7 +99,10 @@ export function TtsBar({ tts, visible, onClose }: TtsBarProps) {
   const isPaused = snapshot?.state === 'paused'
   const isLoading = snapshot?.state === 'loading'
 
-  const currentVoice = voices.find((v) => v.id === snapshot?.voiceId) || voices[0]
+  const currentVoice =
+    voices.find((v) => v.id === snapshot?.voiceId && v.engine === snapshot?.engine) ||
+    voices.find((v) => v.installed) ||
+    voices[0]
 
   return (
     <div className="fixed bottom-14 right-4 z-50 bg-popover/95 backdrop-blur-xl rounded-xl shadow-lg border border-border px-3 py-2 animate-in slide-in-from-bottom-2 fade-in duration-200">
@@ -193,22 +221,175 @@ export function TtsBar({ tts, visible, onClose }: TtsBarProps) {
           {showVoiceMenu && (
             <>
               <div className="fixed inset-0 z-[999]" onClick={() => setShowVoiceMenu(false)} />
-              <div className="absolute bottom-full mb-1 left-0 w-48 bg-popover border border-border rounded-lg shadow-lg z-[1000] py-1 animate-in fade-in zoom-in-95 duration-100">
-                {voices.map((voice) => (
+              <div className="absolute bottom-full mb-1 left-0 w-56 max-h-80 overflow-y-auto bg-popover border border-border rounded-lg shadow-lg z-[1000] py-1 animate-in fade-in zoom-in-95 duration-100">
+                {engines.map((engine) => (
+                  <div key={engine.id}>
+                    <div className="flex items-center justify-between px-3 pt-1.5 pb-1">
+                      <span className="text-[10px] font-medium uppercase tracking-wide text-muted-foreground">
+                        {engine.label}
+                      </span>
+                      {!engine.installed && (
+                        <button
+                          onClick={() => tts.install(engine.id)}
+                          disabled={installing}
+                          className="text-[10px] text-primary hover:underline disabled:opacity-50"
+                        >
+                          {installing ? 'Instalando...' : 'Instalar'}
+                        </button>
+                      )}
+                    </div>
+                    {engine.installed &&
+                      voices
+                        .filter((voice) => voice.engine === engine.id)
+                        .map((voice) => {
+                          const selected = voice.id === snapshot?.voiceId && voice.engine === snapshot?.engine
+                          return (
+                            <button
+                              key={voice.id}
+                              onClick={() => {
+                                if (voice.installed) {
+                                  tts.setVoice(voice.id, voice.engine)
+                                  setShowVoiceMenu(false)
+                                } else {
+                                  tts.downloadVoice(voice.id, voice.engine)
+                                }
+                              }}
+                              className={`w-full text-left px-3 py-1.5 text-xs hover:bg-accent transition-colors flex items-center gap-2 ${
+                                selected ? 'text-primary font-medium' : voice.installed ? 'text-foreground' : 'text-muted-foreground'
+                              }`}
+                              title={voice.installed ? undefined : 'Descargar voz'}
+                            >
+                              <span className="flex-1 truncate">{voice.name}</span>
+                              <span className="text-muted-foreground text-[10px]">
+                                {voice.installed ? voice.language : 'Descargar'}
+                              </span>
+                            </button>
+                          )
+                        })}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Pronunciation rules */}
+        <button
+          onClick={() => setShowLexicon(true)}
+          className="px-1.5 py-1 rounded text-xs font-medium text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+          title="Pronunciación"
+        >
+          Aa
+        </button>
+        <Dialog open={showLexicon} onOpenChange={setShowLexicon}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Pronunciation</DialogTitle>
+              <DialogDescription>
+                Words read aloud differently, in this book or in every book. Changes apply from the next sentence.
+              </DialogDescription>
+            </DialogHeader>
+            <PronunciationEditor bookId={bookId} />
+          </DialogContent>
+        </Dialog>
+
+        {/* Sleep timer */}
+        <div className="relative">
+          <button
+            onClick={() => setShowSleepMenu(!showSleepMenu)}
+            className={`flex items-center gap-1 px-1.5 py-1 rounded text-xs transition-colors hover:bg-accent ${
+              snapshot?.sleep ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+            }`}
+            title="Temporizador de apagado"
+          >
+            <MoonIcon size={12} />
+            {snapshot?.sleep && <span className="tabular-nums">{sleepLabel(snapshot.sleep)}</span>}
+          </button>
+
+          {showSleepMenu && (
+            <>
+              <div className="fixed inset-0 z-[999]" onClick={() => setShowSleepMenu(false)} />
+              <div className="absolute bottom-full mb-1 left-0 w-44 bg-popover border border-border rounded-lg shadow-lg z-[1000] py-1 animate-in fade-in zoom-in-95 duration-100">
+                {SLEEP_OPTIONS.map((option) => (
                   <button
-                    key={voice.id}
+                    key={option.label}
                     onClick={() => {
-                      tts.setVoice(voice.id)
-                      setShowVoiceMenu(false)
+                      tts.setSleepTimer(option.spec)
+                      setShowSleepMenu(false)
                     }}
-                    className={`w-full text-left px-3 py-1.5 text-xs hover:bg-accent transition-colors flex items-center gap-2 ${
-                      voice.id === snapshot?.voiceId ? 'text-primary font-medium' : 'text-foreground'
-                    }`}
+                    className="w-full text-left px-3 py-1.5 text-xs text-foreground hover:bg-accent transition-colors"
                   >
-                    <span className="flex-1 truncate">{voice.name}</span>
-                    <span className="text-muted-foreground text-[10px]">{voice.language}</span>
+                    {option.label}
                   </button>
                 ))}
+                {snapshot?.sleep && (
+                  <button
+                    onClick={() => {
+                      tts.setSleepTimer(null)
+                      setShowSleepMenu(false)
+                    }}
+                    className="w-full text-left px-3 py-1.5 text-xs text-muted-foreground hover:bg-accent transition-colors border-t border-border mt-1"
+                  >
+                    Desactivar
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Listening queue */}
+        <div className="relative">
+          <button
+            onClick={() => setShowQueueMenu(!showQueueMenu)}
+            className="flex items-center gap-1 px-1.5 py-1 rounded text-xs text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+            title="Cola de escucha"
+          >
+            <QueueIcon size={12} />
+            {!!snapshot?.queue.length && <span className="tabular-nums">{snapshot.queue.length}</span>}
+          </button>
+
+          {showQueueMenu && (
+            <>
+              <div className="fixed inset-0 z-[999]" onClick={() => setShowQueueMenu(false)} />
+              <div className="absolute bottom-full mb-1 left-0 w-64 max-h-80 overflow-y-auto bg-popover border border-border rounded-lg shadow-lg z-[1000] py-1 animate-in fade-in zoom-in-95 duration-100">
+                {!snapshot?.queue.length ? (
+                  <p className="px-3 py-2 text-xs text-muted-foreground">
+                    La cola está vacía. Añade capítulos desde el índice o libros desde la biblioteca.
+                  </p>
+                ) : (
+                  <>
+                    {snapshot.queue.map((item) => (
+                      <div key={item.id} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+                        <div className="flex-1 min-w-0">
+                          <p className="truncate text-foreground">{item.label || item.title}</p>
+                          {item.label && <p className="truncate text-[10px] text-muted-foreground">{item.title}</p>}
+                        </div>
+                        <button
+                          onClick={() => tts.removeFromQueue(item.id)}
+                          className="p-0.5 rounded text-muted-foreground hover:text-foreground transition-colors"
+                          title="Quitar"
+                        >
+                          <XIcon size={12} />
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex items-center justify-between px-3 pt-1.5 mt-1 border-t border-border">
+                      <button
+                        onClick={() => {
+                          tts.playNextInQueue()
+                          setShowQueueMenu(false)
+                        }}
+                        className="text-[10px] text-primary hover:underline"
+                      >
+                        Reproducir siguiente
+                      </button>
+                      <button onClick={tts.clearQueue} className="text-[10px] text-muted-foreground hover:underline">
+                        Vaciar cola
+                      </button>
+                    </div>
+                  </>
+                )}
               </div>
             </>
           )}
@@ -284,6 +465,24 @@ export function TtsBar({ tts, visible, onClose }: TtsBarProps) {
   )
 }
 
+// ─── Sleep Timer ─────────────────────────────────────
+
+const SLEEP_OPTIONS: { label: string; spec: TtsSleepTimerSpec }[] = [
+  { label: '15 minutos', spec: { mode: 'minutes', minutes: 15 } },
+  { label: '30 minutos', spec: { mode: 'minutes', minutes: 30 } },
+  { label: '45 minutos', spec: { mode: 'minutes', minutes: 45 } },
+  { label: '60 minutos', spec: { mode: 'minutes', minutes: 60 } },
+  { label: 'Fin del capítulo', spec: { mode: 'chapter' } },
+  { label: 'Tras 5 fragmentos', spec: { mode: 'chunks', count: 5 } },
+  { label: 'Tras 20 fragmentos', spec: { mode: 'chunks', count: 20 } }
+]
+
+function sleepLabel(sleep: TtsSleepTimer): string {
+  if (sleep.endsAt !== null) return `${Math.max(0, Math.ceil((sleep.endsAt - Date.now()) / 60_000))}m`
+  if (sleep.chunksLeft !== null) return `×${sleep.chunksLeft}`
+  return 'cap.'
+}
+
 // ─── Icon Components ─────────────────────────────────
 
 function SpeakerIcon({ size = 16, className = '' }: { size?: number; className?: string }) {
@@ -295,6 +494,22 @@ function SpeakerIcon({ size = 16, className = '' }: { size?: number; className?:
   )
 }
 
+function MoonIcon({ size = 16 }: { size?: number }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M12 3a6 6 0 0 0 9 9 9 9 0 1 1-9-9Z" />
+    </svg>
+  )
+}
+
+function QueueIcon({ size = 16 }: { size?: number }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M16 12H3" /><path d="M16 6H3" /><path d="M10 18H3" /><path d="M21 6v10a2 2 0 0 1-2 2h-5" /><path d="m16 16-2 2 2 2" />
+    </svg>
+  )
+}
+
 function XIcon({ size = 16 }: { size?: number }) {
   return (
     <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { fileUrl } from '@/lib/utils'
+import { fileUrl, formatMinutes } from '@/lib/utils'
 import { motion } from 'framer-motion'
 import {
   BookOpen,
@@ -148,6 +148,16 @@ export function ReentryRecap({
             <span className="text-xs font-medium text-primary">Where you left off</span>
           </div>
           <p className="text-sm font-medium text-foreground">{chapter}</p>
+          {data.timeLeft && (
+            <p
+              className="text-xs text-muted-foreground mt-1"
+              title={`At ${data.timeLeft.wpm} words/min${data.timeLeft.calibrated ? ', your recent reading speed' : ''}`}
+            >
+              {data.timeLeft.chapterMinutes !== null &&
+                `About ${formatMinutes(data.timeLeft.chapterMinutes)} left in this chapter · `}
+              {formatMinutes(data.timeLeft.bookMinutes)} to finish the book
+            </p>
+          )}
         </motion.div>
 
         {/* Stats */}
@@ -0,0 +1,269 @@
+import { useState, useEffect, useCallback, Fragment } from 'react'
+import { motion } from 'framer-motion'
+import { Layers, Pencil, EyeOff, BookOpen, Check } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { ReviewCard, ReviewGrade } from '@/types'
+import { useReview } from '@/hooks/useReview'
+
+interface ReviewViewProps {
+  onOpenBook?: (bookId: string) => void
+}
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; key: string; className: string }[] = [
+  { grade: 'again', label: 'Again', key: '1', className: 'hover:border-destructive/40 hover:text-destructive' },
+  { grade: 'hard', label: 'Hard', key: '2', className: 'hover:border-amber-500/40 hover:text-amber-600' },
+  { grade: 'good', label: 'Good', key: '3', className: 'hover:border-primary/40 hover:text-primary' },
+  { grade: 'easy', label: 'Easy', key: '4', className: 'hover:border-emerald-500/40 hover:text-emerald-600' }
+]
+
+function formatInterval(days: number): string {
+  if (days < 1) return `${Math.max(1, Math.round(days * 24 * 60))}m`
+  if (days < 30) return `${Math.round(days)}d`
+  if (days < 365) return `${Math.round(days / 30)}mo`
+  return `${(days / 365).toFixed(1)}y`
+}
+
+/** Render {{cloze}} spans as blanks, or highlighted once revealed */
+function ClozeText({ text, revealed }: { text: string; revealed: boolean }): JSX.Element {
+  const parts = text.split(/\{\{(.+?)\}\}/g)
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 0 ? (
+          <Fragment key={i}>{part}</Fragment>
+        ) : revealed ? (
+          <span key={i} className="px-1 rounded bg-primary/10 text-primary font-semibold">
+            {part}
+          </span>
+        ) : (
+          <span key={i} className="inline-block min-w-[3em] border-b-2 border-primary/50 text-transparent select-none">
+            {'_'.repeat(Math.min(part.length, 12))}
+          </span>
+        )
+      )}
+    </>
+  )
+}
+
+function CardEditor({
+  card,
+  onSave,
+  onCancel
+}: {
+  card: ReviewCard
+  onSave: (data: { front: string; back: string | null }) => void
+  onCancel: () => void
+}): JSX.Element {
+  const [front, setFront] = useState(card.front)
+  const [back, setBack] = useState(card.back ?? '')
+
+  return (
+    <div className="space-y-3">
+      <label className="block">
+        <span className="text-ui-xs font-medium text-muted-foreground">
+          {card.kind === 'cloze' ? 'Text (wrap hidden words in {{double braces}})' : 'Front'}
+        </span>
+        <textarea
+          value={front}
+          onChange={(e) => setFront(e.target.value)}
+          rows={4}
+          className="mt-1 w-full px-3 py-2 text-ui-sm border border-border/50 rounded-xl bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary/30 resize-none"
+        />
+      </label>
+      {card.kind === 'basic' && (
+        <label className="block">
+          <span className="text-ui-xs font-medium text-muted-foreground">Back</span>
+          <textarea
+            value={back}
+            onChange={(e) => setBack(e.target.value)}
+            rows={3}
+            className="mt-1 w-full px-3 py-2 text-ui-sm border border-border/50 rounded-xl bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary/30 resize-none"
+          />
+        </label>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          disabled={!front.trim()}
+          onClick={() => onSave({ front: front.trim(), back: card.kind === 'basic' ? back.trim() || null : null })}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export function ReviewView({ onOpenBook }: ReviewViewProps): JSX.Element {
+  const { queue, current, counts, loading, reviewedCount, grade, updateCard, suspendCard } = useReview()
+  const [revealed, setRevealed] = useState(false)
+  const [editing, setEditing] = useState(false)
+
+  useEffect(() => {
+    setRevealed(false)
+    setEditing(false)
+  }, [current?.id, reviewedCount])
+
+  const handleGrade = useCallback(
+    (g: ReviewGrade) => {
+      if (!revealed) return
+      grade(g)
+    },
+    [revealed, grade]
+  )
+
+  // Space reveals, 1–4 grade
+  useEffect(() => {
+    if (!current || editing) return
+    const onKey = (e: KeyboardEvent): void => {
+      const target = e.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
+      if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault()
+        setRevealed(true)
+        return
+      }
+      const button = GRADE_BUTTONS.find((b) => b.key === e.key)
+      if (button) handleGrade(button.grade)
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [current, editing, handleGrade])
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (!current) {
+    const empty = !counts || counts.total === 0
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center text-center px-6">
+        <div className="h-16 w-16 rounded-2xl bg-muted/30 flex items-center justify-center mb-4">
+          {empty ? (
+            <Layers className="h-7 w-7 text-muted-foreground/30" />
+          ) : (
+            <Check className="h-7 w-7 text-primary/60" />
+          )}
+        </div>
+        <p className="text-ui-lg font-medium text-foreground mb-1">
+          {empty ? 'No flashcards yet' : 'All caught up'}
+        </p>
+        <p className="text-ui-sm text-muted-foreground/70">
+          {empty
+            ? 'Highlights and notes you make while reading become flashcards here'
+            : reviewedCount > 0
+              ? `You reviewed ${reviewedCount} ${reviewedCount === 1 ? 'card' : 'cards'}. Come back later for more.`
+              : 'Nothing is due right now. Come back later for more.'}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 flex flex-col overflow-y-auto">
+      <div className="w-full max-w-2xl mx-auto px-6 py-8 flex-1 flex flex-col">
+        {/* Queue status */}
+        <div className="flex items-center justify-between mb-4 text-ui-xs text-muted-foreground">
+          <span className="tabular-nums">
+            {queue.length} left{counts && counts.new > 0 ? ` · ${counts.new} new` : ''}
+          </span>
+          <span className="tabular-nums">{reviewedCount} reviewed</span>
+        </div>
+
+        <motion.div
+          key={current.id + String(current.repetitions) + current.due_at}
+          initial={{ opacity: 0, y: 8 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.2 }}
+          className="rounded-xl border border-border/50 bg-card/80 p-6"
+        >
+          {/* Source */}
+          <div className="flex items-center gap-2 mb-5">
+            {current.highlight_color && (
+              <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: current.highlight_color }} />
+            )}
+            <button
+              onClick={() => onOpenBook?.(current.book_id)}
+              className="flex items-center gap-1.5 text-ui-xs text-muted-foreground hover:text-primary transition-colors truncate"
+            >
+              <BookOpen className="h-3.5 w-3.5 shrink-0" />
+              <span className="truncate">
+                {current.book_title}
+                {current.chapter ? ` · ${current.chapter}` : ''}
+              </span>
+            </button>
+            <div className="ml-auto flex items-center gap-1">
+              <Button variant="ghost" size="icon" className="h-7 w-7" title="Edit card" onClick={() => setEditing(true)}>
+                <Pencil className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" title="Suspend card" onClick={suspendCard}>
+                <EyeOff className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+
+          {editing ? (
+            <CardEditor
+              card={current}
+              onCancel={() => setEditing(false)}
+              onSave={async (data) => {
+                await updateCard(data)
+                setEditing(false)
+              }}
+            />
+          ) : (
+            <>
+              <p className="text-ui-lg leading-relaxed text-foreground whitespace-pre-wrap">
+                {current.kind === 'cloze' ? <ClozeText text={current.front} revealed={revealed} /> : current.front}
+              </p>
+              {revealed && current.kind === 'basic' && current.back && (
+                <>
+                  <div className="my-5 h-px bg-border/50" />
+                  <p className="text-ui-base leading-relaxed text-foreground whitespace-pre-wrap">{current.back}</p>
+                </>
+              )}
+            </>
+          )}
+        </motion.div>
+
+        {/* Answer controls */}
+        {!editing && (
+          <div className="mt-6">
+            {!revealed ? (
+              <Button className="w-full" onClick={() => setRevealed(true)}>
+                Show answer
+                <span className="ml-2 text-xs opacity-60">Space</span>
+              </Button>
+            ) : (
+              <div className="grid grid-cols-4 gap-2">
+                {GRADE_BUTTONS.map((b) => (
+                  <button
+                    key={b.grade}
+                    onClick={() => handleGrade(b.grade)}
+                    className={cn(
+                      'flex flex-col items-center gap-0.5 py-2.5 rounded-xl border border-border/50 bg-card/50 text-foreground transition-all',
+                      b.className
+                    )}
+                  >
+                    <span className="text-ui-sm font-medium">{b.label}</span>
+                    <span className="text-xs text-muted-foreground tabular-nums">
+                      {formatInterval(current.intervals[b.grade])} · {b.key}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
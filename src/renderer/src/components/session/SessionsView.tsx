@@ -146,6 +146,16 @@ export function SessionsView({ onOpenBook }: SessionsViewProps): JSX.Element {
                         Focus
                       </span>
                     )}
+                    {session.session_type === 'review' && (
+                      <span className="shrink-0 px-1.5 py-0.5 text-xs font-medium rounded-md bg-muted text-muted-foreground border border-border/50">
+                        Review
+                      </span>
+                    )}
+                    {session.session_type === 'listening' && (
+                      <span className="shrink-0 px-1.5 py-0.5 text-xs font-medium rounded-md bg-muted text-muted-foreground border border-border/50">
+                        Listening
+                      </span>
+                    )}
                     <span className="shrink-0 text-ui-xs text-muted-foreground font-mono">
                       {formatDate(session.start_time)}
                     </span>
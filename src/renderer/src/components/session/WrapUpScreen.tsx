@@ -88,6 +88,16 @@ export function WrapUpScreen({
           />
         </div>
 
+        {/* Reading pace */}
+        {snapshot.wordsRead > 0 && (
+          <p className="-mt-5 mb-8 text-center text-ui-xs text-muted-foreground font-mono tabular-nums">
+            {snapshot.wordsRead.toLocaleString()} words across {snapshot.pagesViewed} page
+            {snapshot.pagesViewed !== 1 ? 's' : ''}
+            {snapshot.activeMs >= 60000 &&
+              ` · ${Math.round(snapshot.wordsRead / (snapshot.activeMs / 60000))} wpm`}
+          </p>
+        )}
+
         {/* Pomodoro stats */}
         {snapshot.pomodoroEnabled && snapshot.completedPomodoros > 0 && (
           <div className="mb-8 p-4 rounded-xl bg-primary/[0.04] border border-primary/15">
@@ -6,6 +6,13 @@ import {
   LayoutGrid,
   Volume2,
   Keyboard,
+  Cloud,
+  Archive,
+  FolderInput,
+  Speech,
+  Type,
+  BookA,
+  X,
   ChevronRight
 } from 'lucide-react'
 import { ScrollArea } from '@/components/ui/scroll-area'
@@ -13,7 +20,13 @@ import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 import { useTheme, type ThemeMode } from '@/components/ThemeProvider'
 import { type AppSettings } from '@/hooks/useSettings'
-import { FONT_FAMILIES } from '@/types'
+import { useSync } from '@/hooks/useSync'
+import { useWatchFolders } from '@/hooks/useWatchFolders'
+import { useCategories } from '@/hooks/useCategories'
+import { useTypography } from '@/hooks/useTypography'
+import { useDictionaries } from '@/hooks/useDictionaries'
+import { PronunciationEditor } from '@/components/reader/PronunciationEditor'
+import { BackupImportSummary, Dictionary, DictionaryKind, FONT_FAMILIES, FirebaseOptions, TypographyProfile } from '@/types'
 
 // ─── Types ──────────────────────────────────────────
 
@@ -25,17 +38,29 @@ interface SettingsViewProps {
 type SettingsSection =
   | 'appearance'
   | 'reading'
+  | 'typography'
+  | 'dictionaries'
   | 'sessions'
   | 'focuswalls'
   | 'soundscapes'
+  | 'speech'
+  | 'library'
+  | 'sync'
+  | 'backup'
   | 'shortcuts'
 
 const SECTIONS: { id: SettingsSection; label: string; icon: typeof Palette }[] = [
   { id: 'appearance', label: 'Appearance', icon: Palette },
   { id: 'reading', label: 'Reading', icon: BookOpen },
+  { id: 'typography', label: 'Typography', icon: Type },
+  { id: 'dictionaries', label: 'Dictionaries', icon: BookA },
   { id: 'sessions', label: 'Sessions', icon: Timer },
   { id: 'focuswalls', label: 'Focus Walls', icon: LayoutGrid },
   { id: 'soundscapes', label: 'Soundscapes', icon: Volume2 },
+  { id: 'speech', label: 'Read Aloud', icon: Speech },
+  { id: 'library', label: 'Watched Folders', icon: FolderInput },
+  { id: 'sync', label: 'Cloud Sync', icon: Cloud },
+  { id: 'backup', label: 'Backup', icon: Archive },
   { id: 'shortcuts', label: 'Keyboard Shortcuts', icon: Keyboard }
 ]
 
@@ -81,6 +106,8 @@ export function SettingsView({ settings, onSetSetting }: SettingsViewProps): JSX
           {activeSection === 'reading' && (
             <ReadingSection settings={settings} onSetSetting={onSetSetting} />
           )}
+          {activeSection === 'typography' && <TypographySection />}
+          {activeSection === 'dictionaries' && <DictionariesSection />}
           {activeSection === 'sessions' && (
             <SessionsSection settings={settings} onSetSetting={onSetSetting} />
           )}
@@ -90,6 +117,10 @@ export function SettingsView({ settings, onSetSetting }: SettingsViewProps): JSX
           {activeSection === 'soundscapes' && (
             <SoundscapesSection settings={settings} onSetSetting={onSetSetting} />
           )}
+          {activeSection === 'speech' && <ReadAloudSection />}
+          {activeSection === 'library' && <WatchedFoldersSection />}
+          {activeSection === 'sync' && <SyncSection />}
+          {activeSection === 'backup' && <BackupSection />}
           {activeSection === 'shortcuts' && <ShortcutsSection />}
         </div>
       </ScrollArea>
@@ -337,6 +368,239 @@ function ReadingSection({ settings, onSetSetting }: {
   )
 }
 
+// ─── Section: Typography ────────────────────────────
+
+function profileSummary(profile: TypographyProfile): string {
+  const font =
+    FONT_FAMILIES.find((f) => f.value === profile.font_family)?.label ??
+    profile.font_family.split(',')[0].replace(/"/g, '')
+  const styles = { override: 'replaces book styles', blend: 'blends with book styles', keep: 'keeps book styles' }
+  return `${font} · ${profile.font_size}px · ${profile.line_height} line height · ${styles[profile.publisher_styles]}`
+}
+
+function TypographySection(): JSX.Element {
+  const { fonts, profiles, importFonts, deleteFont, updateProfile, deleteProfile, assignCategory } = useTypography()
+  const { categories, refresh: refreshCategories } = useCategories()
+  const [importMessage, setImportMessage] = useState<string | null>(null)
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null)
+
+  const handleImport = async (): Promise<void> => {
+    setImportMessage(null)
+    const result = await importFonts()
+    if (result.errors?.length) setImportMessage(result.errors.join('; '))
+    else if (!result.success && result.error !== 'Cancelled') setImportMessage(result.error ?? 'Import failed')
+  }
+
+  const handleRename = async (): Promise<void> => {
+    if (!renaming) return
+    const name = renaming.name.trim()
+    if (name) await updateProfile(renaming.id, { name })
+    setRenaming(null)
+  }
+
+  const handleAssign = async (categoryId: string, profileId: string | null): Promise<void> => {
+    await assignCategory(categoryId, profileId)
+    await refreshCategories()
+  }
+
+  const profileOptions = [
+    { label: 'None', value: '' },
+    ...profiles.map((p) => ({ label: p.name, value: p.id }))
+  ]
+
+  return (
+    <>
+      <SettingGroup
+        title="Fonts"
+        description="TTF, OTF, WOFF and WOFF2 files you import can be picked in the reader's font menu"
+      >
+        {fonts.map((font) => (
+          <SettingRow
+            key={font.id}
+            label={font.family}
+            description={`${font.weight}${font.style === 'italic' ? ' italic' : ''} · ${font.format}`}
+          >
+            <button
+              onClick={() => deleteFont(font.id)}
+              className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+              title="Remove font"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </SettingRow>
+        ))}
+        <SettingRow
+          label={fonts.length === 0 ? 'No fonts imported yet' : 'Add more fonts'}
+          description={importMessage ?? 'Import each weight and italic of a family to use them all'}
+        >
+          <Button size="sm" onClick={handleImport}>
+            Import fonts
+          </Button>
+        </SettingRow>
+      </SettingGroup>
+
+      <SettingGroup
+        title="Profiles"
+        description="Saved from the reader's settings panel. A profile set on a book wins over its category's"
+      >
+        {profiles.length === 0 && (
+          <SettingRow label="No profiles yet" description="Open a book, adjust its typography and choose Save as profile">
+            <span />
+          </SettingRow>
+        )}
+        {profiles.map((profile) => (
+          <SettingRow key={profile.id} label={profile.name} description={profileSummary(profile)}>
+            <div className="flex items-center gap-2">
+              {renaming?.id === profile.id ? (
+                <input
+                  autoFocus
+                  value={renaming.name}
+                  onChange={(e) => setRenaming({ id: profile.id, name: e.target.value })}
+                  onBlur={handleRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename()
+                    if (e.key === 'Escape') setRenaming(null)
+                  }}
+                  className={TEXT_INPUT_CLASS}
+                />
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => setRenaming({ id: profile.id, name: profile.name })}>
+                  Rename
+                </Button>
+              )}
+              <button
+                onClick={async () => {
+                  await deleteProfile(profile.id)
+                  await refreshCategories()
+                }}
+                className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                title="Delete profile"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </SettingRow>
+        ))}
+      </SettingGroup>
+
+      {categories.length > 0 && profiles.length > 0 && (
+        <SettingGroup title="Categories" description="Books in a category read with its profile unless they have their own">
+          {categories.map((category) => (
+            <SettingRow key={category.id} label={category.name}>
+              <Select
+                value={category.typography_profile_id ?? ''}
+                onChange={(v) => handleAssign(category.id, v || null)}
+                options={profileOptions}
+              />
+            </SettingRow>
+          ))}
+        </SettingGroup>
+      )}
+    </>
+  )
+}
+
+// ─── Section: Dictionaries ──────────────────────────
+
+const DICTIONARY_KINDS: { label: string; value: DictionaryKind }[] = [
+  { label: 'Dictionary', value: 'dictionary' },
+  { label: 'Wikipedia', value: 'encyclopedia' },
+  { label: 'Translation', value: 'translation' }
+]
+
+const LANGUAGE_INPUT_CLASS =
+  'h-8 w-14 rounded-lg border border-border/60 bg-background px-2 text-ui-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring/40 transition-shadow'
+
+function dictionarySummary(dictionary: Dictionary): string {
+  const format = dictionary.format === 'stardict' ? 'StarDict' : 'DICT'
+  return `${format} · ${dictionary.word_count.toLocaleString()} entries`
+}
+
+function DictionariesSection(): JSX.Element {
+  const { dictionaries, installDictionaries, updateDictionary, deleteDictionary, openFolder, refresh } =
+    useDictionaries()
+  const [message, setMessage] = useState<string | null>(null)
+
+  const handleInstall = async (): Promise<void> => {
+    setMessage(null)
+    const result = await installDictionaries()
+    if (result.errors?.length) setMessage(result.errors.join('; '))
+    else if (!result.success && result.error !== 'Cancelled') setMessage(result.error ?? 'Install failed')
+  }
+
+  const handleDelete = async (id: string): Promise<void> => {
+    const result = await deleteDictionary(id)
+    if (!result.success) setMessage(result.error ?? 'Could not remove the dictionary')
+  }
+
+  // Language codes are saved when the field loses focus
+  const languageInput = (dictionary: Dictionary, field: 'source_language' | 'target_language'): JSX.Element => (
+    <input
+      key={`${dictionary.id}:${field}:${dictionary[field] ?? ''}`}
+      defaultValue={dictionary[field] ?? ''}
+      placeholder={field === 'source_language' ? 'from' : 'to'}
+      onBlur={(e) => {
+        const value = e.target.value.trim().toLowerCase() || null
+        if (value !== dictionary[field]) updateDictionary(dictionary.id, { [field]: value })
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur()
+      }}
+      className={LANGUAGE_INPUT_CLASS}
+    />
+  )
+
+  return (
+    <>
+      <SettingGroup
+        title="Dictionaries"
+        description="Used by the reader's lookup panel, matched to each book's language code (en, es, de…). Translation dictionaries only serve books in their source language"
+      >
+        {dictionaries.map((dictionary) => (
+          <SettingRow key={dictionary.id} label={dictionary.name} description={dictionarySummary(dictionary)}>
+            <div className="flex items-center gap-2">
+              <Select
+                value={dictionary.kind}
+                onChange={(v) => updateDictionary(dictionary.id, { kind: v as DictionaryKind })}
+                options={DICTIONARY_KINDS}
+              />
+              {languageInput(dictionary, 'source_language')}
+              {dictionary.kind === 'translation' && languageInput(dictionary, 'target_language')}
+              <Toggle
+                checked={dictionary.enabled === 1}
+                onChange={(v) => updateDictionary(dictionary.id, { enabled: v })}
+              />
+              <button
+                onClick={() => handleDelete(dictionary.id)}
+                className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                title="Remove dictionary"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </SettingRow>
+        ))}
+        <SettingRow
+          label={dictionaries.length === 0 ? 'No dictionaries installed yet' : 'Add more dictionaries'}
+          description={message ?? 'Pick the .ifo, .idx and .dict files together, a DICT .index and .dict, or a zip of them'}
+        >
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={openFolder}>
+              Open folder
+            </Button>
+            <Button variant="outline" size="sm" onClick={refresh}>
+              Rescan
+            </Button>
+            <Button size="sm" onClick={handleInstall}>
+              Install
+            </Button>
+          </div>
+        </SettingRow>
+      </SettingGroup>
+    </>
+  )
+}
+
 // ─── Section: Sessions ──────────────────────────────
 
 function SessionsSection({ settings, onSetSetting }: {
@@ -476,12 +740,327 @@ function SoundscapesSection({ settings, onSetSetting }: {
   )
 }
 
+// ─── Section: Read Aloud ────────────────────────────
+
+function ReadAloudSection(): JSX.Element {
+  return (
+    <SettingGroup
+      title="Pronunciation"
+      description="Words read aloud differently in every book. Rules for a single book are added from the read-aloud bar in the reader"
+    >
+      <PronunciationEditor className="px-5 py-4" />
+      <p className="px-5 pb-4 text-ui-xs text-muted-foreground">
+        In English books, numbers, dates, times, prices, units, web addresses and chapter numerals are spelled out
+        automatically before they are read. Your pronunciations are applied first.
+      </p>
+    </SettingGroup>
+  )
+}
+
+// ─── Section: Watched Folders ───────────────────────
+
+function WatchedFoldersSection(): JSX.Element {
+  const { config, status, updateConfig, addFolder, removeFolder, scanNow, clearErrors } = useWatchFolders()
+  const { categories } = useCategories()
+
+  if (!config) return <></>
+
+  const activity =
+    status?.state === 'importing'
+      ? `Importing ${status.current ?? ''}${status.queued > 0 ? ` · ${status.queued} waiting` : ''}`
+      : status?.state === 'scanning'
+        ? 'Scanning folders...'
+        : status && status.imported > 0
+          ? `${status.imported} imported since FlareRead started`
+          : 'Waiting for new books'
+
+  return (
+    <>
+      <SettingGroup
+        title="Watched folders"
+        description="New EPUB and PDF files saved in these folders are added to your library automatically"
+      >
+        <SettingRow label="Import automatically" description={config.enabled ? activity : 'Paused'}>
+          <div className="flex items-center gap-3">
+            {config.enabled && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={scanNow}
+                disabled={status?.state !== 'idle' || config.folders.length === 0}
+              >
+                Scan now
+              </Button>
+            )}
+            <Toggle checked={config.enabled} onChange={(v) => updateConfig({ enabled: v })} />
+          </div>
+        </SettingRow>
+        {config.folders.map((folder) => (
+          <SettingRow
+            key={folder}
+            label={folder}
+            description={status?.unavailable.includes(folder) ? 'Not available — check that the folder or drive exists' : undefined}
+          >
+            <button
+              onClick={() => removeFolder(folder)}
+              className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+              title="Stop watching"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </SettingRow>
+        ))}
+        <SettingRow label={config.folders.length === 0 ? 'No folders yet' : 'Add another folder'}>
+          <Button size="sm" onClick={addFolder}>
+            Add folder
+          </Button>
+        </SettingRow>
+      </SettingGroup>
+
+      <SettingGroup title="New books" description="Applied to every book imported from a watched folder">
+        <SettingRow label="Category">
+          <Select
+            value={config.categoryId ?? ''}
+            onChange={(v) => updateConfig({ categoryId: v || null })}
+            options={[
+              { label: 'None', value: '' },
+              ...categories.map((c) => ({ label: c.name, value: c.id }))
+            ]}
+          />
+        </SettingRow>
+        <SettingRow label="Reading mode">
+          <Select
+            value={config.readingMode ?? ''}
+            onChange={(v) => updateConfig({ readingMode: (v || null) as 'study' | 'leisure' | null })}
+            options={[
+              { label: 'None', value: '' },
+              { label: 'Study', value: 'study' },
+              { label: 'Leisure', value: 'leisure' }
+            ]}
+          />
+        </SettingRow>
+      </SettingGroup>
+
+      {status && status.errors.length > 0 && (
+        <SettingGroup title="Problems" description="Files that could not be imported">
+          {status.errors.map((err) => (
+            <SettingRow key={`${err.path}-${err.at}`} label={err.path.split(/[\\/]/).pop() ?? err.path} description={err.error}>
+              <span className="text-ui-xs text-muted-foreground">{new Date(err.at).toLocaleTimeString()}</span>
+            </SettingRow>
+          ))}
+          <SettingRow label="Clear the list">
+            <Button variant="outline" size="sm" onClick={clearErrors}>
+              Clear
+            </Button>
+          </SettingRow>
+        </SettingGroup>
+      )}
+    </>
+  )
+}
+
+// ─── Section: Cloud Sync ────────────────────────────
+
+const FIREBASE_FIELDS: { key: keyof FirebaseOptions; label: string }[] = [
+  { key: 'apiKey', label: 'API key' },
+  { key: 'authDomain', label: 'Auth domain' },
+  { key: 'projectId', label: 'Project ID' },
+  { key: 'storageBucket', label: 'Storage bucket' },
+  { key: 'appId', label: 'App ID' }
+]
+
+const EMPTY_FIREBASE: FirebaseOptions = { apiKey: '', authDomain: '', projectId: '', storageBucket: '', appId: '' }
+
+const TEXT_INPUT_CLASS =
+  'h-8 w-56 rounded-lg border border-border/60 bg-background px-2.5 text-ui-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring/40 transition-shadow'
+
+function SyncSection(): JSX.Element {
+  const { config, status, updateConfig, signIn, signOut, syncNow } = useSync()
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [signInError, setSignInError] = useState<string | null>(null)
+  const [signingIn, setSigningIn] = useState(false)
+
+  if (!config) return <></>
+
+  const firebase = config.firebase ?? EMPTY_FIREBASE
+
+  const handleSignIn = async (): Promise<void> => {
+    setSigningIn(true)
+    setSignInError(null)
+    const error = await signIn(email.trim(), password)
+    setSigningIn(false)
+    setSignInError(error)
+    if (!error) setPassword('')
+  }
+
+  return (
+    <>
+      <SettingGroup
+        title="Account"
+        description="Sync books, progress, highlights and notes with the FlareRead web app"
+      >
+        {status?.signedIn ? (
+          <>
+            <SettingRow label="Signed in" description={config.email ?? undefined}>
+              <Button variant="outline" size="sm" onClick={signOut}>
+                Sign out
+              </Button>
+            </SettingRow>
+            <SettingRow
+              label="Last sync"
+              description={
+                status.state === 'error'
+                  ? status.lastError ?? 'Sync failed'
+                  : status.counts
+                    ? `${status.counts.pushed} sent · ${status.counts.pulled} received · ${status.counts.deleted} deleted`
+                    : undefined
+              }
+            >
+              <div className="flex items-center gap-3">
+                <span className="text-ui-xs text-muted-foreground">
+                  {status.lastSyncAt ? new Date(status.lastSyncAt).toLocaleString() : 'Never'}
+                </span>
+                <Button size="sm" onClick={syncNow} disabled={status.state === 'syncing'}>
+                  {status.state === 'syncing' ? 'Syncing...' : 'Sync now'}
+                </Button>
+              </div>
+            </SettingRow>
+          </>
+        ) : (
+          <>
+            <SettingRow label="Email">
+              <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={TEXT_INPUT_CLASS} />
+            </SettingRow>
+            <SettingRow label="Password" description={signInError ?? undefined}>
+              <div className="flex items-center gap-2">
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSignIn()}
+                  className={cn(TEXT_INPUT_CLASS, 'w-40')}
+                />
+                <Button size="sm" onClick={handleSignIn} disabled={signingIn || !email || !password}>
+                  {signingIn ? 'Signing in...' : 'Sign in'}
+                </Button>
+              </div>
+            </SettingRow>
+          </>
+        )}
+        <SettingRow label="Sync interval" description="How often to sync in the background">
+          <NumberInput
+            value={config.intervalMinutes}
+            onChange={(v) => updateConfig({ intervalMinutes: v })}
+            min={1}
+            max={240}
+            suffix="min"
+          />
+        </SettingRow>
+      </SettingGroup>
+
+      <SettingGroup title="Firebase project" description="Web app config from the Firebase console">
+        {FIREBASE_FIELDS.map((field) => (
+          <SettingRow key={field.key} label={field.label}>
+            <input
+              type="text"
+              defaultValue={firebase[field.key]}
+              onBlur={(e) => {
+                if (e.target.value.trim() === firebase[field.key]) return
+                updateConfig({ firebase: { ...firebase, [field.key]: e.target.value.trim() } })
+              }}
+              className={TEXT_INPUT_CLASS}
+            />
+          </SettingRow>
+        ))}
+        <SettingRow label="Emulator host" description="For development, e.g. localhost:8080">
+          <input
+            type="text"
+            defaultValue={config.emulatorHost ?? ''}
+            placeholder="Off"
+            onBlur={(e) => {
+              const value = e.target.value.trim() || null
+              if (value !== config.emulatorHost) updateConfig({ emulatorHost: value })
+            }}
+            className={TEXT_INPUT_CLASS}
+          />
+        </SettingRow>
+      </SettingGroup>
+    </>
+  )
+}
+
+// ─── Section: Backup ────────────────────────────────
+
+type BackupResult = { success: true; filePath?: string; summary?: BackupImportSummary } | { success: false; error: string }
+
+function BackupSection(): JSX.Element {
+  const [busy, setBusy] = useState<'export' | 'merge' | 'replace' | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const handleExport = async (): Promise<void> => {
+    setBusy('export')
+    setMessage(null)
+    const result = (await window.appApi.exportLibrary()) as BackupResult
+    setBusy(null)
+    if (result.success) setMessage(`Backup saved to ${result.filePath}`)
+    else if (result.error !== 'Cancelled') setMessage(`Export failed: ${result.error}`)
+  }
+
+  const handleImport = async (mode: 'merge' | 'replace'): Promise<void> => {
+    if (
+      mode === 'replace' &&
+      !window.confirm('Replace your whole library with the backup? Books, progress, notes and sessions not in the backup will be deleted.')
+    ) {
+      return
+    }
+    setBusy(mode)
+    setMessage(null)
+    const result = (await window.appApi.importLibrary(mode)) as BackupResult
+    setBusy(null)
+    if (!result.success) {
+      if (result.error !== 'Cancelled') setMessage(`Import failed: ${result.error}`)
+      return
+    }
+    // Every view caches library data, so start over from the restored database
+    window.location.reload()
+  }
+
+  return (
+    <>
+      <SettingGroup
+        title="Export"
+        description="Save books, covers, progress, sessions, highlights, notes and goals to a single file"
+      >
+        <SettingRow label="Back up library" description={message ?? undefined}>
+          <Button size="sm" onClick={handleExport} disabled={busy !== null}>
+            {busy === 'export' ? 'Exporting...' : 'Export backup'}
+          </Button>
+        </SettingRow>
+      </SettingGroup>
+
+      <SettingGroup title="Restore" description="Load a backup made on this or another computer">
+        <SettingRow label="Merge" description="Add books and annotations from the backup, keeping everything already here">
+          <Button variant="outline" size="sm" onClick={() => handleImport('merge')} disabled={busy !== null}>
+            {busy === 'merge' ? 'Importing...' : 'Merge backup'}
+          </Button>
+        </SettingRow>
+        <SettingRow label="Replace" description="Make this library an exact copy of the backup">
+          <Button variant="outline" size="sm" onClick={() => handleImport('replace')} disabled={busy !== null}>
+            {busy === 'replace' ? 'Restoring...' : 'Replace library'}
+          </Button>
+        </SettingRow>
+      </SettingGroup>
+    </>
+  )
+}
+
 // ─── Section: Keyboard Shortcuts ────────────────────
 
 const SHORTCUTS = [
   { action: 'Open command palette', keys: ['Ctrl', 'K'] },
   { action: 'Open settings', keys: ['Ctrl', ','] },
-  { action: 'Import EPUB', keys: ['Ctrl', 'O'] },
+  { action: 'Import Book', keys: ['Ctrl', 'O'] },
   { action: 'Toggle fullscreen', keys: ['F11'] },
   { action: 'Toggle theme', keys: ['Sidebar button'] },
   { action: 'Next page (reader)', keys: ['Arrow Right'] },
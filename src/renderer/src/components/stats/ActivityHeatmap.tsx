@@ -0,0 +1,124 @@
+import { useMemo } from 'react'
+import { DailyActivity } from '@/types'
+import { HEATMAP_WEEKS } from '@/hooks/useStats'
+import { cn, formatMinutes } from '@/lib/utils'
+
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', '']
+
+/** Background per intensity level, from no reading to the busiest days */
+const LEVELS = ['bg-muted/60', 'bg-primary/20', 'bg-primary/40', 'bg-primary/65', 'bg-primary']
+
+function localDateKey(d: Date): string {
+  const m = String(d.getMonth() + 1).padStart(2, '0')
+  const day = String(d.getDate()).padStart(2, '0')
+  return `${d.getFullYear()}-${m}-${day}`
+}
+
+/** Quartiles of the active days, so one marathon day doesn't wash out the rest */
+function levelFor(minutes: number, thresholds: number[]): number {
+  if (minutes <= 0) return 0
+  const index = thresholds.findIndex((t) => minutes <= t)
+  return index === -1 ? LEVELS.length - 1 : index + 1
+}
+
+interface ActivityHeatmapProps {
+  days: DailyActivity[]
+}
+
+export function ActivityHeatmap({ days }: ActivityHeatmapProps): JSX.Element {
+  const { weeks, months, activeDays, thresholds } = useMemo(() => {
+    const byDay = new Map(days.map((d) => [d.day, d]))
+
+    // Columns are Monday-first weeks, ending with the current one
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+    const start = new Date(today)
+    start.setDate(start.getDate() - ((today.getDay() + 6) % 7) - (HEATMAP_WEEKS - 1) * 7)
+
+    const weeks: { key: string; date: Date; activity?: DailyActivity; future: boolean }[][] = []
+    const months: { week: number; label: string }[] = []
+    const cursor = new Date(start)
+    for (let w = 0; w < HEATMAP_WEEKS; w++) {
+      const week: (typeof weeks)[number] = []
+      for (let d = 0; d < 7; d++) {
+        const key = localDateKey(cursor)
+        week.push({ key, date: new Date(cursor), activity: byDay.get(key), future: cursor > today })
+        if (cursor.getDate() === 1) {
+          months.push({ week: w, label: cursor.toLocaleDateString(undefined, { month: 'short' }) })
+        }
+        cursor.setDate(cursor.getDate() + 1)
+      }
+      weeks.push(week)
+    }
+
+    const active = days.filter((d) => d.minutes > 0).map((d) => d.minutes).sort((a, b) => a - b)
+    const quantile = (q: number): number => active[Math.floor((active.length - 1) * q)] ?? 0
+    return {
+      weeks,
+      months,
+      activeDays: active.length,
+      thresholds: [quantile(0.25), quantile(0.5), quantile(0.75)]
+    }
+  }, [days])
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <div className="inline-flex flex-col gap-1">
+          <div className="relative h-4 ml-8">
+            {months.map((m) => (
+              <span
+                key={`${m.week}-${m.label}`}
+                className="absolute text-xs text-muted-foreground"
+                style={{ left: m.week * 14 }}
+              >
+                {m.label}
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-[3px]">
+            <div className="w-7 flex flex-col gap-[3px] mr-1">
+              {WEEKDAY_LABELS.map((label, i) => (
+                <span key={i} className="h-[11px] text-[10px] leading-[11px] text-muted-foreground">
+                  {label}
+                </span>
+              ))}
+            </div>
+            {weeks.map((week) => (
+              <div key={week[0].key} className="flex flex-col gap-[3px]">
+                {week.map((cell) => (
+                  <div
+                    key={cell.key}
+                    title={
+                      cell.future
+                        ? undefined
+                        : `${cell.date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}: ${
+                            cell.activity ? formatMinutes(Math.round(cell.activity.minutes)) : 'no reading'
+                          }`
+                    }
+                    className={cn(
+                      'w-[11px] h-[11px] rounded-[2px]',
+                      cell.future ? 'bg-transparent' : LEVELS[levelFor(cell.activity?.minutes ?? 0, thresholds)]
+                    )}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {activeDays} {activeDays === 1 ? 'day' : 'days'} of reading in the last year
+        </span>
+        <div className="flex items-center gap-1">
+          <span>Less</span>
+          {LEVELS.map((level) => (
+            <div key={level} className={cn('w-[11px] h-[11px] rounded-[2px]', level)} />
+          ))}
+          <span>More</span>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+import { useMemo } from 'react'
+import { HourlyActivity, StatsBucket, TimeSeriesPoint, WpmPoint } from '@/types'
+import { cn, formatMinutes } from '@/lib/utils'
+
+// Same palette as the category picker, for books and uncoloured categories
+const SERIES_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#f97316']
+const OTHER_COLOR = '#94a3b8'
+
+/** Groups beyond this are folded into "Other" so the legend stays readable */
+const MAX_SERIES = 6
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+function bucketLabel(bucket: string, size: StatsBucket): string {
+  const [y, m, d] = bucket.split('-').map(Number)
+  const date = new Date(y, m - 1, d)
+  if (size === 'month') return date.toLocaleDateString(undefined, { month: 'short', year: '2-digit' })
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+// ─── Hour × Weekday ─────────────────────────────────────
+
+interface HourlyGridProps {
+  cells: HourlyActivity[]
+}
+
+export function HourlyGrid({ cells }: HourlyGridProps): JSX.Element {
+  const { grid, max, byHour } = useMemo(() => {
+    // Rows run Monday to Sunday; SQLite weekdays start at Sunday
+    const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0))
+    const byHour = new Array<number>(24).fill(0)
+    for (const c of cells) {
+      grid[(c.weekday + 6) % 7][c.hour] += c.minutes
+      byHour[c.hour] += c.minutes
+    }
+    return { grid, max: Math.max(0, ...grid.flat()), byHour }
+  }, [cells])
+
+  const peakHour = byHour.indexOf(Math.max(...byHour))
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <div className="inline-flex flex-col gap-[3px]">
+          {grid.map((row, day) => (
+            <div key={day} className="flex items-center gap-[3px]">
+              <span className="w-8 text-[10px] text-muted-foreground">{WEEKDAYS[day]}</span>
+              {row.map((minutes, hour) => (
+                <div
+                  key={hour}
+                  title={`${WEEKDAYS[day]} ${String(hour).padStart(2, '0')}:00 · ${formatMinutes(Math.round(minutes))}`}
+                  className={cn('w-4 h-4 rounded-[3px]', minutes > 0 ? 'bg-primary' : 'bg-muted/60')}
+                  style={minutes > 0 && max > 0 ? { opacity: 0.2 + 0.8 * (minutes / max) } : undefined}
+                />
+              ))}
+            </div>
+          ))}
+          <div className="flex gap-[3px] ml-[35px]">
+            {Array.from({ length: 24 }, (_, hour) => (
+              <span key={hour} className="w-4 text-[10px] text-muted-foreground text-center">
+                {hour % 6 === 0 ? hour : ''}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+      {max > 0 && (
+        <p className="text-xs text-muted-foreground">
+          You read most around {String(peakHour).padStart(2, '0')}:00
+        </p>
+      )}
+    </div>
+  )
+}
+
+// ─── Time Series ────────────────────────────────────────
+
+interface TimeSeriesChartProps {
+  points: TimeSeriesPoint[]
+  bucket: StatsBucket
+}
+
+export function TimeSeriesChart({ points, bucket }: TimeSeriesChartProps): JSX.Element {
+  const { buckets, groups, totals, max } = useMemo(() => {
+    // Biggest groups first; the tail shares one "Other" stack
+    const totalsByKey = new Map<string | null, { label: string; color: string | null; minutes: number }>()
+    for (const p of points) {
+      const g = totalsByKey.get(p.key) ?? { label: p.label, color: p.color, minutes: 0 }
+      g.minutes += p.minutes
+      totalsByKey.set(p.key, g)
+    }
+    const ranked = [...totalsByKey.entries()].sort((a, b) => b[1].minutes - a[1].minutes)
+    const shown = ranked.slice(0, MAX_SERIES).map(([key, g], i) => ({
+      key,
+      label: g.label,
+      color: g.color ?? SERIES_COLORS[i % SERIES_COLORS.length],
+      minutes: g.minutes
+    }))
+    const shownKeys = new Set(shown.map((g) => g.key))
+    const otherMinutes = ranked.slice(MAX_SERIES).reduce((sum, [, g]) => sum + g.minutes, 0)
+    const groups = otherMinutes > 0
+      ? [...shown, { key: '__other__', label: 'Other', color: OTHER_COLOR, minutes: otherMinutes }]
+      : shown
+
+    const buckets = [...new Set(points.map((p) => p.bucket))].sort()
+    const totals = new Map<string, Map<string | null, number>>()
+    for (const p of points) {
+      const row = totals.get(p.bucket) ?? new Map<string | null, number>()
+      const key = shownKeys.has(p.key) ? p.key : '__other__'
+      row.set(key, (row.get(key) ?? 0) + p.minutes)
+      totals.set(p.bucket, row)
+    }
+    const max = Math.max(
+      0,
+      ...buckets.map((b) => [...(totals.get(b)?.values() ?? [])].reduce((s, m) => s + m, 0))
+    )
+    return { buckets, groups, totals, max }
+  }, [points])
+
+  if (buckets.length === 0) {
+    return <p className="text-ui-sm text-muted-foreground py-6 text-center">No reading in this period</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end gap-1 h-40">
+        {buckets.map((b) => {
+          const row = totals.get(b)
+          const total = [...(row?.values() ?? [])].reduce((s, m) => s + m, 0)
+          return (
+            <div
+              key={b}
+              className="flex-1 min-w-[4px] h-full flex flex-col justify-end"
+              title={`${bucketLabel(b, bucket)} · ${formatMinutes(Math.round(total))}`}
+            >
+              {groups.map((g) => {
+                const minutes = row?.get(g.key) ?? 0
+                if (minutes <= 0 || max <= 0) return null
+                return (
+                  <div
+                    key={g.key ?? 'none'}
+                    className="w-full first:rounded-t-[2px]"
+                    style={{ height: `${(minutes / max) * 100}%`, background: g.color }}
+                  />
+                )
+              })}
+            </div>
+          )
+        })}
+      </div>
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>{bucketLabel(buckets[0], bucket)}</span>
+        <span>{bucketLabel(buckets[buckets.length - 1], bucket)}</span>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+        {groups.map((g) => (
+          <div key={g.key ?? 'none'} className="flex items-center gap-1.5 text-xs text-muted-foreground min-w-0">
+            <span className="w-2.5 h-2.5 rounded-sm shrink-0" style={{ background: g.color }} />
+            <span className="truncate max-w-[180px] text-foreground">{g.label}</span>
+            <span className="tabular-nums">{formatMinutes(Math.round(g.minutes))}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// ─── WPM Trend ──────────────────────────────────────────
+
+interface WpmTrendChartProps {
+  points: WpmPoint[]
+  bucket: StatsBucket
+}
+
+const CHART_W = 600
+const CHART_H = 140
+
+export function WpmTrendChart({ points, bucket }: WpmTrendChartProps): JSX.Element {
+  if (points.length === 0) {
+    return (
+      <p className="text-ui-sm text-muted-foreground py-6 text-center">
+        Reading speed shows up after focus sessions that track pages
+      </p>
+    )
+  }
+
+  const max = Math.max(...points.map((p) => p.wpm)) * 1.15
+  const x = (i: number): number => (points.length === 1 ? CHART_W / 2 : (i / (points.length - 1)) * CHART_W)
+  const y = (wpm: number): number => CHART_H - (wpm / max) * CHART_H
+  const line = points.map((p, i) => `${x(i)},${y(p.wpm)}`).join(' ')
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} preserveAspectRatio="none" className="w-full h-36 overflow-visible">
+        <polyline
+          points={`0,${CHART_H} ${line} ${CHART_W},${CHART_H}`}
+          className="fill-primary/10 stroke-none"
+        />
+        <polyline
+          points={line}
+          fill="none"
+          className="stroke-primary"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {points.map((p, i) => (
+          <circle key={p.bucket} cx={x(i)} cy={y(p.wpm)} r={3} className="fill-primary">
+            <title>{`${bucketLabel(p.bucket, bucket)} · ${p.wpm} wpm over ${formatMinutes(Math.round(p.minutes))}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>{bucketLabel(points[0].bucket, bucket)}</span>
+        <span>{bucketLabel(points[points.length - 1].bucket, bucket)}</span>
+      </div>
+    </div>
+  )
+}
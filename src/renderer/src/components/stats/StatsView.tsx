@@ -0,0 +1,174 @@
+import { useState, useMemo } from 'react'
+import { motion } from 'framer-motion'
+import { BarChart3, BookCheck, Clock, Coffee, Gauge, Timer } from 'lucide-react'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { StatsGroup } from '@/types'
+import { useStats, bucketForPeriod, StatsPeriod } from '@/hooks/useStats'
+import { formatMinutes } from '@/lib/utils'
+import { ActivityHeatmap } from './ActivityHeatmap'
+import { HourlyGrid, TimeSeriesChart, WpmTrendChart } from './StatsCharts'
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—'
+}
+
+interface SectionProps {
+  title: string
+  description?: string
+  action?: React.ReactNode
+  children: React.ReactNode
+  delay?: number
+}
+
+function Section({ title, description, action, children, delay = 0 }: SectionProps): JSX.Element {
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3, delay }}
+      className="bg-card border border-border rounded-xl p-5"
+    >
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-ui-sm font-semibold text-foreground">{title}</h2>
+          {description && <p className="text-xs text-muted-foreground mt-0.5">{description}</p>}
+        </div>
+        {action}
+      </div>
+      {children}
+    </motion.section>
+  )
+}
+
+export function StatsView(): JSX.Element {
+  const [period, setPeriod] = useState<StatsPeriod>('90d')
+  const [groupBy, setGroupBy] = useState<StatsGroup>('book')
+  const { heatmap, hourly, series, wpm, summary, loading } = useStats(period, groupBy)
+  const bucket = bucketForPeriod(period)
+
+  const cards = useMemo(() => {
+    if (!summary) return []
+    return [
+      {
+        label: 'Reading Time',
+        icon: Clock,
+        value: formatMinutes(summary.minutes),
+        detail: `${summary.sessions} ${summary.sessions === 1 ? 'session' : 'sessions'}`
+      },
+      {
+        label: 'Avg Speed',
+        icon: Gauge,
+        value: summary.avgWpm > 0 ? `${summary.avgWpm} wpm` : '—',
+        detail: `${summary.words.toLocaleString()} words tracked`
+      },
+      {
+        label: 'Completion',
+        icon: BookCheck,
+        value: percent(summary.booksFinished, summary.booksRead),
+        detail: `${summary.booksFinished} of ${summary.booksRead} books finished`
+      },
+      {
+        label: 'Pomodoros',
+        icon: Timer,
+        value: percent(summary.pomodorosCompleted, summary.pomodorosStarted),
+        detail: `${summary.pomodorosCompleted} of ${summary.pomodorosStarted} completed`
+      },
+      {
+        label: 'Away',
+        icon: Coffee,
+        value: percent(summary.afkMs, summary.afkMs + summary.studyActiveMs),
+        detail: `${formatMinutes(Math.round(summary.afkMs / 60000))} AFK in focus sessions`
+      }
+    ]
+  }, [summary])
+
+  return (
+    <div className="flex-1 overflow-y-auto scroll-fade">
+      <div className="p-6 space-y-6 max-w-[1000px]">
+        {/* Header */}
+        <div className="flex items-end justify-between gap-4 flex-wrap">
+          <div>
+            <h1 className="font-display text-ui-xl italic text-foreground">Statistics</h1>
+            <p className="text-ui-sm text-muted-foreground mt-1">
+              How, when and what you read
+            </p>
+          </div>
+          <Tabs value={period} onValueChange={(v) => setPeriod(v as StatsPeriod)}>
+            <TabsList>
+              <TabsTrigger value="30d">30 days</TabsTrigger>
+              <TabsTrigger value="90d">90 days</TabsTrigger>
+              <TabsTrigger value="1y">Year</TabsTrigger>
+              <TabsTrigger value="all">All time</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {loading && !summary ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : summary && summary.sessions === 0 && heatmap.length === 0 ? (
+          <div className="flex flex-col items-center justify-center text-center py-16">
+            <div className="w-16 h-16 rounded-xl flex items-center justify-center mb-4 bg-muted/30">
+              <BarChart3 className="w-7 h-7 text-muted-foreground/40" />
+            </div>
+            <p className="font-display text-ui-lg italic text-foreground mb-2">Nothing to Chart Yet</p>
+            <p className="text-ui-sm text-muted-foreground max-w-sm">
+              Your reading statistics fill in as you read and run focus sessions.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {cards.map((card, i) => (
+                <motion.div
+                  key={card.label}
+                  initial={{ opacity: 0, y: 8 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.3, delay: i * 0.05 }}
+                  className="rounded-xl p-3 border bg-card border-border"
+                >
+                  <div className="flex items-center gap-2 mb-2 text-muted-foreground">
+                    <card.icon className="h-3.5 w-3.5" />
+                    <span className="text-xs uppercase tracking-[0.15em]">{card.label}</span>
+                  </div>
+                  <div className="font-mono font-bold tabular-nums text-ui-lg text-foreground">{card.value}</div>
+                  <p className="text-xs text-muted-foreground mt-0.5 truncate">{card.detail}</p>
+                </motion.div>
+              ))}
+            </div>
+
+            <Section title="Activity" description="Reading time per day over the last year" delay={0.1}>
+              <ActivityHeatmap days={heatmap} />
+            </Section>
+
+            <Section
+              title="Reading Time"
+              description={`Minutes per ${bucket} by ${groupBy}`}
+              delay={0.15}
+              action={
+                <Tabs value={groupBy} onValueChange={(v) => setGroupBy(v as StatsGroup)}>
+                  <TabsList>
+                    <TabsTrigger value="book">Books</TabsTrigger>
+                    <TabsTrigger value="category">Categories</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              }
+            >
+              <TimeSeriesChart points={series} bucket={bucket} />
+            </Section>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <Section title="When You Read" description="By weekday and hour of the day" delay={0.2}>
+                <HourlyGrid cells={hourly} />
+              </Section>
+              <Section title="Reading Speed" description={`Words per minute per ${bucket}`} delay={0.25}>
+                <WpmTrendChart points={wpm} bucket={bucket} />
+              </Section>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -43,6 +43,7 @@ interface DatabaseAPI {
     delete: (id: string) => Promise<unknown>
   }
   notes: {
+    getAll: () => Promise<unknown[]>
     getByBook: (bookId: string) => Promise<unknown[]>
     getByHighlight: (highlightId: string) => Promise<unknown[]>
     create: (data: {
@@ -54,6 +55,22 @@ interface DatabaseAPI {
     update: (id: string, data: Record<string, unknown>) => Promise<unknown>
     delete: (id: string) => Promise<unknown>
   }
+  bookmarks: {
+    getAll: () => Promise<unknown[]>
+    getByBook: (bookId: string) => Promise<unknown[]>
+    create: (data: {
+      book_id: string
+      cfi: string
+      label?: string | null
+      chapter?: string | null
+      percent?: number
+    }) => Promise<unknown>
+    update: (id: string, data: { label: string | null }) => Promise<unknown>
+    delete: (id: string) => Promise<unknown>
+    importLegacy: (
+      entries: { book_id: string; cfi: string; chapter?: string | null; percent?: number }[]
+    ) => Promise<number>
+  }
   dashboard: {
     currentlyReading: () => Promise<unknown[]>
     recent: () => Promise<unknown[]>
@@ -79,9 +96,11 @@ interface DatabaseAPI {
       manualBaseHours?: number
       notes?: string
       sourceLabel?: string
+      countListening?: boolean
     }) => Promise<unknown>
     delete: (categoryId: string) => Promise<unknown>
     computeProgress: (categoryId: string) => Promise<unknown>
+    getForecast: (categoryId: string) => Promise<unknown>
     getTopForDashboard: (limit?: number) => Promise<unknown[]>
     getAll: () => Promise<unknown[]>
   }
@@ -94,12 +113,117 @@ interface DatabaseAPI {
     }) => Promise<unknown>
     getRecent: (categoryId: string, limit?: number) => Promise<unknown[]>
   }
+  goals: {
+    getAll: () => Promise<unknown[]>
+    create: (data: {
+      goalType: string
+      target: number
+      period?: string
+      scope?: string
+      scopeId?: string | null
+      title?: string | null
+    }) => Promise<unknown>
+    update: (id: string, data: Record<string, unknown>) => Promise<unknown>
+    delete: (id: string) => Promise<unknown>
+  }
+  search: {
+    query: (query: string, options?: { bookId?: string; limit?: number }) => Promise<unknown[]>
+    reindexBook: (bookId: string) => Promise<unknown>
+  }
+  estimates: {
+    chapters: (bookId: string) => Promise<unknown[]>
+    speeds: () => Promise<unknown>
+    timeLeft: (bookIds?: string[]) => Promise<unknown>
+  }
+  stats: {
+    daily: (range?: { from?: string; to?: string }) => Promise<unknown[]>
+    hourly: (range?: { from?: string; to?: string }) => Promise<unknown[]>
+    series: (
+      range?: { from?: string; to?: string },
+      groupBy?: 'book' | 'category',
+      bucket?: 'day' | 'week' | 'month'
+    ) => Promise<unknown[]>
+    wpmTrend: (
+      range?: { from?: string; to?: string },
+      bucket?: 'day' | 'week' | 'month'
+    ) => Promise<unknown[]>
+    summary: (range?: { from?: string; to?: string }) => Promise<unknown>
+  }
+  review: {
+    generate: () => Promise<unknown>
+    queue: (options?: { bookId?: string; limit?: number }) => Promise<unknown[]>
+    counts: () => Promise<unknown>
+    grade: (cardId: string, grade: string, elapsedMs: number) => Promise<unknown>
+    update: (cardId: string, data: Record<string, unknown>) => Promise<unknown>
+    suspend: (cardId: string, suspended: boolean) => Promise<unknown>
+    finish: () => Promise<unknown>
+  }
+  clippings: {
+    getQueue: () => Promise<unknown[]>
+    assign: (id: string, bookId: string) => Promise<unknown>
+    retry: () => Promise<unknown>
+    dismiss: (id: string) => Promise<unknown>
+  }
+  fonts: {
+    getAll: () => Promise<unknown[]>
+    delete: (id: string) => Promise<unknown>
+  }
+  typography: {
+    getAll: () => Promise<unknown[]>
+    create: (data: Record<string, unknown>) => Promise<unknown>
+    update: (id: string, data: Record<string, unknown>) => Promise<unknown>
+    delete: (id: string) => Promise<unknown>
+    getForBook: (bookId: string) => Promise<unknown>
+    assignBook: (bookId: string, profileId: string | null) => Promise<unknown>
+    assignCategory: (categoryId: string, profileId: string | null) => Promise<unknown>
+  }
+  dictionaries: {
+    getAll: () => Promise<unknown[]>
+    update: (id: string, data: Record<string, unknown>) => Promise<unknown>
+    delete: (id: string) => Promise<unknown>
+    lookup: (text: string, bookId?: string) => Promise<unknown>
+  }
+  vocabulary: {
+    getAll: () => Promise<unknown[]>
+    getByBook: (bookId: string) => Promise<unknown[]>
+    create: (data: Record<string, unknown>) => Promise<unknown>
+    delete: (id: string) => Promise<unknown>
+  }
 }
 
 interface AppAPI {
   openEpubDialog: () => Promise<string | null>
   toggleFullscreen: () => Promise<boolean>
   isFullscreen: () => Promise<boolean>
+  savePdfCover: (bookId: string, dataUrl: string) => Promise<string | null>
+  exportMarkdown: (bookId: string) => Promise<unknown>
+  exportAnnotations: (
+    format: string,
+    scope?: { bookId?: string | null; categoryId?: string | null; from?: string | null; to?: string | null }
+  ) => Promise<unknown>
+  exportLibrary: () => Promise<unknown>
+  importLibrary: (mode: 'merge' | 'replace') => Promise<unknown>
+  importClippings: (pick: 'files' | 'folder') => Promise<unknown>
+  importFonts: () => Promise<unknown>
+  installDictionaries: () => Promise<unknown>
+  openDictionariesFolder: () => Promise<unknown>
+  openCalibreLibrary: (libraryPath?: string) => Promise<unknown>
+  importCalibreBooks: (
+    libraryPath: string,
+    options: { calibreIds: number[]; mapTags: boolean; readingMode: string | null }
+  ) => Promise<unknown>
+  onCalibreImportProgress: (callback: (progress: unknown) => void) => () => void
+  onTrackPaceAlert: (callback: (alert: unknown) => void) => () => void
+  onMenuCloseBook: (callback: () => void) => () => void
+  onMenuToggleFocusMode: (callback: () => void) => () => void
+  onMenuToggleSidebar: (callback: () => void) => () => void
+  onMenuZoomIn: (callback: () => void) => () => void
+  onMenuZoomOut: (callback: () => void) => () => void
+  onMenuZoomReset: (callback: () => void) => () => void
+  onMenuStartPomodoro: (callback: () => void) => () => void
+  onMenuEndSession: (callback: () => void) => () => void
+  onCloseRequested: (callback: () => void) => () => void
+  confirmClose: () => void
   getFocusWallSettings?: () => Promise<unknown>
   updateFocusWallSettings?: (settings: Record<string, unknown>) => Promise<unknown>
 }
@@ -122,6 +246,13 @@ interface SessionAPI {
   getWrapUp: () => Promise<unknown>
   incrementHighlight: () => void
   incrementNote: () => void
+  reportLocation: (location: {
+    bookId: string
+    startCfi: string
+    endCfi: string
+    start: { spineIndex: number; fraction: number }
+    end: { spineIndex: number; fraction: number }
+  }) => void
   microbreakTake: () => void
   microbreakEnd: () => void
   microbreakPostpone: () => void
@@ -129,12 +260,33 @@ interface SessionAPI {
   onStateUpdate: (callback: (snapshot: unknown) => void) => () => void
 }
 
+interface TtsChunkReady {
+  chunkIndex: number
+  wavUrl: string
+  /** Estimated timing of each word, as character ranges into the chunk text */
+  words: Array<{ start: number; end: number; startMs: number; endMs: number }>
+}
+
+interface TtsSectionStart {
+  bookId: string
+  chapterHref: string
+  sectionHref: string
+  chunks: Array<{ index: number; text: string; startOffset: number }>
+}
+
+type TtsSleepTimerSpec =
+  | { mode: 'minutes'; minutes: number }
+  | { mode: 'chapter' }
+  | { mode: 'chunks'; count: number }
+
 interface TtsAPI {
   speak: (params: {
     bookId: string
     chapterHref: string
+    sectionHref?: string
     chunks: Array<{ index: number; text: string; startOffset: number }>
     startChunkIndex?: number
+    engine?: 'kokoro' | 'piper'
     voiceId?: string
     rate?: number
   }) => Promise<unknown>
@@ -143,18 +295,87 @@ interface TtsAPI {
   stop: () => Promise<unknown>
   nextChunk: () => Promise<unknown>
   prevChunk: () => Promise<unknown>
-  setVoice: (voiceId: string) => Promise<unknown>
+  setVoice: (voiceId: string, engine?: 'kokoro' | 'piper') => Promise<unknown>
+  setEngine: (engine: 'kokoro' | 'piper') => Promise<unknown>
   setRate: (rate: number) => Promise<unknown>
   getStatus: () => Promise<unknown>
   getVoices: () => Promise<unknown[]>
-  isInstalled: () => Promise<boolean>
-  install: () => Promise<unknown>
-  downloadVoice: (voiceId: string) => Promise<unknown>
+  getEngines: () => Promise<unknown[]>
+  resolveVoice: (bookId?: string) => Promise<{ engine: 'kokoro' | 'piper'; voiceId: string }>
+  isInstalled: (bookId?: string) => Promise<boolean>
+  install: (engine?: 'kokoro' | 'piper') => Promise<unknown>
+  downloadVoice: (voiceId: string, engine?: 'kokoro' | 'piper') => Promise<unknown>
   clearCache: () => Promise<unknown>
+  setSleepTimer: (spec: TtsSleepTimerSpec | null) => Promise<unknown>
+  addToQueue: (bookId: string, sectionHref?: string) => Promise<unknown>
+  removeFromQueue: (id: string) => Promise<unknown>
+  clearQueue: () => Promise<unknown>
+  playNextInQueue: () => Promise<unknown>
+  listPronunciations: (bookId?: string) => Promise<unknown[]>
+  savePronunciation: (rule: {
+    id?: string
+    bookId: string | null
+    term: string
+    replacement: string
+    caseSensitive: boolean
+  }) => Promise<unknown>
+  deletePronunciation: (id: string) => Promise<unknown>
+  getRenderCapabilities: () => Promise<{ m4b: boolean }>
+  listRenderJobs: () => Promise<unknown[]>
+  startRender: (params: {
+    bookId: string
+    engine: 'kokoro' | 'piper'
+    voiceId: string
+    rate: number
+    format: 'm4b' | 'chapters'
+  }) => Promise<unknown>
+  cancelRender: (jobId: string) => Promise<unknown>
+  resumeRender: (jobId: string) => Promise<unknown>
+  discardRender: (jobId: string) => Promise<boolean>
+  revealRender: (jobId: string) => Promise<void>
   onStateUpdate: (callback: (snapshot: unknown) => void) => () => void
-  onChunkReady: (callback: (data: { chunkIndex: number; wavUrl: string }) => void) => () => void
+  onChunkReady: (callback: (data: TtsChunkReady) => void) => () => void
+  onSectionStart: (callback: (data: TtsSectionStart) => void) => () => void
   onDownloadProgress: (callback: (data: { percent: number; label: string }) => void) => () => void
   onError: (callback: (data: { message: string; code: string }) => void) => () => void
+  onRenderProgress: (callback: (job: unknown) => void) => () => void
+}
+
+interface SyncAPI {
+  getConfig: () => Promise<unknown>
+  updateConfig: (update: Record<string, unknown>) => Promise<unknown>
+  getStatus: () => Promise<unknown>
+  signIn: (email: string, password: string) => Promise<unknown>
+  signOut: () => Promise<unknown>
+  syncNow: () => Promise<unknown>
+  onStatusUpdate: (callback: (status: unknown) => void) => () => void
+}
+
+interface WatchAPI {
+  getConfig: () => Promise<unknown>
+  updateConfig: (update: Record<string, unknown>) => Promise<unknown>
+  getStatus: () => Promise<unknown>
+  addFolder: () => Promise<unknown>
+  scanNow: () => Promise<unknown>
+  clearErrors: () => Promise<unknown>
+  onStatusUpdate: (callback: (status: unknown) => void) => () => void
+  onBookImported: (callback: (book: unknown) => void) => () => void
+}
+
+interface OpdsAPI {
+  getCatalogs: () => Promise<unknown[]>
+  saveCatalog: (data: {
+    id?: string
+    title: string
+    url: string
+    username?: string | null
+    password?: string | null
+  }) => Promise<unknown>
+  deleteCatalog: (id: string) => Promise<unknown>
+  getFeed: (catalogId: string, url?: string) => Promise<unknown>
+  search: (catalogId: string, template: string, query: string) => Promise<unknown>
+  getCover: (catalogId: string, url: string) => Promise<string | null>
+  download: (catalogId: string, href: string, format: string) => Promise<unknown>
 }
 
 declare global {
@@ -164,5 +385,8 @@ declare global {
     appApi: AppAPI
     sessionApi: SessionAPI
     ttsApi: TtsAPI
+    syncApi: SyncAPI
+    opdsApi: OpdsAPI
+    watchApi: WatchAPI
   }
 }
@@ -29,17 +29,13 @@ function computeMetric(session: SessionSnapshot, metric: 'wpm' | 'pagesPerHour')
   const activeMinutes = session.activeMs / 60000
   if (activeMinutes < 0.5) return '---'
 
+  // Words and pages the reader reported turning through, skims discounted
   if (metric === 'wpm') {
-    // Estimate based on average reading speed assumption
-    // Average reader: ~250 WPM, but we show reading time-based metric
-    const estimatedWords = activeMinutes * 250
-    const wpm = Math.round(estimatedWords / activeMinutes)
+    const wpm = Math.round((session.wordsRead ?? 0) / activeMinutes)
     return `${wpm} WPM`
   }
 
-  // Pages per hour (assuming ~250 words per page)
-  const estimatedPages = (activeMinutes * 250) / 250
-  const pagesPerHour = Math.round((estimatedPages / activeMinutes) * 60)
+  const pagesPerHour = Math.round(((session.pagesViewed ?? 0) / activeMinutes) * 60)
   return `${pagesPerHour} pages/hr`
 }
 
@@ -17,6 +17,8 @@ export interface SessionSnapshot {
   highlightsDuring: number
   notesDuring: number
   startTime: string
+  pagesViewed: number
+  wordsRead: number
 }
 
 export interface FocusWallSettings {
@@ -0,0 +1,52 @@
+import { useState, useCallback, useEffect } from 'react'
+import { Bookmark } from '@/types'
+
+interface UseBookmarksOptions {
+  bookId: string
+}
+
+/** Kept in reading order so the list and the progress bar flags line up */
+function byPosition(a: Bookmark, b: Bookmark): number {
+  return a.percent - b.percent || a.created_at.localeCompare(b.created_at)
+}
+
+export function useBookmarks({ bookId }: UseBookmarksOptions) {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([])
+
+  const loadBookmarks = useCallback(async () => {
+    const list = (await window.api.bookmarks.getByBook(bookId)) as Bookmark[]
+    setBookmarks(list)
+  }, [bookId])
+
+  useEffect(() => {
+    loadBookmarks()
+  }, [loadBookmarks])
+
+  const createBookmark = useCallback(
+    async (data: { cfi: string; percent: number; chapter?: string | null; label?: string | null }) => {
+      const bookmark = (await window.api.bookmarks.create({ book_id: bookId, ...data })) as Bookmark
+      setBookmarks((prev) => [...prev, bookmark].sort(byPosition))
+      return bookmark
+    },
+    [bookId]
+  )
+
+  const renameBookmark = useCallback(async (id: string, label: string | null) => {
+    const updated = (await window.api.bookmarks.update(id, { label })) as Bookmark
+    setBookmarks((prev) => prev.map((b) => (b.id === id ? updated : b)))
+    return updated
+  }, [])
+
+  const deleteBookmark = useCallback(async (id: string) => {
+    await window.api.bookmarks.delete(id)
+    setBookmarks((prev) => prev.filter((b) => b.id !== id))
+  }, [])
+
+  return {
+    bookmarks,
+    createBookmark,
+    renameBookmark,
+    deleteBookmark,
+    reload: loadBookmarks
+  }
+}
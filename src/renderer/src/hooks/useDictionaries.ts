@@ -0,0 +1,59 @@
+import { useState, useCallback, useEffect } from 'react'
+import { Dictionary, DictionaryKind } from '@/types'
+
+export interface DictionarySettings {
+  kind?: DictionaryKind
+  source_language?: string | null
+  target_language?: string | null
+  enabled?: boolean
+}
+
+/** Dictionaries installed under userData/dictionaries, rescanned on load */
+export function useDictionaries() {
+  const [dictionaries, setDictionaries] = useState<Dictionary[]>([])
+
+  const refresh = useCallback(async () => {
+    const list = (await window.api.dictionaries.getAll()) as Dictionary[]
+    setDictionaries(list)
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const installDictionaries = useCallback(async () => {
+    const result = (await window.appApi.installDictionaries()) as {
+      success: boolean
+      dictionaries?: Dictionary[]
+      errors?: string[]
+      error?: string
+    }
+    if (result.dictionaries?.length) await refresh()
+    return result
+  }, [refresh])
+
+  const updateDictionary = useCallback(async (id: string, data: DictionarySettings) => {
+    const dictionary = (await window.api.dictionaries.update(id, { ...data })) as Dictionary
+    setDictionaries((prev) => prev.map((d) => (d.id === id ? dictionary : d)))
+    return dictionary
+  }, [])
+
+  const deleteDictionary = useCallback(async (id: string) => {
+    const result = (await window.api.dictionaries.delete(id)) as { success: boolean; error?: string }
+    if (result.success) setDictionaries((prev) => prev.filter((d) => d.id !== id))
+    return result
+  }, [])
+
+  const openFolder = useCallback(async () => {
+    await window.appApi.openDictionariesFolder()
+  }, [])
+
+  return {
+    dictionaries,
+    installDictionaries,
+    updateDictionary,
+    deleteDictionary,
+    openFolder,
+    refresh
+  }
+}
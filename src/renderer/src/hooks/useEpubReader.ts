@@ -1,21 +1,68 @@
 import { useState, useRef, useCallback, useEffect } from 'react'
 import ePub, { Book, Rendition, NavItem } from 'epubjs'
-import { TocItem, ReadingProgress, ReadingSettings, Highlight } from '@/types'
+import {
+  TocItem,
+  ReadingProgress,
+  ReadingSettings,
+  Highlight,
+  SearchTarget,
+  PageLocation,
+  PAGE_THEMES,
+  CustomFont,
+  FootnoteEntry,
+  FootnotePopup
+} from '@/types'
 import { fileUrl } from '@/lib/utils'
+import { findNoteElement, isInternalLink, isNoteRef, noteHtml, resolveHref, splitHref } from '@/lib/footnotes'
 
 // Google Fonts for premium epub typography — loaded into each iframe
 const READING_FONTS_URL =
   'https://fonts.googleapis.com/css2?family=Cormorant+Garamond:ital,wght@0,400;0,500;0,600;0,700;1,400;1,500;1,600;1,700&family=Literata:ital,opsz,wght@0,7..72,400;0,7..72,500;0,7..72,600;0,7..72,700;1,7..72,400;1,7..72,500;1,7..72,600;1,7..72,700&family=Lora:ital,wght@0,400;0,500;0,600;0,700;1,400;1,500;1,600;1,700&family=Merriweather:ital,wght@0,400;0,700;1,400;1,700&display=swap'
 
+/** Narrowest reading area that shows two pages side by side in spread mode */
+const MIN_SPREAD_WIDTH = 800
+
+const NO_FONTS: CustomFont[] = []
+
+/** Followed links remembered for the way back */
+const MAX_LINK_HISTORY = 20
+/** Anything longer is a chapter or section that happens to have the id, not a note */
+const MAX_NOTE_CHARS = 4000
+
+/** @font-face rules for imported fonts, served to the iframes over local-file:// */
+function fontFaceCss(fonts: CustomFont[]): string {
+  return fonts
+    .map(
+      (font) => `
+      @font-face {
+        font-family: "${font.family.replace(/"/g, '')}";
+        src: url("${fileUrl(font.file_path)}") format("${font.format}");
+        font-weight: ${font.weight};
+        font-style: ${font.style};
+        font-display: swap;
+      }`
+    )
+    .join('\n')
+}
+
 interface UseEpubReaderOptions {
   bookId: string
   filePath: string
   settings: ReadingSettings
   resolvedTheme?: string
+  /** Imported fonts, declared in every iframe so settings and profiles can use them */
+  customFonts?: CustomFont[]
   onImageClick?: (src: string) => void
 }
 
-export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onImageClick }: UseEpubReaderOptions) {
+export function useEpubReader({
+  bookId,
+  filePath,
+  settings,
+  resolvedTheme,
+  customFonts = NO_FONTS,
+  onImageClick
+}: UseEpubReaderOptions) {
   // Keep a ref to the latest settings so initBook doesn't depend on them
   const settingsRef = useRef(settings)
   settingsRef.current = settings
@@ -25,16 +72,26 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
   const renditionRef = useRef<Rendition | null>(null)
   const viewerRef = useRef<HTMLDivElement | null>(null)
   const onHighlightClickRef = useRef<((h: Highlight, e: MouseEvent | null) => void) | null>(null)
+  // How the open book is laid out; set by initBook, read by the iframe event handlers
+  const fixedLayoutRef = useRef(false)
+  const scrollingRef = useRef(false)
 
   const [toc, setToc] = useState<TocItem[]>([])
   const [currentChapter, setCurrentChapter] = useState<string>('')
   const [bookTitle, setBookTitle] = useState<string>('')
   const [percent, setPercent] = useState(0)
   const [currentCfi, setCurrentCfi] = useState<string>('')
+  const [pageLocation, setPageLocation] = useState<PageLocation | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [atStart, setAtStart] = useState(true)
   const [atEnd, setAtEnd] = useState(false)
   const [didResume, setDidResume] = useState(false)
+  const [isFixedLayout, setIsFixedLayout] = useState(false)
+  const [isScrolling, setIsScrolling] = useState(false)
+  const [footnote, setFootnote] = useState<FootnotePopup | null>(null)
+  // Where the reader was before each followed link, most recent last
+  const [linkHistory, setLinkHistory] = useState<string[]>([])
+  const currentCfiRef = useRef('')
 
   // Save position to DB (throttled externally)
   const savePosition = useCallback(
@@ -82,9 +139,11 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
   // Build CSS string to inject into epub iframes
   const buildThemeCss = useCallback((s: ReadingSettings): string => {
     const style = getComputedStyle(document.documentElement)
-    const rawBg = style.getPropertyValue('--reading-bg').trim()
-    const rawFg = style.getPropertyValue('--reading-fg').trim()
-    const rawLink = style.getPropertyValue('--reading-link').trim()
+    // A book with its own page theme ignores the app's light/dark switch
+    const page = PAGE_THEMES.find((t) => t.value === s.pageTheme)
+    const rawBg = page?.bg ?? style.getPropertyValue('--reading-bg').trim()
+    const rawFg = page?.fg ?? style.getPropertyValue('--reading-fg').trim()
+    const rawLink = page?.link ?? style.getPropertyValue('--reading-link').trim()
     const rawBorder = style.getPropertyValue('--border').trim()
     const bg = rawBg ? `hsl(${rawBg})` : '#fffdf9'
     const fg = rawFg ? `hsl(${rawFg})` : '#2d2418'
@@ -97,30 +156,19 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
     const subtleBorder = rawFg ? `hsl(${rawFg} / 0.14)` : 'rgba(45,36,24,0.14)'
     const faintBorder = rawFg ? `hsl(${rawFg} / 0.07)` : 'rgba(45,36,24,0.07)'
 
-    return `
-      /* ═══════════════════════════════════════════════════
-         FlareRead — Premium Reading Typography
-         ═══════════════════════════════════════════════════ */
+    const hyphens = s.hyphenation ? 'auto' : 'manual'
 
+    // Colors, page breaks and image fitting apply whatever the publisher-style level
+    const chrome = `
       /* === Base — Optimized text rendering === */
       html, body {
         background-color: ${bg} !important;
         color: ${fg} !important;
-        font-family: ${s.fontFamily} !important;
-        font-size: ${s.fontSize}px !important;
-        line-height: ${s.lineHeight} !important;
         padding: 0 72px !important;
         box-sizing: border-box !important;
         text-rendering: optimizeLegibility !important;
         -webkit-font-smoothing: antialiased !important;
         -moz-osx-font-smoothing: grayscale !important;
-        font-kerning: normal !important;
-        font-feature-settings: "kern" 1, "liga" 1, "calt" 1 !important;
-        font-variant-ligatures: common-ligatures contextual !important;
-        -webkit-hyphens: auto !important;
-        hyphens: auto !important;
-        hanging-punctuation: first last !important;
-        word-spacing: 0.02em !important;
       }
 
       /* Warm gold text selection */
@@ -138,6 +186,106 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
         background-color: transparent !important;
       }
 
+      /* === Pagination control === */
+      p, li, dd, dt, blockquote {
+        orphans: 3 !important;
+        widows: 3 !important;
+      }
+      h1, h2, h3, h4, h5, h6 {
+        break-after: avoid !important;
+        page-break-after: avoid !important;
+        break-inside: avoid !important;
+        page-break-inside: avoid !important;
+      }
+      blockquote, figure, pre, table, img {
+        break-inside: avoid !important;
+        page-break-inside: avoid !important;
+      }
+
+      /* === Links === */
+      a, a:link, a:visited {
+        color: ${link} !important;
+        text-decoration: underline !important;
+        text-decoration-thickness: 1px !important;
+        text-underline-offset: 3px !important;
+        text-decoration-color: ${link}55 !important;
+      }
+
+      /* === Images === */
+      img {
+        max-width: 100% !important;
+        max-height: calc(100vh - 3em) !important;
+        width: auto !important;
+        height: auto !important;
+        object-fit: contain !important;
+        display: block !important;
+        margin: 0.8em auto !important;
+        cursor: pointer !important;
+        border-radius: 2px !important;
+      }
+      img[width], img[height] {
+        width: auto !important;
+        height: auto !important;
+        max-width: 100% !important;
+      }
+      img:only-child {
+        margin-top: 1.5em !important;
+        margin-bottom: 1.5em !important;
+      }
+      img[src*="bullet"], img[src*="icon"], img[src*="dingbat"],
+      img[class*="inline"], img[class*="icon"] {
+        display: inline !important;
+        max-height: 1.2em !important;
+        width: auto !important;
+        height: auto !important;
+        margin: 0 0.15em !important;
+        vertical-align: middle !important;
+        cursor: default !important;
+        border-radius: 0 !important;
+      }
+      svg {
+        max-width: 100% !important;
+        height: auto !important;
+      }
+      svg:not([class*="icon"]):not([width="1em"]):not([height="1em"]) {
+        display: block !important;
+        margin: 0.8em auto !important;
+        max-height: calc(100vh - 3em) !important;
+      }
+
+      /* === Custom scrollbar (scroll mode) === */
+      ::-webkit-scrollbar {
+        width: 6px;
+        height: 6px;
+      }
+      ::-webkit-scrollbar-track {
+        background: transparent;
+      }
+      ::-webkit-scrollbar-thumb {
+        background: ${rawFg ? `hsl(${rawFg} / 0.15)` : 'rgba(45,36,24,0.15)'};
+        border-radius: 999px;
+      }
+      ::-webkit-scrollbar-thumb:hover {
+        background: ${rawFg ? `hsl(${rawFg} / 0.3)` : 'rgba(45,36,24,0.3)'};
+      }
+    `
+
+    // Body text: font, size, spacing, alignment and hyphenation
+    const text = `
+      /* === Body text — the reader's font and spacing === */
+      html, body {
+        font-family: ${s.fontFamily} !important;
+        font-size: ${s.fontSize}px !important;
+        line-height: ${s.lineHeight} !important;
+        font-kerning: normal !important;
+        font-feature-settings: "kern" 1, "liga" 1, "calt" 1 !important;
+        font-variant-ligatures: common-ligatures contextual !important;
+        -webkit-hyphens: ${hyphens} !important;
+        hyphens: ${hyphens} !important;
+        hanging-punctuation: first last !important;
+        word-spacing: 0.02em !important;
+      }
+
       /* === EPUB content wrapper overrides === */
       /* Many EPUBs wrap each paragraph/heading in its own <div>.
          Their CSS often adds margins/widths that push content off-center.
@@ -155,21 +303,50 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
         float: none !important;
       }
 
-      /* === Pagination control === */
-      p, li, dd, dt, blockquote {
-        orphans: 3 !important;
-        widows: 3 !important;
+      /* === Paragraphs — Book-style typesetting === */
+      p {
+        font-family: ${s.fontFamily} !important;
+        font-size: ${s.fontSize}px !important;
+        line-height: ${s.lineHeight} !important;
+        margin-top: 0 !important;
+        margin-bottom: 0.5em !important;
+        text-align: ${s.textAlign} !important;
+        text-justify: inter-word !important;
+        text-indent: 0 !important;
       }
-      h1, h2, h3, h4, h5, h6 {
-        break-after: avoid !important;
-        page-break-after: avoid !important;
-        break-inside: avoid !important;
-        page-break-inside: avoid !important;
+
+      /* Book-style indent: consecutive sibling paragraphs (flat EPUB structure) */
+      p + p {
+        text-indent: 1.5em !important;
+        margin-top: 0 !important;
+        margin-bottom: ${s.paragraphSpacing}em !important;
       }
-      blockquote, figure, pre, table, img {
-        break-inside: avoid !important;
-        page-break-inside: avoid !important;
+
+      /* Reset indent after non-paragraph elements */
+      :not(p) + p {
+        text-indent: 0 !important;
+        margin-top: 0.3em !important;
       }
+
+      /* Div-wrapped EPUB support: many EPUBs wrap each <p> in its own <div>.
+         The p+p selector can't match across divs, so use the EPUB's own
+         indent class patterns (Manning "intended-text", generic "indent", etc.) */
+      [class*="intended"] > p,
+      [class*="indent"]:not([class*="indent-"]) > p {
+        text-indent: 1.5em !important;
+      }
+
+      /* === Inline elements === */
+      span, li, cite, em, strong, b, i, small, dt, dd {
+        font-family: ${s.fontFamily} !important;
+        font-size: inherit !important;
+        line-height: ${s.lineHeight} !important;
+      }
+    `
+
+    // Everything else the book styles: headings, quotes, lists, code, tables and notes
+    const elements = `
+      /* Title and chapter pages sized for print */
       [class*="title"], [class*="chapter"], [class*="section"],
       [class*="half"], [class*="part"], [class*="dedication"],
       [class*="epigraph"] {
@@ -243,39 +420,6 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
         color: ${mutedFg} !important;
       }
 
-      /* === Paragraphs — Book-style typesetting === */
-      p {
-        font-family: ${s.fontFamily} !important;
-        font-size: ${s.fontSize}px !important;
-        line-height: ${s.lineHeight} !important;
-        margin-top: 0 !important;
-        margin-bottom: 0.5em !important;
-        text-align: justify !important;
-        text-justify: inter-word !important;
-        text-indent: 0 !important;
-      }
-
-      /* Book-style indent: consecutive sibling paragraphs (flat EPUB structure) */
-      p + p {
-        text-indent: 1.5em !important;
-        margin-top: 0 !important;
-        margin-bottom: 0.15em !important;
-      }
-
-      /* Reset indent after non-paragraph elements */
-      :not(p) + p {
-        text-indent: 0 !important;
-        margin-top: 0.3em !important;
-      }
-
-      /* Div-wrapped EPUB support: many EPUBs wrap each <p> in its own <div>.
-         The p+p selector can't match across divs, so use the EPUB's own
-         indent class patterns (Manning "intended-text", generic "indent", etc.) */
-      [class*="intended"] > p,
-      [class*="indent"]:not([class*="indent-"]) > p {
-        text-indent: 1.5em !important;
-      }
-
       /* === Inline emphasis === */
       em, i {
         letter-spacing: 0.01em !important;
@@ -296,22 +440,6 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
         border-radius: 2px !important;
       }
 
-      /* === Links === */
-      a, a:link, a:visited {
-        color: ${link} !important;
-        text-decoration: underline !important;
-        text-decoration-thickness: 1px !important;
-        text-underline-offset: 3px !important;
-        text-decoration-color: ${link}55 !important;
-      }
-
-      /* === Inline elements === */
-      span, li, cite, em, strong, b, i, small, dt, dd {
-        font-family: ${s.fontFamily} !important;
-        font-size: inherit !important;
-        line-height: ${s.lineHeight} !important;
-      }
-
       /* === Blockquotes — Refined editorial styling === */
       blockquote {
         font-family: ${s.fontFamily} !important;
@@ -356,7 +484,7 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
       li {
         margin-bottom: 0.3em !important;
         padding-left: 0.2em !important;
-        text-align: justify !important;
+        text-align: ${s.textAlign} !important;
         text-justify: inter-word !important;
       }
       li > ul, li > ol {
@@ -392,48 +520,6 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
         font-size: inherit !important;
       }
 
-      /* === Images === */
-      img {
-        max-width: 100% !important;
-        max-height: calc(100vh - 3em) !important;
-        width: auto !important;
-        height: auto !important;
-        object-fit: contain !important;
-        display: block !important;
-        margin: 0.8em auto !important;
-        cursor: pointer !important;
-        border-radius: 2px !important;
-      }
-      img[width], img[height] {
-        width: auto !important;
-        height: auto !important;
-        max-width: 100% !important;
-      }
-      img:only-child {
-        margin-top: 1.5em !important;
-        margin-bottom: 1.5em !important;
-      }
-      img[src*="bullet"], img[src*="icon"], img[src*="dingbat"],
-      img[class*="inline"], img[class*="icon"] {
-        display: inline !important;
-        max-height: 1.2em !important;
-        width: auto !important;
-        height: auto !important;
-        margin: 0 0.15em !important;
-        vertical-align: middle !important;
-        cursor: default !important;
-        border-radius: 0 !important;
-      }
-      svg {
-        max-width: 100% !important;
-        height: auto !important;
-      }
-      svg:not([class*="icon"]):not([width="1em"]):not([height="1em"]) {
-        display: block !important;
-        margin: 0.8em auto !important;
-        max-height: calc(100vh - 3em) !important;
-      }
-
       /* === Figures & Captions === */
       figure {
         margin: 1em 0 !important;
@@ -548,25 +634,26 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
         margin-bottom: 0.4em !important;
         text-indent: 0 !important;
       }
+    `
 
-      /* === Custom scrollbar (scroll mode) === */
-      ::-webkit-scrollbar {
-        width: 6px;
-        height: 6px;
-      }
-      ::-webkit-scrollbar-track {
-        background: transparent;
-      }
-      ::-webkit-scrollbar-thumb {
-        background: ${rawFg ? `hsl(${rawFg} / 0.15)` : 'rgba(45,36,24,0.15)'};
-        border-radius: 999px;
-      }
-      ::-webkit-scrollbar-thumb:hover {
-        background: ${rawFg ? `hsl(${rawFg} / 0.3)` : 'rgba(45,36,24,0.3)'};
+    // The book's own fonts and sizes, scaled from the root
+    const rootSize = `
+      html {
+        font-size: ${s.fontSize}px !important;
       }
     `
+
+    const header = `
+      /* ═══════════════════════════════════════════════════
+         FlareRead — Premium Reading Typography
+         ═══════════════════════════════════════════════════ */
+${fontFaceCss(customFonts)}`
+
+    if (s.publisherStyles === 'keep') return header + chrome + rootSize
+    if (s.publisherStyles === 'blend') return header + chrome + text
+    return header + chrome + text + elements
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [resolvedTheme])
+  }, [resolvedTheme, customFonts])
 
   // Keep a ref to the latest CSS so the content hook always reads fresh values
   const themeCssRef = useRef('')
@@ -594,7 +681,7 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
   // Push the current CSS into every loaded iframe
   const applyThemeToAllContents = useCallback(() => {
     const rendition = renditionRef.current
-    if (!rendition) return
+    if (!rendition || fixedLayoutRef.current) return
     const css = themeCssRef.current
     try {
       const contents = rendition.getContents() as Array<{ document: Document }>
@@ -604,6 +691,90 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
     }
   }, [injectThemeCss])
 
+  // ─── Footnotes & Internal Links ─────────────────────
+
+  const pushLinkHistory = useCallback(() => {
+    const cfi = currentCfiRef.current
+    if (!cfi) return
+    setLinkHistory((prev) =>
+      prev[prev.length - 1] === cfi ? prev : [...prev, cfi].slice(-MAX_LINK_HISTORY)
+    )
+  }, [])
+
+  // Read a note out of its section: from the iframe when that section is on
+  // screen, otherwise by loading it on the side like goToSearchHit does
+  const loadNote = useCallback(
+    async (href: string, refId: string | null, label: string): Promise<FootnoteEntry | null> => {
+      const book = bookRef.current
+      const rendition = renditionRef.current
+      const { path, id } = splitHref(href)
+      if (!book || !rendition || !id) return null
+      const section = book.spine.get(path)
+      if (!section) return null
+
+      const toEntry = (doc: Document): FootnoteEntry | null => {
+        const note = findNoteElement(doc, id)
+        const text = (note?.textContent ?? '').trim()
+        if (!note || !text || text.length > MAX_NOTE_CHARS) return null
+        const html = noteHtml(note, refId, (link) => resolveHref(link, section.href))
+        return { href, html, label }
+      }
+
+      const shown = (rendition.getContents() as unknown as Array<{ document: Document; sectionIndex: number }>).find(
+        (contents) => contents.sectionIndex === section.index
+      )
+      if (shown) return toEntry(shown.document)
+
+      try {
+        await (section.load(book.load.bind(book)) as unknown as Promise<Document>)
+        return toEntry(section.document)
+      } catch {
+        return null
+      } finally {
+        section.unload()
+      }
+    },
+    []
+  )
+
+  // Runs in the capture phase, ahead of the onclick epub.js gives every link,
+  // so a note reference can be kept from jumping away to the notes chapter
+  const handleLinkClick = useCallback(
+    (e: MouseEvent, doc: Document, sectionIndex: number) => {
+      const link = (e.target as Element | null)?.closest?.('a[href]') as HTMLAnchorElement | null
+      const section = bookRef.current?.spine.get(sectionIndex)
+      if (!link || !section || !isInternalLink(link)) return
+      const href = resolveHref(link.getAttribute('href') ?? '', section.href)
+
+      if (!isNoteRef(link)) {
+        // epub.js follows it; keep the way back
+        pushLinkHistory()
+        return
+      }
+
+      e.preventDefault()
+      e.stopPropagation()
+      const frame = doc.defaultView?.frameElement?.getBoundingClientRect()
+      const rect = link.getBoundingClientRect()
+      const x = (frame?.left ?? 0) + rect.left + rect.width / 2
+      const y = (frame?.top ?? 0) + rect.bottom
+      // Back-links in the note point at the reference or its superscript
+      const refId = link.id || link.closest('sup')?.id || null
+      const label = (link.textContent ?? '').trim().replace(/^[[(]|[\])]$/g, '')
+
+      loadNote(href, refId, label).then((entry) => {
+        if (entry) {
+          setFootnote({ entries: [entry], x, y })
+          return
+        }
+        // Not a note after all; follow it like any other link
+        pushLinkHistory()
+        renditionRef.current?.display(href)
+      })
+    },
+    [loadNote, pushLinkHistory]
+  )
+
   // Initialize the epub book
   const initBook = useCallback(async () => {
     if (!viewerRef.current) return
@@ -622,12 +793,30 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
     bookRef.current = book
 
     const currentSettings = settingsRef.current
+    // Comics and textbooks ship pre-paginated pages; they keep their own
+    // typography and are always shown page by page
+    await book.opened
+    // Another initBook() took over while this one was opening the file
+    if (bookRef.current !== book) return
+    const fixed =
+      currentSettings.pageLayout === 'auto'
+        ? book.packaging?.metadata?.layout === 'pre-paginated'
+        : currentSettings.pageLayout === 'pre-paginated'
+    const flow = fixed ? 'paginated' : currentSettings.flow
+    fixedLayoutRef.current = fixed
+    scrollingRef.current = flow !== 'paginated'
+    setIsFixedLayout(fixed)
+    setIsScrolling(flow !== 'paginated')
+
+    if (!viewerRef.current) return
     const rendition = book.renderTo(viewerRef.current, {
       width: '100%',
       height: '100%',
-      spread: 'none',
-      flow: currentSettings.scrollMode ? 'scrolled-doc' : 'paginated',
-      manager: currentSettings.scrollMode ? 'continuous' : 'default'
+      layout: fixed ? 'pre-paginated' : 'reflowable',
+      spread: flow === 'paginated' ? currentSettings.spread : 'none',
+      minSpreadWidth: MIN_SPREAD_WIDTH,
+      flow,
+      manager: flow === 'paginated' ? 'default' : 'continuous'
     })
 
     renditionRef.current = rendition
@@ -636,8 +825,13 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
     themeCssRef.current = buildThemeCss(currentSettings)
 
     // Hook: inject theme CSS into every new section loaded by epub.js
-    rendition.hooks.content.register((contents: { document: Document }) => {
-      injectThemeCss(contents.document, themeCssRef.current)
+    rendition.hooks.content.register((contents: { document: Document; sectionIndex: number }) => {
+      if (!fixedLayoutRef.current) injectThemeCss(contents.document, themeCssRef.current)
+      contents.document.addEventListener(
+        'click',
+        (e) => handleLinkClick(e, contents.document, contents.sectionIndex),
+        true
+      )
     })
 
     // Load saved position or start from beginning
@@ -647,6 +841,7 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
       await rendition.display(progress.cfi_position)
       setPercent(progress.percent_complete || 0)
       setCurrentCfi(progress.cfi_position)
+      currentCfiRef.current = progress.cfi_position
       if (progress.current_chapter) {
         setCurrentChapter(progress.current_chapter)
       }
@@ -666,11 +861,31 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
     setToc(tocItems)
 
     // Track location changes
-    rendition.on('relocated', (location: { start: { cfi: string; href: string; percentage: number }; atStart: boolean; atEnd: boolean }) => {
+    type RelocatedEdge = { cfi: string; href: string; index: number; percentage: number; displayed?: { page: number; total: number } }
+    rendition.on('relocated', (location: { start: RelocatedEdge; end: RelocatedEdge; atStart: boolean; atEnd: boolean }) => {
       const cfi = location.start.cfi
-      const pct = Math.round((location.start.percentage || 0) * 100)
+      // Without generated locations epub.js reports 0%; the last page is at least
+      // unambiguous, and is what marks the book finished
+      const pct = location.atEnd ? 100 : Math.round((location.start.percentage || 0) * 100)
       setCurrentCfi(cfi)
+      currentCfiRef.current = cfi
       setPercent(pct)
+      // The reference it pointed from has scrolled away
+      setFootnote(null)
+      // Spine section and how far through it at each edge of the page, for the
+      // time-left estimate and the words a study session credits
+      const fraction = (edge: RelocatedEdge, pageEnd: boolean): number => {
+        const displayed = edge.displayed
+        if (!displayed || displayed.total <= 0) return pageEnd ? 1 : 0
+        return (displayed.page - (pageEnd ? 0 : 1)) / displayed.total
+      }
+      const end = location.end ?? location.start
+      setPageLocation({
+        startCfi: cfi,
+        endCfi: end.cfi,
+        start: { spineIndex: location.start.index, fraction: fraction(location.start, false) },
+        end: { spineIndex: end.index, fraction: fraction(end, true) }
+      })
       setAtStart(location.atStart)
       setAtEnd(location.atEnd)
 
@@ -683,7 +898,8 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
 
     // Handle keyboard navigation inside the epub iframe (disabled in scroll mode)
     rendition.on('keydown', (e: KeyboardEvent) => {
-      if (settingsRef.current.scrollMode) return
+      if (e.key === 'Escape') setFootnote(null)
+      if (scrollingRef.current) return
       if (e.key === 'ArrowRight' || e.key === 'PageDown') {
         e.preventDefault()
         rendition.next()
@@ -707,7 +923,7 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
         return
       }
 
-      if (settingsRef.current.scrollMode) return
+      if (scrollingRef.current) return
       // Ignore clicks on links
       if (target.closest('a')) return
 
@@ -724,7 +940,7 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
 
     setIsLoading(false)
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filePath, bookId, buildThemeCss, injectThemeCss, mapNavItems, findChapterLabel])
+  }, [filePath, bookId, buildThemeCss, injectThemeCss, handleLinkClick, mapNavItems, findChapterLabel])
 
   // Navigation
   const goNext = useCallback(() => {
@@ -743,6 +959,90 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
     renditionRef.current?.display(cfi)
   }, [])
 
+  /** Follow a link inside the popover: a note stacks on top, anything else is read in place */
+  const openNoteLink = useCallback(
+    async (href: string, label: string) => {
+      const entry = await loadNote(href, null, label)
+      if (entry) {
+        setFootnote((prev) => prev && { ...prev, entries: [...prev.entries, entry] })
+        return
+      }
+      setFootnote(null)
+      pushLinkHistory()
+      renditionRef.current?.display(href)
+    },
+    [loadNote, pushLinkHistory]
+  )
+
+  const footnoteBack = useCallback(() => {
+    setFootnote((prev) => (prev && prev.entries.length > 1 ? { ...prev, entries: prev.entries.slice(0, -1) } : prev))
+  }, [])
+
+  const closeFootnote = useCallback(() => setFootnote(null), [])
+
+  /** Leave the text for the note on screen, keeping the way back */
+  const goToFootnote = useCallback(() => {
+    const entry = footnote?.entries[footnote.entries.length - 1]
+    if (!entry) return
+    setFootnote(null)
+    pushLinkHistory()
+    renditionRef.current?.display(entry.href)
+  }, [footnote, pushLinkHistory])
+
+  /** Return to where the last followed link was clicked */
+  const goBackInHistory = useCallback(() => {
+    const cfi = linkHistory[linkHistory.length - 1]
+    if (!cfi) return
+    setLinkHistory(linkHistory.slice(0, -1))
+    renditionRef.current?.display(cfi)
+  }, [linkHistory])
+
+  // Jump to a full-text search hit: resolve the matched text to a CFI inside
+  // its spine section, then briefly flash it so the reader can spot it
+  const goToSearchHit = useCallback(async (target: SearchTarget) => {
+    const book = bookRef.current
+    const rendition = renditionRef.current
+    if (!book || !rendition) return
+
+    const section = book.spine.get(target.href)
+    if (!section || !target.match) {
+      await rendition.display(target.href)
+      return
+    }
+
+    let cfi: string | null = null
+    try {
+      await (section.load(book.load.bind(book)) as unknown as Promise<Document>)
+      const results = section.find(target.match) as unknown as Array<{ cfi: string; excerpt: string }>
+      cfi = pickSearchResult(results, target)
+    } catch {
+      // Section failed to load — fall back to the start of the chapter
+    } finally {
+      section.unload()
+    }
+
+    await rendition.display(cfi ?? target.href)
+    if (!cfi) return
+    const hitCfi = cfi
+
+    try {
+      rendition.annotations.highlight(hitCfi, {}, undefined, 'flareread-search-hit', {
+        fill: '#facc15',
+        'fill-opacity': '0.5',
+        'mix-blend-mode': 'multiply'
+      })
+      setTimeout(() => {
+        try {
+          renditionRef.current?.annotations.remove(hitCfi, 'highlight')
+        } catch {
+          // rendition destroyed
+        }
+      }, 4000)
+    } catch {
+      // ignore invalid CFI ranges
+    }
+  }, [])
+
   // Apply highlight annotations to the rendition
   const applyHighlights = useCallback((highlightsList: Highlight[]) => {
     const rendition = renditionRef.current
@@ -788,14 +1088,15 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
   // Get the rendition ref (for text selection handling in the component)
   const getRendition = useCallback(() => renditionRef.current, [])
 
-  // Re-initialize book when scrollMode changes
-  const prevScrollModeRef = useRef(settings.scrollMode)
+  // Re-initialize book when the layout changes; epub.js can't switch managers in place
+  const layoutKey = `${settings.flow}:${settings.spread}:${settings.pageLayout}`
+  const prevLayoutKeyRef = useRef(layoutKey)
   useEffect(() => {
-    if (settings.scrollMode !== prevScrollModeRef.current) {
-      prevScrollModeRef.current = settings.scrollMode
+    if (layoutKey !== prevLayoutKeyRef.current) {
+      prevLayoutKeyRef.current = layoutKey
       initBook()
     }
-  }, [settings.scrollMode, initBook])
+  }, [layoutKey, initBook])
 
   // Update settings / theme on the fly — rebuild CSS, push to all iframes
   useEffect(() => {
@@ -804,8 +1105,8 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
     applyThemeToAllContents()
 
     // Force epub.js to re-layout after style change
-    // Skip resize when scrollMode changed — initBook() handles full re-init
-    if (renditionRef.current && settings.scrollMode === prevScrollModeRef.current) {
+    // Skip resize when the layout changed — initBook() handles full re-init
+    if (renditionRef.current && layoutKey === prevLayoutKeyRef.current) {
       try {
         renditionRef.current.resize(
           viewerRef.current?.clientWidth ?? window.innerWidth,
@@ -815,7 +1116,7 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
         // Rendition manager not ready yet, safe to ignore
       }
     }
-  }, [settings, resolvedTheme, buildThemeCss, applyThemeToAllContents])
+  }, [settings, layoutKey, resolvedTheme, buildThemeCss, applyThemeToAllContents])
 
   // Cleanup on unmount
   useEffect(() => {
@@ -834,18 +1135,54 @@ export function useEpubReader({ bookId, filePath, settings, resolvedTheme, onIma
     bookTitle,
     percent,
     currentCfi,
+    pageLocation,
+    position: pageLocation?.start ?? null,
     isLoading,
     atStart,
     atEnd,
     didResume,
+    isFixedLayout,
+    isScrolling,
     initBook,
     goNext,
     goPrev,
     goToHref,
     goToCfi,
+    goToSearchHit,
     savePosition,
     applyHighlights,
     removeHighlightAnnotation,
-    getRendition
+    getRendition,
+    footnote,
+    openNoteLink,
+    footnoteBack,
+    closeFootnote,
+    goToFootnote,
+    canGoBack: linkHistory.length > 0,
+    goBackInHistory
+  }
+}
+
+// Pick the occurrence whose surrounding text best matches the indexed snippet
+function pickSearchResult(
+  results: Array<{ cfi: string; excerpt: string }>,
+  target: SearchTarget
+): string | null {
+  if (results.length === 0) return null
+  if (results.length === 1) return results[0].cfi
+
+  const words = (t: string): string[] => t.toLowerCase().split(/\s+/).filter((w) => w.length > 2)
+  const context = [...words(target.before).slice(-6), ...words(target.after).slice(0, 6)]
+
+  let best = results[0]
+  let bestScore = -1
+  for (const result of results) {
+    const excerpt = result.excerpt.toLowerCase()
+    const score = context.filter((w) => excerpt.includes(w)).length
+    if (score > bestScore) {
+      best = result
+      bestScore = score
+    }
   }
+  return best.cfi
 }
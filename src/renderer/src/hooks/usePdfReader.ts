@@ -0,0 +1,455 @@
+import { useState, useRef, useCallback, useEffect } from 'react'
+import {
+  pdfjs,
+  loadPdf,
+  pdfPageHref,
+  parsePdfPage,
+  encodePdfRange,
+  decodePdfRange,
+  type PDFDocumentProxy,
+  type PdfRect
+} from '@/lib/pdf'
+import { TocItem, ReadingProgress, Highlight, SearchTarget } from '@/types'
+
+interface UsePdfReaderOptions {
+  bookId: string
+  filePath: string
+  /** Multiplier on top of fit-to-width */
+  zoom: number
+}
+
+export interface PdfSelection {
+  cfiRange: string
+  text: string
+  x: number
+  y: number
+}
+
+interface OutlineEntry {
+  label: string
+  page: number
+}
+
+type PdfOutlineNode = {
+  title: string
+  dest: string | unknown[] | null
+  items: PdfOutlineNode[]
+}
+
+/**
+ * PDF counterpart of useEpubReader: renders one page at a time (canvas + text layer
+ * + highlight overlay) and exposes the same navigation/progress surface so the
+ * reader chrome, annotations and study sessions work unchanged.
+ */
+export function usePdfReader({ bookId, filePath, zoom }: UsePdfReaderOptions) {
+  const docRef = useRef<PDFDocumentProxy | null>(null)
+  const viewerRef = useRef<HTMLDivElement | null>(null)
+  const renderTokenRef = useRef(0)
+  const pageNumberRef = useRef(1)
+  const zoomRef = useRef(zoom)
+  zoomRef.current = zoom
+  const outlineRef = useRef<OutlineEntry[]>([])
+  const highlightsRef = useRef<Highlight[]>([])
+  const onHighlightClickRef = useRef<((h: Highlight, e: MouseEvent | null) => void) | null>(null)
+  const onSelectionRef = useRef<((selection: PdfSelection | null) => void) | null>(null)
+
+  const [toc, setToc] = useState<TocItem[]>([])
+  const [currentChapter, setCurrentChapter] = useState<string>('')
+  const [bookTitle, setBookTitle] = useState<string>('')
+  const [pageNumber, setPageNumber] = useState(1)
+  const [numPages, setNumPages] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [didResume, setDidResume] = useState(false)
+
+  const percent = numPages > 1 ? Math.round(((pageNumber - 1) / (numPages - 1)) * 100) : 0
+  const currentCfi = numPages > 0 ? pdfPageHref(pageNumber) : ''
+  const atStart = pageNumber <= 1
+  const atEnd = numPages === 0 || pageNumber >= numPages
+
+  // Save position to DB (throttled externally)
+  const savePosition = useCallback(
+    (cfi: string, pct: number, chapter: string) => {
+      window.api.progress.upsert({
+        book_id: bookId,
+        cfi_position: cfi,
+        percent_complete: pct,
+        current_chapter: chapter
+      })
+    },
+    [bookId]
+  )
+
+  const chapterForPage = useCallback((page: number): string => {
+    let label = ''
+    for (const entry of outlineRef.current) {
+      if (entry.page <= page) label = entry.label
+      else break
+    }
+    return label
+  }, [])
+
+  // ─── Highlight overlay ────────────────────────────
+  const drawHighlights = useCallback(() => {
+    const layer = viewerRef.current?.querySelector<HTMLDivElement>('.highlightLayer')
+    if (!layer) return
+    layer.querySelectorAll('[data-highlight-id]').forEach((el) => el.remove())
+
+    for (const h of highlightsRef.current) {
+      const range = decodePdfRange(h.cfi_range)
+      if (!range || range.page !== pageNumberRef.current) continue
+      for (const rect of range.rects) {
+        const div = document.createElement('div')
+        div.dataset.highlightId = h.id
+        div.style.left = `${rect.x * 100}%`
+        div.style.top = `${rect.y * 100}%`
+        div.style.width = `${rect.w * 100}%`
+        div.style.height = `${rect.h * 100}%`
+        div.style.background = h.color
+        div.style.opacity = '0.45'
+        layer.appendChild(div)
+      }
+    }
+  }, [])
+
+  // Briefly flash rects on the current page (search hits)
+  const flashRects = useCallback((rects: PdfRect[]) => {
+    const layer = viewerRef.current?.querySelector<HTMLDivElement>('.highlightLayer')
+    if (!layer) return
+    const els = rects.map((rect) => {
+      const div = document.createElement('div')
+      div.style.left = `${rect.x * 100}%`
+      div.style.top = `${rect.y * 100}%`
+      div.style.width = `${rect.w * 100}%`
+      div.style.height = `${rect.h * 100}%`
+      div.style.background = '#facc15'
+      div.style.opacity = '0.5'
+      div.style.transition = 'opacity 0.6s ease'
+      layer.appendChild(div)
+      return div
+    })
+    setTimeout(() => els.forEach((el) => (el.style.opacity = '0')), 3400)
+    setTimeout(() => els.forEach((el) => el.remove()), 4000)
+  }, [])
+
+  // ─── Page rendering ───────────────────────────────
+  const renderPage = useCallback(
+    async (page: number) => {
+      const doc = docRef.current
+      const container = viewerRef.current
+      if (!doc || !container) return
+
+      const target = Math.min(Math.max(page, 1), doc.numPages)
+      const token = ++renderTokenRef.current
+      pageNumberRef.current = target
+      setPageNumber(target)
+      setCurrentChapter(chapterForPage(target))
+
+      const pdfPage = await doc.getPage(target)
+      if (token !== renderTokenRef.current) return
+
+      const base = pdfPage.getViewport({ scale: 1 })
+      const available = Math.max(container.clientWidth - 32, 200)
+      const scale = (available / base.width) * zoomRef.current
+      const viewport = pdfPage.getViewport({ scale })
+      const outputScale = window.devicePixelRatio || 1
+
+      const pageEl = document.createElement('div')
+      pageEl.className = 'pdf-page mx-auto my-4'
+      pageEl.style.width = `${Math.floor(viewport.width)}px`
+      pageEl.style.height = `${Math.floor(viewport.height)}px`
+      pageEl.style.setProperty('--scale-factor', String(scale))
+
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.floor(viewport.width * outputScale)
+      canvas.height = Math.floor(viewport.height * outputScale)
+      canvas.style.width = `${Math.floor(viewport.width)}px`
+      canvas.style.height = `${Math.floor(viewport.height)}px`
+
+      const highlightLayer = document.createElement('div')
+      highlightLayer.className = 'highlightLayer'
+      const textLayerEl = document.createElement('div')
+      textLayerEl.className = 'textLayer'
+
+      pageEl.append(canvas, highlightLayer, textLayerEl)
+
+      const ctx = canvas.getContext('2d')
+      if (!ctx) return
+      await pdfPage.render({
+        canvasContext: ctx,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+      }).promise
+      if (token !== renderTokenRef.current) return
+
+      const textLayer = new pdfjs.TextLayer({
+        textContentSource: pdfPage.streamTextContent(),
+        container: textLayerEl,
+        viewport
+      })
+      await textLayer.render()
+      if (token !== renderTokenRef.current) return
+
+      container.replaceChildren(pageEl)
+      container.scrollTop = 0
+      drawHighlights()
+    },
+    [chapterForPage, drawHighlights]
+  )
+
+  // ─── Init ─────────────────────────────────────────
+  const resolveOutline = useCallback(
+    async (doc: PDFDocumentProxy, nodes: PdfOutlineNode[], flat: OutlineEntry[]): Promise<TocItem[]> => {
+      const items: TocItem[] = []
+      for (const [i, node] of nodes.entries()) {
+        let page = 1
+        try {
+          const dest = typeof node.dest === 'string' ? await doc.getDestination(node.dest) : node.dest
+          if (Array.isArray(dest) && dest[0]) {
+            page = (await doc.getPageIndex(dest[0] as Parameters<typeof doc.getPageIndex>[0])) + 1
+          }
+        } catch {
+          // unresolved destination — keep page 1
+        }
+        flat.push({ label: node.title.trim(), page })
+        items.push({
+          id: `${page}-${i}-${node.title}`,
+          href: pdfPageHref(page),
+          label: node.title.trim(),
+          subitems: node.items?.length ? await resolveOutline(doc, node.items, flat) : undefined
+        })
+      }
+      return items
+    },
+    []
+  )
+
+  const initBook = useCallback(async () => {
+    if (!viewerRef.current) return
+    setIsLoading(true)
+
+    if (docRef.current) {
+      docRef.current.destroy()
+      docRef.current = null
+    }
+
+    try {
+      const doc = await loadPdf(filePath)
+      docRef.current = doc
+      setNumPages(doc.numPages)
+
+      const meta = await doc.getMetadata().catch(() => null)
+      const info = (meta?.info ?? {}) as { Title?: string }
+      if (info.Title) setBookTitle(info.Title)
+
+      const outline = ((await doc.getOutline()) ?? []) as PdfOutlineNode[]
+      const flat: OutlineEntry[] = []
+      setToc(await resolveOutline(doc, outline, flat))
+      outlineRef.current = flat.sort((a, b) => a.page - b.page)
+
+      // Restore saved position
+      const progress = (await window.api.progress.get(bookId)) as ReadingProgress | undefined
+      const savedPage = progress?.cfi_position ? parsePdfPage(progress.cfi_position) : null
+      await renderPage(savedPage ?? 1)
+      setDidResume(!!savedPage && savedPage > 1)
+    } catch (err) {
+      console.error('Failed to load PDF:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [bookId, filePath, renderPage, resolveOutline])
+
+  // ─── Navigation ───────────────────────────────────
+  const goNext = useCallback(() => {
+    if (docRef.current && pageNumberRef.current < docRef.current.numPages) {
+      renderPage(pageNumberRef.current + 1)
+    }
+  }, [renderPage])
+
+  const goPrev = useCallback(() => {
+    if (pageNumberRef.current > 1) renderPage(pageNumberRef.current - 1)
+  }, [renderPage])
+
+  const goToHref = useCallback(
+    (href: string) => {
+      const page = parsePdfPage(href)
+      if (page) renderPage(page)
+    },
+    [renderPage]
+  )
+
+  // Highlights and bookmarks store "#page=N..." locations, so this is the same as goToHref
+  const goToCfi = goToHref
+
+  // Jump to a full-text search hit and flash the matched text on the page
+  const goToSearchHit = useCallback(
+    async (target: SearchTarget) => {
+      const page = parsePdfPage(target.href)
+      if (!page) return
+      await renderPage(page)
+      if (!target.match) return
+
+      const pageEl = viewerRef.current?.querySelector<HTMLDivElement>('.pdf-page')
+      const spans = pageEl?.querySelectorAll<HTMLSpanElement>('.textLayer span')
+      if (!pageEl || !spans) return
+
+      const needle = target.match.toLowerCase()
+      for (const span of spans) {
+        const node = span.firstChild
+        const idx = span.textContent?.toLowerCase().indexOf(needle) ?? -1
+        if (idx === -1 || !node) continue
+        const range = document.createRange()
+        range.setStart(node, idx)
+        range.setEnd(node, Math.min(idx + needle.length, node.textContent?.length ?? 0))
+        flashRects(normalizeRects(range, pageEl))
+        break
+      }
+    },
+    [renderPage, flashRects]
+  )
+
+  // Apply highlight annotations to the overlay
+  const applyHighlights = useCallback(
+    (highlightsList: Highlight[]) => {
+      highlightsRef.current = highlightsList
+      drawHighlights()
+    },
+    [drawHighlights]
+  )
+
+  const removeHighlightAnnotation = useCallback(
+    (cfiRange: string) => {
+      highlightsRef.current = highlightsRef.current.filter((h) => h.cfi_range !== cfiRange)
+      drawHighlights()
+    },
+    [drawHighlights]
+  )
+
+  // ─── Selection + highlight clicks ─────────────────
+  useEffect(() => {
+    const container = viewerRef.current
+    if (!container) return
+
+    const handleMouseUp = (e: MouseEvent): void => {
+      const pageEl = container.querySelector<HTMLDivElement>('.pdf-page')
+      if (!pageEl) return
+      const selection = window.getSelection()
+
+      if (selection && !selection.isCollapsed && selection.rangeCount > 0) {
+        const range = selection.getRangeAt(0)
+        if (!pageEl.contains(range.commonAncestorContainer)) return
+        const text = selection.toString().replace(/\s+/g, ' ').trim()
+        const rects = normalizeRects(range, pageEl)
+        if (!text || rects.length === 0) return
+        const bounds = range.getBoundingClientRect()
+        onSelectionRef.current?.({
+          cfiRange: encodePdfRange(pageNumberRef.current, rects),
+          text,
+          x: bounds.left + bounds.width / 2,
+          y: bounds.top
+        })
+        return
+      }
+
+      // No selection: check whether the click landed on an existing highlight
+      const pageRect = pageEl.getBoundingClientRect()
+      const px = (e.clientX - pageRect.left) / pageRect.width
+      const py = (e.clientY - pageRect.top) / pageRect.height
+      const hit = highlightsRef.current.find((h) => {
+        const range = decodePdfRange(h.cfi_range)
+        return (
+          range?.page === pageNumberRef.current &&
+          range.rects.some((r) => px >= r.x && px <= r.x + r.w && py >= r.y && py <= r.y + r.h)
+        )
+      })
+      if (hit) onHighlightClickRef.current?.(hit, e)
+      else onSelectionRef.current?.(null)
+    }
+
+    container.addEventListener('mouseup', handleMouseUp)
+    return () => container.removeEventListener('mouseup', handleMouseUp)
+  }, [])
+
+  // Re-render on zoom change and container resize
+  useEffect(() => {
+    if (docRef.current) renderPage(pageNumberRef.current)
+  }, [zoom, renderPage])
+
+  useEffect(() => {
+    const container = viewerRef.current
+    if (!container) return
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let lastWidth = container.clientWidth
+    const observer = new ResizeObserver(() => {
+      if (container.clientWidth === lastWidth) return
+      lastWidth = container.clientWidth
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => {
+        if (docRef.current) renderPage(pageNumberRef.current)
+      }, 150)
+    })
+    observer.observe(container)
+    return () => {
+      observer.disconnect()
+      if (timer) clearTimeout(timer)
+    }
+  }, [renderPage])
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      renderTokenRef.current++
+      if (docRef.current) docRef.current.destroy()
+    }
+  }, [])
+
+  return {
+    viewerRef,
+    onHighlightClickRef,
+    onSelectionRef,
+    toc,
+    currentChapter,
+    bookTitle,
+    percent,
+    currentCfi,
+    pageNumber,
+    numPages,
+    isLoading,
+    atStart,
+    atEnd,
+    didResume,
+    initBook,
+    goNext,
+    goPrev,
+    goToHref,
+    goToCfi,
+    goToSearchHit,
+    savePosition,
+    applyHighlights,
+    removeHighlightAnnotation
+  }
+}
+
+// Convert a DOM range into page-relative rects (0..1), merging the per-span
+// fragments of each text line so stored highlights stay compact
+function normalizeRects(range: Range, pageEl: HTMLElement): PdfRect[] {
+  const pageRect = pageEl.getBoundingClientRect()
+  const rects: PdfRect[] = []
+  for (const r of Array.from(range.getClientRects())) {
+    if (r.width < 1 || r.height < 1) continue
+    const rect = {
+      x: (r.left - pageRect.left) / pageRect.width,
+      y: (r.top - pageRect.top) / pageRect.height,
+      w: r.width / pageRect.width,
+      h: r.height / pageRect.height
+    }
+    const line = rects.find((o) => Math.abs(o.y - rect.y) < o.h / 2 && Math.abs(o.h - rect.h) < o.h / 2)
+    if (line) {
+      const right = Math.max(line.x + line.w, rect.x + rect.w)
+      line.x = Math.min(line.x, rect.x)
+      line.w = right - line.x
+    } else {
+      rects.push(rect)
+    }
+  }
+  return rects
+}
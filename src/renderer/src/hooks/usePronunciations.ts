@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react'
+import { PronunciationInput, PronunciationRule } from '@/types'
+
+type SaveResult = { success: true; rule: PronunciationRule } | { success: false; error: string }
+
+export interface UsePronunciationsReturn {
+  /** Global rules, plus the book's own rules when a book is given */
+  rules: PronunciationRule[]
+  /** Resolves to an error message, or null once saved */
+  save: (input: PronunciationInput) => Promise<string | null>
+  remove: (id: string) => Promise<void>
+}
+
+export function usePronunciations(bookId?: string): UsePronunciationsReturn {
+  const [rules, setRules] = useState<PronunciationRule[]>([])
+
+  const refresh = useCallback(async () => {
+    setRules((await window.ttsApi.listPronunciations(bookId)) as PronunciationRule[])
+  }, [bookId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const save = useCallback(
+    async (input: PronunciationInput) => {
+      const result = (await window.ttsApi.savePronunciation(input)) as SaveResult
+      if (!result.success) return result.error
+      await refresh()
+      return null
+    },
+    [refresh]
+  )
+
+  const remove = useCallback(
+    async (id: string) => {
+      await window.ttsApi.deletePronunciation(id)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  return { rules, save, remove }
+}
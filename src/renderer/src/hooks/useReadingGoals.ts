@@ -0,0 +1,37 @@
+import { useState, useCallback, useEffect } from 'react'
+import { ReadingGoalWithProgress } from '@/types'
+
+interface UseReadingGoalsResult {
+  goals: ReadingGoalWithProgress[]
+  loading: boolean
+  refresh: () => Promise<void>
+  deleteGoal: (id: string) => Promise<void>
+}
+
+export function useReadingGoals(): UseReadingGoalsResult {
+  const [goals, setGoals] = useState<ReadingGoalWithProgress[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    try {
+      const result = await window.api.goals.getAll()
+      setGoals(result as ReadingGoalWithProgress[])
+    } catch (err) {
+      console.error('Failed to load reading goals:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const deleteGoal = useCallback(async (id: string) => {
+    await window.api.goals.delete(id)
+    setGoals((prev) => prev.filter((g) => g.id !== id))
+  }, [])
+
+  return { goals, loading, refresh, deleteGoal }
+}
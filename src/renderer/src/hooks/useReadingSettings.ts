@@ -1,35 +1,147 @@
-import { useState, useEffect, useCallback } from 'react'
-import { ReadingSettings, DEFAULT_SETTINGS } from '@/types'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { ReadingSettings, DEFAULT_SETTINGS, BookTypography, PROFILE_SETTINGS, TypographyProfile } from '@/types'
+import { profileSettings } from '@/hooks/useTypography'
 
 const SETTINGS_KEY = 'reader:settings'
 
-export function useReadingSettings() {
-  const [settings, setSettingsState] = useState<ReadingSettings>(DEFAULT_SETTINGS)
+/** Per-book overrides; only the fields changed while reading that book */
+function bookSettingsKey(bookId: string): string {
+  return `${SETTINGS_KEY}:${bookId}`
+}
+
+function parseSettings(raw: string | null): Partial<ReadingSettings> & { scrollMode?: boolean } {
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw)
+  } catch {
+    // ignore parse errors, use defaults
+    return {}
+  }
+}
+
+/** Settings saved before reading flows existed only had a scroll on/off switch */
+function migrateLegacy(stored: Partial<ReadingSettings> & { scrollMode?: boolean }): Partial<ReadingSettings> {
+  const { scrollMode, ...rest } = stored
+  if (scrollMode !== undefined && rest.flow === undefined) {
+    rest.flow = scrollMode ? 'scrolled-doc' : 'paginated'
+  }
+  return rest
+}
+
+const NO_PROFILE: BookTypography = { profile: null, source: null }
+
+/**
+ * Reading settings for one book: the global defaults, then the typography
+ * profile of the book or its category, then whatever was changed while
+ * reading it. Without a book, edits the defaults.
+ */
+export function useReadingSettings(bookId?: string) {
+  const [defaults, setDefaults] = useState<ReadingSettings>(DEFAULT_SETTINGS)
+  const [typography, setTypography] = useState<BookTypography>(NO_PROFILE)
+  const [overrides, setOverrides] = useState<Partial<ReadingSettings>>({})
   const [loaded, setLoaded] = useState(false)
 
   useEffect(() => {
-    window.api.settings.get(SETTINGS_KEY).then((raw) => {
-      if (raw) {
-        try {
-          setSettingsState({ ...DEFAULT_SETTINGS, ...JSON.parse(raw) })
-        } catch {
-          // ignore parse errors, use defaults
-        }
-      }
+    setLoaded(false)
+    Promise.all([
+      window.api.settings.get(SETTINGS_KEY),
+      bookId ? window.api.settings.get(bookSettingsKey(bookId)) : Promise.resolve(null),
+      bookId ? window.api.typography.getForBook(bookId) : Promise.resolve(NO_PROFILE)
+    ]).then(([rawDefaults, rawBook, bookTypography]) => {
+      setDefaults({ ...DEFAULT_SETTINGS, ...migrateLegacy(parseSettings(rawDefaults)) })
+      setOverrides(migrateLegacy(parseSettings(rawBook)))
+      setTypography(bookTypography as BookTypography)
       setLoaded(true)
     })
-  }, [])
+  }, [bookId])
 
   const updateSettings = useCallback(
     (patch: Partial<ReadingSettings>) => {
-      setSettingsState((prev) => {
+      if (!bookId) {
+        setDefaults((prev) => {
+          const next = { ...prev, ...patch }
+          window.api.settings.set(SETTINGS_KEY, JSON.stringify(next))
+          return next
+        })
+        return
+      }
+      setOverrides((prev) => {
         const next = { ...prev, ...patch }
-        window.api.settings.set(SETTINGS_KEY, JSON.stringify(next))
+        window.api.settings.set(bookSettingsKey(bookId), JSON.stringify(next))
         return next
       })
     },
-    []
+    [bookId]
+  )
+
+  /** Make this book's settings the defaults for every book without its own */
+  const saveAsDefault = useCallback(() => {
+    if (!bookId) return
+    const next = { ...defaults, ...overrides }
+    window.api.settings.set(SETTINGS_KEY, JSON.stringify(next))
+    window.api.settings.delete(bookSettingsKey(bookId))
+    setDefaults(next)
+    setOverrides({})
+  }, [bookId, defaults, overrides])
+
+  /** Drop this book's changes and go back to the defaults */
+  const resetToDefault = useCallback(() => {
+    if (!bookId) return
+    window.api.settings.delete(bookSettingsKey(bookId))
+    setOverrides({})
+  }, [bookId])
+
+  /** Drop this book's own typography changes so the profile shows as saved */
+  const clearProfileOverrides = useCallback(() => {
+    if (!bookId) return
+    setOverrides((prev) => {
+      const next = { ...prev }
+      for (const key of PROFILE_SETTINGS) delete next[key]
+      window.api.settings.set(bookSettingsKey(bookId), JSON.stringify(next))
+      return next
+    })
+  }, [bookId])
+
+  /** Read this book with a profile, or with its category's when null */
+  const assignProfile = useCallback(
+    async (profileId: string | null) => {
+      if (!bookId) return
+      await window.api.typography.assignBook(bookId, profileId)
+      setTypography((await window.api.typography.getForBook(bookId)) as BookTypography)
+      clearProfileOverrides()
+    },
+    [bookId, clearProfileOverrides]
+  )
+
+  /** Pick up edits to the profile in use */
+  const profileSaved = useCallback(
+    (profile: TypographyProfile) => {
+      setTypography((prev) => (prev.profile?.id === profile.id ? { ...prev, profile } : prev))
+      clearProfileOverrides()
+    },
+    [clearProfileOverrides]
+  )
+
+  // Memoized so the reader only re-lays out when a value actually changes
+  const base = useMemo<ReadingSettings>(
+    () => ({ ...defaults, ...(typography.profile ? profileSettings(typography.profile) : {}) }),
+    [defaults, typography]
+  )
+  const settings = useMemo<ReadingSettings>(() => ({ ...base, ...overrides }), [base, overrides])
+  const customized = (Object.keys(overrides) as (keyof ReadingSettings)[]).some(
+    (key) => overrides[key] !== base[key]
   )
 
-  return { settings, updateSettings, loaded }
+  return {
+    settings,
+    updateSettings,
+    loaded,
+    customized,
+    saveAsDefault,
+    resetToDefault,
+    profile: typography.profile,
+    profileSource: typography.source,
+    assignProfile,
+    profileSaved
+  }
 }
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { ReviewCard, ReviewCounts, ReviewGrade } from '@/types'
+
+export interface UseReviewReturn {
+  queue: ReviewCard[]
+  current: ReviewCard | null
+  counts: ReviewCounts | null
+  loading: boolean
+  reviewedCount: number
+  grade: (grade: ReviewGrade) => Promise<void>
+  updateCard: (data: Partial<Pick<ReviewCard, 'kind' | 'front' | 'back'>>) => Promise<void>
+  suspendCard: () => Promise<void>
+  reload: () => Promise<void>
+}
+
+/**
+ * Review queue for the flashcard page. Time on each card is measured from when
+ * it's shown until it's graded and sent to main, which books it as review time.
+ */
+export function useReview(): UseReviewReturn {
+  const [queue, setQueue] = useState<ReviewCard[]>([])
+  const [counts, setCounts] = useState<ReviewCounts | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [reviewedCount, setReviewedCount] = useState(0)
+  const shownAt = useRef(Date.now())
+
+  const current = queue[0] ?? null
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [cards, c] = await Promise.all([window.api.review.queue(), window.api.review.counts()])
+      setQueue(cards as ReviewCard[])
+      setCounts(c as ReviewCounts)
+    } catch (err) {
+      console.error('Failed to load review queue:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    reload()
+    // Close the review sessions so they show up as finished in Sessions
+    return () => {
+      window.api.review.finish()
+    }
+  }, [reload])
+
+  useEffect(() => {
+    shownAt.current = Date.now()
+  }, [current?.id])
+
+  const grade = useCallback(
+    async (g: ReviewGrade) => {
+      if (!current) return
+      const elapsed = Date.now() - shownAt.current
+      const updated = (await window.api.review.grade(current.id, g, elapsed)) as ReviewCard | null
+      setReviewedCount((n) => n + 1)
+      setQueue((prev) => {
+        const rest = prev.slice(1)
+        // Cards answered "again" come back at the end of this run
+        if (updated && g === 'again') {
+          return [...rest, { ...current, ...updated }]
+        }
+        return rest
+      })
+      window.api.review.counts().then((c) => setCounts(c as ReviewCounts))
+    },
+    [current]
+  )
+
+  const updateCard = useCallback(
+    async (data: Partial<Pick<ReviewCard, 'kind' | 'front' | 'back'>>) => {
+      if (!current) return
+      const updated = (await window.api.review.update(current.id, data)) as ReviewCard
+      setQueue((prev) => prev.map((c) => (c.id === current.id ? { ...c, ...updated, intervals: c.intervals } : c)))
+    },
+    [current]
+  )
+
+  const suspendCard = useCallback(async () => {
+    if (!current) return
+    await window.api.review.suspend(current.id, true)
+    setQueue((prev) => prev.slice(1))
+    window.api.review.counts().then((c) => setCounts(c as ReviewCounts))
+  }, [current])
+
+  return { queue, current, counts, loading, reviewedCount, grade, updateCard, suspendCard, reload }
+}
@@ -0,0 +1,93 @@
+import { useState, useCallback, useEffect } from 'react'
+import {
+  DailyActivity,
+  HourlyActivity,
+  StatsBucket,
+  StatsGroup,
+  StatsRange,
+  StatsSummary,
+  TimeSeriesPoint,
+  WpmPoint
+} from '@/types'
+
+export type StatsPeriod = '30d' | '90d' | '1y' | 'all'
+
+const PERIOD_DAYS: Record<StatsPeriod, number | null> = {
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+  all: null
+}
+
+/** The heatmap always shows the last year, whatever period the rest of the page covers */
+export const HEATMAP_WEEKS = 53
+
+function startOfLocalDay(daysAgo: number): Date {
+  const d = new Date()
+  d.setHours(0, 0, 0, 0)
+  d.setDate(d.getDate() - daysAgo)
+  return d
+}
+
+export function rangeForPeriod(period: StatsPeriod): StatsRange {
+  const days = PERIOD_DAYS[period]
+  return days === null ? {} : { from: startOfLocalDay(days - 1).toISOString() }
+}
+
+/** Daily buckets get unreadable past a few months */
+export function bucketForPeriod(period: StatsPeriod): StatsBucket {
+  if (period === '30d') return 'day'
+  if (period === '90d') return 'week'
+  return 'month'
+}
+
+interface StatsData {
+  heatmap: DailyActivity[]
+  hourly: HourlyActivity[]
+  series: TimeSeriesPoint[]
+  wpm: WpmPoint[]
+  summary: StatsSummary | null
+  loading: boolean
+}
+
+export function useStats(
+  period: StatsPeriod,
+  groupBy: StatsGroup
+): StatsData & { refresh: () => Promise<void> } {
+  const [heatmap, setHeatmap] = useState<DailyActivity[]>([])
+  const [hourly, setHourly] = useState<HourlyActivity[]>([])
+  const [series, setSeries] = useState<TimeSeriesPoint[]>([])
+  const [wpm, setWpm] = useState<WpmPoint[]>([])
+  const [summary, setSummary] = useState<StatsSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    const range = rangeForPeriod(period)
+    const bucket = bucketForPeriod(period)
+    setLoading(true)
+    try {
+      const [days, hours, ser, trend, sum] = await Promise.all([
+        window.api.stats.daily({ from: startOfLocalDay(HEATMAP_WEEKS * 7).toISOString() }),
+        window.api.stats.hourly(range),
+        window.api.stats.series(range, groupBy, bucket),
+        window.api.stats.wpmTrend(range, bucket),
+        window.api.stats.summary(range)
+      ])
+      setHeatmap(days as DailyActivity[])
+      setHourly(hours as HourlyActivity[])
+      setSeries(ser as TimeSeriesPoint[])
+      setWpm(trend as WpmPoint[])
+      setSummary(sum as StatsSummary)
+    } catch (err) {
+      console.error('Failed to load statistics:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [period, groupBy])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { heatmap, hourly, series, wpm, summary, loading, refresh }
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { SessionSnapshot, SessionStartConfig, SessionWrapUpData } from '@/types'
+import { PageLocation, SessionSnapshot, SessionStartConfig, SessionWrapUpData } from '@/types'
 
 interface UseStudySessionReturn {
   /** Current session snapshot (null if no session active) */
@@ -20,6 +20,8 @@ interface UseStudySessionReturn {
   getWrapUp: () => Promise<SessionWrapUpData | null>
   /** Report user activity (call on mouse/keyboard events) */
   reportActivity: () => void
+  /** Report the page on screen after every page turn, for words read and pages viewed */
+  reportLocation: (bookId: string, location: PageLocation) => void
   /** Notify that a highlight was created during session */
   onHighlightCreated: () => void
   /** Notify that a note was created during session */
@@ -92,6 +94,10 @@ export function useStudySession(): UseStudySessionReturn {
     }
   }, [])
 
+  const reportLocation = useCallback((bookId: string, location: PageLocation) => {
+    window.sessionApi.reportLocation({ bookId, ...location })
+  }, [])
+
   const onHighlightCreated = useCallback(() => {
     window.sessionApi.incrementHighlight()
   }, [])
@@ -128,6 +134,7 @@ export function useStudySession(): UseStudySessionReturn {
     skipBreak,
     getWrapUp,
     reportActivity,
+    reportLocation,
     onHighlightCreated,
     onNoteCreated,
     microbreakTake,
@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react'
+import { SyncConfig, SyncStatus } from '@/types'
+
+export interface UseSyncReturn {
+  config: SyncConfig | null
+  status: SyncStatus | null
+  updateConfig: (update: Partial<SyncConfig>) => Promise<void>
+  signIn: (email: string, password: string) => Promise<string | null>
+  signOut: () => Promise<void>
+  syncNow: () => Promise<void>
+}
+
+export function useSync(): UseSyncReturn {
+  const [config, setConfig] = useState<SyncConfig | null>(null)
+  const [status, setStatus] = useState<SyncStatus | null>(null)
+
+  useEffect(() => {
+    window.syncApi.getConfig().then((c) => setConfig(c as SyncConfig))
+    window.syncApi.getStatus().then((s) => setStatus(s as SyncStatus))
+    return window.syncApi.onStatusUpdate((s) => setStatus(s as SyncStatus))
+  }, [])
+
+  const updateConfig = useCallback(async (update: Partial<SyncConfig>) => {
+    const next = (await window.syncApi.updateConfig(update as Record<string, unknown>)) as SyncConfig
+    setConfig(next)
+  }, [])
+
+  /** Resolves to an error message, or null on success */
+  const signIn = useCallback(async (email: string, password: string) => {
+    const result = (await window.syncApi.signIn(email, password)) as
+      | { success: true; status: SyncStatus }
+      | { success: false; error: string }
+    if (!result.success) return result.error
+    setStatus(result.status)
+    setConfig((await window.syncApi.getConfig()) as SyncConfig)
+    return null
+  }, [])
+
+  const signOut = useCallback(async () => {
+    setStatus((await window.syncApi.signOut()) as SyncStatus)
+  }, [])
+
+  const syncNow = useCallback(async () => {
+    setStatus((await window.syncApi.syncNow()) as SyncStatus)
+  }, [])
+
+  return { config, status, updateConfig, signIn, signOut, syncNow }
+}
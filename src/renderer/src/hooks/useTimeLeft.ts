@@ -0,0 +1,40 @@
+import { useEffect, useMemo, useState } from 'react'
+import { estimateTimeLeft, speedForMode } from '@shared/reading/timeLeft'
+import { Book, ChapterWords, ReadingPosition, ReadingSpeed, ReadingSpeeds, TimeLeft } from '@/types'
+
+/**
+ * Live time left in the chapter and the book for the reader footer. Word counts
+ * and the reading speed for the book's mode load once; the estimate follows the
+ * position as pages turn.
+ */
+export function useTimeLeft(bookId: string, position: ReadingPosition | null): TimeLeft | null {
+  const [basis, setBasis] = useState<{ chapters: ChapterWords[]; speed: ReadingSpeed } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([
+      window.api.estimates.chapters(bookId),
+      window.api.estimates.speeds(),
+      window.api.books.getById(bookId)
+    ])
+      .then(([chapters, speeds, book]) => {
+        if (cancelled) return
+        setBasis({
+          chapters: chapters as ChapterWords[],
+          speed: speedForMode(speeds as ReadingSpeeds, (book as Book | undefined)?.reading_mode)
+        })
+      })
+      .catch((err) => console.error('Failed to load time-left estimate:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [bookId])
+
+  return useMemo(
+    () =>
+      basis && basis.chapters.length > 0
+        ? estimateTimeLeft(basis.chapters, position, basis.speed)
+        : null,
+    [basis, position]
+  )
+}
@@ -1,22 +1,54 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { TtsSnapshot, TtsVoice, TextChunk, TtsRate } from '@/types'
+import {
+  TtsSnapshot,
+  TtsVoice,
+  TextChunk,
+  TtsRate,
+  TtsSpokenWord,
+  TtsWordTiming,
+  TtsEngineId,
+  TtsEngineStatus,
+  TtsSleepTimer,
+  TtsSleepTimerSpec
+} from '@/types'
 import { extractChapterText, cleanTextForTts, chunkText } from '@/lib/chunker'
 
-const STORAGE_KEY_VOICE = 'flareread-tts-voice'
-const STORAGE_KEY_RATE = 'flareread-tts-rate'
+/** Voice picks now live in the main process; this key is only read once to carry the old pick over */
+const LEGACY_STORAGE_KEY_VOICE = 'flareread-tts-voice'
+export const STORAGE_KEY_RATE = 'flareread-tts-rate'
 const STORAGE_KEY_VOLUME = 'flareread-tts-volume'
 
+/** How long the sleep timer takes to fade the voice out */
+const SLEEP_FADE_MS = 10_000
+
+/** Volume multiplier while the sleep timer winds down: the last seconds of the timer or of the final chunk */
+function sleepFade(sleep: TtsSleepTimer | null, audio: HTMLAudioElement | null): number {
+  if (!sleep) return 1
+  let remainingMs = Infinity
+  if (sleep.endsAt !== null) remainingMs = sleep.endsAt - Date.now()
+  if (sleep.endsWithChunk && audio && Number.isFinite(audio.duration)) {
+    remainingMs = Math.min(remainingMs, (audio.duration - audio.currentTime) * 1000)
+  }
+  return Math.max(0, Math.min(1, remainingMs / SLEEP_FADE_MS))
+}
+
 export interface UseTtsReturn {
   snapshot: TtsSnapshot | null
   voices: TtsVoice[]
+  engines: TtsEngineStatus[]
+  /** Engine currently speaking, or the user's default one when idle */
+  engine: TtsEngineId
   installed: boolean | null
   installing: boolean
   downloadProgress: { percent: number; label: string } | null
   error: string | null
   volume: number
   currentChunkText: string | null
+  /** Word being spoken, for karaoke highlighting in the reader */
+  currentWord: TtsSpokenWord | null
 
   // Actions
+  /** Starts at the chapter's saved listening position unless startChunkIndex is given */
   speakChapter: (bookId: string, chapterHref: string, rendition: unknown, startChunkIndex?: number) => Promise<void>
   speakFromText: (bookId: string, chapterHref: string, text: string, startChunkIndex?: number) => Promise<void>
   pause: () => Promise<void>
@@ -24,18 +56,27 @@ export interface UseTtsReturn {
   stop: () => Promise<void>
   nextChunk: () => Promise<void>
   prevChunk: () => Promise<void>
-  setVoice: (voiceId: string) => Promise<void>
+  setVoice: (voiceId: string, engine: TtsEngineId) => Promise<void>
+  setEngine: (engine: TtsEngineId) => Promise<void>
   setRate: (rate: TtsRate) => Promise<void>
   setVolume: (volume: number) => void
-  install: () => Promise<void>
-  downloadVoice: (voiceId: string) => Promise<void>
+  install: (engine?: TtsEngineId) => Promise<void>
+  downloadVoice: (voiceId: string, engine: TtsEngineId) => Promise<void>
   clearCache: () => Promise<void>
   refreshVoices: () => Promise<void>
+  setSleepTimer: (spec: TtsSleepTimerSpec | null) => Promise<void>
+  /** Queue a whole book, or one chapter of it by spine href */
+  addToQueue: (bookId: string, sectionHref?: string) => Promise<void>
+  removeFromQueue: (id: string) => Promise<void>
+  clearQueue: () => Promise<void>
+  playNextInQueue: () => Promise<void>
 }
 
 export function useTts(): UseTtsReturn {
   const [snapshot, setSnapshot] = useState<TtsSnapshot | null>(null)
   const [voices, setVoices] = useState<TtsVoice[]>([])
+  const [engines, setEngines] = useState<TtsEngineStatus[]>([])
+  const [defaultEngine, setDefaultEngine] = useState<TtsEngineId>('kokoro')
   const [installed, setInstalled] = useState<boolean | null>(null)
   const [installing, setInstalling] = useState(false)
   const [downloadProgress, setDownloadProgress] = useState<{ percent: number; label: string } | null>(null)
@@ -45,31 +86,64 @@ export function useTts(): UseTtsReturn {
     return stored ? parseFloat(stored) : 1.0
   })
 
+  const [currentWord, setCurrentWord] = useState<TtsSpokenWord | null>(null)
+
   const audioRef = useRef<HTMLAudioElement | null>(null)
+  const wordFrameRef = useRef<number | null>(null)
   const currentChunkRef = useRef<number>(-1)
   const chunksRef = useRef<TextChunk[]>([])
   const volumeRef = useRef(volume)
   volumeRef.current = volume
+  const sleepRef = useRef<TtsSleepTimer | null>(null)
+  sleepRef.current = snapshot?.sleep ?? null
 
   // Initialize: check install status and load voices
   useEffect(() => {
-    // Migrate old Piper voice IDs to default Kokoro voice
-    const savedVoice = localStorage.getItem(STORAGE_KEY_VOICE)
-    if (savedVoice && savedVoice.includes('-')) {
-      // Old Piper voice IDs use hyphens (e.g. "en_US-amy-medium"), Kokoro uses underscores (e.g. "af_heart")
-      localStorage.removeItem(STORAGE_KEY_VOICE)
+    // Carry a voice picked before engine selection over to the main process.
+    // Old Piper voice IDs use hyphens (e.g. "en_US-amy-medium"), Kokoro uses underscores (e.g. "af_heart")
+    const savedVoice = localStorage.getItem(LEGACY_STORAGE_KEY_VOICE)
+    if (savedVoice) {
+      localStorage.removeItem(LEGACY_STORAGE_KEY_VOICE)
+      window.ttsApi.setVoice(savedVoice, savedVoice.includes('-') ? 'piper' : 'kokoro')
     }
 
     window.ttsApi.isInstalled().then(setInstalled)
     window.ttsApi.getVoices().then((v) => setVoices(v as TtsVoice[]))
+    window.ttsApi.getEngines().then((e) => setEngines(e as TtsEngineStatus[]))
+    window.ttsApi.resolveVoice().then((choice) => setDefaultEngine(choice.engine))
     window.ttsApi.getStatus().then((s) => {
       const snap = s as TtsSnapshot
       if (snap && snap.state !== 'idle') setSnapshot(snap)
     })
   }, [])
 
+  // Follow the audio clock and publish the word under it; runs until the audio is replaced
+  const trackWords = useCallback((audio: HTMLAudioElement, chunkIndex: number, words: TtsWordTiming[]) => {
+    if (wordFrameRef.current !== null) cancelAnimationFrame(wordFrameRef.current)
+    wordFrameRef.current = null
+    setCurrentWord(null)
+    if (words.length === 0) return
+
+    let wordIndex = -1
+    const tick = (): void => {
+      if (audioRef.current !== audio) return
+      const ms = audio.currentTime * 1000
+      let next = Math.max(0, wordIndex)
+      while (next < words.length - 1 && ms >= words[next + 1].startMs) next++
+      while (next > 0 && ms < words[next].startMs) next--
+      if (next !== wordIndex && ms >= words[0].startMs) {
+        wordIndex = next
+        const chunkText = chunksRef.current[chunkIndex]?.text ?? ''
+        const { start, end } = words[next]
+        setCurrentWord({ chunkIndex, wordIndex: next, text: chunkText.slice(start, end), start, chunkText })
+      }
+      wordFrameRef.current = requestAnimationFrame(tick)
+    }
+    wordFrameRef.current = requestAnimationFrame(tick)
+  }, [])
+
   // Play a WAV url using HTMLAudioElement
-  const playWav = useCallback((wavUrl: string, chunkIndex: number) => {
+  const playWav = useCallback((wavUrl: string, chunkIndex: number, words: TtsWordTiming[]) => {
     // Stop previous audio
     if (audioRef.current) {
       audioRef.current.pause()
@@ -78,10 +152,12 @@ export function useTts(): UseTtsReturn {
     }
 
     const audio = new Audio(wavUrl)
-    audio.volume = volumeRef.current
+    audio.volume = volumeRef.current * sleepFade(sleepRef.current, null)
     audioRef.current = audio
     currentChunkRef.current = chunkIndex
 
+    trackWords(audio, chunkIndex, words)
+
     audio.onended = () => {
       // Auto-advance to next chunk
       window.ttsApi.nextChunk()
@@ -111,7 +187,7 @@ export function useTts(): UseTtsReturn {
     }
 
     tryPlay()
-  }, [])
+  }, [trackWords])
 
   // Subscribe to IPC events
   useEffect(() => {
@@ -120,7 +196,11 @@ export function useTts(): UseTtsReturn {
         setSnapshot(snap as TtsSnapshot)
       }),
       window.ttsApi.onChunkReady((data) => {
-        playWav(data.wavUrl, data.chunkIndex)
+        playWav(data.wavUrl, data.chunkIndex, data.words ?? [])
+      }),
+      // Playback read on into another chapter; its chunks are what gets highlighted now
+      window.ttsApi.onSectionStart((data) => {
+        chunksRef.current = data.chunks
       }),
       window.ttsApi.onDownloadProgress((data) => {
         setDownloadProgress(data)
@@ -137,14 +217,34 @@ export function useTts(): UseTtsReturn {
     return () => cleanups.forEach((fn) => fn())
   }, [playWav])
 
+  useEffect(() => {
+    return () => {
+      if (wordFrameRef.current !== null) cancelAnimationFrame(wordFrameRef.current)
+    }
+  }, [])
+
   // Update audio volume when it changes
   useEffect(() => {
     if (audioRef.current) {
-      audioRef.current.volume = volume
+      audioRef.current.volume = volume * sleepFade(sleepRef.current, audioRef.current)
     }
     localStorage.setItem(STORAGE_KEY_VOLUME, String(volume))
   }, [volume])
 
+  // Fade the voice out as the sleep timer runs down; the main process stops playback when it expires
+  const sleepActive = !!snapshot?.sleep
+  useEffect(() => {
+    if (!sleepActive) {
+      if (audioRef.current) audioRef.current.volume = volumeRef.current
+      return
+    }
+    const interval = setInterval(() => {
+      const audio = audioRef.current
+      if (audio) audio.volume = volumeRef.current * sleepFade(sleepRef.current, audio)
+    }, 250)
+    return () => clearInterval(interval)
+  }, [sleepActive])
+
   // Handle pause/resume by controlling the audio element
   useEffect(() => {
     if (!audioRef.current) return
@@ -163,6 +263,7 @@ export function useTts(): UseTtsReturn {
       audioRef.current.src = ''
       audioRef.current = null
     }
+    if (snapshot?.state === 'idle') setCurrentWord(null)
   }, [snapshot?.state])
 
   // ─── Actions ───────────────────────────────────────
@@ -175,7 +276,7 @@ export function useTts(): UseTtsReturn {
   ) => {
     setError(null)
     // Re-check actual install status from main process (self-heal stale state)
-    const actuallyInstalled = await window.ttsApi.isInstalled()
+    const actuallyInstalled = await window.ttsApi.isInstalled(bookId)
     if (!actuallyInstalled) {
       setInstalled(false)
       return
@@ -193,16 +294,18 @@ export function useTts(): UseTtsReturn {
     }
     chunksRef.current = chunks
 
-    const savedVoice = localStorage.getItem(STORAGE_KEY_VOICE) || undefined
+    // The voice is picked in the main process from the user's choices and the book's language
     const savedRate = localStorage.getItem(STORAGE_KEY_RATE)
     const rate = savedRate ? parseFloat(savedRate) : undefined
+    // Lets the main process read on into the next chapter
+    const sectionHref = (rendition as { location?: { start?: { href?: string } } }).location?.start?.href
 
     await window.ttsApi.speak({
       bookId,
       chapterHref,
+      sectionHref,
       chunks,
       startChunkIndex,
-      voiceId: savedVoice,
       rate
     })
   }, [])
@@ -215,7 +318,7 @@ export function useTts(): UseTtsReturn {
   ) => {
     setError(null)
     // Re-check actual install status from main process (self-heal stale state)
-    const actuallyInstalled = await window.ttsApi.isInstalled()
+    const actuallyInstalled = await window.ttsApi.isInstalled(bookId)
     if (!actuallyInstalled) {
       setInstalled(false)
       return
@@ -228,7 +331,7 @@ export function useTts(): UseTtsReturn {
     }
     chunksRef.current = chunks
 
-    const savedVoice = localStorage.getItem(STORAGE_KEY_VOICE) || undefined
+    // The voice is picked in the main process from the user's choices and the book's language
     const savedRate = localStorage.getItem(STORAGE_KEY_RATE)
     const rate = savedRate ? parseFloat(savedRate) : undefined
 
@@ -237,7 +340,6 @@ export function useTts(): UseTtsReturn {
       chapterHref,
       chunks,
       startChunkIndex,
-      voiceId: savedVoice,
       rate
     })
   }, [])
@@ -257,6 +359,7 @@ export function useTts(): UseTtsReturn {
       audioRef.current = null
     }
     chunksRef.current = []
+    setCurrentWord(null)
     await window.ttsApi.stop()
   }, [])
 
@@ -268,9 +371,15 @@ export function useTts(): UseTtsReturn {
     await window.ttsApi.prevChunk()
   }, [])
 
-  const setVoice = useCallback(async (voiceId: string) => {
-    localStorage.setItem(STORAGE_KEY_VOICE, voiceId)
-    await window.ttsApi.setVoice(voiceId)
+  const setVoice = useCallback(async (voiceId: string, engine: TtsEngineId) => {
+    setDefaultEngine(engine)
+    await window.ttsApi.setVoice(voiceId, engine)
+  }, [])
+
+  const setEngine = useCallback(async (engine: TtsEngineId) => {
+    setDefaultEngine(engine)
+    await window.ttsApi.setEngine(engine)
+    setInstalled(await window.ttsApi.isInstalled())
   }, [])
 
   const setRate = useCallback(async (rate: TtsRate) => {
@@ -284,21 +393,26 @@ export function useTts(): UseTtsReturn {
 
   const installingRef = useRef(false)
 
-  const installTts = useCallback(async () => {
+  const refreshEngines = useCallback(async () => {
+    const [v, e] = await Promise.all([window.ttsApi.getVoices(), window.ttsApi.getEngines()])
+    setVoices(v as TtsVoice[])
+    setEngines(e as TtsEngineStatus[])
+  }, [])
+
+  const installTts = useCallback(async (engine?: TtsEngineId) => {
     if (installingRef.current) return // Prevent double-clicks
     installingRef.current = true
     setInstalling(true)
     setError(null)
     try {
-      const result = await window.ttsApi.install() as { success: boolean; error?: string }
+      const result = await window.ttsApi.install(engine) as { success: boolean; error?: string }
       if (!result?.success) {
         throw new Error(result?.error || 'Error desconocido')
       }
       setInstalled(true)
       setError(null)
       // Refresh voices after install
-      const v = await window.ttsApi.getVoices()
-      setVoices(v as TtsVoice[])
+      await refreshEngines()
     } catch (err) {
       setInstalled(false)
       const msg = err instanceof Error ? err.message : String(err)
@@ -308,29 +422,50 @@ export function useTts(): UseTtsReturn {
       installingRef.current = false
       setInstalling(false)
     }
-  }, [])
+  }, [refreshEngines])
 
-  const downloadVoice = useCallback(async (voiceId: string) => {
+  const downloadVoice = useCallback(async (voiceId: string, engine: TtsEngineId) => {
     setError(null)
     try {
-      const result = await window.ttsApi.downloadVoice(voiceId) as { success: boolean; error?: string }
+      const result = await window.ttsApi.downloadVoice(voiceId, engine) as { success: boolean; error?: string }
       if (!result?.success) {
         throw new Error(result?.error || 'Unknown download error')
       }
-      const v = await window.ttsApi.getVoices()
-      setVoices(v as TtsVoice[])
+      await refreshEngines()
     } catch (err) {
       setError(`Voice download failed: ${err instanceof Error ? err.message : err}`)
     }
-  }, [])
+  }, [refreshEngines])
 
   const clearCache = useCallback(async () => {
     await window.ttsApi.clearCache()
   }, [])
 
-  const refreshVoices = useCallback(async () => {
-    const v = await window.ttsApi.getVoices()
-    setVoices(v as TtsVoice[])
+  const refreshVoices = refreshEngines
+
+  const setSleepTimer = useCallback(async (spec: TtsSleepTimerSpec | null) => {
+    await window.ttsApi.setSleepTimer(spec)
+  }, [])
+
+  const addToQueue = useCallback(async (bookId: string, sectionHref?: string) => {
+    const result = (await window.ttsApi.addToQueue(bookId, sectionHref)) as { success: boolean; error?: string }
+    if (!result.success) {
+      setError(result.error ?? 'Could not add to the queue')
+      setTimeout(() => setError(null), 3000)
+    }
+  }, [])
+
+  const removeFromQueue = useCallback(async (id: string) => {
+    await window.ttsApi.removeFromQueue(id)
+  }, [])
+
+  const clearQueue = useCallback(async () => {
+    await window.ttsApi.clearQueue()
+  }, [])
+
+  const playNextInQueue = useCallback(async () => {
+    setError(null)
+    await window.ttsApi.playNextInQueue()
   }, [])
 
   const currentChunkText =
@@ -341,12 +476,15 @@ export function useTts(): UseTtsReturn {
   return {
     snapshot,
     voices,
+    engines,
+    engine: snapshot && snapshot.state !== 'idle' ? snapshot.engine : defaultEngine,
     installed,
     installing,
     downloadProgress,
     error,
     volume,
     currentChunkText,
+    currentWord,
     speakChapter,
     speakFromText,
     pause,
@@ -355,11 +493,17 @@ export function useTts(): UseTtsReturn {
     nextChunk,
     prevChunk,
     setVoice,
+    setEngine,
     setRate,
     setVolume,
     install: installTts,
     downloadVoice,
     clearCache,
-    refreshVoices
+    refreshVoices,
+    setSleepTimer,
+    addToQueue,
+    removeFromQueue,
+    clearQueue,
+    playNextInQueue
   }
 }
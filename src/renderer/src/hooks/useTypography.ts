@@ -0,0 +1,106 @@
+import { useState, useCallback, useEffect } from 'react'
+import { CustomFont, ReadingSettings, TypographyProfile } from '@/types'
+
+/** The reader settings a profile stands for */
+export function profileSettings(profile: TypographyProfile): Partial<ReadingSettings> {
+  return {
+    fontFamily: profile.font_family,
+    fontSize: profile.font_size,
+    lineHeight: profile.line_height,
+    margin: profile.margin,
+    hyphenation: profile.hyphenation === 1,
+    textAlign: profile.text_align,
+    paragraphSpacing: profile.paragraph_spacing,
+    publisherStyles: profile.publisher_styles
+  }
+}
+
+function profileInput(settings: ReadingSettings): Record<string, unknown> {
+  return {
+    font_family: settings.fontFamily,
+    font_size: settings.fontSize,
+    line_height: settings.lineHeight,
+    margin: settings.margin,
+    hyphenation: settings.hyphenation,
+    text_align: settings.textAlign,
+    paragraph_spacing: settings.paragraphSpacing,
+    publisher_styles: settings.publisherStyles
+  }
+}
+
+/** Imported fonts and saved typography profiles */
+export function useTypography() {
+  const [fonts, setFonts] = useState<CustomFont[]>([])
+  const [profiles, setProfiles] = useState<TypographyProfile[]>([])
+
+  const refresh = useCallback(async () => {
+    const [fontList, profileList] = await Promise.all([window.api.fonts.getAll(), window.api.typography.getAll()])
+    setFonts(fontList as CustomFont[])
+    setProfiles(profileList as TypographyProfile[])
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const importFonts = useCallback(async () => {
+    const result = (await window.appApi.importFonts()) as {
+      success: boolean
+      fonts?: CustomFont[]
+      errors?: string[]
+      error?: string
+    }
+    if (result.fonts?.length) await refresh()
+    return result
+  }, [refresh])
+
+  const deleteFont = useCallback(async (id: string) => {
+    await window.api.fonts.delete(id)
+    setFonts((prev) => prev.filter((f) => f.id !== id))
+  }, [])
+
+  const createProfile = useCallback(async (name: string, settings: ReadingSettings) => {
+    const profile = (await window.api.typography.create({ name, ...profileInput(settings) })) as TypographyProfile
+    setProfiles((prev) => [...prev, profile].sort((a, b) => a.name.localeCompare(b.name)))
+    return profile
+  }, [])
+
+  const updateProfile = useCallback(
+    async (id: string, data: { name?: string; settings?: ReadingSettings }) => {
+      const profile = (await window.api.typography.update(id, {
+        ...(data.settings ? profileInput(data.settings) : {}),
+        ...(data.name !== undefined ? { name: data.name } : {})
+      })) as TypographyProfile
+      setProfiles((prev) =>
+        prev.map((p) => (p.id === id ? profile : p)).sort((a, b) => a.name.localeCompare(b.name))
+      )
+      return profile
+    },
+    []
+  )
+
+  const deleteProfile = useCallback(async (id: string) => {
+    await window.api.typography.delete(id)
+    setProfiles((prev) => prev.filter((p) => p.id !== id))
+  }, [])
+
+  const assignCategory = useCallback(async (categoryId: string, profileId: string | null) => {
+    await window.api.typography.assignCategory(categoryId, profileId)
+  }, [])
+
+  /** One menu entry per imported family, however many files it has */
+  const fontFamilies = Array.from(new Set(fonts.map((f) => f.family)))
+
+  return {
+    fonts,
+    fontFamilies,
+    profiles,
+    importFonts,
+    deleteFont,
+    createProfile,
+    updateProfile,
+    deleteProfile,
+    assignCategory,
+    refresh
+  }
+}
@@ -0,0 +1,43 @@
+import { useState, useCallback, useEffect } from 'react'
+import { VocabularyWord } from '@/types'
+
+interface UseVocabularyOptions {
+  bookId: string
+}
+
+export type VocabularyInput = Omit<VocabularyWord, 'id' | 'book_id' | 'created_at'>
+
+/** Words saved from the lookup panel while reading one book, newest first */
+export function useVocabulary({ bookId }: UseVocabularyOptions) {
+  const [vocabulary, setVocabulary] = useState<VocabularyWord[]>([])
+
+  const loadVocabulary = useCallback(async () => {
+    const list = (await window.api.vocabulary.getByBook(bookId)) as VocabularyWord[]
+    setVocabulary(list)
+  }, [bookId])
+
+  useEffect(() => {
+    loadVocabulary()
+  }, [loadVocabulary])
+
+  const saveWord = useCallback(
+    async (data: VocabularyInput) => {
+      const word = (await window.api.vocabulary.create({ book_id: bookId, ...data })) as VocabularyWord
+      setVocabulary((prev) => [word, ...prev])
+      return word
+    },
+    [bookId]
+  )
+
+  const deleteWord = useCallback(async (id: string) => {
+    await window.api.vocabulary.delete(id)
+    setVocabulary((prev) => prev.filter((w) => w.id !== id))
+  }, [])
+
+  return {
+    vocabulary,
+    saveWord,
+    deleteWord,
+    reload: loadVocabulary
+  }
+}
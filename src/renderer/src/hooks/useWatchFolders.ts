@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react'
+import { WatchConfig, WatchStatus } from '@/types'
+
+export interface UseWatchFoldersReturn {
+  config: WatchConfig | null
+  status: WatchStatus | null
+  updateConfig: (update: Partial<WatchConfig>) => Promise<void>
+  addFolder: () => Promise<void>
+  removeFolder: (folder: string) => Promise<void>
+  scanNow: () => Promise<void>
+  clearErrors: () => Promise<void>
+}
+
+export function useWatchFolders(): UseWatchFoldersReturn {
+  const [config, setConfig] = useState<WatchConfig | null>(null)
+  const [status, setStatus] = useState<WatchStatus | null>(null)
+
+  useEffect(() => {
+    window.watchApi.getConfig().then((c) => setConfig(c as WatchConfig))
+    window.watchApi.getStatus().then((s) => setStatus(s as WatchStatus))
+    return window.watchApi.onStatusUpdate((s) => setStatus(s as WatchStatus))
+  }, [])
+
+  const updateConfig = useCallback(async (update: Partial<WatchConfig>) => {
+    setConfig((await window.watchApi.updateConfig(update as Record<string, unknown>)) as WatchConfig)
+  }, [])
+
+  const addFolder = useCallback(async () => {
+    const next = (await window.watchApi.addFolder()) as WatchConfig | null
+    if (next) setConfig(next)
+  }, [])
+
+  const removeFolder = useCallback(
+    async (folder: string) => {
+      if (!config) return
+      await updateConfig({ folders: config.folders.filter((f) => f !== folder) })
+    },
+    [config, updateConfig]
+  )
+
+  const scanNow = useCallback(async () => {
+    setStatus((await window.watchApi.scanNow()) as WatchStatus)
+  }, [])
+
+  const clearErrors = useCallback(async () => {
+    setStatus((await window.watchApi.clearErrors()) as WatchStatus)
+  }, [])
+
+  return { config, status, updateConfig, addFolder, removeFolder, scanNow, clearErrors }
+}
@@ -0,0 +1,90 @@
+import { sanitizeElement } from '@/lib/sanitize'
+import type { DictionaryDefinition } from '@/types'
+
+/** StarDict's cross-reference links, e.g. <a href="bword://run"> */
+const BWORD = /^bword:\/\//i
+const SENTENCE_END = /[.!?…]/
+const MAX_CONTEXT_LENGTH = 500
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function decodeWord(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Definition markup safe to render. Plain-text articles keep their line
+ * breaks, with DICT's {braced} cross-references made clickable; HTML ones
+ * are sanitized and lose their images, which point into resource folders
+ * the app doesn't serve. Cross-references carry the word in data-lookup.
+ */
+export function definitionHtml(definition: DictionaryDefinition): string {
+  if (definition.format === 'text') {
+    return escapeHtml(definition.content)
+      .replace(/\{([^{}\n]+)\}/g, '<a href="#" data-lookup="$1">$1</a>')
+      .replace(/\n/g, '<br>')
+  }
+
+  const doc = new DOMParser().parseFromString(`<div>${definition.content}</div>`, 'text/html')
+  const root = doc.body.firstElementChild
+  if (!root) return ''
+  root.querySelectorAll('img').forEach((el) => el.remove())
+  root.querySelectorAll('a[href]').forEach((a) => {
+    const href = a.getAttribute('href') ?? ''
+    if (BWORD.test(href)) {
+      a.setAttribute('data-lookup', decodeWord(href.replace(BWORD, '')))
+      a.setAttribute('href', '#')
+    } else if (/^https?:/i.test(href)) {
+      a.setAttribute('target', '_blank')
+    } else {
+      a.removeAttribute('href')
+    }
+  })
+  sanitizeElement(root)
+  return root.innerHTML
+}
+
+/** A definition as plain text, for the vocabulary list */
+export function definitionText(definition: DictionaryDefinition): string {
+  if (definition.format === 'text') return definition.content.trim()
+  const doc = new DOMParser().parseFromString(definition.content, 'text/html')
+  doc.querySelectorAll('br').forEach((br) => br.replaceWith('\n'))
+  return (doc.body.textContent ?? '').replace(/[ \t]+/g, ' ').trim()
+}
+
+/** The sentence a selection sits in, to remember where a word was read */
+export function sentenceAround(range: Range): string | null {
+  const node = range.startContainer
+  const element = node.nodeType === Node.ELEMENT_NODE ? (node as Element) : node.parentElement
+  const block = element?.closest('p, li, blockquote, dd, td, h1, h2, h3, h4, h5, h6, div')
+  if (!block) return null
+
+  // Where the selection starts and ends within the block's text
+  const before = range.cloneRange()
+  before.selectNodeContents(block)
+  before.setEnd(range.startContainer, range.startOffset)
+  const text = block.textContent ?? ''
+  const start = before.toString().length
+  const end = start + range.toString().length
+
+  let from = 0
+  for (let i = start - 1; i >= 0; i--) {
+    if (SENTENCE_END.test(text[i])) {
+      from = i + 1
+      break
+    }
+  }
+  const after = text.slice(end).search(SENTENCE_END)
+  const to = after === -1 ? text.length : end + after + 1
+  return text.slice(from, to).replace(/\s+/g, ' ').trim().slice(0, MAX_CONTEXT_LENGTH) || null
+}
@@ -0,0 +1,113 @@
+import { sanitizeElement } from '@/lib/sanitize'
+
+// ─── Footnotes ──────────────────────────────────────
+// EPUB 3 marks note references with epub:type="noteref" (or role="doc-noteref"),
+// but most books in the wild are EPUB 2 conversions that only have a superscript
+// link to an id in a notes chapter, so those are recognised by shape as well.
+
+const OPS_NS = 'http://www.idpf.org/2007/ops'
+
+/** Link text that looks like a note marker: 1, [12], (a), *, †, ‡, § */
+const MARKER_TEXT = /^[[(]?(?:\d{1,4}|[a-z]{1,2}|[ivx]{1,5}|\*{1,3}|[†‡§¶])[\])]?$/i
+/** Fragment ids publishers and converters give notes */
+const NOTE_ID = /^(?:fn|ftn|footnote|note|endnote|en|n|_ftn|_edn|sdfootnote)[-_.]?\w*\d/i
+const NOTE_CLASS = /\b(?:noteref|footnote|endnote|fnref|footnote-ref|note-ref)\b/i
+
+/** Elements that hold a whole note, closest first */
+const NOTE_CONTAINERS = [
+  '[role="doc-footnote"]',
+  '[role="doc-endnote"]',
+  'aside',
+  'li',
+  'dd',
+  'p',
+  'div'
+].join(', ')
+
+function epubType(el: Element): string {
+  return el.getAttributeNS(OPS_NS, 'type') || el.getAttribute('epub:type') || ''
+}
+
+/** Split an href into its path and fragment */
+export function splitHref(href: string): { path: string; id: string | null } {
+  const hash = href.indexOf('#')
+  if (hash === -1) return { path: href, id: null }
+  return { path: href.slice(0, hash), id: decodeURIComponent(href.slice(hash + 1)) || null }
+}
+
+/**
+ * An href found in a section, resolved to a path relative to the package the
+ * way spine hrefs are. The host is a placeholder; only the path matters.
+ */
+export function resolveHref(href: string, sectionHref: string): string {
+  const url = new URL(href, `http://book/${sectionHref}`)
+  return decodeURI(url.pathname.slice(1)) + url.hash
+}
+
+/** Links to another place in the book rather than the web or an email address */
+export function isInternalLink(link: HTMLAnchorElement): boolean {
+  const href = link.getAttribute('href')
+  return !!href && !/^[a-z][a-z0-9+.-]*:/i.test(href)
+}
+
+/** Whether a link points at a footnote or endnote rather than somewhere to read on from */
+export function isNoteRef(link: HTMLAnchorElement): boolean {
+  if (!isInternalLink(link)) return false
+  const { id } = splitHref(link.getAttribute('href') ?? '')
+  if (!id) return false
+
+  if (/\bnoteref\b/.test(epubType(link)) || link.getAttribute('role') === 'doc-noteref') return true
+  if (NOTE_CLASS.test(link.className)) return true
+
+  const text = (link.textContent ?? '').trim()
+  const superscript =
+    !!link.closest('sup') ||
+    (!!link.querySelector('sup') && link.querySelector('sup')?.textContent?.trim() === text) ||
+    link.ownerDocument.defaultView?.getComputedStyle(link).verticalAlign === 'super'
+  if (superscript && MARKER_TEXT.test(text)) return true
+
+  return NOTE_ID.test(id) && MARKER_TEXT.test(text)
+}
+
+/**
+ * The element holding the note a fragment id points at. Ids often sit on an
+ * empty anchor or the number at the start of the note, so this widens to the
+ * surrounding note, list item or paragraph.
+ */
+export function findNoteElement(doc: Document, id: string): Element | null {
+  const target = doc.getElementById(id) ?? doc.querySelector(`[name="${CSS.escape(id)}"]`)
+  if (!target) return null
+
+  const type = epubType(target)
+  if (/\b(?:footnote|endnote|rearnote|note)\b/.test(type) || /^doc-(?:foot|end)note$/.test(target.getAttribute('role') ?? '')) {
+    return target
+  }
+  // A block with text of its own is the note; an anchor or number is a marker inside one
+  if (target.matches(NOTE_CONTAINERS) && (target.textContent ?? '').trim().length > 3) return target
+  return target.parentElement?.closest(NOTE_CONTAINERS) ?? target
+}
+
+/**
+ * Note markup safe to render in the app: no scripts, handlers or embedded
+ * content, and without the back-link to the reference, since the popover
+ * already sits next to it. Internal links are rewritten with `resolve` so
+ * they still work once the markup has left its chapter.
+ */
+export function noteHtml(note: Element, refId: string | null, resolve: (href: string) => string): string {
+  const clone = note.cloneNode(true) as Element
+  clone.querySelectorAll('a').forEach((a) => {
+    const href = a.getAttribute('href') ?? ''
+    const backlink =
+      a.getAttribute('role') === 'doc-backlink' ||
+      /\bbacklink\b/.test(epubType(a)) ||
+      (!!refId && splitHref(href).id === refId) ||
+      /^[↩↑⤴^]\uFE0E?$/.test((a.textContent ?? '').trim())
+    if (backlink) a.remove()
+    else if (isInternalLink(a)) a.setAttribute('href', resolve(href))
+    // Opened in the browser rather than in place of the app
+    else if (href) a.setAttribute('target', '_blank')
+  })
+
+  sanitizeElement(clone)
+  return clone.innerHTML.trim()
+}
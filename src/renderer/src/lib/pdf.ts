@@ -0,0 +1,93 @@
+import * as pdfjs from 'pdfjs-dist'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+import { fileUrl } from '@/lib/utils'
+import type { Book } from '@/types'
+
+pdfjs.GlobalWorkerOptions.workerSrc = workerUrl
+
+export { pdfjs }
+export type { PDFDocumentProxy }
+
+/** Open a PDF from disk through the local-file:// protocol. */
+export function loadPdf(filePath: string): Promise<PDFDocumentProxy> {
+  return pdfjs.getDocument({ url: fileUrl(filePath), isEvalSupported: false }).promise
+}
+
+// ─── Locations ──────────────────────────────────────
+// PDF positions use the standard "#page=N" open parameter so the same string
+// works as TOC href, search hit href and saved progress position. Highlights
+// append the selection rectangles normalized to the page size (0..1).
+
+export interface PdfRect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+export function pdfPageHref(pageNumber: number): string {
+  return `#page=${pageNumber}`
+}
+
+/** Extract the page number from a PDF location, or null for non-PDF locations. */
+export function parsePdfPage(location: string): number | null {
+  const match = location.match(/#page=(\d+)/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+export function encodePdfRange(pageNumber: number, rects: PdfRect[]): string {
+  const encoded = rects
+    .map((r) => [r.x, r.y, r.w, r.h].map((n) => n.toFixed(4)).join(','))
+    .join(';')
+  return `${pdfPageHref(pageNumber)}&rects=${encoded}`
+}
+
+export function decodePdfRange(range: string): { page: number; rects: PdfRect[] } | null {
+  const page = parsePdfPage(range)
+  const rectsMatch = range.match(/&rects=([^&]*)/)
+  if (page === null || !rectsMatch) return null
+  const rects = rectsMatch[1]
+    .split(';')
+    .map((part) => part.split(',').map(Number))
+    .filter((nums) => nums.length === 4 && nums.every((n) => Number.isFinite(n)))
+    .map(([x, y, w, h]) => ({ x, y, w, h }))
+  return { page, rects }
+}
+
+// ─── Cover Thumbnails ───────────────────────────────
+
+/**
+ * Render the first page of a PDF to a JPEG data URL for use as a library cover.
+ * Runs in the renderer because it needs a canvas.
+ */
+export async function renderPdfCover(filePath: string, width = 400): Promise<string | null> {
+  let doc: PDFDocumentProxy | null = null
+  try {
+    doc = await loadPdf(filePath)
+    const page = await doc.getPage(1)
+    const base = page.getViewport({ scale: 1 })
+    const viewport = page.getViewport({ scale: width / base.width })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(viewport.width)
+    canvas.height = Math.round(viewport.height)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+
+    await page.render({ canvasContext: ctx, viewport }).promise
+    return canvas.toDataURL('image/jpeg', 0.85)
+  } catch {
+    return null
+  } finally {
+    doc?.destroy()
+  }
+}
+
+/** Render and store a cover for a freshly imported PDF. Resolves true if one was saved. */
+export async function ensurePdfCover(book: Book): Promise<boolean> {
+  if (book.format !== 'pdf' || book.cover_path) return false
+  const dataUrl = await renderPdfCover(book.file_path)
+  if (!dataUrl) return false
+  return (await window.appApi.savePdfCover(book.id, dataUrl)) !== null
+}
@@ -0,0 +1,62 @@
+const HTML_NS = 'http://www.w3.org/1999/xhtml'
+
+/** Text-level and block markup a note or definition may keep */
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'article', 'aside', 'b', 'bdi', 'bdo', 'blockquote', 'br', 'caption', 'cite', 'code', 'col',
+  'colgroup', 'dd', 'del', 'dfn', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hr', 'i', 'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'pre', 'q', 'rp', 'rt', 'ruby',
+  's', 'samp', 'section', 'small', 'span', 'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th',
+  'thead', 'tr', 'u', 'ul', 'var', 'wbr'
+])
+
+/** Removed with everything inside; any other unknown element is unwrapped to its text */
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'template', 'noscript', 'link', 'meta', 'base', 'head', 'title', 'iframe', 'frame',
+  'frameset', 'object', 'embed', 'applet', 'form', 'input', 'button', 'select', 'textarea', 'option', 'audio',
+  'video', 'source', 'track', 'canvas', 'img', 'picture', 'map', 'area', 'svg', 'math'
+])
+
+const ALLOWED_ATTRS = new Set(['href', 'target', 'title', 'lang', 'dir', 'colspan', 'rowspan', 'data-lookup'])
+
+/** Relative links, fragments and web or mail links; no javascript:, data: or other schemes */
+function isSafeHref(href: string): boolean {
+  const scheme = href.trim().match(/^([a-z][a-z0-9+.-]*):/i)?.[1]
+  return !scheme || /^(?:https?|mailto)$/i.test(scheme)
+}
+
+function cleanAttributes(el: Element): void {
+  for (const attr of Array.from(el.attributes)) {
+    // Namespaced attributes (xlink:href, epub:type…) never match the allowlist
+    const keep =
+      !attr.namespaceURI &&
+      ALLOWED_ATTRS.has(attr.name) &&
+      (attr.name !== 'href' || (el.localName === 'a' && isSafeHref(attr.value))) &&
+      (attr.name !== 'target' || attr.value === '_blank')
+    if (!keep) el.removeAttribute(attr.name)
+  }
+}
+
+/**
+ * Reduce markup taken from a book or a dictionary, in place, to an allowlist
+ * of plain HTML: no scripts, handlers, embedded content, SVG or MathML, and
+ * none of its own styles, ids or classes to clash with the app's.
+ */
+export function sanitizeElement(root: Element): void {
+  cleanAttributes(root)
+  for (const child of Array.from(root.children)) sanitizeChild(child)
+}
+
+function sanitizeChild(el: Element): void {
+  const name = el.localName.toLowerCase()
+  if (el.namespaceURI !== HTML_NS || DROPPED_TAGS.has(name)) {
+    el.remove()
+    return
+  }
+
+  for (const child of Array.from(el.children)) sanitizeChild(child)
+  if (ALLOWED_TAGS.has(name)) {
+    cleanAttributes(el)
+  } else {
+    el.replaceWith(...Array.from(el.childNodes))
+  }
+}
@@ -0,0 +1,141 @@
+import type { TtsSpokenWord } from '@/types'
+
+/**
+ * Maps spoken words back onto the chapter DOM.
+ *
+ * Chunk text went through extractChapterText and cleanTextForTts, so quotes,
+ * dashes and whitespace no longer match the page. Both sides are reduced to
+ * lowercase letters and digits, which survive the cleaning untouched, and the
+ * word is searched for near where its chunk starts.
+ */
+
+interface TextIndex {
+  /** Letters and digits of the chapter, lowercased */
+  text: string
+  nodes: Text[]
+  /** For each character of `text`: which node it came from and where in it */
+  nodeAt: Int32Array
+  offsetAt: Int32Array
+  /** Chunk text → position in `text`, -1 when not found */
+  anchors: Map<string, number>
+  lastAnchor: number
+}
+
+/** How far a word may sit from its expected position, in letters */
+const WORD_SLACK = 24
+
+const indexes = new WeakMap<Document, TextIndex>()
+
+const isWordChar = (c: string): boolean => /[\p{L}\p{N}]/u.test(c)
+
+/** One lowercase character per UTF-16 unit kept, so positions map 1:1 onto text nodes */
+const fold = (c: string): string => c.toLowerCase()[0]
+
+function lettersOf(text: string): string {
+  let out = ''
+  for (let i = 0; i < text.length; i++) if (isWordChar(text[i])) out += fold(text[i])
+  return out
+}
+
+/** Same exclusions as extractChapterText, so footnote markers don't shift positions */
+function isSkipped(el: Element): boolean {
+  const tag = el.tagName
+  return (
+    (el as HTMLElement).hidden ||
+    tag === 'SCRIPT' || tag === 'STYLE' || tag === 'SUP' || tag === 'NAV' ||
+    el.getAttribute('role') === 'doc-noteref' ||
+    el.classList.contains('footnote') ||
+    el.getAttribute('aria-hidden') === 'true'
+  )
+}
+
+function buildIndex(doc: Document): TextIndex {
+  const nodes: Text[] = []
+  const nodeAt: number[] = []
+  const offsetAt: number[] = []
+  let text = ''
+
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.nodeType === Node.ELEMENT_NODE && isSkipped(node as Element)
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT
+  })
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType !== Node.TEXT_NODE) continue
+    const value = (node as Text).data
+    const nodeIndex = nodes.push(node as Text) - 1
+    for (let i = 0; i < value.length; i++) {
+      const c = value[i]
+      if (!isWordChar(c)) continue
+      text += fold(c)
+      nodeAt.push(nodeIndex)
+      offsetAt.push(i)
+    }
+  }
+
+  return {
+    text,
+    nodes,
+    nodeAt: Int32Array.from(nodeAt),
+    offsetAt: Int32Array.from(offsetAt),
+    anchors: new Map(),
+    lastAnchor: 0
+  }
+}
+
+function getIndex(doc: Document): TextIndex {
+  let index = indexes.get(doc)
+  if (!index) {
+    index = buildIndex(doc)
+    indexes.set(doc, index)
+  }
+  return index
+}
+
+/**
+ * Where a chunk starts in the index. Tries progressively shorter prefixes, since
+ * the first sentence may span markup the index skipped, and prefers matches after
+ * the previous chunk so repeated phrases resolve in reading order.
+ */
+function findAnchor(index: TextIndex, chunkText: string): number {
+  const cached = index.anchors.get(chunkText)
+  if (cached !== undefined) return cached
+
+  const letters = lettersOf(chunkText)
+  let found = -1
+  for (const length of [80, 40, 20, 10]) {
+    const probe = letters.slice(0, length)
+    if (probe.length < Math.min(length, 6)) continue
+    found = index.text.indexOf(probe, index.lastAnchor)
+    if (found < 0) found = index.text.indexOf(probe)
+    if (found >= 0) break
+  }
+
+  index.anchors.set(chunkText, found)
+  if (found >= 0) index.lastAnchor = found
+  return found
+}
+
+/** DOM range covering the spoken word, or null when it can't be placed on this page */
+export function findSpokenWordRange(doc: Document, word: TtsSpokenWord): Range | null {
+  if (!doc.body) return null
+  const needle = lettersOf(word.text)
+  if (!needle) return null
+
+  const index = getIndex(doc)
+  const anchor = findAnchor(index, word.chunkText)
+  if (anchor < 0) return null
+
+  const expected = anchor + lettersOf(word.chunkText.slice(0, word.start)).length
+  const from = Math.max(0, expected - WORD_SLACK)
+  const at = index.text.indexOf(needle, from)
+  if (at < 0 || at > expected + WORD_SLACK) return null
+
+  const last = at + needle.length - 1
+  const range = doc.createRange()
+  range.setStart(index.nodes[index.nodeAt[at]], index.offsetAt[at])
+  range.setEnd(index.nodes[index.nodeAt[last]], index.offsetAt[last] + 1)
+  return range
+}
@@ -9,3 +9,17 @@ export function cn(...inputs: ClassValue[]): string {
 export function fileUrl(path: string): string {
   return 'local-file:///' + path.replace(/\\/g, '/')
 }
+
+/** Whether a dropped file has an extension the importer understands (.epub / .pdf). */
+export function isBookFile(name: string): boolean {
+  return /\.(epub|pdf)$/i.test(name)
+}
+
+/** Compact reading-time label: "<1 min", "45 min", "2 h 5 min". */
+export function formatMinutes(minutes: number): string {
+  if (minutes < 1) return '<1 min'
+  if (minutes < 60) return `${minutes} min`
+  const h = Math.floor(minutes / 60)
+  const m = minutes % 60
+  return m > 0 ? `${h} h ${m} min` : `${h} h`
+}
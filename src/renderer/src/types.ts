@@ -1,5 +1,10 @@
+import type { ReadingPosition, TimeLeft } from '@shared/reading/timeLeft'
+import type { GoalPeriod, GoalProgress, GoalScope, GoalType } from '@shared/goals'
+
 export type ReadingMode = 'study' | 'leisure' | null
 
+export type BookFormat = 'epub' | 'pdf'
+
 export interface Book {
   id: string
   title: string
@@ -7,11 +12,22 @@ export interface Book {
   cover_path: string | null
   file_path: string
   original_path: string | null
+  format: BookFormat
+  page_count: number | null
   description: string | null
   language: string | null
   total_words_estimate: number | null
   category_id: string | null
   reading_mode: ReadingMode
+  series: string | null
+  series_index: number | null
+  /** Stars, 0.5 to 5 */
+  rating: number | null
+  published_at: string | null
+  /** Set when the file the book was imported from has moved or been deleted */
+  original_missing_at: string | null
+  /** Typography profile picked for this book; without one its category's applies */
+  typography_profile_id: string | null
   created_at: string
   updated_at: string
 }
@@ -24,18 +40,20 @@ export interface ImportResult {
 export interface ImportError {
   success: false
   error: string
-  code: 'INVALID_EPUB' | 'DUPLICATE' | 'FILE_NOT_FOUND' | 'UNKNOWN'
+  code: 'INVALID_EPUB' | 'INVALID_PDF' | 'UNSUPPORTED_FORMAT' | 'DUPLICATE' | 'FILE_NOT_FOUND' | 'UNKNOWN'
 }
 
 export type ImportResponse = ImportResult | ImportError | null
 
 export interface ParsedEpubMeta {
   filePath: string
+  format: BookFormat
   title: string
   author: string | null
   description: string | null
   language: string | null
   estimatedWordCount: number
+  pageCount: number | null
   hasCover: boolean
 }
 
@@ -53,12 +71,40 @@ export interface TocItem {
   subitems?: TocItem[]
 }
 
+/** Paged, one chapter scrolled at a time, or one scroll running across chapters */
+export type ReadingFlow = 'paginated' | 'scrolled-doc' | 'scrolled'
+
+/** 'auto' shows two pages side by side once the reading area is wide enough */
+export type ReadingSpread = 'none' | 'auto'
+
+/** 'auto' follows the book's rendition:layout metadata; the others override it */
+export type PageLayout = 'auto' | 'reflowable' | 'pre-paginated'
+
+/** 'app' follows the app's light/dark theme */
+export type PageTheme = 'app' | 'light' | 'sepia' | 'dark'
+
+export type TextAlign = 'justify' | 'left'
+
+/**
+ * How much of the book's own stylesheet the reader replaces: everything,
+ * only the body text, or nothing but colors and font size
+ */
+export type PublisherStyles = 'override' | 'blend' | 'keep'
+
 export interface ReadingSettings {
   fontSize: number
   fontFamily: string
   lineHeight: number
   margin: number
-  scrollMode: boolean
+  hyphenation: boolean
+  textAlign: TextAlign
+  /** Space after each paragraph, in em */
+  paragraphSpacing: number
+  publisherStyles: PublisherStyles
+  flow: ReadingFlow
+  spread: ReadingSpread
+  pageLayout: PageLayout
+  pageTheme: PageTheme
   contentWidth: number
 }
 
@@ -67,10 +113,62 @@ export const DEFAULT_SETTINGS: ReadingSettings = {
   fontFamily: 'Literata, Georgia, serif',
   lineHeight: 1.8,
   margin: 40,
-  scrollMode: false,
+  hyphenation: true,
+  textAlign: 'justify',
+  paragraphSpacing: 0.15,
+  publisherStyles: 'override',
+  flow: 'paginated',
+  spread: 'none',
+  pageLayout: 'auto',
+  pageTheme: 'app',
   contentWidth: 65
 }
 
+/** One imported font file; a family may have several, one per weight and style */
+export interface CustomFont {
+  id: string
+  family: string
+  file_name: string
+  file_path: string
+  format: 'truetype' | 'opentype' | 'woff' | 'woff2'
+  weight: number
+  style: 'normal' | 'italic'
+  created_at: string
+}
+
+export interface TypographyProfile {
+  id: string
+  name: string
+  font_family: string
+  font_size: number
+  line_height: number
+  margin: number
+  hyphenation: number
+  text_align: TextAlign
+  paragraph_spacing: number
+  publisher_styles: PublisherStyles
+  created_at: string
+  updated_at: string
+}
+
+/** The profile a book reads with, and whether it was set on the book or its category */
+export interface BookTypography {
+  profile: TypographyProfile | null
+  source: 'book' | 'category' | null
+}
+
+/** Reader settings a typography profile carries */
+export const PROFILE_SETTINGS: (keyof ReadingSettings)[] = [
+  'fontFamily',
+  'fontSize',
+  'lineHeight',
+  'margin',
+  'hyphenation',
+  'textAlign',
+  'paragraphSpacing',
+  'publisherStyles'
+]
+
 export interface BookWithProgress extends Book {
   percent_complete: number | null
   current_chapter: string | null
@@ -87,6 +185,62 @@ export interface DashboardMetrics {
   pagesPerHour: number
 }
 
+// ─── Statistics ─────────────────────────────────────
+
+/** Half-open range of session start times as ISO strings; omitted ends are open */
+export interface StatsRange {
+  from?: string
+  to?: string
+}
+
+export type StatsBucket = 'day' | 'week' | 'month'
+export type StatsGroup = 'book' | 'category'
+
+export interface DailyActivity {
+  /** Local date, YYYY-MM-DD */
+  day: string
+  minutes: number
+  sessions: number
+  words: number
+}
+
+export interface HourlyActivity {
+  /** 0 = Sunday */
+  weekday: number
+  hour: number
+  minutes: number
+}
+
+export interface TimeSeriesPoint {
+  /** Book or category id; null for books without a category */
+  key: string | null
+  label: string
+  color: string | null
+  /** First local day of the bucket, YYYY-MM-DD */
+  bucket: string
+  minutes: number
+}
+
+export interface WpmPoint {
+  bucket: string
+  wpm: number
+  words: number
+  minutes: number
+}
+
+export interface StatsSummary {
+  minutes: number
+  sessions: number
+  words: number
+  avgWpm: number
+  booksRead: number
+  booksFinished: number
+  pomodorosCompleted: number
+  pomodorosStarted: number
+  afkMs: number
+  studyActiveMs: number
+}
+
 // ─── Highlights & Notes ─────────────────────────────
 
 export interface Highlight {
@@ -117,6 +271,85 @@ export interface NoteWithContext extends Note {
   book_author: string | null
 }
 
+export interface Bookmark {
+  id: string
+  book_id: string
+  cfi: string
+  label: string | null
+  chapter: string | null
+  percent: number
+  created_at: string
+  updated_at: string
+}
+
+export interface BookmarkWithBook extends Bookmark {
+  book_title: string | null
+  book_author: string | null
+}
+
+/** Words saved from the lookup panel, with where they were read */
+export interface VocabularyWord {
+  id: string
+  book_id: string
+  /** As selected in the text */
+  word: string
+  /** As the dictionary lists it, e.g. "run" for "running" */
+  headword: string
+  definition: string | null
+  dictionary_name: string | null
+  language: string | null
+  /** The sentence it was read in */
+  context: string | null
+  cfi_range: string | null
+  chapter: string | null
+  created_at: string
+}
+
+// ─── Dictionaries ───────────────────────────────────
+
+export type DictionaryKind = 'dictionary' | 'encyclopedia' | 'translation'
+
+/** A StarDict or DICT dictionary installed under userData/dictionaries */
+export interface Dictionary {
+  id: string
+  name: string
+  format: 'stardict' | 'dict'
+  kind: DictionaryKind
+  source_language: string | null
+  target_language: string | null
+  word_count: number
+  enabled: number
+  created_at: string
+}
+
+export interface DictionaryDefinition {
+  format: 'text' | 'html'
+  content: string
+}
+
+export interface LookupEntry {
+  headword: string
+  definitions: DictionaryDefinition[]
+  dictionaryId: string
+  dictionaryName: string
+  kind: DictionaryKind
+  /** The selected form, when the entry is for its base form */
+  inflectedFrom: string | null
+}
+
+export interface LookupResult {
+  query: string
+  language: string | null
+  entries: LookupEntry[]
+}
+
+/** A selection sent to the lookup panel */
+export interface LookupRequest {
+  text: string
+  cfiRange: string | null
+  context: string | null
+}
+
 export const HIGHLIGHT_COLORS = [
   { name: 'Yellow', value: '#fef08a' },
   { name: 'Green', value: '#bbf7d0' },
@@ -152,6 +385,16 @@ export interface SessionSnapshot {
   microbreakActive: boolean
   totalMicrobreakMs: number
   microbreakIntervalMinutes: number
+  pagesViewed: number
+  wordsRead: number
+}
+
+/** The page on screen, reported to the session manager on every page turn */
+export interface PageLocation {
+  startCfi: string
+  endCfi: string
+  start: ReadingPosition
+  end: ReadingPosition
 }
 
 export interface SessionWrapUpData {
@@ -188,10 +431,255 @@ export interface RecapData {
     total_sessions: number
     last_session_date: string | null
   }
+  /** Null for finished books and books without word counts yet */
+  timeLeft: TimeLeft | null
 }
 
 export const DEFAULT_INACTIVITY_DAYS = 3
 
+export type {
+  ChapterWords,
+  ReadingPosition,
+  ReadingSpeed,
+  ReadingSpeeds,
+  TimeLeft
+} from '@shared/reading/timeLeft'
+
+// ─── Full-Text Search ───────────────────────────────
+
+/** Where to land in a book: a spine href plus the matched text around the hit */
+export interface SearchTarget {
+  href: string
+  before: string
+  match: string
+  after: string
+}
+
+/** A footnote or endnote lifted out of the book for the popover */
+export interface FootnoteEntry {
+  /** Where the note lives, relative to the package, for going to it */
+  href: string
+  html: string
+  /** The reference's marker, e.g. "12" or "*" */
+  label: string
+}
+
+export interface FootnotePopup {
+  /** Notes opened from one another; the last is on screen */
+  entries: FootnoteEntry[]
+  /** Below the reference, in window coordinates */
+  x: number
+  y: number
+}
+
+export interface BookSearchHit extends SearchTarget {
+  book_id: string
+  book_title: string
+  book_author: string | null
+  spine_index: number
+}
+
+// ─── Cloud Sync ─────────────────────────────────────
+
+export interface FirebaseOptions {
+  apiKey: string
+  authDomain: string
+  projectId: string
+  storageBucket: string
+  appId: string
+}
+
+export interface SyncConfig {
+  enabled: boolean
+  firebase: FirebaseOptions | null
+  email: string | null
+  emulatorHost: string | null
+  intervalMinutes: number
+}
+
+export interface SyncStatus {
+  state: 'idle' | 'syncing' | 'error'
+  signedIn: boolean
+  lastSyncAt: string | null
+  lastError: string | null
+  counts: { pushed: number; pulled: number; deleted: number; skipped: number } | null
+}
+
+// ─── Library Backup ─────────────────────────────────
+
+export interface BackupImportSummary {
+  mode: 'merge' | 'replace'
+  schemaVersion: number
+  /** Rows added per table */
+  imported: Record<string, number>
+  files: number
+}
+
+// ─── Clipping Import ────────────────────────────────
+
+export interface ClippingImportReport {
+  files: number
+  clippings: number
+  imported: number
+  notes: number
+  duplicates: number
+  queued: number
+  skipped: number
+  errors: string[]
+}
+
+export interface QueuedClipping {
+  id: string
+  source: 'kindle' | 'koreader'
+  book_title: string
+  book_author: string | null
+  /** Book it matched but could not be anchored in */
+  book_id: string | null
+  matched_title: string | null
+  reason: 'no_book' | 'no_anchor'
+  text: string
+  note: string | null
+  chapter: string | null
+  location: string | null
+  clipped_at: string | null
+  created_at: string
+}
+
+// ─── Watched Folders ────────────────────────────────
+
+export interface WatchConfig {
+  enabled: boolean
+  folders: string[]
+  categoryId: string | null
+  readingMode: 'study' | 'leisure' | null
+}
+
+export interface WatchStatus {
+  state: 'idle' | 'scanning' | 'importing'
+  current: string | null
+  queued: number
+  imported: number
+  errors: { path: string; error: string; at: string }[]
+  unavailable: string[]
+}
+
+// ─── Calibre Import ─────────────────────────────────
+
+export interface CalibreBook {
+  calibreId: number
+  uuid: string
+  title: string
+  author: string | null
+  series: string | null
+  seriesIndex: number | null
+  tags: string[]
+  rating: number | null
+  publishedAt: string | null
+  description: string | null
+  language: string | null
+  filePath: string | null
+  format: BookFormat | null
+  existingBookId: string | null
+}
+
+export interface CalibreLibrary {
+  path: string
+  name: string
+  books: CalibreBook[]
+}
+
+export interface CalibreImportReport {
+  imported: number
+  updated: number
+  skipped: number
+  categoriesCreated: number
+  errors: string[]
+}
+
+export interface CalibreImportProgress {
+  done: number
+  total: number
+  title: string
+}
+
+// ─── OPDS Catalogs ──────────────────────────────────
+
+export interface OpdsCatalog {
+  id: string
+  title: string
+  url: string
+  username: string | null
+  hasPassword: boolean
+}
+
+export interface OpdsAcquisition {
+  href: string
+  type: string
+  format: 'epub' | 'pdf' | null
+  kind: 'open' | 'buy' | 'borrow' | 'sample'
+}
+
+export interface OpdsEntry {
+  id: string
+  title: string
+  author: string | null
+  summary: string | null
+  language: string | null
+  published: string | null
+  coverUrl: string | null
+  /** Sub-feed to open, for navigation entries */
+  href: string | null
+  acquisitions: OpdsAcquisition[]
+}
+
+export interface OpdsFeed {
+  url: string
+  title: string
+  navigation: OpdsEntry[]
+  publications: OpdsEntry[]
+  next: string | null
+  previous: string | null
+  start: string | null
+  /** URL with a {searchTerms} placeholder */
+  searchTemplate: string | null
+}
+
+// ─── Flashcard Review ───────────────────────────────
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+
+export interface ReviewCard {
+  id: string
+  book_id: string
+  highlight_id: string | null
+  note_id: string | null
+  kind: 'basic' | 'cloze'
+  /** Cloze cards mark hidden spans as {{answer}} */
+  front: string
+  back: string | null
+  edited: number
+  suspended: number
+  ease: number
+  interval_days: number
+  repetitions: number
+  lapses: number
+  due_at: string
+  last_reviewed_at: string | null
+  book_title: string
+  book_author: string | null
+  cfi_range: string | null
+  highlight_color: string | null
+  chapter: string | null
+  /** Next interval per answer button, in days */
+  intervals: Record<ReviewGrade, number>
+}
+
+export interface ReviewCounts {
+  due: number
+  new: number
+  total: number
+}
+
 // ─── Categories & Learning Tracks ──────────────────
 
 export interface Category {
@@ -199,6 +687,7 @@ export interface Category {
   name: string
   color: string | null
   icon: string | null
+  typography_profile_id: string | null
   created_at: string
 }
 
@@ -211,12 +700,17 @@ export interface CategoryTrack {
   manual_base_hours: number | null
   notes: string | null
   source_label: string | null
+  /** 1 when read-aloud listening counts toward the track */
+  count_listening: number
   created_at: string
   updated_at: string
 }
 
 export interface TrackProgress {
   activeMinutes: number
+  reviewMinutes: number
+  listeningMinutes: number
+  countsListening: boolean
   manualMinutes: number
   manualBaseMinutes: number
   totalMinutes: number
@@ -224,9 +718,42 @@ export interface TrackProgress {
   percentComplete: number
 }
 
+export type TrackPaceStatus = 'completed' | 'on-track' | 'at-risk' | 'behind' | 'overdue' | 'no-deadline'
+
+export interface TrackForecast {
+  status: TrackPaceStatus
+  /** Hours per week over the recent history, counting sessions and manual entries */
+  weeklyHours: number
+  /** Lower and upper weekly pace of the confidence band */
+  weeklyHoursLow: number
+  weeklyHoursHigh: number
+  /** Complete weeks the pace was measured over */
+  weeksObserved: number
+  remainingHours: number
+  /** Hours per week needed from now on to finish by the deadline; null without one */
+  requiredWeeklyHours: number | null
+  weeksToDeadline: number | null
+  /** Projected finish at the average pace, and at the fast and slow ends of the band */
+  projectedCompletion: string | null
+  earliestCompletion: string | null
+  latestCompletion: string | null
+  /** Hours per complete week, oldest first */
+  history: { weekStart: string; hours: number }[]
+}
+
 export interface TrackWithProgress extends CategoryTrack {
   category: Category
   progress: TrackProgress
+  /** Null for tracks without target hours */
+  forecast: TrackForecast | null
+}
+
+export interface TrackPaceAlert {
+  categoryId: string
+  categoryName: string
+  status: TrackPaceStatus
+  title: string
+  message: string
 }
 
 export interface ManualTimeEntry {
@@ -238,37 +765,175 @@ export interface ManualTimeEntry {
   created_at: string
 }
 
+export interface ReadingGoal {
+  id: string
+  goal_type: GoalType
+  target: number
+  period: GoalPeriod
+  scope: GoalScope
+  scope_id: string | null
+  title: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReadingGoalWithProgress extends ReadingGoal {
+  /** Name of the category or book a scoped goal covers */
+  scope_name: string | null
+  progress: GoalProgress
+}
+
+export type { GoalPeriod, GoalProgress, GoalScope, GoalStatus, GoalType } from '@shared/goals'
+
 // ─── TTS (Text-to-Speech) ─────────────────────────
 
 export type TtsState = 'idle' | 'loading' | 'speaking' | 'paused'
 
+export type TtsEngineId = 'kokoro' | 'piper'
+
 export interface TtsSnapshot {
   state: TtsState
   bookId: string | null
   chapterHref: string | null
+  /** Spine document being read, when playback can continue into the next one */
+  sectionHref: string | null
+  engine: TtsEngineId
   voiceId: string
   rate: number
   currentChunkIndex: number
   totalChunks: number
+  sleep: TtsSleepTimer | null
+  queue: TtsQueueItem[]
+}
+
+export type TtsSleepTimerSpec =
+  | { mode: 'minutes'; minutes: number }
+  | { mode: 'chapter' }
+  | { mode: 'chunks'; count: number }
+
+export interface TtsSleepTimer {
+  mode: TtsSleepTimerSpec['mode']
+  /** Epoch ms the 'minutes' timer runs out */
+  endsAt: number | null
+  /** Chunks still to play in 'chunks' mode, the current one included */
+  chunksLeft: number | null
+  /** Playback stops when the current chunk ends */
+  endsWithChunk: boolean
+}
+
+export interface TtsQueueItem {
+  id: string
+  bookId: string
+  title: string
+  /** null resumes the book where listening stopped */
+  sectionHref: string | null
+  label: string
+}
+
+export interface TtsEngineStatus {
+  id: TtsEngineId
+  label: string
+  installed: boolean
+  ready: boolean
 }
 
 export interface TtsVoice {
   id: string
+  engine: TtsEngineId
   name: string
   language: string
-  gender: 'female' | 'male'
+  gender?: 'female' | 'male'
   installed: boolean
 }
 
-export interface TextChunk {
-  index: number
+export type { TextChunk } from '@shared/tts/chunker'
+
+/** Estimated timing of one word of a chunk, as a character range into the chunk text */
+export interface TtsWordTiming {
+  start: number
+  end: number
+  startMs: number
+  endMs: number
+}
+
+/** The word being spoken right now */
+export interface TtsSpokenWord {
+  chunkIndex: number
+  wordIndex: number
   text: string
-  startOffset: number
+  /** Character offset of the word in chunkText */
+  start: number
+  chunkText: string
+}
+
+/** A user's "say this word like that" rule for read-aloud; book_id null applies to every book */
+export interface PronunciationRule {
+  id: string
+  book_id: string | null
+  term: string
+  replacement: string
+  case_sensitive: number
+  created_at: string
+  updated_at: string
+}
+
+export interface PronunciationInput {
+  id?: string
+  bookId: string | null
+  term: string
+  replacement: string
+  caseSensitive: boolean
 }
 
 export const TTS_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2] as const
 export type TtsRate = (typeof TTS_RATES)[number]
 
+export type AudiobookFormat = 'm4b' | 'chapters'
+
+export type AudiobookJobState = 'queued' | 'rendering' | 'encoding' | 'paused' | 'done' | 'failed'
+
+export interface AudiobookChapter {
+  title: string
+  chunkCount: number
+  doneChunks: number
+  file: string | null
+  durationMs: number
+}
+
+export interface AudiobookJob {
+  id: string
+  bookId: string
+  title: string
+  author: string | null
+  engine: TtsEngineId
+  voiceId: string
+  rate: number
+  format: AudiobookFormat
+  /** The .m4b file, or the folder holding per-chapter files */
+  outputPath: string
+  state: AudiobookJobState
+  chapters: AudiobookChapter[]
+  totalChunks: number
+  doneChunks: number
+  /** Progress of the final M4B encode or file copy, 0–100 */
+  encodePercent: number
+  error: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+/** Page colors as HSL triplets, matching the --reading-* variables in index.css */
+export const PAGE_THEMES: { value: Exclude<PageTheme, 'app'>; label: string; bg: string; fg: string; link: string }[] = [
+  { value: 'light', label: 'Paper', bg: '39 35% 96%', fg: '30 12% 18%', link: '30 60% 42%' },
+  { value: 'sepia', label: 'Sepia', bg: '36 42% 86%', fg: '28 32% 20%', link: '25 60% 35%' },
+  { value: 'dark', label: 'Night', bg: '30 10% 10%', fg: '35 12% 78%', link: '35 65% 60%' }
+]
+
+/** font-family value for an imported font, with a fallback while it loads */
+export function customFontValue(family: string): string {
+  return `"${family.replace(/"/g, '')}", Georgia, serif`
+}
+
 export const FONT_FAMILIES = [
   { label: 'Literata', value: 'Literata, Georgia, serif' },
   { label: 'Georgia', value: 'Georgia, serif' },
@@ -0,0 +1,60 @@
+import { ExportFormat } from '../types'
+import { dateOnly, escapeHtml } from '../util'
+
+// Anki's text import with file headers, so no import options need setting:
+// Front, Back, Tags — tab separated, HTML fields.
+
+function field(html: string): string {
+  return html.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>')
+}
+
+/** Anki tags are space separated; keep letters, digits, "_" and "-" */
+function tag(value: string): string {
+  return value.trim().replace(/[^\p{L}\p{N}_-]+/gu, '_')
+}
+
+function source(title: string, chapter: string | null): string {
+  return `<div class="source">— ${escapeHtml(title)}${chapter ? `, ${escapeHtml(chapter)}` : ''}</div>`
+}
+
+export const ankiFormat: ExportFormat = {
+  id: 'anki',
+  label: 'Anki (TSV)',
+  extension: 'txt',
+  mimeType: 'text/tab-separated-values',
+  perBook: false,
+  serialize: (groups, exportedAt) => {
+    const lines = ['#separator:tab', '#html:true', '#notetype:Basic', '#tags column:3']
+
+    for (const { book, highlights, notes } of groups) {
+      const bookTag = `flareread::${tag(book.title)}`
+      for (const h of highlights) {
+        const back = h.notes.length > 0
+          ? h.notes.map((n) => escapeHtml(n.content)).join('<hr>')
+          : ''
+        const tags = new Set(['flareread', bookTag, ...h.notes.flatMap((n) => n.tags.map(tag))])
+        lines.push(
+          [field(escapeHtml(h.text)), field(back + source(book.title, h.chapter)), Array.from(tags).join(' ')].join('\t')
+        )
+      }
+      // A standalone note makes a card only when it reads as a question
+      for (const n of notes) {
+        const [question, ...rest] = n.content.trim().split('\n')
+        const answer = rest.join('\n').trim()
+        if (!question?.trim().endsWith('?') || !answer) continue
+        const tags = new Set(['flareread', bookTag, ...n.tags.map(tag)])
+        lines.push(
+          [field(escapeHtml(question.trim())), field(escapeHtml(answer) + source(book.title, null)), Array.from(tags).join(' ')].join('\t')
+        )
+      }
+    }
+
+    return [
+      {
+        name: `flareread-anki-${dateOnly(exportedAt)}.txt`,
+        content: lines.join('\n') + '\n',
+        mimeType: 'text/tab-separated-values'
+      }
+    ]
+  }
+}
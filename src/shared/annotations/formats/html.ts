@@ -0,0 +1,70 @@
+import { ExportFormat, ExportNote } from '../types'
+import { byChapter, dateOnly, escapeHtml } from '../util'
+
+const STYLE = `
+  body { font-family: Georgia, 'Times New Roman', serif; max-width: 46rem; margin: 3rem auto; padding: 0 1.5rem; color: #222; line-height: 1.6; }
+  h1 { font-size: 1.9rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.45rem; margin-top: 3rem; border-bottom: 1px solid #ddd; padding-bottom: 0.3rem; }
+  h3 { font-size: 1.05rem; color: #666; margin-top: 1.75rem; }
+  .author, .meta { color: #777; font-style: italic; margin-top: 0; }
+  blockquote { margin: 1rem 0 0.5rem; padding: 0.4rem 0.9rem; border-left: 4px solid; border-radius: 2px; }
+  .note { margin: 0.25rem 0 1rem 1.2rem; }
+  .tags { color: #888; font-size: 0.85rem; }
+  @media print { body { margin: 0 auto; } }
+`
+
+function renderNote(note: ExportNote): string {
+  const tags = note.tags.length > 0 ? ` <span class="tags">${note.tags.map((t) => `#${escapeHtml(t)}`).join(' ')}</span>` : ''
+  return `<p class="note">${escapeHtml(note.content).replace(/\n/g, '<br>')}${tags}</p>`
+}
+
+export const htmlFormat: ExportFormat = {
+  id: 'html',
+  label: 'HTML',
+  extension: 'html',
+  mimeType: 'text/html',
+  perBook: false,
+  serialize: (groups, exportedAt) => {
+    const parts: string[] = [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<title>FlareRead Annotations</title>',
+      `<style>${STYLE}</style>`,
+      '</head>',
+      '<body>',
+      '<h1>Reading Annotations</h1>',
+      `<p class="meta">Exported from FlareRead on ${dateOnly(exportedAt)}</p>`
+    ]
+
+    for (const { book, highlights, notes } of groups) {
+      parts.push(`<section>`, `<h2>${escapeHtml(book.title)}</h2>`)
+      if (book.author) parts.push(`<p class="author">by ${escapeHtml(book.author)}</p>`)
+
+      for (const [chapter, chapterHighlights] of byChapter(highlights, 'Uncategorized')) {
+        parts.push(`<h3>${escapeHtml(chapter)}</h3>`)
+        for (const h of chapterHighlights) {
+          parts.push(
+            `<blockquote style="border-color: ${escapeHtml(h.color)}; background: ${escapeHtml(h.color)}33">${escapeHtml(h.text)}</blockquote>`,
+            ...h.notes.map(renderNote)
+          )
+        }
+      }
+
+      if (notes.length > 0) {
+        parts.push('<h3>Notes</h3>', ...notes.map(renderNote))
+      }
+      parts.push('</section>')
+    }
+
+    parts.push('</body>', '</html>', '')
+    return [
+      {
+        name: `flareread-annotations-${dateOnly(exportedAt)}.html`,
+        content: parts.join('\n'),
+        mimeType: 'text/html'
+      }
+    ]
+  }
+}
@@ -0,0 +1,40 @@
+import { ExportFormat } from '../types'
+import { dateOnly } from '../util'
+
+export const jsonFormat: ExportFormat = {
+  id: 'json',
+  label: 'JSON',
+  extension: 'json',
+  mimeType: 'application/json',
+  perBook: false,
+  serialize: (groups, exportedAt) => {
+    const data = {
+      source: 'FlareRead',
+      version: 1,
+      exportedAt,
+      books: groups.map(({ book, highlights, notes }) => ({
+        id: book.id,
+        title: book.title,
+        author: book.author,
+        category: book.categoryName,
+        highlights: highlights.map((h) => ({
+          id: h.id,
+          text: h.text,
+          color: h.color,
+          chapter: h.chapter,
+          location: h.location,
+          createdAt: h.createdAt,
+          notes: h.notes.map((n) => ({ id: n.id, content: n.content, tags: n.tags, createdAt: n.createdAt }))
+        })),
+        notes: notes.map((n) => ({ id: n.id, content: n.content, tags: n.tags, createdAt: n.createdAt }))
+      }))
+    }
+    return [
+      {
+        name: `flareread-annotations-${dateOnly(exportedAt)}.json`,
+        content: JSON.stringify(data, null, 2) + '\n',
+        mimeType: 'application/json'
+      }
+    ]
+  }
+}
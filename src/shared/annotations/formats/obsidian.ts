@@ -0,0 +1,89 @@
+import { BookAnnotations, ExportFormat } from '../types'
+import { byChapter, dateOnly, safeFileName } from '../util'
+
+/** YAML double-quoted scalar */
+function yamlString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+function quote(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n')
+}
+
+function tagList(tags: string[]): string {
+  return tags.map((t) => `#${t.replace(/\s+/g, '-')}`).join(' ')
+}
+
+function renderBook(group: BookAnnotations, exportedAt: string): string {
+  const { book } = group
+  const lines: string[] = ['---', `title: ${yamlString(book.title)}`]
+  if (book.author) lines.push(`author: ${yamlString(book.author)}`)
+  if (book.categoryName) lines.push(`category: ${yamlString(book.categoryName)}`)
+  lines.push(
+    `highlights: ${group.highlights.length}`,
+    `notes: ${group.notes.length + group.highlights.reduce((n, h) => n + h.notes.length, 0)}`,
+    `bookmarks: ${group.bookmarks.length}`,
+    `exported: ${dateOnly(exportedAt)}`,
+    'tags:',
+    '  - flareread',
+    '---',
+    '',
+    `# ${book.title}`,
+    ''
+  )
+  if (book.author) lines.push(`*by ${book.author}*`, '')
+
+  if (group.highlights.length > 0) {
+    lines.push('## Highlights', '')
+    for (const [chapter, highlights] of byChapter(group.highlights, 'Uncategorized')) {
+      lines.push(`### ${chapter}`, '')
+      for (const h of highlights) {
+        // Block id so other notes can link straight to the passage
+        lines.push(quote(h.text), '', `^${h.id.replace(/[^a-zA-Z0-9-]/g, '').slice(0, 12)}`, '')
+        for (const n of h.notes) {
+          lines.push(`**Note:** ${n.content}`)
+          if (n.tags.length > 0) lines.push(`Tags: ${tagList(n.tags)}`)
+          lines.push('')
+        }
+      }
+    }
+  }
+
+  if (group.notes.length > 0) {
+    lines.push('## Notes', '')
+    for (const n of group.notes) {
+      lines.push(`- ${n.content.replace(/\n/g, '\n  ')}`)
+      if (n.tags.length > 0) lines.push(`  Tags: ${tagList(n.tags)}`)
+      lines.push('')
+    }
+  }
+
+  if (group.bookmarks.length > 0) {
+    lines.push('## Bookmarks', '')
+    for (const b of group.bookmarks) {
+      const where = [b.label && b.chapter ? b.chapter : null, `${Math.round(b.percent)}%`].filter(Boolean).join(' · ')
+      lines.push(`- ${b.label || b.chapter || 'Bookmark'} (${where})`)
+    }
+    lines.push('')
+  }
+
+  lines.push('---', `*Exported from FlareRead on ${dateOnly(exportedAt)}*`, '')
+  return lines.join('\n')
+}
+
+export const obsidianFormat: ExportFormat = {
+  id: 'obsidian',
+  label: 'Obsidian Markdown',
+  extension: 'md',
+  mimeType: 'text/markdown',
+  perBook: true,
+  serialize: (groups, exportedAt) =>
+    groups.map((group) => ({
+      name: `${safeFileName(group.book.title)}.md`,
+      content: renderBook(group, exportedAt),
+      mimeType: 'text/markdown'
+    }))
+}
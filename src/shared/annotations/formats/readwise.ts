@@ -0,0 +1,48 @@
+import { ExportFormat, ExportNote } from '../types'
+import { dateOnly } from '../util'
+
+// Columns of Readwise's CSV import template
+const COLUMNS = ['Highlight', 'Title', 'Author', 'URL', 'Note', 'Location', 'Date']
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/** Readwise turns ".tag" tokens at the start of a note into tags */
+function noteText(notes: ExportNote[]): string {
+  const tags = Array.from(new Set(notes.flatMap((n) => n.tags))).map((t) => `.${t.replace(/\s+/g, '-')}`)
+  const body = notes.map((n) => n.content).join('\n\n')
+  return tags.length > 0 ? `${tags.join(' ')}\n${body}`.trim() : body
+}
+
+/** "YYYY-MM-DD HH:MM:SS" in UTC */
+function readwiseDate(iso: string): string {
+  return iso.slice(0, 19).replace('T', ' ')
+}
+
+export const readwiseFormat: ExportFormat = {
+  id: 'readwise',
+  label: 'Readwise CSV',
+  extension: 'csv',
+  mimeType: 'text/csv',
+  perBook: false,
+  serialize: (groups, exportedAt) => {
+    const rows: string[][] = [COLUMNS]
+    for (const { book, highlights, notes } of groups) {
+      for (const h of highlights) {
+        rows.push([h.text, book.title, book.author ?? '', '', noteText(h.notes), '', readwiseDate(h.createdAt)])
+      }
+      // Standalone notes have no passage, so the note itself becomes the highlight
+      for (const n of notes) {
+        rows.push([n.content, book.title, book.author ?? '', '', noteText([{ ...n, content: '' }]), '', readwiseDate(n.createdAt)])
+      }
+    }
+    return [
+      {
+        name: `flareread-readwise-${dateOnly(exportedAt)}.csv`,
+        content: rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n',
+        mimeType: 'text/csv'
+      }
+    ]
+  }
+}
@@ -0,0 +1,68 @@
+import { AnnotationSet, BookAnnotations, ExportFile, ExportFormat, ExportFormatId, ExportOptions, ExportScope } from './types'
+import { obsidianFormat } from './formats/obsidian'
+import { readwiseFormat } from './formats/readwise'
+import { ankiFormat } from './formats/anki'
+import { jsonFormat } from './formats/json'
+import { htmlFormat } from './formats/html'
+
+export * from './types'
+
+// ─── Annotation Exporter ────────────────────────────
+// One serializer for both apps: the desktop main process and the web app map
+// their data into an AnnotationSet and get byte-identical files back.
+
+export const EXPORT_FORMATS: Record<ExportFormatId, ExportFormat> = {
+  obsidian: obsidianFormat,
+  readwise: readwiseFormat,
+  anki: ankiFormat,
+  json: jsonFormat,
+  html: htmlFormat
+}
+
+function inRange(createdAt: string, scope: ExportScope): boolean {
+  if (scope.from && createdAt < scope.from) return false
+  // A bare date for "to" covers that whole day
+  if (scope.to && createdAt > (scope.to.length === 10 ? `${scope.to}T23:59:59.999Z` : scope.to)) return false
+  return true
+}
+
+/** Narrow an annotation set to a scope and group it by book, oldest first */
+export function groupAnnotations(set: AnnotationSet, scope: ExportScope = {}): BookAnnotations[] {
+  const books = set.books.filter(
+    (b) => (!scope.bookId || b.id === scope.bookId) && (!scope.categoryId || b.categoryId === scope.categoryId)
+  )
+  const byCreated = <T extends { createdAt: string }>(a: T, b: T): number => a.createdAt.localeCompare(b.createdAt)
+
+  const groups: BookAnnotations[] = []
+  for (const book of books) {
+    const bookNotes = set.notes.filter((n) => n.bookId === book.id && inRange(n.createdAt, scope)).sort(byCreated)
+    const highlights = set.highlights
+      .filter((h) => h.bookId === book.id && inRange(h.createdAt, scope))
+      .sort(byCreated)
+      .map((h) => ({ ...h, notes: bookNotes.filter((n) => n.highlightId === h.id) }))
+
+    // Notes whose highlight is gone (or outside the range) stand on their own
+    const shown = new Set(highlights.map((h) => h.id))
+    const notes = bookNotes.filter((n) => !n.highlightId || !shown.has(n.highlightId))
+
+    const bookmarks = (set.bookmarks ?? [])
+      .filter((b) => b.bookId === book.id && inRange(b.createdAt, scope))
+      .sort((a, b) => a.percent - b.percent || byCreated(a, b))
+
+    if (highlights.length > 0 || notes.length > 0 || bookmarks.length > 0) {
+      groups.push({ book, highlights, notes, bookmarks })
+    }
+  }
+  return groups.sort((a, b) => a.book.title.localeCompare(b.book.title))
+}
+
+export function exportAnnotations(
+  set: AnnotationSet,
+  format: ExportFormatId,
+  scope: ExportScope = {},
+  options: ExportOptions = {}
+): ExportFile[] {
+  const exporter = EXPORT_FORMATS[format]
+  if (!exporter) throw new Error(`Unknown export format: ${format}`)
+  return exporter.serialize(groupAnnotations(set, scope), options.exportedAt ?? new Date().toISOString())
+}
@@ -0,0 +1,97 @@
+// ─── Annotation Export Types ────────────────────────
+// Plain data shared by the desktop and web apps. Each app maps its own rows or
+// Firestore documents into these shapes; dates are ISO strings.
+
+export interface ExportBook {
+  id: string
+  title: string
+  author: string | null
+  categoryId: string | null
+  categoryName: string | null
+}
+
+export interface ExportHighlight {
+  id: string
+  bookId: string
+  text: string
+  color: string
+  chapter: string | null
+  /** EPUB CFI range (or PDF page location) */
+  location: string | null
+  createdAt: string
+}
+
+export interface ExportNote {
+  id: string
+  bookId: string
+  highlightId: string | null
+  content: string
+  tags: string[]
+  createdAt: string
+}
+
+export interface ExportBookmark {
+  id: string
+  bookId: string
+  label: string | null
+  chapter: string | null
+  /** EPUB CFI */
+  location: string
+  percent: number
+  createdAt: string
+}
+
+export interface AnnotationSet {
+  books: ExportBook[]
+  highlights: ExportHighlight[]
+  notes: ExportNote[]
+  /** Only the desktop app keeps bookmarks */
+  bookmarks?: ExportBookmark[]
+}
+
+/** Empty scope exports everything; set fields narrow it down */
+export interface ExportScope {
+  bookId?: string | null
+  categoryId?: string | null
+  /** Inclusive, compared against annotation createdAt */
+  from?: string | null
+  to?: string | null
+}
+
+export type ExportFormatId = 'obsidian' | 'readwise' | 'anki' | 'json' | 'html'
+
+export interface ExportFile {
+  name: string
+  content: string
+  mimeType: string
+}
+
+export interface ExportOptions {
+  /** Defaults to now; passed in so output is reproducible */
+  exportedAt?: string
+}
+
+/** A highlight with the notes attached to it */
+export interface HighlightWithNotes extends ExportHighlight {
+  notes: ExportNote[]
+}
+
+/** Everything being exported for one book, oldest annotations first */
+export interface BookAnnotations {
+  book: ExportBook
+  highlights: HighlightWithNotes[]
+  /** Notes not attached to a highlight */
+  notes: ExportNote[]
+  /** In reading order rather than by date */
+  bookmarks: ExportBookmark[]
+}
+
+export interface ExportFormat {
+  id: ExportFormatId
+  label: string
+  extension: string
+  mimeType: string
+  /** One file per book instead of a single file */
+  perBook: boolean
+  serialize: (groups: BookAnnotations[], exportedAt: string) => ExportFile[]
+}
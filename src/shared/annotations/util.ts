@@ -0,0 +1,28 @@
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/** Strip characters that aren't allowed in file names on any platform */
+export function safeFileName(name: string): string {
+  return name.replace(/[<>:"/\\|?*\u0000-\u001f]/g, '_').replace(/\s+/g, ' ').trim().slice(0, 150) || 'Untitled'
+}
+
+export function dateOnly(iso: string): string {
+  return iso.slice(0, 10)
+}
+
+/** Group highlights by chapter, keeping first-seen chapter order */
+export function byChapter<T extends { chapter: string | null }>(items: T[], fallback: string): Map<string, T[]> {
+  const chapters = new Map<string, T[]>()
+  for (const item of items) {
+    const key = item.chapter || fallback
+    const list = chapters.get(key)
+    if (list) list.push(item)
+    else chapters.set(key, [item])
+  }
+  return chapters
+}
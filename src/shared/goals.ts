@@ -0,0 +1,142 @@
+// ─── Reading Goals ──────────────────────────────────
+// Goal model shared by the desktop app (SQLite, progress computed in main) and
+// the web app (Firestore, progress computed in the browser). Each side counts
+// the raw amount read in the goal's window; everything after that lives here so
+// a "52 books this year" challenge reads and paces the same on both.
+
+export type GoalType = 'books' | 'pages' | 'words' | 'chapters' | 'streak'
+export type GoalPeriod = 'day' | 'week' | 'month' | 'year'
+export type GoalScope = 'global' | 'category' | 'book'
+
+export interface GoalDefinition {
+  type: GoalType
+  target: number
+  /** Window the target resets over; streak goals ignore it and count consecutive days */
+  period: GoalPeriod
+  scope: GoalScope
+  /** Category or book id for scoped goals, null for global ones */
+  scopeId: string | null
+}
+
+export type GoalStatus = 'completed' | 'ahead' | 'on-track' | 'behind'
+
+export interface GoalProgress {
+  current: number
+  target: number
+  percentComplete: number
+  /** Current window as ISO strings; null for streak goals */
+  periodStart: string | null
+  periodEnd: string | null
+  /** Where an even pace through the window would be by now; null for streak goals */
+  expected: number | null
+  status: GoalStatus
+}
+
+export const GOAL_TYPES: Record<GoalType, { label: string; unit: string; units: string }> = {
+  books: { label: 'Books finished', unit: 'book', units: 'books' },
+  pages: { label: 'Pages read', unit: 'page', units: 'pages' },
+  words: { label: 'Words read', unit: 'word', units: 'words' },
+  chapters: { label: 'Chapters finished', unit: 'chapter', units: 'chapters' },
+  streak: { label: 'Reading streak', unit: 'day', units: 'days' }
+}
+
+export const GOAL_PERIODS: Record<GoalPeriod, { per: string; current: string }> = {
+  day: { per: 'per day', current: 'today' },
+  week: { per: 'per week', current: 'this week' },
+  month: { per: 'per month', current: 'this month' },
+  year: { per: 'per year', current: 'this year' }
+}
+
+/** Local calendar day as YYYY-MM-DD, the key streaks are counted in */
+export function localDateKey(d: Date): string {
+  const m = String(d.getMonth() + 1).padStart(2, '0')
+  const day = String(d.getDate()).padStart(2, '0')
+  return `${d.getFullYear()}-${m}-${day}`
+}
+
+/**
+ * The local-time window a periodic goal is counting: today, this Monday-first
+ * week, this month or this year.
+ */
+export function periodBounds(period: GoalPeriod, now: Date = new Date()): { start: Date; end: Date } {
+  const start = new Date(now)
+  start.setHours(0, 0, 0, 0)
+  if (period === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  if (period === 'month') start.setDate(1)
+  if (period === 'year') start.setMonth(0, 1)
+
+  const end = new Date(start)
+  if (period === 'day') end.setDate(end.getDate() + 1)
+  if (period === 'week') end.setDate(end.getDate() + 7)
+  if (period === 'month') end.setMonth(end.getMonth() + 1)
+  if (period === 'year') end.setFullYear(end.getFullYear() + 1)
+  return { start, end }
+}
+
+/**
+ * Consecutive local days with reading, ending today. A streak that ended
+ * yesterday still counts, since today's reading may not have happened yet.
+ */
+export function currentStreak(days: Iterable<string>, now: Date = new Date()): number {
+  const read = new Set(days)
+  const cursor = new Date(now)
+  cursor.setHours(0, 0, 0, 0)
+  if (!read.has(localDateKey(cursor))) cursor.setDate(cursor.getDate() - 1)
+
+  let streak = 0
+  while (read.has(localDateKey(cursor))) {
+    streak++
+    cursor.setDate(cursor.getDate() - 1)
+  }
+  return streak
+}
+
+/** Being within this share of the even pace still counts as on track */
+const PACE_TOLERANCE = 0.1
+
+export function goalProgress(goal: GoalDefinition, current: number, now: Date = new Date()): GoalProgress {
+  const percentComplete = goal.target > 0 ? Math.min(100, (current / goal.target) * 100) : 0
+  const rounded = Math.round(percentComplete * 100) / 100
+
+  if (goal.type === 'streak') {
+    return {
+      current,
+      target: goal.target,
+      percentComplete: rounded,
+      periodStart: null,
+      periodEnd: null,
+      expected: null,
+      status: current >= goal.target ? 'completed' : current > 0 ? 'on-track' : 'behind'
+    }
+  }
+
+  const { start, end } = periodBounds(goal.period, now)
+  const elapsed = (now.getTime() - start.getTime()) / (end.getTime() - start.getTime())
+  const expected = goal.target * Math.min(Math.max(elapsed, 0), 1)
+
+  let status: GoalStatus = 'on-track'
+  if (current >= goal.target) status = 'completed'
+  else if (current > expected * (1 + PACE_TOLERANCE)) status = 'ahead'
+  else if (current < expected * (1 - PACE_TOLERANCE)) status = 'behind'
+
+  return {
+    current,
+    target: goal.target,
+    percentComplete: rounded,
+    periodStart: start.toISOString(),
+    periodEnd: end.toISOString(),
+    expected: Math.round(expected * 10) / 10,
+    status
+  }
+}
+
+/** "52 books this year", "200 pages per week", "30-day reading streak" */
+export function describeGoal(goal: Pick<GoalDefinition, 'type' | 'target' | 'period'>): string {
+  if (goal.type === 'streak') return `${goal.target}-day reading streak`
+  const { unit, units } = GOAL_TYPES[goal.type]
+  const amount = `${goal.target.toLocaleString()} ${goal.target === 1 ? unit : units}`
+  // Yearly and monthly goals read as challenges; shorter ones as a pace
+  return goal.period === 'year' || goal.period === 'month'
+    ? `${amount} ${GOAL_PERIODS[goal.period].current}`
+    : `${amount} ${GOAL_PERIODS[goal.period].per}`
+}
@@ -0,0 +1,125 @@
+// ─── Time Left ──────────────────────────────────────
+// Word-position math shared by the reader footer (renderer, live position), the
+// library and recap (main, saved position) and session tracking (words read), so
+// they all count the same words.
+
+export type ReadingModeKey = 'study' | 'leisure'
+
+/** Words in one spine document or PDF page; see book_chapters */
+export interface ChapterWords {
+  spineIndex: number
+  /** TOC entry starting at this section, null when it continues the previous one */
+  label: string | null
+  wordCount: number
+}
+
+export interface ReadingPosition {
+  spineIndex: number
+  /** How far through that section, 0 to 1 */
+  fraction: number
+}
+
+export interface ReadingSpeed {
+  wpm: number
+  /** False while there's too little session history and the default speed is used */
+  calibrated: boolean
+}
+
+export type ReadingSpeeds = Record<ReadingModeKey, ReadingSpeed>
+
+export interface TimeLeft {
+  /** Null when the book has no table of contents to tell chapters apart */
+  chapterMinutes: number | null
+  bookMinutes: number
+  wpm: number
+  calibrated: boolean
+}
+
+/** Speeds used until the user has enough timed reading of their own */
+export const DEFAULT_WPM: Record<ReadingModeKey, number> = {
+  study: 150,
+  leisure: 250
+}
+
+/** Books without a reading mode are read at leisure speed */
+export function speedForMode(speeds: ReadingSpeeds, mode: string | null | undefined): ReadingSpeed {
+  return mode === 'study' ? speeds.study : speeds.leisure
+}
+
+/**
+ * Section a saved reader location points at: the spine step of an EPUB CFI
+ * ("epubcfi(/6/8[ch03]!/4/2)" is spine index 3) or a PDF page href ("#page=12").
+ */
+export function positionFromLocation(location: string | null | undefined): ReadingPosition | null {
+  if (!location) return null
+  const page = location.match(/^#page=(\d+)/)?.[1]
+  if (page !== undefined) return { spineIndex: Math.max(0, parseInt(page, 10) - 1), fraction: 0 }
+  const step = location.match(/^epubcfi\(\/\d+\/(\d+)/)?.[1]
+  if (step !== undefined) return { spineIndex: Math.max(0, parseInt(step, 10) / 2 - 1), fraction: 0 }
+  return null
+}
+
+/**
+ * Words between the position and the end of its chapter and of the book.
+ * Without a position the whole book is left.
+ */
+export function wordsLeft(
+  chapters: ChapterWords[],
+  position: ReadingPosition | null
+): { chapter: number | null; book: number } {
+  const sorted = [...chapters].sort((a, b) => a.spineIndex - b.spineIndex)
+  const hasChapters = sorted.some((c) => c.label !== null)
+  const start = position ?? { spineIndex: -1, fraction: 0 }
+
+  let book = 0
+  let chapter = 0
+  let inChapter = true
+  let counted = false
+  for (const section of sorted) {
+    if (section.spineIndex < start.spineIndex) continue
+    const words =
+      section.spineIndex === start.spineIndex
+        ? Math.round(section.wordCount * (1 - Math.min(Math.max(start.fraction, 0), 1)))
+        : section.wordCount
+    // The next labelled section after the first one counted starts a new chapter
+    if (counted && section.label !== null) inChapter = false
+    if (inChapter) chapter += words
+    book += words
+    counted = true
+  }
+
+  return { chapter: hasChapters ? chapter : null, book }
+}
+
+/**
+ * Words before the position, from the start of the book. The difference between
+ * two offsets is the text in between, which is how session reading is measured.
+ */
+export function wordOffset(chapters: ChapterWords[], position: ReadingPosition): number {
+  let offset = 0
+  for (const section of chapters) {
+    if (section.spineIndex < position.spineIndex) offset += section.wordCount
+    else if (section.spineIndex === position.spineIndex) {
+      offset += Math.round(section.wordCount * Math.min(Math.max(position.fraction, 0), 1))
+    }
+  }
+  return offset
+}
+
+export function minutesToRead(words: number, wpm: number): number {
+  return wpm > 0 ? Math.ceil(words / wpm) : 0
+}
+
+export function estimateTimeLeft(
+  chapters: ChapterWords[],
+  position: ReadingPosition | null,
+  speed: ReadingSpeed
+): TimeLeft {
+  const left = wordsLeft(chapters, position)
+  return {
+    chapterMinutes: left.chapter === null ? null : minutesToRead(left.chapter, speed.wpm),
+    bookMinutes: minutesToRead(left.book, speed.wpm),
+    wpm: speed.wpm,
+    calibrated: speed.calibrated
+  }
+}